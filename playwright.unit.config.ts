@@ -0,0 +1,8 @@
+// @ts-nocheck
+// eslint-disable
+import { defineConfig } from '@playwright/test';
+
+// Unit specs exercise modules directly and don't need the dev server
+export default defineConfig({
+    testDir: 'tests/unit',
+});
@@ -0,0 +1,91 @@
+#!/usr/bin/env tsx
+/**
+ * scripts/evaluate.ts
+ * Run the evaluation fixtures through a provider and store the report.
+ *
+ *   npm run evaluate -- --provider mock
+ *   npm run evaluate -- --provider openai --model gpt-4o --type BIOGRAPHY \
+ *     --judge-provider anthropic --label "new outline prompt" --baseline <runId>
+ *
+ * With --baseline, exits non-zero when any fixture regressed.
+ */
+
+import { parseArgs } from "node:util";
+import { DOCUMENT_CONFIGS, type BuiltInDocumentType } from "~/config/documents";
+import { db } from "~/server/db";
+import { EvaluationService } from "~/server/services/evaluation";
+import type { ProviderName } from "~/server/services/llm";
+
+const percent = (value: number | null) =>
+  value === null ? "—" : `${Math.round(value * 100)}%`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      provider: { type: "string", default: "mock" },
+      model: { type: "string" },
+      type: { type: "string" },
+      "judge-provider": { type: "string" },
+      "judge-model": { type: "string" },
+      label: { type: "string" },
+      baseline: { type: "string" },
+    },
+  });
+
+  if (values.type && !(values.type in DOCUMENT_CONFIGS)) {
+    throw new Error(
+      `Unknown document type ${values.type}. Use one of ${Object.keys(DOCUMENT_CONFIGS).join(", ")}`,
+    );
+  }
+
+  const run = await EvaluationService.createRun({
+    label: values.label,
+    documentType: values.type as BuiltInDocumentType | undefined,
+    provider: values.provider as ProviderName,
+    model: values.model,
+    judgeProvider: values["judge-provider"] as ProviderName | undefined,
+    judgeModel: values["judge-model"],
+  });
+
+  console.log(`Evaluation run ${run.id}: ${run.provider}/${run.model}`);
+  await EvaluationService.execute(run.id);
+
+  const results = await db.evaluationResult.findMany({
+    where: { runId: run.id },
+    orderBy: { fixtureId: "asc" },
+  });
+  console.table(
+    results.map((result) => ({
+      fixture: result.fixtureId,
+      structure: percent(result.structureScore),
+      length: `${result.wordCount}/${result.targetWords}`,
+      readability: percent(result.readabilityScore),
+      judge: percent(result.judgeScore),
+      overall: percent(result.overallScore),
+      error: result.error ?? "",
+    })),
+  );
+
+  const completed = await db.evaluationRun.findUniqueOrThrow({
+    where: { id: run.id },
+  });
+  console.log(`Overall score: ${percent(completed.overallScore)}`);
+
+  if (values.baseline) {
+    const comparison = await EvaluationService.compare(values.baseline, run.id);
+    console.log(
+      `Against ${values.baseline}: overall ${percent(comparison.averageDelta.overall)} change, ${comparison.regressions} regressed fixture(s)`,
+    );
+    for (const fixture of comparison.fixtures.filter((f) => f.regressed)) {
+      console.log(`  ${fixture.fixtureId}: ${percent(fixture.delta.overall)}`);
+    }
+    if (comparison.regressions > 0) process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Evaluation failed", error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$disconnect());
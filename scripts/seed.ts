@@ -0,0 +1,20 @@
+#!/usr/bin/env tsx
+/**
+ * scripts/seed.ts
+ * Seed reference data. Safe to re-run: existing rows are left untouched.
+ */
+
+import { db } from "~/server/db";
+import { ModelCatalogService } from "~/server/services/llm/model-catalog";
+
+async function main() {
+  const added = await ModelCatalogService.seedDefaults();
+  console.log(`Model catalog: ${added} default models added`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Seeding failed", error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$disconnect());
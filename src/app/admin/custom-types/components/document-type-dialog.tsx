@@ -0,0 +1,349 @@
+"use client";
+// src/app/admin/custom-types/components/document-type-dialog.tsx
+
+import { useEffect, useState } from "react";
+import { type ExportFormat } from "@prisma/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import { Textarea } from "~/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_PROMPT_PLACEHOLDERS,
+  DEFAULT_TOKEN_ESTIMATE,
+  type CustomField,
+  type CustomSection,
+  type TokenEstimate,
+} from "~/config/custom-document-types";
+
+const EXPORT_FORMATS: ExportFormat[] = ["PDF", "DOCX", "MARKDOWN", "HTML", "TXT"];
+
+export interface DocumentTypeFormValues {
+  slug: string;
+  name: string;
+  description?: string;
+  icon: string;
+  enabled: boolean;
+  fields: CustomField[];
+  sections: CustomSection[];
+  exportFormats: ExportFormat[];
+  estimatedTokens: TokenEstimate;
+  systemPrompt: string;
+  outlinePrompt: string;
+  sectionPrompt: string;
+  refinementPrompt: string;
+}
+
+const EMPTY_TYPE: DocumentTypeFormValues = {
+  slug: "",
+  name: "",
+  description: "",
+  icon: "FileText",
+  enabled: true,
+  fields: [
+    {
+      name: "summary",
+      label: "Summary",
+      type: "textarea",
+      required: true,
+      placeholder: "What should the document cover?",
+    },
+  ],
+  sections: [
+    { id: "introduction", name: "Introduction", order: 1 },
+    { id: "details", name: "Details", order: 2 },
+    { id: "conclusion", name: "Conclusion", order: 3 },
+  ],
+  exportFormats: ["PDF", "DOCX", "MARKDOWN"],
+  estimatedTokens: DEFAULT_TOKEN_ESTIMATE,
+  systemPrompt: "You are an expert writer producing clear, well-structured documents.",
+  outlinePrompt:
+    "Create an outline for a {{outputLength}} document titled \"{{title}}\" in {{language}}.\n\nSummary:\n{{summary}}\n\nSections:\n{{sections}}",
+  sectionPrompt:
+    "Write the \"{{sectionTitle}}\" section of \"{{input.title}}\".\n\nSection outline:\n{{sectionOutline}}\n\nFull outline:\n{{outline}}",
+  refinementPrompt:
+    "Polish the following document for clarity and consistency. Keep its structure and return the full text.\n\n{{content}}",
+};
+
+const PROMPTS = [
+  { key: "outlinePrompt", label: "Outline", placeholders: CUSTOM_PROMPT_PLACEHOLDERS.outline },
+  { key: "sectionPrompt", label: "Section", placeholders: CUSTOM_PROMPT_PLACEHOLDERS.section },
+  {
+    key: "refinementPrompt",
+    label: "Refinement",
+    placeholders: CUSTOM_PROMPT_PLACEHOLDERS.refinement,
+  },
+] as const;
+
+interface DocumentTypeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialValues?: DocumentTypeFormValues;
+  isSaving: boolean;
+  onSave: (values: DocumentTypeFormValues) => void;
+}
+
+export function DocumentTypeDialog({
+  open,
+  onOpenChange,
+  initialValues,
+  isSaving,
+  onSave,
+}: DocumentTypeDialogProps) {
+  const [values, setValues] = useState<DocumentTypeFormValues>(EMPTY_TYPE);
+  // Fields and sections are edited as JSON; the server validates their shape
+  const [fieldsJson, setFieldsJson] = useState("");
+  const [sectionsJson, setSectionsJson] = useState("");
+  const [jsonError, setJsonError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const customType = initialValues ?? EMPTY_TYPE;
+    setValues(customType);
+    setFieldsJson(JSON.stringify(customType.fields, null, 2));
+    setSectionsJson(JSON.stringify(customType.sections, null, 2));
+    setJsonError(null);
+  }, [open, initialValues]);
+
+  const update = (changes: Partial<DocumentTypeFormValues>) => {
+    setValues((prev) => ({ ...prev, ...changes }));
+  };
+
+  const toggleFormat = (format: ExportFormat, checked: boolean) => {
+    update({
+      exportFormats: checked
+        ? [...values.exportFormats, format]
+        : values.exportFormats.filter((f) => f !== format),
+    });
+  };
+
+  const handleSave = () => {
+    let fields: CustomField[];
+    let sections: CustomSection[];
+
+    try {
+      fields = JSON.parse(fieldsJson) as CustomField[];
+      sections = JSON.parse(sectionsJson) as CustomSection[];
+    } catch {
+      setJsonError("Fields and sections must be valid JSON arrays");
+      return;
+    }
+
+    if (!Array.isArray(fields) || !Array.isArray(sections)) {
+      setJsonError("Fields and sections must be valid JSON arrays");
+      return;
+    }
+
+    setJsonError(null);
+    onSave({
+      ...values,
+      slug: values.slug.trim(),
+      name: values.name.trim(),
+      description: values.description?.trim() || undefined,
+      fields,
+      sections,
+    });
+  };
+
+  const isValid =
+    !!values.slug.trim() &&
+    !!values.name.trim() &&
+    values.exportFormats.length > 0 &&
+    !!values.systemPrompt.trim() &&
+    PROMPTS.every((prompt) => !!values[prompt.key].trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {initialValues ? "Edit Document Type" : "New Document Type"}
+          </DialogTitle>
+          <DialogDescription>
+            Custom types appear alongside the built-in ones as soon as they are
+            enabled.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="details">
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="structure">Fields & Sections</TabsTrigger>
+            <TabsTrigger value="prompts">Prompts</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details" className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="type-name">Name</Label>
+              <Input
+                id="type-name"
+                value={values.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder="Incident Report"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="type-slug">Slug</Label>
+              <Input
+                id="type-slug"
+                value={values.slug}
+                onChange={(e) => update({ slug: e.target.value })}
+                placeholder="incident-report"
+              />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="type-description">Description</Label>
+              <Input
+                id="type-description"
+                value={values.description ?? ""}
+                onChange={(e) => update({ description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="type-icon">Icon</Label>
+              <Input
+                id="type-icon"
+                value={values.icon}
+                onChange={(e) => update({ icon: e.target.value })}
+                placeholder="FileText"
+              />
+            </div>
+            <div className="flex items-center gap-2 pt-8">
+              <Switch
+                id="type-enabled"
+                checked={values.enabled}
+                onCheckedChange={(enabled) => update({ enabled })}
+              />
+              <Label htmlFor="type-enabled">Enabled</Label>
+            </div>
+            <div className="space-y-3 sm:col-span-2">
+              <Label>Export Formats</Label>
+              <div className="flex flex-wrap gap-4">
+                {EXPORT_FORMATS.map((format) => (
+                  <div key={format} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`format-${format}`}
+                      checked={values.exportFormats.includes(format)}
+                      onCheckedChange={(checked) =>
+                        toggleFormat(format, checked === true)
+                      }
+                    />
+                    <Label htmlFor={`format-${format}`}>{format}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            {(["short", "medium", "long"] as const).map((length) => (
+              <div key={length} className="space-y-2">
+                <Label htmlFor={`tokens-${length}`} className="capitalize">
+                  Estimated tokens ({length})
+                </Label>
+                <Input
+                  id={`tokens-${length}`}
+                  type="number"
+                  min={1}
+                  value={values.estimatedTokens[length]}
+                  onChange={(e) =>
+                    update({
+                      estimatedTokens: {
+                        ...values.estimatedTokens,
+                        [length]: Number(e.target.value),
+                      },
+                    })
+                  }
+                />
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="structure" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="type-fields">Fields</Label>
+              <p className="text-xs text-muted-foreground">
+                Each field has a name, label and type ({CUSTOM_FIELD_TYPES.join(", ")}),
+                plus optional required, description, placeholder and options.
+                Title, length and language are always included.
+              </p>
+              <Textarea
+                id="type-fields"
+                className="font-mono text-xs"
+                rows={12}
+                value={fieldsJson}
+                onChange={(e) => setFieldsJson(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="type-sections">Sections</Label>
+              <p className="text-xs text-muted-foreground">
+                Each section has a lowercase id, a name and an order. The
+                outline is generated with one entry per section.
+              </p>
+              <Textarea
+                id="type-sections"
+                className="font-mono text-xs"
+                rows={8}
+                value={sectionsJson}
+                onChange={(e) => setSectionsJson(e.target.value)}
+              />
+            </div>
+            {jsonError && <p className="text-sm text-destructive">{jsonError}</p>}
+          </TabsContent>
+
+          <TabsContent value="prompts" className="space-y-4">
+            <p className="text-xs text-muted-foreground">
+              Reference form fields as {"{{fieldName}}"}. Each prompt also has
+              the values listed below it.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="type-system-prompt">System Prompt</Label>
+              <Textarea
+                id="type-system-prompt"
+                rows={3}
+                value={values.systemPrompt}
+                onChange={(e) => update({ systemPrompt: e.target.value })}
+              />
+            </div>
+            {PROMPTS.map((prompt) => (
+              <div key={prompt.key} className="space-y-2">
+                <Label htmlFor={prompt.key}>{prompt.label} Prompt</Label>
+                <Textarea
+                  id={prompt.key}
+                  className="font-mono text-xs"
+                  rows={6}
+                  value={values[prompt.key]}
+                  onChange={(e) => update({ [prompt.key]: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {prompt.placeholders.map((name) => `{{${name}}}`).join(" ")}
+                </p>
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!isValid || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
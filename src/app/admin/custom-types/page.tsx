@@ -0,0 +1,255 @@
+"use client";
+// src/app/admin/custom-types/page.tsx
+
+import { useState } from "react";
+import { type ExportFormat } from "@prisma/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "~/components/ui/alert-dialog";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Skeleton } from "~/components/ui/skeleton";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+import {
+  parseCustomFields,
+  parseCustomSections,
+  tokenEstimateSchema,
+  DEFAULT_TOKEN_ESTIMATE,
+} from "~/config/custom-document-types";
+import {
+  DocumentTypeDialog,
+  type DocumentTypeFormValues,
+} from "./components/document-type-dialog";
+
+export default function DocumentTypesPage() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<
+    { id: string; values: DocumentTypeFormValues } | undefined
+  >();
+
+  const utils = api.useUtils();
+  const { data: customTypes, isLoading } =
+    api.customDocumentType.adminList.useQuery();
+
+  const onChanged = () => {
+    void utils.customDocumentType.invalidate();
+    void utils.document.getAvailableTypes.invalidate();
+  };
+
+  const createType = api.customDocumentType.create.useMutation({
+    onSuccess: () => {
+      toast.success("Document type created");
+      setDialogOpen(false);
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateType = api.customDocumentType.update.useMutation({
+    onSuccess: () => {
+      toast.success("Document type updated");
+      setDialogOpen(false);
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteType = api.customDocumentType.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Document type deleted");
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const openCreate = () => {
+    setEditing(undefined);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (customType: NonNullable<typeof customTypes>[number]) => {
+    setEditing({
+      id: customType.id,
+      values: {
+        slug: customType.slug,
+        name: customType.name,
+        description: customType.description ?? "",
+        icon: customType.icon,
+        enabled: customType.enabled,
+        fields: parseCustomFields(customType.fields),
+        sections: parseCustomSections(customType.sections),
+        exportFormats: customType.exportFormats as ExportFormat[],
+        estimatedTokens: tokenEstimateSchema
+          .catch(DEFAULT_TOKEN_ESTIMATE)
+          .parse(customType.estimatedTokens),
+        systemPrompt: customType.systemPrompt,
+        outlinePrompt: customType.outlinePrompt,
+        sectionPrompt: customType.sectionPrompt,
+        refinementPrompt: customType.refinementPrompt,
+      },
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = (values: DocumentTypeFormValues) => {
+    if (editing) {
+      updateType.mutate({ id: editing.id, data: values });
+    } else {
+      createType.mutate(values);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Document Types</h1>
+          <p className="text-muted-foreground">
+            Define new document types with their own form fields, sections and
+            prompts
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Type
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Custom Types</CardTitle>
+          <CardDescription>
+            Built-in types are defined in code and aren&apos;t listed here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : !customTypes?.length ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No custom document types yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Export Formats</TableHead>
+                  <TableHead className="text-right">Documents</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customTypes.map((customType) => (
+                  <TableRow key={customType.id}>
+                    <TableCell>
+                      <div className="font-medium">{customType.name}</div>
+                      <div className="text-muted-foreground text-xs">
+                        {customType.slug}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {customType.exportFormats.map((format: string) => (
+                          <Badge key={format} variant="secondary">
+                            {format}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {customType._count.documents}
+                    </TableCell>
+                    <TableCell>
+                      {customType.enabled ? (
+                        <Badge variant="outline">Enabled</Badge>
+                      ) : (
+                        <Badge variant="secondary">Disabled</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEdit(customType)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={customType._count.documents > 0}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>
+                              Delete {customType.name}?
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Users will no longer be able to create documents
+                              of this type. Types used by documents can only be
+                              disabled.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() =>
+                                deleteType.mutate({ id: customType.id })
+                              }
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <DocumentTypeDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        initialValues={editing?.values}
+        isSaving={createType.isPending || updateType.isPending}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
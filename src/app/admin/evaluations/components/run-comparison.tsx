@@ -0,0 +1,119 @@
+"use client";
+// src/app/admin/evaluations/components/run-comparison.tsx
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { Badge } from "~/components/ui/badge";
+import { Skeleton } from "~/components/ui/skeleton";
+import { api } from "~/trpc/react";
+import { cn } from "~/lib/utils";
+import { formatScore } from "./run-results";
+
+const COLUMNS = [
+  { key: "structure", label: "Structure" },
+  { key: "length", label: "Length" },
+  { key: "readability", label: "Readability" },
+  { key: "tone", label: "Tone" },
+  { key: "judge", label: "Judge" },
+  { key: "overall", label: "Overall" },
+] as const;
+
+function Delta({ value }: { value: number | null }) {
+  if (value === null) return <span className="text-muted-foreground">—</span>;
+
+  const points = Math.round(value * 100);
+  return (
+    <span
+      className={cn(
+        points > 0 && "text-green-600",
+        points < 0 && "text-destructive",
+        points === 0 && "text-muted-foreground",
+      )}
+    >
+      {points > 0 ? "+" : ""}
+      {points}
+    </span>
+  );
+}
+
+export function RunComparison({
+  baselineRunId,
+  candidateRunId,
+}: {
+  baselineRunId: string;
+  candidateRunId: string;
+}) {
+  const { data: comparison, isLoading } = api.evaluation.compare.useQuery({
+    baselineRunId,
+    candidateRunId,
+  });
+
+  if (isLoading) return <Skeleton className="h-48 w-full" />;
+  if (!comparison?.fixtures.length) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        The runs have no fixtures in common
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Changes in percentage points from the baseline.{" "}
+        {comparison.regressions > 0
+          ? `${comparison.regressions} fixture(s) regressed.`
+          : "No regressions."}
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Fixture</TableHead>
+            {COLUMNS.map((column) => (
+              <TableHead key={column.key} className="text-right">
+                {column.label}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {comparison.fixtures.map((fixture) => (
+            <TableRow key={fixture.fixtureId}>
+              <TableCell>
+                <div className="flex items-center gap-2 font-medium">
+                  {fixture.fixtureId}
+                  {fixture.regressed && (
+                    <Badge variant="destructive">Regressed</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatScore(fixture.baseline.overall)} →{" "}
+                  {formatScore(fixture.candidate.overall)}
+                </div>
+              </TableCell>
+              {COLUMNS.map((column) => (
+                <TableCell key={column.key} className="text-right">
+                  <Delta value={fixture.delta[column.key]} />
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell className="font-medium">Average</TableCell>
+            {COLUMNS.map((column) => (
+              <TableCell key={column.key} className="text-right font-medium">
+                <Delta value={comparison.averageDelta[column.key]} />
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
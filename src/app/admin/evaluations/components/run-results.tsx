@@ -0,0 +1,93 @@
+"use client";
+// src/app/admin/evaluations/components/run-results.tsx
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { Badge } from "~/components/ui/badge";
+import { Skeleton } from "~/components/ui/skeleton";
+import { api } from "~/trpc/react";
+
+export const formatScore = (value: number | null) =>
+  value === null ? "—" : `${Math.round(value * 100)}%`;
+
+export function RunResults({ runId }: { runId: string }) {
+  const { data: run, isLoading } = api.evaluation.getRun.useQuery({
+    id: runId,
+  });
+
+  if (isLoading) return <Skeleton className="h-48 w-full" />;
+  if (!run?.results.length) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        No results yet
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Fixture</TableHead>
+          <TableHead className="text-right">Structure</TableHead>
+          <TableHead className="text-right">Length</TableHead>
+          <TableHead className="text-right">Readability</TableHead>
+          <TableHead className="text-right">Consistency</TableHead>
+          <TableHead className="text-right">Tone</TableHead>
+          <TableHead className="text-right">Judge</TableHead>
+          <TableHead className="text-right">Overall</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {run.results.map((result) => (
+          <TableRow key={result.id}>
+            <TableCell>
+              <div className="font-medium">{result.fixtureId}</div>
+              {result.error ? (
+                <Badge variant="destructive" className="mt-1">
+                  {result.error}
+                </Badge>
+              ) : (
+                result.missingSections.length > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    Missing: {result.missingSections.join(", ")}
+                  </div>
+                )
+              )}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatScore(result.structureScore)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatScore(result.lengthScore)}
+              <div className="text-xs text-muted-foreground">
+                {result.wordCount} / {result.targetWords} words
+              </div>
+            </TableCell>
+            <TableCell className="text-right">
+              {formatScore(result.readabilityScore)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatScore(result.consistencyScore)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatScore(result.toneScore)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatScore(result.judgeScore)}
+            </TableCell>
+            <TableCell className="text-right font-medium">
+              {formatScore(result.overallScore)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
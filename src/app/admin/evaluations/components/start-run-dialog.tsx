@@ -0,0 +1,209 @@
+"use client";
+// src/app/admin/evaluations/components/start-run-dialog.tsx
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { DOCUMENT_CONFIGS, type BuiltInDocumentType } from "~/config/documents";
+
+export const EVALUATION_PROVIDERS = [
+  { value: "mock", label: "Mock (offline)" },
+  { value: "openai", label: "OpenAI" },
+  { value: "anthropic", label: "Anthropic" },
+  { value: "gemini", label: "Google Gemini" },
+  { value: "perplexity", label: "Perplexity" },
+  { value: "llama", label: "Llama" },
+  { value: "local", label: "Local" },
+] as const;
+
+export type EvaluationProvider = (typeof EVALUATION_PROVIDERS)[number]["value"];
+
+// Select needs non-empty values for "all types" and "no judge"
+const ALL_TYPES = "all";
+const NO_JUDGE = "none";
+
+export interface StartRunValues {
+  label?: string;
+  documentType?: BuiltInDocumentType;
+  provider: EvaluationProvider;
+  model?: string;
+  judgeProvider?: EvaluationProvider;
+  judgeModel?: string;
+}
+
+interface StartRunDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSaving: boolean;
+  onSave: (values: StartRunValues) => void;
+}
+
+export function StartRunDialog({
+  open,
+  onOpenChange,
+  isSaving,
+  onSave,
+}: StartRunDialogProps) {
+  const [label, setLabel] = useState("");
+  const [documentType, setDocumentType] = useState<string>(ALL_TYPES);
+  const [provider, setProvider] = useState<EvaluationProvider>("mock");
+  const [model, setModel] = useState("");
+  const [judgeProvider, setJudgeProvider] = useState<string>(NO_JUDGE);
+  const [judgeModel, setJudgeModel] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLabel("");
+    setDocumentType(ALL_TYPES);
+    setProvider("mock");
+    setModel("");
+    setJudgeProvider(NO_JUDGE);
+    setJudgeModel("");
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Evaluation Run</DialogTitle>
+          <DialogDescription>
+            Generates every fixture with the active prompt versions and scores
+            the results. Leave the model empty for the provider default.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="evaluation-label">Label</Label>
+            <Input
+              id="evaluation-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Baseline before outline prompt v3"
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label>Type</Label>
+            <Select value={documentType} onValueChange={setDocumentType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TYPES}>All built-in types</SelectItem>
+                {(Object.keys(DOCUMENT_CONFIGS) as BuiltInDocumentType[]).map(
+                  (type) => (
+                    <SelectItem key={type} value={type}>
+                      {DOCUMENT_CONFIGS[type].name}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select
+              value={provider}
+              onValueChange={(value) => setProvider(value as EvaluationProvider)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EVALUATION_PROVIDERS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="evaluation-model">Model</Label>
+            <Input
+              id="evaluation-model"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              placeholder="Default"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Judge</Label>
+            <Select value={judgeProvider} onValueChange={setJudgeProvider}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_JUDGE}>No judge</SelectItem>
+                {EVALUATION_PROVIDERS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="evaluation-judge-model">Judge Model</Label>
+            <Input
+              id="evaluation-judge-model"
+              value={judgeModel}
+              onChange={(e) => setJudgeModel(e.target.value)}
+              placeholder="Default"
+              disabled={judgeProvider === NO_JUDGE}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() =>
+              onSave({
+                label: label.trim() || undefined,
+                documentType:
+                  documentType === ALL_TYPES
+                    ? undefined
+                    : (documentType as BuiltInDocumentType),
+                provider,
+                model: model.trim() || undefined,
+                judgeProvider:
+                  judgeProvider === NO_JUDGE
+                    ? undefined
+                    : (judgeProvider as EvaluationProvider),
+                judgeModel:
+                  judgeProvider === NO_JUDGE
+                    ? undefined
+                    : judgeModel.trim() || undefined,
+              })
+            }
+            disabled={isSaving}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Start Run
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+// src/app/admin/evaluations/page.tsx
+
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import { Skeleton } from "~/components/ui/skeleton";
+import { Plus } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+import { DOCUMENT_CONFIGS, type BuiltInDocumentType } from "~/config/documents";
+import {
+  StartRunDialog,
+  type StartRunValues,
+} from "./components/start-run-dialog";
+import { RunResults, formatScore } from "./components/run-results";
+import { RunComparison } from "./components/run-comparison";
+
+const STATUS_VARIANTS = {
+  PENDING: "outline",
+  RUNNING: "secondary",
+  COMPLETED: "default",
+  FAILED: "destructive",
+} as const;
+
+// Refresh the list while a run is in progress
+const POLL_INTERVAL_MS = 5000;
+
+export default function EvaluationsPage() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedRunId, setSelectedRunId] = useState<string>();
+  const [baselineRunId, setBaselineRunId] = useState<string>();
+  const [candidateRunId, setCandidateRunId] = useState<string>();
+
+  const utils = api.useUtils();
+  const { data: runs, isLoading } = api.evaluation.listRuns.useQuery(
+    undefined,
+    {
+      refetchInterval: (query) =>
+        query.state.data?.some(
+          (run) => run.status === "PENDING" || run.status === "RUNNING",
+        )
+          ? POLL_INTERVAL_MS
+          : false,
+    },
+  );
+
+  const startRun = api.evaluation.start.useMutation({
+    onSuccess: (run) => {
+      toast.success("Evaluation run queued");
+      setDialogOpen(false);
+      setSelectedRunId(run.id);
+      void utils.evaluation.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const completedRuns = runs?.filter((run) => run.status === "COMPLETED") ?? [];
+  const runLabel = (run: (typeof completedRuns)[number]) =>
+    `${run.label ?? `${run.provider}/${run.model}`} · ${format(
+      new Date(run.startedAt),
+      "MMM d, HH:mm",
+    )}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Evaluations</h1>
+          <p className="text-muted-foreground">
+            Score generations of fixed inputs to catch regressions when
+            prompts or models change
+          </p>
+        </div>
+        <Button onClick={() => setDialogOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Run
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Runs</CardTitle>
+          <CardDescription>
+            Select a run to see its scores per fixture
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : !runs?.length ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No evaluation runs yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Run</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Judge</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Fixtures</TableHead>
+                  <TableHead className="text-right">Overall</TableHead>
+                  <TableHead>Started</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow
+                    key={run.id}
+                    className="cursor-pointer"
+                    data-state={run.id === selectedRunId ? "selected" : undefined}
+                    onClick={() => setSelectedRunId(run.id)}
+                  >
+                    <TableCell>
+                      <div className="font-medium">
+                        {run.label ?? `${run.provider}/${run.model}`}
+                      </div>
+                      {run.label && (
+                        <div className="text-xs text-muted-foreground">
+                          {run.provider}/{run.model}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {run.documentType
+                        ? DOCUMENT_CONFIGS[run.documentType as BuiltInDocumentType]
+                            ?.name ?? run.documentType
+                        : "All"}
+                    </TableCell>
+                    <TableCell>
+                      {run.judgeProvider
+                        ? `${run.judgeProvider}/${run.judgeModel}`
+                        : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          STATUS_VARIANTS[run.status as keyof typeof STATUS_VARIANTS]
+                        }
+                        title={run.error ?? undefined}
+                      >
+                        {run.status.toLowerCase()}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {run._count.results}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatScore(run.overallScore)}
+                    </TableCell>
+                    <TableCell>
+                      {format(new Date(run.startedAt), "MMM d, yyyy HH:mm")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedRunId && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Results</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RunResults runId={selectedRunId} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Compare Runs</CardTitle>
+          <CardDescription>
+            Fixtures whose overall score drops by more than 5 points are
+            flagged as regressions
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Baseline</Label>
+              <Select value={baselineRunId} onValueChange={setBaselineRunId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a run" />
+                </SelectTrigger>
+                <SelectContent>
+                  {completedRuns.map((run) => (
+                    <SelectItem key={run.id} value={run.id}>
+                      {runLabel(run)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Candidate</Label>
+              <Select value={candidateRunId} onValueChange={setCandidateRunId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a run" />
+                </SelectTrigger>
+                <SelectContent>
+                  {completedRuns.map((run) => (
+                    <SelectItem key={run.id} value={run.id}>
+                      {runLabel(run)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {baselineRunId && candidateRunId && baselineRunId !== candidateRunId && (
+            <RunComparison
+              baselineRunId={baselineRunId}
+              candidateRunId={candidateRunId}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <StartRunDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        isSaving={startRun.isPending}
+        onSave={(values: StartRunValues) => startRun.mutate(values)}
+      />
+    </div>
+  );
+}
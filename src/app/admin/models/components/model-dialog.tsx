@@ -0,0 +1,243 @@
+"use client";
+// src/app/admin/models/components/model-dialog.tsx
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import { Loader2 } from "lucide-react";
+
+export const CATALOG_PROVIDERS = [
+  "openai",
+  "anthropic",
+  "gemini",
+  "perplexity",
+  "llama",
+] as const;
+
+export interface ModelFormValues {
+  provider: (typeof CATALOG_PROVIDERS)[number];
+  modelId: string;
+  name: string;
+  contextWindow: number;
+  maxOutput: number;
+  inputCostPer1k: number;
+  outputCostPer1k: number;
+  capabilities: string[];
+  recommended: boolean;
+  enabled: boolean;
+}
+
+const EMPTY_MODEL: ModelFormValues = {
+  provider: "openai",
+  modelId: "",
+  name: "",
+  contextWindow: 8192,
+  maxOutput: 4096,
+  inputCostPer1k: 0,
+  outputCostPer1k: 0,
+  capabilities: ["chat"],
+  recommended: false,
+  enabled: true,
+};
+
+interface ModelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialValues?: ModelFormValues;
+  isSaving: boolean;
+  onSave: (values: ModelFormValues) => void;
+}
+
+export function ModelDialog({
+  open,
+  onOpenChange,
+  initialValues,
+  isSaving,
+  onSave,
+}: ModelDialogProps) {
+  const [values, setValues] = useState<ModelFormValues>(EMPTY_MODEL);
+  const [capabilities, setCapabilities] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+
+    const model = initialValues ?? EMPTY_MODEL;
+    setValues(model);
+    setCapabilities(model.capabilities.join(", "));
+  }, [open, initialValues]);
+
+  const update = (changes: Partial<ModelFormValues>) => {
+    setValues((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...values,
+      modelId: values.modelId.trim(),
+      name: values.name.trim(),
+      capabilities: capabilities
+        .split(",")
+        .map((capability) => capability.trim())
+        .filter(Boolean),
+    });
+  };
+
+  const isValid =
+    !!values.modelId.trim() &&
+    !!values.name.trim() &&
+    values.contextWindow > 0 &&
+    values.maxOutput > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{initialValues ? "Edit Model" : "Add Model"}</DialogTitle>
+          <DialogDescription>
+            Prices are in USD per 1,000 tokens and apply to new generations
+            within a minute of saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select
+              value={values.provider}
+              onValueChange={(provider) =>
+                update({ provider: provider as ModelFormValues["provider"] })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CATALOG_PROVIDERS.map((provider) => (
+                  <SelectItem key={provider} value={provider}>
+                    {provider}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="model-id">Model ID</Label>
+            <Input
+              id="model-id"
+              value={values.modelId}
+              onChange={(e) => update({ modelId: e.target.value })}
+              placeholder="gpt-4-turbo"
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="model-name">Display Name</Label>
+            <Input
+              id="model-name"
+              value={values.name}
+              onChange={(e) => update({ name: e.target.value })}
+              placeholder="GPT-4 Turbo"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="context-window">Context Window</Label>
+            <Input
+              id="context-window"
+              type="number"
+              min={1}
+              value={values.contextWindow}
+              onChange={(e) => update({ contextWindow: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-output">Max Output</Label>
+            <Input
+              id="max-output"
+              type="number"
+              min={1}
+              value={values.maxOutput}
+              onChange={(e) => update({ maxOutput: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="input-cost">Input $/1k</Label>
+            <Input
+              id="input-cost"
+              type="number"
+              min={0}
+              step="0.00001"
+              value={values.inputCostPer1k}
+              onChange={(e) =>
+                update({ inputCostPer1k: Number(e.target.value) })
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="output-cost">Output $/1k</Label>
+            <Input
+              id="output-cost"
+              type="number"
+              min={0}
+              step="0.00001"
+              value={values.outputCostPer1k}
+              onChange={(e) =>
+                update({ outputCostPer1k: Number(e.target.value) })
+              }
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="capabilities">Capabilities</Label>
+            <Input
+              id="capabilities"
+              value={capabilities}
+              onChange={(e) => setCapabilities(e.target.value)}
+              placeholder="chat, code, vision"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="recommended"
+              checked={values.recommended}
+              onCheckedChange={(recommended) => update({ recommended })}
+            />
+            <Label htmlFor="recommended">Recommended</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="enabled"
+              checked={values.enabled}
+              onCheckedChange={(enabled) => update({ enabled })}
+            />
+            <Label htmlFor="enabled">Enabled</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!isValid || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+// src/app/admin/models/page.tsx
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "~/components/ui/alert-dialog";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Skeleton } from "~/components/ui/skeleton";
+import { Pencil, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+import { ModelDialog, type ModelFormValues } from "./components/model-dialog";
+
+export default function ModelCatalogPage() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<
+    { id: string; values: ModelFormValues } | undefined
+  >();
+
+  const utils = api.useUtils();
+  const { data: models, isLoading } = api.modelCatalog.adminList.useQuery();
+
+  const onChanged = () => {
+    void utils.modelCatalog.invalidate();
+  };
+
+  const createModel = api.modelCatalog.create.useMutation({
+    onSuccess: () => {
+      toast.success("Model added");
+      setDialogOpen(false);
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateModel = api.modelCatalog.update.useMutation({
+    onSuccess: () => {
+      toast.success("Model updated");
+      setDialogOpen(false);
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteModel = api.modelCatalog.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Model deleted");
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const restoreDefaults = api.modelCatalog.restoreDefaults.useMutation({
+    onSuccess: (result) => {
+      toast.success(
+        result.added > 0
+          ? `Restored ${result.added} default models`
+          : "All default models are already present",
+      );
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const openCreate = () => {
+    setEditing(undefined);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (model: NonNullable<typeof models>[number]) => {
+    setEditing({
+      id: model.id,
+      values: {
+        provider: model.provider as ModelFormValues["provider"],
+        modelId: model.modelId,
+        name: model.name,
+        contextWindow: model.contextWindow,
+        maxOutput: model.maxOutput,
+        inputCostPer1k: model.inputCostPer1k,
+        outputCostPer1k: model.outputCostPer1k,
+        capabilities: model.capabilities,
+        recommended: model.recommended,
+        enabled: model.enabled,
+      },
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = (values: ModelFormValues) => {
+    if (editing) {
+      updateModel.mutate({ id: editing.id, data: values });
+    } else {
+      createModel.mutate(values);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Model Catalog</h1>
+          <p className="text-muted-foreground">
+            Models offered to users and the prices used for cost estimates and
+            usage tracking
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => restoreDefaults.mutate()}
+            disabled={restoreDefaults.isPending}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Restore Defaults
+          </Button>
+          <Button onClick={openCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Model
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Models</CardTitle>
+          <CardDescription>
+            Local models are discovered from the configured endpoint and are
+            always free, so they aren&apos;t listed here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">Context</TableHead>
+                  <TableHead className="text-right">Input $/1k</TableHead>
+                  <TableHead className="text-right">Output $/1k</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {models?.map((model) => (
+                  <TableRow key={model.id}>
+                    <TableCell>{model.provider}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{model.name}</div>
+                      <div className="text-muted-foreground text-xs">
+                        {model.modelId}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {model.contextWindow.toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {model.inputCostPer1k}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {model.outputCostPer1k}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {model.enabled ? (
+                          <Badge variant="outline">Enabled</Badge>
+                        ) : (
+                          <Badge variant="secondary">Disabled</Badge>
+                        )}
+                        {model.recommended && <Badge>Recommended</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEdit(model)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {model.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Users will no longer be able to select it. Costs
+                              already recorded are kept. Disable the model
+                              instead if you may need it again.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteModel.mutate({ id: model.id })}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ModelDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        initialValues={editing?.values}
+        isSaving={createModel.isPending || updateModel.isPending}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+// src/app/admin/prompts/components/experiment-dialog.tsx
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Loader2 } from "lucide-react";
+import type { BuiltInDocumentType } from "~/config/documents";
+import {
+  PROMPT_STAGES,
+  PROMPT_STAGE_LABELS,
+  type PromptStageName,
+} from "~/config/prompt-templates";
+import { BUILT_IN_TYPES } from "./template-dialog";
+
+// Select needs a non-empty value for "no template"
+const CURRENT_PROMPT = "current";
+
+export interface ExperimentFormValues {
+  name: string;
+  documentType: BuiltInDocumentType;
+  stage: PromptStageName;
+  variantAId?: string;
+  variantBId: string;
+  trafficSplit: number;
+}
+
+interface TemplateOption {
+  id: string;
+  documentType: string;
+  stage: string;
+  version: number;
+  notes: string | null;
+  active: boolean;
+}
+
+interface ExperimentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: TemplateOption[];
+  isSaving: boolean;
+  onSave: (values: ExperimentFormValues) => void;
+}
+
+export function ExperimentDialog({
+  open,
+  onOpenChange,
+  templates,
+  isSaving,
+  onSave,
+}: ExperimentDialogProps) {
+  const [name, setName] = useState("");
+  const [documentType, setDocumentType] = useState<BuiltInDocumentType>(
+    BUILT_IN_TYPES[0]!.type,
+  );
+  const [stage, setStage] = useState<PromptStageName>("OUTLINE");
+  const [variantA, setVariantA] = useState(CURRENT_PROMPT);
+  const [variantB, setVariantB] = useState("");
+  // Percentage of generations given variant B
+  const [split, setSplit] = useState(50);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName("");
+    setVariantA(CURRENT_PROMPT);
+    setVariantB("");
+    setSplit(50);
+  }, [open]);
+
+  const versions = templates.filter(
+    (t) => t.documentType === documentType && t.stage === stage,
+  );
+
+  const versionLabel = (t: TemplateOption) =>
+    `v${t.version}${t.active ? " (active)" : ""}${t.notes ? ` · ${t.notes}` : ""}`;
+
+  const isValid =
+    !!name.trim() && !!variantB && variantA !== variantB && split >= 5 && split <= 95;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Experiment</DialogTitle>
+          <DialogDescription>
+            New generations of the document type are split between the two
+            prompts until the experiment is stopped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="experiment-name">Name</Label>
+            <Input
+              id="experiment-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Shorter biography outline"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Document Type</Label>
+            <Select
+              value={documentType}
+              onValueChange={(value) => {
+                setDocumentType(value as BuiltInDocumentType);
+                setVariantA(CURRENT_PROMPT);
+                setVariantB("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUILT_IN_TYPES.map((option) => (
+                  <SelectItem key={option.type} value={option.type}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Stage</Label>
+            <Select
+              value={stage}
+              onValueChange={(value) => {
+                setStage(value as PromptStageName);
+                setVariantA(CURRENT_PROMPT);
+                setVariantB("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROMPT_STAGES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {PROMPT_STAGE_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Variant A</Label>
+            <Select value={variantA} onValueChange={setVariantA}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CURRENT_PROMPT}>Current prompt</SelectItem>
+                {versions.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {versionLabel(t)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Variant B</Label>
+            <Select value={variantB} onValueChange={setVariantB}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a version" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {versionLabel(t)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="experiment-split">Traffic to variant B (%)</Label>
+            <Input
+              id="experiment-split"
+              type="number"
+              min={5}
+              max={95}
+              value={split}
+              onChange={(e) => setSplit(Number(e.target.value))}
+            />
+          </div>
+          {versions.length === 0 && (
+            <p className="text-sm text-muted-foreground sm:col-span-2">
+              Save a prompt version for this type and stage first.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() =>
+              onSave({
+                name: name.trim(),
+                documentType,
+                stage,
+                variantAId: variantA === CURRENT_PROMPT ? undefined : variantA,
+                variantBId: variantB,
+                trafficSplit: split / 100,
+              })
+            }
+            disabled={!isValid || isSaving}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Start Experiment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+// src/app/admin/prompts/components/experiment-results.tsx
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { Skeleton } from "~/components/ui/skeleton";
+import { api } from "~/trpc/react";
+
+const formatOrDash = (value: number | null, format: (v: number) => string) =>
+  value === null ? "—" : format(value);
+
+export function ExperimentResults({ experimentId }: { experimentId: string }) {
+  const { data: results, isLoading } =
+    api.promptTemplate.experimentResults.useQuery({ id: experimentId });
+
+  if (isLoading) return <Skeleton className="h-24 w-full" />;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Variant</TableHead>
+          <TableHead className="text-right">Documents</TableHead>
+          <TableHead className="text-right">Completed</TableHead>
+          <TableHead className="text-right">Quality</TableHead>
+          <TableHead className="text-right">Avg Cost</TableHead>
+          <TableHead className="text-right">User Rating</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {results?.map((result) => (
+          <TableRow key={result.variant}>
+            <TableCell className="font-medium">{result.variant}</TableCell>
+            <TableCell className="text-right">{result.documents}</TableCell>
+            <TableCell className="text-right">{result.completed}</TableCell>
+            <TableCell className="text-right">
+              {formatOrDash(result.avgQualityScore, (v) => `${Math.round(v * 100)}%`)}
+              <span className="text-muted-foreground text-xs"> ({result.scored})</span>
+            </TableCell>
+            <TableCell className="text-right">
+              {formatOrDash(result.avgCost, (v) => `$${v.toFixed(3)}`)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatOrDash(result.avgRating, (v) => `${v.toFixed(1)} / 5`)}
+              <span className="text-muted-foreground text-xs"> ({result.rated})</span>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+// src/app/admin/prompts/components/template-dialog.tsx
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import { Textarea } from "~/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { DOCUMENT_CONFIGS, type BuiltInDocumentType } from "~/config/documents";
+import {
+  PROMPT_STAGES,
+  PROMPT_STAGE_LABELS,
+  PROMPT_STAGE_NOTES,
+  PROMPT_TEMPLATE_PLACEHOLDERS,
+  type PromptStageName,
+} from "~/config/prompt-templates";
+
+export const BUILT_IN_TYPES = (
+  Object.keys(DOCUMENT_CONFIGS) as BuiltInDocumentType[]
+).map((type) => ({ type, name: DOCUMENT_CONFIGS[type].name }));
+
+export interface TemplateFormValues {
+  documentType: BuiltInDocumentType;
+  stage: PromptStageName;
+  template: string;
+  notes?: string;
+  activate: boolean;
+}
+
+interface TemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Prefills the form, e.g. when starting from an existing version
+  initialValues?: Partial<TemplateFormValues>;
+  isSaving: boolean;
+  onSave: (values: TemplateFormValues) => void;
+}
+
+export function TemplateDialog({
+  open,
+  onOpenChange,
+  initialValues,
+  isSaving,
+  onSave,
+}: TemplateDialogProps) {
+  const [values, setValues] = useState<TemplateFormValues>({
+    documentType: BUILT_IN_TYPES[0]!.type,
+    stage: "OUTLINE",
+    template: "",
+    notes: "",
+    activate: false,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    setValues({
+      documentType: initialValues?.documentType ?? BUILT_IN_TYPES[0]!.type,
+      stage: initialValues?.stage ?? "OUTLINE",
+      template: initialValues?.template ?? "",
+      notes: "",
+      activate: false,
+    });
+  }, [open, initialValues]);
+
+  const update = (changes: Partial<TemplateFormValues>) => {
+    setValues((prev) => ({ ...prev, ...changes }));
+  };
+
+  const placeholders = PROMPT_TEMPLATE_PLACEHOLDERS[values.stage];
+  const stageNote = PROMPT_STAGE_NOTES[values.stage];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>New Prompt Version</DialogTitle>
+          <DialogDescription>
+            Versions are kept, so you can switch back or compare them in an
+            experiment.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Document Type</Label>
+            <Select
+              value={values.documentType}
+              onValueChange={(documentType) =>
+                update({ documentType: documentType as BuiltInDocumentType })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUILT_IN_TYPES.map((option) => (
+                  <SelectItem key={option.type} value={option.type}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Stage</Label>
+            <Select
+              value={values.stage}
+              onValueChange={(stage) => update({ stage: stage as PromptStageName })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROMPT_STAGES.map((stage) => (
+                  <SelectItem key={stage} value={stage}>
+                    {PROMPT_STAGE_LABELS[stage]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="prompt-template">Template</Label>
+            <Textarea
+              id="prompt-template"
+              className="font-mono text-xs"
+              rows={14}
+              value={values.template}
+              onChange={(e) => update({ template: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              {placeholders.length > 0
+                ? `Reference input fields as {{fieldName}} (dot paths reach nested fields), and ${placeholders
+                    .map((name) => `{{${name}}}`)
+                    .join(" ")}.`
+                : "Sent to the model as written."}
+              {stageNote && ` ${stageNote}`}
+            </p>
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="prompt-notes">Notes</Label>
+            <Input
+              id="prompt-notes"
+              value={values.notes ?? ""}
+              onChange={(e) => update({ notes: e.target.value })}
+              placeholder="What changed in this version"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="prompt-activate"
+              checked={values.activate}
+              onCheckedChange={(activate) => update({ activate })}
+            />
+            <Label htmlFor="prompt-activate">Use for new generations</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() =>
+              onSave({ ...values, notes: values.notes?.trim() || undefined })
+            }
+            disabled={!values.template.trim() || isSaving}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
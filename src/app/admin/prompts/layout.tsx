@@ -0,0 +1,15 @@
+// src/app/admin/prompts/layout.tsx
+
+import { NavigationGuard } from "~/components/navigation-guard";
+
+export default function PromptsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <NavigationGuard allowedRoles={["ADMIN"]}>
+      <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">{children}</div>
+    </NavigationGuard>
+  );
+}
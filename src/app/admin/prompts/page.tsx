@@ -0,0 +1,302 @@
+"use client";
+// src/app/admin/prompts/page.tsx
+
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Skeleton } from "~/components/ui/skeleton";
+import { Copy, FlaskConical, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+import { DOCUMENT_CONFIGS, type BuiltInDocumentType } from "~/config/documents";
+import {
+  PROMPT_STAGE_LABELS,
+  type PromptStageName,
+} from "~/config/prompt-templates";
+import {
+  TemplateDialog,
+  type TemplateFormValues,
+} from "./components/template-dialog";
+import {
+  ExperimentDialog,
+  type ExperimentFormValues,
+} from "./components/experiment-dialog";
+import { ExperimentResults } from "./components/experiment-results";
+
+const typeName = (type: string) =>
+  DOCUMENT_CONFIGS[type as BuiltInDocumentType]?.name ?? type;
+
+export default function PromptTemplatesPage() {
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [templateDraft, setTemplateDraft] = useState<
+    Partial<TemplateFormValues> | undefined
+  >();
+  const [experimentDialogOpen, setExperimentDialogOpen] = useState(false);
+
+  const utils = api.useUtils();
+  const { data: templates, isLoading: templatesLoading } =
+    api.promptTemplate.list.useQuery();
+  const { data: experiments, isLoading: experimentsLoading } =
+    api.promptTemplate.listExperiments.useQuery();
+
+  const onChanged = () => {
+    void utils.promptTemplate.invalidate();
+  };
+
+  const createTemplate = api.promptTemplate.create.useMutation({
+    onSuccess: (template) => {
+      toast.success(`Saved version ${template.version}`);
+      setTemplateDialogOpen(false);
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const activateTemplate = api.promptTemplate.activate.useMutation({
+    onSuccess: () => {
+      toast.success("Version activated");
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deactivateTemplate = api.promptTemplate.deactivate.useMutation({
+    onSuccess: () => {
+      toast.success("Reverted to the built-in prompt");
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const createExperiment = api.promptTemplate.createExperiment.useMutation({
+    onSuccess: () => {
+      toast.success("Experiment started");
+      setExperimentDialogOpen(false);
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const stopExperiment = api.promptTemplate.stopExperiment.useMutation({
+    onSuccess: () => {
+      toast.success("Experiment stopped");
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const openNewTemplate = (draft?: Partial<TemplateFormValues>) => {
+    setTemplateDraft(draft);
+    setTemplateDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Prompts</h1>
+          <p className="text-muted-foreground">
+            Versioned prompt templates for the built-in document types, and
+            experiments comparing them
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setExperimentDialogOpen(true)}>
+            <FlaskConical className="mr-2 h-4 w-4" />
+            New Experiment
+          </Button>
+          <Button onClick={() => openNewTemplate()}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Version
+          </Button>
+        </div>
+      </div>
+
+      <Tabs defaultValue="templates">
+        <TabsList>
+          <TabsTrigger value="templates">Templates</TabsTrigger>
+          <TabsTrigger value="experiments">Experiments</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="templates">
+          <Card>
+            <CardHeader>
+              <CardTitle>Versions</CardTitle>
+              <CardDescription>
+                The active version of a stage replaces the built-in prompt for
+                new generations. Stages without one use the built-in prompt.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {templatesLoading ? (
+                <Skeleton className="h-48 w-full" />
+              ) : !templates?.length ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  No prompt versions yet
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Document Type</TableHead>
+                      <TableHead>Stage</TableHead>
+                      <TableHead>Version</TableHead>
+                      <TableHead>Notes</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {templates.map((template) => (
+                      <TableRow key={template.id}>
+                        <TableCell>{typeName(template.documentType)}</TableCell>
+                        <TableCell>
+                          {PROMPT_STAGE_LABELS[template.stage as PromptStageName]}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            v{template.version}
+                            {template.active && <Badge>Active</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate text-muted-foreground">
+                          {template.notes}
+                        </TableCell>
+                        <TableCell>
+                          {format(new Date(template.createdAt), "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="New version from this one"
+                            onClick={() =>
+                              openNewTemplate({
+                                documentType: template.documentType as BuiltInDocumentType,
+                                stage: template.stage as PromptStageName,
+                                template: template.template,
+                              })
+                            }
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          {template.active ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                deactivateTemplate.mutate({ id: template.id })
+                              }
+                            >
+                              Use Built-in
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                activateTemplate.mutate({ id: template.id })
+                              }
+                            >
+                              Activate
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="experiments" className="space-y-4">
+          {experimentsLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : !experiments?.length ? (
+            <Card>
+              <CardContent className="py-8">
+                <p className="text-sm text-muted-foreground text-center">
+                  No experiments yet
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            experiments.map((experiment) => (
+              <Card key={experiment.id}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      {experiment.name}
+                      {experiment.status === "RUNNING" ? (
+                        <Badge>Running</Badge>
+                      ) : (
+                        <Badge variant="secondary">Stopped</Badge>
+                      )}
+                    </CardTitle>
+                    <CardDescription>
+                      {typeName(experiment.documentType)} ·{" "}
+                      {PROMPT_STAGE_LABELS[experiment.stage as PromptStageName]} · A:{" "}
+                      {experiment.variantA
+                        ? `v${experiment.variantA.version}`
+                        : "current prompt"}{" "}
+                      · B: v{experiment.variantB.version} ·{" "}
+                      {Math.round(experiment.trafficSplit * 100)}% to B · started{" "}
+                      {format(new Date(experiment.startedAt), "MMM d, yyyy")}
+                    </CardDescription>
+                  </div>
+                  {experiment.status === "RUNNING" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => stopExperiment.mutate({ id: experiment.id })}
+                    >
+                      Stop
+                    </Button>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <ExperimentResults experimentId={experiment.id} />
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <TemplateDialog
+        open={templateDialogOpen}
+        onOpenChange={setTemplateDialogOpen}
+        initialValues={templateDraft}
+        isSaving={createTemplate.isPending}
+        onSave={(values) => createTemplate.mutate(values)}
+      />
+
+      <ExperimentDialog
+        open={experimentDialogOpen}
+        onOpenChange={setExperimentDialogOpen}
+        templates={templates ?? []}
+        isSaving={createExperiment.isPending}
+        onSave={(values: ExperimentFormValues) => createExperiment.mutate(values)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+//src/app/api/export/download/[id]/route.ts
+
+import { NextResponse, type NextRequest } from "next/server";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { ExportDownloadService } from "~/server/services/exports";
+import { contentDisposition } from "~/server/services/exports/content-disposition";
+
+// Serves an export to anyone holding a valid signed link, see
+// ExportDownloadService.signUrl
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { id } = await context.params;
+  const token = req.nextUrl.searchParams.get("token") ?? "";
+
+  try {
+    const file = await ExportDownloadService.resolveDownload(id, token);
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        "Content-Type": file.mimeType,
+        "Content-Length": String(file.data.length),
+        "Content-Disposition": contentDisposition(file.filename),
+        // Links are personal and expire; keep them out of shared caches
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message } },
+        { status: getHTTPStatusCodeFromError(error) },
+      );
+    }
+
+    console.error("Export download error:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL_SERVER_ERROR", message: "Internal server error" } },
+      { status: 500 },
+    );
+  }
+}
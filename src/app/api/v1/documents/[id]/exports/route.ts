@@ -0,0 +1,16 @@
+//src/app/api/v1/documents/[id]/exports/route.ts
+
+import { createRestRoute, type RestCaller } from "~/server/api/rest/handler";
+
+type ExportInput = Parameters<RestCaller["export"]["createImmediate"]>[0];
+
+export const POST = createRestRoute<{ id: string }>({
+  scope: "exports:write",
+  action: "exports.create",
+  successStatus: 201,
+  handler: ({ caller, params, body }) =>
+    caller.export.createImmediate({
+      ...(body as Omit<ExportInput, "documentId">),
+      documentId: params.id,
+    }),
+});
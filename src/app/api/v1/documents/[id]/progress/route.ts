@@ -0,0 +1,10 @@
+//src/app/api/v1/documents/[id]/progress/route.ts
+
+import { createRestRoute } from "~/server/api/rest/handler";
+
+export const GET = createRestRoute<{ id: string }>({
+  scope: "documents:read",
+  action: "documents.progress",
+  handler: ({ caller, params }) =>
+    caller.document.getProgress({ documentId: params.id }),
+});
@@ -0,0 +1,12 @@
+//src/app/api/v1/documents/route.ts
+
+import { createRestRoute, type RestCaller } from "~/server/api/rest/handler";
+
+type GenerateInput = Parameters<RestCaller["document"]["generate"]>[0];
+
+export const POST = createRestRoute({
+  scope: "documents:write",
+  action: "documents.generate",
+  successStatus: 201,
+  handler: ({ caller, body }) => caller.document.generate(body as GenerateInput),
+});
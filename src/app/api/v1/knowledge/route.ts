@@ -0,0 +1,12 @@
+//src/app/api/v1/knowledge/route.ts
+
+import { createRestRoute, type RestCaller } from "~/server/api/rest/handler";
+
+type UploadInput = Parameters<RestCaller["knowledge"]["upload"]>[0];
+
+export const POST = createRestRoute({
+  scope: "knowledge:write",
+  action: "knowledge.upload",
+  successStatus: 201,
+  handler: ({ caller, body }) => caller.knowledge.upload(body as UploadInput),
+});
@@ -0,0 +1,8 @@
+//src/app/api/v1/openapi.json/route.ts
+
+import { NextResponse } from "next/server";
+import { openApiDocument } from "~/server/api/rest/openapi";
+
+export function GET() {
+  return NextResponse.json(openApiDocument);
+}
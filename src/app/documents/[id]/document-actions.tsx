@@ -100,7 +100,8 @@ export function DocumentActions({ document }: DocumentActionsProps) {
 
   const isProcessing =
     document.status === DocumentStatus.PENDING ||
-    document.status === DocumentStatus.PROCESSING;
+    document.status === DocumentStatus.PROCESSING ||
+    document.status === DocumentStatus.OUTLINE_REVIEW;
 
   return (
     <>
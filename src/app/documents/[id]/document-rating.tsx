@@ -0,0 +1,68 @@
+"use client";
+
+//src/app/documents/[id]/document-rating.tsx
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Star } from "lucide-react";
+import { api } from "~/trpc/react";
+import { toast } from "sonner";
+
+interface DocumentRatingProps {
+  documentId: string;
+  rating: number | null;
+}
+
+export function DocumentRating({ documentId, rating }: DocumentRatingProps) {
+  const [value, setValue] = useState(rating);
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const rate = api.document.rate.useMutation({
+    onSuccess: (result) => {
+      setValue(result.rating);
+      toast.success("Thanks for rating this document");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const shown = hovered ?? value ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Rate this Document</CardTitle>
+        <CardDescription>Helps us improve the prompts we use</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-1" onMouseLeave={() => setHovered(null)}>
+          {[1, 2, 3, 4, 5].map((star) => (
+            <Button
+              key={star}
+              variant="ghost"
+              size="icon"
+              aria-label={`${star} star${star > 1 ? "s" : ""}`}
+              disabled={rate.isPending}
+              onMouseEnter={() => setHovered(star)}
+              onClick={() => rate.mutate({ documentId, rating: star })}
+            >
+              <Star
+                className={`h-5 w-5 ${
+                  star <= shown
+                    ? "fill-yellow-400 text-yellow-400"
+                    : "text-muted-foreground"
+                }`}
+              />
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
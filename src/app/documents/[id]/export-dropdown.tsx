@@ -9,6 +9,8 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "~/components/ui/dropdown-menu";
@@ -34,6 +36,12 @@ const formatIcons: Record<
   txt: FileIcon,
 };
 
+// Formats that are rendered with the chosen export theme
+const themedFormats = new Set(["pdf", "docx", "html"]);
+
+// Radio value for exporting without a theme
+const DEFAULT_THEME = "default";
+
 const formatLabels: Record<string, string> = {
   pdf: "PDF Document",
   docx: "Word Document",
@@ -45,13 +53,18 @@ const formatLabels: Record<string, string> = {
 export function ExportDropdown({ documentId, formats }: ExportDropdownProps) {
   const [isExporting, setIsExporting] = useState(false);
   const [exportingFormat, setExportingFormat] = useState<string | null>(null);
+  const [themeId, setThemeId] = useState(DEFAULT_THEME);
+
+  const utils = api.useUtils();
+  const { data: themes } = api.exportTheme.list.useQuery();
 
-  const exportDocument = api.export.create.useMutation({
+  const exportDocument = api.export.createImmediate.useMutation({
     onSuccess: (data) => {
-      // Trigger download
+      // Trigger download through the signed link
       if (data.url) {
         window.open(data.url, "_blank");
       }
+      void utils.export.listForDocument.invalidate({ documentId });
       toast.success(`Document exported as ${exportingFormat?.toUpperCase()}`);
     },
     onError: (error) => {
@@ -70,6 +83,10 @@ export function ExportDropdown({ documentId, formats }: ExportDropdownProps) {
     await exportDocument.mutateAsync({
       documentId,
       format: format.toUpperCase() as ExportFormat,
+      themeId:
+        themeId !== DEFAULT_THEME && themedFormats.has(format)
+          ? themeId
+          : undefined,
     });
   };
 
@@ -85,7 +102,36 @@ export function ExportDropdown({ documentId, formats }: ExportDropdownProps) {
           Export
         </Button>
       </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-48">
+      <DropdownMenuContent align="end" className="w-56">
+        {themes && themes.length > 0 && (
+          <>
+            <DropdownMenuLabel>Theme</DropdownMenuLabel>
+            <DropdownMenuRadioGroup value={themeId} onValueChange={setThemeId}>
+              {/* Keep the menu open so a format can be picked next */}
+              <DropdownMenuRadioItem
+                value={DEFAULT_THEME}
+                onSelect={(event) => event.preventDefault()}
+              >
+                Default
+              </DropdownMenuRadioItem>
+              {themes.map((theme) => (
+                <DropdownMenuRadioItem
+                  key={theme.id}
+                  value={theme.id}
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  <span className="truncate">{theme.name}</span>
+                  {theme.shared && (
+                    <span className="text-muted-foreground ml-auto text-xs">
+                      Team
+                    </span>
+                  )}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+            <DropdownMenuSeparator />
+          </>
+        )}
         <DropdownMenuLabel>Export Format</DropdownMenuLabel>
         <DropdownMenuSeparator />
         {formats.map((format) => {
@@ -0,0 +1,143 @@
+//src/app/documents/[id]/export-history.tsx
+
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Download, FileText, Link2, Link2Off } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { api } from "~/trpc/react";
+import { toast } from "sonner";
+
+interface ExportHistoryProps {
+  documentId: string;
+}
+
+export function ExportHistory({ documentId }: ExportHistoryProps) {
+  const utils = api.useUtils();
+  const { data: exports } = api.export.listForDocument.useQuery({
+    documentId,
+  });
+
+  const refresh = () => {
+    void utils.export.listForDocument.invalidate({ documentId });
+  };
+
+  const download = api.export.getDownloadUrl.useMutation({
+    onSuccess: (result) => {
+      window.open(result.url, "_blank");
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const share = api.export.share.useMutation({
+    onSuccess: async (result) => {
+      await navigator.clipboard.writeText(
+        new URL(result.url, window.location.origin).toString(),
+      );
+      toast.success(
+        `Share link copied, valid until ${result.expiresAt.toLocaleDateString()}`,
+      );
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const revokeShare = api.export.revokeShare.useMutation({
+    onSuccess: () => {
+      toast.success("Share link revoked");
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (!exports || exports.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Export History</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {exports.map((exp) => {
+          const available =
+            exp.status === "COMPLETED" &&
+            (!exp.expiresAt || new Date(exp.expiresAt) > new Date());
+          const shared =
+            !!exp.shareExpiresAt && new Date(exp.shareExpiresAt) > new Date();
+
+          return (
+            <div key={exp.id} className="space-y-1 text-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <FileText className="text-muted-foreground h-4 w-4" />
+                  <span>{exp.format}</span>
+                  {!available && (
+                    <Badge variant="outline" className="text-xs">
+                      {exp.status === "FAILED" ? "Failed" : "Expired"}
+                    </Badge>
+                  )}
+                  {shared && (
+                    <Badge variant="secondary" className="text-xs">
+                      Shared
+                    </Badge>
+                  )}
+                </div>
+                {available && (
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Download"
+                      onClick={() => download.mutate({ id: exp.id })}
+                      disabled={download.isPending}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    {shared ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Revoke share link"
+                        onClick={() => revokeShare.mutate({ id: exp.id })}
+                        disabled={revokeShare.isPending}
+                      >
+                        <Link2Off className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Copy share link"
+                        onClick={() => share.mutate({ id: exp.id })}
+                        disabled={share.isPending}
+                      >
+                        <Link2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+              <p className="text-muted-foreground text-xs">
+                {formatDistanceToNow(new Date(exp.createdAt), { addSuffix: true })}
+                {" · "}
+                {exp.downloadCount === 1
+                  ? "1 download"
+                  : `${exp.downloadCount} downloads`}
+              </p>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
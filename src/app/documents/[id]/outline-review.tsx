@@ -0,0 +1,168 @@
+//src/app/documents/[id]/outline-review.tsx
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Textarea } from "~/components/ui/textarea";
+import { ArrowDown, ArrowUp, CheckCircle, Loader2, Trash2 } from "lucide-react";
+import { api } from "~/trpc/react";
+import { toast } from "sonner";
+
+export interface OutlineReviewSection {
+  id: string;
+  title: string;
+  points: string[];
+}
+
+interface OutlineReviewProps {
+  documentId: string;
+  sections: OutlineReviewSection[];
+}
+
+interface EditableSection {
+  id: string;
+  title: string;
+  notes: string;
+}
+
+export function OutlineReview({ documentId, sections }: OutlineReviewProps) {
+  const router = useRouter();
+  const [draft, setDraft] = useState<EditableSection[]>(() =>
+    sections.map((section) => ({
+      id: section.id,
+      title: section.title,
+      notes: section.points.join("\n"),
+    })),
+  );
+
+  const approveOutline = api.document.approveOutline.useMutation({
+    onSuccess: () => {
+      toast.success("Outline approved, writing sections");
+      router.refresh();
+    },
+    onError: (error) => {
+      toast.error(error.message ?? "Failed to approve outline");
+    },
+  });
+
+  const updateSection = (index: number, changes: Partial<EditableSection>) => {
+    setDraft((prev) =>
+      prev.map((section, i) =>
+        i === index ? { ...section, ...changes } : section,
+      ),
+    );
+  };
+
+  const moveSection = (index: number, offset: -1 | 1) => {
+    setDraft((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+
+      const copy = [...prev];
+      [copy[index], copy[target]] = [copy[target]!, copy[index]!];
+      return copy;
+    });
+  };
+
+  const removeSection = (index: number) => {
+    setDraft((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleApprove = () => {
+    approveOutline.mutate({
+      documentId,
+      sections: draft.map((section) => ({
+        id: section.id,
+        title: section.title.trim(),
+        points: section.notes
+          .split("\n")
+          .map((point) => point.trim())
+          .filter(Boolean),
+      })),
+    });
+  };
+
+  const hasEmptyTitle = draft.some((section) => !section.title.trim());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Review Outline</CardTitle>
+        <CardDescription>
+          Edit, reorder or remove sections before the content is written. No
+          sections have been generated yet.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draft.map((section, index) => (
+          <div key={section.id} className="space-y-2 rounded-lg border p-4">
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground w-6 text-sm">
+                {index + 1}.
+              </span>
+              <Input
+                value={section.title}
+                onChange={(e) => updateSection(index, { title: e.target.value })}
+                placeholder="Section title"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={index === 0}
+                onClick={() => moveSection(index, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={index === draft.length - 1}
+                onClick={() => moveSection(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={draft.length === 1}
+                onClick={() => removeSection(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <Textarea
+              value={section.notes}
+              onChange={(e) => updateSection(index, { notes: e.target.value })}
+              placeholder="Key points, one per line"
+              rows={3}
+            />
+          </div>
+        ))}
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleApprove}
+            disabled={approveOutline.isPending || hasEmptyTitle}
+          >
+            {approveOutline.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CheckCircle className="mr-2 h-4 w-4" />
+            )}
+            Approve & Generate
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -37,7 +37,13 @@ import { getDocumentConfig } from "~/config/documents";
 import { DocumentStatus, ExportFormat } from "@prisma/client";
 import { DocumentActions } from "./document-actions";
 import { ExportDropdown } from "./export-dropdown";
+import { ExportHistory } from "./export-history";
 import { DocumentProgress } from "./document-progress";
+import { StreamingSections } from "./streaming-sections";
+import { VersionHistory } from "./version-history";
+import { OutlineReview } from "./outline-review";
+import { DocumentRating } from "./document-rating";
+import { normalizeOutline } from "~/server/services/document/outline";
 
 interface PageProps {
   params: {
@@ -58,7 +64,14 @@ export default async function DocumentDetailPage({ params }: PageProps) {
     notFound();
   }
 
-  const config = getDocumentConfig(document.type);
+  const config = document.customType
+    ? {
+        name: document.customType.name,
+        exportFormats: document.customType.exportFormats.map((format: string) =>
+          format.toLowerCase(),
+        ),
+      }
+    : getDocumentConfig(document.type);
 
   // Handle the case where config might not be found
   if (!config) {
@@ -115,7 +128,15 @@ export default async function DocumentDetailPage({ params }: PageProps) {
 
       {/* Progress or Content */}
       {isProcessing ? (
-        <DocumentProgress documentId={document.id} />
+        <div className="space-y-6">
+          <DocumentProgress documentId={document.id} />
+          <StreamingSections documentId={document.id} />
+        </div>
+      ) : document.status === DocumentStatus.OUTLINE_REVIEW ? (
+        <OutlineReview
+          documentId={document.id}
+          sections={normalizeOutline(document.outline)}
+        />
       ) : document.status === DocumentStatus.FAILED ? (
         <Alert variant="destructive">
           <XCircle className="h-4 w-4" />
@@ -144,10 +165,11 @@ export default async function DocumentDetailPage({ params }: PageProps) {
               </CardHeader>
               <CardContent>
                 <Tabs defaultValue="content" className="w-full">
-                  <TabsList className="grid w-full grid-cols-3">
+                  <TabsList className="grid w-full grid-cols-4">
                     <TabsTrigger value="content">Content</TabsTrigger>
                     <TabsTrigger value="outline">Outline</TabsTrigger>
                     <TabsTrigger value="input">Input Data</TabsTrigger>
+                    <TabsTrigger value="history">History</TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="content" className="mt-6 space-y-6">
@@ -201,6 +223,10 @@ export default async function DocumentDetailPage({ params }: PageProps) {
                       </pre>
                     </div>
                   </TabsContent>
+
+                  <TabsContent value="history" className="mt-6">
+                    <VersionHistory documentId={document.id} />
+                  </TabsContent>
                 </Tabs>
               </CardContent>
             </Card>
@@ -262,33 +288,16 @@ export default async function DocumentDetailPage({ params }: PageProps) {
               </CardContent>
             </Card>
 
-            {/* Export History */}
-            {document.exports && document.exports.length > 0 && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-base">Export History</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-2">
-                  {document.exports.map((exp: any) => (
-                    <div
-                      key={exp.id}
-                      className="flex items-center justify-between text-sm"
-                    >
-                      <div className="flex items-center gap-2">
-                        <FileText className="text-muted-foreground h-4 w-4" />
-                        <span>{exp.format}</span>
-                      </div>
-                      <span className="text-muted-foreground">
-                        {formatDistanceToNow(exp.createdAt, {
-                          addSuffix: true,
-                        })}
-                      </span>
-                    </div>
-                  ))}
-                </CardContent>
-              </Card>
+            {document.status === DocumentStatus.COMPLETED && (
+              <DocumentRating
+                documentId={document.id}
+                rating={document.rating}
+              />
             )}
 
+            {/* Export History */}
+            <ExportHistory documentId={document.id} />
+
             {/* Actions */}
             {document.status === DocumentStatus.COMPLETED && (
               <Card>
@@ -345,6 +354,12 @@ function DocumentStatusBadge({ status }: { status: DocumentStatus }) {
       color: "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400",
       label: "Processing",
     },
+    [DocumentStatus.OUTLINE_REVIEW]: {
+      icon: Eye,
+      color:
+        "bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-400",
+      label: "Outline Review",
+    },
     [DocumentStatus.COMPLETED]: {
       icon: CheckCircle,
       color:
@@ -0,0 +1,112 @@
+//src/app/documents/[id]/streaming-sections.tsx
+
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import { Separator } from "~/components/ui/separator";
+import { Loader2 } from "lucide-react";
+import { useSocket } from "~/hooks/use-socket";
+
+interface StreamingSectionsProps {
+  documentId: string;
+}
+
+interface SectionEvent {
+  documentId: string;
+  sectionId: string;
+  content: string;
+  final: boolean;
+}
+
+interface StreamedSection {
+  id: string;
+  content: string;
+  final: boolean;
+}
+
+function formatSectionTitle(sectionId: string) {
+  return sectionId
+    .replace(/[_-]+/g, " ")
+    .replace(/\b\w/g, (char) => char.toUpperCase());
+}
+
+export function StreamingSections({ documentId }: StreamingSectionsProps) {
+  const { socket, isConnected } = useSocket();
+  const [sections, setSections] = useState<StreamedSection[]>([]);
+
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+
+    socket.emit("subscribe:document", documentId);
+
+    const handleSection = (data: SectionEvent) => {
+      if (data.documentId !== documentId) return;
+
+      setSections((prev) => {
+        const index = prev.findIndex((s) => s.id === data.sectionId);
+        const next = {
+          id: data.sectionId,
+          content: data.content,
+          final: data.final,
+        };
+
+        if (index === -1) return [...prev, next];
+        // Never downgrade a finished section with a late partial event
+        if (prev[index]!.final && !data.final) return prev;
+
+        const copy = [...prev];
+        copy[index] = next;
+        return copy;
+      });
+    };
+
+    socket.on("generation:section", handleSection);
+
+    return () => {
+      socket.emit("unsubscribe:document", documentId);
+      socket.off("generation:section", handleSection);
+    };
+  }, [socket, isConnected, documentId]);
+
+  if (sections.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Live Preview</CardTitle>
+        <CardDescription>
+          Sections appear here as they are written
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {sections.map((section, index) => (
+          <div key={section.id} className="space-y-2">
+            <h3 className="flex items-center gap-2 text-lg font-semibold">
+              {formatSectionTitle(section.id)}
+              {!section.final && (
+                <Loader2 className="text-muted-foreground h-4 w-4 animate-spin" />
+              )}
+            </h3>
+            <div className="prose prose-sm dark:prose-invert max-w-none">
+              {section.content.split("\n\n").map((paragraph, i) => (
+                <p key={i} className="text-muted-foreground whitespace-pre-wrap">
+                  {paragraph}
+                </p>
+              ))}
+            </div>
+            {index < sections.length - 1 && <Separator className="my-6" />}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
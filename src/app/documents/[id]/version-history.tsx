@@ -0,0 +1,182 @@
+//src/app/documents/[id]/version-history.tsx
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Skeleton } from "~/components/ui/skeleton";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { api } from "~/trpc/react";
+import { toast } from "sonner";
+import { cn } from "~/lib/utils";
+
+interface VersionHistoryProps {
+  documentId: string;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  GENERATION: "Generated",
+  RETRY: "Retried",
+  REFINEMENT: "Refined",
+  SECTION_REGENERATION: "Section regenerated",
+  MANUAL_SAVE: "Manual save",
+  RESTORE: "Restored",
+};
+
+const CHANGE_VARIANTS = {
+  added: "default",
+  removed: "destructive",
+  modified: "secondary",
+  unchanged: "outline",
+} as const;
+
+export function VersionHistory({ documentId }: VersionHistoryProps) {
+  const router = useRouter();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const { data: versions, isLoading } = api.documentVersion.list.useQuery({
+    documentId,
+  });
+
+  // Compare the selected version with the current document
+  const { data: diff, isFetching: isDiffLoading } =
+    api.documentVersion.diff.useQuery(
+      { documentId, fromVersionId: selectedId ?? "" },
+      { enabled: !!selectedId },
+    );
+
+  const restore = api.documentVersion.restore.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Restored as version ${result.version}`);
+      setSelectedId(null);
+      void utils.documentVersion.list.invalidate({ documentId });
+      router.refresh();
+    },
+    onError: (error) => {
+      toast.error(error.message ?? "Failed to restore version");
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (!versions || versions.length === 0) {
+    return (
+      <p className="text-muted-foreground">No versions recorded yet</p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        {versions.map((version, index) => (
+          <div
+            key={version.id}
+            className={cn(
+              "flex items-center justify-between rounded-lg border p-3",
+              selectedId === version.id && "border-primary",
+            )}
+          >
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Version {version.version}</span>
+                <Badge variant="outline">
+                  {SOURCE_LABELS[version.source] ?? version.source}
+                </Badge>
+                {index === 0 && <Badge>Latest</Badge>}
+              </div>
+              <p className="text-muted-foreground text-sm">
+                {formatDistanceToNow(new Date(version.createdAt), {
+                  addSuffix: true,
+                })}{" "}
+                · {version.wordCount.toLocaleString()} words
+                {version.model && ` · ${version.model}`}
+                {version.cost > 0 && ` · $${version.cost.toFixed(4)}`}
+              </p>
+              {version.note && (
+                <p className="text-muted-foreground text-sm italic">
+                  {version.note}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setSelectedId(selectedId === version.id ? null : version.id)
+                }
+              >
+                <History className="mr-2 h-4 w-4" />
+                {selectedId === version.id ? "Hide" : "Compare"}
+              </Button>
+              {index > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={restore.isPending}
+                  onClick={() =>
+                    restore.mutate({ documentId, versionId: version.id })
+                  }
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Restore
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {selectedId && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">
+            Changes since version {diff?.fromVersion ?? ""}
+          </h3>
+          {isDiffLoading || !diff ? (
+            <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+          ) : (
+            diff.sections.map((section) => (
+              <div key={section.id} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{section.title}</span>
+                  <Badge variant={CHANGE_VARIANTS[section.change]}>
+                    {section.change}
+                  </Badge>
+                </div>
+                {section.change !== "unchanged" && (
+                  <pre className="bg-muted overflow-x-auto rounded-lg p-3 text-sm whitespace-pre-wrap">
+                    {section.lines.map((line, i) => (
+                      <div
+                        key={i}
+                        className={cn(
+                          line.type === "added" &&
+                            "bg-green-500/10 text-green-700 dark:text-green-400",
+                          line.type === "removed" &&
+                            "bg-red-500/10 text-red-700 line-through dark:text-red-400",
+                          line.type === "equal" && "text-muted-foreground",
+                        )}
+                      >
+                        {line.type === "added"
+                          ? "+ "
+                          : line.type === "removed"
+                            ? "- "
+                            : "  "}
+                        {line.value}
+                      </div>
+                    ))}
+                  </pre>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+// src/app/documents/batch/[id]/page.tsx
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ExportFormat } from "@prisma/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Progress } from "~/components/ui/progress";
+import { Skeleton } from "~/components/ui/skeleton";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+
+const STATUS_VARIANTS = {
+  PENDING: "outline",
+  PROCESSING: "secondary",
+  OUTLINE_REVIEW: "secondary",
+  COMPLETED: "default",
+  FAILED: "destructive",
+  CANCELLED: "destructive",
+} as const;
+
+// Refresh while documents are still generating
+const POLL_INTERVAL_MS = 5000;
+
+export default function BatchPage() {
+  const { id } = useParams<{ id: string }>();
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(ExportFormat.PDF);
+
+  const { data: batch, isLoading } = api.batch.get.useQuery(
+    { id },
+    {
+      refetchInterval: (query) =>
+        query.state.data?.progress.done ? false : POLL_INTERVAL_MS,
+    },
+  );
+
+  const exportZip = api.batch.exportZip.useMutation({
+    onSuccess: (result) => {
+      window.open(result.url, "_blank");
+      toast.success(`Exported ${result.documents} documents`);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (isLoading || !batch) {
+    return (
+      <div className="container mx-auto max-w-6xl px-4 py-8">
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const { progress } = batch;
+
+  return (
+    <div className="container mx-auto max-w-6xl space-y-6 px-4 py-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{batch.name}</h1>
+          <p className="text-muted-foreground">
+            {batch.totalDocuments} documents with {batch.provider} ({batch.model}),
+            estimated ${batch.estimatedCost.toFixed(3)}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={exportFormat}
+            onValueChange={(value) => setExportFormat(value as ExportFormat)}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(ExportFormat).map((format) => (
+                <SelectItem key={format} value={format}>
+                  {format}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => exportZip.mutate({ id, format: exportFormat })}
+            disabled={progress.completed === 0 || exportZip.isPending}
+          >
+            {exportZip.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Download zip
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Progress</CardTitle>
+          <CardDescription>
+            {progress.completed} completed, {progress.processing} generating,{" "}
+            {progress.pending} queued, {progress.failed} failed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Progress value={progress.progress} className="h-2" />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Documents</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Words</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batch.documents.map((document) => (
+                <TableRow key={document.id}>
+                  <TableCell>
+                    <Link href={`/documents/${document.id}`} className="hover:underline">
+                      {document.title}
+                    </Link>
+                    {document.error && (
+                      <p className="text-xs text-destructive">{document.error}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[document.status]}>
+                      {document.status.toLowerCase().replace("_", " ")}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {document.wordCount.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    ${document.totalCost.toFixed(3)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,406 @@
+"use client";
+// src/app/documents/batch/page.tsx
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { DocumentType } from "@prisma/client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Alert, AlertDescription } from "~/components/ui/alert";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { AlertCircle, DollarSign, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+import { getDocumentSchema } from "~/config/documents";
+import {
+  buildCustomInputSchema,
+  parseCustomFields,
+} from "~/config/custom-document-types";
+import {
+  getBatchFields,
+  mapBatchRows,
+  parseBatchFile,
+  suggestColumnMapping,
+  validateBatchInputs,
+  type BatchColumnMapping,
+  type ParsedBatchFile,
+} from "~/lib/batch";
+import type { ProviderName } from "~/server/services/llm";
+import { ProviderSelector } from "~/components/llm/provider-selector";
+
+// Select value for a field read from no column
+const UNMAPPED = "__none__";
+
+// Type options are keyed by custom type id, or the built-in type
+const typeKey = (type: DocumentType, customTypeId: string | null) =>
+  customTypeId ?? type;
+
+export default function BatchGenerationPage() {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [selectedType, setSelectedType] = useState<string>();
+  const [file, setFile] = useState<ParsedBatchFile & { filename: string }>();
+  const [mapping, setMapping] = useState<BatchColumnMapping>({});
+  const [llmConfig, setLLMConfig] = useState<{ provider: ProviderName; model: string }>({
+    provider: "openai",
+    model: "gpt-4-turbo",
+  });
+
+  const { data: types } = api.document.getAvailableTypes.useQuery();
+  const { data: customTypes } = api.customDocumentType.listEnabled.useQuery();
+  const { data: batches } = api.batch.list.useQuery();
+
+  const typeOption = types?.find(
+    (option) => typeKey(option.type, option.customTypeId) === selectedType,
+  );
+
+  const schema = useMemo(() => {
+    if (!typeOption) return null;
+    if (typeOption.customTypeId) {
+      const customType = customTypes?.find((t) => t.id === typeOption.customTypeId);
+      return customType
+        ? buildCustomInputSchema(parseCustomFields(customType.fields))
+        : null;
+    }
+    return getDocumentSchema(typeOption.type);
+  }, [typeOption, customTypes]);
+
+  const fields = useMemo(() => (schema ? getBatchFields(schema) : []), [schema]);
+
+  // Start from columns named like the fields whenever the file or type changes
+  useEffect(() => {
+    setMapping(file ? suggestColumnMapping(fields, file.columns) : {});
+  }, [fields, file]);
+
+  // Checked in the browser as the mapping changes; the server checks again
+  const rows = useMemo(() => {
+    if (!schema || !file) return [];
+    return validateBatchInputs(schema, mapBatchRows(file.rows, fields, mapping));
+  }, [schema, file, fields, mapping]);
+
+  const invalidRows = rows.filter((row) => row.errors.length > 0);
+
+  const estimate = api.batch.validate.useMutation({
+    onError: (error) => toast.error(error.message),
+  });
+
+  const createBatch = api.batch.create.useMutation({
+    onSuccess: (batch) => {
+      toast.success(`Queued ${batch.documentIds.length} documents`);
+      router.push(`/documents/batch/${batch.id}`);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const target = typeOption
+    ? {
+        type: typeOption.type,
+        customTypeId: typeOption.customTypeId ?? undefined,
+        provider: llmConfig.provider as Exclude<ProviderName, "mock">,
+        model: llmConfig.model,
+      }
+    : null;
+
+  const handleTypeChange = (value: string) => {
+    setSelectedType(value);
+    estimate.reset();
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+
+    try {
+      const parsed = parseBatchFile(await selected.text(), selected.name);
+      setFile({ ...parsed, filename: selected.name });
+      estimate.reset();
+      if (!name) setName(selected.name.replace(/\.(csv|json)$/i, ""));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not read the file");
+    }
+  };
+
+  const handleMappingChange = (path: string, column: string) => {
+    setMapping((current) => ({
+      ...current,
+      [path]: column === UNMAPPED ? undefined : column,
+    }));
+    estimate.reset();
+  };
+
+  const handleEstimate = () => {
+    if (!target) return;
+    estimate.mutate({ ...target, inputs: rows.map((row) => row.input) });
+  };
+
+  const handleCreate = () => {
+    if (!target) return;
+    createBatch.mutate({
+      ...target,
+      name: name.trim() || "Batch",
+      inputs: rows.map((row) => row.input),
+    });
+  };
+
+  return (
+    <div className="container mx-auto max-w-6xl space-y-6 px-4 py-8">
+      <div>
+        <h1 className="text-3xl font-bold">Batch Generation</h1>
+        <p className="text-muted-foreground">
+          Generate one document per row of a CSV file or JSON array
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>1. Upload rows</CardTitle>
+          <CardDescription>
+            Up to 100 rows. In CSV files, separate list values with semicolons.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Document type</Label>
+            <Select value={selectedType} onValueChange={handleTypeChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a type" />
+              </SelectTrigger>
+              <SelectContent>
+                {types?.map((option) => (
+                  <SelectItem
+                    key={typeKey(option.type, option.customTypeId)}
+                    value={typeKey(option.type, option.customTypeId)}
+                  >
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="batch-file">File</Label>
+            <Input
+              id="batch-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              disabled={!schema}
+              onChange={(e) => void handleFile(e.target.files?.[0])}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="batch-name">Batch name</Label>
+            <Input
+              id="batch-name"
+              value={name}
+              maxLength={100}
+              placeholder="e.g. Conference speakers"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {file && schema && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Map columns</CardTitle>
+            <CardDescription>
+              {file.rows.length} rows and {file.columns.length} columns in{" "}
+              {file.filename}. Unmapped fields use their defaults; documents
+              without a title are numbered within the batch.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-3 md:grid-cols-2">
+            {fields.map((field) => (
+              <div key={field.path} className="flex items-center gap-3">
+                <Label className="w-1/2 truncate font-mono text-xs">
+                  {field.path}
+                  {field.required && <span className="text-destructive"> *</span>}
+                </Label>
+                <Select
+                  value={mapping[field.path] ?? UNMAPPED}
+                  onValueChange={(column) => handleMappingChange(field.path, column)}
+                >
+                  <SelectTrigger className="w-1/2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                    {file.columns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {file && schema && (
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Check and generate</CardTitle>
+            <CardDescription>
+              {invalidRows.length === 0
+                ? `All ${rows.length} rows are valid`
+                : `${invalidRows.length} of ${rows.length} rows need fixing`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {invalidRows.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Errors</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invalidRows.map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell className="space-y-1">
+                        {row.errors.map((error, index) => (
+                          <p key={index} className="text-sm">
+                            <span className="font-mono text-xs">{error.field}</span>
+                            {": "}
+                            {error.message}
+                          </p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <ProviderSelector
+              value={llmConfig}
+              onChange={(value) => {
+                setLLMConfig(value);
+                estimate.reset();
+              }}
+              documentType={typeOption?.type}
+              showCosts={true}
+            />
+
+            {estimate.data && (
+              <Alert>
+                <DollarSign className="h-4 w-4" />
+                <AlertDescription>
+                  Estimated total: <strong>${estimate.data.estimatedCost.toFixed(3)}</strong>{" "}
+                  for {estimate.data.validRows} documents (
+                  {estimate.data.estimatedTokens.toLocaleString()} tokens)
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {invalidRows.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Fix the file or the column mapping before generating
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={handleEstimate}
+                disabled={!target || estimate.isPending || invalidRows.length > 0}
+              >
+                {estimate.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Estimate cost
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={
+                  !estimate.data ||
+                  invalidRows.length > 0 ||
+                  createBatch.isPending
+                }
+              >
+                {createBatch.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Upload className="mr-2 h-4 w-4" />
+                )}
+                Generate {rows.length} documents
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!!batches?.length && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Previous batches</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Documents</TableHead>
+                  <TableHead>Created</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch.id}>
+                    <TableCell>
+                      <Link href={`/documents/batch/${batch.id}`} className="hover:underline">
+                        {batch.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {batch.type === DocumentType.CUSTOM ? "Custom" : batch.type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {batch._count.documents}
+                    </TableCell>
+                    <TableCell>
+                      {format(new Date(batch.createdAt), "MMM d, HH:mm")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
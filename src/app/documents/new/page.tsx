@@ -2,9 +2,15 @@
 
 import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { useSession } from "next-auth/react";
-import { api } from '~/trpc/react';
+import { api, type RouterOutputs } from '~/trpc/react';
 import { getDocumentSchema, getDocumentConfig } from "~/config/documents";
+import {
+  buildCustomFieldConfig,
+  buildCustomInputSchema,
+  parseCustomFields,
+} from "~/config/custom-document-types";
 import type { ProviderName } from "~/server/services/llm";
 import { DocumentType } from '@prisma/client';
 import {
@@ -70,6 +76,8 @@ const DOCUMENT_TYPES = [
   },
 ];
 
+type CustomTypeOption = RouterOutputs['customDocumentType']['listEnabled'][number];
+
 export default function NewDocumentPage() {
   const router = useRouter();
   const { data: session, status: sessionStatus } = useSession();
@@ -82,6 +90,8 @@ export default function NewDocumentPage() {
   }, [sessionStatus, session, router]);
   const [step, setStep] = useState(1); // 1: Type, 2: Form, 3: Config, 4: Generating
   const [selectedType, setSelectedType] = useState<DocumentType | null>(null);
+  // Set when an admin-defined type is selected (selectedType is then CUSTOM)
+  const [selectedCustomType, setSelectedCustomType] = useState<CustomTypeOption | null>(null);
   const [formData, setFormData] = useState({});
   const [llmConfig, setLLMConfig] = useState<{ provider: ProviderName; model: string }>({
     provider: 'openai',
@@ -90,22 +100,38 @@ export default function NewDocumentPage() {
   const [ragConfigState, setRAGConfigState] = useState({
     ragEnabled: false,
     knowledgeSourceIds: [] as string[],
+    knowledgeCollectionIds: [] as string[],
     autoSelect: true,
   });
+  const [reviewOutline, setReviewOutline] = useState(false);
   const [documentId, setDocumentId] = useState<string | null>(null);
   const [showProgress, setShowProgress] = useState(false);
 
+  const { data: customTypes } = api.customDocumentType.listEnabled.useQuery();
+
   const schemaData = React.useMemo(() => {
     if (!selectedType) return null;
+    if (selectedCustomType) {
+      const fields = parseCustomFields(selectedCustomType.fields);
+      return {
+        schema: buildCustomInputSchema(fields),
+        fieldConfig: buildCustomFieldConfig(fields),
+      };
+    }
     const cfg = getDocumentConfig(selectedType);
     return { schema: cfg?.schema, fieldConfig: (cfg as any)?.fieldConfig };
-  }, [selectedType]);
+  }, [selectedType, selectedCustomType]);
 
   // RAG availability derived
   const { data: knowledgeSources } = api.knowledge.list.useQuery({ limit: 1 }, { enabled: step >= 2 });
 
   const createDocumentMutation = api.document.create.useMutation({
     onSuccess: (data) => {
+      // The document page hosts the outline editor once the outline is ready
+      if (reviewOutline) {
+        router.push(`/documents/${data.id}`);
+        return;
+      }
       setDocumentId(data.id);
       setShowProgress(true);
       setStep(4);
@@ -118,36 +144,27 @@ export default function NewDocumentPage() {
   const createDocument = createDocumentMutation.mutate;
   const isCreating = (createDocumentMutation as any).isPending ?? (createDocumentMutation as any).isLoading ?? false;
 
-  // Calculate estimated cost
-  const estimatedCost = React.useMemo(() => {
-    if (!selectedType || !llmConfig.model) return null;
-
-    // Rough estimates based on document type and model
-    const baseCosts: Record<string, number> = {
-      'gpt-4-turbo': 0.03,
-      'gpt-3.5-turbo': 0.002,
-      'claude-3-opus': 0.045,
-      'claude-3-sonnet': 0.009,
-      'gemini-1.5-pro': 0.01,
-    };
+  // Estimated cost from the model catalog prices
+  const { data: costEstimate } = api.modelCatalog.estimate.useQuery(
+    {
+      provider: llmConfig.provider,
+      model: llmConfig.model,
+      documentType: selectedType!,
+      customTypeId: selectedCustomType?.id,
+    },
+    { enabled: !!selectedType && !!llmConfig.model },
+  );
 
-    const typeMultipliers = {
-      [DocumentType.BIOGRAPHY]: 2,
-      [DocumentType.BUSINESS_PLAN]: 3,
-      [DocumentType.CASE_SUMMARY]: 1.5,
-      [DocumentType.GRANT_PROPOSAL]: 2.5,
-      [DocumentType.MEDICAL_REPORT]: 1,
-    };
+  const estimatedCost = React.useMemo(() => {
+    if (!costEstimate) return null;
 
-    const base = baseCosts[llmConfig.model as string] || 0.01;
-    const multiplier = typeMultipliers[selectedType] || 1;
     const ragMultiplier = ragConfigState.ragEnabled ? 1.2 : 1;
+    return (costEstimate.estimatedCost * ragMultiplier).toFixed(3);
+  }, [costEstimate, ragConfigState.ragEnabled]);
 
-    return (base * multiplier * ragMultiplier).toFixed(3);
-  }, [selectedType, llmConfig.model, ragConfigState.ragEnabled]);
-
-  const handleTypeSelect = (type: DocumentType) => {
+  const handleTypeSelect = (type: DocumentType, customType: CustomTypeOption | null = null) => {
     setSelectedType(type);
+    setSelectedCustomType(customType);
     setStep(2);
   };
 
@@ -163,6 +180,7 @@ export default function NewDocumentPage() {
   const handleGenerate = () => {
     createDocument({
       type: selectedType!,
+      customTypeId: selectedCustomType?.id,
       input: {
         ...formData,
         title: ((formData as any).title || '').trim() || 'Untitled Document',
@@ -170,8 +188,11 @@ export default function NewDocumentPage() {
       provider: llmConfig.provider,
       model: llmConfig.model,
       ragEnabled: ragConfigState.ragEnabled,
-      knowledgeSourceIds: ragConfigState.knowledgeSourceIds,
+      // Auto-select searches everything the user can access
+      knowledgeSourceIds: ragConfigState.autoSelect ? [] : ragConfigState.knowledgeSourceIds,
+      knowledgeCollectionIds: ragConfigState.autoSelect ? [] : ragConfigState.knowledgeCollectionIds,
       autoSelectSources: ragConfigState.autoSelect,
+      reviewOutline,
     });
   };
 
@@ -229,7 +250,10 @@ export default function NewDocumentPage() {
               What would you like to create?
             </h1>
             <p className="text-gray-600 text-center mb-8">
-              Choose a document type to get started
+              Choose a document type to get started, or{' '}
+              <Link href="/documents/batch" className="text-blue-600 hover:underline">
+                generate many at once from a CSV or JSON file
+              </Link>
             </p>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -261,6 +285,28 @@ export default function NewDocumentPage() {
                   </motion.button>
                 );
               })}
+              {customTypes?.map((customType) => (
+                <motion.button
+                  key={customType.id}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => handleTypeSelect(DocumentType.CUSTOM, customType)}
+                  className={`p-6 rounded-xl border-2 text-left transition-all hover:shadow-lg ${selectedCustomType?.id === customType.id
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                >
+                  <div className="inline-flex p-3 rounded-lg bg-gray-100 text-gray-600 mb-4">
+                    <FileText className="h-6 w-6" />
+                  </div>
+                  <h3 className="font-semibold text-gray-900 mb-1">
+                    {customType.name}
+                  </h3>
+                  <p className="text-sm text-gray-600 mb-3">
+                    {customType.description}
+                  </p>
+                </motion.button>
+              ))}
             </div>
           </motion.div>
         )}
@@ -317,6 +363,22 @@ export default function NewDocumentPage() {
               />
             </div>
 
+            {/* Outline Review */}
+            <label className="flex items-start space-x-3 border rounded-lg p-4 mb-8 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={reviewOutline}
+                onChange={(e) => setReviewOutline(e.target.checked)}
+                className="mt-1 h-4 w-4"
+              />
+              <div>
+                <span className="font-medium text-gray-900">Review outline before writing</span>
+                <p className="text-sm text-gray-600 mt-1">
+                  Generation pauses after the outline so you can edit, reorder or remove sections before any content is written.
+                </p>
+              </div>
+            </label>
+
             {/* Cost Estimate */}
             <div className="bg-gray-50 rounded-lg p-6 mb-8">
               <div className="flex items-start space-x-3">
@@ -344,12 +406,13 @@ export default function NewDocumentPage() {
                 Ready to Generate:
               </h4>
               <ul className="space-y-2 text-sm text-blue-800">
-                <li>• Document Type: {DOCUMENT_TYPES.find(d => d.type === selectedType)?.name}</li>
+                <li>• Document Type: {selectedCustomType?.name ?? DOCUMENT_TYPES.find(d => d.type === selectedType)?.name}</li>
                 <li>• AI Provider: {llmConfig.provider}</li>
                 <li>• Model: {llmConfig.model}</li>
                 <li>• RAG Enhancement: {ragConfigState.ragEnabled ? 'Enabled' : 'Disabled'}</li>
+                <li>• Outline Review: {reviewOutline ? 'Enabled' : 'Disabled'}</li>
                 {ragConfigState.ragEnabled && (
-                  <li>• Knowledge Sources: {ragConfigState.autoSelect ? 'Auto-select' : `${ragConfigState.knowledgeSourceIds.length} selected`}</li>
+                  <li>• Knowledge Sources: {ragConfigState.autoSelect ? 'Auto-select' : `${ragConfigState.knowledgeSourceIds.length} sources, ${ragConfigState.knowledgeCollectionIds.length} collections selected`}</li>
                 )}
               </ul>
             </div>
@@ -0,0 +1,292 @@
+"use client";
+
+// src/app/settings/components/api-token-settings.tsx
+
+import { useState } from "react";
+import { formatDistanceToNow, format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Badge } from "~/components/ui/badge";
+import { Alert, AlertDescription } from "~/components/ui/alert";
+import { Skeleton } from "~/components/ui/skeleton";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "~/components/ui/select";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "~/components/ui/dialog";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from "~/components/ui/alert-dialog";
+import { AlertTriangle, ChevronRight, Copy, Key, Loader2, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+import { API_TOKEN_SCOPES, type ApiTokenScope } from "~/config/api-tokens";
+
+const EXPIRY_OPTIONS = [
+    { value: "30", label: "30 days" },
+    { value: "90", label: "90 days" },
+    { value: "365", label: "1 year" },
+    { value: "never", label: "No expiry" },
+];
+
+export function ApiTokenSettings() {
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [name, setName] = useState("");
+    const [scopes, setScopes] = useState<ApiTokenScope[]>(["documents:write", "documents:read"]);
+    const [expiry, setExpiry] = useState("90");
+    // The plain token is only available right after creation
+    const [newToken, setNewToken] = useState<string | null>(null);
+
+    const utils = api.useUtils();
+    const { data: tokens, isLoading } = api.apiToken.list.useQuery();
+
+    const createToken = api.apiToken.create.useMutation({
+        onSuccess: (result) => {
+            setNewToken(result.token);
+            setDialogOpen(false);
+            setName("");
+            void utils.apiToken.list.invalidate();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const revokeToken = api.apiToken.revoke.useMutation({
+        onSuccess: () => {
+            void utils.apiToken.list.invalidate();
+            toast.success("API token revoked");
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+        setScopes((prev) =>
+            checked ? [...prev, scope] : prev.filter((s) => s !== scope)
+        );
+    };
+
+    const copyToken = () => {
+        if (!newToken) return;
+        void navigator.clipboard.writeText(newToken);
+        toast.success("API token copied to clipboard");
+    };
+
+    const tokenState = (token: NonNullable<typeof tokens>[number]) => {
+        if (token.revokedAt) return <Badge variant="secondary">Revoked</Badge>;
+        if (token.expiresAt && new Date(token.expiresAt) <= new Date()) {
+            return <Badge variant="secondary">Expired</Badge>;
+        }
+        return <Badge variant="outline">Active</Badge>;
+    };
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                    <CardTitle>API Access</CardTitle>
+                    <CardDescription>
+                        Personal tokens for generating documents from scripts and other systems
+                    </CardDescription>
+                </div>
+                <Button size="sm" onClick={() => setDialogOpen(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Token
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {newToken ? (
+                    <Alert>
+                        <Key className="h-4 w-4" />
+                        <AlertDescription className="space-y-2">
+                            <p>Copy your new token now. It won&apos;t be shown again.</p>
+                            <div className="flex gap-2">
+                                <Input value={newToken} readOnly className="font-mono text-xs" />
+                                <Button variant="outline" size="icon" onClick={copyToken}>
+                                    <Copy className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" onClick={() => setNewToken(null)}>
+                                    Done
+                                </Button>
+                            </div>
+                        </AlertDescription>
+                    </Alert>
+                ) : (
+                    <Alert>
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>
+                            Keep your tokens secret. Anyone with a token can act on your account within its scopes.
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                {isLoading ? (
+                    <Skeleton className="h-24 w-full" />
+                ) : !tokens?.length ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                        No API tokens yet
+                    </p>
+                ) : (
+                    tokens.map((token) => (
+                        <div
+                            key={token.id}
+                            className="flex items-start justify-between gap-4 rounded-lg border p-4"
+                        >
+                            <div className="min-w-0 space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-medium">{token.name}</span>
+                                    {tokenState(token)}
+                                </div>
+                                <p className="font-mono text-xs text-muted-foreground">
+                                    {token.prefix}…
+                                </p>
+                                <div className="flex flex-wrap gap-1">
+                                    {token.scopes.map((scope: string) => (
+                                        <Badge key={scope} variant="secondary">
+                                            {scope}
+                                        </Badge>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    {token.lastUsedAt
+                                        ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                                        : "Never used"}
+                                    {" · "}
+                                    {token.expiresAt
+                                        ? `Expires ${format(new Date(token.expiresAt), "MMM d, yyyy")}`
+                                        : "No expiry"}
+                                </p>
+                            </div>
+                            {!token.revokedAt && (
+                                <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                        <Button variant="outline" size="sm">
+                                            Revoke
+                                        </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                        <AlertDialogHeader>
+                                            <AlertDialogTitle>Revoke {token.name}?</AlertDialogTitle>
+                                            <AlertDialogDescription>
+                                                Scripts using this token will stop working immediately.
+                                            </AlertDialogDescription>
+                                        </AlertDialogHeader>
+                                        <AlertDialogFooter>
+                                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                            <AlertDialogAction
+                                                onClick={() => revokeToken.mutate({ id: token.id })}
+                                            >
+                                                Revoke
+                                            </AlertDialogAction>
+                                        </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                </AlertDialog>
+                            )}
+                        </div>
+                    ))
+                )}
+
+                <Button variant="outline" className="w-full" asChild>
+                    <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer">
+                        View API Documentation (OpenAPI)
+                        <ChevronRight className="ml-2 h-4 w-4" />
+                    </a>
+                </Button>
+            </CardContent>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>New API Token</DialogTitle>
+                        <DialogDescription>
+                            Grant only the scopes your integration needs
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="token-name">Name</Label>
+                            <Input
+                                id="token-name"
+                                placeholder="Case management sync"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-3">
+                            <Label>Scopes</Label>
+                            {(Object.keys(API_TOKEN_SCOPES) as ApiTokenScope[]).map((scope) => (
+                                <div key={scope} className="flex items-start gap-3">
+                                    <Checkbox
+                                        id={`scope-${scope}`}
+                                        checked={scopes.includes(scope)}
+                                        onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                                    />
+                                    <div className="grid gap-1 leading-none">
+                                        <Label htmlFor={`scope-${scope}`}>{API_TOKEN_SCOPES[scope].name}</Label>
+                                        <p className="text-xs text-muted-foreground">
+                                            {scope} · {API_TOKEN_SCOPES[scope].description}
+                                        </p>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Expiration</Label>
+                            <Select value={expiry} onValueChange={setExpiry}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {EXPIRY_OPTIONS.map((option) => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={() =>
+                                createToken.mutate({
+                                    name: name.trim(),
+                                    scopes,
+                                    expiresInDays: expiry === "never" ? undefined : Number(expiry),
+                                })
+                            }
+                            disabled={!name.trim() || scopes.length === 0 || createToken.isPending}
+                        >
+                            {createToken.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Create Token
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -0,0 +1,467 @@
+"use client";
+
+// src/app/settings/components/export-theme-settings.tsx
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import { Badge } from "~/components/ui/badge";
+import { Skeleton } from "~/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "~/components/ui/dialog";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "~/components/ui/table";
+import { Eye, ImagePlus, Loader2, Palette, Pencil, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+import {
+    DEFAULT_EXPORT_THEME,
+    EXPORT_THEME_FONTS,
+    EXPORT_THEME_PLACEHOLDERS,
+    exportThemeLogoSchema,
+    type ExportThemeFont,
+    type ExportThemeLogo,
+    type ExportThemeSettings as ThemeValues,
+} from "~/config/export-themes";
+
+type PreviewFormat = "HTML" | "PDF";
+
+const COLOR_FIELDS = [
+    { key: "primaryColor", label: "Headings" },
+    { key: "textColor", label: "Text" },
+    { key: "accentColor", label: "Links & citations" },
+] as const;
+
+// Reads an uploaded image as a data URL together with its pixel size
+function readLogo(file: File): Promise<ExportThemeLogo> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onerror = () => reject(new Error("Could not read the image"));
+        reader.onload = () => {
+            const dataUrl = reader.result as string;
+            const image = new Image();
+            image.onerror = () => reject(new Error("Could not read the image"));
+            image.onload = () => {
+                const parsed = exportThemeLogoSchema.safeParse({
+                    dataUrl,
+                    width: image.naturalWidth,
+                    height: image.naturalHeight,
+                });
+                if (parsed.success) {
+                    resolve(parsed.data);
+                } else {
+                    reject(new Error(parsed.error.issues[0]?.message ?? "Invalid image"));
+                }
+            };
+            image.src = dataUrl;
+        };
+        reader.readAsDataURL(file);
+    });
+}
+
+export function ExportThemeSettings() {
+    const { data: session } = useSession();
+    const isAdmin = session?.user.role === "ADMIN";
+
+    const [dialogOpen, setDialogOpen] = useState(false);
+    // Theme being edited, null while creating a new one
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [name, setName] = useState("");
+    const [shared, setShared] = useState(false);
+    const [settings, setSettings] = useState<ThemeValues>(DEFAULT_EXPORT_THEME);
+    const [previewFormat, setPreviewFormat] = useState<PreviewFormat>("HTML");
+    const [preview, setPreview] = useState<{ format: PreviewFormat; url: string } | null>(null);
+
+    const utils = api.useUtils();
+    const { data: themes, isLoading } = api.exportTheme.list.useQuery();
+
+    const onSaved = (message: string) => {
+        setDialogOpen(false);
+        void utils.exportTheme.list.invalidate();
+        toast.success(message);
+    };
+
+    const createTheme = api.exportTheme.create.useMutation({
+        onSuccess: () => onSaved("Export theme created"),
+        onError: (error) => toast.error(error.message),
+    });
+
+    const updateTheme = api.exportTheme.update.useMutation({
+        onSuccess: () => onSaved("Export theme saved"),
+        onError: (error) => toast.error(error.message),
+    });
+
+    const deleteTheme = api.exportTheme.delete.useMutation({
+        onSuccess: () => {
+            void utils.exportTheme.list.invalidate();
+            toast.success("Export theme deleted");
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const renderPreview = api.exportTheme.preview.useMutation({
+        onSuccess: (result, input) =>
+            setPreview({
+                format: input.format ?? "HTML",
+                url: `data:${result.mimeType};base64,${result.data}`,
+            }),
+        onError: (error) => toast.error(error.message),
+    });
+
+    const update = <K extends keyof ThemeValues>(key: K, value: ThemeValues[K]) => {
+        setSettings((prev) => ({ ...prev, [key]: value }));
+    };
+
+    const openEditor = (theme?: { id: string; name: string; shared: boolean; settings: ThemeValues }) => {
+        setEditingId(theme?.id ?? null);
+        setName(theme?.name ?? "");
+        setShared(theme?.shared ?? false);
+        setSettings(theme?.settings ?? DEFAULT_EXPORT_THEME);
+        setPreview(null);
+        setDialogOpen(true);
+    };
+
+    const handleLogo = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            update("logo", await readLogo(file));
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Could not read the image");
+        }
+    };
+
+    const handleSave = () => {
+        const input = { name, shared, settings };
+        if (editingId) {
+            updateTheme.mutate({ id: editingId, ...input });
+        } else {
+            createTheme.mutate(input);
+        }
+    };
+
+    const isSaving = createTheme.isPending || updateTheme.isPending;
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div className="space-y-1.5">
+                        <CardTitle>Export Themes</CardTitle>
+                        <CardDescription>
+                            Brand PDF, Word and HTML exports with your logo, fonts and colours
+                        </CardDescription>
+                    </div>
+                    <Button size="sm" onClick={() => openEditor()}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        New Theme
+                    </Button>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <Skeleton className="h-24 w-full" />
+                    ) : !themes?.length ? (
+                        <div className="text-center py-8 text-muted-foreground">
+                            <Palette className="h-8 w-8 mx-auto mb-2" />
+                            <p className="text-sm">
+                                No themes yet. Exports use the default look until you add one.
+                            </p>
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead>Fonts</TableHead>
+                                    <TableHead>Colours</TableHead>
+                                    <TableHead>Owner</TableHead>
+                                    <TableHead className="w-24" />
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {themes.map((theme) => (
+                                    <TableRow key={theme.id}>
+                                        <TableCell>
+                                            <div className="flex items-center gap-2">
+                                                <span className="font-medium">{theme.name}</span>
+                                                {theme.shared && <Badge variant="secondary">Team</Badge>}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell className="text-sm text-muted-foreground">
+                                            {EXPORT_THEME_FONTS[theme.settings.headingFont].name} /{" "}
+                                            {EXPORT_THEME_FONTS[theme.settings.bodyFont].name}
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex gap-1">
+                                                {COLOR_FIELDS.map(({ key }) => (
+                                                    <span
+                                                        key={key}
+                                                        className="h-4 w-4 rounded-full border"
+                                                        style={{ backgroundColor: theme.settings[key] }}
+                                                    />
+                                                ))}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell className="text-sm text-muted-foreground">
+                                            {theme.editable ? "You" : theme.owner}
+                                        </TableCell>
+                                        <TableCell>
+                                            {theme.editable && (
+                                                <div className="flex justify-end">
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        title="Edit theme"
+                                                        onClick={() => openEditor(theme)}
+                                                    >
+                                                        <Pencil className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        title="Delete theme"
+                                                        onClick={() => deleteTheme.mutate({ id: theme.id })}
+                                                        disabled={deleteTheme.isPending}
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                </div>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>{editingId ? "Edit Export Theme" : "New Export Theme"}</DialogTitle>
+                        <DialogDescription>
+                            Applied to PDF, Word and HTML exports when picked in the export menu
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="grid gap-6 lg:grid-cols-2">
+                        <div className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="theme-name">Name</Label>
+                                <Input
+                                    id="theme-name"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    placeholder="Client reports"
+                                />
+                            </div>
+
+                            {isAdmin && (
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <Label htmlFor="theme-shared">Share with team</Label>
+                                        <p className="text-xs text-muted-foreground">
+                                            Everyone can export with shared themes
+                                        </p>
+                                    </div>
+                                    <Switch id="theme-shared" checked={shared} onCheckedChange={setShared} />
+                                </div>
+                            )}
+
+                            <div className="space-y-2">
+                                <Label>Logo</Label>
+                                {settings.logo ? (
+                                    <div className="flex items-center gap-3">
+                                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                                        <img src={settings.logo.dataUrl} alt="Logo" className="h-10 max-w-40 object-contain" />
+                                        <Button variant="ghost" size="sm" onClick={() => update("logo", null)}>
+                                            <X className="h-4 w-4 mr-1" />
+                                            Remove
+                                        </Button>
+                                    </div>
+                                ) : (
+                                    <Label
+                                        htmlFor="theme-logo"
+                                        className="flex cursor-pointer items-center gap-2 rounded-md border border-dashed p-3 text-sm text-muted-foreground"
+                                    >
+                                        <ImagePlus className="h-4 w-4" />
+                                        Upload a PNG or JPEG
+                                    </Label>
+                                )}
+                                <input
+                                    id="theme-logo"
+                                    type="file"
+                                    accept="image/png,image/jpeg"
+                                    className="hidden"
+                                    onChange={(e) => {
+                                        void handleLogo(e.target.files?.[0]);
+                                        e.target.value = "";
+                                    }}
+                                />
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                {(["headingFont", "bodyFont"] as const).map((key) => (
+                                    <div key={key} className="space-y-2">
+                                        <Label>{key === "headingFont" ? "Heading font" : "Body font"}</Label>
+                                        <Select
+                                            value={settings[key]}
+                                            onValueChange={(value) => update(key, value as ExportThemeFont)}
+                                        >
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {Object.entries(EXPORT_THEME_FONTS).map(([font, config]) => (
+                                                    <SelectItem key={font} value={font}>
+                                                        {config.name}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="grid grid-cols-3 gap-4">
+                                {COLOR_FIELDS.map(({ key, label }) => (
+                                    <div key={key} className="space-y-2">
+                                        <Label htmlFor={`theme-${key}`}>{label}</Label>
+                                        <Input
+                                            id={`theme-${key}`}
+                                            type="color"
+                                            value={settings[key]}
+                                            onChange={(e) => update(key, e.target.value)}
+                                            className="h-9 p-1"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="theme-header">Header</Label>
+                                    <Input
+                                        id="theme-header"
+                                        value={settings.headerText}
+                                        onChange={(e) => update("headerText", e.target.value)}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="theme-footer">Footer</Label>
+                                    <Input
+                                        id="theme-footer"
+                                        value={settings.footerText}
+                                        onChange={(e) => update("footerText", e.target.value)}
+                                        placeholder="Confidential"
+                                    />
+                                </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                Header and footer can use{" "}
+                                {EXPORT_THEME_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(", ")}
+                            </p>
+
+                            <div className="flex items-center justify-between">
+                                <Label htmlFor="theme-page-numbers">Page numbers</Label>
+                                <Switch
+                                    id="theme-page-numbers"
+                                    checked={settings.pageNumbers}
+                                    onCheckedChange={(checked) => update("pageNumbers", checked)}
+                                />
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <Label htmlFor="theme-cover">Cover page</Label>
+                                <Switch
+                                    id="theme-cover"
+                                    checked={settings.coverPage}
+                                    onCheckedChange={(checked) => update("coverPage", checked)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="theme-margin">Page margins (mm)</Label>
+                                <Input
+                                    id="theme-margin"
+                                    type="number"
+                                    min={10}
+                                    max={40}
+                                    value={settings.marginMm}
+                                    onChange={(e) => update("marginMm", Number(e.target.value))}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="space-y-3">
+                            <div className="flex items-center gap-2">
+                                <Select
+                                    value={previewFormat}
+                                    onValueChange={(value) => setPreviewFormat(value as PreviewFormat)}
+                                >
+                                    <SelectTrigger className="w-28">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="HTML">HTML</SelectItem>
+                                        <SelectItem value="PDF">PDF</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                                <Button
+                                    variant="outline"
+                                    onClick={() => renderPreview.mutate({ settings, format: previewFormat })}
+                                    disabled={renderPreview.isPending}
+                                >
+                                    {renderPreview.isPending ? (
+                                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                    ) : (
+                                        <Eye className="h-4 w-4 mr-2" />
+                                    )}
+                                    Preview
+                                </Button>
+                            </div>
+                            {preview ? (
+                                <iframe
+                                    src={preview.url}
+                                    title="Theme preview"
+                                    // The browser's PDF viewer doesn't run in sandboxed frames
+                                    sandbox={preview.format === "HTML" ? "" : undefined}
+                                    className="h-[520px] w-full rounded-md border bg-white"
+                                />
+                            ) : (
+                                <div className="flex h-[520px] items-center justify-center rounded-md border border-dashed text-sm text-muted-foreground">
+                                    Preview a sample document with these settings
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+                            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            {editingId ? "Save Theme" : "Create Theme"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+// src/app/settings/components/storage-settings.tsx
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import { Badge } from "~/components/ui/badge";
+import { Progress } from "~/components/ui/progress";
+import { Skeleton } from "~/components/ui/skeleton";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "~/components/ui/select";
+import { ArrowRight, HardDrive, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+
+const POLL_INTERVAL_MS = 3000;
+
+const BACKEND_LABELS: Record<string, string> = {
+    local: "Local disk",
+    s3: "S3",
+    postgresql: "Database",
+};
+
+type Backend = "local" | "s3" | "postgresql";
+
+export function StorageSettings() {
+    const [to, setTo] = useState<Backend>();
+    const [deleteSource, setDeleteSource] = useState(false);
+
+    const utils = api.useUtils();
+    const { data: overview, isLoading } = api.storage.overview.useQuery();
+    const { data: migrations } = api.storage.migrations.useQuery(undefined, {
+        refetchInterval: (query) =>
+            query.state.data?.some(
+                (migration) => migration.status === "PENDING" || migration.status === "PROCESSING",
+            )
+                ? POLL_INTERVAL_MS
+                : false,
+    });
+
+    const refresh = () => {
+        void utils.storage.overview.invalidate();
+        void utils.storage.migrations.invalidate();
+    };
+
+    const startMigration = api.storage.startMigration.useMutation({
+        onSuccess: () => {
+            toast.success("Storage migration started");
+            setTo(undefined);
+            refresh();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const resumeMigration = api.storage.resumeMigration.useMutation({
+        onSuccess: () => {
+            toast.success("Storage migration resumed");
+            refresh();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const active = migrations?.some(
+        (migration) => migration.status === "PENDING" || migration.status === "PROCESSING",
+    );
+    const targets = overview?.available.filter((backend) => backend !== overview.preferred) ?? [];
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>File Storage</CardTitle>
+                <CardDescription>
+                    Where your uploaded knowledge files and exports are kept
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {isLoading || !overview ? (
+                    <Skeleton className="h-20 w-full" />
+                ) : (
+                    <>
+                        <div className="space-y-2">
+                            {overview.available.map((backend) => (
+                                <div key={backend} className="flex items-center justify-between p-3 border rounded-lg">
+                                    <div className="flex items-center gap-2">
+                                        <HardDrive className="h-4 w-4 text-muted-foreground" />
+                                        <span className="font-medium">{BACKEND_LABELS[backend] ?? backend}</span>
+                                        {backend === overview.preferred && <Badge variant="secondary">Current</Badge>}
+                                    </div>
+                                    <span className="text-sm text-muted-foreground">
+                                        {overview.files[backend] ?? 0} files
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+
+                        {targets.length > 0 && (
+                            <div className="space-y-4">
+                                <div className="space-y-2">
+                                    <Label>Move files to</Label>
+                                    <Select value={to ?? ""} onValueChange={(value) => setTo(value as Backend)}>
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Choose a storage backend" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {targets.map((backend) => (
+                                                <SelectItem key={backend} value={backend}>
+                                                    {BACKEND_LABELS[backend] ?? backend}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="flex items-center justify-between">
+                                    <div className="space-y-0.5">
+                                        <Label>Remove originals</Label>
+                                        <p className="text-sm text-muted-foreground">
+                                            Delete each file from {BACKEND_LABELS[overview.preferred]} once its copy is verified
+                                        </p>
+                                    </div>
+                                    <Switch checked={deleteSource} onCheckedChange={setDeleteSource} />
+                                </div>
+                                <Button
+                                    onClick={() =>
+                                        to && startMigration.mutate({ from: overview.preferred, to, deleteSource })
+                                    }
+                                    disabled={!to || active || startMigration.isPending}
+                                >
+                                    {startMigration.isPending ? (
+                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    ) : (
+                                        <ArrowRight className="mr-2 h-4 w-4" />
+                                    )}
+                                    Start Migration
+                                </Button>
+                            </div>
+                        )}
+                    </>
+                )}
+
+                {migrations && migrations.length > 0 && (
+                    <div className="space-y-2">
+                        <Label>Migrations</Label>
+                        {migrations.map((migration) => {
+                            const done = migration.migratedFiles + migration.failedFiles;
+                            return (
+                                <div key={migration.id} className="p-3 border rounded-lg space-y-2">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-sm font-medium">
+                                            {BACKEND_LABELS[migration.fromProvider] ?? migration.fromProvider}
+                                            {" → "}
+                                            {BACKEND_LABELS[migration.toProvider] ?? migration.toProvider}
+                                        </span>
+                                        <div className="flex items-center gap-2">
+                                            <Badge variant={migration.status === "FAILED" ? "destructive" : "outline"}>
+                                                {migration.status.toLowerCase()}
+                                            </Badge>
+                                            {migration.status === "FAILED" && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => resumeMigration.mutate({ id: migration.id })}
+                                                    disabled={active || resumeMigration.isPending}
+                                                >
+                                                    <RotateCcw className="mr-2 h-4 w-4" />
+                                                    Resume
+                                                </Button>
+                                            )}
+                                        </div>
+                                    </div>
+                                    <Progress value={migration.totalFiles ? (done / migration.totalFiles) * 100 : 100} />
+                                    <p className="text-xs text-muted-foreground">
+                                        {migration.migratedFiles} of {migration.totalFiles} files moved
+                                        {migration.failedFiles > 0 && `, ${migration.failedFiles} failed`}
+                                        {" · "}
+                                        {formatDistanceToNow(new Date(migration.createdAt), { addSuffix: true })}
+                                    </p>
+                                    {migration.error && (
+                                        <p className="text-xs text-destructive">{migration.error}</p>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,366 @@
+"use client";
+
+// src/app/settings/components/webhook-settings.tsx
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Badge } from "~/components/ui/badge";
+import { Alert, AlertDescription } from "~/components/ui/alert";
+import { Skeleton } from "~/components/ui/skeleton";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "~/components/ui/dialog";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "~/components/ui/table";
+import { Copy, KeyRound, Loader2, Plus, RotateCcw, Trash2, Webhook } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+import {
+    WEBHOOK_EVENTS,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+    type WebhookEvent,
+} from "~/config/webhooks";
+
+const DELIVERY_STATUS_VARIANTS = {
+    PENDING: "secondary",
+    SUCCEEDED: "outline",
+    FAILED: "destructive",
+} as const;
+
+export function WebhookSettings() {
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [url, setUrl] = useState("");
+    const [description, setDescription] = useState("");
+    const [events, setEvents] = useState<WebhookEvent[]>(["document.completed"]);
+    // Secrets are only returned once, right after creation or rotation
+    const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+
+    const utils = api.useUtils();
+    const { data: endpoints, isLoading } = api.webhook.list.useQuery();
+    const { data: deliveries } = api.webhook.deliveries.useQuery(
+        { limit: 20 },
+        { refetchInterval: 15000 },
+    );
+
+    const createEndpoint = api.webhook.create.useMutation({
+        onSuccess: (endpoint) => {
+            setRevealedSecret(endpoint.secret);
+            setDialogOpen(false);
+            setUrl("");
+            setDescription("");
+            setEvents(["document.completed"]);
+            void utils.webhook.list.invalidate();
+            toast.success("Webhook endpoint added");
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const updateEndpoint = api.webhook.update.useMutation({
+        onSuccess: () => void utils.webhook.list.invalidate(),
+        onError: (error) => toast.error(error.message),
+    });
+
+    const deleteEndpoint = api.webhook.delete.useMutation({
+        onSuccess: () => {
+            void utils.webhook.invalidate();
+            toast.success("Webhook endpoint removed");
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const rotateSecret = api.webhook.rotateSecret.useMutation({
+        onSuccess: (result) => {
+            setRevealedSecret(result.secret);
+            toast.success("Signing secret rotated");
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const replay = api.webhook.replay.useMutation({
+        onSuccess: () => {
+            void utils.webhook.deliveries.invalidate();
+            toast.success("Delivery queued");
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+        setEvents((prev) =>
+            checked ? [...prev, event] : prev.filter((e) => e !== event)
+        );
+    };
+
+    const copySecret = () => {
+        if (!revealedSecret) return;
+        void navigator.clipboard.writeText(revealedSecret);
+        toast.success("Secret copied to clipboard");
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div className="space-y-1.5">
+                        <CardTitle>Webhooks</CardTitle>
+                        <CardDescription>
+                            Send document, export and knowledge base events to your own systems
+                        </CardDescription>
+                    </div>
+                    <Button size="sm" onClick={() => setDialogOpen(true)}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Endpoint
+                    </Button>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {revealedSecret && (
+                        <Alert>
+                            <KeyRound className="h-4 w-4" />
+                            <AlertDescription className="space-y-2">
+                                <p>
+                                    Copy this signing secret now. It won&apos;t be shown again.
+                                </p>
+                                <div className="flex gap-2">
+                                    <Input value={revealedSecret} readOnly className="font-mono text-xs" />
+                                    <Button variant="outline" size="icon" onClick={copySecret}>
+                                        <Copy className="h-4 w-4" />
+                                    </Button>
+                                    <Button variant="ghost" onClick={() => setRevealedSecret(null)}>
+                                        Done
+                                    </Button>
+                                </div>
+                            </AlertDescription>
+                        </Alert>
+                    )}
+
+                    {isLoading ? (
+                        <Skeleton className="h-24 w-full" />
+                    ) : !endpoints?.length ? (
+                        <div className="text-center py-8 text-muted-foreground">
+                            <Webhook className="h-8 w-8 mx-auto mb-2" />
+                            <p className="text-sm">No webhook endpoints yet</p>
+                        </div>
+                    ) : (
+                        endpoints.map((endpoint) => (
+                            <div
+                                key={endpoint.id}
+                                className="flex items-start justify-between gap-4 rounded-lg border p-4"
+                            >
+                                <div className="min-w-0 space-y-2">
+                                    <p className="font-mono text-sm truncate">{endpoint.url}</p>
+                                    {endpoint.description && (
+                                        <p className="text-sm text-muted-foreground">
+                                            {endpoint.description}
+                                        </p>
+                                    )}
+                                    <div className="flex flex-wrap gap-1">
+                                        {endpoint.events.map((event: string) => (
+                                            <Badge key={event} variant="secondary">
+                                                {event}
+                                            </Badge>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2 shrink-0">
+                                    <Switch
+                                        checked={endpoint.enabled}
+                                        onCheckedChange={(enabled) =>
+                                            updateEndpoint.mutate({ id: endpoint.id, data: { enabled } })
+                                        }
+                                    />
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        title="Rotate signing secret"
+                                        onClick={() => rotateSecret.mutate({ id: endpoint.id })}
+                                        disabled={rotateSecret.isPending}
+                                    >
+                                        <KeyRound className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        title="Remove endpoint"
+                                        onClick={() => deleteEndpoint.mutate({ id: endpoint.id })}
+                                        disabled={deleteEndpoint.isPending}
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))
+                    )}
+
+                    <p className="text-xs text-muted-foreground">
+                        Each request carries <code>{WEBHOOK_SIGNATURE_HEADER}</code>, an
+                        HMAC-SHA256 of <code>{"{timestamp}.{body}"}</code> using the endpoint
+                        secret, and the timestamp in <code>{WEBHOOK_TIMESTAMP_HEADER}</code>.
+                        Failed deliveries are retried with backoff for about 15 minutes.
+                    </p>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Recent Deliveries</CardTitle>
+                    <CardDescription>
+                        Replay a delivery to send the same payload again
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {!deliveries?.items.length ? (
+                        <p className="text-sm text-muted-foreground text-center py-4">
+                            No deliveries yet
+                        </p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Event</TableHead>
+                                    <TableHead>Endpoint</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead>Sent</TableHead>
+                                    <TableHead />
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {deliveries.items.map((delivery) => (
+                                    <TableRow key={delivery.id}>
+                                        <TableCell className="font-medium">{delivery.event}</TableCell>
+                                        <TableCell className="max-w-[200px] truncate font-mono text-xs">
+                                            {delivery.endpoint.url}
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex items-center gap-2">
+                                                <Badge
+                                                    variant={
+                                                        DELIVERY_STATUS_VARIANTS[
+                                                            delivery.status as keyof typeof DELIVERY_STATUS_VARIANTS
+                                                        ]
+                                                    }
+                                                >
+                                                    {delivery.status.toLowerCase()}
+                                                </Badge>
+                                                {delivery.responseStatus && (
+                                                    <span className="text-xs text-muted-foreground">
+                                                        HTTP {delivery.responseStatus}
+                                                    </span>
+                                                )}
+                                            </div>
+                                            {delivery.error && delivery.status !== "SUCCEEDED" && (
+                                                <p className="text-xs text-muted-foreground mt-1">
+                                                    {delivery.error} ({delivery.attempts} attempts)
+                                                </p>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-sm text-muted-foreground">
+                                            {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => replay.mutate({ deliveryId: delivery.id })}
+                                                disabled={replay.isPending}
+                                            >
+                                                <RotateCcw className="h-4 w-4 mr-1" />
+                                                Replay
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Add Webhook Endpoint</DialogTitle>
+                        <DialogDescription>
+                            We&apos;ll POST a signed JSON payload to this URL for each selected event
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="webhook-url">Endpoint URL</Label>
+                            <Input
+                                id="webhook-url"
+                                type="url"
+                                placeholder="https://example.com/webhooks/docuforge"
+                                value={url}
+                                onChange={(e) => setUrl(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="webhook-description">Description (Optional)</Label>
+                            <Input
+                                id="webhook-description"
+                                placeholder="Case management sync"
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-3">
+                            <Label>Events</Label>
+                            {(Object.keys(WEBHOOK_EVENTS) as WebhookEvent[]).map((event) => (
+                                <div key={event} className="flex items-start gap-3">
+                                    <Checkbox
+                                        id={`event-${event}`}
+                                        checked={events.includes(event)}
+                                        onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                                    />
+                                    <div className="grid gap-1 leading-none">
+                                        <Label htmlFor={`event-${event}`}>{WEBHOOK_EVENTS[event].name}</Label>
+                                        <p className="text-xs text-muted-foreground">
+                                            {WEBHOOK_EVENTS[event].description}
+                                        </p>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={() =>
+                                createEndpoint.mutate({
+                                    url: url.trim(),
+                                    description: description.trim() || undefined,
+                                    events,
+                                })
+                            }
+                            disabled={!url.trim() || events.length === 0 || createEndpoint.isPending}
+                        >
+                            {createEndpoint.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Add Endpoint
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -26,12 +26,7 @@ import {
     Globe,
     Shield,
     Zap,
-    AlertTriangle,
     Check,
-    Copy,
-    Eye,
-    EyeOff,
-    RefreshCw,
     Download,
     Trash2,
     ChevronRight,
@@ -48,6 +43,10 @@ import {
     AlertDialogTitle,
 } from "~/components/ui/alert-dialog";
 import { LoadingState } from "~/components/ui/empty-states";
+import { WebhookSettings } from "./components/webhook-settings";
+import { ApiTokenSettings } from "./components/api-token-settings";
+import { StorageSettings } from "./components/storage-settings";
+import { ExportThemeSettings } from "./components/export-theme-settings";
 
 interface UserPreferences {
     emailNotifications: boolean;
@@ -66,11 +65,9 @@ export default function SettingsPage() {
     const router = useRouter();
     const [isLoading, setIsLoading] = useState(false);
     const [activeTab, setActiveTab] = useState("profile");
-    const [showApiKey, setShowApiKey] = useState(false);
     const [deleteAccountOpen, setDeleteAccountOpen] = useState(false);
 
     // Mock data - replace with API calls
-    const [apiKey] = useState("sk_live_abc123xyz789...");
     const [preferences, setPreferences] = useState<UserPreferences>({
         emailNotifications: true,
         marketingEmails: false,
@@ -107,15 +104,6 @@ export default function SettingsPage() {
         }
     };
 
-    const handleRegenerateApiKey = async () => {
-        try {
-            // API call to regenerate key
-            toast.success("API key regenerated successfully");
-        } catch (error) {
-            toast.error("Failed to regenerate API key");
-        }
-    };
-
     const handleExportData = async () => {
         try {
             // API call to export data
@@ -135,11 +123,6 @@ export default function SettingsPage() {
         }
     };
 
-    const copyApiKey = () => {
-        navigator.clipboard.writeText(apiKey);
-        toast.success("API key copied to clipboard");
-    };
-
     // Mock subscription data
     const subscription = {
         plan: "Pro",
@@ -158,12 +141,15 @@ export default function SettingsPage() {
             </div>
 
             <Tabs value={activeTab} onValueChange={setActiveTab}>
-                <TabsList className="grid grid-cols-2 lg:grid-cols-6 w-full">
+                <TabsList className="grid grid-cols-2 lg:grid-cols-9 w-full">
                     <TabsTrigger value="profile">Profile</TabsTrigger>
                     <TabsTrigger value="preferences">Preferences</TabsTrigger>
                     <TabsTrigger value="notifications">Notifications</TabsTrigger>
                     <TabsTrigger value="billing">Billing</TabsTrigger>
                     <TabsTrigger value="api">API</TabsTrigger>
+                    <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
+                    <TabsTrigger value="storage">Storage</TabsTrigger>
+                    <TabsTrigger value="export-themes">Themes</TabsTrigger>
                     <TabsTrigger value="security">Security</TabsTrigger>
                 </TabsList>
 
@@ -464,84 +450,22 @@ export default function SettingsPage() {
 
                 {/* API Tab */}
                 <TabsContent value="api" className="space-y-6 mt-6">
-                    <Card>
-                        <CardHeader>
-                            <CardTitle>API Access</CardTitle>
-                            <CardDescription>
-                                Manage your API keys and developer settings
-                            </CardDescription>
-                        </CardHeader>
-                        <CardContent className="space-y-4">
-                            <Alert>
-                                <AlertTriangle className="h-4 w-4" />
-                                <AlertDescription>
-                                    Keep your API key secret. Anyone with your key can access your account.
-                                </AlertDescription>
-                            </Alert>
-
-                            <div>
-                                <Label htmlFor="apiKey">API Key</Label>
-                                <div className="flex gap-2 mt-2">
-                                    <div className="relative flex-1">
-                                        <Input
-                                            id="apiKey"
-                                            type={showApiKey ? "text" : "password"}
-                                            value={apiKey}
-                                            readOnly
-                                            className="pr-20"
-                                        />
-                                        <div className="absolute right-2 top-1/2 -translate-y-1/2 flex gap-1">
-                                            <Button
-                                                variant="ghost"
-                                                size="icon"
-                                                className="h-7 w-7"
-                                                onClick={() => setShowApiKey(!showApiKey)}
-                                            >
-                                                {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                                            </Button>
-                                            <Button
-                                                variant="ghost"
-                                                size="icon"
-                                                className="h-7 w-7"
-                                                onClick={copyApiKey}
-                                            >
-                                                <Copy className="h-4 w-4" />
-                                            </Button>
-                                        </div>
-                                    </div>
-                                    <Button variant="outline" onClick={handleRegenerateApiKey}>
-                                        <RefreshCw className="h-4 w-4 mr-2" />
-                                        Regenerate
-                                    </Button>
-                                </div>
-                            </div>
+                    <ApiTokenSettings />
+                </TabsContent>
 
-                            <Separator />
+                {/* Webhooks Tab */}
+                <TabsContent value="webhooks" className="space-y-6 mt-6">
+                    <WebhookSettings />
+                </TabsContent>
 
-                            <div>
-                                <h4 className="font-medium mb-4">API Usage</h4>
-                                <div className="space-y-2">
-                                    <div className="flex justify-between text-sm">
-                                        <span>Requests today</span>
-                                        <span className="font-medium">1,234</span>
-                                    </div>
-                                    <div className="flex justify-between text-sm">
-                                        <span>Requests this month</span>
-                                        <span className="font-medium">45,678</span>
-                                    </div>
-                                    <div className="flex justify-between text-sm">
-                                        <span>Rate limit</span>
-                                        <span className="font-medium">1,000 req/hour</span>
-                                    </div>
-                                </div>
-                            </div>
+                {/* Storage Tab */}
+                <TabsContent value="storage" className="space-y-6 mt-6">
+                    <StorageSettings />
+                </TabsContent>
 
-                            <Button variant="outline" className="w-full">
-                                View API Documentation
-                                <ChevronRight className="ml-2 h-4 w-4" />
-                            </Button>
-                        </CardContent>
-                    </Card>
+                {/* Export Themes Tab */}
+                <TabsContent value="export-themes" className="space-y-6 mt-6">
+                    <ExportThemeSettings />
                 </TabsContent>
 
                 {/* Security Tab */}
@@ -111,7 +111,7 @@ export function PerformanceSettings({ preferences, onUpdate }: PerformanceSettin
                                 Allow Provider Fallback
                             </Label>
                             <p className="text-sm text-muted-foreground">
-                                Switch providers if primary fails
+                                Switch to each document type's fallback providers if the primary fails
                             </p>
                         </div>
                         <Switch
@@ -3,28 +3,61 @@
 import { DocumentType } from "@prisma/client";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
 import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
 import { Card } from "~/components/ui/card";
 import { Label } from "~/components/ui/label";
 import { DOCUMENT_CONFIGS } from "~/config/documents";
-import { LLMService, type ProviderName } from "~/server/services/llm";
+import type { SelectableProviderName } from "~/server/services/llm";
+import type { ProviderModelPreference } from "~/types/preferences";
+import { api } from "~/trpc/react";
 
 interface ProviderMatrixProps {
     preferences: any;
     availableProviders: Record<string, boolean> | undefined;
-    onUpdate: (providerModels: Record<string, { provider: ProviderName; model: string }>) => void;
+    onUpdate: (providerModels: Record<string, ProviderModelPreference>) => void;
 }
 
 export function ProviderMatrix({ preferences, availableProviders, onUpdate }: ProviderMatrixProps) {
     const providerModels = preferences?.providerModels || {};
 
-    const handleChange = (documentType: DocumentType, provider: ProviderName, model: string) => {
+    const { data: catalogModels } = api.modelCatalog.list.useQuery();
+
+    // Local models are discovered from the endpoint rather than the catalog
+    const { data: localModels } = api.preferences.localModels.useQuery(undefined, {
+        enabled: !!availableProviders?.local,
+    });
+    const modelsFor = (provider: string) =>
+        provider === 'local'
+            ? localModels ?? []
+            : (catalogModels ?? []).filter(m => m.provider === provider);
+
+    const handleChange = (documentType: DocumentType, provider: SelectableProviderName, model: string) => {
         const updated = {
             ...providerModels,
-            [documentType]: { provider, model },
+            [documentType]: {
+                provider,
+                model,
+                fallbackProviders: providerModels[documentType]?.fallbackProviders?.filter(
+                    (fallback: SelectableProviderName) => fallback !== provider,
+                ),
+            },
         };
         onUpdate(updated);
     };
 
+    // Clicking adds a provider to the end of the chain, or removes it
+    const toggleFallback = (documentType: DocumentType, current: ProviderModelPreference, provider: SelectableProviderName) => {
+        const chain = current.fallbackProviders ?? [];
+        const fallbackProviders = chain.includes(provider)
+            ? chain.filter((fallback) => fallback !== provider)
+            : [...chain, provider];
+
+        onUpdate({
+            ...providerModels,
+            [documentType]: { ...current, fallbackProviders },
+        });
+    };
+
     return (
         <div className="space-y-4">
             <div className="mb-4">
@@ -41,7 +74,11 @@ export function ProviderMatrix({ preferences, availableProviders, onUpdate }: Pr
                             <SelectItem key={provider} value={provider} disabled={!available}>
                                 <div className="flex items-center gap-2">
                                     <span>{provider}</span>
-                                    {!available && <Badge variant="secondary">No API Key</Badge>}
+                                    {!available && (
+                                        <Badge variant="secondary">
+                                            {provider === 'local' ? 'Unreachable' : 'No API Key'}
+                                        </Badge>
+                                    )}
                                 </div>
                             </SelectItem>
                         ))}
@@ -59,7 +96,7 @@ export function ProviderMatrix({ preferences, availableProviders, onUpdate }: Pr
                         model: null,
                     };
 
-                    const models = LLMService.MODELS.filter(m => m.provider === current.provider);
+                    const models = modelsFor(current.provider);
 
                     return (
                         <Card key={type} className="p-4">
@@ -73,8 +110,8 @@ export function ProviderMatrix({ preferences, availableProviders, onUpdate }: Pr
                                     <Select
                                         value={current.provider}
                                         onValueChange={(provider) => {
-                                            const firstModel = LLMService.MODELS.find(m => m.provider === provider);
-                                            handleChange(type as DocumentType, provider as ProviderName, firstModel?.id || '');
+                                            const firstModel = modelsFor(provider)[0];
+                                            handleChange(type as DocumentType, provider as SelectableProviderName, firstModel?.id || '');
                                         }}
                                     >
                                         <SelectTrigger>
@@ -104,6 +141,9 @@ export function ProviderMatrix({ preferences, availableProviders, onUpdate }: Pr
                                                         {model.recommended && (
                                                             <Badge variant="secondary" className="ml-2">Recommended</Badge>
                                                         )}
+                                                        {model.provider === 'local' && (
+                                                            <Badge variant="outline" className="ml-2">Free</Badge>
+                                                        )}
                                                     </div>
                                                 </SelectItem>
                                             ))}
@@ -111,6 +151,39 @@ export function ProviderMatrix({ preferences, availableProviders, onUpdate }: Pr
                                     </Select>
                                 </div>
                             </div>
+
+                            {preferences?.allowFallback !== false && (
+                                <div className="mt-4 space-y-2">
+                                    <Label className="text-xs text-muted-foreground">
+                                        Fallback order, used when {current.provider} fails or is unavailable
+                                    </Label>
+                                    <div className="flex flex-wrap gap-2">
+                                        {Object.entries(availableProviders || {})
+                                            .filter(([provider]) => provider !== current.provider)
+                                            .map(([provider, available]) => {
+                                                const position = (current.fallbackProviders ?? []).indexOf(provider as SelectableProviderName);
+
+                                                return (
+                                                    <Button
+                                                        key={provider}
+                                                        type="button"
+                                                        size="sm"
+                                                        variant={position >= 0 ? "secondary" : "outline"}
+                                                        disabled={!available && position < 0}
+                                                        onClick={() => toggleFallback(type as DocumentType, current, provider as SelectableProviderName)}
+                                                    >
+                                                        {position >= 0 && (
+                                                            <Badge variant="default" className="mr-2 h-5 px-1.5">
+                                                                {position + 1}
+                                                            </Badge>
+                                                        )}
+                                                        {provider}
+                                                    </Button>
+                                                );
+                                            })}
+                                    </div>
+                                </div>
+                            )}
                         </Card>
                     );
                 })}
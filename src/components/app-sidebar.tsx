@@ -3,7 +3,11 @@
 "use client";
 import {
     Code2,
+    Cpu,
+    FileCog,
     FileText,
+    FlaskConical,
+    Gauge,
     Home,
     Settings,
     Users,
@@ -52,6 +56,30 @@ export function AppSidebar() {
             icon: Settings,
             roles: ["USER", "DEVELOPER", "ADMIN"]
         },
+        {
+            title: "Model Catalog",
+            url: "/admin/models",
+            icon: Cpu,
+            roles: ["ADMIN"]
+        },
+        {
+            title: "Document Types",
+            url: "/admin/custom-types",
+            icon: FileCog,
+            roles: ["ADMIN"]
+        },
+        {
+            title: "Prompts",
+            url: "/admin/prompts",
+            icon: FlaskConical,
+            roles: ["ADMIN"]
+        },
+        {
+            title: "Evaluations",
+            url: "/admin/evaluations",
+            icon: Gauge,
+            roles: ["ADMIN"]
+        },
         {
             title: "Admin",
             url: "/admin",
@@ -113,6 +113,7 @@ export function CacheStatus({
     const cacheRate = stats?.cacheRate || 0;
     const costSaved = stats?.costSaved || 0;
     const totalHits = stats?.totalHits || 0;
+    const semanticHits = stats?.semanticHits || 0;
 
     return (
         <Card className={className}>
@@ -217,6 +218,29 @@ export function CacheStatus({
                     </div>
                 </div>
 
+                {/* Outlines started from a near-identical earlier input */}
+                {semanticHits > 0 && (
+                    <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground flex items-center gap-1">
+                            Similar-input hits
+                            <TooltipProvider>
+                                <Tooltip>
+                                    <TooltipTrigger>
+                                        <Info className="h-3 w-3" />
+                                    </TooltipTrigger>
+                                    <TooltipContent>
+                                        Outlines reused from an earlier document whose input differed only
+                                        slightly, with changed names and values filled in
+                                    </TooltipContent>
+                                </Tooltip>
+                            </TooltipProvider>
+                        </span>
+                        <span className="font-medium">
+                            {semanticHits} (${(stats?.semanticCostSaved ?? 0).toFixed(2)} saved)
+                        </span>
+                    </div>
+                )}
+
                 {/* Recent Cache Hits */}
                 {showDetails && stats?.recentHits && stats.recentHits.length > 0 && (
                     <div className="space-y-2">
@@ -263,7 +287,8 @@ export function CacheStatus({
                 <div className="pt-2 border-t">
                     <p className="text-xs text-muted-foreground">
                         Cached content expires based on document type. Medical reports are cached
-                        for 1 hour, while biographies are cached for up to 7 days.
+                        for 1 hour, while biographies are cached for up to 7 days. Statistics cover
+                        the last 30 days.
                     </p>
                 </div>
             </CardContent>
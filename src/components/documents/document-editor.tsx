@@ -2,7 +2,7 @@
 "use client";
 
 import { useState, useCallback, useEffect } from "react";
-import { Save, Download, Undo, Redo, Copy, Eye, EyeOff, Loader2 } from "lucide-react";
+import { Save, Download, Undo, Redo, Copy, Eye, EyeOff, Loader2, RefreshCw } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
@@ -17,8 +17,14 @@ import {
     TooltipProvider,
     TooltipTrigger,
 } from "~/components/ui/tooltip";
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from "~/components/ui/popover";
 import { toast } from "sonner";
 import { DocumentType } from "@prisma/client";
+import { api } from "~/trpc/react";
 
 interface Section {
     id: string;
@@ -55,6 +61,10 @@ export function DocumentEditor({
     const [showPreview, setShowPreview] = useState(false);
     const [history, setHistory] = useState<{ title: string; sections: Section[] }[]>([]);
     const [historyIndex, setHistoryIndex] = useState(-1);
+    const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+    const [instructions, setInstructions] = useState<Record<string, string>>({});
+
+    const regenerateSection = api.document.regenerateSection.useMutation();
 
     // Parse initial content into sections
     useEffect(() => {
@@ -91,8 +101,8 @@ export function DocumentEditor({
 
         if (Array.isArray(content)) {
             return content.map((section, index) => ({
-                id: String(index + 1),
-                title: section.title || `Section ${index + 1}`,
+                id: String(section.id ?? index + 1),
+                title: section.title || section.name || `Section ${index + 1}`,
                 content: section.content || '',
                 order: index
             }));
@@ -100,7 +110,7 @@ export function DocumentEditor({
 
         // Handle object-based content
         return Object.entries(content).map(([key, value], index) => ({
-            id: String(index + 1),
+            id: key,
             title: key.charAt(0).toUpperCase() + key.slice(1).replace(/([A-Z])/g, ' $1'),
             content: String(value),
             order: index
@@ -174,6 +184,24 @@ export function DocumentEditor({
         }
     };
 
+    const handleRegenerate = async (section: Section) => {
+        setRegeneratingId(section.id);
+        try {
+            const result = await regenerateSection.mutateAsync({
+                documentId,
+                sectionId: section.id,
+                instruction: instructions[section.id] || undefined,
+            });
+            updateSection(section.id, { content: result.content });
+            setInstructions(prev => ({ ...prev, [section.id]: '' }));
+            toast.success(`Section regenerated ($${result.cost.toFixed(4)})`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to regenerate section");
+        } finally {
+            setRegeneratingId(null);
+        }
+    };
+
     const copyToClipboard = async () => {
         const content = sections.map(s => `${s.title}\n\n${s.content}`).join('\n\n---\n\n');
         try {
@@ -340,13 +368,51 @@ export function DocumentEditor({
 
                     {sections.map((section) => (
                         <Card key={section.id}>
-                            <CardHeader>
+                            <CardHeader className="flex flex-row items-center gap-2 space-y-0">
                                 <Input
                                     value={section.title}
                                     onChange={(e) => updateSection(section.id, { title: e.target.value })}
                                     className="text-lg font-semibold"
                                     placeholder="Section title"
                                 />
+                                <Popover>
+                                    <PopoverTrigger asChild>
+                                        <Button
+                                            variant="outline"
+                                            size="icon"
+                                            disabled={regeneratingId !== null}
+                                            title="Regenerate this section"
+                                        >
+                                            {regeneratingId === section.id ? (
+                                                <Loader2 className="h-4 w-4 animate-spin" />
+                                            ) : (
+                                                <RefreshCw className="h-4 w-4" />
+                                            )}
+                                        </Button>
+                                    </PopoverTrigger>
+                                    <PopoverContent align="end" className="w-80 space-y-3">
+                                        <Label htmlFor={`instruction-${section.id}`}>
+                                            Regenerate this section
+                                        </Label>
+                                        <Textarea
+                                            id={`instruction-${section.id}`}
+                                            value={instructions[section.id] ?? ''}
+                                            onChange={(e) =>
+                                                setInstructions(prev => ({ ...prev, [section.id]: e.target.value }))
+                                            }
+                                            placeholder="Optional: e.g. make this more concise, add figures"
+                                            className="min-h-[80px]"
+                                        />
+                                        <Button
+                                            size="sm"
+                                            className="w-full"
+                                            onClick={() => handleRegenerate(section)}
+                                            disabled={regeneratingId !== null}
+                                        >
+                                            Regenerate
+                                        </Button>
+                                    </PopoverContent>
+                                </Popover>
                             </CardHeader>
                             <CardContent>
                                 <Textarea
@@ -18,7 +18,8 @@ import {
     Clock,
     FileText,
     Sparkles,
-    Edit3
+    Edit3,
+    Shuffle
 } from 'lucide-react';
 import { useSocket } from '~/hooks/use-socket';
 import { api } from '~/trpc/react';
@@ -37,6 +38,11 @@ const stageInfo = {
         icon: FileText,
         color: 'text-blue-500',
     },
+    outline_review: {
+        label: 'Awaiting Outline Review',
+        icon: Clock,
+        color: 'text-amber-500',
+    },
     sections: {
         label: 'Writing Sections',
         icon: Edit3,
@@ -186,6 +192,13 @@ export function GenerationProgress({
                             <p className="text-sm text-muted-foreground">
                                 {progress.message}
                             </p>
+                            {progress.fallback && (
+                                <p className="flex items-center gap-1 text-xs text-amber-600">
+                                    <Shuffle className="h-3 w-3" />
+                                    Using {progress.fallback.provider} ({progress.fallback.model || 'default model'})
+                                    {' '}while {progress.fallback.from} is unavailable
+                                </p>
+                            )}
                         </div>
 
                         {progress.currentSection && (
@@ -201,10 +214,23 @@ export function GenerationProgress({
                                 </CollapsibleTrigger>
                                 <CollapsibleContent className="pt-2">
                                     <div className="rounded-md bg-muted p-3">
-                                        <p className="text-sm">
-                                            <span className="font-medium">Current Section:</span>{' '}
-                                            {progress.currentSection}
-                                        </p>
+                                        {progress.activeSections && progress.activeSections.length > 1 ? (
+                                            <div className="space-y-2">
+                                                <p className="text-sm font-medium">Writing in parallel:</p>
+                                                <div className="flex flex-wrap gap-1">
+                                                    {progress.activeSections.map((section) => (
+                                                        <Badge key={section} variant="secondary">
+                                                            {section}
+                                                        </Badge>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        ) : (
+                                            <p className="text-sm">
+                                                <span className="font-medium">Current Section:</span>{' '}
+                                                {progress.currentSection}
+                                            </p>
+                                        )}
                                     </div>
                                 </CollapsibleContent>
                             </Collapsible>
@@ -7,6 +7,7 @@ import { Button } from "~/components/ui/button";
 import { Badge } from "~/components/ui/badge";
 import { Switch } from "~/components/ui/switch";
 import { Label } from "~/components/ui/label";
+import { Checkbox } from "~/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "~/components/ui/radio-group";
 import { Alert, AlertDescription } from "~/components/ui/alert";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "~/components/ui/collapsible";
@@ -24,7 +25,9 @@ import {
     AlertCircle,
     Loader2,
     Eye,
-    EyeOff
+    EyeOff,
+    FolderOpen,
+    Users
 } from "lucide-react";
 import { api } from "~/trpc/react";
 import { KnowledgeManagement } from "~/components/knowledge/knowledge-management";
@@ -46,6 +49,8 @@ interface RAGIntegrationProps {
 interface RAGConfig {
     ragEnabled: boolean;
     knowledgeSourceIds: string[];
+    // Whole collections, including ones shared by other users
+    knowledgeCollectionIds: string[];
     autoSelect: boolean;
     maxSources?: number;
     contextPreview?: boolean;
@@ -75,6 +80,7 @@ export function DocumentFormWithRAG({
     const [ragConfig, setRAGConfig] = useState<RAGConfig>({
         ragEnabled: false,
         knowledgeSourceIds: [],
+        knowledgeCollectionIds: [],
         autoSelect: true,
         maxSources: 3,
         contextPreview: true
@@ -89,12 +95,14 @@ export function DocumentFormWithRAG({
     const { data: sources } = api.knowledge.list.useQuery({
         limit: 50,
     });
+    const { data: collections } = api.knowledgeCollection.list.useQuery();
 
     // Search parameters state
     const [shouldSearch, setShouldSearch] = useState(false);
     const [searchParams, setSearchParams] = useState({
         query: '',
         sourceIds: undefined as string[] | undefined,
+        collectionIds: undefined as string[] | undefined,
         limit: 3
     });
 
@@ -157,7 +165,7 @@ export function DocumentFormWithRAG({
         }, 1000);
 
         return () => clearTimeout(timer);
-    }, [formData, ragConfig.ragEnabled, ragConfig.knowledgeSourceIds]);
+    }, [formData, ragConfig.ragEnabled, ragConfig.knowledgeSourceIds, ragConfig.knowledgeCollectionIds]);
 
     const handleRAGToggle = (enabled: boolean) => {
         setRAGConfig(prev => ({ ...prev, ragEnabled: enabled }));
@@ -170,6 +178,15 @@ export function DocumentFormWithRAG({
         setRAGConfig(prev => ({ ...prev, knowledgeSourceIds: sourceIds }));
     };
 
+    const handleCollectionToggle = (collectionId: string, checked: boolean) => {
+        setRAGConfig(prev => ({
+            ...prev,
+            knowledgeCollectionIds: checked
+                ? [...prev.knowledgeCollectionIds, collectionId]
+                : prev.knowledgeCollectionIds.filter(id => id !== collectionId),
+        }));
+    };
+
     const handlePreview = () => {
         if (!formData || Object.keys(formData).length === 0) return;
 
@@ -219,6 +236,7 @@ export function DocumentFormWithRAG({
             setSearchParams({
                 query,
                 sourceIds: ragConfig.autoSelect ? undefined : ragConfig.knowledgeSourceIds,
+                collectionIds: ragConfig.autoSelect ? undefined : ragConfig.knowledgeCollectionIds,
                 limit: 3,
             });
             // Trigger the search
@@ -227,6 +245,7 @@ export function DocumentFormWithRAG({
     };
 
     const availableSourceCount = sources?.sources.filter(s => s.status === 'COMPLETED').length || 0;
+    const availableCollections = collections?.filter(c => c._count.sources > 0) ?? [];
 
     return (
         <div className={cn("space-y-6", className)}>
@@ -271,7 +290,7 @@ export function DocumentFormWithRAG({
                 {ragConfig.ragEnabled && (
                     <CardContent className="space-y-4">
                         {/* No sources warning */}
-                        {availableSourceCount === 0 ? (
+                        {availableSourceCount === 0 && availableCollections.length === 0 ? (
                             <Alert>
                                 <AlertCircle className="h-4 w-4" />
                                 <AlertDescription>
@@ -307,6 +326,41 @@ export function DocumentFormWithRAG({
                                     </RadioGroup>
                                 </div>
 
+                                {/* Collection Selection */}
+                                {!ragConfig.autoSelect && availableCollections.length > 0 && (
+                                    <div className="space-y-2">
+                                        <Label className="flex items-center gap-2">
+                                            <FolderOpen className="h-4 w-4" />
+                                            Collections
+                                        </Label>
+                                        <div className="border rounded-lg divide-y">
+                                            {availableCollections.map((collection) => (
+                                                <label
+                                                    key={collection.id}
+                                                    className="flex items-center gap-3 p-3 cursor-pointer"
+                                                >
+                                                    <Checkbox
+                                                        checked={ragConfig.knowledgeCollectionIds.includes(collection.id)}
+                                                        onCheckedChange={(checked) =>
+                                                            handleCollectionToggle(collection.id, checked === true)
+                                                        }
+                                                    />
+                                                    <span className="flex-1 text-sm font-medium">{collection.name}</span>
+                                                    {collection.role !== "owner" && (
+                                                        <Badge variant="outline" className="text-xs gap-1">
+                                                            <Users className="h-3 w-3" />
+                                                            {collection.owner.name ?? collection.owner.email}
+                                                        </Badge>
+                                                    )}
+                                                    <span className="text-xs text-muted-foreground">
+                                                        {collection._count.sources} sources
+                                                    </span>
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
                                 {/* Manual Source Selection */}
                                 {!ragConfig.autoSelect && (
                                     <Collapsible open={showKnowledgeSelector} onOpenChange={setShowKnowledgeSelector}>
@@ -0,0 +1,385 @@
+// src/components/knowledge/knowledge-collections.tsx
+"use client";
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import { CollectionAccess } from "@prisma/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Badge } from "~/components/ui/badge";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "~/components/ui/select";
+import {
+    FolderOpen,
+    FolderPlus,
+    Loader2,
+    LogOut,
+    Plus,
+    Share2,
+    Trash2,
+    Users,
+    X
+} from "lucide-react";
+import { api } from "~/trpc/react";
+import { toast } from "sonner";
+
+const ROLE_LABELS = {
+    owner: "Owner",
+    edit: "Can edit",
+    read: "Read only",
+} as const;
+
+export function KnowledgeCollections() {
+    const utils = api.useUtils();
+    const { data: session } = useSession();
+    const userId = session?.user.id;
+
+    const [selectedId, setSelectedId] = useState<string>();
+    const [name, setName] = useState("");
+    const [description, setDescription] = useState("");
+    const [sourceToAdd, setSourceToAdd] = useState<string>();
+    const [shareEmail, setShareEmail] = useState("");
+    const [shareAccess, setShareAccess] = useState<CollectionAccess>(CollectionAccess.READ);
+
+    const { data: collections, isLoading } = api.knowledgeCollection.list.useQuery();
+    const { data: collection } = api.knowledgeCollection.get.useQuery(
+        { id: selectedId! },
+        { enabled: !!selectedId }
+    );
+    const { data: sources } = api.knowledge.list.useQuery({ limit: 50 });
+
+    const refresh = () => {
+        void utils.knowledgeCollection.list.invalidate();
+        void utils.knowledgeCollection.get.invalidate();
+    };
+
+    const onError = (error: { message: string }) => {
+        toast.error(error.message);
+    };
+
+    const createMutation = api.knowledgeCollection.create.useMutation({
+        onSuccess: (created) => {
+            toast.success("Collection created");
+            setName("");
+            setDescription("");
+            setSelectedId(created.id);
+            refresh();
+        },
+        onError,
+    });
+
+    const deleteMutation = api.knowledgeCollection.delete.useMutation({
+        onSuccess: () => {
+            toast.success("Collection deleted");
+            setSelectedId(undefined);
+            refresh();
+        },
+        onError,
+    });
+
+    const addSourcesMutation = api.knowledgeCollection.addSources.useMutation({
+        onSuccess: () => {
+            setSourceToAdd(undefined);
+            refresh();
+        },
+        onError,
+    });
+
+    const removeSourceMutation = api.knowledgeCollection.removeSource.useMutation({
+        onSuccess: refresh,
+        onError,
+    });
+
+    const shareMutation = api.knowledgeCollection.share.useMutation({
+        onSuccess: (member) => {
+            toast.success(`Shared with ${member.user.name ?? member.user.email}`);
+            setShareEmail("");
+            refresh();
+        },
+        onError,
+    });
+
+    const unshareMutation = api.knowledgeCollection.unshare.useMutation({
+        onSuccess: (_, variables) => {
+            if (variables.userId === userId) {
+                toast.success("You left the collection");
+                setSelectedId(undefined);
+            }
+            refresh();
+        },
+        onError,
+    });
+
+    const canEdit = collection?.role === "owner" || collection?.role === "edit";
+    const isOwner = collection?.role === "owner";
+
+    // Own completed sources that aren't in the collection yet
+    const addableSources = sources?.sources.filter(
+        (source) =>
+            source.status === "COMPLETED" &&
+            !collection?.sources.some((s) => s.id === source.id)
+    ) ?? [];
+
+    return (
+        <div className="grid gap-4 md:grid-cols-3">
+            <Card className="md:col-span-1">
+                <CardHeader>
+                    <CardTitle>Collections</CardTitle>
+                    <CardDescription>
+                        Group sources to select them together and share them with your team
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                        <Input
+                            placeholder="New collection name"
+                            value={name}
+                            maxLength={100}
+                            onChange={(e) => setName(e.target.value)}
+                        />
+                        <Input
+                            placeholder="Description (optional)"
+                            value={description}
+                            maxLength={500}
+                            onChange={(e) => setDescription(e.target.value)}
+                        />
+                        <Button
+                            className="w-full"
+                            onClick={() => createMutation.mutate({ name, description: description || undefined })}
+                            disabled={!name.trim() || createMutation.isPending}
+                        >
+                            {createMutation.isPending ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                                <FolderPlus className="mr-2 h-4 w-4" />
+                            )}
+                            Create Collection
+                        </Button>
+                    </div>
+
+                    {isLoading ? (
+                        <div className="flex justify-center py-4">
+                            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : collections?.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-4">
+                            No collections yet
+                        </p>
+                    ) : (
+                        <div className="space-y-2">
+                            {collections?.map((item) => (
+                                <button
+                                    key={item.id}
+                                    type="button"
+                                    onClick={() => setSelectedId(item.id)}
+                                    className={`w-full text-left p-3 rounded-lg border ${item.id === selectedId
+                                            ? "border-primary bg-primary/5"
+                                            : "border-border"
+                                        }`}
+                                >
+                                    <div className="flex items-center gap-2">
+                                        <FolderOpen className="h-4 w-4 text-muted-foreground" />
+                                        <span className="font-medium truncate flex-1">{item.name}</span>
+                                        <Badge variant="outline" className="text-xs">
+                                            {ROLE_LABELS[item.role]}
+                                        </Badge>
+                                    </div>
+                                    <div className="flex gap-3 mt-1 text-xs text-muted-foreground">
+                                        <span>{item._count.sources} sources</span>
+                                        {item.role === "owner" ? (
+                                            item._count.members > 0 && (
+                                                <span>Shared with {item._count.members}</span>
+                                            )
+                                        ) : (
+                                            <span>From {item.owner.name ?? item.owner.email}</span>
+                                        )}
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card className="md:col-span-2">
+                {!collection ? (
+                    <CardContent className="py-12 text-center">
+                        <FolderOpen className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                        <p className="text-muted-foreground">Select a collection to manage it</p>
+                    </CardContent>
+                ) : (
+                    <>
+                        <CardHeader>
+                            <div className="flex items-start justify-between">
+                                <div className="space-y-1">
+                                    <CardTitle>{collection.name}</CardTitle>
+                                    {collection.description && (
+                                        <CardDescription>{collection.description}</CardDescription>
+                                    )}
+                                </div>
+                                {isOwner ? (
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => deleteMutation.mutate({ id: collection.id })}
+                                        disabled={deleteMutation.isPending}
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                ) : (
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() =>
+                                            userId && unshareMutation.mutate({ id: collection.id, userId })
+                                        }
+                                        disabled={!userId || unshareMutation.isPending}
+                                    >
+                                        <LogOut className="mr-2 h-4 w-4" />
+                                        Leave
+                                    </Button>
+                                )}
+                            </div>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                            {/* Sources */}
+                            <div className="space-y-3">
+                                <Label>Sources</Label>
+                                {canEdit && (
+                                    <div className="flex gap-2">
+                                        <Select value={sourceToAdd ?? ""} onValueChange={setSourceToAdd}>
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Add one of your sources" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {addableSources.map((source) => (
+                                                    <SelectItem key={source.id} value={source.id}>
+                                                        {source.name}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <Button
+                                            onClick={() =>
+                                                sourceToAdd &&
+                                                addSourcesMutation.mutate({ id: collection.id, sourceIds: [sourceToAdd] })
+                                            }
+                                            disabled={!sourceToAdd || addSourcesMutation.isPending}
+                                        >
+                                            <Plus className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                )}
+                                {collection.sources.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">No sources in this collection yet</p>
+                                ) : (
+                                    <div className="border rounded-lg divide-y">
+                                        {collection.sources.map((source) => (
+                                            <div key={source.id} className="flex items-center justify-between p-3">
+                                                <div className="flex items-center gap-2">
+                                                    <span className="text-sm font-medium">{source.name}</span>
+                                                    <span className="text-xs text-muted-foreground">{source.type}</span>
+                                                </div>
+                                                {canEdit && (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() =>
+                                                            removeSourceMutation.mutate({ id: collection.id, sourceId: source.id })
+                                                        }
+                                                        disabled={removeSourceMutation.isPending}
+                                                    >
+                                                        <X className="h-4 w-4" />
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Sharing */}
+                            <div className="space-y-3">
+                                <Label className="flex items-center gap-2">
+                                    <Users className="h-4 w-4" />
+                                    Shared with
+                                </Label>
+                                {isOwner && (
+                                    <div className="flex gap-2">
+                                        <Input
+                                            type="email"
+                                            placeholder="teammate@example.com"
+                                            value={shareEmail}
+                                            onChange={(e) => setShareEmail(e.target.value)}
+                                        />
+                                        <Select
+                                            value={shareAccess}
+                                            onValueChange={(value) => setShareAccess(value as CollectionAccess)}
+                                        >
+                                            <SelectTrigger className="w-40">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value={CollectionAccess.READ}>Read only</SelectItem>
+                                                <SelectItem value={CollectionAccess.EDIT}>Can edit</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                        <Button
+                                            onClick={() =>
+                                                shareMutation.mutate({
+                                                    id: collection.id,
+                                                    email: shareEmail,
+                                                    access: shareAccess,
+                                                })
+                                            }
+                                            disabled={!shareEmail.trim() || shareMutation.isPending}
+                                        >
+                                            <Share2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                )}
+                                <div className="border rounded-lg divide-y">
+                                    <div className="flex items-center justify-between p-3">
+                                        <span className="text-sm">
+                                            {collection.owner.name ?? collection.owner.email}
+                                        </span>
+                                        <Badge variant="secondary" className="text-xs">Owner</Badge>
+                                    </div>
+                                    {collection.members.map((member) => (
+                                        <div key={member.id} className="flex items-center justify-between p-3">
+                                            <span className="text-sm">{member.user.name ?? member.user.email}</span>
+                                            <div className="flex items-center gap-2">
+                                                <Badge variant="outline" className="text-xs">
+                                                    {member.access === CollectionAccess.EDIT ? "Can edit" : "Read only"}
+                                                </Badge>
+                                                {isOwner && (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() =>
+                                                            unshareMutation.mutate({ id: collection.id, userId: member.userId })
+                                                        }
+                                                        disabled={unshareMutation.isPending}
+                                                    >
+                                                        <X className="h-4 w-4" />
+                                                    </Button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </CardContent>
+                    </>
+                )}
+            </Card>
+        </div>
+    );
+}
@@ -1,7 +1,7 @@
 // src/components/knowledge/knowledge-management.tsx
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
 import { Button } from "~/components/ui/button";
@@ -24,6 +24,7 @@ import {
     Clock,
     Database,
     FileUp,
+    FolderOpen,
     Globe,
     Loader2,
     X
@@ -32,6 +33,7 @@ import { api } from "~/trpc/react";
 import { toast } from "sonner";
 import { useDropzone } from "react-dropzone";
 import { formatDistanceToNow } from "date-fns";
+import { KnowledgeCollections } from "./knowledge-collections";
 
 interface KnowledgeManagementProps {
     onSourceSelect?: (sourceIds: string[]) => void;
@@ -58,6 +60,15 @@ export function KnowledgeManagement({
     const [sourceName, setSourceName] = useState("");
     const [sourceDescription, setSourceDescription] = useState("");
 
+    // Website crawl state
+    const [crawlDepth, setCrawlDepth] = useState("2");
+    const [crawlMaxPages, setCrawlMaxPages] = useState("25");
+    const [recrawlHours, setRecrawlHours] = useState("");
+
+    // Source whose file is being replaced
+    const replaceInputRef = useRef<HTMLInputElement>(null);
+    const [replacingId, setReplacingId] = useState<string>();
+
     // API hooks
     const { data: sources, isLoading: sourcesLoading, refetch } = api.knowledge.list.useQuery({
         limit: 50,
@@ -88,6 +99,61 @@ export function KnowledgeManagement({
 
     const searchMutation = api.knowledge.search.useMutation();
 
+    const { data: crawls, refetch: refetchCrawls } = api.knowledge.listCrawls.useQuery();
+    const { data: duplicates } = api.knowledge.duplicates.useQuery();
+
+    // Every source after the oldest in a group of identical sources
+    const duplicateOf = new Map<string, string>(
+        duplicates?.flatMap((group) =>
+            group.sources.slice(1).map((source) => [source.id, group.sources[0]!.name] as const)
+        )
+    );
+
+    const replaceMutation = api.knowledge.replace.useMutation({
+        onSuccess: () => {
+            toast.success("Source replaced. Only changed passages will be re-embedded.");
+            void refetch();
+        },
+        onError: (error) => {
+            toast.error(error.message || "Failed to replace source");
+        },
+        onSettled: () => setReplacingId(undefined),
+    });
+
+    const crawlMutation = api.knowledge.crawl.useMutation({
+        onSuccess: () => {
+            toast.success("Crawl started. Pages appear as they are processed.");
+            resetForm();
+            void refetchCrawls();
+            setSelectedTab("browse");
+        },
+        onError: (error) => {
+            toast.error(error.message || "Failed to start crawl");
+            setIsUploading(false);
+        },
+    });
+
+    const recrawlMutation = api.knowledge.recrawl.useMutation({
+        onSuccess: () => {
+            toast.success("Re-crawl queued");
+            void refetchCrawls();
+        },
+        onError: (error) => {
+            toast.error(error.message || "Failed to queue re-crawl");
+        },
+    });
+
+    const deleteCrawlMutation = api.knowledge.deleteCrawl.useMutation({
+        onSuccess: () => {
+            toast.success("Crawl and its pages deleted");
+            void refetchCrawls();
+            void refetch();
+        },
+        onError: (error) => {
+            toast.error(error.message || "Failed to delete crawl");
+        },
+    });
+
     // Dropzone configuration
     const { getRootProps, getInputProps, isDragActive, acceptedFiles } = useDropzone({
         accept: {
@@ -158,17 +224,34 @@ export function KnowledgeManagement({
     };
 
     const handleUrlUpload = async () => {
-        if (!urlInput.trim() || !sourceName.trim()) {
-            toast.error("Please provide both URL and a name");
+        if (!urlInput.trim()) {
+            toast.error("Please provide a URL");
             return;
         }
 
         setIsUploading(true);
-        await uploadMutation.mutateAsync({
-            type: "url",
-            url: urlInput,
-            name: sourceName,
-            description: sourceDescription,
+        await crawlMutation.mutateAsync({
+            url: urlInput.trim(),
+            maxDepth: Number(crawlDepth),
+            maxPages: Number(crawlMaxPages),
+            recrawlIntervalHours: recrawlHours ? Number(recrawlHours) : undefined,
+        });
+    };
+
+    const handleReplaceFile = async (file: File | undefined) => {
+        if (!file || !replacingId) return;
+
+        const buffer = await file.arrayBuffer();
+        let binary = "";
+        new Uint8Array(buffer).forEach((byte) => {
+            binary += String.fromCharCode(byte);
+        });
+
+        replaceMutation.mutate({
+            id: replacingId,
+            fileBase64: btoa(binary),
+            fileName: file.name,
+            mimeType: file.type || "text/plain",
         });
     };
 
@@ -212,7 +295,7 @@ export function KnowledgeManagement({
             )}
 
             <Tabs value={selectedTab} onValueChange={setSelectedTab} className="w-full">
-                <TabsList className="grid w-full grid-cols-3">
+                <TabsList className={`grid w-full ${embedded ? "grid-cols-3" : "grid-cols-4"}`}>
                     <TabsTrigger value="upload" className="flex items-center gap-2">
                         <Upload className="h-4 w-4" />
                         Upload
@@ -225,6 +308,12 @@ export function KnowledgeManagement({
                         <Search className="h-4 w-4" />
                         Search
                     </TabsTrigger>
+                    {!embedded && (
+                        <TabsTrigger value="collections" className="flex items-center gap-2">
+                            <FolderOpen className="h-4 w-4" />
+                            Collections
+                        </TabsTrigger>
+                    )}
                 </TabsList>
 
                 {/* Upload Tab */}
@@ -265,28 +354,30 @@ export function KnowledgeManagement({
                                 </Button>
                             </div>
 
-                            {/* Common fields */}
-                            <div className="space-y-4">
-                                <div>
-                                    <Label htmlFor="source-name">Source Name</Label>
-                                    <Input
-                                        id="source-name"
-                                        placeholder="e.g., Company Handbook, Research Paper"
-                                        value={sourceName}
-                                        onChange={(e) => setSourceName(e.target.value)}
-                                    />
-                                </div>
-                                <div>
-                                    <Label htmlFor="source-description">Description (Optional)</Label>
-                                    <Textarea
-                                        id="source-description"
-                                        placeholder="Brief description of this knowledge source"
-                                        value={sourceDescription}
-                                        onChange={(e) => setSourceDescription(e.target.value)}
-                                        rows={2}
-                                    />
+                            {/* Common fields; crawled pages are named after their titles */}
+                            {uploadType !== "url" && (
+                                <div className="space-y-4">
+                                    <div>
+                                        <Label htmlFor="source-name">Source Name</Label>
+                                        <Input
+                                            id="source-name"
+                                            placeholder="e.g., Company Handbook, Research Paper"
+                                            value={sourceName}
+                                            onChange={(e) => setSourceName(e.target.value)}
+                                        />
+                                    </div>
+                                    <div>
+                                        <Label htmlFor="source-description">Description (Optional)</Label>
+                                        <Textarea
+                                            id="source-description"
+                                            placeholder="Brief description of this knowledge source"
+                                            value={sourceDescription}
+                                            onChange={(e) => setSourceDescription(e.target.value)}
+                                            rows={2}
+                                        />
+                                    </div>
                                 </div>
-                            </div>
+                            )}
 
                             {/* File Upload */}
                             {uploadType === "file" && (
@@ -351,8 +442,44 @@ export function KnowledgeManagement({
                                         onChange={(e) => setUrlInput(e.target.value)}
                                     />
                                     <p className="text-xs text-muted-foreground mt-1">
-                                        We'll extract and process the content from this URL
+                                        We'll follow links on the same site and add each page as its own source,
+                                        skipping anything robots.txt disallows
                                     </p>
+                                    <div className="grid grid-cols-3 gap-4 mt-4">
+                                        <div>
+                                            <Label htmlFor="crawl-depth">Link depth</Label>
+                                            <Input
+                                                id="crawl-depth"
+                                                type="number"
+                                                min={0}
+                                                max={5}
+                                                value={crawlDepth}
+                                                onChange={(e) => setCrawlDepth(e.target.value)}
+                                            />
+                                        </div>
+                                        <div>
+                                            <Label htmlFor="crawl-max-pages">Max pages</Label>
+                                            <Input
+                                                id="crawl-max-pages"
+                                                type="number"
+                                                min={1}
+                                                max={200}
+                                                value={crawlMaxPages}
+                                                onChange={(e) => setCrawlMaxPages(e.target.value)}
+                                            />
+                                        </div>
+                                        <div>
+                                            <Label htmlFor="recrawl-hours">Re-crawl every (hours)</Label>
+                                            <Input
+                                                id="recrawl-hours"
+                                                type="number"
+                                                min={1}
+                                                placeholder="Never"
+                                                value={recrawlHours}
+                                                onChange={(e) => setRecrawlHours(e.target.value)}
+                                            />
+                                        </div>
+                                    </div>
                                 </div>
                             )}
 
@@ -378,7 +505,7 @@ export function KnowledgeManagement({
                                 ) : (
                                     <>
                                         <Upload className="h-4 w-4 mr-2" />
-                                        Upload Knowledge Source
+                                        {uploadType === "url" ? "Start Crawl" : "Upload Knowledge Source"}
                                     </>
                                 )}
                             </Button>
@@ -388,6 +515,71 @@ export function KnowledgeManagement({
 
                 {/* Browse Tab */}
                 <TabsContent value="browse" className="space-y-4">
+                    {crawls && crawls.length > 0 && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Website Crawls</CardTitle>
+                                <CardDescription>
+                                    Re-crawls only re-embed pages whose content changed
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-3">
+                                {crawls.map((crawl) => (
+                                    <div
+                                        key={crawl.id}
+                                        className="flex items-center justify-between p-4 rounded-lg border"
+                                    >
+                                        <div className="space-y-1">
+                                            <div className="flex items-center gap-2">
+                                                <Globe className="h-4 w-4 text-muted-foreground" />
+                                                <h4 className="font-medium">{crawl.startUrl}</h4>
+                                                {getStatusIcon(crawl.status)}
+                                            </div>
+                                            {crawl.error && (
+                                                <p className="text-sm text-red-500">{crawl.error}</p>
+                                            )}
+                                            <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                                                <span>{crawl._count.sources} pages</span>
+                                                {crawl.lastCrawledAt && (
+                                                    <span>
+                                                        Crawled {formatDistanceToNow(new Date(crawl.lastCrawledAt), {
+                                                            addSuffix: true,
+                                                        })}, {crawl.pagesChanged} changed
+                                                    </span>
+                                                )}
+                                                {crawl.nextCrawlAt && (
+                                                    <span>
+                                                        Next {formatDistanceToNow(new Date(crawl.nextCrawlAt), {
+                                                            addSuffix: true,
+                                                        })}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </div>
+                                        <div className="flex gap-1">
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => recrawlMutation.mutate({ id: crawl.id })}
+                                                disabled={recrawlMutation.isPending || crawl.status === "PROCESSING"}
+                                            >
+                                                <RefreshCw className="h-4 w-4" />
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => deleteCrawlMutation.mutate({ id: crawl.id })}
+                                                disabled={deleteCrawlMutation.isPending}
+                                            >
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </CardContent>
+                        </Card>
+                    )}
+
                     <Card>
                         <CardHeader>
                             <CardTitle>Knowledge Sources</CardTitle>
@@ -461,6 +653,11 @@ export function KnowledgeManagement({
                                                                     addSuffix: true,
                                                                 })}
                                                             </span>
+                                                            {duplicateOf.has(source.id) && (
+                                                                <Badge variant="outline" className="text-xs">
+                                                                    Duplicate of {duplicateOf.get(source.id)}
+                                                                </Badge>
+                                                            )}
                                                             {source.embeddings?.length > 0 && (
                                                                 <Badge variant="secondary" className="text-xs">
                                                                     {source.embeddings.length} chunks
@@ -469,19 +666,49 @@ export function KnowledgeManagement({
                                                         </div>
                                                     </div>
                                                 </div>
-                                                <Button
-                                                    variant="ghost"
-                                                    size="sm"
-                                                    onClick={() => deleteMutation.mutate({ id: source.id })}
-                                                    disabled={deleteMutation.isPending}
-                                                >
-                                                    <Trash2 className="h-4 w-4" />
-                                                </Button>
+                                                <div className="flex gap-1">
+                                                    {source.storageKey && (
+                                                        <Button
+                                                            variant="ghost"
+                                                            size="sm"
+                                                            title="Replace file"
+                                                            onClick={() => {
+                                                                setReplacingId(source.id);
+                                                                replaceInputRef.current?.click();
+                                                            }}
+                                                            disabled={replaceMutation.isPending}
+                                                        >
+                                                            {replaceMutation.isPending && replacingId === source.id ? (
+                                                                <Loader2 className="h-4 w-4 animate-spin" />
+                                                            ) : (
+                                                                <FileUp className="h-4 w-4" />
+                                                            )}
+                                                        </Button>
+                                                    )}
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() => deleteMutation.mutate({ id: source.id })}
+                                                        disabled={deleteMutation.isPending}
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                </div>
                                             </div>
                                         ))}
                                     </div>
                                 </ScrollArea>
                             )}
+                            <input
+                                ref={replaceInputRef}
+                                type="file"
+                                accept=".pdf,.txt,.md,.docx"
+                                className="hidden"
+                                onChange={(e) => {
+                                    void handleReplaceFile(e.target.files?.[0]);
+                                    e.target.value = "";
+                                }}
+                            />
                         </CardContent>
                     </Card>
                 </TabsContent>
@@ -545,6 +772,16 @@ export function KnowledgeManagement({
                                                             {result.metadata.page && (
                                                                 <span>Page: {result.metadata.page}</span>
                                                             )}
+                                                            {result.metadata.url && (
+                                                                <a
+                                                                    href={result.metadata.url}
+                                                                    target="_blank"
+                                                                    rel="noopener noreferrer"
+                                                                    className="truncate hover:underline"
+                                                                >
+                                                                    {result.metadata.url}
+                                                                </a>
+                                                            )}
                                                         </div>
                                                     )}
                                                 </div>
@@ -556,6 +793,13 @@ export function KnowledgeManagement({
                         </CardContent>
                     </Card>
                 </TabsContent>
+
+                {/* Collections Tab */}
+                {!embedded && (
+                    <TabsContent value="collections" className="space-y-4">
+                        <KnowledgeCollections />
+                    </TabsContent>
+                )}
             </Tabs>
         </div>
     );
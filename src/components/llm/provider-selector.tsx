@@ -28,12 +28,16 @@ import {
   Code,
   Globe,
   Sparkles,
+  Server,
+  AlertCircle,
 } from "lucide-react";
-import {
-  LLMService,
-  type ProviderName,
-  type ModelInfo,
+import type { DocumentType } from "@prisma/client";
+import type {
+  ProviderName,
+  ModelInfo,
+  SelectableProviderName,
 } from "~/server/services/llm";
+import { api } from "~/trpc/react";
 import { cn } from "~/lib/utils";
 
 interface ProviderSelectorProps {
@@ -45,7 +49,7 @@ interface ProviderSelectorProps {
 }
 
 const providerInfo: Record<
-  ProviderName,
+  SelectableProviderName,
   {
     name: string;
     description: string;
@@ -89,6 +93,13 @@ const providerInfo: Record<
     color: "text-indigo-600",
     strengths: ["Open source", "Cost effective", "Privacy"],
   },
+  local: {
+    name: "Local",
+    description: "Self-hosted models via Ollama, vLLM or llama.cpp",
+    icon: <Server className="h-5 w-5" />,
+    color: "text-slate-600",
+    strengths: ["Offline", "No usage costs", "Data stays on-premises"],
+  },
 };
 
 const capabilityIcons: Record<string, React.ReactNode> = {
@@ -115,10 +126,33 @@ export function ProviderSelector({
     value?.model || "gpt-4-turbo",
   );
   const [models, setModels] = useState<ModelInfo[]>([]);
-  const [estimatedCost, setEstimatedCost] = useState<number>(0);
+
+  const { data: catalogModels } = api.modelCatalog.list.useQuery(undefined, {
+    enabled: selectedProvider !== "local",
+  });
+
+  // Local models are discovered from the endpoint rather than the catalog
+  const { data: localModels, error: localModelsError } =
+    api.preferences.localModels.useQuery(undefined, {
+      enabled: selectedProvider === "local",
+      retry: false,
+    });
+
+  const { data: estimate } = api.modelCatalog.estimate.useQuery(
+    {
+      provider: selectedProvider,
+      model: selectedModel,
+      documentType: documentType as DocumentType,
+    },
+    { enabled: showCosts && !!documentType && !!selectedModel },
+  );
+  const estimatedCost = estimate?.estimatedCost ?? 0;
 
   useEffect(() => {
-    const availableModels = LLMService.getModelsForProvider(selectedProvider);
+    const availableModels =
+      selectedProvider === "local"
+        ? (localModels ?? [])
+        : (catalogModels ?? []).filter((m) => m.provider === selectedProvider);
     setModels(availableModels);
 
     // Select default/recommended model when provider changes
@@ -129,34 +163,7 @@ export function ProviderSelector({
         onChange({ provider: selectedProvider, model: recommendedModel.id });
       }
     }
-  }, [selectedProvider]);
-
-  useEffect(() => {
-    // Calculate estimated cost based on document type
-    if (showCosts && selectedModel) {
-      const model = models.find((m) => m.id === selectedModel);
-      if (model) {
-        // Rough token estimates by document type
-        const tokenEstimates: Record<string, number> = {
-          BIOGRAPHY: 5000,
-          CASE_SUMMARY: 3000,
-          BUSINESS_PLAN: 10000,
-          GRANT_PROPOSAL: 8000,
-          MEDICAL_REPORT: 4000,
-        };
-
-        const estimatedTokens = tokenEstimates[documentType || ""] || 5000;
-        const inputTokens = estimatedTokens * 0.3; // 30% input
-        const outputTokens = estimatedTokens * 0.7; // 70% output
-
-        const cost =
-          (inputTokens * model.costPer1kTokens.input) / 1000 +
-          (outputTokens * model.costPer1kTokens.output) / 1000;
-
-        setEstimatedCost(cost);
-      }
-    }
-  }, [selectedModel, documentType, models, showCosts]);
+  }, [selectedProvider, catalogModels, localModels]);
 
   const handleProviderChange = (provider: ProviderName) => {
     setSelectedProvider(provider);
@@ -175,7 +182,7 @@ export function ProviderSelector({
         value={selectedProvider}
         onValueChange={(v) => handleProviderChange(v as ProviderName)}
       >
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           {Object.entries(providerInfo).map(([key, info]) => (
             <TabsTrigger
               key={key}
@@ -207,6 +214,13 @@ export function ProviderSelector({
                   ))}
                 </div>
 
+                {key === "local" && localModelsError && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{localModelsError.message}</AlertDescription>
+                  </Alert>
+                )}
+
                 <div>
                   <Label htmlFor="model-select">Model</Label>
                   <Select
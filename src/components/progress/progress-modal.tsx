@@ -19,6 +19,7 @@ interface ProgressData {
     progress: number;
     message: string;
     currentSection?: string;
+    activeSections?: string[];
     estimatedTimeRemaining?: number;
     metadata?: {
         sectionsCompleted?: number;
@@ -196,7 +197,11 @@ export function ProgressModal({ documentId, onComplete, onError }: ProgressModal
                             {progressData.currentSection && (
                                 <div className="flex items-center text-sm text-gray-600">
                                     <FileText className="h-4 w-4 mr-2" />
-                                    <span>Writing: {progressData.currentSection}</span>
+                                    <span>
+                                        Writing: {progressData.activeSections?.length
+                                            ? progressData.activeSections.join(', ')
+                                            : progressData.currentSection}
+                                    </span>
                                 </div>
                             )}
 
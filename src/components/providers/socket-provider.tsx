@@ -4,6 +4,14 @@
 import { createContext, useContext, useEffect } from 'react';
 import { useSocket } from '~/hooks/use-socket';
 import type { Socket } from 'socket.io-client';
+import { toast } from 'sonner';
+
+interface BudgetAlert {
+    threshold: number;
+    currentCost: number;
+    limit: number;
+    percentage: number;
+}
 
 interface SocketContextType {
     socket: Socket | null;
@@ -19,6 +27,29 @@ const SocketContext = createContext<SocketContextType>({
 
 export function SocketProvider({ children }: { children: React.ReactNode }) {
     const socketData = useSocket();
+    const { socket, isConnected } = socketData;
+
+    // Budget alerts are pushed to the user's room whenever a threshold is crossed
+    useEffect(() => {
+        if (!socket || !isConnected) return;
+
+        const handleBudgetAlert = (alert: BudgetAlert) => {
+            const message = `You've used ${Math.round(alert.percentage)}% of your monthly budget`;
+            const description = `$${alert.currentCost.toFixed(2)} of $${alert.limit.toFixed(2)}`;
+
+            if (alert.threshold >= 100) {
+                toast.error(message, { description, duration: 0 });
+            } else {
+                toast.warning(message, { description, duration: 10000 });
+            }
+        };
+
+        socket.on('budget:alert', handleBudgetAlert);
+
+        return () => {
+            socket.off('budget:alert', handleBudgetAlert);
+        };
+    }, [socket, isConnected]);
 
     return (
         <SocketContext.Provider value={socketData}>
@@ -0,0 +1,31 @@
+// src/config/api-tokens.ts
+
+// Permissions a personal API token can be granted for the REST API
+export const API_TOKEN_SCOPES = {
+  "documents:write": {
+    name: "Generate documents",
+    description: "Create documents and start generation",
+  },
+  "documents:read": {
+    name: "Read documents",
+    description: "Check generation progress",
+  },
+  "exports:write": {
+    name: "Export documents",
+    description: "Create PDF, DOCX and other exports",
+  },
+  "knowledge:write": {
+    name: "Upload knowledge",
+    description: "Add knowledge sources for RAG",
+  },
+} as const;
+
+export type ApiTokenScope = keyof typeof API_TOKEN_SCOPES;
+
+export const API_TOKEN_SCOPE_NAMES = Object.keys(API_TOKEN_SCOPES) as [
+  ApiTokenScope,
+  ...ApiTokenScope[],
+];
+
+// Tokens look like "dfk_<random>" so they are easy to spot in leaked logs
+export const API_TOKEN_PREFIX = "dfk_";
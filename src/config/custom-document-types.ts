@@ -0,0 +1,143 @@
+// src/config/custom-document-types.ts
+import { z } from "zod";
+import { baseDocumentSchema } from "./schemas/base";
+
+// Field types an admin can use in a custom document type's form
+export const CUSTOM_FIELD_TYPES = [
+  "text",
+  "textarea",
+  "number",
+  "boolean",
+  "select",
+  "multiselect",
+  "list",
+] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+// Fields every document already has, from baseDocumentSchema
+const RESERVED_FIELD_NAMES = Object.keys(baseDocumentSchema.shape);
+
+export const customFieldSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, "Use letters, digits and underscores, starting with a letter")
+      .refine((name) => !RESERVED_FIELD_NAMES.includes(name), {
+        message: `${RESERVED_FIELD_NAMES.join(", ")} are provided for every document`,
+      }),
+    label: z.string().min(1).max(100),
+    type: z.enum(CUSTOM_FIELD_TYPES),
+    required: z.boolean().default(false),
+    description: z.string().max(300).optional(),
+    placeholder: z.string().max(200).optional(),
+    options: z
+      .array(z.object({ value: z.string().min(1), label: z.string().min(1) }))
+      .optional(),
+  })
+  .refine(
+    (field) =>
+      (field.type !== "select" && field.type !== "multiselect") ||
+      (field.options?.length ?? 0) > 0,
+    { message: "Select fields need at least one option", path: ["options"] },
+  );
+
+export const customSectionSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]*$/, "Use lowercase letters, digits and underscores"),
+  name: z.string().min(1).max(100),
+  order: z.number().int().min(1),
+});
+
+export const tokenEstimateSchema = z.object({
+  short: z.number().int().positive(),
+  medium: z.number().int().positive(),
+  long: z.number().int().positive(),
+});
+
+export type CustomField = z.infer<typeof customFieldSchema>;
+export type CustomSection = z.infer<typeof customSectionSchema>;
+export type TokenEstimate = z.infer<typeof tokenEstimateSchema>;
+
+export const DEFAULT_TOKEN_ESTIMATE: TokenEstimate = {
+  short: 2000,
+  medium: 4000,
+  long: 8000,
+};
+
+// Values prompt templates can reference as {{name}}, besides the form fields
+export const CUSTOM_PROMPT_PLACEHOLDERS = {
+  outline: ["title", "outputLength", "language", "input", "sections", "documentType"],
+  section: ["sectionId", "sectionTitle", "sectionOutline", "outline", "input", "documentType"],
+  refinement: ["content", "input", "documentType"],
+} as const;
+
+export function parseCustomFields(raw: unknown): CustomField[] {
+  return z.array(customFieldSchema).parse(raw);
+}
+
+export function parseCustomSections(raw: unknown): CustomSection[] {
+  return z
+    .array(customSectionSchema)
+    .parse(raw)
+    .sort((a, b) => a.order - b.order);
+}
+
+function fieldSchema(field: CustomField): z.ZodTypeAny {
+  const values = (field.options ?? []).map((option) => option.value) as [
+    string,
+    ...string[],
+  ];
+
+  switch (field.type) {
+    case "number":
+      // Inputs hand back strings
+      return field.required ? z.coerce.number() : z.coerce.number().default(0);
+    case "boolean":
+      return z.boolean().default(false);
+    case "select":
+      return field.required ? z.enum(values) : z.enum(values).optional();
+    case "multiselect":
+      return field.required
+        ? z.array(z.enum(values)).min(1, `Select at least one ${field.label}`)
+        : z.array(z.enum(values)).default([]);
+    case "list":
+      return field.required
+        ? z.array(z.string()).min(1, `Add at least one ${field.label}`)
+        : z.array(z.string()).default([]);
+    default:
+      return field.required
+        ? z.string().min(1, `${field.label} is required`)
+        : z.string().default("");
+  }
+}
+
+/**
+ * Zod schema for a custom type's input, in the same shape as the built-in
+ * document schemas so FormGenerator can render it
+ */
+export function buildCustomInputSchema(fields: CustomField[]) {
+  return baseDocumentSchema.extend(
+    Object.fromEntries(fields.map((field) => [field.name, fieldSchema(field)])),
+  );
+}
+
+/**
+ * FormGenerator field config for a custom type's fields
+ */
+export function buildCustomFieldConfig(fields: CustomField[]) {
+  return Object.fromEntries(
+    fields.map((field) => [
+      field.name,
+      {
+        label: field.label,
+        description: field.description,
+        placeholder: field.placeholder,
+        options: field.options,
+        type: field.type === "number" ? "number" : undefined,
+        rows: field.type === "textarea" ? 4 : undefined,
+      },
+    ]),
+  );
+}
@@ -132,7 +132,8 @@ export const DOCUMENT_CONFIGS = {
 } as const;
 
 // Type exports
-export type DocumentConfig = typeof DOCUMENT_CONFIGS[keyof typeof DOCUMENT_CONFIGS];
+export type BuiltInDocumentType = keyof typeof DOCUMENT_CONFIGS;
+export type DocumentConfig = typeof DOCUMENT_CONFIGS[BuiltInDocumentType];
 export type DocumentSchema =
   | z.infer<typeof biographySchema>
   | z.infer<typeof caseSummarySchema>
@@ -147,12 +148,17 @@ export function getEnabledDocumentTypes(): DocumentType[] {
     .map(([type]) => type as DocumentType);
 }
 
+// CUSTOM documents are configured by a CustomDocumentType row instead
+export function isBuiltInDocumentType(type: DocumentType): type is BuiltInDocumentType {
+  return type in DOCUMENT_CONFIGS;
+}
+
 export function getDocumentConfig(type: DocumentType): DocumentConfig | undefined {
-  return DOCUMENT_CONFIGS[type];
+  return isBuiltInDocumentType(type) ? DOCUMENT_CONFIGS[type] : undefined;
 }
 
 export function getDocumentSchema(type: DocumentType) {
-  const config = DOCUMENT_CONFIGS[type];
+  const config = getDocumentConfig(type);
   if (!config) {
     throw new Error(`No schema found for document type: ${type}`);
   }
@@ -163,19 +169,13 @@ export function estimateTokenUsage(
   type: DocumentType,
   length: "short" | "medium" | "long"
 ): number {
-  const config = DOCUMENT_CONFIGS[type];
+  const config = getDocumentConfig(type);
   if (!config) {
     throw new Error(`No configuration found for document type: ${type}`);
   }
   return config.estimatedTokens[length];
 }
 
-export function estimateCost(tokens: number): number {
-  // GPT-4 pricing (adjust as needed)
-  const costPer1kTokens = 0.03;
-  return (tokens / 1000) * costPer1kTokens;
-}
-
 // Re-export individual schemas for backward compatibility
 export {
   biographySchema,
@@ -0,0 +1,114 @@
+// src/config/export-themes.ts
+import { z } from "zod";
+
+// Font choices a theme can use, with the equivalent in each export format.
+// PDFs only embed the standard PDF fonts, so choices are families rather
+// than arbitrary font names.
+export const EXPORT_THEME_FONTS = {
+  sans: {
+    name: "Sans-serif",
+    pdf: "Helvetica",
+    docx: "Arial",
+    css: "'Helvetica Neue', Helvetica, Arial, sans-serif",
+  },
+  serif: {
+    name: "Serif",
+    pdf: "Times-Roman",
+    docx: "Times New Roman",
+    css: "Georgia, 'Times New Roman', Times, serif",
+  },
+  mono: {
+    name: "Monospace",
+    pdf: "Courier",
+    docx: "Courier New",
+    css: "'Courier New', Courier, monospace",
+  },
+} as const;
+
+export type ExportThemeFont = keyof typeof EXPORT_THEME_FONTS;
+
+const FONT_NAMES = Object.keys(EXPORT_THEME_FONTS) as [
+  ExportThemeFont,
+  ...ExportThemeFont[],
+];
+
+// Header and footer text can reference the document, e.g. "{title}"
+export const EXPORT_THEME_PLACEHOLDERS = ["title", "type", "author", "date"] as const;
+
+const colorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Use a hex colour such as #1F2937");
+
+export const exportThemeLogoSchema = z.object({
+  // PNG or JPEG, inlined so every exporter can embed it without a fetch
+  dataUrl: z
+    .string()
+    .regex(/^data:image\/(png|jpeg);base64,[A-Za-z0-9+/=]+$/, "Use a PNG or JPEG image")
+    .max(400_000, "Logos must be smaller than 300 KB"),
+  // Intrinsic size in pixels, used to keep the aspect ratio when scaling
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+export const exportThemeSettingsSchema = z.object({
+  logo: exportThemeLogoSchema.nullable().default(null),
+  headingFont: z.enum(FONT_NAMES).default("sans"),
+  bodyFont: z.enum(FONT_NAMES).default("sans"),
+  // Title, headings and rules
+  primaryColor: colorSchema.default("#111827"),
+  textColor: colorSchema.default("#333333"),
+  // Citation markers and links
+  accentColor: colorSchema.default("#3366CC"),
+  headerText: z.string().max(200).default("{title}"),
+  footerText: z.string().max(200).default(""),
+  // Page numbers in the footer of PDF and DOCX exports
+  pageNumbers: z.boolean().default(true),
+  // Title page with the logo and metadata; without one the table of
+  // contents opens with a title block
+  coverPage: z.boolean().default(true),
+  marginMm: z.number().int().min(10).max(40).default(25),
+});
+
+export type ExportThemeLogo = z.infer<typeof exportThemeLogoSchema>;
+export type ExportThemeSettings = z.infer<typeof exportThemeSettingsSchema>;
+
+export const DEFAULT_EXPORT_THEME: ExportThemeSettings =
+  exportThemeSettingsSchema.parse({});
+
+/**
+ * Settings stored on an ExportTheme, falling back to the defaults for
+ * anything missing or no longer valid
+ */
+export function parseExportThemeSettings(raw: unknown): ExportThemeSettings {
+  const result = exportThemeSettingsSchema.safeParse(raw ?? {});
+  return result.success ? result.data : DEFAULT_EXPORT_THEME;
+}
+
+/**
+ * Header or footer text with its {placeholders} filled in
+ */
+export function fillThemeText(
+  text: string,
+  values: Partial<Record<(typeof EXPORT_THEME_PLACEHOLDERS)[number], string>>,
+): string {
+  return text
+    .replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in values ? (values[name as keyof typeof values] ?? "") : match,
+    )
+    .trim();
+}
+
+/**
+ * Logo size that fits the box without distorting it
+ */
+export function fitLogo(
+  logo: ExportThemeLogo,
+  maxWidth: number,
+  maxHeight: number,
+): { width: number; height: number } {
+  const scale = Math.min(maxWidth / logo.width, maxHeight / logo.height, 1);
+  return {
+    width: Math.round(logo.width * scale),
+    height: Math.round(logo.height * scale),
+  };
+}
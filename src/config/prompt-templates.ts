@@ -0,0 +1,28 @@
+// src/config/prompt-templates.ts
+
+// Mirrors the PromptStage enum so the admin UI can import it without Prisma
+export const PROMPT_STAGES = ["SYSTEM", "OUTLINE", "SECTION", "REFINEMENT"] as const;
+
+export type PromptStageName = (typeof PROMPT_STAGES)[number];
+
+export const PROMPT_STAGE_LABELS: Record<PromptStageName, string> = {
+  SYSTEM: "System prompt",
+  OUTLINE: "Outline",
+  SECTION: "Section",
+  REFINEMENT: "Refinement",
+};
+
+// Values a stored template can reference as {{name}}, besides the document's
+// input fields. The system prompt is sent as written.
+export const PROMPT_TEMPLATE_PLACEHOLDERS: Record<PromptStageName, readonly string[]> = {
+  SYSTEM: [],
+  OUTLINE: ["input", "provider", "outputLength", "language"],
+  SECTION: ["sectionId", "sectionTitle", "sectionOutline", "outline", "previousSections", "input"],
+  REFINEMENT: ["content", "input"],
+};
+
+// Stage-specific output the built-in chains parse; templates must keep asking for it
+export const PROMPT_STAGE_NOTES: Partial<Record<PromptStageName, string>> = {
+  OUTLINE:
+    "The response must be a JSON outline with a title and a sections object keyed by section id, like the built-in prompt.",
+};
@@ -0,0 +1,35 @@
+// src/config/webhooks.ts
+
+// Events users can subscribe a webhook endpoint to
+export const WEBHOOK_EVENTS = {
+  "document.completed": {
+    name: "Document completed",
+    description: "A document finished generating. Includes the full content.",
+  },
+  "document.failed": {
+    name: "Document failed",
+    description: "Generation failed and the document can be retried.",
+  },
+  "export.ready": {
+    name: "Export ready",
+    description: "An export file is ready to download.",
+  },
+  "knowledge_source.processed": {
+    name: "Knowledge source processed",
+    description: "An uploaded knowledge source finished (or failed) processing.",
+  },
+} as const;
+
+export type WebhookEvent = keyof typeof WEBHOOK_EVENTS;
+
+export const WEBHOOK_EVENT_NAMES = Object.keys(WEBHOOK_EVENTS) as [
+  WebhookEvent,
+  ...WebhookEvent[],
+];
+
+// Headers sent with every delivery. The signature is an HMAC-SHA256 of
+// `${timestamp}.${body}` keyed with the endpoint secret.
+export const WEBHOOK_SIGNATURE_HEADER = "X-DocuForge-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-DocuForge-Timestamp";
+export const WEBHOOK_EVENT_HEADER = "X-DocuForge-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-DocuForge-Delivery";
@@ -53,8 +53,11 @@ export const env = createEnv({
       .string()
       .refine((str) => /^redis:\/\//.test(str), "REDIS_URL must start with redis://"),
 
-    // OpenAI
-    OPENAI_API_KEY: z.string().min(1),
+    // OpenAI (not needed when everything runs against the local endpoint)
+    OPENAI_API_KEY:
+      process.env.DEFAULT_LLM_PROVIDER === "local"
+        ? z.string().optional()
+        : z.string().min(1),
     OPENAI_ORG_ID: z.string().optional(),
     OPENAI_DEFAULT_MODEL: z.string().optional().default("gpt-4-turbo"),
 
@@ -79,10 +82,23 @@ export const env = createEnv({
     GROQ_API_KEY: z.string().optional(),
     LOCAL_LLAMA_URL: z.string().url().optional().default("http://localhost:8080"),
 
+    // Local OpenAI-compatible endpoint (Ollama, vLLM, llama.cpp server)
+    LOCAL_LLM_BASE_URL: z.string().url().optional().default("http://localhost:11434/v1"),
+    LOCAL_LLM_API_KEY: z.string().optional(),
+    LOCAL_LLM_DEFAULT_MODEL: z.string().optional(),
+
+    // Mock provider (offline demos, CI). Rates are 0-1 shares of requests.
+    MOCK_LLM_LATENCY_MS: z.coerce.number().min(0).default(0),
+    MOCK_LLM_FAILURE_RATE: z.coerce.number().min(0).max(1).default(0),
+    MOCK_LLM_RATE_LIMIT_RATE: z.coerce.number().min(0).max(1).default(0),
+
     // LLM Configuration
-    DEFAULT_LLM_PROVIDER: z.enum(["openai", "anthropic", "gemini", "perplexity", "llama"]).default("openai"),
+    DEFAULT_LLM_PROVIDER: z.enum(["openai", "anthropic", "gemini", "perplexity", "llama", "local", "mock"]).default("openai"),
     DEFAULT_LLM_MODEL: z.string().default("gpt-4-turbo"),
     DEFAULT_EMBEDDING_MODEL: z.string().default("text-embedding-3-small"),
+    // Defaults to "local" when DEFAULT_LLM_PROVIDER is local, otherwise "openai"
+    EMBEDDING_PROVIDER: z.enum(["openai", "local"]).optional(),
+    LOCAL_EMBEDDING_MODEL: z.string().default("nomic-embed-text"),
 
     // LLM Rate Limiting
     LLM_RATE_LIMIT_PER_MINUTE: z.coerce.number().default(60),
@@ -101,6 +117,8 @@ export const env = createEnv({
     AWS_ACCESS_KEY_ID: z.string().optional(),
     AWS_SECRET_ACCESS_KEY: z.string().optional(),
     AWS_S3_BUCKET: z.string().optional(),
+    // S3-compatible services such as MinIO; uses path-style bucket URLs
+    AWS_S3_ENDPOINT: z.string().url().optional(),
 
     // Email Service
     RESEND_API_KEY: z.string().optional(),
@@ -146,6 +164,15 @@ export const env = createEnv({
       .transform((v) => v === "true")
       .default("true"),
 
+    // Outbound Requests
+    // Lets webhooks and crawls reach private and loopback addresses. Only for
+    // local development; never enable in production.
+    ALLOW_PRIVATE_NETWORK_REQUESTS: z
+      .string()
+      .optional()
+      .transform((v) => v === "true")
+      .default("false"),
+
     // Feature Flags
     ENABLE_WEBSOCKET_PROGRESS: z
       .string()
@@ -259,10 +286,20 @@ export const env = createEnv({
     GROQ_API_KEY: process.env.GROQ_API_KEY,
     LOCAL_LLAMA_URL: process.env.LOCAL_LLAMA_URL,
 
+    // Server - Local LLM
+    LOCAL_LLM_BASE_URL: process.env.LOCAL_LLM_BASE_URL,
+    LOCAL_LLM_API_KEY: process.env.LOCAL_LLM_API_KEY,
+    LOCAL_LLM_DEFAULT_MODEL: process.env.LOCAL_LLM_DEFAULT_MODEL,
+    MOCK_LLM_LATENCY_MS: process.env.MOCK_LLM_LATENCY_MS,
+    MOCK_LLM_FAILURE_RATE: process.env.MOCK_LLM_FAILURE_RATE,
+    MOCK_LLM_RATE_LIMIT_RATE: process.env.MOCK_LLM_RATE_LIMIT_RATE,
+
     // Server - LLM Configuration
     DEFAULT_LLM_PROVIDER: process.env.DEFAULT_LLM_PROVIDER,
     DEFAULT_LLM_MODEL: process.env.DEFAULT_LLM_MODEL,
     DEFAULT_EMBEDDING_MODEL: process.env.DEFAULT_EMBEDDING_MODEL,
+    EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER,
+    LOCAL_EMBEDDING_MODEL: process.env.LOCAL_EMBEDDING_MODEL,
 
     // Server - LLM Rate Limiting
     LLM_RATE_LIMIT_PER_MINUTE: process.env.LLM_RATE_LIMIT_PER_MINUTE,
@@ -279,6 +316,7 @@ export const env = createEnv({
     AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
     AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY,
     AWS_S3_BUCKET: process.env.AWS_S3_BUCKET,
+    AWS_S3_ENDPOINT: process.env.AWS_S3_ENDPOINT,
 
     // Server - Email
     RESEND_API_KEY: process.env.RESEND_API_KEY,
@@ -312,6 +350,9 @@ export const env = createEnv({
     PINECONE_ENVIRONMENT: process.env.PINECONE_ENVIRONMENT,
     PGVECTOR_ENABLED: process.env.PGVECTOR_ENABLED,
 
+    // Server - Outbound Requests
+    ALLOW_PRIVATE_NETWORK_REQUESTS: process.env.ALLOW_PRIVATE_NETWORK_REQUESTS,
+
     // Server - Feature Flags
     ENABLE_WEBSOCKET_PROGRESS: process.env.ENABLE_WEBSOCKET_PROGRESS,
     ENABLE_USER_PREFERENCES: process.env.ENABLE_USER_PREFERENCES,
@@ -267,7 +267,7 @@ Return your response as a JSON object with the following structure:
 }`;
 
     // Add document-type specific instructions
-    const typeSpecificPrompts: Record<DocumentType, string> = {
+    const typeSpecificPrompts: Partial<Record<DocumentType, string>> = {
       [DocumentType.BIOGRAPHY]:
         "\n\nFor biographies, ensure the outline captures the subject's life chronologically while highlighting their most significant achievements and contributions.",
       [DocumentType.CASE_SUMMARY]:
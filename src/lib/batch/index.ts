@@ -0,0 +1,349 @@
+//src/lib/batch/index.ts
+
+import { z } from "zod";
+
+// Batch generation turns each row of an uploaded CSV file or JSON array into
+// the input of one document. Parsing, column mapping and validation live here
+// so the upload page can show per-row errors before anything is sent, and the
+// batch router can check the same rows again on the server.
+
+// Upper bound on documents per batch, and on rows read from a file
+export const MAX_BATCH_DOCUMENTS = 100;
+
+export type BatchCell = string | number | boolean | string[] | null;
+export type BatchRow = Record<string, BatchCell>;
+
+export interface ParsedBatchFile {
+  columns: string[];
+  rows: BatchRow[];
+}
+
+export interface BatchField {
+  // Dot path into the document input, e.g. "subject.name"
+  path: string;
+  kind: "string" | "number" | "boolean" | "enum" | "array";
+  // Allowed values of enum fields and enum array items
+  options?: string[];
+  required: boolean;
+}
+
+// Field path -> column it is read from
+export type BatchColumnMapping = Record<string, string | undefined>;
+
+export interface BatchRowIssue {
+  field: string;
+  message: string;
+}
+
+export interface BatchRowResult {
+  // 1-based, counting data rows only
+  row: number;
+  input: Record<string, unknown>;
+  errors: BatchRowIssue[];
+}
+
+/**
+ * Parse an uploaded file into rows keyed by column. JSON files must hold an
+ * array of objects; nested objects become dotted columns ("subject.name").
+ */
+export function parseBatchFile(content: string, filename: string): ParsedBatchFile {
+  const trimmed = content.replace(/^\uFEFF/, "").trim();
+  const isJson = filename.toLowerCase().endsWith(".json") || trimmed.startsWith("[");
+
+  const parsed = isJson ? parseJsonRows(trimmed) : parseCsvRows(trimmed);
+
+  if (parsed.rows.length === 0) {
+    throw new Error("The file has no rows");
+  }
+
+  if (parsed.rows.length > MAX_BATCH_DOCUMENTS) {
+    throw new Error(
+      `A batch can have at most ${MAX_BATCH_DOCUMENTS} rows, the file has ${parsed.rows.length}`,
+    );
+  }
+
+  return parsed;
+}
+
+function parseJsonRows(content: string): ParsedBatchFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  if (!Array.isArray(data)) {
+    throw new Error("JSON files must contain an array of objects");
+  }
+
+  const columns = new Set<string>();
+  const rows = data.map((item, index) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new Error(`Item ${index + 1} is not an object`);
+    }
+
+    const row = flattenObject(item as Record<string, unknown>);
+    Object.keys(row).forEach((column) => columns.add(column));
+    return row;
+  });
+
+  return { columns: [...columns], rows };
+}
+
+function flattenObject(value: Record<string, unknown>, prefix = ""): BatchRow {
+  const row: BatchRow = {};
+
+  for (const [key, item] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (item && typeof item === "object" && !Array.isArray(item)) {
+      Object.assign(row, flattenObject(item as Record<string, unknown>, path));
+    } else if (Array.isArray(item)) {
+      row[path] = item.map(String);
+    } else if (item === undefined) {
+      row[path] = null;
+    } else {
+      row[path] = item as BatchCell;
+    }
+  }
+
+  return row;
+}
+
+function parseCsvRows(content: string): ParsedBatchFile {
+  const records = parseCsv(content).filter((record) =>
+    record.some((cell) => cell.trim() !== ""),
+  );
+
+  const [header, ...data] = records;
+  if (!header) {
+    return { columns: [], rows: [] };
+  }
+
+  const columns = header.map((column) => column.trim());
+  const rows = data.map((record) =>
+    Object.fromEntries(columns.map((column, i) => [column, record[i] ?? ""])),
+  );
+
+  return { columns, rows };
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  record.push(field);
+  records.push(record);
+  return records;
+}
+
+/**
+ * The fields of a document input schema that a column can fill, in schema
+ * order. Nested objects are flattened to dot paths.
+ */
+export function getBatchFields(schema: z.ZodTypeAny, prefix = ""): BatchField[] {
+  const inner = unwrap(schema);
+  if (!(inner instanceof z.ZodObject)) return [];
+
+  return Object.entries(inner.shape as Record<string, z.ZodTypeAny>).flatMap(
+    ([key, fieldSchema]) => {
+      const path = prefix ? `${prefix}.${key}` : key;
+      const fieldInner = unwrap(fieldSchema);
+
+      if (fieldInner instanceof z.ZodObject) {
+        return getBatchFields(fieldInner, path);
+      }
+
+      // Required when leaving the column empty fails validation
+      const required = !fieldSchema.safeParse(undefined).success;
+
+      if (fieldInner instanceof z.ZodArray) {
+        const item = unwrap(fieldInner.element as z.ZodTypeAny);
+        return [{ path, kind: "array" as const, options: enumValues(item), required }];
+      }
+
+      if (fieldInner instanceof z.ZodEnum) {
+        return [{ path, kind: "enum" as const, options: enumValues(fieldInner), required }];
+      }
+
+      const kind =
+        fieldInner instanceof z.ZodNumber
+          ? ("number" as const)
+          : fieldInner instanceof z.ZodBoolean
+            ? ("boolean" as const)
+            : ("string" as const);
+
+      return [{ path, kind, required }];
+    },
+  );
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (
+    schema instanceof z.ZodDefault ||
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable
+  ) {
+    return unwrap(schema._def.innerType as z.ZodTypeAny);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return unwrap(schema._def.schema as z.ZodTypeAny);
+  }
+  return schema;
+}
+
+function enumValues(schema: z.ZodTypeAny): string[] | undefined {
+  return schema instanceof z.ZodEnum ? [...(schema.options as string[])] : undefined;
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Map each field to the column with the same name, matching either the full
+ * path or its last segment and ignoring case, spaces and punctuation
+ */
+export function suggestColumnMapping(
+  fields: BatchField[],
+  columns: string[],
+): BatchColumnMapping {
+  return Object.fromEntries(
+    fields.map((field) => {
+      const names = [field.path, field.path.split(".").pop()!].map(normalize);
+      const column = columns.find((c) => names.includes(normalize(c)));
+      return [field.path, column];
+    }),
+  );
+}
+
+/**
+ * Build the document input of every row from the mapped columns. Cells are
+ * converted to the field's type; empty cells are left out so schema defaults
+ * apply.
+ */
+export function mapBatchRows(
+  rows: BatchRow[],
+  fields: BatchField[],
+  mapping: BatchColumnMapping,
+): Record<string, unknown>[] {
+  return rows.map((row) => {
+    const input: Record<string, unknown> = {};
+
+    for (const field of fields) {
+      const column = mapping[field.path];
+      if (!column) continue;
+
+      const value = convertCell(row[column] ?? null, field);
+      if (value !== undefined) setPath(input, field.path, value);
+    }
+
+    return input;
+  });
+}
+
+function convertCell(cell: BatchCell, field: BatchField): unknown {
+  if (cell === null || (typeof cell === "string" && cell.trim() === "")) {
+    return undefined;
+  }
+
+  switch (field.kind) {
+    case "number": {
+      const number = typeof cell === "number" ? cell : Number(String(cell).trim());
+      // Left as text so validation reports the bad value
+      return Number.isNaN(number) ? cell : number;
+    }
+
+    case "boolean":
+      if (typeof cell === "boolean") return cell;
+      return ["true", "yes", "y", "1"].includes(String(cell).trim().toLowerCase());
+
+    case "enum":
+      return matchOption(String(cell).trim(), field.options);
+
+    case "array": {
+      // Lists are separated with semicolons or pipes in a single cell
+      const items = Array.isArray(cell) ? cell : String(cell).split(/[;|\n]/);
+      return items
+        .map((item) => item.trim())
+        .filter((item) => item !== "")
+        .map((item) => matchOption(item, field.options));
+    }
+
+    default:
+      return String(cell).trim();
+  }
+}
+
+// "Early Life" and "early-life" both select the "early_life" option
+function matchOption(value: string, options?: string[]): string {
+  return options?.find((option) => normalize(option) === normalize(value)) ?? value;
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown) {
+  const keys = path.split(".");
+  let node = target;
+
+  for (const key of keys.slice(0, -1)) {
+    node[key] ??= {};
+    node = node[key] as Record<string, unknown>;
+  }
+
+  node[keys[keys.length - 1]!] = value;
+}
+
+/**
+ * Check each mapped row against the document schema. Rows without errors
+ * carry the parsed input, with defaults applied.
+ */
+export function validateBatchInputs(
+  schema: z.ZodTypeAny,
+  inputs: Record<string, unknown>[],
+): BatchRowResult[] {
+  return inputs.map((input, index) => {
+    const result = schema.safeParse(input);
+
+    if (result.success) {
+      return { row: index + 1, input: result.data as Record<string, unknown>, errors: [] };
+    }
+
+    return {
+      row: index + 1,
+      input,
+      errors: result.error.issues.map((issue) => ({
+        field: issue.path.join(".") || "input",
+        message: issue.message,
+      })),
+    };
+  });
+}
@@ -0,0 +1,63 @@
+//src/lib/export/citations.ts
+
+import type { DocumentData, ExportReference } from "./index";
+
+// Inline citation markers written by the section chain, e.g. "[2]"
+export const CITATION_MARKER = /\[(\d+)\]/g;
+
+export type ContentSegment =
+  | { type: "text"; value: string }
+  | { type: "citation"; marker: number };
+
+/**
+ * Split text into plain runs and citation markers that resolve to a reference
+ */
+export function splitCitations(
+  text: string,
+  references: ExportReference[] | undefined,
+): ContentSegment[] {
+  if (!references?.length) return [{ type: "text", value: text }];
+
+  const known = new Set(references.map((reference) => reference.marker));
+  const segments: ContentSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_MARKER)) {
+    const marker = Number(match[1]);
+    if (!known.has(marker)) continue;
+
+    if (match.index > lastIndex) {
+      segments.push({ type: "text", value: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: "citation", marker });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: "text", value: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Replace resolvable markers using a format-specific renderer
+ */
+export function replaceCitations(
+  text: string,
+  references: ExportReference[] | undefined,
+  render: (marker: number) => string,
+): string {
+  return splitCitations(text, references)
+    .map((segment) =>
+      segment.type === "text" ? segment.value : render(segment.marker),
+    )
+    .join("");
+}
+
+/**
+ * References in marker order, for the list at the end of an export
+ */
+export function getReferences(data: DocumentData): ExportReference[] {
+  return [...(data.references ?? [])].sort((a, b) => a.marker - b.marker);
+}
@@ -19,8 +19,40 @@ import {
   Header,
   PageNumber,
   NumberFormat,
+  FootnoteReferenceRun,
+  ImageRun,
+  Bookmark,
+  BookmarkStart,
+  BookmarkEnd,
+  InternalHyperlink,
+  PageReference,
+  Tab,
+  TabStopType,
+  LeaderType,
+  sectionPageSizeDefaults,
 } from "docx";
-import type { DocumentData, Exporter } from "./index";
+import type { DocumentData, Exporter, ExportReference } from "./index";
+import { getReferences, splitCitations } from "./citations";
+import {
+  formatEntryTitle,
+  getOutline,
+  getSortedSections,
+  parseHeading,
+  REFERENCES_ANCHOR,
+  type OutlineEntry,
+} from "./outline";
+import {
+  decodeLogo,
+  formatExportDate,
+  getTheme,
+  getThemeText,
+  mmToTwips,
+} from "./theme";
+import { EXPORT_THEME_FONTS, fitLogo } from "~/config/export-themes";
+
+// Word pairs bookmark starts and ends by a numeric id that docx gives every
+// bookmark as 1, so ids are handed out here instead
+let lastBookmarkLinkId = 0;
 
 /**
  * DOCX Exporter Implementation
@@ -38,89 +70,150 @@ export class DocxExporter implements Exporter {
       lastModifiedBy: data.metadata.author ?? "DocuForge",
     };
 
+    const theme = getTheme(data);
+    const themeText = getThemeText(data);
+    const margin = mmToTwips(theme.marginMm);
+
+    // Title, type and metadata, on the cover page or above the first section
+    const titleBlock = [
+      ...(theme.logo
+        ? [
+            new Paragraph({
+              alignment: AlignmentType.CENTER,
+              spacing: {
+                after: 400,
+              },
+              children: [
+                new ImageRun({
+                  ...decodeLogo(theme.logo.dataUrl),
+                  transformation: fitLogo(theme.logo, 200, 64),
+                }),
+              ],
+            }),
+          ]
+        : []),
+      // Title
+      new Paragraph({
+        text: data.title,
+        heading: HeadingLevel.TITLE,
+        alignment: AlignmentType.CENTER,
+        spacing: {
+          after: 400,
+        },
+      }),
+      // Document type
+      new Paragraph({
+        text: data.type,
+        alignment: AlignmentType.CENTER,
+        spacing: {
+          after: 200,
+        },
+      }),
+      // Metadata
+      new Paragraph({
+        text: `Created: ${formatExportDate(data.metadata.createdAt)}`,
+        alignment: AlignmentType.CENTER,
+        spacing: {
+          after: 100,
+        },
+      }),
+      new Paragraph({
+        text: `Word Count: ${data.metadata.wordCount.toLocaleString()}`,
+        alignment: AlignmentType.CENTER,
+        spacing: {
+          after: 100,
+        },
+      }),
+      ...(data.metadata.author
+        ? [
+            new Paragraph({
+              text: `Author: ${data.metadata.author}`,
+              alignment: AlignmentType.CENTER,
+              spacing: {
+                after: 100,
+              },
+            }),
+          ]
+        : []),
+    ];
+
+    const pageProperties = {
+      page: {
+        margin: {
+          top: margin,
+          right: margin,
+          bottom: margin,
+          left: margin,
+        },
+      },
+    };
+
+    // References are footnotes here rather than a section of their own
+    const outline = getOutline(data).filter(
+      (entry) => entry.id !== REFERENCES_ANCHOR,
+    );
+
+    // Table of Contents
+    const tableOfContents = [
+      new Paragraph({
+        text: "Table of Contents",
+        style: "tocHeading",
+      }),
+      // Page numbers right-aligned at the margin of the default page size
+      ...this.createTableOfContents(
+        outline,
+        sectionPageSizeDefaults.WIDTH - 2 * margin,
+      ),
+      new Paragraph({ children: [new PageBreak()] }),
+    ];
+
     // Create document sections
     const sections: ISectionOptions[] = [];
 
     // Title page
-    sections.push({
-      properties: {},
-      children: [
-        // Title
-        new Paragraph({
-          text: data.title,
-          heading: HeadingLevel.TITLE,
-          alignment: AlignmentType.CENTER,
-          spacing: {
-            after: 400,
-          },
-        }),
-        // Document type
-        new Paragraph({
-          text: data.type,
-          alignment: AlignmentType.CENTER,
-          spacing: {
-            after: 200,
-          },
-        }),
-        // Metadata
-        new Paragraph({
-          text: `Created: ${this.formatDate(data.metadata.createdAt)}`,
-          alignment: AlignmentType.CENTER,
-          spacing: {
-            after: 100,
-          },
-        }),
-        new Paragraph({
-          text: `Word Count: ${data.metadata.wordCount.toLocaleString()}`,
-          alignment: AlignmentType.CENTER,
-          spacing: {
-            after: 100,
-          },
-        }),
-        ...(data.metadata.author
-          ? [
-              new Paragraph({
-                text: `Author: ${data.metadata.author}`,
-                alignment: AlignmentType.CENTER,
-                spacing: {
-                  after: 100,
-                },
-              }),
-            ]
-          : []),
-        new Paragraph({ children: [new PageBreak()] }),
-        // Table of Contents
-        new Paragraph({
-          text: "Table of Contents",
-          heading: HeadingLevel.HEADING_1,
-          spacing: {
-            after: 300,
-          },
-        }),
-        ...this.createTableOfContents(data.sections),
-        new Paragraph({ children: [new PageBreak()] }),
-      ],
-    });
+    if (theme.coverPage) {
+      sections.push({
+        properties: pageProperties,
+        children: [
+          ...titleBlock,
+          new Paragraph({ children: [new PageBreak()] }),
+          ...tableOfContents,
+        ],
+      });
+    }
 
     // Content sections
-    const sortedSections = [...data.sections].sort((a, b) => a.order - b.order);
-    const contentChildren = [];
+    const sortedSections = getSortedSections(data);
+    const references = getReferences(data);
+    const contentChildren = theme.coverPage
+      ? []
+      : [...titleBlock, ...tableOfContents];
 
     for (const [i, section] of sortedSections.entries()) {
-      // Section heading
+      const entry = outline[i]!;
+
+      // Section heading, bookmarked for the table of contents
       contentChildren.push(
         new Paragraph({
-          text: `${i + 1}. ${section.name}`,
           heading: HeadingLevel.HEADING_1,
           spacing: {
             before: 400,
             after: 200,
           },
+          children: [
+            this.createBookmark(entry, [
+              new TextRun(formatEntryTitle(entry)),
+            ]),
+          ],
         }),
       );
 
       // Section content
-      const contentParagraphs = this.parseContent(section.content);
+      const contentParagraphs = this.parseContent(
+        section.content,
+        references,
+        entry,
+      );
       contentChildren.push(...contentParagraphs);
 
       // Add page break between sections (except for the last one)
@@ -129,48 +222,54 @@ export class DocxExporter implements Exporter {
       }
     }
 
+    // Footer line: the theme's footer text and page numbers, either optional
+    const footerRuns = [
+      ...(themeText.footer ? [new TextRun(themeText.footer)] : []),
+      ...(themeText.footer && theme.pageNumbers ? [new TextRun("    ")] : []),
+      ...(theme.pageNumbers
+        ? [
+            new TextRun({
+              children: [
+                "Page ",
+                PageNumber.CURRENT,
+                " of ",
+                PageNumber.TOTAL_PAGES,
+              ],
+            }),
+          ]
+        : []),
+    ];
+
     // Add content section with headers and footers
     sections.push({
-      properties: {
-        page: {
-          margin: {
-            top: 1440, // 1 inch
-            right: 1440,
-            bottom: 1440,
-            left: 1440,
-          },
-        },
-      },
-      headers: {
-        default: new Header({
-          children: [
-            new Paragraph({
-              text: data.title,
-              alignment: AlignmentType.RIGHT,
-              style: "headerStyle",
-            }),
-          ],
-        }),
-      },
-      footers: {
-        default: new Footer({
-          children: [
-            new Paragraph({
-              alignment: AlignmentType.CENTER,
+      properties: pageProperties,
+      headers: themeText.header
+        ? {
+            default: new Header({
               children: [
-                new TextRun({
-                  children: [
-                    "Page ",
-                    PageNumber.CURRENT,
-                    " of ",
-                    PageNumber.TOTAL_PAGES,
-                  ],
+                new Paragraph({
+                  text: themeText.header,
+                  alignment: AlignmentType.RIGHT,
+                  style: "headerStyle",
                 }),
               ],
             }),
-          ],
-        }),
-      },
+          }
+        : undefined,
+      footers:
+        footerRuns.length > 0
+          ? {
+              default: new Footer({
+                children: [
+                  new Paragraph({
+                    alignment: AlignmentType.CENTER,
+                    style: "headerStyle",
+                    children: footerRuns,
+                  }),
+                ],
+              }),
+            }
+          : undefined,
       children: contentChildren,
     });
 
@@ -181,12 +280,28 @@ export class DocxExporter implements Exporter {
       description: properties.description,
       styles: {
         default: {
+          document: {
+            run: {
+              font: EXPORT_THEME_FONTS[theme.bodyFont].docx,
+              color: theme.textColor.slice(1),
+            },
+          },
+          title: {
+            run: {
+              font: EXPORT_THEME_FONTS[theme.headingFont].docx,
+              color: theme.primaryColor.slice(1),
+            },
+          },
           heading1: {
             run: {
+              font: EXPORT_THEME_FONTS[theme.headingFont].docx,
+              color: theme.primaryColor.slice(1),
               size: 32,
               bold: true,
             },
+            // Outline levels put headings in Word's navigation pane
             paragraph: {
+              outlineLevel: 0,
               spacing: {
                 after: 200,
               },
@@ -194,15 +309,32 @@ export class DocxExporter implements Exporter {
           },
           heading2: {
             run: {
+              font: EXPORT_THEME_FONTS[theme.headingFont].docx,
+              color: theme.primaryColor.slice(1),
               size: 26,
               bold: true,
             },
             paragraph: {
+              outlineLevel: 1,
               spacing: {
                 after: 150,
               },
             },
           },
+          heading3: {
+            run: {
+              font: EXPORT_THEME_FONTS[theme.headingFont].docx,
+              color: theme.primaryColor.slice(1),
+              size: 24,
+              bold: true,
+            },
+            paragraph: {
+              outlineLevel: 2,
+              spacing: {
+                after: 120,
+              },
+            },
+          },
         },
         paragraphStyles: [
           {
@@ -218,17 +350,69 @@ export class DocxExporter implements Exporter {
               },
             },
           },
+          {
+            id: "tocHeading",
+            name: "TOC Heading",
+            basedOn: "Heading1",
+            next: "normal",
+            run: {
+              font: EXPORT_THEME_FONTS[theme.headingFont].docx,
+              color: theme.primaryColor.slice(1),
+              size: 32,
+              bold: true,
+            },
+            // Not part of the outline, unlike the heading it is based on
+            paragraph: {
+              outlineLevel: 9,
+              spacing: {
+                after: 300,
+              },
+            },
+          },
+          ...[1, 2].map((level) => ({
+            id: `TOC${level}`,
+            name: `toc ${level}`,
+            run: {
+              size: level === 1 ? 22 : 20,
+              bold: level === 1,
+            },
+            paragraph: {
+              indent: { left: 360 * level },
+              spacing: { after: 100 },
+            },
+          })),
           {
             id: "headerStyle",
             name: "Header",
             run: {
               size: 20,
               italics: true,
+              color: "666666",
             },
           },
         ],
       },
       sections,
+      // Lets Word fill in the table of contents page numbers on opening
+      features: {
+        updateFields: true,
+      },
+      // Citation markers become Word footnotes numbered like the markers
+      footnotes: Object.fromEntries(
+        references.map((reference) => [
+          reference.marker,
+          {
+            children: [
+              new Paragraph({
+                children: [
+                  new TextRun({ text: reference.sourceName, bold: true }),
+                  new TextRun(` — ${reference.excerpt.replace(/\s+/g, " ")}`),
+                ],
+              }),
+            ],
+          },
+        ]),
+      ),
       numbering: {
         config: [
           {
@@ -264,59 +448,113 @@ export class DocxExporter implements Exporter {
     return "docx";
   }
 
-  private formatDate(date: Date): string {
-    return new Date(date).toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
+  // Word bookmark names allow letters, digits and underscores only
+  private bookmarkId(entry: OutlineEntry): string {
+    return entry.id.replace(/-/g, "_");
+  }
+
+  private createBookmark(entry: OutlineEntry, children: TextRun[]): Bookmark {
+    const name = this.bookmarkId(entry);
+    const linkId = ++lastBookmarkLinkId;
+
+    return Object.assign(new Bookmark({ id: name, children }), {
+      start: new BookmarkStart(name, linkId),
+      end: new BookmarkEnd(linkId),
     });
   }
 
-  private createTableOfContents(sections: any[]): Paragraph[] {
-    const sortedSections = [...sections].sort((a, b) => a.order - b.order);
+  private createTableOfContents(
+    outline: OutlineEntry[],
+    textWidth: number,
+  ): Paragraph[] {
+    const entries = outline.flatMap((entry) => [
+      { entry, level: 1 },
+      ...entry.children.map((child) => ({ entry: child, level: 2 })),
+    ]);
 
-    return sortedSections.map(
-      (section, index) =>
+    // Each line links to its heading and shows the page it is on
+    return entries.map(
+      ({ entry, level }) =>
         new Paragraph({
-          text: `${index + 1}. ${section.name}`,
-          style: "normal",
-          spacing: {
-            after: 100,
-          },
-          indent: {
-            left: 360,
-          },
+          style: `TOC${level}`,
+          tabStops: [
+            {
+              type: TabStopType.RIGHT,
+              position: textWidth,
+              leader: LeaderType.DOT,
+            },
+          ],
+          children: [
+            new InternalHyperlink({
+              anchor: this.bookmarkId(entry),
+              children: [
+                new TextRun({
+                  children: [formatEntryTitle(entry), new Tab()],
+                }),
+                new PageReference(this.bookmarkId(entry)),
+              ],
+            }),
+          ],
         }),
     );
   }
 
-  private parseContent(content: string): Paragraph[] {
+  private createRuns(
+    text: string,
+    references: ExportReference[],
+    bold = false,
+  ): Array<TextRun | FootnoteReferenceRun> {
+    return splitCitations(text, references).map((segment) =>
+      segment.type === "text"
+        ? new TextRun({ text: segment.value, bold })
+        : new FootnoteReferenceRun(segment.marker),
+    );
+  }
+
+  private parseContent(
+    content: string,
+    references: ExportReference[] = [],
+    entry?: OutlineEntry,
+  ): Paragraph[] {
     const paragraphs: Paragraph[] = [];
-    const lines = content.split("\n\n").filter((p) => p.trim());
+    const blocks = content.split("\n\n").filter((p) => p.trim());
+    let headingIndex = 0;
+
+    for (const block of blocks) {
+      let line = block;
 
-    for (const line of lines) {
-      // Check if it's a heading (starts with #)
-      if (line.startsWith("#")) {
-        const level = /^#+/.exec(line)?.[0].length || 1;
-        const text = line.replace(/^#+\s*/, "");
+      // Check if it's a heading (starts with #), bookmarked like its
+      // outline entry; text on the following lines is a paragraph
+      const heading = parseHeading(block);
+      if (heading) {
+        const headingEntry = entry?.children[headingIndex++];
+        const title = new TextRun(heading.title);
 
         paragraphs.push(
           new Paragraph({
-            text,
             heading:
-              level === 1 ? HeadingLevel.HEADING_2 : HeadingLevel.HEADING_3,
+              heading.level === 1
+                ? HeadingLevel.HEADING_2
+                : HeadingLevel.HEADING_3,
+            children: [
+              headingEntry ? this.createBookmark(headingEntry, [title]) : title,
+            ],
           }),
         );
+
+        if (!heading.body) continue;
+        line = heading.body;
       }
+
       // Check if it's a list
-      else if (line.trim().startsWith("- ") || line.trim().startsWith("• ")) {
+      if (line.trim().startsWith("- ") || line.trim().startsWith("• ")) {
         const items = line.split("\n").filter((item) => item.trim());
 
         for (const item of items) {
           const text = item.replace(/^[-•]\s*/, "");
           paragraphs.push(
             new Paragraph({
-              text,
+              children: this.createRuns(text, references),
               style: "normal",
               numbering: {
                 reference: "bullet-list",
@@ -328,16 +566,12 @@ export class DocxExporter implements Exporter {
       }
       // Check if it's bold text
       else if (line.includes("**")) {
-        const runs: TextRun[] = [];
+        const runs: Array<TextRun | FootnoteReferenceRun> = [];
         const parts = line.split(/\*\*/);
 
         for (let i = 0; i < parts.length; i++) {
-          runs.push(
-            new TextRun({
-              text: parts[i],
-              bold: i % 2 === 1, // Odd indices are bold
-            }),
-          );
+          // Odd indices are bold
+          runs.push(...this.createRuns(parts[i] ?? "", references, i % 2 === 1));
         }
 
         paragraphs.push(
@@ -351,7 +585,7 @@ export class DocxExporter implements Exporter {
       else {
         paragraphs.push(
           new Paragraph({
-            text: line,
+            children: this.createRuns(line, references),
             style: "normal",
           }),
         );
@@ -1,6 +1,21 @@
 //src/lib/export/html-exporter.tsx
 
-import type { DocumentData, Exporter } from "./index";
+import type { DocumentData, Exporter, ExportReference } from "./index";
+import { getReferences, replaceCitations } from "./citations";
+import { formatExportDate, getTheme, getThemeText } from "./theme";
+import {
+  formatEntryTitle,
+  getOutline,
+  getSortedSections,
+  parseHeading,
+  REFERENCES_ANCHOR,
+  type OutlineEntry,
+} from "./outline";
+import {
+  EXPORT_THEME_FONTS,
+  fitLogo,
+  type ExportThemeLogo,
+} from "~/config/export-themes";
 
 /**
  * HTML Exporter Implementation
@@ -8,7 +23,11 @@ import type { DocumentData, Exporter } from "./index";
  */
 export class HtmlExporter implements Exporter {
   async export(data: DocumentData): Promise<Buffer> {
-    const sortedSections = [...data.sections].sort((a, b) => a.order - b.order);
+    const sortedSections = getSortedSections(data);
+    const outline = getOutline(data);
+    const references = getReferences(data);
+    const theme = getTheme(data);
+    const themeText = getThemeText(data);
 
     const html = `<!DOCTYPE html>
 <html lang="en">
@@ -17,10 +36,20 @@ export class HtmlExporter implements Exporter {
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>${this.escapeHtml(data.title)}</title>
     <style>
+        :root {
+            --primary: ${theme.primaryColor};
+            --text: ${theme.textColor};
+            --accent: ${theme.accentColor};
+            --heading-font: ${EXPORT_THEME_FONTS[theme.headingFont].css};
+            --body-font: ${EXPORT_THEME_FONTS[theme.bodyFont].css};
+        }
+        @page {
+            margin: ${theme.marginMm}mm;
+        }
         body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            font-family: var(--body-font);
             line-height: 1.6;
-            color: #333;
+            color: var(--text);
             max-width: 800px;
             margin: 0 auto;
             padding: 40px 20px;
@@ -32,14 +61,16 @@ export class HtmlExporter implements Exporter {
             border-radius: 8px;
             box-shadow: 0 2px 4px rgba(0,0,0,0.1);
         }
+        h1, h2, h3 {
+            font-family: var(--heading-font);
+            color: var(--primary);
+        }
         h1 {
-            color: #2c3e50;
-            border-bottom: 3px solid #3498db;
+            border-bottom: 3px solid var(--primary);
             padding-bottom: 10px;
             margin-bottom: 30px;
         }
         h2 {
-            color: #34495e;
             margin-top: 30px;
             margin-bottom: 15px;
         }
@@ -51,7 +82,17 @@ export class HtmlExporter implements Exporter {
             font-size: 0.9em;
         }
         .metadata strong {
-            color: #2c3e50;
+            color: var(--primary);
+        }
+        .logo {
+            display: block;
+            margin-bottom: 20px;
+        }
+        .running-header {
+            margin-bottom: 20px;
+            font-size: 0.85em;
+            color: #666;
+            text-align: right;
         }
         .toc {
             background-color: #f8f9fa;
@@ -62,12 +103,17 @@ export class HtmlExporter implements Exporter {
         .toc h2 {
             margin-top: 0;
         }
-        .toc ol {
+        .toc ul {
             margin: 0;
+            padding-left: 0;
+            list-style: none;
+        }
+        .toc ul ul {
             padding-left: 20px;
+            font-size: 0.95em;
         }
         .toc a {
-            color: #3498db;
+            color: var(--accent);
             text-decoration: none;
         }
         .toc a:hover {
@@ -86,6 +132,17 @@ export class HtmlExporter implements Exporter {
             margin-bottom: 15px;
             padding-left: 30px;
         }
+        .citation a {
+            color: var(--accent);
+            text-decoration: none;
+        }
+        .references {
+            margin-top: 40px;
+            font-size: 0.9em;
+        }
+        .references .excerpt {
+            color: #666;
+        }
         .footer {
             margin-top: 50px;
             padding-top: 20px;
@@ -105,7 +162,7 @@ export class HtmlExporter implements Exporter {
             .section {
                 page-break-inside: avoid;
             }
-            h2 {
+            h2, h3 {
                 page-break-after: avoid;
             }
         }
@@ -113,44 +170,26 @@ export class HtmlExporter implements Exporter {
 </head>
 <body>
     <div class="container">
+        ${themeText.header ? `<div class="running-header">${this.escapeHtml(themeText.header)}</div>` : ""}
+        ${theme.logo ? this.formatLogo(theme.logo) : ""}
         <h1>${this.escapeHtml(data.title)}</h1>
-        
-        <div class="metadata">
-            <strong>Document Type:</strong> ${this.escapeHtml(data.type)}<br>
-            <strong>Created:</strong> ${this.formatDate(data.metadata.createdAt)}<br>
-            ${data.metadata.completedAt ? `<strong>Completed:</strong> ${this.formatDate(data.metadata.completedAt)}<br>` : ""}
-            <strong>Word Count:</strong> ${data.metadata.wordCount.toLocaleString()}<br>
-            ${data.metadata.author ? `<strong>Author:</strong> ${this.escapeHtml(data.metadata.author)}` : ""}
-        </div>
-        
-        <div class="toc">
-            <h2>Table of Contents</h2>
-            <ol>
-                ${sortedSections
-                  .map(
-                    (section) =>
-                      `<li><a href="#section-${section.order}">${this.escapeHtml(
-                        section.name,
-                      )}</a></li>`,
-                  )
-                  .join("\n                ")}
-            </ol>
-        </div>
-        
+        ${theme.coverPage ? this.formatMetadata(data) : ""}
+        ${this.formatTableOfContents(outline)}
         ${sortedSections
-          .map(
-            (section, index) => `
-        <div class="section" id="section-${section.order}">
-            <h2>${index + 1}. ${this.escapeHtml(section.name)}</h2>
+          .map((section, index) => {
+            const entry = outline[index]!;
+            return `
+        <div class="section" id="${entry.id}">
+            <h2>${this.escapeHtml(formatEntryTitle(entry))}</h2>
             <div class="section-content">
-                ${this.formatContent(section.content)}
+                ${this.formatContent(section.content, references, entry)}
             </div>
-        </div>`,
-          )
+        </div>`;
+          })
           .join("\n")}
-        
+        ${this.formatReferences(references)}
         <div class="footer">
-            Generated by DocuForge on ${this.formatDate(new Date())}
+            ${themeText.footer ? this.escapeHtml(themeText.footer) : `Generated by DocuForge on ${formatExportDate(new Date())}`}
         </div>
     </div>
 </body>
@@ -178,46 +217,93 @@ export class HtmlExporter implements Exporter {
     return text.replace(/[&<>"']/g, (match) => htmlEntities[match] || match);
   }
 
-  private formatDate(date: Date): string {
-    return new Date(date).toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
+  private formatLogo(logo: ExportThemeLogo): string {
+    const { width, height } = fitLogo(logo, 200, 64);
+    return `<img class="logo" src="${logo.dataUrl}" alt="" width="${width}" height="${height}">`;
   }
 
-  private formatContent(content: string): string {
-    // Escape HTML first
-    let formatted = this.escapeHtml(content);
+  // Metadata shown below the title
+  private formatMetadata(data: DocumentData): string {
+    return `<div class="metadata">
+            <strong>Document Type:</strong> ${this.escapeHtml(data.type)}<br>
+            <strong>Created:</strong> ${formatExportDate(data.metadata.createdAt)}<br>
+            ${data.metadata.completedAt ? `<strong>Completed:</strong> ${formatExportDate(data.metadata.completedAt)}<br>` : ""}
+            <strong>Word Count:</strong> ${data.metadata.wordCount.toLocaleString()}<br>
+            ${data.metadata.author ? `<strong>Author:</strong> ${this.escapeHtml(data.metadata.author)}` : ""}
+        </div>`;
+  }
+
+  // Nested list of links to the sections and their headings
+  private formatTableOfContents(outline: OutlineEntry[]): string {
+    const formatEntries = (entries: OutlineEntry[], indent: string): string =>
+      entries
+        .map((entry) => {
+          const link = `<a href="#${entry.id}">${this.escapeHtml(formatEntryTitle(entry))}</a>`;
+          return entry.children.length > 0
+            ? `${indent}<li>${link}\n${indent}    <ul>\n${formatEntries(entry.children, `${indent}        `)}\n${indent}    </ul>\n${indent}</li>`
+            : `${indent}<li>${link}</li>`;
+        })
+        .join("\n");
+
+    return `<nav class="toc">
+            <h2>Table of Contents</h2>
+            <ul>
+${formatEntries(outline, "                ")}
+            </ul>
+        </nav>`;
+  }
+
+  private formatReferences(references: ExportReference[]): string {
+    if (references.length === 0) return "";
+
+    return `
+        <div class="references" id="${REFERENCES_ANCHOR}">
+            <h2>References</h2>
+            <ol>
+                ${references
+                  .map(
+                    (reference) =>
+                      `<li id="ref-${reference.marker}" value="${reference.marker}"><strong>${this.escapeHtml(
+                        reference.sourceName,
+                      )}</strong><br><span class="excerpt">${this.escapeHtml(reference.excerpt)}</span></li>`,
+                  )
+                  .join("\n                ")}
+            </ol>
+        </div>
+        `;
+  }
+
+  private formatContent(
+    content: string,
+    references: ExportReference[] = [],
+    entry?: OutlineEntry,
+  ): string {
+    // Escape HTML first, then link citation markers to the references list
+    let formatted = replaceCitations(
+      this.escapeHtml(content),
+      references,
+      (marker) =>
+        `<sup class="citation"><a href="#ref-${marker}">[${marker}]</a></sup>`,
+    );
 
     // Convert line breaks to paragraphs
     const paragraphs = formatted.split("\n\n").filter((p) => p.trim());
+    let headingIndex = 0;
 
     formatted = paragraphs
       .map((paragraph) => {
-        // Check if it's a list
-        if (
-          paragraph.trim().startsWith("- ") ||
-          paragraph.trim().startsWith("• ")
-        ) {
-          const items = paragraph
-            .split("\n")
-            .filter((item) => item.trim())
-            .map((item) => item.replace(/^[-•]\s*/, ""));
-          return `<ul>\n${items.map((item) => `    <li>${item}</li>`).join("\n")}\n</ul>`;
-        }
-
-        // Check for numbered list
-        if (/^\d+\.\s/.test(paragraph.trim())) {
-          const items = paragraph
-            .split("\n")
-            .filter((item) => item.trim())
-            .map((item) => item.replace(/^\d+\.\s*/, ""));
-          return `<ol>\n${items.map((item) => `    <li>${item}</li>`).join("\n")}\n</ol>`;
-        }
-
-        // Regular paragraph
-        return `<p>${paragraph.replace(/\n/g, "<br>")}</p>`;
+        // Headings are anchored so the table of contents can link to them
+        const heading = parseHeading(paragraph);
+        if (heading) {
+          const headingEntry = entry?.children[headingIndex++];
+          const id = headingEntry ? ` id="${headingEntry.id}"` : "";
+          const title = `<h3${id}>${heading.title}</h3>`;
+          return heading.body
+            ? `${title}\n${this.formatBlock(heading.body)}`
+            : title;
+        }
+
+        return this.formatBlock(paragraph);
       })
       .join("\n");
 
@@ -227,4 +313,31 @@ export class HtmlExporter implements Exporter {
 
     return formatted;
   }
+
+  // A list or paragraph of already escaped text
+  private formatBlock(paragraph: string): string {
+    // Check if it's a list
+    if (
+      paragraph.trim().startsWith("- ") ||
+      paragraph.trim().startsWith("• ")
+    ) {
+      const items = paragraph
+        .split("\n")
+        .filter((item) => item.trim())
+        .map((item) => item.replace(/^[-•]\s*/, ""));
+      return `<ul>\n${items.map((item) => `    <li>${item}</li>`).join("\n")}\n</ul>`;
+    }
+
+    // Check for numbered list
+    if (/^\d+\.\s/.test(paragraph.trim())) {
+      const items = paragraph
+        .split("\n")
+        .filter((item) => item.trim())
+        .map((item) => item.replace(/^\d+\.\s*/, ""));
+      return `<ol>\n${items.map((item) => `    <li>${item}</li>`).join("\n")}\n</ol>`;
+    }
+
+    // Regular paragraph
+    return `<p>${paragraph.replace(/\n/g, "<br>")}</p>`;
+  }
 }
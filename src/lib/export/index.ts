@@ -1,15 +1,23 @@
 //src/lib/export/index.ts
 
-import { type Document as PrismaDocument, ExportFormat, DocumentType } from "@prisma/client";
+import {
+  type Document as PrismaDocument,
+  type CustomDocumentType,
+  ExportFormat,
+  DocumentType,
+} from "@prisma/client";
 import { DocxExporter } from "./docx-exporter";
 import { MarkdownExporter } from "./markdown-exporter";
 import { PDFExporter } from "./pdf-exporter";
 import { HtmlExporter } from "./html-exporter";
 import { TxtExporter } from "./txt-exporter";
 import { getDocumentConfig } from "~/config/documents";
-import { writeFile, mkdir } from "fs/promises";
-import { join } from "path";
-import { env } from "~/env";
+import { parseCitations } from "~/server/services/document/citations";
+import {
+  StorageManager,
+  type StorageBackend,
+} from "~/server/services/storage";
+import type { ExportThemeSettings } from "~/config/export-themes";
 
 // Export result type
 export interface ExportResult {
@@ -17,6 +25,16 @@ export interface ExportResult {
   buffer: Buffer;
   filename: string;
   mimeType: string;
+  // Set when the file was saved
+  storageKey?: string;
+  storageProvider?: StorageBackend;
+}
+
+// Knowledge-base source cited inline as [marker]
+export interface ExportReference {
+  marker: number;
+  sourceName: string;
+  excerpt: string;
 }
 
 // Document data for export
@@ -29,12 +47,16 @@ export interface DocumentData {
     content: string;
     order: number;
   }>;
+  // Sources cited by the sections, rendered as footnotes or a references list
+  references?: ExportReference[];
   metadata: {
     createdAt: Date;
     completedAt?: Date;
     wordCount: number;
     author?: string;
   };
+  // Branding for PDF, DOCX and HTML; the default theme when unset
+  theme?: ExportThemeSettings;
 }
 
 // Exporter interface
@@ -81,15 +103,36 @@ class ExporterRegistry {
 // Global registry instance
 const exporterRegistry = new ExporterRegistry();
 
+// Name and export formats of a built-in or custom document type
+function getExportConfig(
+  documentType: DocumentType,
+  customType?: Pick<CustomDocumentType, "name" | "exportFormats"> | null,
+): { name: string; exportFormats?: readonly string[] } | undefined {
+  if (customType) {
+    return {
+      name: customType.name,
+      exportFormats: customType.exportFormats.map((format: string) => format.toLowerCase()),
+    };
+  }
+
+  return getDocumentConfig(documentType);
+}
+
 /**
  * Export a document to the specified format
  */
 export async function exportDocument(
-  document: PrismaDocument & { exports?: any[] },
+  document: PrismaDocument & {
+    exports?: any[];
+    customType?: CustomDocumentType | null;
+  },
   format: ExportFormat,
   options?: {
     author?: string;
     saveToFile?: boolean;
+    // Backend the file is saved to, local by default
+    storage?: StorageBackend;
+    theme?: ExportThemeSettings;
   },
 ): Promise<ExportResult> {
   // Validate format is supported
@@ -103,30 +146,44 @@ export async function exportDocument(
   }
 
   // Get document configuration
-  const config = getDocumentConfig(document.type);
+  const config = getExportConfig(document.type, document.customType);
   if (!config) {
     throw new Error(`Unknown document type: ${document.type}`);
   }
 
   // Check if config has exportFormats property and validate
-  const supportedFormats = (config as any).exportFormats as readonly string[] | undefined;
+  const supportedFormats = config.exportFormats;
   if (supportedFormats && !supportedFormats.includes(format.toLowerCase())) {
     throw new Error(
       `Export format ${format} is not supported for ${config.name} documents`,
     );
   }
 
+  // Only list sources that the exported text actually cites
+  const citations = parseCitations(document.citations);
+  const citedMarkers = new Set(
+    Object.values(citations?.sections ?? {}).flat(),
+  );
+
   // Prepare document data
   const documentData: DocumentData = {
     title: document.title,
     type: config.name,
     sections: document.sections as any[],
+    references: citations?.sources
+      .filter((source) => citedMarkers.has(source.marker))
+      .map((source) => ({
+        marker: source.marker,
+        sourceName: source.sourceName,
+        excerpt: source.excerpt,
+      })),
     metadata: {
       createdAt: document.createdAt,
       completedAt: document.completedAt || undefined,
       wordCount: document.wordCount,
       author: options?.author,
     },
+    theme: options?.theme,
   };
 
   // Get exporter and generate file
@@ -141,23 +198,16 @@ export async function exportDocument(
   const filename = `${safeTitle}_${timestamp}.${exporter.getFileExtension()}`;
 
   // Save to file if requested
-  if (options?.saveToFile) {
-    const exportDir = join(
-      process.cwd(),
-      env.UPLOAD_DIR,
-      "exports",
-      document.userId,
-    );
-    await mkdir(exportDir, { recursive: true });
-    const filePath = join(exportDir, filename);
-    await writeFile(filePath, buffer);
-  }
+  const saved = options?.saveToFile
+    ? await saveExport(buffer, document.userId, filename, options.storage)
+    : undefined;
 
   return {
     format,
     buffer,
     filename,
     mimeType: exporter.getMimeType(),
+    ...saved,
   };
 }
 
@@ -169,6 +219,10 @@ export async function exportMultipleDocuments(
   format: ExportFormat,
   options?: {
     author?: string;
+    // Base of the zip filename, e.g. a batch name
+    name?: string;
+    saveToFile?: boolean;
+    storage?: StorageBackend;
   },
 ): Promise<ExportResult> {
   // Import archiver dynamically to avoid loading if not needed
@@ -190,7 +244,9 @@ export async function exportMultipleDocuments(
   // Export each document
   for (const document of documents) {
     try {
-      const result = await exportDocument(document, format, options);
+      const result = await exportDocument(document, format, {
+        author: options?.author,
+      });
       archive.append(result.buffer, { name: result.filename });
     } catch (error) {
       console.error(`Failed to export document ${document.id}:`, error);
@@ -204,29 +260,59 @@ export async function exportMultipleDocuments(
 
   const buffer = Buffer.concat(buffers);
   const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  const filename = `documents_export_${timestamp}.zip`;
+  const baseName = options?.name
+    ? options.name.replace(/[^a-zA-Z0-9]/g, "_").substring(0, 50)
+    : "documents_export";
+  const filename = `${baseName}_${timestamp}.zip`;
+
+  // Saved next to single-document exports of the same user
+  const saved = options?.saveToFile && documents[0]
+    ? await saveExport(buffer, documents[0].userId, filename, options.storage)
+    : undefined;
 
   return {
     format,
     buffer,
     filename,
     mimeType: "application/zip",
+    ...saved,
   };
 }
 
+async function saveExport(
+  buffer: Buffer,
+  userId: string,
+  filename: string,
+  storage: StorageBackend = "local",
+): Promise<Pick<ExportResult, "storageKey" | "storageProvider">> {
+  const storageKey = await StorageManager.getProvider(storage).upload(
+    buffer,
+    `exports/${userId}/${filename}`,
+  );
+  return { storageKey, storageProvider: storage };
+}
+
+/**
+ * MIME type of files exported in a format
+ */
+export function getExportMimeType(format: ExportFormat): string {
+  return exporterRegistry.get(format).getMimeType();
+}
+
 /**
  * Get available export formats for a document type
  */
 export function getAvailableExportFormats(
-  documentType: DocumentType
+  documentType: DocumentType,
+  customType?: Pick<CustomDocumentType, "name" | "exportFormats"> | null,
 ): ExportFormat[] {
-  const config = getDocumentConfig(documentType);
+  const config = getExportConfig(documentType, customType);
   if (!config) {
     return [];
   }
 
   // Check if config has exportFormats
-  const exportFormats = (config as any).exportFormats as readonly string[] | undefined;
+  const exportFormats = config.exportFormats;
   if (!exportFormats) {
     // Default to all formats if not specified
     return exporterRegistry.getSupportedFormats();
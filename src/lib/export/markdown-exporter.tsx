@@ -1,6 +1,15 @@
 //src/lib/export/markdown-exporter.tsx
 
 import type { DocumentData, Exporter } from "./index";
+import { getReferences, replaceCitations } from "./citations";
+import {
+  formatEntryTitle,
+  getOutline,
+  getSortedSections,
+  parseHeading,
+  REFERENCES_ANCHOR,
+  type OutlineEntry,
+} from "./outline";
 
 /**
  * Markdown Exporter Implementation
@@ -28,23 +37,40 @@ export class MarkdownExporter implements Exporter {
     }
     markdown += `\n---\n\n`;
 
-    // Table of Contents
+    // Table of Contents, linking to anchors placed before each heading
     markdown += `## Table of Contents\n\n`;
-    const sortedSections = [...data.sections].sort((a, b) => a.order - b.order);
-    sortedSections.forEach((section, index) => {
-      const anchor = this.createAnchor(section.name);
-      markdown += `${index + 1}. [${section.name}](#${anchor})\n`;
+    const sortedSections = getSortedSections(data);
+    const outline = getOutline(data);
+    outline.forEach((entry) => {
+      markdown += `- [${formatEntryTitle(entry)}](#${entry.id})\n`;
+      entry.children.forEach((child) => {
+        markdown += `  - [${child.title}](#${child.id})\n`;
+      });
     });
     markdown += `\n---\n\n`;
 
-    // Content sections
+    // Content sections, with citation markers as footnote references
+    const references = getReferences(data);
     sortedSections.forEach((section, index) => {
-      const anchor = this.createAnchor(section.name);
-      markdown += `## ${index + 1}. ${section.name} {#${anchor}}\n\n`;
-      markdown += this.processContent(section.content);
+      const entry = outline[index]!;
+      markdown += `${this.anchor(entry.id)}## ${formatEntryTitle(entry)}\n\n`;
+      markdown += replaceCitations(
+        this.processContent(section.content, entry),
+        references,
+        (marker) => `[^${marker}]`,
+      );
       markdown += `\n\n`;
     });
 
+    // Footnote definitions for cited sources
+    if (references.length > 0) {
+      markdown += `${this.anchor(REFERENCES_ANCHOR)}## References\n\n`;
+      references.forEach((reference) => {
+        const excerpt = reference.excerpt.replace(/\s+/g, " ").trim();
+        markdown += `[^${reference.marker}]: **${reference.sourceName}** — ${excerpt}\n\n`;
+      });
+    }
+
     // Footer
     markdown += `---\n\n`;
     markdown += `*Generated by DocuForge on ${this.formatDate(new Date())}*\n`;
@@ -71,18 +97,30 @@ export class MarkdownExporter implements Exporter {
     });
   }
 
-  private createAnchor(text: string): string {
-    return text
-      .toLowerCase()
-      .replace(/[^a-z0-9\s-]/g, "")
-      .replace(/\s+/g, "-")
-      .replace(/-+/g, "-")
-      .trim();
+  // Explicit anchors, since renderers derive heading ids differently
+  private anchor(id: string): string {
+    return `<a id="${id}"></a>\n\n`;
   }
 
-  private processContent(content: string): string {
-    // Process the content to ensure proper markdown formatting
-    let processed = content;
+  private processContent(content: string, entry?: OutlineEntry): string {
+    // Anchor the section's headings and nest them below its own heading
+    let headingIndex = 0;
+    let processed = content
+      .split("\n\n")
+      .map((paragraph) => {
+        const heading = parseHeading(paragraph);
+        if (!heading) return paragraph;
+
+        const headingEntry = entry?.children[headingIndex++];
+        const title = `### ${heading.title}`;
+        return [
+          headingEntry ? this.anchor(headingEntry.id) + title : title,
+          heading.body,
+        ]
+          .filter(Boolean)
+          .join("\n\n");
+      })
+      .join("\n\n");
 
     // Ensure proper paragraph spacing
     processed = processed.replace(/\n(?!\n)/g, "  \n");
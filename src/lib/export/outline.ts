@@ -0,0 +1,92 @@
+//src/lib/export/outline.ts
+
+import type { DocumentData } from "./index";
+import { getReferences } from "./citations";
+
+// Entry of the table of contents, bookmarks and navigation pane. Sections
+// are numbered in DocumentData.sections order; headings written inside a
+// section's content become its children.
+export interface OutlineEntry {
+  // Anchor, bookmark and link target, e.g. "section-2" or "section-2-1"
+  id: string;
+  title: string;
+  // Section number shown before the title; unset for sub-headings and
+  // the references
+  number?: number;
+  children: OutlineEntry[];
+}
+
+export interface ContentHeading {
+  // Number of leading #s
+  level: number;
+  title: string;
+  // Lines following the heading in the same paragraph
+  body: string;
+}
+
+export const REFERENCES_ANCHOR = "references";
+
+/**
+ * Heading at the start of a content paragraph, e.g. "## Market\nText..."
+ */
+export function parseHeading(paragraph: string): ContentHeading | null {
+  const [firstLine = "", ...rest] = paragraph.trim().split("\n");
+  const match = /^(#{1,6})\s*(.+)$/.exec(firstLine);
+  if (!match) return null;
+
+  return {
+    level: match[1]!.length,
+    title: match[2]!.trim(),
+    body: rest.join("\n").trim(),
+  };
+}
+
+/**
+ * Sections in the order they are exported
+ */
+export function getSortedSections(data: DocumentData) {
+  return [...data.sections].sort((a, b) => a.order - b.order);
+}
+
+export function sectionAnchor(order: number): string {
+  return `section-${order}`;
+}
+
+/**
+ * Outline of the document: its sections, their headings and the references
+ */
+export function getOutline(data: DocumentData): OutlineEntry[] {
+  const outline: OutlineEntry[] = getSortedSections(data).map(
+    (section, index) => {
+      const id = sectionAnchor(section.order);
+      const headings = section.content
+        .split("\n\n")
+        .map(parseHeading)
+        .filter((heading): heading is ContentHeading => heading !== null);
+
+      return {
+        id,
+        title: section.name,
+        number: index + 1,
+        children: headings.map((heading, headingIndex) => ({
+          id: `${id}-${headingIndex + 1}`,
+          title: heading.title,
+          children: [],
+        })),
+      };
+    },
+  );
+
+  if (getReferences(data).length > 0) {
+    outline.push({ id: REFERENCES_ANCHOR, title: "References", children: [] });
+  }
+
+  return outline;
+}
+
+/**
+ * Title of an entry as shown in headings and the table of contents
+ */
+export function formatEntryTitle(entry: OutlineEntry): string {
+  return entry.number ? `${entry.number}. ${entry.title}` : entry.title;
+}
@@ -6,12 +6,34 @@ import {
   Page,
   Text,
   View,
+  Image,
+  Link,
   StyleSheet,
   PDFViewer,
   Font,
   pdf,
 } from "@react-pdf/renderer";
 import type { DocumentData, Exporter } from "./index";
+import { getReferences, splitCitations } from "./citations";
+import {
+  formatEntryTitle,
+  getOutline,
+  getSortedSections,
+  parseHeading,
+  REFERENCES_ANCHOR,
+  type OutlineEntry,
+} from "./outline";
+import {
+  formatExportDate,
+  getTheme,
+  getThemeText,
+  mmToPoints,
+} from "./theme";
+import {
+  EXPORT_THEME_FONTS,
+  fitLogo,
+  type ExportThemeSettings,
+} from "~/config/export-themes";
 
 // Register fonts (optional - for better typography)
 // Font.register({
@@ -19,191 +41,380 @@ import type { DocumentData, Exporter } from "./index";
 //   src: "/fonts/Inter-Regular.ttf",
 // });
 
-// Create styles
-const styles = StyleSheet.create({
-  page: {
-    flexDirection: "column",
-    backgroundColor: "#FFFFFF",
-    padding: 60,
-    fontFamily: "Helvetica",
-  },
-  header: {
-    marginBottom: 30,
-    borderBottom: "2pt solid #000000",
-    paddingBottom: 10,
-  },
-  title: {
-    fontSize: 24,
-    fontWeight: "bold",
-    marginBottom: 5,
-  },
-  subtitle: {
-    fontSize: 12,
-    color: "#666666",
-  },
-  metadata: {
-    fontSize: 10,
-    color: "#666666",
-    marginBottom: 20,
-  },
-  section: {
-    marginBottom: 20,
-  },
-  sectionTitle: {
-    fontSize: 16,
-    fontWeight: "bold",
-    marginBottom: 10,
-    marginTop: 10,
-  },
-  sectionContent: {
-    fontSize: 11,
-    lineHeight: 1.6,
-    textAlign: "justify",
-  },
-  paragraph: {
-    marginBottom: 10,
-  },
-  footer: {
-    position: "absolute",
-    bottom: 30,
-    left: 60,
-    right: 60,
-    fontSize: 10,
-    textAlign: "center",
-    color: "#666666",
-  },
-  pageNumber: {
-    fontSize: 10,
-    textAlign: "center",
-  },
-  toc: {
-    marginBottom: 30,
-  },
-  tocTitle: {
-    fontSize: 18,
-    fontWeight: "bold",
-    marginBottom: 15,
-  },
-  tocItem: {
-    fontSize: 11,
-    marginBottom: 5,
-    marginLeft: 20,
-  },
-  list: {
-    marginLeft: 20,
-    marginBottom: 10,
-  },
-  listItem: {
-    fontSize: 11,
-    lineHeight: 1.6,
-    marginBottom: 5,
-  },
+// Styles for a theme; sizes are fixed, fonts, colours and margins themed
+const createStyles = (theme: ExportThemeSettings) => {
+  const margin = mmToPoints(theme.marginMm);
+
+  return StyleSheet.create({
+    page: {
+      flexDirection: "column",
+      backgroundColor: "#FFFFFF",
+      padding: margin,
+      fontFamily: EXPORT_THEME_FONTS[theme.bodyFont].pdf,
+      color: theme.textColor,
+    },
+    logo: {
+      marginBottom: 20,
+      objectFit: "contain",
+    },
+    header: {
+      marginBottom: 30,
+      borderBottom: `2pt solid ${theme.primaryColor}`,
+      paddingBottom: 10,
+    },
+    title: {
+      fontSize: 24,
+      fontFamily: EXPORT_THEME_FONTS[theme.headingFont].pdf,
+      fontWeight: "bold",
+      color: theme.primaryColor,
+      marginBottom: 5,
+    },
+    subtitle: {
+      fontSize: 12,
+      color: "#666666",
+    },
+    metadata: {
+      fontSize: 10,
+      color: "#666666",
+      marginBottom: 20,
+    },
+    section: {
+      marginBottom: 20,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontFamily: EXPORT_THEME_FONTS[theme.headingFont].pdf,
+      fontWeight: "bold",
+      color: theme.primaryColor,
+      marginBottom: 10,
+      marginTop: 10,
+    },
+    sectionContent: {
+      fontSize: 11,
+      lineHeight: 1.6,
+      textAlign: "justify",
+    },
+    paragraph: {
+      marginBottom: 10,
+    },
+    runningHeader: {
+      position: "absolute",
+      top: margin / 2,
+      left: margin,
+      right: margin,
+      fontSize: 9,
+      textAlign: "right",
+      color: "#666666",
+    },
+    footer: {
+      position: "absolute",
+      bottom: margin / 2,
+      left: margin,
+      right: margin,
+      flexDirection: "row",
+      justifyContent: "space-between",
+      fontSize: 9,
+      color: "#666666",
+    },
+    toc: {
+      marginBottom: 30,
+    },
+    tocTitle: {
+      fontSize: 18,
+      fontFamily: EXPORT_THEME_FONTS[theme.headingFont].pdf,
+      fontWeight: "bold",
+      color: theme.primaryColor,
+      marginBottom: 15,
+    },
+    tocItem: {
+      flexDirection: "row",
+      fontSize: 11,
+      marginBottom: 5,
+      marginLeft: 20,
+      color: theme.textColor,
+      textDecoration: "none",
+    },
+    tocSubItem: {
+      fontSize: 10,
+      marginLeft: 40,
+    },
+    tocEntryTitle: {
+      flex: 1,
+      marginRight: 10,
+    },
+    tocPage: {
+      width: 30,
+      textAlign: "right",
+    },
+    subheading: {
+      fontSize: 13,
+      fontFamily: EXPORT_THEME_FONTS[theme.headingFont].pdf,
+      fontWeight: "bold",
+      color: theme.primaryColor,
+      marginTop: 6,
+      marginBottom: 8,
+    },
+    list: {
+      marginLeft: 20,
+      marginBottom: 10,
+    },
+    listItem: {
+      fontSize: 11,
+      lineHeight: 1.6,
+      marginBottom: 5,
+    },
+    citation: {
+      fontSize: 8,
+      color: theme.accentColor,
+    },
+    reference: {
+      fontSize: 10,
+      marginBottom: 8,
+    },
+    referenceExcerpt: {
+      color: "#666666",
+    },
+  });
+};
+
+// Entry in the PDF's outline. The renderer supports bookmarks on any node,
+// but its typings only declare them on Page, so they're spread in.
+const bookmarkProps = (title: string): object => ({
+  bookmark: { title, fit: true },
 });
 
+interface PDFDocumentProps {
+  data: DocumentData;
+  // Page each outline entry starts on, for the table of contents
+  pageRefs?: ReadonlyMap<string, number>;
+  // Called with the page each outline entry lands on during layout
+  onEntryPage?: (id: string, pageNumber: number) => void;
+}
+
 // PDF Document Component
-const PDFDocument: React.FC<{ data: DocumentData }> = ({ data }) => {
-  // Sort sections by order
-  const sortedSections = [...data.sections].sort((a, b) => a.order - b.order);
-
-  // Format date
-  const formatDate = (date: Date) => {
-    return new Date(date).toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
+const PDFDocument: React.FC<PDFDocumentProps> = ({
+  data,
+  pageRefs,
+  onEntryPage,
+}) => {
+  const sortedSections = getSortedSections(data);
+  const outline = getOutline(data);
+  const references = getReferences(data);
+  const theme = getTheme(data);
+  const themeText = getThemeText(data);
+  const styles = createStyles(theme);
+
+  // Empty marker placed after a heading that reports the page it lands on
+  const pageMarker = (entry: OutlineEntry) => (
+    <View
+      render={({ pageNumber }) => {
+        onEntryPage?.(entry.id, pageNumber);
+        return null;
+      }}
+    />
+  );
+
+  // Render citation markers in a smaller, highlighted style
+  const renderText = (text: string) =>
+    splitCitations(text, references).map((segment, index) =>
+      segment.type === "text" ? (
+        segment.value
+      ) : (
+        <Text key={index} style={styles.citation}>
+          [{segment.marker}]
+        </Text>
+      ),
+    );
+
+  // Paragraph text with lists rendered as bullets
+  const renderParagraph = (paragraph: string, key: React.Key) => {
+    // Check if it's a list
+    if (
+      paragraph.trim().startsWith("- ") ||
+      paragraph.trim().startsWith("• ")
+    ) {
+      const items = paragraph.split("\n").filter((item) => item.trim());
+      return (
+        <View key={key} style={styles.list}>
+          {items.map((item, itemIndex) => (
+            <Text key={itemIndex} style={styles.listItem}>
+              • {renderText(item.replace(/^[-•]\s*/, ""))}
+            </Text>
+          ))}
+        </View>
+      );
+    }
+
+    // Regular paragraph
+    return (
+      <Text key={key} style={styles.paragraph}>
+        {renderText(paragraph)}
+      </Text>
+    );
   };
 
-  // Parse content and handle formatting
-  const renderContent = (content: string) => {
+  // Parse content and handle formatting; headings get their outline entry's
+  // anchor and bookmark
+  const renderContent = (content: string, entry: OutlineEntry) => {
     // Split content into paragraphs
     const paragraphs = content.split("\n\n").filter((p) => p.trim());
+    let headingIndex = 0;
 
     return paragraphs.map((paragraph, index) => {
-      // Check if it's a list
-      if (
-        paragraph.trim().startsWith("- ") ||
-        paragraph.trim().startsWith("• ")
-      ) {
-        const items = paragraph.split("\n").filter((item) => item.trim());
-        return (
-          <View key={index} style={styles.list}>
-            {items.map((item, itemIndex) => (
-              <Text key={itemIndex} style={styles.listItem}>
-                • {item.replace(/^[-•]\s*/, "")}
-              </Text>
-            ))}
-          </View>
-        );
+      const heading = parseHeading(paragraph);
+      const headingEntry = heading && entry.children[headingIndex++];
+      if (!heading || !headingEntry) {
+        return renderParagraph(paragraph, index);
       }
 
-      // Regular paragraph
       return (
-        <Text key={index} style={styles.paragraph}>
-          {paragraph}
-        </Text>
+        <View key={index}>
+          <Text
+            id={headingEntry.id}
+            {...bookmarkProps(heading.title)}
+            style={styles.subheading}
+            minPresenceAhead={40}
+          >
+            {heading.title}
+          </Text>
+          {pageMarker(headingEntry)}
+          {heading.body && renderParagraph(heading.body, "body")}
+        </View>
       );
     });
   };
 
-  return (
-    <Document>
-      {/* First Page with Title and TOC */}
-      <Page size="A4" style={styles.page}>
-        <View style={styles.header}>
-          <Text style={styles.title}>{data.title}</Text>
-          <Text style={styles.subtitle}>{data.type}</Text>
-        </View>
+  const renderTocEntry = (entry: OutlineEntry, nested = false) => (
+    <Link
+      key={entry.id}
+      src={`#${entry.id}`}
+      style={nested ? [styles.tocItem, styles.tocSubItem] : styles.tocItem}
+    >
+      <Text style={styles.tocEntryTitle}>{formatEntryTitle(entry)}</Text>
+      <Text style={styles.tocPage}>{pageRefs?.get(entry.id) ?? ""}</Text>
+    </Link>
+  );
+
+  const titleBlock = (
+    <>
+      {theme.logo && (
+        // react-pdf images have no alt text
+        // eslint-disable-next-line jsx-a11y/alt-text
+        <Image
+          src={theme.logo.dataUrl}
+          style={[styles.logo, fitLogo(theme.logo, 160, 48)]}
+        />
+      )}
+      <View style={styles.header}>
+        <Text style={styles.title}>{data.title}</Text>
+        <Text style={styles.subtitle}>{data.type}</Text>
+      </View>
 
-        <View style={styles.metadata}>
-          <Text>Created: {formatDate(data.metadata.createdAt)}</Text>
-          {data.metadata.completedAt && (
-            <Text>Completed: {formatDate(data.metadata.completedAt)}</Text>
+      <View style={styles.metadata}>
+        <Text>Created: {formatExportDate(data.metadata.createdAt)}</Text>
+        {data.metadata.completedAt && (
+          <Text>Completed: {formatExportDate(data.metadata.completedAt)}</Text>
+        )}
+        <Text>Word Count: {data.metadata.wordCount.toLocaleString()}</Text>
+        {data.metadata.author && <Text>Author: {data.metadata.author}</Text>}
+      </View>
+    </>
+  );
+
+  // Running header and footer of the content pages, repeated on every page
+  const pageChrome = (
+    <>
+      {themeText.header && (
+        <Text style={styles.runningHeader} fixed>
+          {themeText.header}
+        </Text>
+      )}
+      {(themeText.footer || theme.pageNumbers) && (
+        <View style={styles.footer} fixed>
+          <Text>{themeText.footer}</Text>
+          {theme.pageNumbers && (
+            <Text
+              render={({ pageNumber, totalPages }) =>
+                `Page ${pageNumber} of ${totalPages}`
+              }
+            />
           )}
-          <Text>Word Count: {data.metadata.wordCount.toLocaleString()}</Text>
-          {data.metadata.author && <Text>Author: {data.metadata.author}</Text>}
         </View>
+      )}
+    </>
+  );
+
+  return (
+    <Document title={data.title} author={data.metadata.author}>
+      {/* Cover page with title and metadata */}
+      {theme.coverPage && (
+        <Page size="A4" style={styles.page}>
+          {titleBlock}
+        </Page>
+      )}
+
+      {/* Table of Contents, may run over several pages */}
+      <Page size="A4" style={styles.page}>
+        {pageChrome}
+        {!theme.coverPage && titleBlock}
 
-        {/* Table of Contents */}
         <View style={styles.toc}>
           <Text style={styles.tocTitle}>Table of Contents</Text>
-          {sortedSections.map((section, index) => (
-            <Text key={section.id} style={styles.tocItem}>
-              {index + 1}. {section.name}
-            </Text>
+          {outline.map((entry) => (
+            <View key={entry.id}>
+              {renderTocEntry(entry)}
+              {entry.children.map((child) => renderTocEntry(child, true))}
+            </View>
           ))}
         </View>
-
-        <Text
-          style={styles.pageNumber}
-          render={({ pageNumber, totalPages }) =>
-            `${pageNumber} / ${totalPages}`
-          }
-          fixed
-        />
       </Page>
 
       {/* Content Pages */}
-      {sortedSections.map((section, sectionIndex) => (
-        <Page key={section.id} size="A4" style={styles.page}>
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>
-              {sectionIndex + 1}. {section.name}
-            </Text>
-            <View style={styles.sectionContent}>
-              {renderContent(section.content)}
+      {sortedSections.map((section, sectionIndex) => {
+        const entry = outline[sectionIndex]!;
+
+        return (
+          <Page key={section.id} size="A4" style={styles.page}>
+            {pageChrome}
+
+            <View
+              style={styles.section}
+              {...bookmarkProps(formatEntryTitle(entry))}
+            >
+              <Text id={entry.id} style={styles.sectionTitle}>
+                {formatEntryTitle(entry)}
+              </Text>
+              {pageMarker(entry)}
+              <View style={styles.sectionContent}>
+                {renderContent(section.content, entry)}
+              </View>
             </View>
-          </View>
+          </Page>
+        );
+      })}
 
-          <Text
-            style={styles.pageNumber}
-            render={({ pageNumber, totalPages }) =>
-              `${pageNumber} / ${totalPages}`
-            }
-            fixed
-          />
+      {/* References for inline citations */}
+      {references.length > 0 && (
+        <Page size="A4" style={styles.page}>
+          {pageChrome}
+          <View
+            style={styles.section}
+            {...bookmarkProps("References")}
+          >
+            <Text id={REFERENCES_ANCHOR} style={styles.sectionTitle}>
+              References
+            </Text>
+            {pageMarker(outline[outline.length - 1]!)}
+            {references.map((reference) => (
+              <Text key={reference.marker} style={styles.reference}>
+                [{reference.marker}] {reference.sourceName}
+                {"\n"}
+                <Text style={styles.referenceExcerpt}>{reference.excerpt}</Text>
+              </Text>
+            ))}
+          </View>
         </Page>
-      ))}
+      )}
     </Document>
   );
 };
@@ -213,11 +424,23 @@ const PDFDocument: React.FC<{ data: DocumentData }> = ({ data }) => {
  */
 export class PDFExporter implements Exporter {
   async export(data: DocumentData): Promise<Buffer> {
-    // Create PDF component
-    const pdfDoc = <PDFDocument data={data} />;
+    // Pages are only known after layout, so a first pass records where each
+    // outline entry lands and the second fills them into the contents. The
+    // contents take the same space in both passes, so nothing moves.
+    const pageRefs = new Map<string, number>();
+    await pdf(
+      <PDFDocument
+        data={data}
+        onEntryPage={(id, pageNumber) => {
+          pageRefs.set(id, pageNumber);
+        }}
+      />,
+    ).toBlob();
 
     // Generate PDF blob
-    const blob = await pdf(pdfDoc).toBlob();
+    const blob = await pdf(
+      <PDFDocument data={data} pageRefs={pageRefs} />,
+    ).toBlob();
 
     // Convert blob to buffer
     const arrayBuffer = await blob.arrayBuffer();
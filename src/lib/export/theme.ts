@@ -0,0 +1,64 @@
+//src/lib/export/theme.ts
+
+import {
+  DEFAULT_EXPORT_THEME,
+  fillThemeText,
+  type ExportThemeSettings,
+} from "~/config/export-themes";
+import type { DocumentData } from "./index";
+
+/**
+ * Theme to render the document with, the default one when none was chosen
+ */
+export function getTheme(data: DocumentData): ExportThemeSettings {
+  return data.theme ?? DEFAULT_EXPORT_THEME;
+}
+
+export function formatExportDate(date: Date): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+/**
+ * Header and footer lines of the theme filled in for the document; empty
+ * strings when the theme leaves them out
+ */
+export function getThemeText(data: DocumentData): {
+  header: string;
+  footer: string;
+} {
+  const theme = getTheme(data);
+  const values = {
+    title: data.title,
+    type: data.type,
+    author: data.metadata.author ?? "",
+    date: formatExportDate(data.metadata.completedAt ?? data.metadata.createdAt),
+  };
+
+  return {
+    header: fillThemeText(theme.headerText, values),
+    footer: fillThemeText(theme.footerText, values),
+  };
+}
+
+/**
+ * Decoded logo image for formats that embed the bytes rather than a data URL
+ */
+export function decodeLogo(dataUrl: string): { type: "png" | "jpg"; data: Buffer } {
+  const [prefix, base64 = ""] = dataUrl.split(",", 2);
+  return {
+    type: prefix?.includes("image/png") ? "png" : "jpg",
+    data: Buffer.from(base64, "base64"),
+  };
+}
+
+export function mmToPoints(mm: number): number {
+  return Math.round((mm * 72) / 25.4);
+}
+
+export function mmToTwips(mm: number): number {
+  return Math.round((mm * 1440) / 25.4);
+}
@@ -1,6 +1,7 @@
 //src/lib/export/txt-exporter.tsx
 
 import type { DocumentData, Exporter } from "./index";
+import { getReferences } from "./citations";
 
 /**
  * Plain Text Exporter Implementation
@@ -48,6 +49,17 @@ export class TxtExporter implements Exporter {
       text += "\n\n";
     });
 
+    // References for inline [n] citations
+    const references = getReferences(data);
+    if (references.length > 0) {
+      text += "REFERENCES\n";
+      text += subSeparator;
+      references.forEach((reference) => {
+        text += `[${reference.marker}] ${reference.sourceName}\n`;
+        text += this.wrapText(reference.excerpt.replace(/\s+/g, " "), 60, "    ") + "\n\n";
+      });
+    }
+
     // Footer
     text += separator;
     text += this.centerText(
@@ -0,0 +1,94 @@
+//src/server/api/rest/handler.ts
+
+import { NextResponse, type NextRequest } from "next/server";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { ZodError } from "zod";
+import { createCaller } from "~/server/api/root";
+import { createInnerTRPCContext } from "~/server/api/trpc";
+import { rateLimitMiddleware } from "~/server/api/middleware/rate-limit";
+import { ApiTokenService } from "~/server/services/api-tokens";
+import type { ApiTokenScope } from "~/config/api-tokens";
+
+export type RestCaller = ReturnType<typeof createCaller>;
+
+interface RestRouteOptions<TParams> {
+  // Scope the API token must have been granted
+  scope: ApiTokenScope;
+  // Rate limit bucket, shared by all tokens of the same user
+  action: string;
+  successStatus?: number;
+  handler: (args: {
+    caller: RestCaller;
+    params: TParams;
+    body: unknown;
+  }) => Promise<unknown>;
+}
+
+/**
+ * REST route handler for the versioned public API. Authenticates the bearer
+ * token, then calls the tRPC procedure through a server-side caller so the
+ * request gets the same protectedProcedure context and validation as the app.
+ */
+export function createRestRoute<TParams = Record<string, never>>(
+  options: RestRouteOptions<TParams>,
+) {
+  return async (req: NextRequest, context: { params: Promise<TParams> }) => {
+    try {
+      const auth = await ApiTokenService.authorize(
+        req.headers.get("authorization"),
+        options.scope,
+      );
+
+      await rateLimitMiddleware(auth.session.user.id, `api:${options.action}`);
+
+      const caller = createCaller(
+        createInnerTRPCContext({ session: auth.session }),
+      );
+
+      const data = await options.handler({
+        caller,
+        params: await context.params,
+        body: req.method === "GET" ? undefined : await readJsonBody(req),
+      });
+
+      return NextResponse.json(data, { status: options.successStatus ?? 200 });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  };
+}
+
+async function readJsonBody(req: NextRequest): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Request body must be valid JSON",
+    });
+  }
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof TRPCError) {
+    const zodError = error.cause instanceof ZodError ? error.cause : undefined;
+
+    return NextResponse.json(
+      {
+        error: {
+          code: error.code,
+          message: zodError ? "Invalid request" : error.message,
+          issues: zodError?.issues,
+        },
+      },
+      { status: getHTTPStatusCodeFromError(error) },
+    );
+  }
+
+  console.error("REST API error:", error);
+  return NextResponse.json(
+    { error: { code: "INTERNAL_SERVER_ERROR", message: "Internal server error" } },
+    { status: 500 },
+  );
+}
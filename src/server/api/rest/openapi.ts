@@ -0,0 +1,268 @@
+//src/server/api/rest/openapi.ts
+
+import { DocumentType, ExportFormat, SourceType } from "@prisma/client";
+import { env } from "~/env";
+import { API_TOKEN_SCOPES } from "~/config/api-tokens";
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+  },
+});
+
+const commonErrors = {
+  "400": errorResponse("Invalid request"),
+  "401": errorResponse("Missing, invalid, expired or revoked token"),
+  "403": errorResponse("Token lacks the required scope, or the cost limit was reached"),
+  "429": errorResponse("Rate limit exceeded"),
+};
+
+const documentIdParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string" },
+};
+
+/**
+ * OpenAPI description of the /api/v1 REST endpoints, served at
+ * /api/v1/openapi.json. Update it alongside the routes in src/app/api/v1.
+ */
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "DocuForge API",
+    version: "1.0.0",
+    description:
+      "Headless document generation. Authenticate with a personal API token " +
+      "created under Settings → API.",
+  },
+  servers: [{ url: `${env.NEXT_PUBLIC_APP_URL}/api/v1` }],
+  security: [{ bearerAuth: [] }],
+  paths: {
+    "/documents": {
+      post: {
+        operationId: "generateDocument",
+        summary: "Create a document and queue it for generation",
+        description: "Requires the `documents:write` scope.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/GenerateDocumentRequest" },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Document created and queued",
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/Document" } },
+            },
+          },
+          ...commonErrors,
+        },
+      },
+    },
+    "/documents/{id}/progress": {
+      get: {
+        operationId: "getDocumentProgress",
+        summary: "Generation progress of a document",
+        description: "Requires the `documents:read` scope.",
+        parameters: [documentIdParameter],
+        responses: {
+          "200": {
+            description: "Current progress",
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/Progress" } },
+            },
+          },
+          "404": errorResponse("Document not found"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/documents/{id}/exports": {
+      post: {
+        operationId: "exportDocument",
+        summary: "Export a completed document",
+        description:
+          "Requires the `exports:write` scope. Returns a recent export of the " +
+          "same format and theme if one exists.",
+        parameters: [documentIdParameter],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["format"],
+                properties: {
+                  format: { type: "string", enum: Object.values(ExportFormat) },
+                  themeId: {
+                    type: "string",
+                    description:
+                      "Export theme to brand PDF, DOCX and HTML files with; " +
+                      "the default look when omitted.",
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Export created",
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/Export" } },
+            },
+          },
+          "404": errorResponse("Document not found"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/knowledge": {
+      post: {
+        operationId: "uploadKnowledgeSource",
+        summary: "Upload a knowledge source for RAG",
+        description: "Requires the `knowledge:write` scope.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/KnowledgeUploadRequest" },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Source stored and queued for processing",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string" },
+                    status: { type: "string" },
+                    message: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+          ...commonErrors,
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: "http",
+        scheme: "bearer",
+        description: `Personal API token. Scopes: ${Object.keys(API_TOKEN_SCOPES).join(", ")}`,
+      },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        properties: {
+          error: {
+            type: "object",
+            properties: {
+              code: { type: "string" },
+              message: { type: "string" },
+              issues: {
+                type: "array",
+                items: { type: "object" },
+                description: "Validation issues, when the request was invalid",
+              },
+            },
+          },
+        },
+      },
+      GenerateDocumentRequest: {
+        type: "object",
+        required: ["type", "title", "input"],
+        properties: {
+          type: { type: "string", enum: Object.values(DocumentType) },
+          customTypeId: {
+            type: "string",
+            description: "ID of an admin-defined document type, required when type is CUSTOM",
+          },
+          title: { type: "string", minLength: 1, maxLength: 200 },
+          input: {
+            type: "object",
+            description: "Document-type specific fields, as in the web form",
+          },
+          provider: { type: "string" },
+          model: { type: "string" },
+          temperature: { type: "number", minimum: 0, maximum: 2 },
+          maxTokens: { type: "integer", minimum: 1 },
+          useCache: { type: "boolean" },
+          reviewOutline: {
+            type: "boolean",
+            description: "Pause after the outline until it is approved in the app",
+          },
+        },
+      },
+      Document: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          title: { type: "string" },
+          type: { type: "string", enum: Object.values(DocumentType) },
+          status: { type: "string" },
+          provider: { type: ["string", "null"] },
+          model: { type: ["string", "null"] },
+          createdAt: { type: "string", format: "date-time" },
+        },
+      },
+      Progress: {
+        type: "object",
+        properties: {
+          progress: { description: "Percentage, or a progress object" },
+          status: {
+            type: "string",
+            description: "Queue state, e.g. waiting, active, completed, failed",
+          },
+          failedReason: { type: "string" },
+        },
+      },
+      Export: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          documentId: { type: "string" },
+          format: { type: "string", enum: Object.values(ExportFormat) },
+          status: { type: "string" },
+          url: {
+            type: ["string", "null"],
+            description:
+              "Signed download link, relative to the app URL. Valid for an " +
+              "hour; export again for a fresh link.",
+          },
+          expiresAt: { type: ["string", "null"], format: "date-time" },
+          downloadCount: { type: "integer" },
+        },
+      },
+      KnowledgeUploadRequest: {
+        type: "object",
+        required: ["name", "type"],
+        properties: {
+          name: { type: "string", minLength: 1, maxLength: 255 },
+          description: { type: "string" },
+          type: { type: "string", enum: Object.values(SourceType) },
+          content: { type: "string", description: "Text, or the URL for WEBSITE sources" },
+          fileBase64: { type: "string", description: "File contents for uploads" },
+          fileName: { type: "string" },
+          mimeType: { type: "string" },
+          tags: { type: "array", items: { type: "string" } },
+          metadata: { type: "object" },
+        },
+      },
+    },
+  },
+} as const;
@@ -2,6 +2,7 @@
 
 import { createTRPCRouter } from "~/server/api/trpc";
 import { documentRouter } from "./routers/document";
+import { documentVersionRouter } from "./routers/document-version";
 import { exportRouter } from "./routers/export";
 import { userRouter } from "./routers/user";
 import { templateRouter } from "./routers/template";
@@ -11,6 +12,17 @@ import { postRouter } from "./routers/post";
 import { enhancedGeneratorsRouter as generatorsRouter } from "./routers/generators-enhanced";
 import { preferencesRouter } from "./routers/preferences";
 import { knowledgeRouter } from "./routers/knowledge";
+import { knowledgeCollectionRouter } from "./routers/knowledge-collection";
+import { modelCatalogRouter } from "./routers/model-catalog";
+import { webhookRouter } from "./routers/webhook";
+import { apiTokenRouter } from "./routers/api-token";
+import { customDocumentTypeRouter } from "./routers/custom-document-type";
+import { promptTemplateRouter } from "./routers/prompt-template";
+import { evaluationRouter } from "./routers/evaluation";
+import { batchRouter } from "./routers/batch";
+import { cacheRouter } from "./routers/cache";
+import { storageRouter } from "./routers/storage";
+import { exportThemeRouter } from "./routers/export-theme";
 
 /**
  * This is the primary router for your server.
@@ -19,6 +31,7 @@ import { knowledgeRouter } from "./routers/knowledge";
  */
 export const appRouter = createTRPCRouter({
   document: documentRouter,
+  documentVersion: documentVersionRouter,
   export: exportRouter,
   user: userRouter,
   template: templateRouter,
@@ -28,6 +41,17 @@ export const appRouter = createTRPCRouter({
   generators: generatorsRouter,
   preferences: preferencesRouter,
   knowledge: knowledgeRouter,
+  knowledgeCollection: knowledgeCollectionRouter,
+  modelCatalog: modelCatalogRouter,
+  webhook: webhookRouter,
+  apiToken: apiTokenRouter,
+  customDocumentType: customDocumentTypeRouter,
+  promptTemplate: promptTemplateRouter,
+  evaluation: evaluationRouter,
+  batch: batchRouter,
+  cache: cacheRouter,
+  storage: storageRouter,
+  exportTheme: exportThemeRouter,
 });
 
 // export type definition of API
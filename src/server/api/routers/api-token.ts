@@ -0,0 +1,82 @@
+//src/server/api/routers/api-token.ts
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { API_TOKEN_SCOPE_NAMES } from "~/config/api-tokens";
+import { ApiTokenService } from "~/server/services/api-tokens";
+
+const MAX_ACTIVE_TOKENS = 20;
+
+// Everything except the hash
+const tokenSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+export const apiTokenRouter = createTRPCRouter({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.apiToken.findMany({
+      where: { userId: ctx.session.user.id },
+      select: tokenSelect,
+      orderBy: { createdAt: "desc" },
+    });
+  }),
+
+  // The plain token is only returned here
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        scopes: z.array(z.enum(API_TOKEN_SCOPE_NAMES)).min(1, "Select at least one scope"),
+        expiresInDays: z.number().int().min(1).max(365).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const active = await ctx.db.apiToken.count({
+        where: {
+          userId: ctx.session.user.id,
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+      });
+
+      if (active >= MAX_ACTIVE_TOKENS) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `You can have up to ${MAX_ACTIVE_TOKENS} active API tokens`,
+        });
+      }
+
+      const { token, record } = await ApiTokenService.create(
+        ctx.session.user.id,
+        input,
+      );
+
+      return { token, id: record.id };
+    }),
+
+  revoke: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.db.apiToken.updateMany({
+        where: { id: input.id, userId: ctx.session.user.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "API token not found",
+        });
+      }
+
+      return { success: true };
+    }),
+});
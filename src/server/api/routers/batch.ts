@@ -0,0 +1,109 @@
+//src/server/api/routers/batch.ts
+
+import { z } from "zod";
+import { DocumentType, ExportFormat } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  rateLimitedProcedure,
+} from "~/server/api/trpc";
+import { MAX_BATCH_DOCUMENTS } from "~/lib/batch";
+import { BatchGenerationService } from "~/server/services/batch";
+
+const targetSchema = z.object({
+  type: z.nativeEnum(DocumentType),
+  customTypeId: z.string().optional(),
+  provider: z.enum(["openai", "anthropic", "gemini", "perplexity", "llama", "local"]),
+  model: z.string().min(1),
+});
+
+// Rows arrive already mapped to document inputs (see mapBatchRows)
+const inputsSchema = z.array(z.record(z.unknown())).min(1).max(MAX_BATCH_DOCUMENTS);
+
+export const batchRouter = createTRPCRouter({
+  // The user's batches, newest first
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.documentBatch.findMany({
+      where: { userId: ctx.session.user.id },
+      include: { _count: { select: { documents: true } } },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+    });
+  }),
+
+  // Per-row validation errors and the cost of generating the valid rows
+  validate: protectedProcedure
+    .input(targetSchema.extend({ inputs: inputsSchema }))
+    .mutation(async ({ input }) => {
+      const { inputs, ...target } = input;
+      return BatchGenerationService.validate(target, inputs);
+    }),
+
+  // Create and queue one document per row
+  create: rateLimitedProcedure
+    .input(
+      targetSchema.extend({
+        name: z.string().min(1).max(100),
+        inputs: inputsSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return BatchGenerationService.create(ctx.session.user.id, input);
+    }),
+
+  // A batch with its documents and aggregate progress
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const batch = await ctx.db.documentBatch.findUnique({
+        where: { id: input.id },
+        include: {
+          documents: {
+            select: {
+              id: true,
+              title: true,
+              status: true,
+              error: true,
+              wordCount: true,
+              totalCost: true,
+            },
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      });
+
+      if (!batch || batch.userId !== ctx.session.user.id) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Batch not found",
+        });
+      }
+
+      return {
+        ...batch,
+        progress: await BatchGenerationService.getProgress(batch.id),
+      };
+    }),
+
+  // Zip of every completed document in the batch
+  exportZip: protectedProcedure
+    .input(z.object({ id: z.string(), format: z.nativeEnum(ExportFormat) }))
+    .mutation(async ({ ctx, input }) => {
+      const batch = await ctx.db.documentBatch.findUnique({
+        where: { id: input.id },
+        select: { userId: true },
+      });
+
+      if (!batch || batch.userId !== ctx.session.user.id) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Batch not found",
+        });
+      }
+
+      return BatchGenerationService.exportZip(input.id, input.format, {
+        author: ctx.session.user.name || ctx.session.user.email || undefined,
+      });
+    }),
+});
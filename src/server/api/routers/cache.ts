@@ -6,10 +6,12 @@ import { DocumentType } from "@prisma/client";
 import { getCacheService } from "~/server/services/cache";
 import { getCacheManager } from "~/server/services/cache/manager";
 import { TRPCError } from "@trpc/server";
+import { env } from "~/env";
 
 export const cacheRouter = createTRPCRouter({
     /**
-     * Get cache statistics for the current user
+     * Get cache statistics for the current user over the last 30 days,
+     * including outlines started from a similar earlier input
      */
     getUserStats: protectedProcedure.query(async ({ ctx }) => {
         const cacheManager = getCacheManager();
@@ -0,0 +1,165 @@
+//src/server/api/routers/custom-document-type.ts
+
+import { z } from "zod";
+import { ExportFormat } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  adminProcedure,
+} from "~/server/api/trpc";
+import {
+  customFieldSchema,
+  customSectionSchema,
+  tokenEstimateSchema,
+  DEFAULT_TOKEN_ESTIMATE,
+} from "~/config/custom-document-types";
+
+const customTypeSchema = z.object({
+  slug: z
+    .string()
+    .min(1)
+    .max(60)
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, digits and dashes"),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  icon: z.string().min(1).max(50).default("FileText"),
+  enabled: z.boolean().default(true),
+  fields: z
+    .array(customFieldSchema)
+    .min(1)
+    .refine(
+      (fields) => new Set(fields.map((field) => field.name)).size === fields.length,
+      "Field names must be unique",
+    ),
+  sections: z
+    .array(customSectionSchema)
+    .min(1)
+    .refine(
+      (sections) => new Set(sections.map((section) => section.id)).size === sections.length,
+      "Section ids must be unique",
+    ),
+  exportFormats: z.array(z.nativeEnum(ExportFormat)).min(1),
+  estimatedTokens: tokenEstimateSchema.default(DEFAULT_TOKEN_ESTIMATE),
+  systemPrompt: z.string().min(1).max(10000),
+  outlinePrompt: z.string().min(1).max(20000),
+  sectionPrompt: z.string().min(1).max(20000),
+  refinementPrompt: z.string().min(1).max(20000),
+});
+
+export const customDocumentTypeRouter = createTRPCRouter({
+  // Enabled types with what the new document form needs to render them
+  listEnabled: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.customDocumentType.findMany({
+      where: { enabled: true },
+      select: {
+        id: true,
+        slug: true,
+        name: true,
+        description: true,
+        icon: true,
+        fields: true,
+        sections: true,
+        exportFormats: true,
+        estimatedTokens: true,
+      },
+      orderBy: { name: "asc" },
+    });
+  }),
+
+  // Admin: every type including disabled ones
+  adminList: adminProcedure.query(async ({ ctx }) => {
+    return ctx.db.customDocumentType.findMany({
+      include: { _count: { select: { documents: true } } },
+      orderBy: { name: "asc" },
+    });
+  }),
+
+  // Admin: define a new document type
+  create: adminProcedure
+    .input(customTypeSchema)
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.customDocumentType.findUnique({
+        where: { slug: input.slug },
+      });
+
+      if (existing) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `A document type with slug ${input.slug} already exists`,
+        });
+      }
+
+      return ctx.db.customDocumentType.create({
+        data: { ...input, createdBy: ctx.session.user.id },
+      });
+    }),
+
+  // Admin: edit a type. Documents already generated keep their content; new
+  // generations and regenerated sections use the updated prompts.
+  update: adminProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        data: customTypeSchema.partial(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.customDocumentType.findUnique({
+        where: { id: input.id },
+      });
+
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Document type not found",
+        });
+      }
+
+      if (input.data.slug && input.data.slug !== existing.slug) {
+        const conflict = await ctx.db.customDocumentType.findUnique({
+          where: { slug: input.data.slug },
+        });
+
+        if (conflict) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `A document type with slug ${input.data.slug} already exists`,
+          });
+        }
+      }
+
+      return ctx.db.customDocumentType.update({
+        where: { id: input.id },
+        data: input.data,
+      });
+    }),
+
+  // Admin: remove a type that no document uses
+  delete: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.customDocumentType.findUnique({
+        where: { id: input.id },
+        include: { _count: { select: { documents: true } } },
+      });
+
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Document type not found",
+        });
+      }
+
+      if (existing._count.documents > 0) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: `${existing.name} is used by ${existing._count.documents} document(s). Disable it instead.`,
+        });
+      }
+
+      await ctx.db.customDocumentType.delete({ where: { id: input.id } });
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,163 @@
+//src/server/api/routers/document-version.ts
+
+import { z } from "zod";
+import { DocumentStatus, type Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  type Context,
+} from "~/server/api/trpc";
+import { countSectionWords, normalizeSections } from "~/server/services/document/sections";
+import { diffSections, recordDocumentVersion } from "~/server/services/document/versions";
+import { parseCitations, refreshCitationMap } from "~/server/services/document/citations";
+
+async function getOwnedDocument(ctx: Context, documentId: string, userId: string) {
+  const document = await ctx.db.document.findUnique({
+    where: { id: documentId },
+  });
+
+  if (!document || document.userId !== userId) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Document not found",
+    });
+  }
+
+  return document;
+}
+
+async function getVersion(ctx: Context, documentId: string, versionId: string) {
+  const version = await ctx.db.documentVersion.findFirst({
+    where: { id: versionId, documentId },
+  });
+
+  if (!version) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Version not found",
+    });
+  }
+
+  return version;
+}
+
+export const documentVersionRouter = createTRPCRouter({
+  // List a document's versions, newest first (content omitted)
+  list: protectedProcedure
+    .input(z.object({ documentId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await getOwnedDocument(ctx, input.documentId, ctx.session.user.id);
+
+      return ctx.db.documentVersion.findMany({
+        where: { documentId: input.documentId },
+        orderBy: { version: "desc" },
+        select: {
+          id: true,
+          version: true,
+          source: true,
+          wordCount: true,
+          provider: true,
+          model: true,
+          cost: true,
+          note: true,
+          createdAt: true,
+        },
+      });
+    }),
+
+  // Get a single version including its content
+  get: protectedProcedure
+    .input(z.object({ documentId: z.string(), versionId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await getOwnedDocument(ctx, input.documentId, ctx.session.user.id);
+      const version = await getVersion(ctx, input.documentId, input.versionId);
+
+      return {
+        ...version,
+        sections: normalizeSections(version.sections),
+      };
+    }),
+
+  // Section-by-section diff between two versions, or a version and the current document
+  diff: protectedProcedure
+    .input(
+      z.object({
+        documentId: z.string(),
+        fromVersionId: z.string(),
+        toVersionId: z.string().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const document = await getOwnedDocument(ctx, input.documentId, ctx.session.user.id);
+      const from = await getVersion(ctx, input.documentId, input.fromVersionId);
+      const to = input.toVersionId
+        ? await getVersion(ctx, input.documentId, input.toVersionId)
+        : null;
+
+      return {
+        fromVersion: from.version,
+        toVersion: to?.version ?? null,
+        sections: diffSections(from.sections, to ? to.sections : document.sections),
+      };
+    }),
+
+  // Make an earlier version the current content (recorded as a new version)
+  restore: protectedProcedure
+    .input(z.object({ documentId: z.string(), versionId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const document = await getOwnedDocument(ctx, input.documentId, ctx.session.user.id);
+
+      if (
+        document.status === DocumentStatus.PENDING ||
+        document.status === DocumentStatus.PROCESSING
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Cannot restore a version while the document is generating",
+        });
+      }
+
+      const version = await getVersion(ctx, input.documentId, input.versionId);
+      if (!version.sections) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This version has no content to restore",
+        });
+      }
+
+      const sections = version.sections as Prisma.InputJsonValue;
+      const citations = parseCitations(document.citations);
+
+      const [updated, restored] = await ctx.db.$transaction(async (tx) => {
+        const updated = await tx.document.update({
+          where: { id: document.id },
+          data: {
+            sections,
+            outline: (version.outline ?? document.outline ?? undefined) as
+              | Prisma.InputJsonValue
+              | undefined,
+            citations: citations
+              ? (refreshCitationMap(citations, sections) as unknown as Prisma.InputJsonValue)
+              : undefined,
+            wordCount: countSectionWords(normalizeSections(sections)),
+          },
+        });
+
+        const restored = await recordDocumentVersion(tx, {
+          documentId: document.id,
+          source: "RESTORE",
+          sections,
+          outline: version.outline,
+          provider: version.provider,
+          model: version.model,
+          note: `Restored from version ${version.version}`,
+          createdBy: ctx.session.user.id,
+        });
+
+        return [updated, restored] as const;
+      });
+
+      return { document: updated, version: restored.version };
+    }),
+});
@@ -14,8 +14,6 @@
 
 import { z } from "zod";
 import { DocumentStatus, DocumentType, Prisma } from "@prisma/client";
-// Import type overrides if they exist
-import type { } from "~/types/prisma-overrides";
 import {
   createTRPCRouter,
   protectedProcedure,
@@ -27,13 +25,37 @@ import { TRPCError } from "@trpc/server";
 import {
   getDocumentSchema,
   getDocumentConfig,
-  estimateTokenUsage,
-  estimateCost,
   DOCUMENT_CONFIGS,
 } from "~/config/documents";
 import { Queue } from "bullmq";
 import { env } from "~/env";
-import { PreferencesSyncService } from "~/server/services/preferences/sync";
+import { requestCancellation } from "~/server/queue/cancellation";
+import { LLMService, type ProviderName } from "~/server/services/llm";
+import {
+  BudgetService,
+  estimateDocumentTokens,
+} from "~/server/services/budget";
+import {
+  normalizeSections,
+  replaceSectionContent,
+  countSectionWords,
+} from "~/server/services/document/sections";
+import { recordDocumentVersion } from "~/server/services/document/versions";
+import {
+  normalizeOutline,
+  applyOutlineEdits,
+} from "~/server/services/document/outline";
+import {
+  parseCitations,
+  loadCitationSources,
+  refreshCitationMap,
+} from "~/server/services/document/citations";
+import {
+  loadCustomDocumentType,
+  parseCustomDocumentInput,
+  buildCustomDocumentPrompts,
+} from "~/server/services/document/custom-types";
+import { KnowledgeCollectionService } from "~/server/services/rag/collections";
 
 // Extended Document type that includes LLM fields
 type DocumentWithLLMFields = {
@@ -46,11 +68,14 @@ type DocumentWithLLMFields = {
   model?: string | null;
   temperature?: number;
   maxTokens?: number | null;
+  reviewOutline?: boolean;
 };
 
 // Create schema for document creation
 const createDocumentSchema = z.object({
   type: z.nativeEnum(DocumentType),
+  // Required when type is CUSTOM
+  customTypeId: z.string().optional(),
   title: z.string().min(1).max(200),
   input: z.record(z.unknown()), // Will be validated against document-specific schema
   // Optional provider settings
@@ -59,8 +84,81 @@ const createDocumentSchema = z.object({
   temperature: z.number().min(0).max(2).optional(),
   maxTokens: z.number().positive().optional(),
   useCache: z.boolean().optional(),
+  // Pause after the outline so the user can edit it before sections are written
+  reviewOutline: z.boolean().optional(),
+  // Retrieve from the knowledge base while generating. Without selected
+  // sources or collections, everything the user can access is searched.
+  ragEnabled: z.boolean().optional(),
+  knowledgeSourceIds: z.array(z.string()).max(100).optional(),
+  knowledgeCollectionIds: z.array(z.string()).max(20).optional(),
 });
 
+/**
+ * Resolve the custom document type a new document refers to, if any
+ */
+async function resolveCustomType(
+  db: Parameters<typeof loadCustomDocumentType>[0],
+  type: DocumentType,
+  customTypeId: string | undefined,
+) {
+  if (type !== DocumentType.CUSTOM) {
+    if (customTypeId) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "customTypeId is only allowed for CUSTOM documents",
+      });
+    }
+    return null;
+  }
+
+  if (!customTypeId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "customTypeId is required for CUSTOM documents",
+    });
+  }
+
+  return loadCustomDocumentType(db, customTypeId, { requireEnabled: true });
+}
+
+/**
+ * Check the knowledge sources and collections picked for a new document are
+ * ones the user can retrieve from, and link them to the document
+ */
+async function resolveKnowledgeSelection(
+  db: ConstructorParameters<typeof KnowledgeCollectionService>[0],
+  userId: string,
+  sourceIds: string[],
+  collectionIds: string[],
+) {
+  const collections = new KnowledgeCollectionService(db);
+
+  if (sourceIds.length > 0) {
+    const allowed = await collections.resolveSourceIds(userId, { sourceIds });
+    if (allowed.length !== new Set(sourceIds).size) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "One or more knowledge sources were not found",
+      });
+    }
+  }
+
+  if (collectionIds.length > 0) {
+    const accessible = await collections.accessibleCollectionIds(userId);
+    if (collectionIds.some((id) => !accessible.includes(id))) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "One or more collections were not found",
+      });
+    }
+  }
+
+  return {
+    knowledgeSources: { connect: sourceIds.map((id) => ({ id })) },
+    collections: { connect: collectionIds.map((id) => ({ id })) },
+  };
+}
+
 // Create schema for document updates
 const updateDocumentSchema = z.object({
   title: z.string().min(1).max(200).optional(),
@@ -74,11 +172,14 @@ const baseCrudRouter = createCRUDRouter({
   updateSchema: updateDocumentSchema,
   includeRelations: {
     exports: true,
+    customType: true,
   },
   beforeCreate: async (data, ctx) => {
+    const customType = await resolveCustomType(ctx.db, data.type, data.customTypeId);
+
     // Validate document type is enabled
     const config = getDocumentConfig(data.type);
-    if (!config || !config.enabled) {
+    if (!customType && (!config || !config.enabled)) {
       throw new TRPCError({
         code: "BAD_REQUEST",
         message: `Document type ${data.type} is not enabled`,
@@ -86,8 +187,9 @@ const baseCrudRouter = createCRUDRouter({
     }
 
     // Validate input against document-specific schema
-    const schema = getDocumentSchema(data.type);
-    const validatedInput = schema.parse(data.input);
+    const validatedInput = customType
+      ? parseCustomDocumentInput(customType, data.input)
+      : getDocumentSchema(data.type).parse(data.input);
 
     // Check usage limits
     const usage = await ctx.db.usage.findUnique({
@@ -102,18 +204,40 @@ const baseCrudRouter = createCRUDRouter({
       });
     }
 
-    // Estimate costs
-    const outputLength = (validatedInput as any).outputLength ?? "medium";
-    const estimatedTokens = estimateTokenUsage(data.type, outputLength);
-    const estimatedCost = estimateCost(estimatedTokens);
+    const { knowledgeSourceIds = [], knowledgeCollectionIds = [], ...fields } = data;
+    const knowledge = await resolveKnowledgeSelection(
+      ctx.db,
+      ctx.session.user.id,
+      knowledgeSourceIds,
+      knowledgeCollectionIds,
+    );
 
     return {
-      ...data,
+      ...fields,
+      ...knowledge,
       input: validatedInput as Prisma.InputJsonValue,
       status: DocumentStatus.PENDING,
     };
   },
   afterCreate: async (document, ctx) => {
+    let reservation;
+    try {
+      reservation = await BudgetService.reserve(ctx.session.user.id, {
+        provider: ((document as DocumentWithLLMFields).provider || "openai") as ProviderName,
+        model: (document as DocumentWithLLMFields).model || "gpt-4",
+        estimatedTokens: estimateDocumentTokens(
+          document.type,
+          document.input,
+          document.customType,
+        ),
+        documentId: document.id,
+      });
+    } catch (error) {
+      // Nothing was queued, so don't leave a pending document behind
+      await ctx.db.document.delete({ where: { id: document.id } });
+      throw error;
+    }
+
     // Add to processing queue
     const queue = new Queue(`document-generation`, {
       connection: ctx.redis,
@@ -124,13 +248,14 @@ const baseCrudRouter = createCRUDRouter({
       {
         documentId: document.id,
         userId: ctx.session.user.id,
-        type: document.type,
+        documentType: document.type,
         input: document.input,
         // Pass provider settings if available
-        provider: (document as DocumentWithLLMFields).provider || 'openai',
-        model: (document as DocumentWithLLMFields).model || 'gpt-4',
+        provider: reservation.provider,
+        model: reservation.model,
         temperature: (document as DocumentWithLLMFields).temperature ?? 0.7,
         maxTokens: (document as DocumentWithLLMFields).maxTokens || undefined,
+        reviewOutline: (document as DocumentWithLLMFields).reviewOutline ?? false,
       },
       {
         jobId: document.id, // Use document ID as job ID for easy tracking
@@ -155,17 +280,35 @@ const baseCrudRouter = createCRUDRouter({
 
 // Extend with additional document-specific procedures
 const extraDocumentRouter = createTRPCRouter({
-  // Get available document types
-  getAvailableTypes: protectedProcedure.query(() => {
-    return Object.entries(DOCUMENT_CONFIGS)
-      .filter(([_, config]) => config.enabled)
-      .map(([type, config]) => ({
-        type: type as DocumentType,
-        name: config.name,
-        description: config.description,
-        icon: config.icon,
-        exportFormats: config.exportFormats,
-      }));
+  // Get available document types, built-in ones first
+  getAvailableTypes: protectedProcedure.query(async ({ ctx }) => {
+    const customTypes = await ctx.db.customDocumentType.findMany({
+      where: { enabled: true },
+      orderBy: { name: "asc" },
+    });
+
+    return [
+      ...Object.entries(DOCUMENT_CONFIGS)
+        .filter(([_, config]) => config.enabled)
+        .map(([type, config]) => ({
+          type: type as DocumentType,
+          customTypeId: null as string | null,
+          name: config.name,
+          description: config.description,
+          icon: config.icon,
+          exportFormats: config.exportFormats as readonly string[],
+        })),
+      ...customTypes.map((customType) => ({
+        type: DocumentType.CUSTOM,
+        customTypeId: customType.id as string | null,
+        name: customType.name,
+        description: customType.description ?? "",
+        icon: customType.icon,
+        exportFormats: customType.exportFormats.map((format: string) =>
+          format.toLowerCase(),
+        ) as readonly string[],
+      })),
+    ];
   }),
 
   // Get document configuration
@@ -186,14 +329,10 @@ const extraDocumentRouter = createTRPCRouter({
   generate: rateLimitedProcedure
     .input(createDocumentSchema)
     .mutation(async ({ ctx, input }) => {
-      // Check cost limit before creating
-      const costCheck = await PreferencesSyncService.checkCostLimit(ctx.session.user.id);
-      if (!costCheck.allowed) {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: costCheck.reason || 'Cost limit exceeded',
-        });
-      }
+      const customType = await resolveCustomType(ctx.db, input.type, input.customTypeId);
+      const documentInput = customType
+        ? parseCustomDocumentInput(customType, input.input)
+        : input.input;
 
       // Get user preferences if not provided
       let { provider, model, temperature, maxTokens, useCache } = input;
@@ -201,8 +340,12 @@ const extraDocumentRouter = createTRPCRouter({
       if (!provider || !model) {
         // For now, we'll use default values
         // Note: userPreferences table needs to be added to your Prisma schema
-        const defaultProvider = 'openai';
-        const defaultModel = 'gpt-4';
+        // DEFAULT_LLM_PROVIDER=mock runs demos and CI without API keys
+        const defaultProvider = env.DEFAULT_LLM_PROVIDER;
+        const defaultModel =
+          (provider || defaultProvider) === env.DEFAULT_LLM_PROVIDER
+            ? env.DEFAULT_LLM_MODEL
+            : 'gpt-4';
 
         provider = provider || defaultProvider;
         model = model || defaultModel;
@@ -211,6 +354,14 @@ const extraDocumentRouter = createTRPCRouter({
         useCache = useCache ?? true;
       }
 
+      // Hold the estimated cost (possibly on a cheaper model) before queueing
+      const reservation = await BudgetService.reserve(ctx.session.user.id, {
+        provider: provider as ProviderName,
+        model: model as string,
+        estimatedTokens: estimateDocumentTokens(input.type, documentInput, customType),
+      });
+      model = reservation.model;
+
       // Use the create method from CRUD router with rate limiting
       return ctx.db.$transaction(async (tx) => {
         // Create document with all required fields
@@ -219,19 +370,24 @@ const extraDocumentRouter = createTRPCRouter({
           title: input.title,
           type: input.type,
           status: 'PENDING',
-          input: input.input as Prisma.InputJsonValue,
+          input: documentInput as Prisma.InputJsonValue,
         };
 
+        if (customType) documentData.customTypeId = customType.id;
+
         // Add optional LLM fields only if they have values
         if (provider) documentData.provider = provider;
         if (model) documentData.model = model;
         if (temperature !== undefined) documentData.temperature = temperature;
         if (maxTokens !== undefined && maxTokens !== null) documentData.maxTokens = maxTokens;
+        if (input.reviewOutline) documentData.reviewOutline = true;
 
         const document = await tx.document.create({
           data: documentData,
         });
 
+        await BudgetService.attach(reservation.reservationId, document.id, tx);
+
         // Add to queue
         const queue = new Queue(`document-generation`, {
           connection: ctx.redis,
@@ -242,7 +398,7 @@ const extraDocumentRouter = createTRPCRouter({
           {
             documentId: document.id,
             userId: ctx.session.user.id,
-            type: document.type,
+            documentType: document.type,
             input: document.input,
             // Pass generation preferences
             provider: provider || 'openai',
@@ -250,6 +406,7 @@ const extraDocumentRouter = createTRPCRouter({
             temperature: temperature ?? 0.7,
             maxTokens: maxTokens || undefined,
             useCache: useCache ?? true,
+            reviewOutline: input.reviewOutline ?? false,
             preferences: {
               systemPromptStyle: 'professional',
               preferSpeed: false,
@@ -260,9 +417,10 @@ const extraDocumentRouter = createTRPCRouter({
           },
         );
 
-        void PreferencesSyncService.checkAndSendCostAlert(ctx.session.user.id);
-
         return document;
+      }).catch(async (error: unknown) => {
+        await BudgetService.release(reservation.reservationId);
+        throw error;
       });
     }),
 
@@ -319,7 +477,8 @@ const extraDocumentRouter = createTRPCRouter({
 
       if (
         document.status !== DocumentStatus.PENDING &&
-        document.status !== DocumentStatus.PROCESSING
+        document.status !== DocumentStatus.PROCESSING &&
+        document.status !== DocumentStatus.OUTLINE_REVIEW
       ) {
         throw new TRPCError({
           code: "BAD_REQUEST",
@@ -327,21 +486,29 @@ const extraDocumentRouter = createTRPCRouter({
         });
       }
 
-      // Remove from queue
+      // Abort the in-flight stream if a worker has already picked it up
+      await requestCancellation(ctx.redis, input.documentId);
+
+      // Remove from queue (active jobs are locked and stop via the abort)
       const queue = new Queue(`document-generation`, {
         connection: ctx.redis,
       });
 
       const job = await queue.getJob(input.documentId);
-      if (job) {
+      if (job && (await job.getState()) !== "active") {
         await job.remove();
       }
 
       // Update document status
-      return ctx.db.document.update({
+      const cancelled = await ctx.db.document.update({
         where: { id: input.documentId },
         data: { status: DocumentStatus.CANCELLED },
       });
+
+      // Stop holding budget for the sections that won't be generated
+      await BudgetService.settle(input.documentId);
+
+      return cancelled;
     }),
 
   // Retry failed document
@@ -351,6 +518,7 @@ const extraDocumentRouter = createTRPCRouter({
       // Verify ownership and status - fetch all fields
       const document = await ctx.db.document.findUnique({
         where: { id: input.documentId },
+        include: { customType: true },
       });
 
       if (!document || document.userId !== ctx.session.user.id) {
@@ -367,6 +535,17 @@ const extraDocumentRouter = createTRPCRouter({
         });
       }
 
+      const reservation = await BudgetService.reserve(ctx.session.user.id, {
+        provider: (document.provider ?? "openai") as ProviderName,
+        model: document.model ?? "gpt-4",
+        estimatedTokens: estimateDocumentTokens(
+          document.type,
+          document.input,
+          document.customType,
+        ),
+        documentId: document.id,
+      });
+
       // Reset document status
       await ctx.db.document.update({
         where: { id: input.documentId },
@@ -387,13 +566,14 @@ const extraDocumentRouter = createTRPCRouter({
         {
           documentId: document.id,
           userId: ctx.session.user.id,
-          type: document.type,
+          documentType: document.type,
           input: document.input,
           // Include provider settings
-          provider: document.provider,
-          model: document.model,
+          provider: reservation.provider,
+          model: reservation.model,
           temperature: document.temperature,
           maxTokens: document.maxTokens,
+          isRetry: true,
         },
         {
           jobId: document.id,
@@ -403,6 +583,335 @@ const extraDocumentRouter = createTRPCRouter({
       return { success: true };
     }),
 
+  // Approve a reviewed outline and resume generation from it
+  approveOutline: protectedProcedure
+    .input(
+      z.object({
+        documentId: z.string(),
+        sections: z
+          .array(
+            z.object({
+              id: z.string(),
+              title: z.string().min(1).max(200),
+              points: z.array(z.string().max(2000)).max(50),
+            }),
+          )
+          .min(1, "Keep at least one section"),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const document = await ctx.db.document.findUnique({
+        where: { id: input.documentId },
+        include: { customType: true },
+      });
+
+      if (!document || document.userId !== ctx.session.user.id) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Document not found",
+        });
+      }
+
+      if (document.status !== DocumentStatus.OUTLINE_REVIEW) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Document is not waiting for outline review",
+        });
+      }
+
+      const knownIds = new Set(
+        normalizeOutline(document.outline).map((section) => section.id),
+      );
+      const unknown = input.sections.find((section) => !knownIds.has(section.id));
+      if (unknown) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Unknown outline section: ${unknown.id}`,
+        });
+      }
+
+      // Replaces the hold taken for the outline stage
+      const reservation = await BudgetService.reserve(ctx.session.user.id, {
+        provider: (document.provider ?? "openai") as ProviderName,
+        model: document.model ?? "gpt-4",
+        estimatedTokens: estimateDocumentTokens(
+          document.type,
+          document.input,
+          document.customType,
+        ),
+        documentId: document.id,
+      });
+
+      const updated = await ctx.db.document.update({
+        where: { id: document.id },
+        data: {
+          outline: applyOutlineEdits(document.outline, input.sections),
+          status: DocumentStatus.PENDING,
+        },
+      });
+
+      const queue = new Queue(`document-generation`, {
+        connection: ctx.redis,
+      });
+
+      // The paused job finished with the document id as its job id
+      const previousJob = await queue.getJob(document.id);
+      if (previousJob) {
+        await previousJob.remove();
+      }
+
+      await queue.add(
+        "generate",
+        {
+          documentId: document.id,
+          userId: ctx.session.user.id,
+          documentType: document.type,
+          input: document.input,
+          provider: reservation.provider,
+          model: reservation.model,
+          temperature: document.temperature,
+          maxTokens: document.maxTokens,
+          resumeFromOutline: true,
+        },
+        {
+          jobId: document.id,
+        },
+      );
+
+      return updated;
+    }),
+
+  // Regenerate a single section of a completed document (rate limited)
+  regenerateSection: rateLimitedProcedure
+    .input(
+      z.object({
+        documentId: z.string(),
+        sectionId: z.string(),
+        instruction: z.string().max(2000).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const document = await ctx.db.document.findUnique({
+        where: { id: input.documentId },
+        include: { customType: true },
+      });
+
+      if (!document || document.userId !== ctx.session.user.id) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Document not found",
+        });
+      }
+
+      if (document.status !== DocumentStatus.COMPLETED) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only completed documents can have sections regenerated",
+        });
+      }
+
+      const sections = normalizeSections(document.sections);
+      if (!sections.some((section) => section.id === input.sectionId)) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Section not found",
+        });
+      }
+
+      // One section's share of the full document estimate
+      const reservation = await BudgetService.reserve(ctx.session.user.id, {
+        provider: (document.provider ?? "openai") as ProviderName,
+        model: document.model ?? "gpt-4",
+        estimatedTokens: Math.ceil(
+          estimateDocumentTokens(document.type, document.input, document.customType) /
+            sections.length,
+        ),
+        documentId: document.id,
+      });
+
+      const llmService = new LLMService({
+        provider: reservation.provider,
+        model: reservation.model,
+      });
+
+      // Let the rewritten section cite the same numbered sources
+      const citations = parseCitations(document.citations);
+      const citationSources = citations
+        ? await loadCitationSources(ctx.db, citations)
+        : undefined;
+
+      const result = await llmService.regenerateSection({
+        type: document.type,
+        outline: document.outline,
+        sections,
+        sectionId: input.sectionId,
+        input: document.input,
+        prompts: document.customType
+          ? buildCustomDocumentPrompts(document.customType)
+          : undefined,
+        instruction: input.instruction?.trim() || undefined,
+        citationSources,
+        userId: ctx.session.user.id,
+        documentId: document.id,
+      }).finally(() => BudgetService.settle(document.id));
+
+      const updatedSections = replaceSectionContent(
+        document.sections,
+        input.sectionId,
+        result.content,
+      );
+
+      await ctx.db.document.update({
+        where: { id: document.id },
+        data: {
+          sections: updatedSections,
+          citations: citations
+            ? (refreshCitationMap(citations, updatedSections) as unknown as Prisma.InputJsonValue)
+            : undefined,
+          wordCount: countSectionWords(normalizeSections(updatedSections)),
+          promptTokens: { increment: result.tokenUsage.prompt },
+          completionTokens: { increment: result.tokenUsage.completion },
+          totalCost: { increment: result.cost },
+        },
+      });
+
+      await recordDocumentVersion(ctx.db, {
+        documentId: document.id,
+        source: "SECTION_REGENERATION",
+        sections: updatedSections,
+        outline: document.outline,
+        provider: reservation.provider,
+        model: reservation.model,
+        cost: result.cost,
+        note: input.instruction?.trim() || undefined,
+        createdBy: ctx.session.user.id,
+      });
+
+      await ctx.db.usage.updateMany({
+        where: { userId: ctx.session.user.id },
+        data: {
+          totalTokens: { increment: result.tokenUsage.total },
+          totalCost: { increment: result.cost },
+        },
+      });
+
+      return {
+        sectionId: input.sectionId,
+        content: result.content,
+        wordCount: result.wordCount,
+        cost: result.cost,
+      };
+    }),
+
+  // Save edited section content from the editor
+  saveContent: protectedProcedure
+    .input(
+      z.object({
+        documentId: z.string(),
+        sections: z.array(
+          z.object({
+            id: z.string(),
+            content: z.string(),
+          }),
+        ),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const document = await ctx.db.document.findUnique({
+        where: { id: input.documentId },
+      });
+
+      if (!document || document.userId !== ctx.session.user.id) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Document not found",
+        });
+      }
+
+      if (document.status !== DocumentStatus.COMPLETED) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only completed documents can be edited",
+        });
+      }
+
+      const existingIds = new Set(
+        normalizeSections(document.sections).map((section) => section.id),
+      );
+      const unknown = input.sections.find((section) => !existingIds.has(section.id));
+      if (unknown) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Unknown section: ${unknown.id}`,
+        });
+      }
+
+      const updatedSections = input.sections.reduce<unknown>(
+        (sections, section) =>
+          replaceSectionContent(sections, section.id, section.content),
+        document.sections,
+      ) as Prisma.InputJsonValue;
+
+      const citations = parseCitations(document.citations);
+
+      const updated = await ctx.db.document.update({
+        where: { id: document.id },
+        data: {
+          sections: updatedSections,
+          citations: citations
+            ? (refreshCitationMap(citations, updatedSections) as unknown as Prisma.InputJsonValue)
+            : undefined,
+          wordCount: countSectionWords(normalizeSections(updatedSections)),
+        },
+      });
+
+      const version = await recordDocumentVersion(ctx.db, {
+        documentId: document.id,
+        source: "MANUAL_SAVE",
+        sections: updatedSections,
+        outline: document.outline,
+        createdBy: ctx.session.user.id,
+      });
+
+      return { document: updated, version: version.version };
+    }),
+
+  // Rate a completed document (feeds prompt experiment results)
+  rate: protectedProcedure
+    .input(
+      z.object({
+        documentId: z.string(),
+        rating: z.number().int().min(1).max(5),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const document = await ctx.db.document.findUnique({
+        where: { id: input.documentId },
+        select: { userId: true, status: true },
+      });
+
+      if (!document || document.userId !== ctx.session.user.id) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Document not found",
+        });
+      }
+
+      if (document.status !== DocumentStatus.COMPLETED) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only completed documents can be rated",
+        });
+      }
+
+      await ctx.db.document.update({
+        where: { id: input.documentId },
+        data: { rating: input.rating },
+      });
+
+      return { rating: input.rating };
+    }),
+
   // Get document statistics
   getStats: protectedProcedure.query(async ({ ctx }) => {
     const stats = await ctx.db.document.groupBy({
@@ -0,0 +1,98 @@
+//src/server/api/routers/evaluation.ts
+
+import { z } from "zod";
+import { DocumentType } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, adminProcedure } from "~/server/api/trpc";
+import type { BuiltInDocumentType } from "~/config/documents";
+import { EvaluationService } from "~/server/services/evaluation";
+
+const providerSchema = z.enum([
+  "openai",
+  "anthropic",
+  "gemini",
+  "perplexity",
+  "llama",
+  "local",
+  "mock",
+]);
+
+export const evaluationRouter = createTRPCRouter({
+  // Admin: recent runs, newest first
+  listRuns: adminProcedure.query(async ({ ctx }) => {
+    return ctx.db.evaluationRun.findMany({
+      include: { _count: { select: { results: true } } },
+      orderBy: { startedAt: "desc" },
+      take: 50,
+    });
+  }),
+
+  // Admin: a run with its per-fixture results
+  getRun: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const run = await ctx.db.evaluationRun.findUnique({
+        where: { id: input.id },
+        include: {
+          results: {
+            orderBy: { fixtureId: "asc" },
+            // Generated outputs are large and not shown in the report
+            omit: { output: true },
+          },
+        },
+      });
+
+      if (!run) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Evaluation run not found",
+        });
+      }
+
+      return run;
+    }),
+
+  // Admin: queue a run of the fixtures through a provider and model
+  start: adminProcedure
+    .input(
+      z.object({
+        label: z.string().max(100).optional(),
+        // Omit to evaluate every built-in type
+        documentType: z
+          .nativeEnum(DocumentType)
+          .refine((type) => type !== DocumentType.CUSTOM, {
+            message: "Custom document types have no evaluation fixtures",
+          })
+          .optional(),
+        provider: providerSchema,
+        model: z.string().optional(),
+        judgeProvider: providerSchema.optional(),
+        judgeModel: z.string().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return EvaluationService.start({
+        ...input,
+        documentType: input.documentType as BuiltInDocumentType | undefined,
+        createdBy: ctx.session.user.id,
+      });
+    }),
+
+  // Admin: score changes between two runs, flagging regressed fixtures
+  compare: adminProcedure
+    .input(z.object({ baselineRunId: z.string(), candidateRunId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const runs = await ctx.db.evaluationRun.count({
+        where: { id: { in: [input.baselineRunId, input.candidateRunId] } },
+      });
+
+      if (runs !== 2) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Evaluation run not found",
+        });
+      }
+
+      return EvaluationService.compare(input.baselineRunId, input.candidateRunId);
+    }),
+});
@@ -0,0 +1,120 @@
+//src/server/api/routers/export-theme.ts
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { type PrismaClient } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  exportThemeSettingsSchema,
+  parseExportThemeSettings,
+} from "~/config/export-themes";
+import { ExportThemeService } from "~/server/services/exports/themes";
+
+const themeSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  // Only admins can share a theme with the team
+  shared: z.boolean().default(false),
+  settings: exportThemeSettingsSchema,
+});
+
+export const exportThemeRouter = createTRPCRouter({
+  // The user's themes and the team's shared ones
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.session.user.id;
+
+    const themes = await ctx.db.exportTheme.findMany({
+      where: ExportThemeService.availableTo(userId),
+      include: { user: { select: { name: true, email: true } } },
+      orderBy: [{ shared: "desc" }, { name: "asc" }],
+    });
+
+    return themes.map(({ user, ...theme }) => ({
+      ...theme,
+      settings: parseExportThemeSettings(theme.settings),
+      owner: user.name ?? user.email,
+      editable: theme.userId === userId,
+    }));
+  }),
+
+  create: protectedProcedure
+    .input(themeSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (input.shared) {
+        await requireAdmin(ctx.db, ctx.session.user.id);
+      }
+
+      return ctx.db.exportTheme.create({
+        data: {
+          userId: ctx.session.user.id,
+          name: input.name,
+          shared: input.shared,
+          settings: input.settings,
+        },
+      });
+    }),
+
+  update: protectedProcedure
+    .input(themeSchema.partial().extend({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+      await requireOwner(ctx.db, id, ctx.session.user.id);
+
+      if (data.shared) {
+        await requireAdmin(ctx.db, ctx.session.user.id);
+      }
+
+      return ctx.db.exportTheme.update({
+        where: { id },
+        data,
+      });
+    }),
+
+  // Exports made with the theme keep their files, they just lose the link
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireOwner(ctx.db, input.id, ctx.session.user.id);
+      await ctx.db.exportTheme.delete({ where: { id: input.id } });
+      return { success: true };
+    }),
+
+  // Sample document rendered with unsaved settings, base64 encoded
+  preview: protectedProcedure
+    .input(
+      z.object({
+        settings: exportThemeSettingsSchema,
+        format: z.enum(["PDF", "HTML"]).default("HTML"),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      return ExportThemeService.preview(input.settings, input.format);
+    }),
+});
+
+async function requireOwner(db: PrismaClient, themeId: string, userId: string) {
+  const theme = await db.exportTheme.findFirst({
+    where: { id: themeId, userId },
+    select: { id: true },
+  });
+
+  if (!theme) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Export theme not found",
+    });
+  }
+}
+
+async function requireAdmin(db: PrismaClient, userId: string) {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  });
+
+  if (user?.role !== "ADMIN") {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only admins can share themes with the team",
+    });
+  }
+}
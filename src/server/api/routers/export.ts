@@ -16,6 +16,10 @@ import {
 } from "~/lib/export";
 import { Queue } from "bullmq";
 import { env } from "~/env";
+import { ExportDownloadService } from "~/server/services/exports";
+import { ExportThemeService } from "~/server/services/exports/themes";
+import { StorageManager } from "~/server/services/storage";
+import { WebhookService } from "~/server/services/webhooks";
 
 // Create schema for export
 const createExportSchema = z.object({
@@ -37,7 +41,12 @@ const baseCrudRouter = createCRUDRouter({
     // Verify document ownership
     const document = await ctx.db.document.findUnique({
       where: { id: data.documentId },
-      select: { userId: true, status: true, type: true },
+      select: {
+        userId: true,
+        status: true,
+        type: true,
+        customType: { select: { name: true, exportFormats: true } },
+      },
     });
 
     if (!document) {
@@ -62,7 +71,7 @@ const baseCrudRouter = createCRUDRouter({
     }
 
     // Check if format is supported for this document type
-    const availableFormats = getAvailableExportFormats(document.type);
+    const availableFormats = getAvailableExportFormats(document.type, document.customType);
     if (!availableFormats.includes(data.format)) {
       throw new TRPCError({
         code: "BAD_REQUEST",
@@ -100,12 +109,17 @@ const baseCrudRouter = createCRUDRouter({
 const extraExportRouter = createTRPCRouter({
   // Create export with immediate processing (no queue)
   createImmediate: protectedProcedure
-    .input(createExportSchema)
+    .input(
+      createExportSchema.extend({
+        // One of the user's or the team's export themes
+        themeId: z.string().optional(),
+      }),
+    )
     .mutation(async ({ ctx, input }) => {
       // Verify ownership and status
       const document = await ctx.db.document.findUnique({
         where: { id: input.documentId },
-        include: { exports: true },
+        include: { exports: true, customType: true },
       });
 
       if (!document) {
@@ -129,16 +143,27 @@ const extraExportRouter = createTRPCRouter({
         });
       }
 
-      // Check for recent export of same format
+      const theme = input.themeId
+        ? await ExportThemeService.resolve(ctx.session.user.id, input.themeId)
+        : undefined;
+
+      // Check for recent export of same format and theme, made after the
+      // theme last changed
       const recentExport = document.exports.find(
         (exp) =>
           exp.format === input.format &&
           exp.status === "COMPLETED" &&
+          !!exp.storageKey &&
+          exp.themeId === (theme?.id ?? null) &&
+          (!theme || exp.createdAt > theme.updatedAt) &&
           exp.createdAt > new Date(Date.now() - 24 * 60 * 60 * 1000), // 24 hours
       );
 
       if (recentExport) {
-        return recentExport;
+        return {
+          ...recentExport,
+          url: ExportDownloadService.signUrl(recentExport).url,
+        };
       }
 
       try {
@@ -146,21 +171,44 @@ const extraExportRouter = createTRPCRouter({
         const result = await exportDocument(document, input.format, {
           author: ctx.session.user.name || ctx.session.user.email || undefined,
           saveToFile: true,
+          storage: await StorageManager.getPreferredBackend(ctx.session.user.id),
+          theme: theme?.settings,
         });
 
         // Create export record
-        const exportRecord = await ctx.db.export.create({
+        const created = await ctx.db.export.create({
           data: {
             documentId: input.documentId,
             userId: ctx.session.user.id,
             format: input.format,
             status: ExportStatus.COMPLETED,
-            url: `/api/export/download/${result.filename}`,
+            storageKey: result.storageKey,
+            storageProvider: result.storageProvider,
+            themeId: theme?.id,
             expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
           },
         });
+        const exportRecord = await ctx.db.export.update({
+          where: { id: created.id },
+          data: { url: ExportDownloadService.downloadPath(created.id) },
+        });
+
+        // Deliveries are stored and can be replayed, so the link in them is
+        // as short-lived as the owner's
+        const webhookUrl = ExportDownloadService.signUrl(exportRecord);
+        await WebhookService.dispatch(ctx.session.user.id, "export.ready", {
+          id: exportRecord.id,
+          documentId: document.id,
+          documentTitle: document.title,
+          format: exportRecord.format,
+          url: `${env.NEXT_PUBLIC_APP_URL}${webhookUrl.url}`,
+          expiresAt: webhookUrl.expiresAt,
+        });
 
-        return exportRecord;
+        return {
+          ...exportRecord,
+          url: ExportDownloadService.signUrl(exportRecord).url,
+        };
       } catch (error) {
         // Create failed export record
         await ctx.db.export.create({
@@ -169,6 +217,7 @@ const extraExportRouter = createTRPCRouter({
             userId: ctx.session.user.id,
             format: input.format,
             status: ExportStatus.FAILED,
+            themeId: theme?.id,
           },
         });
 
@@ -228,7 +277,11 @@ const extraExportRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       const document = await ctx.db.document.findUnique({
         where: { id: input.documentId },
-        select: { type: true, userId: true },
+        select: {
+          type: true,
+          userId: true,
+          customType: { select: { name: true, exportFormats: true } },
+        },
       });
 
       if (!document) {
@@ -245,22 +298,64 @@ const extraExportRouter = createTRPCRouter({
         });
       }
 
-      return getAvailableExportFormats(document.type);
+      return getAvailableExportFormats(document.type, document.customType);
     }),
 
-  // Clean up expired exports
-  cleanupExpired: protectedProcedure.mutation(async ({ ctx }) => {
-    const result = await ctx.db.export.deleteMany({
-      where: {
-        userId: ctx.session.user.id,
-        expiresAt: {
-          lt: new Date(),
+  // Exports of a document with their download counts, newest first
+  listForDocument: protectedProcedure
+    .input(z.object({ documentId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db.export.findMany({
+        where: { documentId: input.documentId, userId: ctx.session.user.id },
+        select: {
+          id: true,
+          format: true,
+          status: true,
+          createdAt: true,
+          expiresAt: true,
+          downloadCount: true,
+          lastDownloadedAt: true,
+          shareExpiresAt: true,
         },
-      },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+      });
+    }),
+
+  // Short-lived signed link to download one of the user's exports
+  getDownloadUrl: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      return ExportDownloadService.getDownloadUrl(ctx.session.user.id, input.id);
+    }),
+
+  // Link anyone can download the export with until it expires or is revoked
+  share: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        expiresInHours: z.number().int().min(1).max(24 * 7).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return ExportDownloadService.share(ctx.session.user.id, input.id, input.expiresInHours);
+    }),
+
+  revokeShare: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ExportDownloadService.revokeShare(ctx.session.user.id, input.id);
+      return { success: true };
+    }),
+
+  // Expire the user's exports now instead of waiting for the hourly sweep
+  cleanupExpired: protectedProcedure.mutation(async ({ ctx }) => {
+    const expired = await ExportDownloadService.expireDue({
+      userId: ctx.session.user.id,
     });
 
     return {
-      deleted: result.count,
+      deleted: expired,
     };
   }),
 
@@ -0,0 +1,239 @@
+//src/server/api/routers/knowledge-collection.ts
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { CollectionAccess } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { KnowledgeCollectionService } from "~/server/services/rag/collections";
+
+const collectionSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+});
+
+const userSelect = { id: true, name: true, email: true } as const;
+
+export const knowledgeCollectionRouter = createTRPCRouter({
+  // Collections the user owns and those shared with them
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.session.user.id;
+
+    const collections = await ctx.db.knowledgeCollection.findMany({
+      where: {
+        OR: [{ ownerId: userId }, { members: { some: { userId } } }],
+      },
+      include: {
+        owner: { select: userSelect },
+        members: { where: { userId }, select: { access: true } },
+        _count: { select: { sources: true, members: true } },
+      },
+      orderBy: { name: "asc" },
+    });
+
+    return collections.map(({ members, ...collection }) => ({
+      ...collection,
+      role:
+        collection.ownerId === userId
+          ? ("owner" as const)
+          : members[0]?.access === CollectionAccess.EDIT
+            ? ("edit" as const)
+            : ("read" as const),
+    }));
+  }),
+
+  // A collection with its sources and who it is shared with
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const role = await new KnowledgeCollectionService(ctx.db).requireRole(
+        input.id,
+        ctx.session.user.id,
+        "read",
+      );
+
+      const collection = await ctx.db.knowledgeCollection.findUniqueOrThrow({
+        where: { id: input.id },
+        include: {
+          owner: { select: userSelect },
+          sources: {
+            select: {
+              id: true,
+              name: true,
+              type: true,
+              status: true,
+              userId: true,
+              createdAt: true,
+            },
+            orderBy: { createdAt: "desc" },
+          },
+          members: {
+            include: { user: { select: userSelect } },
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      });
+
+      return { ...collection, role };
+    }),
+
+  create: protectedProcedure
+    .input(collectionSchema)
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.knowledgeCollection.create({
+        data: {
+          ownerId: ctx.session.user.id,
+          name: input.name,
+          description: input.description?.trim() || null,
+        },
+      });
+    }),
+
+  update: protectedProcedure
+    .input(collectionSchema.partial().extend({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await new KnowledgeCollectionService(ctx.db).requireRole(
+        input.id,
+        ctx.session.user.id,
+        "edit",
+      );
+
+      return ctx.db.knowledgeCollection.update({
+        where: { id: input.id },
+        data: {
+          name: input.name,
+          description:
+            input.description === undefined
+              ? undefined
+              : input.description.trim() || null,
+        },
+      });
+    }),
+
+  // Deleting a collection leaves its sources in their owners' libraries
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await new KnowledgeCollectionService(ctx.db).requireRole(
+        input.id,
+        ctx.session.user.id,
+        "owner",
+      );
+
+      await ctx.db.knowledgeCollection.delete({ where: { id: input.id } });
+      return { success: true };
+    }),
+
+  // Add sources from the caller's own library
+  addSources: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        sourceIds: z.array(z.string()).min(1).max(100),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      await new KnowledgeCollectionService(ctx.db).requireRole(input.id, userId, "edit");
+
+      const sources = await ctx.db.knowledgeSource.findMany({
+        where: { id: { in: input.sourceIds }, userId },
+        select: { id: true },
+      });
+
+      if (sources.length !== new Set(input.sourceIds).size) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "One or more knowledge sources were not found",
+        });
+      }
+
+      await ctx.db.knowledgeCollection.update({
+        where: { id: input.id },
+        data: { sources: { connect: sources } },
+      });
+
+      return { added: sources.length };
+    }),
+
+  // Take a source out of the collection. The source itself is kept.
+  removeSource: protectedProcedure
+    .input(z.object({ id: z.string(), sourceId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await new KnowledgeCollectionService(ctx.db).requireRole(
+        input.id,
+        ctx.session.user.id,
+        "edit",
+      );
+
+      await ctx.db.knowledgeCollection.update({
+        where: { id: input.id },
+        data: { sources: { disconnect: { id: input.sourceId } } },
+      });
+
+      return { success: true };
+    }),
+
+  // Share with another user by email, or change their access
+  share: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        email: z.string().trim().email(),
+        access: z.nativeEnum(CollectionAccess).default(CollectionAccess.READ),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      await new KnowledgeCollectionService(ctx.db).requireRole(input.id, userId, "owner");
+
+      const user = await ctx.db.user.findUnique({
+        where: { email: input.email },
+        select: userSelect,
+      });
+
+      if (!user) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "No user with that email address",
+        });
+      }
+
+      if (user.id === userId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "You already own this collection",
+        });
+      }
+
+      return ctx.db.knowledgeCollectionMember.upsert({
+        where: { collectionId_userId: { collectionId: input.id, userId: user.id } },
+        update: { access: input.access },
+        create: { collectionId: input.id, userId: user.id, access: input.access },
+        include: { user: { select: userSelect } },
+      });
+    }),
+
+  // The owner removes a member, or a member leaves the collection
+  unshare: protectedProcedure
+    .input(z.object({ id: z.string(), userId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      if (input.userId !== userId) {
+        await new KnowledgeCollectionService(ctx.db).requireRole(input.id, userId, "owner");
+      }
+
+      const { count } = await ctx.db.knowledgeCollectionMember.deleteMany({
+        where: { collectionId: input.id, userId: input.userId },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "That user is not a member of this collection",
+        });
+      }
+
+      return { success: true };
+    }),
+});
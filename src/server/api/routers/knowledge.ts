@@ -2,11 +2,12 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
+import { Queue } from "bullmq";
 import { RAGService } from "~/server/services/rag";
 import { SourceType, ProcessingStatus } from "@prisma/client";
-import { S3StorageProvider } from "~/server/services/storage/s3-provider";
-import { LocalStorageProvider } from "~/server/services/storage/local-provider";
-import type { StorageProvider } from "~/server/services/storage/types";
+import { StorageManager } from "~/server/services/storage";
+import { WebCrawlService } from "~/server/services/crawl";
+import { hashContent } from "~/server/services/rag/ingestion/dedupe";
 
 const uploadKnowledgeSchema = z.object({
     name: z.string().min(1).max(255),
@@ -18,6 +19,28 @@ const uploadKnowledgeSchema = z.object({
     mimeType: z.string().optional(),
     tags: z.array(z.string()).default([]),
     metadata: z.record(z.any()).optional(),
+    // Add text even when the library already has a source with the same text
+    allowDuplicate: z.boolean().default(false),
+});
+
+const replaceKnowledgeSchema = z.object({
+    id: z.string(),
+    content: z.string().optional(),
+    fileBase64: z.string().optional(),
+    fileName: z.string().optional(),
+    mimeType: z.string().optional(),
+}).refine(
+    (input) => !!input.content || (!!input.fileBase64 && !!input.fileName),
+    { message: "Provide either content or a file" }
+);
+
+const crawlWebsiteSchema = z.object({
+    url: z.string().url(),
+    maxDepth: z.number().int().min(0).max(5).default(2),
+    maxPages: z.number().int().min(1).max(200).default(25),
+    // Omit to crawl once
+    recrawlIntervalHours: z.number().int().min(1).max(24 * 30).optional(),
+    tags: z.array(z.string()).default([]),
 });
 
 const searchKnowledgeSchema = z.object({
@@ -25,6 +48,7 @@ const searchKnowledgeSchema = z.object({
     limit: z.number().min(1).max(20).default(5),
     threshold: z.number().min(0).max(1).default(0.7),
     sourceIds: z.array(z.string()).optional(),
+    collectionIds: z.array(z.string()).optional(),
     tags: z.array(z.string()).optional(),
 });
 
@@ -36,6 +60,22 @@ export const knowledgeRouter = createTRPCRouter({
             const userId = ctx.session.user.id;
             const ragService = new RAGService(ctx.db);
 
+            // Pasted text can be checked now; files are checked once their
+            // text is extracted and show up in duplicates
+            if (input.content && input.type !== SourceType.WEBSITE && !input.allowDuplicate) {
+                const duplicate = await ctx.db.knowledgeSource.findFirst({
+                    where: { userId, contentHash: hashContent(input.content) },
+                    select: { id: true, name: true },
+                });
+
+                if (duplicate) {
+                    throw new TRPCError({
+                        code: 'CONFLICT',
+                        message: `This content is already in your library as "${duplicate.name}"`,
+                    });
+                }
+            }
+
             try {
                 // Create knowledge source record
                 const knowledgeSource = await ctx.db.knowledgeSource.create({
@@ -54,10 +94,10 @@ export const knowledgeRouter = createTRPCRouter({
 
                 // Handle file storage if provided
                 if (input.fileBase64 && input.fileName) {
-                    const storage = await getStorageProvider(ctx, userId);
+                    const backend = await StorageManager.getPreferredBackend(userId);
                     const buffer = Buffer.from(input.fileBase64, 'base64');
 
-                    const storageKey = await storage.upload(
+                    const storageKey = await StorageManager.getProvider(backend).upload(
                         buffer,
                         `knowledge/${userId}/${knowledgeSource.id}/${input.fileName}`
                     );
@@ -66,6 +106,7 @@ export const knowledgeRouter = createTRPCRouter({
                         where: { id: knowledgeSource.id },
                         data: {
                             storageKey,
+                            storageProvider: backend,
                             fileSize: buffer.length,
                         },
                     });
@@ -81,7 +122,9 @@ export const knowledgeRouter = createTRPCRouter({
                 }
 
                 // Queue for processing
-                const queue = ctx.queue.get('rag-processing');
+                const queue = new Queue('rag-processing', {
+                    connection: ctx.redis,
+                });
                 await queue.add('process-knowledge', {
                     knowledgeSourceId: knowledgeSource.id,
                     userId,
@@ -101,6 +144,130 @@ export const knowledgeRouter = createTRPCRouter({
             }
         }),
 
+    // Replace a source's file or text in place. The id, tags and document
+    // links are kept, and only chunks whose text changed are re-embedded.
+    replace: protectedProcedure
+        .input(replaceKnowledgeSchema)
+        .mutation(async ({ ctx, input }) => {
+            const userId = ctx.session.user.id;
+
+            const source = await ctx.db.knowledgeSource.findFirst({
+                where: {
+                    id: input.id,
+                    userId,
+                },
+            });
+
+            if (!source) {
+                throw new TRPCError({
+                    code: 'NOT_FOUND',
+                    message: 'Knowledge source not found',
+                });
+            }
+
+            if (source.crawlId) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: 'Crawled pages are updated by re-crawling their site',
+                });
+            }
+
+            if (input.fileBase64 && input.fileName) {
+                const backend = await StorageManager.getPreferredBackend(userId);
+                const buffer = Buffer.from(input.fileBase64, 'base64');
+
+                const storageKey = await StorageManager.getProvider(backend).upload(
+                    buffer,
+                    `knowledge/${userId}/${source.id}/${input.fileName}`
+                );
+
+                const replacedInPlace =
+                    source.storageKey === storageKey && source.storageProvider === backend;
+                if (source.storageKey && !replacedInPlace) {
+                    try {
+                        await StorageManager.getProvider(source.storageProvider).delete(source.storageKey);
+                    } catch (error) {
+                        console.error('Failed to delete replaced file:', error);
+                    }
+                }
+
+                await ctx.db.knowledgeSource.update({
+                    where: { id: source.id },
+                    data: {
+                        storageKey,
+                        storageProvider: backend,
+                        originalName: input.fileName,
+                        mimeType: input.mimeType,
+                        fileSize: buffer.length,
+                        // Extracted again from the new file
+                        content: null,
+                        status: ProcessingStatus.PENDING,
+                        error: null,
+                    },
+                });
+            } else {
+                await ctx.db.knowledgeSource.update({
+                    where: { id: source.id },
+                    data: {
+                        content: input.content,
+                        status: ProcessingStatus.PENDING,
+                        error: null,
+                    },
+                });
+            }
+
+            const queue = new Queue('rag-processing', {
+                connection: ctx.redis,
+            });
+            await queue.add('process-knowledge', {
+                knowledgeSourceId: source.id,
+                userId,
+            });
+
+            return {
+                id: source.id,
+                status: 'processing',
+                message: 'Knowledge source replaced and queued for processing',
+            };
+        }),
+
+    // Groups of sources in the user's library with identical text
+    duplicates: protectedProcedure.query(async ({ ctx }) => {
+        const userId = ctx.session.user.id;
+
+        const groups = await ctx.db.knowledgeSource.groupBy({
+            by: ['contentHash'],
+            where: {
+                userId,
+                contentHash: { not: null },
+            },
+            _count: { _all: true },
+            having: {
+                contentHash: { _count: { gt: 1 } },
+            },
+        });
+
+        const sources = await ctx.db.knowledgeSource.findMany({
+            where: {
+                userId,
+                contentHash: { in: groups.map((group) => group.contentHash!) },
+            },
+            select: {
+                id: true,
+                name: true,
+                contentHash: true,
+                createdAt: true,
+            },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        return groups.map((group) => ({
+            contentHash: group.contentHash!,
+            // Oldest first; later ones are the copies
+            sources: sources.filter((source) => source.contentHash === group.contentHash),
+        }));
+    }),
+
     // Search across knowledge sources
     search: protectedProcedure
         .input(searchKnowledgeSchema)
@@ -114,6 +281,7 @@ export const knowledgeRouter = createTRPCRouter({
                     limit: input.limit,
                     threshold: input.threshold,
                     sourceIds: input.sourceIds,
+                    collectionIds: input.collectionIds,
                 });
 
                 // Enhance results with source metadata
@@ -245,8 +413,7 @@ export const knowledgeRouter = createTRPCRouter({
             // Delete from storage if exists
             if (source.storageKey) {
                 try {
-                    const storage = await getStorageProvider(ctx, userId);
-                    await storage.delete(source.storageKey);
+                    await StorageManager.getProvider(source.storageProvider).delete(source.storageKey);
                 } catch (error) {
                     console.error('Failed to delete from storage:', error);
                 }
@@ -306,22 +473,71 @@ export const knowledgeRouter = createTRPCRouter({
                 progress,
             };
         }),
-});
 
-// Helper to get storage provider based on user preferences
-async function getStorageProvider(ctx: any, userId: string): Promise<StorageProvider> {
-    const preferences = await ctx.db.userPreferences.findUnique({
-        where: { userId },
-        select: { preferredStorage: true },
-    });
-
-    const storageType = preferences?.preferredStorage || 'local';
-
-    switch (storageType) {
-        case 's3':
-            return new S3StorageProvider();
-        case 'local':
-        default:
-            return new LocalStorageProvider();
-    }
-}
\ No newline at end of file
+    // Crawl a website into one knowledge source per page
+    crawl: protectedProcedure
+        .input(crawlWebsiteSchema)
+        .mutation(async ({ ctx, input }) => {
+            return WebCrawlService.start(ctx.session.user.id, input);
+        }),
+
+    // List user's website crawls
+    listCrawls: protectedProcedure.query(async ({ ctx }) => {
+        return ctx.db.webCrawl.findMany({
+            where: { userId: ctx.session.user.id },
+            orderBy: { createdAt: 'desc' },
+            include: {
+                _count: {
+                    select: { sources: true },
+                },
+            },
+        });
+    }),
+
+    // Crawl again now; only changed pages are re-embedded
+    recrawl: protectedProcedure
+        .input(z.object({ id: z.string() }))
+        .mutation(async ({ ctx, input }) => {
+            const crawl = await ctx.db.webCrawl.findFirst({
+                where: {
+                    id: input.id,
+                    userId: ctx.session.user.id,
+                },
+            });
+
+            if (!crawl) {
+                throw new TRPCError({
+                    code: 'NOT_FOUND',
+                    message: 'Crawl not found',
+                });
+            }
+
+            await WebCrawlService.queueCrawl(crawl.id);
+            return { success: true };
+        }),
+
+    // Delete a crawl and the knowledge sources of its pages
+    deleteCrawl: protectedProcedure
+        .input(z.object({ id: z.string() }))
+        .mutation(async ({ ctx, input }) => {
+            const crawl = await ctx.db.webCrawl.findFirst({
+                where: {
+                    id: input.id,
+                    userId: ctx.session.user.id,
+                },
+            });
+
+            if (!crawl) {
+                throw new TRPCError({
+                    code: 'NOT_FOUND',
+                    message: 'Crawl not found',
+                });
+            }
+
+            await ctx.db.webCrawl.delete({
+                where: { id: input.id },
+            });
+
+            return { success: true };
+        }),
+});
@@ -0,0 +1,177 @@
+//src/server/api/routers/model-catalog.ts
+
+import { z } from "zod";
+import { DocumentType } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  adminProcedure,
+} from "~/server/api/trpc";
+import { ModelCatalogService } from "~/server/services/llm/model-catalog";
+import { estimateDocumentTokens } from "~/server/services/budget";
+import { loadCustomDocumentType } from "~/server/services/document/custom-types";
+
+// Local models are discovered from the endpoint, not stored in the catalog
+const providerSchema = z.enum([
+  "openai",
+  "anthropic",
+  "gemini",
+  "perplexity",
+  "llama",
+]);
+
+const modelSchema = z.object({
+  provider: providerSchema,
+  modelId: z.string().min(1).max(200),
+  name: z.string().min(1).max(200),
+  contextWindow: z.number().int().positive(),
+  maxOutput: z.number().int().positive(),
+  inputCostPer1k: z.number().min(0),
+  outputCostPer1k: z.number().min(0),
+  capabilities: z.array(z.string().min(1)).default([]),
+  recommended: z.boolean().default(false),
+  enabled: z.boolean().default(true),
+});
+
+export const modelCatalogRouter = createTRPCRouter({
+  // Enabled models, for provider and model pickers
+  list: protectedProcedure
+    .input(z.object({ provider: providerSchema.optional() }).optional())
+    .query(async ({ input }) => {
+      return ModelCatalogService.list(input?.provider);
+    }),
+
+  // Estimated cost of generating a document with the given model
+  estimate: protectedProcedure
+    .input(
+      z.object({
+        provider: providerSchema.or(z.literal("local")),
+        model: z.string(),
+        documentType: z.nativeEnum(DocumentType),
+        customTypeId: z.string().optional(),
+        outputLength: z.enum(["short", "medium", "long"]).default("medium"),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const customType =
+        input.documentType === DocumentType.CUSTOM
+          ? await loadCustomDocumentType(ctx.db, input.customTypeId ?? "")
+          : null;
+
+      const estimatedTokens = estimateDocumentTokens(
+        input.documentType,
+        { outputLength: input.outputLength },
+        customType,
+      );
+
+      return {
+        estimatedTokens,
+        estimatedCost: await ModelCatalogService.estimateCost(
+          input.provider,
+          input.model,
+          estimatedTokens,
+        ),
+      };
+    }),
+
+  // Admin: every model including disabled ones
+  adminList: adminProcedure.query(async ({ ctx }) => {
+    return ctx.db.modelCatalog.findMany({
+      orderBy: [{ provider: "asc" }, { name: "asc" }],
+    });
+  }),
+
+  // Admin: add a model
+  create: adminProcedure.input(modelSchema).mutation(async ({ ctx, input }) => {
+    const existing = await ctx.db.modelCatalog.findUnique({
+      where: {
+        provider_modelId: { provider: input.provider, modelId: input.modelId },
+      },
+    });
+
+    if (existing) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: `${input.provider} model ${input.modelId} already exists`,
+      });
+    }
+
+    const model = await ctx.db.modelCatalog.create({ data: input });
+    ModelCatalogService.invalidate();
+
+    return model;
+  }),
+
+  // Admin: edit a model's details or pricing
+  update: adminProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        data: modelSchema.partial(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.modelCatalog.findUnique({
+        where: { id: input.id },
+      });
+
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Model not found",
+        });
+      }
+
+      const provider = input.data.provider ?? existing.provider;
+      const modelId = input.data.modelId ?? existing.modelId;
+
+      if (provider !== existing.provider || modelId !== existing.modelId) {
+        const conflict = await ctx.db.modelCatalog.findUnique({
+          where: { provider_modelId: { provider, modelId } },
+        });
+
+        if (conflict) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `${provider} model ${modelId} already exists`,
+          });
+        }
+      }
+
+      const model = await ctx.db.modelCatalog.update({
+        where: { id: input.id },
+        data: input.data,
+      });
+      ModelCatalogService.invalidate();
+
+      return model;
+    }),
+
+  // Admin: remove a model. Past LLM calls keep the cost recorded at the time.
+  delete: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.modelCatalog.findUnique({
+        where: { id: input.id },
+      });
+
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Model not found",
+        });
+      }
+
+      await ctx.db.modelCatalog.delete({ where: { id: input.id } });
+      ModelCatalogService.invalidate();
+
+      return { success: true };
+    }),
+
+  // Admin: re-add any default models that were deleted
+  restoreDefaults: adminProcedure.mutation(async () => {
+    const added = await ModelCatalogService.seedDefaults();
+    return { added };
+  }),
+});
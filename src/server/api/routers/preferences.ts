@@ -4,18 +4,24 @@ import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
 import { DocumentType } from "@prisma/client";
-import type { ProviderName } from "~/server/services/llm";
+import { LLMService, type ProviderName } from "~/server/services/llm";
+import { BudgetService } from "~/server/services/budget";
+import type { ProviderModelPreference } from "~/types/preferences";
 
 // Validation schemas
+const providerSchema = z.enum(['openai', 'anthropic', 'gemini', 'perplexity', 'llama', 'local']);
+
 const providerModelSchema = z.object({
-    provider: z.enum(['openai', 'anthropic', 'gemini', 'perplexity', 'llama']),
+    provider: providerSchema,
     model: z.string(),
+    // Tried in order when the provider fails or its circuit is open
+    fallbackProviders: z.array(providerSchema).max(5).optional(),
 });
 
 const providerModelsSchema = z.record(z.nativeEnum(DocumentType), providerModelSchema);
 
 const userPreferencesSchema = z.object({
-    defaultProvider: z.enum(['openai', 'anthropic', 'gemini', 'perplexity', 'llama']).optional(),
+    defaultProvider: providerSchema.optional(),
     providerModels: providerModelsSchema.optional(),
     temperature: z.number().min(0).max(2).optional(),
     maxTokensOverride: z.number().positive().optional().nullable(),
@@ -57,7 +63,7 @@ export const preferencesRouter = createTRPCRouter({
         return {
             ...DEFAULT_PREFERENCES,
             ...preferences,
-            providerModels: preferences.providerModels as Record<DocumentType, { provider: ProviderName; model: string }>,
+            providerModels: preferences.providerModels as Record<DocumentType, ProviderModelPreference>,
         };
     }),
 
@@ -69,18 +75,18 @@ export const preferencesRouter = createTRPCRouter({
                 where: { userId: ctx.session.user.id },
                 update: {
                     ...(input as any),
-                    providerModels: input.providerModels ? JSON.stringify(input.providerModels) : undefined,
+                    providerModels: input.providerModels,
                 },
                 create: {
                     userId: ctx.session.user.id,
                     ...(input as any),
-                    providerModels: input.providerModels ? JSON.stringify(input.providerModels) : {},
+                    providerModels: input.providerModels ?? {},
                 },
             });
 
             return {
                 ...updated,
-                providerModels: updated.providerModels as Record<DocumentType, { provider: ProviderName; model: string }>,
+                providerModels: updated.providerModels as Record<DocumentType, ProviderModelPreference>,
             };
         }),
 
@@ -133,42 +139,19 @@ export const preferencesRouter = createTRPCRouter({
 
     // Check if user is approaching cost limit
     checkCostLimit: protectedProcedure.query(async ({ ctx }) => {
-        const preferences = await ctx.db.userPreferences.findUnique({
-            where: { userId: ctx.session.user.id },
-            select: { monthlyCostLimit: true },
-        });
+        const status = await BudgetService.getStatus(ctx.session.user.id);
 
-        if (!preferences?.monthlyCostLimit) {
+        if (!status.limit) {
             return { withinLimit: true, percentage: 0 };
         }
 
-        // Get current month's usage
-        const startOfMonth = new Date();
-        startOfMonth.setDate(1);
-        startOfMonth.setHours(0, 0, 0, 0);
-
-        const usage = await ctx.db.lLMCall.aggregate({
-            where: {
-                document: {
-                    userId: ctx.session.user.id,
-                },
-                createdAt: {
-                    gte: startOfMonth,
-                },
-            },
-            _sum: {
-                cost: true,
-            },
-        });
-
-        const currentCost = usage._sum.cost || 0;
-        const percentage = (currentCost / preferences.monthlyCostLimit) * 100;
-
         return {
-            withinLimit: currentCost < preferences.monthlyCostLimit,
-            percentage: Math.round(percentage),
-            currentCost,
-            limit: preferences.monthlyCostLimit,
+            // Running generations hold part of the budget until they settle
+            withinLimit: (status.available ?? 0) > 0,
+            percentage: Math.round(status.percentage),
+            currentCost: status.spent,
+            reserved: status.reserved,
+            limit: status.limit,
         };
     }),
 
@@ -182,6 +165,22 @@ export const preferencesRouter = createTRPCRouter({
             gemini: !!env.GOOGLE_API_KEY,
             perplexity: !!env.PERPLEXITY_API_KEY,
             llama: !!(env.REPLICATE_API_TOKEN || env.TOGETHER_API_KEY || env.GROQ_API_KEY),
+            // No key needed, available whenever the endpoint serves a model
+            local: await LLMService.getLocalModels()
+                .then(models => models.length > 0)
+                .catch(() => false),
         };
     }),
+
+    // Models served by the local OpenAI-compatible endpoint
+    localModels: protectedProcedure.query(async () => {
+        try {
+            return await LLMService.getLocalModels();
+        } catch (error) {
+            throw new TRPCError({
+                code: 'PRECONDITION_FAILED',
+                message: `Local model endpoint unreachable: ${error instanceof Error ? error.message : 'unknown error'}`,
+            });
+        }
+    }),
 });
\ No newline at end of file
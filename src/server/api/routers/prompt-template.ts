@@ -0,0 +1,205 @@
+//src/server/api/routers/prompt-template.ts
+
+import { z } from "zod";
+import { DocumentType, ExperimentStatus, PromptStage } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, adminProcedure } from "~/server/api/trpc";
+import { PromptTemplateService } from "~/server/services/llm/prompt-templates";
+
+// CUSTOM documents keep their prompts on the CustomDocumentType
+const builtInTypeSchema = z
+  .nativeEnum(DocumentType)
+  .refine((type) => type !== DocumentType.CUSTOM, {
+    message: "Custom document types define their prompts on the type",
+  });
+
+export const promptTemplateRouter = createTRPCRouter({
+  // Admin: every stored version, newest first within each type and stage
+  list: adminProcedure
+    .input(z.object({ documentType: builtInTypeSchema.optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      return ctx.db.promptTemplate.findMany({
+        where: { documentType: input?.documentType },
+        orderBy: [{ documentType: "asc" }, { stage: "asc" }, { version: "desc" }],
+      });
+    }),
+
+  // Admin: save a new version, optionally making it the active one
+  create: adminProcedure
+    .input(
+      z.object({
+        documentType: builtInTypeSchema,
+        stage: z.nativeEnum(PromptStage),
+        template: z.string().min(1).max(20000),
+        notes: z.string().max(500).optional(),
+        activate: z.boolean().default(false),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const version = await PromptTemplateService.nextVersion(
+        input.documentType,
+        input.stage,
+      );
+
+      return ctx.db.$transaction(async (tx) => {
+        if (input.activate) {
+          await tx.promptTemplate.updateMany({
+            where: { documentType: input.documentType, stage: input.stage },
+            data: { active: false },
+          });
+        }
+
+        return tx.promptTemplate.create({
+          data: {
+            documentType: input.documentType,
+            stage: input.stage,
+            template: input.template,
+            notes: input.notes,
+            version,
+            active: input.activate,
+            createdBy: ctx.session.user.id,
+          },
+        });
+      });
+    }),
+
+  // Admin: make a version the one generations use for its type and stage
+  activate: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const template = await ctx.db.promptTemplate.findUnique({
+        where: { id: input.id },
+      });
+
+      if (!template) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Prompt template not found",
+        });
+      }
+
+      await ctx.db.$transaction([
+        ctx.db.promptTemplate.updateMany({
+          where: { documentType: template.documentType, stage: template.stage },
+          data: { active: false },
+        }),
+        ctx.db.promptTemplate.update({
+          where: { id: template.id },
+          data: { active: true },
+        }),
+      ]);
+
+      return { success: true };
+    }),
+
+  // Admin: go back to the built-in prompt for a version's type and stage
+  deactivate: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.promptTemplate.update({
+        where: { id: input.id },
+        data: { active: false },
+      });
+
+      return { success: true };
+    }),
+
+  // Admin: experiments with their variants, running ones first
+  listExperiments: adminProcedure.query(async ({ ctx }) => {
+    return ctx.db.promptExperiment.findMany({
+      include: {
+        variantA: { select: { id: true, version: true } },
+        variantB: { select: { id: true, version: true } },
+        _count: { select: { assignments: true } },
+      },
+      orderBy: [{ status: "asc" }, { startedAt: "desc" }],
+    });
+  }),
+
+  // Admin: split generations of a type between two prompts for one stage
+  createExperiment: adminProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(100),
+        documentType: builtInTypeSchema,
+        stage: z.nativeEnum(PromptStage),
+        // Omit to compare against the current prompt
+        variantAId: z.string().optional(),
+        variantBId: z.string(),
+        trafficSplit: z.number().min(0.05).max(0.95).default(0.5),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.variantAId === input.variantBId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Variants A and B must be different versions",
+        });
+      }
+
+      const variantIds = [input.variantBId, input.variantAId].filter(
+        (id): id is string => !!id,
+      );
+      const templates = await ctx.db.promptTemplate.findMany({
+        where: {
+          id: { in: variantIds },
+          documentType: input.documentType,
+          stage: input.stage,
+        },
+      });
+
+      if (templates.length !== variantIds.length) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Both variants must be versions of the same document type and stage",
+        });
+      }
+
+      const running = await ctx.db.promptExperiment.findFirst({
+        where: {
+          documentType: input.documentType,
+          stage: input.stage,
+          status: ExperimentStatus.RUNNING,
+        },
+      });
+
+      if (running) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `Experiment "${running.name}" is already running for this stage`,
+        });
+      }
+
+      return ctx.db.promptExperiment.create({
+        data: { ...input, createdBy: ctx.session.user.id },
+      });
+    }),
+
+  // Admin: stop assigning new documents. Results stay available.
+  stopExperiment: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const experiment = await ctx.db.promptExperiment.findUnique({
+        where: { id: input.id },
+      });
+
+      if (!experiment) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Experiment not found",
+        });
+      }
+
+      return ctx.db.promptExperiment.update({
+        where: { id: input.id },
+        data: { status: ExperimentStatus.STOPPED, endedAt: new Date() },
+      });
+    }),
+
+  // Admin: quality score, cost and user rating per variant
+  experimentResults: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input }) => {
+      return PromptTemplateService.getResults(input.id);
+    }),
+});
@@ -0,0 +1,82 @@
+//src/server/api/routers/storage.ts
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { STORAGE_BACKENDS, StorageManager } from "~/server/services/storage";
+import { StorageMigrationService } from "~/server/services/storage/migration";
+
+const backendSchema = z.enum(STORAGE_BACKENDS);
+
+export const storageRouter = createTRPCRouter({
+  // Configured backends, the user's current one and where their files are
+  overview: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.session.user.id;
+
+    const [preferred, sources, exported] = await Promise.all([
+      StorageManager.getPreferredBackend(userId),
+      ctx.db.knowledgeSource.groupBy({
+        by: ["storageProvider"],
+        where: { userId, storageKey: { not: null } },
+        _count: true,
+      }),
+      ctx.db.export.groupBy({
+        by: ["storageProvider"],
+        where: { userId, storageKey: { not: null } },
+        _count: true,
+      }),
+    ]);
+
+    const files: Record<string, number> = {};
+    for (const group of [...sources, ...exported]) {
+      files[group.storageProvider] = (files[group.storageProvider] ?? 0) + group._count;
+    }
+
+    return {
+      available: StorageManager.availableBackends(),
+      preferred,
+      files,
+    };
+  }),
+
+  migrations: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.storageMigration.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: { createdAt: "desc" },
+      take: 10,
+    });
+  }),
+
+  getMigration: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const migration = await ctx.db.storageMigration.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+      });
+
+      if (!migration) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Storage migration not found" });
+      }
+
+      return migration;
+    }),
+
+  // Switches new uploads to the target and moves existing files there
+  startMigration: protectedProcedure
+    .input(
+      z.object({
+        from: backendSchema,
+        to: backendSchema,
+        deleteSource: z.boolean().default(false),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return StorageMigrationService.start(ctx.session.user.id, input);
+    }),
+
+  resumeMigration: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      return StorageMigrationService.resume(ctx.session.user.id, input.id);
+    }),
+});
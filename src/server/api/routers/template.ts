@@ -11,6 +11,12 @@ import { createCRUDRouter } from "~/server/api/generators/crud";
 import { TRPCError } from "@trpc/server";
 import { DocumentType, Prisma } from "@prisma/client";
 import { getDocumentSchema, getDocumentConfig } from "~/config/documents";
+import { env } from "~/env";
+import type { ProviderName } from "~/server/services/llm";
+import {
+  BudgetService,
+  estimateDocumentTokens,
+} from "~/server/services/budget";
 
 // Template creation schema
 const createTemplateSchema = z.object({
@@ -213,6 +219,20 @@ const extraTemplateRouter = createTRPCRouter({
         },
       });
 
+      let reservation;
+      try {
+        reservation = await BudgetService.reserve(ctx.session.user.id, {
+          provider: env.DEFAULT_LLM_PROVIDER as ProviderName,
+          model: env.DEFAULT_LLM_MODEL,
+          estimatedTokens: estimateDocumentTokens(template.type, documentInput),
+          documentId: document.id,
+        });
+      } catch (error) {
+        // Nothing was queued, so don't leave a pending document behind
+        await ctx.db.document.delete({ where: { id: document.id } });
+        throw error;
+      }
+
       // Add to processing queue
       const Queue = await import("bullmq").then((m) => m.Queue);
       const queue = new Queue("document-generation", {
@@ -224,8 +244,10 @@ const extraTemplateRouter = createTRPCRouter({
         {
           documentId: document.id,
           userId: ctx.session.user.id,
-          type: document.type,
+          documentType: document.type,
           input: documentInput as Prisma.InputJsonValue,
+          provider: reservation.provider,
+          model: reservation.model,
         },
         {
           jobId: document.id,
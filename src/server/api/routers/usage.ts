@@ -8,6 +8,8 @@ import {
 } from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
 import { startOfMonth, endOfMonth, subMonths, format } from "date-fns";
+import { ModelCatalogService } from "~/server/services/llm/model-catalog";
+import type { ProviderName } from "~/server/services/llm";
 
 export const usageRouter = createTRPCRouter({
   // Get current user's usage
@@ -117,6 +119,52 @@ export const usageRouter = createTRPCRouter({
       return months;
     }),
 
+  // Get token usage and cost per model, with display names and current
+  // prices from the model catalog
+  getModelBreakdown: protectedProcedure
+    .input(
+      z.object({
+        months: z.number().min(1).max(12).default(1),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const calls = await ctx.db.lLMCall.groupBy({
+        by: ["provider", "model"],
+        where: {
+          document: { userId: ctx.session.user.id },
+          createdAt: { gte: startOfMonth(subMonths(new Date(), input.months - 1)) },
+        },
+        _sum: {
+          promptTokens: true,
+          completionTokens: true,
+          cost: true,
+        },
+        _count: true,
+      });
+
+      const catalog = await ModelCatalogService.list();
+
+      return calls
+        .map((call) => {
+          const model = catalog.find(
+            (m) => m.provider === call.provider && m.id === call.model,
+          );
+
+          return {
+            provider: call.provider as ProviderName,
+            model: call.model,
+            name: model?.name ?? call.model,
+            calls: call._count,
+            promptTokens: call._sum.promptTokens ?? 0,
+            completionTokens: call._sum.completionTokens ?? 0,
+            // Recorded at call time, so past price changes don't rewrite history
+            cost: call._sum.cost ?? 0,
+            currentPricing: model?.costPer1kTokens ?? null,
+          };
+        })
+        .sort((a, b) => b.cost - a.cost);
+    }),
+
   // Get usage limits and remaining quota
   getLimits: protectedProcedure.query(async ({ ctx }) => {
     const usage = await ctx.db.usage.findUnique({
@@ -0,0 +1,231 @@
+//src/server/api/routers/webhook.ts
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { WEBHOOK_EVENT_NAMES } from "~/config/webhooks";
+import { WebhookService } from "~/server/services/webhooks";
+import { PrivateAddressError } from "~/server/services/network";
+
+const MAX_ENDPOINTS = 10;
+
+const endpointUrlSchema = z
+  .string()
+  .url()
+  .max(2000)
+  .refine((url) => /^https?:\/\//i.test(url), "URL must use http or https");
+
+const endpointSchema = z.object({
+  url: endpointUrlSchema,
+  description: z.string().max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_NAMES)).min(1, "Select at least one event"),
+});
+
+// Deliveries check the address again, but reject bad endpoints up front
+async function assertPublicEndpoint(url: string) {
+  try {
+    await WebhookService.assertPublicEndpoint(url);
+  } catch (error) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message:
+        error instanceof PrivateAddressError
+          ? "Webhook URLs must point to a public address"
+          : "Webhook URL could not be resolved",
+    });
+  }
+}
+
+// Never return the signing secret after creation
+const endpointSelect = {
+  id: true,
+  url: true,
+  description: true,
+  events: true,
+  enabled: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export const webhookRouter = createTRPCRouter({
+  // Registered endpoints with their most recent delivery
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.webhookEndpoint.findMany({
+      where: { userId: ctx.session.user.id },
+      select: {
+        ...endpointSelect,
+        deliveries: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { status: true, createdAt: true },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+  }),
+
+  // Register an endpoint. The secret is only returned here and by rotateSecret.
+  create: protectedProcedure
+    .input(endpointSchema)
+    .mutation(async ({ ctx, input }) => {
+      const count = await ctx.db.webhookEndpoint.count({
+        where: { userId: ctx.session.user.id },
+      });
+
+      if (count >= MAX_ENDPOINTS) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `You can register up to ${MAX_ENDPOINTS} webhook endpoints`,
+        });
+      }
+
+      await assertPublicEndpoint(input.url);
+
+      const secret = WebhookService.generateSecret();
+      const endpoint = await ctx.db.webhookEndpoint.create({
+        data: {
+          userId: ctx.session.user.id,
+          url: input.url,
+          description: input.description?.trim() || null,
+          events: input.events,
+          secret,
+        },
+        select: endpointSelect,
+      });
+
+      return { ...endpoint, secret };
+    }),
+
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        data: endpointSchema.partial().extend({ enabled: z.boolean().optional() }),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.data.url) {
+        await assertPublicEndpoint(input.data.url);
+      }
+
+      const { count } = await ctx.db.webhookEndpoint.updateMany({
+        where: { id: input.id, userId: ctx.session.user.id },
+        data: {
+          ...input.data,
+          description:
+            input.data.description !== undefined
+              ? input.data.description.trim() || null
+              : undefined,
+        },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook endpoint not found",
+        });
+      }
+
+      return { success: true };
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.db.webhookEndpoint.deleteMany({
+        where: { id: input.id, userId: ctx.session.user.id },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook endpoint not found",
+        });
+      }
+
+      return { success: true };
+    }),
+
+  // Issue a new signing secret; the old one stops working immediately
+  rotateSecret: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const secret = WebhookService.generateSecret();
+      const { count } = await ctx.db.webhookEndpoint.updateMany({
+        where: { id: input.id, userId: ctx.session.user.id },
+        data: { secret },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook endpoint not found",
+        });
+      }
+
+      return { secret };
+    }),
+
+  // Delivery log, newest first
+  deliveries: protectedProcedure
+    .input(
+      z.object({
+        endpointId: z.string().optional(),
+        limit: z.number().min(1).max(100).default(20),
+        cursor: z.string().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const deliveries = await ctx.db.webhookDelivery.findMany({
+        where: {
+          endpointId: input.endpointId,
+          endpoint: { userId: ctx.session.user.id },
+        },
+        select: {
+          id: true,
+          event: true,
+          status: true,
+          attempts: true,
+          responseStatus: true,
+          error: true,
+          replayOf: true,
+          createdAt: true,
+          deliveredAt: true,
+          endpoint: { select: { id: true, url: true } },
+        },
+        orderBy: { createdAt: "desc" },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+      });
+
+      let nextCursor: string | undefined;
+      if (deliveries.length > input.limit) {
+        nextCursor = deliveries.pop()?.id;
+      }
+
+      return { items: deliveries, nextCursor };
+    }),
+
+  // Send a logged delivery again with its original payload
+  replay: protectedProcedure
+    .input(z.object({ deliveryId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const delivery = await ctx.db.webhookDelivery.findFirst({
+        where: {
+          id: input.deliveryId,
+          endpoint: { userId: ctx.session.user.id },
+        },
+        select: { id: true },
+      });
+
+      if (!delivery) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Delivery not found",
+        });
+      }
+
+      const replayed = await WebhookService.replay(delivery.id);
+      return { deliveryId: replayed.id };
+    }),
+});
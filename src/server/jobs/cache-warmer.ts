@@ -18,7 +18,7 @@ interface CacheWarmerJobData {
 }
 
 // Common patterns for different document types
-const COMMON_PATTERNS: Record<DocumentType, any[]> = {
+const COMMON_PATTERNS: Partial<Record<DocumentType, any[]>> = {
     [DocumentType.BIOGRAPHY]: [
         {
             subject: { name: 'Executive', profession: 'CEO' },
@@ -197,7 +197,7 @@ export const cacheWarmerWorker = new Worker<CacheWarmerJobData>(
  * Generate mock outline for cache warming
  */
 function generateMockOutline(documentType: DocumentType, input: any): any {
-    const outlines: Record<DocumentType, any> = {
+    const outlines: Partial<Record<DocumentType, any>> = {
         [DocumentType.BIOGRAPHY]: {
             introduction: {
                 title: 'Introduction',
@@ -0,0 +1,50 @@
+// src/server/queue/cancellation.ts
+
+import { Redis } from 'ioredis';
+import { env } from '~/env';
+
+// Workers run in a separate process from the API, so cancellation requests
+// are relayed over Redis pub/sub and turned into AbortSignals here.
+const CANCEL_CHANNEL = 'document-generation:cancel';
+
+const controllers = new Map<string, AbortController>();
+let subscriber: Redis | undefined;
+
+function ensureSubscriber(): void {
+    if (subscriber) return;
+
+    subscriber = new Redis(env.REDIS_URL, {
+        maxRetriesPerRequest: null,
+    });
+
+    void subscriber.subscribe(CANCEL_CHANNEL);
+    subscriber.on('message', (channel: string, documentId: string) => {
+        if (channel !== CANCEL_CHANNEL) return;
+        controllers.get(documentId)?.abort();
+    });
+}
+
+/**
+ * Ask whichever worker is generating this document to stop.
+ */
+export async function requestCancellation(redis: Redis, documentId: string): Promise<void> {
+    await redis.publish(CANCEL_CHANNEL, documentId);
+}
+
+/**
+ * Register an in-flight generation and get the signal that aborts it.
+ */
+export function registerCancellation(documentId: string): AbortController {
+    ensureSubscriber();
+
+    const controller = new AbortController();
+    controllers.set(documentId, controller);
+    return controller;
+}
+
+/**
+ * Forget a generation once its job has finished.
+ */
+export function releaseCancellation(documentId: string): void {
+    controllers.delete(documentId);
+}
@@ -1,34 +1,33 @@
-import { Queue } from 'bullmq';
-import { Redis } from 'ioredis';
-import { env } from '~/env';
+// Starts every queue worker. Imported by the queue process entry point
+// (processor.ts); services enqueue jobs through their own queues.
+import { documentGenerationWorker } from './workers/document-generation';
+import { ragProcessingWorker } from './workers/rag-processing';
+import { webhookDeliveryWorker } from './workers/webhook-delivery';
+import { evaluationWorker } from './workers/evaluation';
+import { webCrawlWorker } from './workers/web-crawl';
+import { storageMigrationWorker } from './workers/storage-migration';
+import { exportCleanupWorker } from './workers/export-cleanup';
 
-// Import workers
-import './workers/document-generation';
-import './workers/rag-processing';
-
-// Initialize Redis connection
-const redis = new Redis(env.REDIS_URL, {
-    maxRetriesPerRequest: null,
-});
-
-// Export queues for use in API
-export const documentQueue = new Queue('document-generation', {
-    connection: redis,
-});
-
-export const ragQueue = new Queue('rag-processing', {
-    connection: redis,
-});
+export const workers = [
+    documentGenerationWorker,
+    ragProcessingWorker,
+    webhookDeliveryWorker,
+    evaluationWorker,
+    webCrawlWorker,
+    storageMigrationWorker,
+    exportCleanupWorker,
+];
 
 // Health check
 export async function checkQueuesHealth() {
     try {
-        await documentQueue.ping();
-        await ragQueue.ping();
+        for (const worker of workers) {
+            await (await worker.client).ping();
+        }
         return { healthy: true };
     } catch (error) {
-        return { healthy: false, error: error.message };
+        return { healthy: false, error: error instanceof Error ? error.message : String(error) };
     }
 }
 
-console.log('[Queue] Workers initialized for document generation and RAG processing');
\ No newline at end of file
+console.log('[Queue] Workers initialized for document generation, RAG processing, webhooks, evaluations, web crawls, storage migrations and export cleanup');
@@ -4,10 +4,25 @@ import { Worker, Job } from 'bullmq';
 import { Redis } from 'ioredis';
 import { env } from '~/env';
 import { db } from '~/server/db';
-import { DocumentStatus, DocumentType } from '@prisma/client';
-import { LLMService } from '~/server/services/llm';
-import { getIO } from '~/server/websocket';
+import { DocumentStatus, DocumentType, type Prisma } from '@prisma/client';
+import { LLMService, type ProviderName } from '~/server/services/llm';
+import { getFallbackProviders } from '~/server/services/llm/fallback';
+import { findIO } from '~/server/websocket';
 import { ProgressStorageService } from '~/server/services/progress/storage';
+import { recordDocumentVersion } from '~/server/services/document/versions';
+import { loadCustomPromptsForDocument } from '~/server/services/document/custom-types';
+import { PromptTemplateService } from '~/server/services/llm/prompt-templates';
+import { BudgetService } from '~/server/services/budget';
+import { getCacheManager } from '~/server/services/cache/manager';
+import { WebhookService } from '~/server/services/webhooks';
+import { RAGEnhancedGenerator } from '~/server/services/document/rag-enhanced-generation';
+import {
+  buildCitationMap,
+  toCitationSources,
+  type CitationSource,
+} from '~/server/services/document/citations';
+import { progressService, type SectionStream } from '~/server/services/progress/unified-progress';
+import { registerCancellation, releaseCancellation } from '../cancellation';
 
 interface DocumentJobData {
   documentId: string;
@@ -19,6 +34,10 @@ interface DocumentJobData {
   temperature?: number;
   maxTokens?: number;
   useCache?: boolean;
+  isRetry?: boolean;
+  reviewOutline?: boolean;
+  // Set when resuming after the user approved the outline
+  resumeFromOutline?: boolean;
 }
 
 const redis = new Redis(env.REDIS_URL, {
@@ -30,19 +49,35 @@ const progressStorage = new ProgressStorageService();
 export const documentGenerationWorker = new Worker<DocumentJobData>(
   'document-generation',
   async (job: Job<DocumentJobData>) => {
-    const { documentId, userId, documentType, input, provider, model } = job.data;
+    const {
+      documentId,
+      userId,
+      documentType,
+      input,
+      provider,
+      model,
+      useCache,
+      isRetry,
+      reviewOutline,
+      resumeFromOutline,
+    } = job.data;
     const startTime = Date.now();
+    const cancellation = registerCancellation(documentId);
+    const signal = cancellation.signal;
+    let sectionStream: SectionStream | undefined;
 
     console.log(`Processing document ${documentId}`);
 
     try {
-      // Get Socket.IO instance
-      const io = getIO();
+      // Socket.IO instance, when this process runs the server
+      const io = findIO();
 
-      // Initialize LLM Service
+      // Initialize LLM Service, with the user's fallback chain for this type
+      const primaryProvider = (provider ?? env.DEFAULT_LLM_PROVIDER) as ProviderName;
       const llmService = new LLMService({
-        provider: provider as any,
+        provider: primaryProvider,
         model,
+        fallbackProviders: await getFallbackProviders(userId, documentType, primaryProvider),
       });
 
       // Subscribe to progress events
@@ -53,6 +88,8 @@ export const documentGenerationWorker = new Worker<DocumentJobData>(
           progress: progress.progress,
           message: progress.message,
           currentSection: progress.currentSection,
+          activeSections: progress.activeSections,
+          fallback: progress.fallback,
           updatedAt: Date.now(),
           startedAt: startTime,
           estimatedTimeRemaining: calculateEstimatedTime(
@@ -68,8 +105,8 @@ export const documentGenerationWorker = new Worker<DocumentJobData>(
         await progressStorage.saveProgress(progressData);
 
         // Broadcast to WebSocket
-        io.to(`document:${documentId}`).emit('generation:progress', progressData);
-        io.to(`user:${userId}`).emit('generation:progress', progressData);
+        io?.to(`document:${documentId}`).emit('generation:progress', progressData);
+        io?.to(`user:${userId}`).emit('generation:progress', progressData);
       });
 
       // Update document status
@@ -78,61 +115,174 @@ export const documentGenerationWorker = new Worker<DocumentJobData>(
         data: { status: DocumentStatus.PROCESSING },
       });
 
-      // Generate outline
-      const outline = await llmService.generateOutline({
-        type: documentType,
-        input,
-        userId,
-        documentId,
-      });
-
-      // Save outline
-      await db.document.update({
-        where: { id: documentId },
-        data: { outline },
-      });
-
-      // Generate sections
+      // CUSTOM documents carry their prompts in their type definition; built-in
+      // types pick up stored template versions and experiment variants
+      const prompts =
+        (await loadCustomPromptsForDocument(db, documentId)) ??
+        (await PromptTemplateService.resolveForDocument(documentId));
+
+      let outline: any;
+      // Set when the outline was started from a similar earlier input
+      let outlineSimilarity: number | undefined;
+
+      if (resumeFromOutline) {
+        // Continue from the outline the user approved
+        const document = await db.document.findUniqueOrThrow({
+          where: { id: documentId },
+          select: { outline: true },
+        });
+        outline = document.outline;
+      } else {
+        // Generate outline
+        const generateOutline = () => llmService.generateOutline({
+          type: documentType,
+          input,
+          prompts,
+          userId,
+          documentId,
+          signal,
+        });
+
+        // Only outlines from the built-in prompts are cached; custom types
+        // and prompt experiments need outlines from their own prompts
+        if (useCache !== false && !prompts) {
+          const cached = await getCacheManager().getOrGenerateOutline(
+            {
+              documentType,
+              input,
+              provider: primaryProvider,
+              model: llmService.getModel(),
+              userId,
+            },
+            generateOutline,
+            { semantic: true },
+          );
+          outline = cached.value;
+          outlineSimilarity = cached.similarity;
+        } else {
+          outline = await generateOutline();
+        }
+
+        if (reviewOutline) {
+          // Pause until the user approves the outline (document.approveOutline)
+          await db.document.update({
+            where: { id: documentId },
+            data: { outline, status: DocumentStatus.OUTLINE_REVIEW },
+          });
+
+          const reviewData = {
+            documentId,
+            stage: 'outline_review' as const,
+            progress: 30,
+            message: outlineSimilarity
+              ? `Outline ready for review, started from a similar earlier document (${Math.round(outlineSimilarity * 100)}% match)`
+              : 'Outline ready for review',
+            updatedAt: Date.now(),
+            startedAt: startTime,
+          };
+
+          await progressStorage.saveProgress(reviewData);
+          io?.to(`document:${documentId}`).emit('generation:progress', reviewData);
+          io?.to(`user:${userId}`).emit('generation:outline-review', { documentId });
+
+          return { success: true, documentId, awaitingOutlineReview: true };
+        }
+
+        // Save outline
+        await db.document.update({
+          where: { id: documentId },
+          data: { outline },
+        });
+      }
+
+      // Retrieve knowledge-base chunks for RAG documents so sections can cite them
+      const citationSources = await getCitationSources(documentId, documentType, input, userId);
+
+      // Generate sections, streaming partial text to the document page
+      sectionStream = progressService.createSectionStream(documentId);
       const sections = await llmService.generateSections({
         outline,
         type: documentType,
         input,
+        prompts,
         userId,
         documentId,
+        signal,
+        citationSources,
+        onSectionContent: (sectionId, content) => sectionStream?.push(sectionId, content),
       });
 
+      await sectionStream.flush();
+      for (const [sectionId, content] of Object.entries(sections)) {
+        await progressService.streamSectionContent(documentId, sectionId, content, { final: true });
+      }
+
       // Save sections
       await db.document.update({
         where: { id: documentId },
         data: { sections },
       });
 
+      // Keep the unrefined draft so it can be compared with the final text
+      await recordDocumentVersion(db, {
+        documentId,
+        source: isRetry ? 'RETRY' : 'GENERATION',
+        sections,
+        outline,
+        provider,
+        model,
+      });
+
       // Refine document
       const refined = await llmService.refineDocument({
         sections,
         type: documentType,
         requirements: input,
+        prompts,
         userId,
         documentId,
+        preserveCitations: citationSources.length > 0,
+        signal,
       });
 
       // Calculate word count
-      const wordCount = Object.values(refined)
+      const wordCount = Object.values(refined.sections)
         .join(' ')
         .split(/\s+/)
         .filter(word => word.length > 0).length;
 
+      const citations = buildCitationMap(refined.sections, citationSources);
+
       // Update document with final content
       await db.document.update({
         where: { id: documentId },
         data: {
-          sections: refined,
+          sections: refined.sections,
+          citations: citations ? (citations as unknown as Prisma.InputJsonValue) : undefined,
           status: DocumentStatus.COMPLETED,
           completedAt: new Date(),
           wordCount,
         },
       });
 
+      await recordDocumentVersion(db, {
+        documentId,
+        source: 'REFINEMENT',
+        sections: refined.sections,
+        outline,
+        provider,
+        model,
+      });
+
+      await PromptTemplateService.recordQuality(documentId, async () => {
+        const scores: Record<string, number> = {};
+        for (const [sectionId, content] of Object.entries(refined.sections)) {
+          const quality = await llmService.assessQuality(content, input?.tone);
+          scores[sectionId] = quality.overallQuality;
+        }
+        return scores;
+      });
+
       // Send completion event
       const completionData = {
         documentId,
@@ -144,17 +294,35 @@ export const documentGenerationWorker = new Worker<DocumentJobData>(
       };
 
       await progressStorage.saveProgress(completionData);
-      io.to(`document:${documentId}`).emit('generation:progress', completionData);
-      io.to(`user:${userId}`).emit('generation:complete', { documentId });
+      io?.to(`document:${documentId}`).emit('generation:progress', completionData);
+      io?.to(`user:${userId}`).emit('generation:complete', { documentId });
+
+      // Swap the reservation for the actual cost and fire any budget alerts
+      await BudgetService.settle(documentId);
+      await WebhookService.dispatchDocumentEvent('document.completed', documentId);
 
       // Clean up progress after a delay
       setTimeout(() => {
         progressStorage.deleteProgress(documentId);
+        progressService.clearStreamedSections(documentId).catch((error) => {
+          console.error(`Failed to clear streamed sections of document ${documentId}:`, error);
+        });
       }, 5000);
 
       return { success: true, documentId };
 
     } catch (error) {
+      if (signal.aborted) {
+        // document.cancel already marked the document CANCELLED
+        console.log(`Generation of document ${documentId} was cancelled`);
+
+        await progressStorage.deleteProgress(documentId);
+        await BudgetService.settle(documentId);
+        findIO()?.to(`document:${documentId}`).emit('generation:cancelled', { documentId });
+
+        return { success: false, cancelled: true, documentId };
+      }
+
       console.error(`Error processing document ${documentId}:`, error);
 
       // Update document status
@@ -167,6 +335,14 @@ export const documentGenerationWorker = new Worker<DocumentJobData>(
         },
       });
 
+      // Calls made before the failure still count against the budget. A job
+      // BullMQ will retry keeps its reservation for the next attempt, and
+      // subscribers only hear about the failure once no attempts are left.
+      if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+        await BudgetService.settle(documentId);
+        await WebhookService.dispatchDocumentEvent('document.failed', documentId);
+      }
+
       // Send error event
       const errorData = {
         documentId,
@@ -181,14 +357,17 @@ export const documentGenerationWorker = new Worker<DocumentJobData>(
 
       await progressStorage.saveProgress(errorData);
 
-      const io = getIO();
-      io.to(`document:${documentId}`).emit('generation:error', {
+      const io = findIO();
+      io?.to(`document:${documentId}`).emit('generation:error', {
         documentId,
         error: errorData.error,
         canRetry: true,
       });
 
       throw error;
+    } finally {
+      sectionStream?.close();
+      releaseCancellation(documentId);
     }
   },
   {
@@ -205,4 +384,33 @@ function calculateEstimatedTime(progress: number, startTime: number): number {
   const remainingTime = Math.max(0, estimatedTotalTime - elapsedTime);
 
   return Math.round(remainingTime / 1000); // Return in seconds
-}
\ No newline at end of file
+}
+async function getCitationSources(
+  documentId: string,
+  documentType: DocumentType,
+  input: any,
+  userId: string
+): Promise<CitationSource[]> {
+  const document = await db.document.findUnique({
+    where: { id: documentId },
+    select: {
+      ragEnabled: true,
+      knowledgeSources: { select: { id: true } },
+      collections: { select: { id: true } },
+    },
+  });
+
+  if (!document?.ragEnabled) return [];
+
+  const knowledgeSourceIds = document.knowledgeSources.map((source: { id: string }) => source.id);
+  const knowledgeCollectionIds = document.collections.map((collection: { id: string }) => collection.id);
+  const ragContext = await new RAGEnhancedGenerator().generateRAGContext({
+    documentType,
+    baseInput: input,
+    userId,
+    knowledgeSourceIds: knowledgeSourceIds.length > 0 ? knowledgeSourceIds : undefined,
+    knowledgeCollectionIds: knowledgeCollectionIds.length > 0 ? knowledgeCollectionIds : undefined,
+  });
+
+  return toCitationSources(ragContext);
+}
@@ -0,0 +1,27 @@
+// src/server/queue/workers/evaluation.ts
+
+import { Worker, type Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { env } from '~/env';
+import {
+  EvaluationService,
+  EVALUATION_QUEUE,
+  type EvaluationJobData,
+} from '~/server/services/evaluation';
+
+const redis = new Redis(env.REDIS_URL, {
+  maxRetriesPerRequest: null,
+});
+
+export const evaluationWorker = new Worker<EvaluationJobData>(
+  EVALUATION_QUEUE,
+  async (job: Job<EvaluationJobData>) => {
+    await EvaluationService.execute(job.data.runId);
+  },
+  {
+    connection: redis,
+    // Runs make many sequential LLM calls; one at a time keeps them from
+    // competing with document generation for rate limits
+    concurrency: 1,
+  }
+);
@@ -0,0 +1,30 @@
+// src/server/queue/workers/export-cleanup.ts
+
+import { Worker, type Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { env } from '~/env';
+import {
+  ExportDownloadService,
+  EXPORT_CLEANUP_QUEUE,
+  type ExportCleanupJobData,
+} from '~/server/services/exports';
+
+const redis = new Redis(env.REDIS_URL, {
+  maxRetriesPerRequest: null,
+});
+
+export const exportCleanupWorker = new Worker<ExportCleanupJobData>(
+  EXPORT_CLEANUP_QUEUE,
+  async (_job: Job<ExportCleanupJobData>) => {
+    const expired = await ExportDownloadService.expireDue();
+    return { expired };
+  },
+  {
+    connection: redis,
+    concurrency: 1,
+  }
+);
+
+void ExportDownloadService.scheduleCleanup().catch((error) => {
+  console.error('[Exports] Failed to schedule export cleanup:', error);
+});
@@ -5,10 +5,10 @@ import { env } from "~/env";
 import { db } from "~/server/db";
 import { ProcessingStatus } from "@prisma/client";
 import { RAGService } from "~/server/services/rag";
-import { getIO } from "~/server/services/socket";
-import { ProgressService } from "~/server/services/progress/unified-progress";
-import { LocalStorageProvider } from "~/server/services/storage/local-provider";
-import { S3StorageProvider } from "~/server/services/storage/s3-provider";
+import { findIO } from "~/server/websocket";
+import { progressService } from "~/server/services/progress/unified-progress";
+import { StorageManager } from "~/server/services/storage";
+import { WebhookService } from "~/server/services/webhooks";
 
 // Initialize Redis
 const redis = new Redis(env.REDIS_URL, {
@@ -40,18 +40,18 @@ export const ragProcessingWorker = new Worker(
     async (job: Job<RAGProcessingJob>) => {
         const { knowledgeSourceId, userId } = job.data;
         const ragService = new RAGService(db);
-        const progressService = new ProgressService();
-        const io = getIO();
+        // Socket.IO instance, when this process runs the server
+        const io = findIO();
 
         // Initialize progress tracking
         const progressId = await progressService.createProgress(
             'rag-embedding',
             knowledgeSourceId,
             userId,
+            'Processing knowledge source...',
             {
-                sourceName: '',
                 totalChunks: 0,
-                processedChunks: 0,
+                chunksProcessed: 0,
             }
         );
 
@@ -67,16 +67,12 @@ export const ragProcessingWorker = new Worker(
             // Update progress with source name
             await progressService.updateProgress(progressId, {
                 progress: PROGRESS_STAGES.DOWNLOADING,
-                status: 'processing',
+                stage: 'processing',
                 message: `Processing ${source.name}...`,
-                metadata: {
-                    sourceName: source.name,
-                    sourceType: source.type,
-                },
             });
 
             // Broadcast to user
-            io.to(`user:${userId}`).emit('rag:processing', {
+            io?.to(`user:${userId}`).emit('rag:processing', {
                 sourceId: knowledgeSourceId,
                 stage: 'downloading',
                 progress: PROGRESS_STAGES.DOWNLOADING,
@@ -95,7 +91,7 @@ export const ragProcessingWorker = new Worker(
                     message: 'Downloading file...',
                 });
 
-                const storage = await getStorageProvider(userId);
+                const storage = StorageManager.getProvider(source.storageProvider);
                 const buffer = await storage.download(source.storageKey);
 
                 // Extract text based on file type
@@ -138,7 +134,7 @@ export const ragProcessingWorker = new Worker(
                 message: 'Splitting into chunks...',
             });
 
-            io.to(`user:${userId}`).emit('rag:processing', {
+            io?.to(`user:${userId}`).emit('rag:processing', {
                 sourceId: knowledgeSourceId,
                 stage: 'chunking',
                 progress: PROGRESS_STAGES.CHUNKING,
@@ -154,12 +150,12 @@ export const ragProcessingWorker = new Worker(
                         message: `Generating embeddings... (${processed}/${total})`,
                         metadata: {
                             totalChunks: total,
-                            processedChunks: processed,
+                            chunksProcessed: processed,
                         },
                     });
 
                     // Broadcast progress
-                    io.to(`user:${userId}`).emit('rag:processing', {
+                    io?.to(`user:${userId}`).emit('rag:processing', {
                         sourceId: knowledgeSourceId,
                         stage: 'embedding',
                         progress,
@@ -183,14 +179,13 @@ export const ragProcessingWorker = new Worker(
             });
 
             // Complete progress
-            await progressService.completeProgress(progressId, {
-                chunksProcessed: result.chunksProcessed,
-                embeddingsGenerated: result.embeddingsGenerated,
-                tokensUsed: result.tokensUsed,
-            });
+            await progressService.completeProgress(
+                progressId,
+                `Processed ${result.chunksProcessed} chunks, ${result.embeddingsReused} embeddings reused`
+            );
 
             // Final broadcast
-            io.to(`user:${userId}`).emit('rag:complete', {
+            io?.to(`user:${userId}`).emit('rag:complete', {
                 sourceId: knowledgeSourceId,
                 success: true,
                 stats: {
@@ -199,6 +194,15 @@ export const ragProcessingWorker = new Worker(
                 },
             });
 
+            await WebhookService.dispatch(userId, 'knowledge_source.processed', {
+                id: knowledgeSourceId,
+                name: source.name,
+                type: source.type,
+                status: ProcessingStatus.COMPLETED,
+                chunks: result.chunksProcessed,
+                embeddings: result.embeddingsGenerated,
+            });
+
             console.log(`[RAG] Successfully processed ${result.chunksProcessed} chunks`);
 
             return {
@@ -223,11 +227,17 @@ export const ragProcessingWorker = new Worker(
             await progressService.failProgress(progressId, error.message);
 
             // Broadcast error
-            io.to(`user:${userId}`).emit('rag:error', {
+            io?.to(`user:${userId}`).emit('rag:error', {
                 sourceId: knowledgeSourceId,
                 error: error.message,
             });
 
+            await WebhookService.dispatch(userId, 'knowledge_source.processed', {
+                id: knowledgeSourceId,
+                status: ProcessingStatus.FAILED,
+                error: error.message,
+            });
+
             throw error;
         }
     },
@@ -243,29 +253,3 @@ export const ragProcessingWorker = new Worker(
         },
     }
 );
-
-// Helper to get storage provider
-async function getStorageProvider(userId: string) {
-    const preferences = await db.userPreferences.findUnique({
-        where: { userId },
-        select: { preferredStorage: true },
-    });
-
-    const storageType = preferences?.preferredStorage || 'local';
-
-    switch (storageType) {
-        case 's3':
-            return new S3StorageProvider();
-        case 'local':
-        default:
-            return new LocalStorageProvider();
-    }
-}
-
-// Graceful shutdown
-process.on('SIGTERM', async () => {
-    console.log('[RAG Worker] Shutting down gracefully...');
-    await ragProcessingWorker.close();
-    await redis.disconnect();
-    process.exit(0);
-});
\ No newline at end of file
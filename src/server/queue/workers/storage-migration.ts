@@ -0,0 +1,74 @@
+// src/server/queue/workers/storage-migration.ts
+
+import { Worker, type Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { ProcessingStatus } from '@prisma/client';
+import { env } from '~/env';
+import { db } from '~/server/db';
+import { storageMigrationProgress } from '~/server/services/progress/unified-progress';
+import {
+  StorageMigrationService,
+  STORAGE_MIGRATION_QUEUE,
+  type StorageMigrationJobData,
+} from '~/server/services/storage/migration';
+
+const redis = new Redis(env.REDIS_URL, {
+  maxRetriesPerRequest: null,
+});
+
+export const storageMigrationWorker = new Worker<StorageMigrationJobData>(
+  STORAGE_MIGRATION_QUEUE,
+  async (job: Job<StorageMigrationJobData>) => {
+    const { migrationId } = job.data;
+    const migration = await db.storageMigration.findUniqueOrThrow({
+      where: { id: migrationId },
+    });
+
+    const progressId = await storageMigrationProgress.start(
+      migrationId,
+      migration.userId,
+      migration.totalFiles,
+      migration.migratedFiles
+    );
+
+    try {
+      const result = await StorageMigrationService.execute(migrationId, async (progress) => {
+        await storageMigrationProgress.updateFile(
+          progressId,
+          progress.migratedFiles,
+          progress.failedFiles,
+          progress.currentFile
+        );
+        await job.updateProgress(
+          Math.round(((progress.migratedFiles + progress.failedFiles) / (progress.totalFiles || 1)) * 100)
+        );
+      });
+
+      if (result.status === ProcessingStatus.COMPLETED) {
+        await storageMigrationProgress.complete(
+          progressId,
+          `Moved ${result.migratedFiles} files to ${result.toProvider} storage`
+        );
+      } else {
+        await storageMigrationProgress.fail(progressId, result.error ?? 'Some files could not be copied');
+      }
+
+      return {
+        migratedFiles: result.migratedFiles,
+        failedFiles: result.failedFiles,
+      };
+    } catch (error) {
+      await storageMigrationProgress.fail(
+        progressId,
+        error instanceof Error ? error.message : 'Storage migration failed'
+      );
+      throw error;
+    }
+  },
+  {
+    connection: redis,
+    // Files are copied one at a time; a single migration at once keeps
+    // storage bandwidth for regular uploads
+    concurrency: 1,
+  }
+);
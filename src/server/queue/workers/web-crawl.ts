@@ -0,0 +1,36 @@
+// src/server/queue/workers/web-crawl.ts
+
+import { Worker, type Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { env } from '~/env';
+import {
+  WebCrawlService,
+  WEB_CRAWL_QUEUE,
+  type WebCrawlJobData,
+} from '~/server/services/crawl';
+
+const redis = new Redis(env.REDIS_URL, {
+  maxRetriesPerRequest: null,
+});
+
+export const webCrawlWorker = new Worker<WebCrawlJobData>(
+  WEB_CRAWL_QUEUE,
+  async (job: Job<WebCrawlJobData>) => {
+    if (job.data.kind === 'recrawl-due') {
+      const queued = await WebCrawlService.queueDueCrawls();
+      return { queued };
+    }
+
+    return WebCrawlService.execute(job.data.crawlId);
+  },
+  {
+    connection: redis,
+    // Crawls wait politely between requests; a second slot keeps the
+    // re-crawl sweep from queuing behind a long crawl
+    concurrency: 2,
+  }
+);
+
+void WebCrawlService.scheduleRecrawls().catch((error) => {
+  console.error('[Crawl] Failed to schedule re-crawls:', error);
+});
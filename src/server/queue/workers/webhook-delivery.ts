@@ -0,0 +1,30 @@
+// src/server/queue/workers/webhook-delivery.ts
+
+import { Worker, type Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { env } from '~/env';
+import {
+  WebhookService,
+  WEBHOOK_QUEUE,
+  type WebhookJobData,
+} from '~/server/services/webhooks';
+
+const redis = new Redis(env.REDIS_URL, {
+  maxRetriesPerRequest: null,
+});
+
+export const webhookDeliveryWorker = new Worker<WebhookJobData>(
+  WEBHOOK_QUEUE,
+  async (job: Job<WebhookJobData>) => {
+    const attempt = job.attemptsMade + 1;
+
+    // The last attempt marks the delivery FAILED instead of PENDING
+    await WebhookService.deliver(job.data.deliveryId, {
+      final: attempt >= (job.opts.attempts ?? 1),
+    });
+  },
+  {
+    connection: redis,
+    concurrency: 5,
+  }
+);
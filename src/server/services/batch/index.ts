@@ -0,0 +1,366 @@
+// src/server/services/batch/index.ts
+
+import { Queue } from 'bullmq';
+import { Redis } from 'ioredis';
+import { TRPCError } from '@trpc/server';
+import {
+    DocumentStatus,
+    DocumentType,
+    type CustomDocumentType,
+    type ExportFormat,
+    type Prisma,
+} from '@prisma/client';
+import { env } from '~/env';
+import { db } from '~/server/db';
+import { getDocumentConfig, getDocumentSchema } from '~/config/documents';
+import { buildCustomInputSchema, parseCustomFields } from '~/config/custom-document-types';
+import { validateBatchInputs, MAX_BATCH_DOCUMENTS, type BatchRowResult } from '~/lib/batch';
+import { exportMultipleDocuments, getAvailableExportFormats } from '~/lib/export';
+import {
+    BudgetService,
+    estimateDocumentTokens,
+    type BudgetReservationResult,
+} from '~/server/services/budget';
+import { loadCustomDocumentType } from '~/server/services/document/custom-types';
+import type { ProviderName } from '~/server/services/llm';
+import { ModelCatalogService } from '~/server/services/llm/model-catalog';
+import { ProgressStorageService } from '~/server/services/progress/storage';
+
+// Same limit as single documents, see document.create
+const MONTHLY_DOCUMENT_LIMIT = 100;
+
+// Default title stamped by baseDocumentSchema when a row has none
+const UNTITLED = 'Untitled Document';
+
+export interface BatchTarget {
+    type: DocumentType;
+    // Required when type is CUSTOM
+    customTypeId?: string;
+    provider: ProviderName;
+    model: string;
+}
+
+export interface BatchValidation {
+    rows: BatchRowResult[];
+    validRows: number;
+    estimatedTokens: number;
+    estimatedCost: number;
+}
+
+export interface CreateBatchOptions extends BatchTarget {
+    name: string;
+    inputs: Record<string, unknown>[];
+}
+
+export interface BatchProgress {
+    total: number;
+    pending: number;
+    processing: number;
+    completed: number;
+    failed: number;
+    // Mean progress of all documents, 0-100
+    progress: number;
+    done: boolean;
+}
+
+let queue: Queue | undefined;
+let progressStorage: ProgressStorageService | undefined;
+
+function getQueue(): Queue {
+    queue ??= new Queue('document-generation', {
+        connection: new Redis(env.REDIS_URL, { maxRetriesPerRequest: null }),
+    });
+    return queue;
+}
+
+export class BatchGenerationService {
+    /**
+     * Check every row against the document type's schema and estimate what
+     * generating the valid ones will cost
+     */
+    static async validate(
+        target: BatchTarget,
+        inputs: Record<string, unknown>[]
+    ): Promise<BatchValidation> {
+        const customType = await this.resolveCustomType(target);
+        const schema = customType
+            ? buildCustomInputSchema(parseCustomFields(customType.fields))
+            : getDocumentSchema(target.type);
+
+        const rows = validateBatchInputs(schema, inputs);
+        const valid = rows.filter(row => row.errors.length === 0);
+
+        const estimatedTokens = valid.reduce(
+            (sum, row) => sum + estimateDocumentTokens(target.type, row.input, customType),
+            0
+        );
+
+        return {
+            rows,
+            validRows: valid.length,
+            estimatedTokens,
+            estimatedCost: await ModelCatalogService.estimateCost(
+                target.provider,
+                target.model,
+                estimatedTokens
+            ),
+        };
+    }
+
+    /**
+     * Create a document per row and queue them all under one batch. Nothing
+     * is created unless every row is valid and the whole batch fits in the
+     * user's monthly document and cost limits.
+     */
+    static async create(userId: string, options: CreateBatchOptions) {
+        if (options.inputs.length === 0 || options.inputs.length > MAX_BATCH_DOCUMENTS) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: `A batch must have between 1 and ${MAX_BATCH_DOCUMENTS} rows`,
+            });
+        }
+
+        const validation = await this.validate(options, options.inputs);
+        const invalid = validation.rows.filter(row => row.errors.length > 0);
+
+        if (invalid.length > 0) {
+            const first = invalid[0]!;
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: `${invalid.length} row(s) are invalid. Row ${first.row}: ` +
+                    first.errors.map(error => `${error.field}: ${error.message}`).join(', '),
+            });
+        }
+
+        const usage = await db.usage.findUnique({ where: { userId } });
+        if ((usage?.monthlyDocs ?? 0) + options.inputs.length > MONTHLY_DOCUMENT_LIMIT) {
+            throw new TRPCError({
+                code: 'FORBIDDEN',
+                message: `This batch would exceed the monthly limit of ${MONTHLY_DOCUMENT_LIMIT} documents`,
+            });
+        }
+
+        const budget = await BudgetService.getStatus(userId);
+        if (budget.available !== null && validation.estimatedCost > budget.available) {
+            throw new TRPCError({
+                code: 'FORBIDDEN',
+                message: `This batch would cost about $${validation.estimatedCost.toFixed(2)}, ` +
+                    `but only $${budget.available.toFixed(2)} of the monthly limit is left`,
+            });
+        }
+
+        const customType = await this.resolveCustomType(options);
+
+        // Hold each document's cost before creating anything, so a batch
+        // can't be half-created when the budget runs out
+        const reservations: BudgetReservationResult[] = [];
+        try {
+            for (const row of validation.rows) {
+                reservations.push(await BudgetService.reserve(userId, {
+                    provider: options.provider,
+                    model: options.model,
+                    estimatedTokens: estimateDocumentTokens(options.type, row.input, customType),
+                }));
+            }
+        } catch (error) {
+            await Promise.all(reservations.map(r => BudgetService.release(r.reservationId)));
+            throw error;
+        }
+
+        try {
+            const { batch, documents } = await db.$transaction(async (tx) => {
+                const batch = await tx.documentBatch.create({
+                    data: {
+                        userId,
+                        name: options.name,
+                        type: options.type,
+                        customTypeId: customType?.id,
+                        provider: options.provider,
+                        model: options.model,
+                        totalDocuments: validation.rows.length,
+                        estimatedCost: validation.estimatedCost,
+                    },
+                });
+
+                const documents = [];
+                for (const [index, row] of validation.rows.entries()) {
+                    const reservation = reservations[index]!;
+                    const document = await tx.document.create({
+                        data: {
+                            userId,
+                            batchId: batch.id,
+                            title: this.getTitle(row.input, options.name, row.row),
+                            type: options.type,
+                            customTypeId: customType?.id,
+                            status: DocumentStatus.PENDING,
+                            input: row.input as Prisma.InputJsonValue,
+                            provider: options.provider,
+                            // The reservation may have switched to a cheaper model
+                            model: reservation.model,
+                        },
+                    });
+
+                    await BudgetService.attach(reservation.reservationId, document.id, tx);
+                    documents.push(document);
+                }
+
+                await tx.usage.upsert({
+                    where: { userId },
+                    update: {
+                        documentsCount: { increment: documents.length },
+                        monthlyDocs: { increment: documents.length },
+                    },
+                    create: {
+                        userId,
+                        documentsCount: documents.length,
+                        monthlyDocs: documents.length,
+                    },
+                });
+
+                return { batch, documents };
+            });
+
+            await getQueue().addBulk(documents.map(document => ({
+                name: 'generate',
+                data: {
+                    documentId: document.id,
+                    userId,
+                    documentType: document.type,
+                    input: document.input,
+                    provider: document.provider,
+                    model: document.model,
+                    temperature: 0.7,
+                    useCache: true,
+                    batchId: batch.id,
+                },
+                opts: { jobId: document.id },
+            })));
+
+            return { ...batch, documentIds: documents.map(document => document.id) };
+        } catch (error) {
+            await Promise.all(reservations.map(r => BudgetService.release(r.reservationId)));
+            throw error;
+        }
+    }
+
+    /**
+     * Counts per status and overall progress of a batch's documents
+     */
+    static async getProgress(batchId: string): Promise<BatchProgress> {
+        const documents = await db.document.findMany({
+            where: { batchId },
+            select: { id: true, status: true },
+        });
+
+        progressStorage ??= new ProgressStorageService();
+        const storage = progressStorage;
+
+        const counts = { pending: 0, processing: 0, completed: 0, failed: 0 };
+        const progress: number[] = await Promise.all(documents.map(async (document) => {
+            switch (document.status) {
+                case DocumentStatus.COMPLETED:
+                    counts.completed++;
+                    return 100;
+
+                case DocumentStatus.FAILED:
+                case DocumentStatus.CANCELLED:
+                    counts.failed++;
+                    return 100;
+
+                case DocumentStatus.PENDING:
+                    counts.pending++;
+                    return 0;
+
+                default: {
+                    // Processing or waiting for outline review
+                    counts.processing++;
+                    const stored = await storage.getProgress(document.id);
+                    return stored?.progress ?? 0;
+                }
+            }
+        }));
+
+        const total = documents.length;
+
+        return {
+            total,
+            ...counts,
+            progress: total > 0
+                ? Math.round(progress.reduce((sum, value) => sum + value, 0) / total)
+                : 0,
+            done: counts.pending + counts.processing === 0,
+        };
+    }
+
+    /**
+     * Zip of every completed document in the batch, saved with the user's
+     * other exports
+     */
+    static async exportZip(
+        batchId: string,
+        format: ExportFormat,
+        options: { author?: string } = {}
+    ) {
+        const batch = await db.documentBatch.findUniqueOrThrow({ where: { id: batchId } });
+        const documents = await db.document.findMany({
+            where: { batchId, status: DocumentStatus.COMPLETED },
+            include: { customType: true },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        if (documents.length === 0) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: 'No documents in this batch have completed yet',
+            });
+        }
+
+        const formats = getAvailableExportFormats(batch.type, documents[0]!.customType);
+        if (!formats.includes(format)) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: `${format} export is not supported for ${batch.type} documents`,
+            });
+        }
+
+        const result = await exportMultipleDocuments(documents, format, {
+            author: options.author,
+            name: batch.name,
+            saveToFile: true,
+        });
+
+        return {
+            filename: result.filename,
+            url: `/api/export/download/${result.filename}`,
+            documents: documents.length,
+        };
+    }
+
+    private static async resolveCustomType(target: BatchTarget): Promise<CustomDocumentType | null> {
+        if (target.type !== DocumentType.CUSTOM) {
+            const config = getDocumentConfig(target.type);
+            if (!config?.enabled) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: `Document type ${target.type} is not enabled`,
+                });
+            }
+            return null;
+        }
+
+        if (!target.customTypeId) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: 'customTypeId is required for CUSTOM documents',
+            });
+        }
+
+        return loadCustomDocumentType(db, target.customTypeId, { requireEnabled: true });
+    }
+
+    // Rows without a title of their own are numbered within the batch
+    private static getTitle(input: Record<string, unknown>, batchName: string, row: number): string {
+        const title = typeof input.title === 'string' ? input.title.trim() : '';
+        return title && title !== UNTITLED ? title : `${batchName} #${row}`;
+    }
+}
@@ -0,0 +1,395 @@
+// src/server/services/budget/index.ts
+
+import { TRPCError } from '@trpc/server';
+import type { DocumentType } from '@prisma/client';
+import { estimateTokenUsage } from '~/config/documents';
+import { DEFAULT_TOKEN_ESTIMATE, tokenEstimateSchema } from '~/config/custom-document-types';
+import { db } from '~/server/db';
+import { getIO } from '~/server/websocket';
+import type { ProviderName } from '~/server/services/llm';
+import { ModelCatalogService } from '~/server/services/llm/model-catalog';
+import { fetchPublicUrl } from '~/server/services/network';
+
+// Percentages of the monthly limit that trigger an alert, once each per month
+const ALERT_THRESHOLDS = [50, 80, 100] as const;
+
+// A reservation whose job never reported back (crashed worker, lost job)
+// stops holding budget after this long
+const RESERVATION_TTL_MS = 6 * 60 * 60 * 1000;
+
+const ALERT_TIMEOUT_MS = 10_000;
+
+export interface BudgetStatus {
+    limit: number | null;
+    spent: number;
+    reserved: number;
+    available: number | null;
+    percentage: number;
+}
+
+export interface ReserveBudgetOptions {
+    provider: ProviderName;
+    model: string;
+    estimatedTokens: number;
+    documentId?: string;
+}
+
+export interface BudgetReservationResult {
+    reservationId: string;
+    provider: ProviderName;
+    model: string;
+    estimatedCost: number;
+    // Set when the requested model was swapped for a cheaper one
+    downgradedFrom?: string;
+}
+
+export class BudgetService {
+    /**
+     * Current month's spend, outstanding reservations and remaining budget
+     */
+    static async getStatus(userId: string): Promise<BudgetStatus> {
+        const preferences = await db.userPreferences.findUnique({
+            where: { userId },
+            select: { monthlyCostLimit: true },
+        });
+
+        const [spent, reserved] = await Promise.all([
+            this.getMonthlySpend(userId),
+            this.getReservedAmount(userId),
+        ]);
+
+        const limit = preferences?.monthlyCostLimit ?? null;
+
+        return {
+            limit,
+            spent,
+            reserved,
+            available: limit === null ? null : Math.max(0, limit - spent - reserved),
+            percentage: limit ? (spent / limit) * 100 : 0,
+        };
+    }
+
+    /**
+     * Hold the estimated cost of a generation against the monthly limit.
+     * When it doesn't fit, a cheaper model from the same provider is used if
+     * the user allows fallbacks; otherwise the request is rejected.
+     */
+    static async reserve(
+        userId: string,
+        options: ReserveBudgetOptions,
+    ): Promise<BudgetReservationResult> {
+        const estimatedCost = await ModelCatalogService.estimateCost(
+            options.provider,
+            options.model,
+            options.estimatedTokens,
+        );
+
+        // Re-queued documents (retry, approved outline) replace their old hold
+        if (options.documentId) {
+            await this.settle(options.documentId, { checkAlerts: false });
+        }
+
+        return db.$transaction(async (tx) => {
+            // Serialise reservations per user so concurrent requests can't
+            // both fit into the same remaining budget
+            await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`budget:${userId}`}))`;
+
+            const preferences = await tx.userPreferences.findUnique({
+                where: { userId },
+                select: { monthlyCostLimit: true, allowFallback: true },
+            });
+
+            let model = options.model;
+            let cost = estimatedCost;
+            let downgradedFrom: string | undefined;
+
+            const limit = preferences?.monthlyCostLimit;
+            if (limit) {
+                const [spent, reserved] = await Promise.all([
+                    this.getMonthlySpend(userId),
+                    this.getReservedAmount(userId),
+                ]);
+                const available = limit - spent - reserved;
+
+                if (cost > available) {
+                    const cheaper = preferences.allowFallback
+                        ? await this.findAffordableModel(
+                            options.provider,
+                            options.estimatedTokens,
+                            available,
+                            cost,
+                        )
+                        : undefined;
+
+                    if (!cheaper) {
+                        throw new TRPCError({
+                            code: 'FORBIDDEN',
+                            message: `Monthly cost limit of $${limit} would be exceeded. ` +
+                                `Spent: $${spent.toFixed(2)}, reserved: $${reserved.toFixed(2)}, ` +
+                                `this generation: ~$${cost.toFixed(2)}`,
+                        });
+                    }
+
+                    downgradedFrom = model;
+                    model = cheaper.id;
+                    cost = cheaper.cost;
+                }
+            }
+
+            const reservation = await tx.budgetReservation.create({
+                data: {
+                    userId,
+                    documentId: options.documentId,
+                    provider: options.provider,
+                    model,
+                    amount: cost,
+                    expiresAt: new Date(Date.now() + RESERVATION_TTL_MS),
+                },
+            });
+
+            if (downgradedFrom && options.documentId) {
+                await tx.document.updateMany({
+                    where: { id: options.documentId },
+                    data: { model },
+                });
+            }
+
+            return {
+                reservationId: reservation.id,
+                provider: options.provider,
+                model,
+                estimatedCost: cost,
+                downgradedFrom,
+            };
+        });
+    }
+
+    /**
+     * Link a reservation taken before its document was created
+     */
+    static async attach(
+        reservationId: string,
+        documentId: string,
+        client: Pick<typeof db, 'budgetReservation'> = db,
+    ): Promise<void> {
+        await client.budgetReservation.update({
+            where: { id: reservationId },
+            data: { documentId },
+        });
+    }
+
+    /**
+     * Drop a reservation whose generation never started
+     */
+    static async release(reservationId: string): Promise<void> {
+        await db.budgetReservation.updateMany({
+            where: { id: reservationId, status: 'ACTIVE' },
+            data: { status: 'RELEASED', settledAt: new Date() },
+        });
+    }
+
+    /**
+     * Replace a document's active reservations with what its LLM calls
+     * actually cost. Called when generation completes, fails or is cancelled.
+     */
+    static async settle(
+        documentId: string,
+        options: { checkAlerts?: boolean } = {},
+    ): Promise<void> {
+        const reservations = await db.budgetReservation.findMany({
+            where: { documentId, status: 'ACTIVE' },
+        });
+
+        for (const reservation of reservations) {
+            const actualCost = await this.getDocumentSpend(documentId, reservation.createdAt);
+
+            await db.budgetReservation.update({
+                where: { id: reservation.id },
+                data: { status: 'SETTLED', actualCost, settledAt: new Date() },
+            });
+        }
+
+        const userId = reservations[0]?.userId;
+        if (userId && options.checkAlerts !== false) {
+            await this.checkAlerts(userId);
+        }
+    }
+
+    /**
+     * Fire the highest newly crossed threshold through the user's webhook and
+     * the in-app notification channel
+     */
+    static async checkAlerts(userId: string): Promise<void> {
+        const preferences = await db.userPreferences.findUnique({
+            where: { userId },
+            include: { user: true },
+        });
+
+        if (!preferences?.monthlyCostLimit) {
+            return;
+        }
+
+        const limit = preferences.monthlyCostLimit;
+        const spent = await this.getMonthlySpend(userId);
+        const percentage = (spent / limit) * 100;
+        const period = getPeriod(new Date());
+
+        let crossed: number | undefined;
+        for (const threshold of ALERT_THRESHOLDS) {
+            if (percentage < threshold) break;
+
+            const created = await db.budgetAlert.createMany({
+                data: [{ userId, period, threshold, spent, limit }],
+                skipDuplicates: true,
+            });
+            if (created.count > 0) {
+                crossed = threshold;
+            }
+        }
+
+        if (crossed === undefined) {
+            return;
+        }
+
+        const alert = {
+            threshold: crossed,
+            currentCost: spent,
+            limit,
+            percentage,
+        };
+
+        try {
+            getIO().to(`user:${userId}`).emit('budget:alert', alert);
+        } catch (error) {
+            // Socket.IO only runs in the web server process
+            console.warn('Budget alert not broadcast:', error);
+        }
+
+        if (preferences.costAlertWebhook) {
+            await this.sendWebhookAlert(preferences.costAlertWebhook, {
+                userId,
+                email: preferences.user.email,
+                ...alert,
+            });
+        }
+    }
+
+    private static async findAffordableModel(
+        provider: ProviderName,
+        estimatedTokens: number,
+        available: number,
+        requestedCost: number,
+    ): Promise<{ id: string; cost: number } | undefined> {
+        const models = await ModelCatalogService.list(provider);
+
+        const priced = await Promise.all(
+            models.map(async (model) => ({
+                id: model.id,
+                cost: await ModelCatalogService.estimateCost(provider, model.id, estimatedTokens),
+            })),
+        );
+
+        // Most capable (most expensive) model that still fits
+        return priced
+            .filter((model) => model.cost <= available && model.cost < requestedCost)
+            .sort((a, b) => b.cost - a.cost)[0];
+    }
+
+    private static async getMonthlySpend(userId: string): Promise<number> {
+        const usage = await db.lLMCall.aggregate({
+            where: {
+                document: { userId },
+                createdAt: { gte: getStartOfMonth() },
+            },
+            _sum: { cost: true },
+        });
+
+        return usage._sum.cost ?? 0;
+    }
+
+    private static async getDocumentSpend(documentId: string, since: Date): Promise<number> {
+        const usage = await db.lLMCall.aggregate({
+            where: { documentId, createdAt: { gte: since } },
+            _sum: { cost: true },
+        });
+
+        return usage._sum.cost ?? 0;
+    }
+
+    /**
+     * Budget still held by running jobs. Calls already made are part of the
+     * monthly spend, so only the unspent remainder of each reservation counts.
+     */
+    private static async getReservedAmount(userId: string): Promise<number> {
+        const reservations = await db.budgetReservation.findMany({
+            where: {
+                userId,
+                status: 'ACTIVE',
+                expiresAt: { gt: new Date() },
+            },
+        });
+
+        let reserved = 0;
+        for (const reservation of reservations) {
+            const used = reservation.documentId
+                ? await this.getDocumentSpend(reservation.documentId, reservation.createdAt)
+                : 0;
+            reserved += Math.max(0, reservation.amount - used);
+        }
+
+        return reserved;
+    }
+
+    // The URL is user-supplied, so it may only reach public addresses
+    private static async sendWebhookAlert(webhookUrl: string, data: any) {
+        try {
+            const response = await fetchPublicUrl(webhookUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    type: 'cost_alert',
+                    timestamp: new Date().toISOString(),
+                    data,
+                }),
+                // A redirect target hasn't been checked
+                redirect: 'manual',
+                signal: AbortSignal.timeout(ALERT_TIMEOUT_MS),
+            });
+            await response.body?.cancel();
+        } catch (error) {
+            console.error('Failed to send webhook alert:', error);
+        }
+    }
+}
+
+function getStartOfMonth(): Date {
+    const startOfMonth = new Date();
+    startOfMonth.setDate(1);
+    startOfMonth.setHours(0, 0, 0, 0);
+    return startOfMonth;
+}
+
+function getPeriod(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Expected tokens for a full generation, from the document's requested length.
+ * CUSTOM documents pass their type for its own estimates.
+ */
+export function estimateDocumentTokens(
+    type: DocumentType,
+    input: unknown,
+    customType?: { estimatedTokens: unknown } | null
+): number {
+    const outputLength = (input as { outputLength?: 'short' | 'medium' | 'long' } | null)
+        ?.outputLength ?? 'medium';
+
+    if (customType) {
+        return tokenEstimateSchema
+            .catch(DEFAULT_TOKEN_ESTIMATE)
+            .parse(customType.estimatedTokens)[outputLength];
+    }
+
+    return estimateTokenUsage(type, outputLength);
+}
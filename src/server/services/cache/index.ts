@@ -16,6 +16,7 @@ export const CACHE_TTL: Record<DocumentType, number> = {
     [DocumentType.BUSINESS_PLAN]: 3 * 24 * 60 * 60,  // 3 days
     [DocumentType.GRANT_PROPOSAL]: 7 * 24 * 60 * 60, // 7 days  
     [DocumentType.MEDICAL_REPORT]: 60 * 60,          // 1 hour (sensitive)
+    [DocumentType.CUSTOM]: 24 * 60 * 60,             // 1 day (definitions can change)
 };
 
 // Cache types
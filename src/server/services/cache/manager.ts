@@ -4,6 +4,16 @@ import { DocumentType } from '@prisma/client';
 import { CacheService, CacheType, type CacheOptions } from './index';
 import { getCacheService } from './index';
 import type { DocumentProviderName } from '../document/types';
+import { ModelCatalogService } from '../llm/model-catalog';
+import { db } from '~/server/db';
+import { getSemanticCache, type CacheLookupResult, type SemanticCacheService } from './semantic';
+import type { FieldSubstitution } from './semantic-input';
+
+// Window for per-user cache statistics
+const STATS_WINDOW_DAYS = 30;
+
+// Typical prompt + completion tokens for one outline generation
+const TYPICAL_OUTLINE_TOKENS = 4000;
 
 export interface OutlineCacheParams {
     documentType: DocumentType;
@@ -19,6 +29,20 @@ export interface SectionCacheParams extends OutlineCacheParams {
     previousSections?: Record<string, string>;
 }
 
+export interface OutlineCacheOptions extends CacheOptions {
+    // On an exact miss, start from the outline of a near-identical input
+    semantic?: boolean;
+}
+
+export interface OutlineCacheResult<T> {
+    value: T;
+    fromCache: boolean;
+    costSaved?: number;
+    // Set when the outline came from a similar rather than identical input
+    similarity?: number;
+    substitutions?: FieldSubstitution[];
+}
+
 export interface EmbeddingCacheParams {
     documentId: string;
     chunkIndex: number;
@@ -28,19 +52,23 @@ export interface EmbeddingCacheParams {
 
 export class CacheManager {
     private cache: CacheService;
+    private semantic: SemanticCacheService;
 
     constructor() {
         this.cache = getCacheService();
+        this.semantic = getSemanticCache();
     }
 
     /**
-     * Get or generate document outline
+     * Get or generate document outline. With `semantic`, an exact miss falls
+     * back to the user's cached outline for the most similar input, with
+     * changed field values substituted in.
      */
     async getOrGenerateOutline<T = any>(
         params: OutlineCacheParams,
         generator: () => Promise<T>,
-        options: CacheOptions = {}
-    ): Promise<{ value: T; fromCache: boolean; costSaved?: number }> {
+        options: OutlineCacheOptions = {}
+    ): Promise<OutlineCacheResult<T>> {
         const key = this.cache.generateKey({
             type: CacheType.OUTLINE,
             documentType: params.documentType,
@@ -52,8 +80,21 @@ export class CacheManager {
         // Try to get from cache
         const cached = await this.cache.get<T>(key, options);
 
+        const record = (result: CacheLookupResult, costSaved = 0, similarity?: number) =>
+            params.userId
+                ? this.semantic.recordLookup({
+                    userId: params.userId,
+                    type: CacheType.OUTLINE,
+                    documentType: params.documentType,
+                    result,
+                    similarity,
+                    costSaved,
+                })
+                : Promise.resolve();
+
         if (cached) {
             console.log(`Cache hit for outline: ${params.documentType}`);
+            await record('exact', cached.metadata.costSaved);
             return {
                 value: cached.value,
                 fromCache: true,
@@ -61,12 +102,41 @@ export class CacheManager {
             };
         }
 
+        const useSemantic = options.semantic && params.userId && !options.forceRefresh;
+
+        if (useSemantic) {
+            const match = await this.semantic.findSimilar<T>({
+                type: CacheType.OUTLINE,
+                documentType: params.documentType,
+                provider: params.provider,
+                model: params.model,
+                input: params.input,
+                userId: params.userId!,
+            });
+
+            if (match) {
+                console.log(
+                    `Similar-input cache hit for outline: ${params.documentType} ` +
+                    `(${Math.round(match.similarity * 100)}%)`
+                );
+                await record('semantic', match.costSaved, match.similarity);
+                return {
+                    value: match.value,
+                    fromCache: true,
+                    costSaved: match.costSaved,
+                    similarity: match.similarity,
+                    substitutions: match.substitutions,
+                };
+            }
+        }
+
         // Generate if not cached
         console.log(`Cache miss for outline: ${params.documentType}`);
+        await record('miss');
         const value = await generator();
 
         // Estimate cost based on typical outline generation
-        const estimatedCost = this.estimateOutlineCost(params.provider, params.model);
+        const estimatedCost = await this.estimateOutlineCost(params.provider, params.model);
 
         // Cache the result
         await this.cache.set({
@@ -78,12 +148,17 @@ export class CacheManager {
             model: params.model,
             inputHash: key.split(':').pop()!,
             cost: estimatedCost,
+            userId: params.userId,
             metadata: {
                 userId: params.userId,
                 documentType: params.documentType,
             },
         });
 
+        if (useSemantic) {
+            await this.semantic.index(key, params.input, params.provider);
+        }
+
         return {
             value,
             fromCache: false,
@@ -128,7 +203,7 @@ export class CacheManager {
         const value = await generator();
 
         // Estimate cost based on typical section generation
-        const estimatedCost = this.estimateSectionCost(params.provider, params.model);
+        const estimatedCost = await this.estimateSectionCost(params.provider, params.model);
 
         // Cache the result
         await this.cache.set({
@@ -228,17 +303,37 @@ export class CacheManager {
      */
     async getUserCacheStats(userId: string): Promise<{
         totalHits: number;
+        exactHits: number;
+        semanticHits: number;
+        lookups: number;
         costSaved: number;
+        semanticCostSaved: number;
         cacheRate: number;
     }> {
-        // This would query the database for user-specific stats
-        // For now, return overall stats
-        const stats = await this.cache.getStats();
+        const groups = await db.cacheLookup.groupBy({
+            by: ['result'],
+            where: {
+                userId,
+                createdAt: { gte: new Date(Date.now() - STATS_WINDOW_DAYS * 24 * 60 * 60 * 1000) },
+            },
+            _count: { _all: true },
+            _sum: { costSaved: true },
+        });
+
+        const byResult = (result: string) => groups.find(group => group.result === result);
+        const exactHits = byResult('exact')?._count._all ?? 0;
+        const semanticHits = byResult('semantic')?._count._all ?? 0;
+        const lookups = groups.reduce((sum, group) => sum + group._count._all, 0);
+        const semanticCostSaved = byResult('semantic')?._sum.costSaved ?? 0;
 
         return {
-            totalHits: Math.floor(stats.hitRate * 100),
-            costSaved: stats.costSaved,
-            cacheRate: stats.hitRate,
+            totalHits: exactHits + semanticHits,
+            exactHits,
+            semanticHits,
+            lookups,
+            costSaved: (byResult('exact')?._sum.costSaved ?? 0) + semanticCostSaved,
+            semanticCostSaved,
+            cacheRate: lookups > 0 ? (exactHits + semanticHits) / lookups : 0,
         };
     }
 
@@ -279,38 +374,13 @@ export class CacheManager {
     /**
      * Estimate costs for different operations
      */
-    private estimateOutlineCost(provider: DocumentProviderName, model: string): number {
-        const costs: Record<string, Record<string, number>> = {
-            openai: {
-                'gpt-4': 0.12,
-                'gpt-4-turbo': 0.10,
-                'gpt-3.5-turbo': 0.02,
-            },
-            anthropic: {
-                'claude-3-opus': 0.15,
-                'claude-3-sonnet': 0.08,
-                'claude-3-haiku': 0.03,
-            },
-            gemini: {
-                'gemini-1.5-pro': 0.07,
-                'gemini-1.5-flash': 0.02,
-            },
-            perplexity: {
-                'pplx-70b': 0.05,
-                'pplx-7b': 0.01,
-            },
-            llama: {
-                'llama-3-70b': 0.04,
-                'llama-3-8b': 0.01,
-            },
-        };
-
-        return costs[provider]?.[model] || 0.05;
+    private estimateOutlineCost(provider: DocumentProviderName, model: string): Promise<number> {
+        return ModelCatalogService.estimateCost(provider, model, TYPICAL_OUTLINE_TOKENS);
     }
 
-    private estimateSectionCost(provider: DocumentProviderName, model: string): number {
+    private async estimateSectionCost(provider: DocumentProviderName, model: string): Promise<number> {
         // Sections typically cost 2-3x more than outlines
-        return this.estimateOutlineCost(provider, model) * 2.5;
+        return (await this.estimateOutlineCost(provider, model)) * 2.5;
     }
 
     private hashObject(obj: any): string {
@@ -0,0 +1,158 @@
+// src/server/services/cache/semantic-input.ts
+
+// Fields that never change what gets generated
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt', 'userId', 'id', 'timestamp']);
+
+// Values shorter than this are too ambiguous to substitute into cached text
+const MIN_SUBSTITUTION_LENGTH = 3;
+
+export interface FieldSubstitution {
+    field: string;
+    from: string;
+    to: string;
+}
+
+/**
+ * Flatten an input into sorted `path: value` lines with case and whitespace
+ * normalized. Inputs that differ only in formatting give the same text, and
+ * inputs that differ in one field share every other line.
+ */
+export function describeInput(input: unknown): string {
+    const lines: string[] = [];
+
+    const visit = (value: unknown, path: string) => {
+        if (value === null || value === undefined || value === '') return;
+
+        if (Array.isArray(value)) {
+            const items = value.every(item => typeof item !== 'object')
+                ? value.map(item => normalizeText(String(item))).sort()
+                : null;
+            if (items) {
+                if (items.length > 0) lines.push(`${path}: ${items.join(', ')}`);
+            } else {
+                value.forEach((item, index) => visit(item, `${path}[${index}]`));
+            }
+            return;
+        }
+
+        if (typeof value === 'object') {
+            for (const [key, child] of Object.entries(value)) {
+                if (!path && IGNORED_FIELDS.has(key)) continue;
+                visit(child, path ? `${path}.${key}` : key);
+            }
+            return;
+        }
+
+        lines.push(`${path}: ${normalizeText(String(value as string | number | boolean))}`);
+    };
+
+    visit(input, '');
+    return lines.sort().join('\n');
+}
+
+/**
+ * Text fields whose value differs between the input a cached result was
+ * generated for and a new input
+ */
+export function diffTextFields(cachedInput: unknown, input: unknown): FieldSubstitution[] {
+    const cached = collectTextFields(cachedInput);
+    const current = collectTextFields(input);
+    const changes: FieldSubstitution[] = [];
+
+    for (const [field, from] of cached) {
+        const to = current.get(field);
+        if (to === undefined || from.trim() === to.trim()) continue;
+        changes.push({ field, from: from.trim(), to: to.trim() });
+    }
+
+    return changes;
+}
+
+/**
+ * Replace the old values of changed fields wherever they appear in the
+ * strings of a cached result, e.g. the previous company name in section
+ * titles. Returns the substitutions that matched something.
+ */
+export function substituteFields<T>(
+    value: T,
+    cachedInput: unknown,
+    input: unknown
+): { value: T; substitutions: FieldSubstitution[] } {
+    const changes = diffTextFields(cachedInput, input)
+        .filter(change => change.from.length >= MIN_SUBSTITUTION_LENGTH)
+        // Longest first, so a full name is replaced before a part of it
+        .sort((a, b) => b.from.length - a.from.length);
+
+    // Whole words only, so "Tech" doesn't rewrite "Technical"
+    const patterns = changes.map(change => ({
+        change,
+        pattern: new RegExp(`(?<![\\w])${escapeRegExp(change.from)}(?![\\w])`, 'g'),
+    }));
+    const applied = new Set<FieldSubstitution>();
+
+    const replace = (node: unknown): unknown => {
+        if (typeof node === 'string') {
+            let text = node;
+            for (const { change, pattern } of patterns) {
+                const replaced = text.replace(pattern, () => change.to);
+                if (replaced !== text) {
+                    text = replaced;
+                    applied.add(change);
+                }
+            }
+            return text;
+        }
+        if (Array.isArray(node)) {
+            return node.map(replace);
+        }
+        if (node !== null && typeof node === 'object') {
+            return Object.fromEntries(
+                Object.entries(node).map(([key, child]) => [key, replace(child)])
+            );
+        }
+        return node;
+    };
+
+    return {
+        value: replace(value) as T,
+        substitutions: changes.filter(change => applied.has(change)),
+    };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i]! * b[i]!;
+        normA += a[i]! * a[i]!;
+        normB += b[i]! * b[i]!;
+    }
+
+    return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Every string leaf of an input by its dotted path
+function collectTextFields(input: unknown, path = '', fields = new Map<string, string>()) {
+    if (typeof input === 'string') {
+        if (path) fields.set(path, input);
+    } else if (Array.isArray(input)) {
+        input.forEach((item, index) => collectTextFields(item, `${path}[${index}]`, fields));
+    } else if (input !== null && typeof input === 'object') {
+        for (const [key, child] of Object.entries(input)) {
+            if (!path && IGNORED_FIELDS.has(key)) continue;
+            collectTextFields(child, path ? `${path}.${key}` : key, fields);
+        }
+    }
+    return fields;
+}
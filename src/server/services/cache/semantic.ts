@@ -0,0 +1,213 @@
+// src/server/services/cache/semantic.ts
+
+import { Prisma, type DocumentType } from '@prisma/client';
+import { db } from '~/server/db';
+import { EmbeddingService, defaultEmbeddingProvider, type EmbeddingProvider } from '../rag/embeddings';
+import type { CacheType } from './index';
+import {
+    cosineSimilarity,
+    describeInput,
+    substituteFields,
+    type FieldSubstitution,
+} from './semantic-input';
+
+// Inputs at least this similar are treated as the same request
+export const SEMANTIC_CACHE_THRESHOLD = 0.95;
+
+// Most recent entries compared per lookup
+const MAX_CANDIDATES = 200;
+
+export type CacheLookupResult = 'exact' | 'semantic' | 'miss';
+
+export interface SemanticLookupParams {
+    type: CacheType;
+    documentType?: DocumentType;
+    provider: string;
+    model: string;
+    input: any;
+    userId: string;
+    threshold?: number;
+}
+
+export interface SemanticMatch<T> {
+    key: string;
+    // Cached value with changed input fields substituted in
+    value: T;
+    similarity: number;
+    substitutions: FieldSubstitution[];
+    costSaved: number;
+}
+
+// Stored on CacheEntry.embedding
+interface StoredEmbedding {
+    model: string;
+    vector: number[];
+}
+
+/**
+ * Finds cached results generated for inputs that are close to, but not
+ * exactly, a new input, e.g. the same business plan for another company.
+ * Matches are limited to the user's own entries, since a cached result can
+ * carry details of the input it was generated for.
+ */
+export class SemanticCacheService {
+    private embedders = new Map<EmbeddingProvider, EmbeddingService>();
+
+    /**
+     * Nearest cached entry above the similarity threshold, or null
+     */
+    async findSimilar<T = any>(params: SemanticLookupParams): Promise<SemanticMatch<T> | null> {
+        const threshold = params.threshold ?? SEMANTIC_CACHE_THRESHOLD;
+
+        const embeddings = this.embeddingsFor(params.provider);
+        if (!embeddings) {
+            return null;
+        }
+
+        try {
+            const candidates = await db.cacheEntry.findMany({
+                where: {
+                    type: params.type,
+                    documentType: params.documentType,
+                    provider: params.provider,
+                    model: params.model,
+                    userId: params.userId,
+                    expiresAt: { gt: new Date() },
+                    embedding: { not: Prisma.DbNull },
+                },
+                orderBy: { createdAt: 'desc' },
+                take: MAX_CANDIDATES,
+                select: { key: true, value: true, input: true, embedding: true, costSaved: true },
+            });
+
+            if (candidates.length === 0) {
+                return null;
+            }
+
+            const vector = await embeddings.embedQuery(describeInput(params.input));
+            const model = embeddings.getModel();
+
+            let best: { entry: (typeof candidates)[number]; similarity: number } | null = null;
+            for (const entry of candidates) {
+                const stored = entry.embedding as unknown as StoredEmbedding;
+                if (stored.model !== model) continue;
+
+                const similarity = cosineSimilarity(vector, stored.vector);
+                if (similarity >= threshold && similarity > (best?.similarity ?? 0)) {
+                    best = { entry, similarity };
+                }
+            }
+
+            if (!best) {
+                return null;
+            }
+
+            await db.cacheEntry.update({
+                where: { key: best.entry.key },
+                data: { hits: { increment: 1 }, lastHit: new Date() },
+            });
+
+            const { value, substitutions } = substituteFields(
+                best.entry.value as T,
+                best.entry.input,
+                params.input
+            );
+
+            return {
+                key: best.entry.key,
+                value,
+                similarity: best.similarity,
+                substitutions,
+                costSaved: best.entry.costSaved,
+            };
+        } catch (error) {
+            // A failed lookup only means generating from scratch
+            console.error('Semantic cache lookup error:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Store the input and its embedding on a cache entry so later inputs
+     * can be matched against it
+     */
+    async index(key: string, input: any, provider: string): Promise<void> {
+        const embeddings = this.embeddingsFor(provider);
+        if (!embeddings) {
+            return;
+        }
+
+        try {
+            const embedding: StoredEmbedding = {
+                model: embeddings.getModel(),
+                vector: await embeddings.embedQuery(describeInput(input)),
+            };
+
+            await db.cacheEntry.update({
+                where: { key },
+                data: {
+                    input: input as Prisma.InputJsonValue,
+                    embedding: embedding as unknown as Prisma.InputJsonValue,
+                },
+            });
+        } catch (error) {
+            console.error('Semantic cache index error:', error);
+        }
+    }
+
+    /**
+     * Record the outcome of a lookup for the user's hit-rate statistics
+     */
+    async recordLookup(params: {
+        userId: string;
+        type: CacheType;
+        documentType?: DocumentType;
+        result: CacheLookupResult;
+        similarity?: number;
+        costSaved?: number;
+    }): Promise<void> {
+        try {
+            await db.cacheLookup.create({
+                data: {
+                    userId: params.userId,
+                    type: params.type,
+                    documentType: params.documentType,
+                    result: params.result,
+                    similarity: params.similarity,
+                    costSaved: params.costSaved ?? 0,
+                },
+            });
+        } catch (error) {
+            console.error('Cache lookup record error:', error);
+        }
+    }
+
+    /**
+     * Embedder for inputs generated with an LLM provider: local models embed
+     * through the local endpoint, so a local setup never calls OpenAI. Mock
+     * outputs are not worth matching, so they get none.
+     */
+    private embeddingsFor(llmProvider: string): EmbeddingService | null {
+        if (llmProvider === 'mock') {
+            return null;
+        }
+
+        const provider = llmProvider === 'local' ? 'local' : defaultEmbeddingProvider();
+        let embeddings = this.embedders.get(provider);
+        if (!embeddings) {
+            embeddings = new EmbeddingService(provider);
+            this.embedders.set(provider, embeddings);
+        }
+        return embeddings;
+    }
+}
+
+// Singleton instance
+let semanticInstance: SemanticCacheService | null = null;
+
+export function getSemanticCache(): SemanticCacheService {
+    if (!semanticInstance) {
+        semanticInstance = new SemanticCacheService();
+    }
+    return semanticInstance;
+}
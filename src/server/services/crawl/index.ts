@@ -0,0 +1,267 @@
+// src/server/services/crawl/index.ts
+
+import { Queue } from 'bullmq';
+import { Redis } from 'ioredis';
+import { TRPCError } from '@trpc/server';
+import { ProcessingStatus, SourceType, type Prisma } from '@prisma/client';
+import { env } from '~/env';
+import { db } from '~/server/db';
+import { PrivateAddressError, assertPublicUrl } from '~/server/services/network';
+import { RAGService } from '~/server/services/rag';
+import { hashContent } from '~/server/services/rag/ingestion/dedupe';
+import {
+    WebCrawler,
+    normalizeUrl,
+    type CrawledPage,
+} from '~/server/services/rag/ingestion/web';
+
+export const WEB_CRAWL_QUEUE = 'web-crawl';
+
+export type WebCrawlJobData =
+    | { kind: 'crawl'; crawlId: string }
+    // Periodic sweep that queues crawls whose re-crawl is due
+    | { kind: 'recrawl-due' };
+
+export interface StartCrawlOptions {
+    url: string;
+    maxDepth: number;
+    maxPages: number;
+    recrawlIntervalHours?: number;
+    tags?: string[];
+}
+
+export interface CrawlSummary {
+    pagesFound: number;
+    pagesChanged: number;
+    pagesRemoved: number;
+    failed: number;
+}
+
+// How often the worker looks for crawls due for a re-crawl
+const RECRAWL_SWEEP_MS = 15 * 60 * 1000;
+
+// Stored on each page's source and its chunks
+type PageMetadata = {
+    url: string;
+    title?: string;
+    depth: number;
+    crawledAt: string;
+};
+
+let queue: Queue<WebCrawlJobData> | undefined;
+
+function getQueue(): Queue<WebCrawlJobData> {
+    queue ??= new Queue<WebCrawlJobData>(WEB_CRAWL_QUEUE, {
+        connection: new Redis(env.REDIS_URL, { maxRetriesPerRequest: null }),
+    });
+    return queue;
+}
+
+export class WebCrawlService {
+    /**
+     * Record a crawl and queue its first run
+     */
+    static async start(userId: string, options: StartCrawlOptions) {
+        const startUrl = normalizeUrl(options.url, options.url);
+        if (!startUrl) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: 'Enter an http or https URL of a web page',
+            });
+        }
+        if (!env.ALLOW_PRIVATE_NETWORK_REQUESTS) {
+            try {
+                await assertPublicUrl(startUrl);
+            } catch (error) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: error instanceof PrivateAddressError
+                        ? 'Private and local addresses cannot be crawled'
+                        : 'The address of this site could not be resolved',
+                });
+            }
+        }
+
+        const crawl = await db.webCrawl.create({
+            data: {
+                userId,
+                startUrl,
+                maxDepth: options.maxDepth,
+                maxPages: options.maxPages,
+                recrawlIntervalHours: options.recrawlIntervalHours,
+                tags: options.tags ?? [],
+            },
+        });
+
+        await this.queueCrawl(crawl.id);
+        return crawl;
+    }
+
+    /**
+     * Queue a crawl now, unless it is already queued or running
+     */
+    static async queueCrawl(crawlId: string) {
+        await getQueue().add(
+            'crawl',
+            { kind: 'crawl', crawlId },
+            { jobId: `crawl-${crawlId}`, removeOnComplete: true, removeOnFail: true },
+        );
+    }
+
+    /**
+     * Register the periodic sweep for due re-crawls. Safe to call on every
+     * worker start; the scheduler is replaced rather than duplicated.
+     */
+    static async scheduleRecrawls() {
+        await getQueue().upsertJobScheduler(
+            'recrawl-due',
+            { every: RECRAWL_SWEEP_MS },
+            { name: 'recrawl-due', data: { kind: 'recrawl-due' } },
+        );
+    }
+
+    /**
+     * Queue every crawl whose re-crawl time has passed
+     */
+    static async queueDueCrawls(): Promise<number> {
+        const due = await db.webCrawl.findMany({
+            where: {
+                nextCrawlAt: { lte: new Date() },
+                status: { not: ProcessingStatus.PROCESSING },
+            },
+            select: { id: true },
+        });
+
+        for (const crawl of due) {
+            await this.queueCrawl(crawl.id);
+        }
+        return due.length;
+    }
+
+    /**
+     * Crawl the site and bring its knowledge sources up to date. New and
+     * changed pages are chunked and embedded; unchanged pages keep their
+     * embeddings, and pages that now answer 404 or 410 are removed.
+     */
+    static async execute(crawlId: string): Promise<CrawlSummary> {
+        const crawl = await db.webCrawl.update({
+            where: { id: crawlId },
+            data: { status: ProcessingStatus.PROCESSING, error: null },
+        });
+
+        const existing = await db.knowledgeSource.findMany({
+            where: { crawlId },
+            select: { id: true, url: true, status: true, contentHash: true },
+        });
+        const sourcesByUrl = new Map(existing.map(source => [source.url, source]));
+
+        const rag = new RAGService(db);
+        const summary: CrawlSummary = { pagesFound: 0, pagesChanged: 0, pagesRemoved: 0, failed: 0 };
+
+        const ingestPage = async (page: CrawledPage) => {
+            if (!page.content) return;
+            summary.pagesFound++;
+
+            // Unchanged pages keep their embeddings
+            const source = sourcesByUrl.get(page.url);
+            if (source?.status === ProcessingStatus.COMPLETED && source.contentHash === hashContent(page.content)) {
+                return;
+            }
+
+            const metadata: PageMetadata = {
+                url: page.url,
+                title: page.title,
+                depth: page.depth,
+                crawledAt: new Date().toISOString(),
+            };
+
+            const data = {
+                name: (page.title ?? page.url).slice(0, 255),
+                url: page.url,
+                content: page.content,
+                error: null,
+                status: ProcessingStatus.PENDING,
+            };
+
+            const { id } = source
+                ? await db.knowledgeSource.update({ where: { id: source.id }, data })
+                : await db.knowledgeSource.create({
+                      data: {
+                          ...data,
+                          userId: crawl.userId,
+                          crawlId,
+                          type: SourceType.WEBSITE,
+                          mimeType: 'text/html',
+                          tags: crawl.tags,
+                      },
+                  });
+
+            try {
+                await rag.ingestDocument(
+                    id,
+                    Buffer.from(page.content, 'utf-8'),
+                    'text/plain',
+                    metadata,
+                );
+                summary.pagesChanged++;
+            } catch (error) {
+                // ingestDocument marks the source FAILED; carry on with the site
+                console.error(`[Crawl] Failed to ingest ${page.url}:`, error);
+                summary.failed++;
+            }
+        };
+
+        try {
+            const crawler = new WebCrawler({
+                maxDepth: crawl.maxDepth,
+                maxPages: crawl.maxPages,
+                allowPrivateHosts: env.ALLOW_PRIVATE_NETWORK_REQUESTS,
+            });
+            const result = await crawler.crawl(crawl.startUrl, ingestPage);
+
+            const removed = result.missing
+                .map(url => sourcesByUrl.get(url)?.id)
+                .filter((id): id is string => !!id);
+            if (removed.length > 0) {
+                await db.knowledgeSource.deleteMany({ where: { id: { in: removed } } });
+            }
+            summary.pagesRemoved = removed.length;
+
+            await db.webCrawl.update({
+                where: { id: crawlId },
+                data: {
+                    status: result.pages.length > 0 ? ProcessingStatus.COMPLETED : ProcessingStatus.FAILED,
+                    error: result.pages.length > 0
+                        ? null
+                        : result.skipped[0]?.reason ?? 'No pages could be crawled',
+                    pagesFound: summary.pagesFound,
+                    pagesChanged: summary.pagesChanged,
+                    ...this.nextRun(crawl),
+                },
+            });
+
+            return summary;
+        } catch (error) {
+            await db.webCrawl.update({
+                where: { id: crawlId },
+                data: {
+                    status: ProcessingStatus.FAILED,
+                    error: error instanceof Error ? error.message : 'Crawl failed',
+                    // Scheduled crawls try again at the next interval
+                    ...this.nextRun(crawl),
+                },
+            });
+            throw error;
+        }
+    }
+
+    private static nextRun(crawl: { recrawlIntervalHours: number | null }): Prisma.WebCrawlUpdateInput {
+        const now = new Date();
+        return {
+            lastCrawledAt: now,
+            nextCrawlAt: crawl.recrawlIntervalHours
+                ? new Date(now.getTime() + crawl.recrawlIntervalHours * 60 * 60 * 1000)
+                : null,
+        };
+    }
+}
@@ -0,0 +1,177 @@
+// src/server/services/document/citations.ts
+
+import type { PrismaClient } from '@prisma/client';
+import type { RAGContext } from './rag-enhanced-generation';
+import { normalizeSections } from './sections';
+
+// Retrieved chunks are numbered [1]..[n] in the section prompt and the model
+// cites them inline with the same markers. Document.citations keeps the
+// numbered sources plus which markers each section actually uses.
+
+export interface CitationSource {
+    marker: number;
+    embeddingId: string;
+    sourceId: string;
+    sourceName: string;
+    similarity: number;
+    // Full chunk text, only used while prompting
+    content: string;
+}
+
+export interface StoredCitationSource {
+    marker: number;
+    embeddingId: string;
+    sourceId: string;
+    sourceName: string;
+    similarity: number;
+    excerpt: string;
+}
+
+export interface DocumentCitations {
+    sources: StoredCitationSource[];
+    sections: Record<string, number[]>;
+}
+
+// Matches [1] and grouped markers such as [1, 3]
+const CITATION_MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+const EXCERPT_LENGTH = 300;
+
+/**
+ * Number the chunks retrieved for a document so they can be cited
+ */
+export function toCitationSources(ragContext: RAGContext | null | undefined): CitationSource[] {
+    if (!ragContext) return [];
+
+    return ragContext.sources.map((source, index) => ({
+        marker: index + 1,
+        embeddingId: source.id,
+        sourceId: source.sourceId,
+        sourceName: source.name,
+        similarity: source.similarity,
+        content: source.content,
+    }));
+}
+
+/**
+ * Prompt block listing the numbered sources and how to cite them
+ */
+export function buildCitationInstructions(sources: CitationSource[]): string {
+    if (sources.length === 0) return '';
+
+    const listing = sources
+        .map(source => `[${source.marker}] ${source.sourceName}\n${source.content}`)
+        .join('\n\n');
+
+    return [
+        'Sources from the user\'s knowledge base:',
+        listing,
+        'When a statement relies on one of these sources, cite it inline immediately after the statement using its number in square brackets, e.g. [1] or [1][3].',
+        'Only cite the numbered sources above and never invent citation numbers.',
+    ].join('\n\n');
+}
+
+/**
+ * Split grouped markers ([1, 2] -> [1][2]) and drop markers that don't
+ * correspond to a retrieved source, so every marker left is resolvable.
+ */
+export function normalizeCitationMarkers(content: string, sources: CitationSource[]): string {
+    if (sources.length === 0) return content;
+
+    const known = new Set(sources.map(source => source.marker));
+
+    return content.replace(CITATION_MARKER_PATTERN, (_match, group: string) =>
+        group
+            .split(',')
+            .map(marker => Number(marker.trim()))
+            .filter(marker => known.has(marker))
+            .map(marker => `[${marker}]`)
+            .join('')
+    );
+}
+
+/**
+ * Markers cited in a piece of text, in order of first appearance
+ */
+export function extractCitationMarkers(content: string): number[] {
+    const markers: number[] = [];
+
+    for (const match of content.matchAll(CITATION_MARKER_PATTERN)) {
+        for (const marker of match[1]!.split(',')) {
+            const value = Number(marker.trim());
+            if (!markers.includes(value)) markers.push(value);
+        }
+    }
+
+    return markers;
+}
+
+/**
+ * Build the citation map stored on the document from its final sections
+ */
+export function buildCitationMap(rawSections: unknown, sources: CitationSource[]): DocumentCitations | null {
+    if (sources.length === 0) return null;
+
+    const stored = sources.map(({ content, ...source }) => ({
+        ...source,
+        excerpt: content.length > EXCERPT_LENGTH
+            ? `${content.substring(0, EXCERPT_LENGTH).trim()}...`
+            : content,
+    }));
+
+    return refreshCitationMap({ sources: stored, sections: {} }, rawSections);
+}
+
+/**
+ * Recompute which markers each section cites after its content changed
+ * (regeneration, manual edits, restores). The numbered sources stay the same.
+ */
+export function refreshCitationMap(citations: DocumentCitations, rawSections: unknown): DocumentCitations {
+    const known = new Set(citations.sources.map(source => source.marker));
+    const sections: Record<string, number[]> = {};
+
+    for (const section of normalizeSections(rawSections)) {
+        const markers = extractCitationMarkers(section.content ?? '').filter(marker => known.has(marker));
+        if (markers.length > 0) sections[section.id] = markers;
+    }
+
+    return { sources: citations.sources, sections };
+}
+
+/**
+ * Read Document.citations, tolerating documents generated without RAG
+ */
+export function parseCitations(raw: unknown): DocumentCitations | null {
+    if (!raw || typeof raw !== 'object') return null;
+
+    const value = raw as Partial<DocumentCitations>;
+    if (!Array.isArray(value.sources)) return null;
+
+    return {
+        sources: value.sources,
+        sections: value.sections && typeof value.sections === 'object' ? value.sections : {},
+    };
+}
+
+/**
+ * Reload the full chunk text for stored citations, e.g. when regenerating a
+ * section. Sources whose embeddings were deleted are skipped.
+ */
+export async function loadCitationSources(
+    db: PrismaClient,
+    citations: DocumentCitations
+): Promise<CitationSource[]> {
+    const embeddings = await db.embedding.findMany({
+        where: { id: { in: citations.sources.map(source => source.embeddingId) } },
+        select: { id: true, content: true },
+    });
+    const contentById = new Map<string, string>(
+        embeddings.map((embedding: { id: string; content: string }) => [embedding.id, embedding.content])
+    );
+
+    return citations.sources
+        .filter(source => contentById.has(source.embeddingId))
+        .map(({ excerpt: _excerpt, ...source }) => ({
+            ...source,
+            content: contentById.get(source.embeddingId)!,
+        }));
+}
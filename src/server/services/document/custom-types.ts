@@ -0,0 +1,134 @@
+// src/server/services/document/custom-types.ts
+
+import { TRPCError } from '@trpc/server';
+import type { CustomDocumentType, PrismaClient } from '@prisma/client';
+import type { DocumentPrompts } from '../llm/prompts';
+import { renderPromptTemplate } from '../llm/prompts/template';
+import {
+    buildCustomInputSchema,
+    parseCustomFields,
+    parseCustomSections,
+    type CustomSection,
+} from '~/config/custom-document-types';
+
+// Custom document types store their prompts as templates. A {{placeholder}}
+// names an input field or one of the stage-specific values in
+// CUSTOM_PROMPT_PLACEHOLDERS.
+
+type Db = Pick<PrismaClient, 'customDocumentType' | 'document'>;
+
+/**
+ * Load a custom document type, optionally refusing disabled ones
+ */
+export async function loadCustomDocumentType(
+    db: Db,
+    id: string,
+    options: { requireEnabled?: boolean } = {}
+): Promise<CustomDocumentType> {
+    const customType = await db.customDocumentType.findUnique({ where: { id } });
+
+    if (!customType) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Document type not found',
+        });
+    }
+
+    if (options.requireEnabled && !customType.enabled) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Document type ${customType.name} is not enabled`,
+        });
+    }
+
+    return customType;
+}
+
+/**
+ * Validate document input against the custom type's field definitions
+ */
+export function parseCustomDocumentInput(
+    customType: CustomDocumentType,
+    input: unknown
+): Record<string, unknown> {
+    const schema = buildCustomInputSchema(parseCustomFields(customType.fields));
+    const result = schema.safeParse(input);
+
+    if (!result.success) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Invalid input for ${customType.name}`,
+            cause: result.error,
+        });
+    }
+
+    return result.data;
+}
+
+/**
+ * Prompt set for a custom type, used in place of DOCUMENT_PROMPTS
+ */
+export function buildCustomDocumentPrompts(customType: CustomDocumentType): DocumentPrompts {
+    const sections = parseCustomSections(customType.sections);
+    const sectionList = sections.map(section => `- ${section.name}`).join('\n');
+
+    const inputValues = (input: unknown) => ({
+        ...(input && typeof input === 'object' ? (input as Record<string, unknown>) : {}),
+        input,
+        documentType: customType.name,
+    });
+
+    return {
+        systemPrompts: { default: customType.systemPrompt },
+
+        outline: (input, provider) =>
+            renderPromptTemplate(customType.outlinePrompt, {
+                ...inputValues(input),
+                sections: sectionList,
+                provider,
+            }) + outlineFormatInstructions(sections),
+
+        section: (sectionId, sectionOutline, fullOutline, originalInput) =>
+            renderPromptTemplate(customType.sectionPrompt, {
+                ...inputValues(originalInput),
+                sectionId,
+                sectionTitle:
+                    sectionOutline?.title ??
+                    sections.find(section => section.id === sectionId)?.name ??
+                    sectionId,
+                sectionOutline,
+                outline: fullOutline,
+            }),
+
+        refinement: (content, input) =>
+            renderPromptTemplate(customType.refinementPrompt, {
+                ...inputValues(input),
+                content,
+            }),
+    };
+}
+
+/**
+ * Custom prompts for a document, or undefined for the built-in types
+ */
+export async function loadCustomPromptsForDocument(
+    db: Db,
+    documentId: string
+): Promise<DocumentPrompts | undefined> {
+    const document = await db.document.findUnique({
+        where: { id: documentId },
+        select: { customType: true },
+    });
+
+    return document?.customType ? buildCustomDocumentPrompts(document.customType) : undefined;
+}
+
+// The stored outline is keyed by section id in order (see outline.ts), so the
+// response format is fixed regardless of what the admin's template asks for
+function outlineFormatInstructions(sections: CustomSection[]): string {
+    const example = Object.fromEntries(
+        sections.map(section => [section.id, { title: section.name, points: ['...'] }])
+    );
+
+    return `\n\nReturn only a JSON object with one key per section, in this order:\n${JSON.stringify(example, null, 2)}`;
+}
@@ -0,0 +1,76 @@
+// src/server/services/document/outline.ts
+
+import type { Prisma } from '@prisma/client';
+
+// Outlines are stored as a { sectionId: sectionOutline } record whose key
+// order is the section order. Section outlines come straight from the LLM,
+// so only title and points are interpreted; any other fields are kept.
+
+export interface OutlineSection {
+    id: string;
+    title: string;
+    points: string[];
+}
+
+/**
+ * Read a stored outline into an ordered, editable list
+ */
+export function normalizeOutline(raw: unknown): OutlineSection[] {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return [];
+
+    return Object.entries(raw as Record<string, unknown>).map(([id, value]) => {
+        if (typeof value === 'string') {
+            return { id, title: formatSectionTitle(id), points: [value] };
+        }
+
+        const section = (value ?? {}) as Record<string, unknown>;
+        const points = Array.isArray(section.points)
+            ? section.points.filter((point): point is string => typeof point === 'string')
+            : typeof section.description === 'string'
+                ? [section.description]
+                : [];
+
+        return {
+            id,
+            title: typeof section.title === 'string' ? section.title : formatSectionTitle(id),
+            points,
+        };
+    });
+}
+
+/**
+ * Build the outline to generate from after the user has edited, reordered
+ * or removed sections. Sections missing from `approved` are dropped.
+ */
+export function applyOutlineEdits(
+    raw: unknown,
+    approved: OutlineSection[]
+): Prisma.InputJsonValue {
+    const original = raw && typeof raw === 'object' && !Array.isArray(raw)
+        ? (raw as Record<string, unknown>)
+        : {};
+
+    const outline: Record<string, unknown> = {};
+    for (const section of approved) {
+        const existing = original[section.id];
+        const base = existing && typeof existing === 'object' && !Array.isArray(existing)
+            ? (existing as Record<string, unknown>)
+            : {};
+
+        // Integer-like keys would be re-sorted numerically by JS objects
+        const key = /^\d+$/.test(section.id) ? `section_${section.id}` : section.id;
+        outline[key] = {
+            ...base,
+            title: section.title,
+            points: section.points,
+        };
+    }
+
+    return outline as Prisma.InputJsonValue;
+}
+
+function formatSectionTitle(sectionId: string): string {
+    return sectionId
+        .replace(/[_-]+/g, ' ')
+        .replace(/\b\w/g, char => char.toUpperCase());
+}
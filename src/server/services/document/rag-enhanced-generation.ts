@@ -8,6 +8,7 @@ export interface RAGEnhancedInput {
     baseInput: any;
     userId: string;
     knowledgeSourceIds?: string[];
+    knowledgeCollectionIds?: string[];
     autoSelectSources?: boolean;
     ragConfig?: {
         maxResults?: number;
@@ -18,7 +19,8 @@ export interface RAGEnhancedInput {
 
 export interface RAGContext {
     sources: Array<{
-        id: string;
+        id: string; // Embedding id of the retrieved chunk
+        sourceId: string;
         name: string;
         content: string;
         similarity: number;
@@ -44,6 +46,7 @@ export class RAGEnhancedGenerator {
             baseInput,
             userId,
             knowledgeSourceIds,
+            knowledgeCollectionIds,
             autoSelectSources = true,
             ragConfig = {},
         } = params;
@@ -65,6 +68,7 @@ export class RAGEnhancedGenerator {
                     limit: ragConfig.maxResults || 5,
                     threshold: ragConfig.minSimilarity || 0.7,
                     sourceIds: knowledgeSourceIds,
+                    collectionIds: knowledgeCollectionIds,
                 });
 
                 allResults.push(...results);
@@ -157,6 +161,16 @@ export class RAGEnhancedGenerator {
                     queries.push(`${input.specialty} guidelines`);
                 }
                 break;
+
+            case 'CUSTOM':
+                // Admin-defined fields: search with the short text answers
+                for (const [field, value] of Object.entries(input ?? {})) {
+                    if (field === 'outputLength' || field === 'language') continue;
+                    if (typeof value === 'string' && value.trim().length > 2 && value.length <= 200) {
+                        queries.push(value.trim());
+                    }
+                }
+                break;
         }
 
         // Add any custom search terms
@@ -208,6 +222,7 @@ export class RAGEnhancedGenerator {
         const context: RAGContext = {
             sources: results.slice(0, 10).map(result => ({
                 id: result.id,
+                sourceId: result.sourceId,
                 name: sourceMap.get(result.sourceId)?.name || 'Unknown Source',
                 content: result.content,
                 similarity: result.similarity,
@@ -322,6 +337,7 @@ export async function enhanceWithRAG(
     userId: string,
     config: {
         knowledgeSourceIds?: string[];
+        knowledgeCollectionIds?: string[];
         ragEnabled?: boolean;
         autoRAG?: boolean;
     }
@@ -337,7 +353,8 @@ export async function enhanceWithRAG(
         baseInput: input,
         userId,
         knowledgeSourceIds: config.knowledgeSourceIds,
-        autoSelectSources: !config.knowledgeSourceIds?.length,
+        knowledgeCollectionIds: config.knowledgeCollectionIds,
+        autoSelectSources: !config.knowledgeSourceIds?.length && !config.knowledgeCollectionIds?.length,
     });
 
     if (!ragContext) {
@@ -0,0 +1,76 @@
+// src/server/services/document/sections.ts
+
+import type { Prisma } from '@prisma/client';
+import type { SectionData } from './types';
+
+// Document.sections is stored either as an ordered array of
+// { id, name|title, content, order } (queue processor) or as a
+// { sectionId: content } record (LLMService). These helpers read and
+// update both shapes without converting between them.
+
+/**
+ * Normalize stored sections into an ordered list
+ */
+export function normalizeSections(raw: unknown): SectionData[] {
+    if (!raw || typeof raw !== 'object') return [];
+
+    if (Array.isArray(raw)) {
+        return raw
+            .filter((section): section is Record<string, any> => !!section && typeof section === 'object')
+            .map((section, index) => ({
+                id: String(section.id ?? index + 1),
+                title: String(section.title ?? section.name ?? `Section ${index + 1}`),
+                content: typeof section.content === 'string' ? section.content : '',
+                order: typeof section.order === 'number' ? section.order : index,
+            }))
+            .sort((a, b) => a.order - b.order);
+    }
+
+    return Object.entries(raw as Record<string, unknown>)
+        .filter(([, value]) => typeof value === 'string')
+        .map(([id, value], index) => ({
+            id,
+            title: formatSectionTitle(id),
+            content: value as string,
+            order: index,
+        }));
+}
+
+/**
+ * Return a copy of the stored sections with one section's content replaced
+ */
+export function replaceSectionContent(
+    raw: unknown,
+    sectionId: string,
+    content: string
+): Prisma.InputJsonValue {
+    if (Array.isArray(raw)) {
+        return raw.map((section, index) =>
+            String(section?.id ?? index + 1) === sectionId
+                ? { ...section, content }
+                : section
+        ) as Prisma.InputJsonValue;
+    }
+
+    return {
+        ...(raw as Record<string, unknown>),
+        [sectionId]: content,
+    } as Prisma.InputJsonValue;
+}
+
+/**
+ * Count words across all sections
+ */
+export function countSectionWords(sections: SectionData[]): number {
+    return sections.reduce(
+        (total, section) =>
+            total + (section.content ?? '').split(/\s+/).filter(word => word.length > 0).length,
+        0
+    );
+}
+
+function formatSectionTitle(sectionId: string): string {
+    return sectionId
+        .replace(/[_-]+/g, ' ')
+        .replace(/\b\w/g, char => char.toUpperCase());
+}
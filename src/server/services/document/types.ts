@@ -1,6 +1,6 @@
 // src/server/services/document/types.ts
 
-export type DocumentProviderName = 'openai' | 'anthropic' | 'gemini' | 'perplexity' | 'llama';
+export type DocumentProviderName = 'openai' | 'anthropic' | 'gemini' | 'perplexity' | 'llama' | 'local' | 'mock';
 export type ToneType = 'professional' | 'creative' | 'technical' | 'conversational' | 'academic';
 
 export interface ProgressEventData {
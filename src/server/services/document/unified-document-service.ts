@@ -5,17 +5,21 @@ import { type PrismaClient } from '@prisma/client';
 import { TRPCError } from '@trpc/server';
 import { LLMService, type LLMServiceConfig } from '../llm';
 import { DOCUMENT_PROMPTS, type DocumentPrompts } from '../llm/prompts';
+import { isRetryableProviderError } from '../llm/fallback';
 import { type DocumentType } from '@prisma/client';
 import { getCacheService, CacheType } from '../cache';
 import { getCacheManager } from '../cache/manager';
 import { RAGService } from '../rag';
 import { PreferencesSyncService } from '../preferences/sync';
+import { BudgetService } from '../budget';
 import { getIO } from '~/server/websocket';
 import { Redis } from 'ioredis';
 import { env } from '~/env';
 import { EventEmitter } from 'events';
 import { type GenerateDocumentParams, type GeneratedDocument, type DocumentProviderName, type ToneType, type ProgressEventData, type SectionData } from './types';
 import { enhanceWithRAG, type RAGContext } from './rag-enhanced-generation';
+import { buildCitationMap, toCitationSources } from './citations';
+import { loadCustomDocumentType, buildCustomDocumentPrompts } from './custom-types';
 
 // LLM Service Wrapper to add EventEmitter capabilities
 class LLMServiceWrapper extends EventEmitter {
@@ -58,7 +62,9 @@ class LLMServiceWrapper extends EventEmitter {
 export interface UnifiedGenerationOptions {
     userId: string;
     type: DocumentType;
-    input: any;
+    // Required when type is CUSTOM
+    customTypeId?: string;
+    input: unknown;
     title: string;
     // Optional overrides
     provider?: DocumentProviderName;
@@ -69,6 +75,8 @@ export interface UnifiedGenerationOptions {
     useRAG?: boolean;
     ragEnabled?: boolean;
     knowledgeSourceIds?: string[];
+    // Collections the user owns or has been given access to
+    knowledgeCollectionIds?: string[];
     autoSelectSources?: boolean;
     ragConfig?: {
         maxResults?: number;
@@ -76,6 +84,8 @@ export interface UnifiedGenerationOptions {
         includeMetadata?: boolean;
     };
     forceRegenerate?: boolean;
+    // Stop after the outline and wait for the user to approve it
+    reviewOutline?: boolean;
 }
 
 export interface GenerationResult {
@@ -91,6 +101,7 @@ export interface GenerationResult {
     };
     cached: boolean;
     ragContext?: any;
+    awaitingOutlineReview?: boolean;
 }
 
 export class UnifiedDocumentService {
@@ -124,8 +135,8 @@ export class UnifiedDocumentService {
         // 3. Determine final configuration
         const config = await this.buildConfiguration(options, preferences);
 
-        // 4. Check cache if enabled
-        if (config.useCache && !options.forceRegenerate) {
+        // 4. Check cache if enabled (a reviewed outline always generates fresh)
+        if (config.useCache && !options.forceRegenerate && !options.reviewOutline) {
             const cached = await this.checkCache(config);
             if (cached) {
                 return cached;
@@ -146,6 +157,7 @@ export class UnifiedDocumentService {
                 {
                     ragEnabled: true,
                     knowledgeSourceIds: options.knowledgeSourceIds,
+                    knowledgeCollectionIds: options.knowledgeCollectionIds,
                     autoRAG: options.autoSelectSources,
                 }
             );
@@ -168,7 +180,12 @@ export class UnifiedDocumentService {
         // 6. Create document record
         const document = await this.createDocument(options, config, ragContext);
 
-        // 7. Generate content with progress tracking
+        // 7. Pause for outline review if requested
+        if (options.reviewOutline) {
+            return this.generateOutlineForReview(document.id, config, enhancedInput);
+        }
+
+        // 8. Generate content with progress tracking
         try {
             const result = await this.generateWithProgress(
                 document.id,
@@ -177,12 +194,12 @@ export class UnifiedDocumentService {
                 ragContext
             );
 
-            // 8. Cache successful generation
+            // 9. Cache successful generation
             if (config.useCache) {
                 await this.cacheResult(config, result);
             }
 
-            // 9. Update document with final content
+            // 10. Update document with final content
             await this.updateDocument(document.id, result);
 
             return {
@@ -200,11 +217,11 @@ export class UnifiedDocumentService {
      * Validate user can generate documents
      */
     private async validateGeneration(userId: string): Promise<void> {
-        const costCheck = await PreferencesSyncService.checkCostLimit(userId);
-        if (!costCheck.allowed) {
+        const budget = await BudgetService.getStatus(userId);
+        if (budget.limit && !budget.available) {
             throw new TRPCError({
                 code: 'FORBIDDEN',
-                message: costCheck.reason || 'Cost limit exceeded',
+                message: `Monthly cost limit of $${budget.limit} reached. Current: $${budget.spent.toFixed(2)}`,
             });
         }
     }
@@ -246,8 +263,12 @@ export class UnifiedDocumentService {
             docTypePrefs.model ||
             this.getDefaultModel(provider);
 
+        // Custom types carry their own prompt templates
+        const customType = await this.loadCustomType(options);
+        const customPrompts = customType ? buildCustomDocumentPrompts(customType) : undefined;
+
         // Get the appropriate prompts for this provider
-        const prompts = DOCUMENT_PROMPTS[options.type];
+        const prompts = customPrompts ?? DOCUMENT_PROMPTS[options.type];
         if (!prompts) {
             throw new Error(`No prompts defined for document type: ${options.type}`);
         }
@@ -257,7 +278,9 @@ export class UnifiedDocumentService {
 
         // Apply user's system prompt style
         const systemPrompt = this.applyPromptStyle(
-            providerPrompts.systemPrompt,
+            prompts.systemPrompts[provider] ??
+                Object.values(prompts.systemPrompts)[0] ??
+                providerPrompts.systemPrompt,
             preferences.systemPromptStyle || 'professional'
         );
 
@@ -266,11 +289,14 @@ export class UnifiedDocumentService {
             model,
             temperature: options.temperature ?? preferences.temperature ?? 0.7,
             maxTokens: options.maxTokens ?? preferences.maxTokensOverride ?? null,
-            useCache: options.useCache ?? preferences.cacheEnabled ?? true,
+            // Cache keys don't include the custom type, and admins can edit its prompts
+            useCache: customType ? false : options.useCache ?? preferences.cacheEnabled ?? true,
             useRAG: options.useRAG ?? preferences.ragEnabled ?? false,
             ragThreshold: preferences.autoRAGThreshold ?? 0.7,
             systemPrompt,
             prompts: providerPrompts,
+            customPrompts,
+            customTypeId: customType?.id,
             documentType: options.type,
             input: options.input,
             userId: options.userId,
@@ -279,6 +305,22 @@ export class UnifiedDocumentService {
         };
     }
 
+    /**
+     * Load the custom type of a CUSTOM document, or null for built-in types
+     */
+    private async loadCustomType(options: UnifiedGenerationOptions) {
+        if (options.type !== 'CUSTOM') return null;
+
+        if (!options.customTypeId) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: 'customTypeId is required for CUSTOM documents',
+            });
+        }
+
+        return loadCustomDocumentType(this.db, options.customTypeId, { requireEnabled: true });
+    }
+
     /**
      * Apply user's preferred prompt style
      */
@@ -349,6 +391,7 @@ export class UnifiedDocumentService {
                 config.userId,
                 {
                     sourceIds: options.knowledgeSourceIds,
+                    collectionIds: options.knowledgeCollectionIds,
                     threshold: config.ragThreshold,
                     limit: 5,
                 }
@@ -401,12 +444,14 @@ export class UnifiedDocumentService {
                 userId: options.userId,
                 title: options.title,
                 type: options.type,
+                customTypeId: config.customTypeId,
                 status: 'PENDING',
                 input: options.input,
                 provider: config.provider,
                 model: config.model,
                 temperature: config.temperature,
                 maxTokens: config.maxTokens,
+                reviewOutline: !!options.reviewOutline,
                 // Use ragContext instead of ragEnabled
                 ragEnabled: !!ragContext,
                 ragContext: ragContext ? {
@@ -423,6 +468,7 @@ export class UnifiedDocumentService {
      */
     private async generateWithProgress(
         documentId: string,
+        config: any,
         input: any, // This is now the enhanced input
         ragContext?: RAGContext
     ): Promise<any> {
@@ -487,12 +533,21 @@ export class UnifiedDocumentService {
                 }
             }
 
+            // Number retrieved chunks so sections can cite them inline
+            const citationSources = toCitationSources(ragContext);
+
+            // Custom types generate from their own templates, with the RAG
+            // context folded into their system prompt
+            const customPrompts = config.customPrompts && finalPrompt.systemPrompt
+                ? { ...config.customPrompts, systemPrompts: { default: finalPrompt.systemPrompt } }
+                : config.customPrompts;
+
             // Generate document
             const result = await wrappedLLMService.generateDocument({
                 type: config.documentType,
                 provider: config.provider,
                 model: config.model,
-                prompts: finalPrompt,
+                prompts: customPrompts,
                 input: config.input,
                 config: {
                     temperature: config.temperature,
@@ -500,6 +555,7 @@ export class UnifiedDocumentService {
                 },
                 userId: config.userId,
                 documentId,
+                citationSources,
                 onProgress: (progress) => this.handleProgress(documentId, progress)
             });
 
@@ -513,6 +569,7 @@ export class UnifiedDocumentService {
                     })),
                     totalTokens: ragContext.totalTokens,
                 };
+                result.citations = buildCitationMap(result.sections, citationSources);
             }
 
             return result;
@@ -526,6 +583,50 @@ export class UnifiedDocumentService {
         }
     }
 
+    /**
+     * Generate only the outline and leave the document waiting for review.
+     * Generation resumes in the queue worker once document.approveOutline is called.
+     */
+    private async generateOutlineForReview(
+        documentId: string,
+        config: any,
+        input: any
+    ): Promise<GenerationResult> {
+        try {
+            const outline = await this.llmService.generateOutline({
+                type: config.documentType,
+                input,
+                prompts: config.customPrompts,
+                userId: config.userId,
+                documentId,
+            });
+
+            await this.db.document.update({
+                where: { id: documentId },
+                data: {
+                    outline,
+                    status: 'OUTLINE_REVIEW',
+                },
+            });
+
+            getIO().to(`user:${config.userId}`).emit('generation:outline-review', { documentId });
+
+            return {
+                documentId,
+                content: '',
+                provider: config.provider,
+                model: config.model,
+                cost: 0,
+                tokenUsage: { prompt: 0, completion: 0, total: 0 },
+                cached: false,
+                awaitingOutlineReview: true,
+            };
+        } catch (error) {
+            await this.handleGenerationError(documentId, error, config);
+            throw error;
+        }
+    }
+
     /**
      * Cache successful generation
      */
@@ -611,6 +712,7 @@ export class UnifiedDocumentService {
                 sections: result.sections || { fullContent: result.content },
                 outline: result.outline || {},
                 ragContext: result.ragContext,
+                citations: result.citations ?? undefined,
                 completedAt: new Date(),
                 wordCount: result.content ? result.content.split(/\s+/).length : 0,
                 // Update token and cost fields
@@ -627,7 +729,7 @@ export class UnifiedDocumentService {
         });
 
         if (doc) {
-            void PreferencesSyncService.checkAndSendCostAlert(doc.userId);
+            void BudgetService.checkAlerts(doc.userId);
         }
     }
 
@@ -672,17 +774,7 @@ export class UnifiedDocumentService {
      * Check if error is retryable
      */
     private isRetryableError(error: any): boolean {
-        const retryableErrors = [
-            'rate_limit_exceeded',
-            'model_not_available',
-            'timeout',
-            'service_unavailable',
-        ];
-
-        return retryableErrors.some(e =>
-            error.message?.toLowerCase().includes(e) ||
-            error.code?.toLowerCase().includes(e)
-        );
+        return isRetryableProviderError(error);
     }
 
     /**
@@ -695,9 +787,12 @@ export class UnifiedDocumentService {
             gemini: 'gemini-1.5-pro',
             perplexity: 'llama-3-sonar-large-32k-online',
             llama: 'llama-3-70b',
+            // Resolved by the provider from LOCAL_LLM_DEFAULT_MODEL or discovery
+            local: '',
+            mock: 'mock-1',
         };
 
-        return defaults[provider] || 'gpt-4-turbo-preview';
+        return defaults[provider] ?? 'gpt-4-turbo-preview';
     }
 }
 
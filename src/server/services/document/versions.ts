@@ -0,0 +1,148 @@
+// src/server/services/document/versions.ts
+
+import type { DocumentVersionSource, Prisma, PrismaClient } from '@prisma/client';
+import { normalizeSections, countSectionWords } from './sections';
+
+// Every write to a document's content goes through recordDocumentVersion so
+// earlier drafts survive retries, refinements and regenerations.
+
+type VersionClient = PrismaClient | Prisma.TransactionClient;
+
+export interface RecordVersionParams {
+    documentId: string;
+    source: DocumentVersionSource;
+    sections: unknown;
+    outline?: unknown;
+    provider?: string | null;
+    model?: string | null;
+    cost?: number;
+    note?: string;
+    createdBy?: string;
+}
+
+export type LineChangeType = 'equal' | 'added' | 'removed';
+
+export interface LineChange {
+    type: LineChangeType;
+    value: string;
+}
+
+export type SectionChangeType = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface SectionDiff {
+    id: string;
+    title: string;
+    change: SectionChangeType;
+    lines: LineChange[];
+}
+
+/**
+ * Store a snapshot of the document with the next sequential version number
+ */
+export async function recordDocumentVersion(db: VersionClient, params: RecordVersionParams) {
+    const latest = await db.documentVersion.aggregate({
+        where: { documentId: params.documentId },
+        _max: { version: true },
+    });
+
+    return db.documentVersion.create({
+        data: {
+            documentId: params.documentId,
+            version: (latest._max.version ?? 0) + 1,
+            source: params.source,
+            sections: toJson(params.sections),
+            outline: toJson(params.outline),
+            wordCount: countSectionWords(normalizeSections(params.sections)),
+            provider: params.provider ?? null,
+            model: params.model ?? null,
+            cost: params.cost ?? 0,
+            note: params.note,
+            createdBy: params.createdBy,
+        },
+    });
+}
+
+/**
+ * Compare two snapshots section by section, with a line diff for each section
+ */
+export function diffSections(fromRaw: unknown, toRaw: unknown): SectionDiff[] {
+    const from = normalizeSections(fromRaw);
+    const to = normalizeSections(toRaw);
+    const fromById = new Map(from.map(section => [section.id, section]));
+    const toIds = new Set(to.map(section => section.id));
+
+    const diffs: SectionDiff[] = to.map(section => {
+        const previous = fromById.get(section.id);
+        const lines = diffLines(previous?.content ?? '', section.content ?? '');
+
+        let change: SectionChangeType = 'unchanged';
+        if (!previous) change = 'added';
+        else if (lines.some(line => line.type !== 'equal')) change = 'modified';
+
+        return { id: section.id, title: section.title, change, lines };
+    });
+
+    // Sections that no longer exist are listed after the current ones
+    for (const section of from) {
+        if (toIds.has(section.id)) continue;
+        diffs.push({
+            id: section.id,
+            title: section.title,
+            change: 'removed',
+            lines: diffLines(section.content ?? '', ''),
+        });
+    }
+
+    return diffs;
+}
+
+/**
+ * Line-level diff based on the longest common subsequence
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+    const a = splitLines(before);
+    const b = splitLines(after);
+
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+        new Array<number>(b.length + 1).fill(0)
+    );
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i]![j] = a[i] === b[j]
+                ? lcs[i + 1]![j + 1]! + 1
+                : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+        }
+    }
+
+    const changes: LineChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            changes.push({ type: 'equal', value: a[i]! });
+            i++;
+            j++;
+        } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+            changes.push({ type: 'removed', value: a[i]! });
+            i++;
+        } else {
+            changes.push({ type: 'added', value: b[j]! });
+            j++;
+        }
+    }
+    while (i < a.length) changes.push({ type: 'removed', value: a[i++]! });
+    while (j < b.length) changes.push({ type: 'added', value: b[j++]! });
+
+    return changes;
+}
+
+function splitLines(text: string): string[] {
+    return text ? text.split('\n') : [];
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue | undefined {
+    return value === undefined || value === null
+        ? undefined
+        : (value as Prisma.InputJsonValue);
+}
@@ -0,0 +1,245 @@
+// src/server/services/evaluation/fixtures.ts
+
+import { DocumentType } from '@prisma/client';
+import type { BuiltInDocumentType } from '~/config/documents';
+
+// Fixed inputs every evaluation run generates. Ids are stable so results can
+// be compared across runs; add new fixtures rather than editing existing ones,
+// or older runs stop being comparable. Inputs are parsed with the type's
+// schema before use, so defaults fill anything left out.
+
+export interface EvaluationFixture {
+    id: string;
+    documentType: BuiltInDocumentType;
+    description: string;
+    input: Record<string, unknown>;
+}
+
+export const EVALUATION_FIXTURES: EvaluationFixture[] = [
+    {
+        id: 'biography-professional-short',
+        documentType: DocumentType.BIOGRAPHY,
+        description: 'Short professional biography of a mathematician',
+        input: {
+            title: 'Ada Lovelace',
+            outputLength: 'short',
+            subject: {
+                name: 'Ada Lovelace',
+                occupation: 'Mathematician',
+                birthDate: '1815-12-10',
+                birthPlace: 'London, England',
+            },
+            purpose: 'professional',
+            tone: 'formal',
+            focusAreas: ['early_life', 'education', 'career', 'achievements', 'legacy'],
+            additionalInfo: 'Wrote the first published algorithm intended for a computing machine.',
+        },
+    },
+    {
+        id: 'biography-personal-medium',
+        documentType: DocumentType.BIOGRAPHY,
+        description: 'Medium-length personal biography with a conversational tone',
+        input: {
+            title: 'Maria Alvarez',
+            outputLength: 'medium',
+            subject: {
+                name: 'Maria Alvarez',
+                occupation: 'Primary school teacher',
+                birthPlace: 'Seville, Spain',
+            },
+            purpose: 'personal',
+            tone: 'conversational',
+            focusAreas: ['early_life', 'career', 'personal_life', 'legacy'],
+            additionalInfo: 'Taught for 35 years and founded a weekend reading club.',
+        },
+    },
+    {
+        id: 'case-summary-civil',
+        documentType: DocumentType.CASE_SUMMARY,
+        description: 'Civil contract dispute with analysis',
+        input: {
+            title: 'Hadley v. Baxendale',
+            outputLength: 'short',
+            caseInfo: {
+                caseName: 'Hadley v. Baxendale',
+                court: 'Court of Exchequer',
+                dateDecided: '1854-02-23',
+            },
+            parties: {
+                plaintiff: 'Joseph and Jonah Hadley',
+                defendant: 'Joseph Baxendale',
+            },
+            legalIssues: ['Recoverable damages for breach of contract', 'Foreseeability of losses'],
+            facts: 'A carrier delayed delivery of a broken crankshaft, leaving the mill idle.',
+            includeAnalysis: true,
+            caseType: 'civil',
+        },
+    },
+    {
+        id: 'case-summary-constitutional',
+        documentType: DocumentType.CASE_SUMMARY,
+        description: 'Constitutional case with dissent and comprehensive analysis',
+        input: {
+            title: 'Marbury v. Madison',
+            outputLength: 'medium',
+            caseInfo: {
+                caseName: 'Marbury v. Madison',
+                caseNumber: '5 U.S. 137',
+                court: 'Supreme Court of the United States',
+                dateDecided: '1803-02-24',
+                judges: 'Chief Justice Marshall',
+            },
+            parties: {
+                plaintiff: 'William Marbury',
+                defendant: 'James Madison',
+            },
+            legalIssues: ['Judicial review of acts of Congress', 'Availability of a writ of mandamus'],
+            includeDissent: true,
+            analysisDepth: 'comprehensive',
+            caseType: 'constitutional',
+        },
+    },
+    {
+        id: 'business-plan-startup',
+        documentType: DocumentType.BUSINESS_PLAN,
+        description: 'Startup seeking investment',
+        input: {
+            title: 'Greenleaf Logistics Business Plan',
+            outputLength: 'short',
+            business: {
+                name: 'Greenleaf Logistics',
+                industry: 'Last-mile delivery',
+                stage: 'startup',
+                location: 'Portland, Oregon',
+            },
+            sections: ['executive_summary', 'company_description', 'market_analysis', 'funding_request'],
+            targetAudience: 'investors',
+            fundingAmount: '$750,000',
+            timeframe: '3 years',
+        },
+    },
+    {
+        id: 'business-plan-established',
+        documentType: DocumentType.BUSINESS_PLAN,
+        description: 'Established business planning for a lender',
+        input: {
+            title: 'Harbor Bakery Expansion',
+            outputLength: 'medium',
+            business: {
+                name: 'Harbor Bakery',
+                industry: 'Food and beverage',
+                stage: 'established',
+                location: 'Halifax, Canada',
+            },
+            sections: [
+                'executive_summary',
+                'market_analysis',
+                'marketing_sales',
+                'financial_projections',
+            ],
+            targetAudience: 'lenders',
+            timeframe: '5 years',
+        },
+    },
+    {
+        id: 'medical-report-consultation',
+        documentType: DocumentType.MEDICAL_REPORT,
+        description: 'Cardiology consultation template',
+        input: {
+            title: 'Cardiology Consultation',
+            outputLength: 'short',
+            reportType: 'consultation',
+            specialty: 'cardiology',
+            reportPurpose: 'initial_consultation',
+            clinicalSetting: 'hospital_outpatient',
+        },
+    },
+    {
+        id: 'medical-report-discharge',
+        documentType: DocumentType.MEDICAL_REPORT,
+        description: 'Discharge summary with a wider set of sections',
+        input: {
+            title: 'Discharge Summary',
+            outputLength: 'medium',
+            reportType: 'discharge_summary',
+            specialty: 'internal_medicine',
+            reportPurpose: 'treatment_summary',
+            clinicalSetting: 'hospital_inpatient',
+            includeSections: [
+                'chief_complaint',
+                'history_present_illness',
+                'medications',
+                'diagnostic_results',
+                'assessment',
+                'plan',
+                'follow_up',
+            ],
+        },
+    },
+    {
+        id: 'grant-proposal-foundation',
+        documentType: DocumentType.GRANT_PROPOSAL,
+        description: 'Nonprofit applying to a foundation',
+        input: {
+            title: 'Riverside Literacy Project',
+            outputLength: 'short',
+            organization: {
+                name: 'Riverside Community Trust',
+                type: 'nonprofit',
+            },
+            grant: {
+                funderName: 'Northwind Foundation',
+                programName: 'Community Learning Fund',
+                amount: '$50,000',
+            },
+            project: {
+                title: 'Riverside Literacy Project',
+                duration: '12 months',
+            },
+            sections: ['executive_summary', 'statement_of_need', 'project_description', 'budget'],
+            focusArea: 'Adult literacy',
+            targetPopulation: 'Adults without a high school diploma',
+            geographicScope: 'Riverside County',
+        },
+    },
+    {
+        id: 'grant-proposal-research',
+        documentType: DocumentType.GRANT_PROPOSAL,
+        description: 'Research institution applying for a federal grant',
+        input: {
+            title: 'Soil Carbon Monitoring',
+            outputLength: 'medium',
+            organization: {
+                name: 'Prairie State University',
+                type: 'research',
+            },
+            grant: {
+                funderName: 'National Science Foundation',
+                programName: 'Environmental Sustainability',
+                amount: '$400,000',
+            },
+            project: {
+                title: 'Low-cost Soil Carbon Monitoring',
+                duration: '36 months',
+            },
+            sections: [
+                'executive_summary',
+                'statement_of_need',
+                'project_description',
+                'methodology',
+                'evaluation',
+                'budget',
+            ],
+            focusArea: 'Environment',
+            grantType: 'federal',
+            funderType: 'government',
+            funderPriorities: ['Climate resilience', 'Open data'],
+        },
+    },
+];
+
+export function getFixtures(documentType?: BuiltInDocumentType): EvaluationFixture[] {
+    return documentType
+        ? EVALUATION_FIXTURES.filter((fixture) => fixture.documentType === documentType)
+        : EVALUATION_FIXTURES;
+}
@@ -0,0 +1,333 @@
+// src/server/services/evaluation/index.ts
+
+import { Queue } from 'bullmq';
+import { Redis } from 'ioredis';
+import type { DocumentType, PromptStage } from '@prisma/client';
+import { env } from '~/env';
+import { db } from '~/server/db';
+import { DOCUMENT_CONFIGS, type BuiltInDocumentType } from '~/config/documents';
+import { LLMService, type ProviderName } from '~/server/services/llm';
+import { PromptTemplateService } from '~/server/services/llm/prompt-templates';
+import type { DocumentPrompts } from '~/server/services/llm/prompts';
+import { getFixtures, type EvaluationFixture } from './fixtures';
+import { judgeDocument } from './judge';
+import {
+    countWords,
+    overallScore,
+    scoreLength,
+    scoreStructure,
+    targetWordCount,
+    type ScoreName,
+} from './scoring';
+
+export { EVALUATION_FIXTURES } from './fixtures';
+export { JUDGE_RUBRIC } from './judge';
+export { SCORE_WEIGHTS, type ScoreName } from './scoring';
+
+export const EVALUATION_QUEUE = 'evaluation';
+
+export interface EvaluationJobData {
+    runId: string;
+}
+
+export interface StartEvaluationOptions {
+    label?: string;
+    // Omit to evaluate every built-in type
+    documentType?: BuiltInDocumentType;
+    provider: ProviderName;
+    model?: string;
+    // Omit to skip the LLM-as-judge rubric
+    judgeProvider?: ProviderName;
+    judgeModel?: string;
+    createdBy?: string;
+}
+
+export type FixtureScores = Record<ScoreName | 'overall', number | null>;
+
+export interface FixtureComparison {
+    fixtureId: string;
+    documentType: DocumentType;
+    baseline: FixtureScores;
+    candidate: FixtureScores;
+    delta: FixtureScores;
+    regressed: boolean;
+}
+
+export interface RunComparison {
+    fixtures: FixtureComparison[];
+    // Mean change per score over fixtures present in both runs
+    averageDelta: FixtureScores;
+    regressions: number;
+}
+
+// A fixture whose overall score drops by more than this is a regression
+const REGRESSION_THRESHOLD = 0.05;
+
+let queue: Queue<EvaluationJobData> | undefined;
+
+function getQueue(): Queue<EvaluationJobData> {
+    queue ??= new Queue<EvaluationJobData>(EVALUATION_QUEUE, {
+        connection: new Redis(env.REDIS_URL, { maxRetriesPerRequest: null }),
+    });
+    return queue;
+}
+
+export class EvaluationService {
+    /**
+     * Record a run without starting it. The CLI executes it in-process; the
+     * admin UI goes through start() and the evaluation worker.
+     */
+    static async createRun(options: StartEvaluationOptions) {
+        return db.evaluationRun.create({
+            data: {
+                label: options.label,
+                documentType: options.documentType,
+                provider: options.provider,
+                model: options.model ?? new LLMService({ provider: options.provider }).getModel(),
+                judgeProvider: options.judgeProvider,
+                judgeModel: options.judgeProvider
+                    ? (options.judgeModel ?? new LLMService({ provider: options.judgeProvider }).getModel())
+                    : undefined,
+                createdBy: options.createdBy,
+            },
+        });
+    }
+
+    /**
+     * Create a run and queue it for the evaluation worker
+     */
+    static async start(options: StartEvaluationOptions) {
+        const run = await this.createRun(options);
+
+        await getQueue().add(
+            'evaluate',
+            { runId: run.id },
+            { jobId: run.id, removeOnComplete: true, removeOnFail: 100 },
+        );
+
+        return run;
+    }
+
+    /**
+     * Generate and score every fixture of a run. A failing fixture is stored
+     * with its error and scores of zero so it shows up as a regression; only
+     * errors outside a fixture fail the run.
+     */
+    static async execute(runId: string): Promise<void> {
+        const run = await db.evaluationRun.findUniqueOrThrow({ where: { id: runId } });
+
+        try {
+            const fixtures = getFixtures((run.documentType as BuiltInDocumentType | null) ?? undefined);
+            const types = [...new Set(fixtures.map((fixture) => fixture.documentType))];
+
+            // Evaluations measure the prompts new generations get, so active
+            // templates apply but experiments don't
+            const prompts = new Map<BuiltInDocumentType, DocumentPrompts | undefined>();
+            const promptVersions: Record<string, Partial<Record<PromptStage, number>>> = {};
+            for (const type of types) {
+                const active = await PromptTemplateService.resolveActive(type);
+                prompts.set(type, active.prompts);
+                promptVersions[type] = active.versions;
+            }
+
+            await db.evaluationRun.update({
+                where: { id: runId },
+                data: { status: 'RUNNING', promptVersions, error: null },
+            });
+
+            const llm = new LLMService({ provider: run.provider as ProviderName, model: run.model });
+            const judge = run.judgeProvider
+                ? new LLMService({
+                      provider: run.judgeProvider as ProviderName,
+                      model: run.judgeModel ?? undefined,
+                  })
+                : undefined;
+
+            const scores: number[] = [];
+            for (const fixture of fixtures) {
+                const result = await this.evaluateFixture(fixture, llm, judge, prompts.get(fixture.documentType));
+
+                await db.evaluationResult.upsert({
+                    where: { runId_fixtureId: { runId, fixtureId: fixture.id } },
+                    update: result,
+                    create: { ...result, runId, fixtureId: fixture.id },
+                });
+                scores.push(result.overallScore);
+            }
+
+            await db.evaluationRun.update({
+                where: { id: runId },
+                data: {
+                    status: 'COMPLETED',
+                    overallScore: average(scores),
+                    completedAt: new Date(),
+                },
+            });
+        } catch (error) {
+            await db.evaluationRun.update({
+                where: { id: runId },
+                data: {
+                    status: 'FAILED',
+                    error: error instanceof Error ? error.message : 'Evaluation failed',
+                    completedAt: new Date(),
+                },
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Score changes from a baseline run to a candidate run, per fixture both
+     * runs evaluated
+     */
+    static async compare(baselineRunId: string, candidateRunId: string): Promise<RunComparison> {
+        const [baseline, candidate] = await Promise.all(
+            [baselineRunId, candidateRunId].map((runId) =>
+                db.evaluationResult.findMany({ where: { runId } }),
+            ),
+        );
+
+        const baselineByFixture = new Map(baseline!.map((result) => [result.fixtureId, result]));
+
+        const fixtures = candidate!.flatMap((result): FixtureComparison[] => {
+            const previous = baselineByFixture.get(result.fixtureId);
+            if (!previous) return [];
+
+            const before = toScores(previous);
+            const after = toScores(result);
+            const delta = mapScores((name) => difference(after[name], before[name]));
+
+            return [
+                {
+                    fixtureId: result.fixtureId,
+                    documentType: result.documentType,
+                    baseline: before,
+                    candidate: after,
+                    delta,
+                    regressed: (delta.overall ?? 0) < -REGRESSION_THRESHOLD,
+                },
+            ];
+        });
+
+        return {
+            fixtures,
+            averageDelta: mapScores((name) =>
+                average(
+                    fixtures
+                        .map((fixture) => fixture.delta[name])
+                        .filter((value): value is number => value !== null),
+                ),
+            ),
+            regressions: fixtures.filter((fixture) => fixture.regressed).length,
+        };
+    }
+
+    private static async evaluateFixture(
+        fixture: EvaluationFixture,
+        llm: LLMService,
+        judge: LLMService | undefined,
+        prompts: DocumentPrompts | undefined,
+    ) {
+        const type = fixture.documentType;
+        const config = DOCUMENT_CONFIGS[type];
+        const input = config.schema.parse(fixture.input) as Record<string, unknown>;
+        const targetWords = targetWordCount(type, input.outputLength);
+        const startTime = Date.now();
+
+        try {
+            // Same stages as the document generation worker, without
+            // tracking calls against a document
+            const outline = await llm.generateOutline({ type, input, prompts });
+            const sections = await llm.generateSections({ outline, type, input, prompts });
+            const { content } = await llm.refineDocument({
+                sections,
+                type,
+                requirements: input,
+                prompts,
+            });
+
+            const tone = typeof input.tone === 'string' ? input.tone : undefined;
+            const quality = await llm.assessQuality(content, tone);
+            const structure = scoreStructure(type, outline, input);
+            const wordCount = countWords(content);
+            const length = scoreLength(wordCount, targetWords);
+            const judged = judge
+                ? await judgeDocument(judge, { documentTypeName: config.name, input, content })
+                : undefined;
+
+            return {
+                documentType: type,
+                structureScore: structure.score,
+                lengthScore: length,
+                readabilityScore: quality.readabilityScore,
+                consistencyScore: quality.consistencyScore,
+                toneScore: quality.toneAlignment,
+                judgeScore: judged?.score ?? null,
+                judgeFeedback: judged?.feedback ?? undefined,
+                overallScore: overallScore({
+                    structure: structure.score,
+                    length,
+                    readability: quality.readabilityScore,
+                    consistency: quality.consistencyScore,
+                    tone: quality.toneAlignment,
+                    judge: judged?.score ?? null,
+                }),
+                wordCount,
+                targetWords,
+                missingSections: structure.missingSections,
+                durationMs: Date.now() - startTime,
+                output: { outline, sections, content },
+                error: null,
+            };
+        } catch (error) {
+            return {
+                documentType: type,
+                structureScore: 0,
+                lengthScore: 0,
+                readabilityScore: 0,
+                consistencyScore: 0,
+                toneScore: 0,
+                judgeScore: null,
+                judgeFeedback: undefined,
+                overallScore: 0,
+                wordCount: 0,
+                targetWords,
+                missingSections: [],
+                durationMs: Date.now() - startTime,
+                output: {},
+                error: error instanceof Error ? error.message : 'Generation failed',
+            };
+        }
+    }
+}
+
+const SCORE_FIELDS = {
+    structure: 'structureScore',
+    length: 'lengthScore',
+    readability: 'readabilityScore',
+    consistency: 'consistencyScore',
+    tone: 'toneScore',
+    judge: 'judgeScore',
+    overall: 'overallScore',
+} as const;
+
+type ScoreField = (typeof SCORE_FIELDS)[keyof typeof SCORE_FIELDS];
+
+function toScores(result: Record<ScoreField, number | null>): FixtureScores {
+    return mapScores((name) => result[SCORE_FIELDS[name]]);
+}
+
+function mapScores(score: (name: keyof FixtureScores) => number | null): FixtureScores {
+    return Object.fromEntries(
+        (Object.keys(SCORE_FIELDS) as (keyof FixtureScores)[]).map((name) => [name, score(name)]),
+    ) as FixtureScores;
+}
+
+function difference(after: number | null, before: number | null): number | null {
+    return after === null || before === null ? null : after - before;
+}
+
+function average(values: number[]): number | null {
+    if (values.length === 0) return null;
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
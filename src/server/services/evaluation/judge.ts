@@ -0,0 +1,72 @@
+// src/server/services/evaluation/judge.ts
+
+import { z } from 'zod';
+import type { LLMService } from '~/server/services/llm';
+
+// LLM-as-judge rubric. A second model grades each evaluated document 1-5 per
+// criterion; the judge score is the mean mapped to 0-1.
+
+export const JUDGE_RUBRIC = [
+    { id: 'relevance', description: 'Uses the facts and requirements given in the input' },
+    { id: 'completeness', description: 'Covers every section a reader of this document type expects' },
+    { id: 'coherence', description: 'Sections follow logically without repetition or contradiction' },
+    { id: 'style', description: 'Tone, register and terminology suit the purpose and audience' },
+    { id: 'accuracy', description: 'Makes no unsupported or invented claims presented as fact' },
+] as const;
+
+// Judges only see the start of long documents
+const MAX_JUDGED_CHARACTERS = 24_000;
+
+const judgeResponseSchema = z.object({
+    scores: z.record(z.coerce.number().min(1).max(5)),
+    feedback: z.string().default(''),
+});
+
+export type JudgeFeedback = z.infer<typeof judgeResponseSchema>;
+
+export interface JudgeResult {
+    score: number;
+    feedback: JudgeFeedback;
+}
+
+export async function judgeDocument(
+    judge: LLMService,
+    params: {
+        documentTypeName: string;
+        input: Record<string, unknown>;
+        content: string;
+    },
+): Promise<JudgeResult> {
+    const criteria = JUDGE_RUBRIC.map((criterion) => `- ${criterion.id}: ${criterion.description}`).join('\n');
+
+    const prompt = `You are grading a generated ${params.documentTypeName} against a rubric.
+
+Input the document was generated from:
+${JSON.stringify(params.input, null, 2)}
+
+Document:
+"""
+${params.content.slice(0, MAX_JUDGED_CHARACTERS)}
+"""
+
+Score each rubric criterion from 1 (poor) to 5 (excellent):
+${criteria}
+
+Respond with only JSON of the form {"scores": {"<criterion>": <1-5>}, "feedback": "<two or three sentences>"}.`;
+
+    const response = await judge.complete({ prompt, temperature: 0, maxTokens: 600 });
+
+    const json = /\{[\s\S]*\}/.exec(response)?.[0];
+    if (!json) {
+        throw new Error('Judge response contained no JSON');
+    }
+
+    const feedback = judgeResponseSchema.parse(JSON.parse(json));
+    const scores = JUDGE_RUBRIC.map((criterion) => feedback.scores[criterion.id]);
+    if (scores.some((score) => score === undefined)) {
+        throw new Error('Judge response is missing rubric criteria');
+    }
+
+    const mean = (scores as number[]).reduce((sum, score) => sum + score, 0) / scores.length;
+    return { score: (mean - 1) / 4, feedback };
+}
@@ -0,0 +1,137 @@
+// src/server/services/evaluation/scoring.ts
+
+import { DOCUMENT_CONFIGS, type BuiltInDocumentType } from '~/config/documents';
+
+// Deterministic scores for an evaluated document. Everything is 0-1 so runs
+// over different fixture sets stay comparable.
+
+// Weights of each score in a result's overall score. The judge weight is
+// spread over the others when a run has no judge.
+export const SCORE_WEIGHTS = {
+    structure: 0.3,
+    length: 0.2,
+    readability: 0.1,
+    consistency: 0.1,
+    tone: 0.1,
+    judge: 0.2,
+} as const;
+
+export type ScoreName = keyof typeof SCORE_WEIGHTS;
+
+// Documents within this share of the word target score full marks for length
+const LENGTH_TOLERANCE = 0.25;
+
+// DOCUMENT_CONFIGS token estimates are for the whole document
+const WORDS_PER_TOKEN = 0.75;
+
+export interface StructureScore {
+    score: number;
+    missingSections: string[];
+}
+
+/**
+ * Share of the type's configured sections the outline covers. Inputs that
+ * pick their sections (business plans, grant proposals) are only held to
+ * the ones they asked for.
+ */
+export function scoreStructure(
+    documentType: BuiltInDocumentType,
+    outline: unknown,
+    input: Record<string, unknown>,
+): StructureScore {
+    const configured = DOCUMENT_CONFIGS[documentType].sections;
+    const requested = Array.isArray(input.sections) ? (input.sections as string[]) : [];
+    const selected = configured.filter((section) => requested.includes(section.id));
+    const expected = selected.length > 0 ? selected : configured;
+
+    const candidates = outlineSections(outline)
+        .map(normalize)
+        .filter((candidate) => candidate.length > 0);
+    const missingSections = expected
+        .filter((section) => {
+            const names = [normalize(section.id), normalize(section.name)];
+            return !candidates.some((candidate) =>
+                names.some((name) => candidate.includes(name) || name.includes(candidate)),
+            );
+        })
+        .map((section) => section.id);
+
+    return {
+        score: 1 - missingSections.length / expected.length,
+        missingSections,
+    };
+}
+
+/**
+ * Word target for the input's outputLength
+ */
+export function targetWordCount(
+    documentType: BuiltInDocumentType,
+    outputLength: unknown,
+): number {
+    const estimates = DOCUMENT_CONFIGS[documentType].estimatedTokens;
+    const length =
+        outputLength === 'short' || outputLength === 'long' ? outputLength : 'medium';
+
+    return Math.round(estimates[length] * WORDS_PER_TOKEN);
+}
+
+/**
+ * Full marks within LENGTH_TOLERANCE of the target, falling to zero at
+ * double (or none) of it
+ */
+export function scoreLength(wordCount: number, targetWords: number): number {
+    if (targetWords <= 0) return 1;
+
+    const deviation = Math.abs(wordCount / targetWords - 1);
+    if (deviation <= LENGTH_TOLERANCE) return 1;
+
+    return Math.max(0, 1 - (deviation - LENGTH_TOLERANCE) / (1 - LENGTH_TOLERANCE));
+}
+
+export function countWords(content: string): number {
+    return content.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+/**
+ * Weighted overall score. Scores that are missing (no judge) drop out and
+ * the remaining weights are rescaled.
+ */
+export function overallScore(scores: Partial<Record<ScoreName, number | null>>): number {
+    let total = 0;
+    let weight = 0;
+
+    for (const [name, value] of Object.entries(scores)) {
+        if (value === null || value === undefined) continue;
+        total += value * SCORE_WEIGHTS[name as ScoreName];
+        weight += SCORE_WEIGHTS[name as ScoreName];
+    }
+
+    return weight > 0 ? total / weight : 0;
+}
+
+// Built-in outlines nest most sections under `sections` but keep the
+// introduction and conclusion at the top level; custom prompts and fallback
+// parsing put everything at the top level
+function outlineSections(outline: unknown): string[] {
+    if (!outline || typeof outline !== 'object') return [];
+
+    const { sections, ...topLevel } = outline as Record<string, unknown>;
+    const entries = Object.entries(topLevel);
+    if (sections && typeof sections === 'object') {
+        entries.push(...Object.entries(sections as Record<string, unknown>));
+    }
+
+    return entries.flatMap(([id, value]) => {
+        const title =
+            value && typeof value === 'object' ? (value as { title?: unknown }).title : undefined;
+        return typeof title === 'string' ? [id, title] : [id];
+    });
+}
+
+function normalize(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
@@ -0,0 +1,17 @@
+// src/server/services/exports/content-disposition.ts
+
+/**
+ * Content-Disposition header for downloading a file. The quoted filename is
+ * an ASCII fallback with quotes, backslashes and control characters replaced;
+ * filename* (RFC 5987) carries the full UTF-8 name for clients that read it.
+ */
+export function contentDisposition(filename: string): string {
+    const name = filename.replace(/[\u0000-\u001f\u007f/\\]/g, '').trim() || 'download';
+    const fallback = name.replace(/[^\x20-\x7e]|["%]/g, '_');
+    const encoded = encodeURIComponent(name).replace(
+        /['()*]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,269 @@
+// src/server/services/exports/index.ts
+
+import { randomBytes } from 'crypto';
+import path from 'path';
+import { Queue } from 'bullmq';
+import { Redis } from 'ioredis';
+import { TRPCError } from '@trpc/server';
+import { ExportStatus, type Export } from '@prisma/client';
+import { env } from '~/env';
+import { db } from '~/server/db';
+import { getExportMimeType } from '~/lib/export';
+import { StorageManager } from '~/server/services/storage';
+import { signDownloadToken, verifyDownloadToken } from './signing';
+
+export const EXPORT_CLEANUP_QUEUE = 'export-cleanup';
+
+export type ExportCleanupJobData = { kind: 'expire-due' };
+
+// How long download links handed to the owner stay valid
+export const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+
+// Default lifetime of a share link, capped by the export's own expiry
+export const DEFAULT_SHARE_HOURS = 24 * 7;
+
+// How often the worker expires exports past their expiresAt
+const CLEANUP_SWEEP_MS = 60 * 60 * 1000;
+
+// Exports expired per query during a sweep
+const CLEANUP_BATCH_SIZE = 100;
+
+export interface SignedDownloadUrl {
+    url: string;
+    expiresAt: Date;
+}
+
+export interface ExportDownload {
+    data: Buffer;
+    filename: string;
+    mimeType: string;
+}
+
+let queue: Queue<ExportCleanupJobData> | undefined;
+
+function getQueue(): Queue<ExportCleanupJobData> {
+    queue ??= new Queue<ExportCleanupJobData>(EXPORT_CLEANUP_QUEUE, {
+        connection: new Redis(env.REDIS_URL, { maxRetriesPerRequest: null }),
+    });
+    return queue;
+}
+
+function signingSecret(): string {
+    const secret = env.AUTH_SECRET ?? env.NEXTAUTH_SECRET;
+    if (!secret) {
+        throw new Error('AUTH_SECRET or NEXTAUTH_SECRET must be set to sign export downloads');
+    }
+    return secret;
+}
+
+export class ExportDownloadService {
+    /**
+     * Unsigned path stored on Export.url; downloads need a token on top
+     */
+    static downloadPath(exportId: string): string {
+        return `/api/export/download/${exportId}`;
+    }
+
+    /**
+     * Signed download URL, valid for an hour unless an earlier or later
+     * expiry is given, and never past the export's own expiry
+     */
+    static signUrl(
+        record: Pick<Export, 'id' | 'expiresAt'>,
+        options: { expiresAt?: Date; shareId?: string } = {}
+    ): SignedDownloadUrl {
+        let expiresAt = options.expiresAt ?? new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000);
+        if (record.expiresAt && record.expiresAt < expiresAt) {
+            expiresAt = record.expiresAt;
+        }
+
+        const token = signDownloadToken(signingSecret(), {
+            exportId: record.id,
+            expiresAt: Math.floor(expiresAt.getTime() / 1000),
+            shareId: options.shareId,
+        });
+
+        return {
+            url: `${this.downloadPath(record.id)}?token=${token}`,
+            expiresAt,
+        };
+    }
+
+    /**
+     * Fresh download link for one of the user's exports
+     */
+    static async getDownloadUrl(userId: string, exportId: string): Promise<SignedDownloadUrl> {
+        const record = await this.findDownloadable(userId, exportId);
+        return this.signUrl(record);
+    }
+
+    /**
+     * Link anyone can download the export with, until it expires or sharing
+     * is revoked. Sharing an already shared export extends the same link.
+     */
+    static async share(
+        userId: string,
+        exportId: string,
+        expiresInHours = DEFAULT_SHARE_HOURS
+    ): Promise<SignedDownloadUrl> {
+        const record = await this.findDownloadable(userId, exportId);
+
+        let shareExpiresAt = new Date(Date.now() + expiresInHours * 60 * 60 * 1000);
+        if (record.expiresAt && record.expiresAt < shareExpiresAt) {
+            shareExpiresAt = record.expiresAt;
+        }
+
+        const updated = await db.export.update({
+            where: { id: record.id },
+            data: {
+                shareId: record.shareId ?? randomBytes(16).toString('hex'),
+                shareExpiresAt,
+            },
+        });
+
+        return this.signUrl(updated, {
+            expiresAt: shareExpiresAt,
+            shareId: updated.shareId!,
+        });
+    }
+
+    /**
+     * Stop every share link of an export from working
+     */
+    static async revokeShare(userId: string, exportId: string): Promise<void> {
+        const { count } = await db.export.updateMany({
+            where: { id: exportId, userId },
+            data: { shareId: null, shareExpiresAt: null },
+        });
+
+        if (count === 0) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: 'Export not found' });
+        }
+    }
+
+    /**
+     * Check a download token and load the exported file from its storage
+     * backend, counting the download. The token is the only credential, so
+     * links work for API clients and webhook receivers as well.
+     */
+    static async resolveDownload(exportId: string, token: string): Promise<ExportDownload> {
+        const payload = verifyDownloadToken(signingSecret(), token);
+        if (!payload || payload.exportId !== exportId) {
+            throw new TRPCError({
+                code: 'FORBIDDEN',
+                message: 'This download link is invalid or has expired',
+            });
+        }
+
+        const record = await db.export.findUnique({ where: { id: exportId } });
+        if (!record?.storageKey || record.status !== ExportStatus.COMPLETED || this.isExpired(record)) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: 'This export is no longer available' });
+        }
+
+        if (payload.shareId) {
+            const shareActive = record.shareId === payload.shareId &&
+                !!record.shareExpiresAt && record.shareExpiresAt > new Date();
+            if (!shareActive) {
+                throw new TRPCError({
+                    code: 'FORBIDDEN',
+                    message: 'This share link has been revoked',
+                });
+            }
+        }
+
+        const data = await StorageManager.getProvider(record.storageProvider).download(record.storageKey);
+
+        await db.export.update({
+            where: { id: record.id },
+            data: {
+                downloadCount: { increment: 1 },
+                lastDownloadedAt: new Date(),
+            },
+        });
+
+        return {
+            data,
+            filename: path.basename(record.storageKey),
+            mimeType: getExportMimeType(record.format),
+        };
+    }
+
+    /**
+     * Mark exports past their expiry as expired and delete their files.
+     * Limited to one user when given, otherwise every user's.
+     */
+    static async expireDue(options: { userId?: string } = {}): Promise<number> {
+        let expired = 0;
+
+        while (true) {
+            const due = await db.export.findMany({
+                where: {
+                    userId: options.userId,
+                    status: { not: ExportStatus.EXPIRED },
+                    expiresAt: { lt: new Date() },
+                },
+                select: { id: true, storageKey: true, storageProvider: true },
+                take: CLEANUP_BATCH_SIZE,
+            });
+
+            for (const record of due) {
+                if (record.storageKey) {
+                    try {
+                        await StorageManager.getProvider(record.storageProvider).delete(record.storageKey);
+                    } catch (error) {
+                        console.error(`Failed to delete expired export ${record.id}:`, error);
+                    }
+                }
+
+                await db.export.update({
+                    where: { id: record.id },
+                    data: {
+                        status: ExportStatus.EXPIRED,
+                        storageKey: null,
+                        shareId: null,
+                        shareExpiresAt: null,
+                    },
+                });
+            }
+
+            expired += due.length;
+            if (due.length < CLEANUP_BATCH_SIZE) break;
+        }
+
+        return expired;
+    }
+
+    /**
+     * Register the periodic expiry sweep. Safe to call on every worker
+     * start; the scheduler is replaced rather than duplicated.
+     */
+    static async scheduleCleanup() {
+        await getQueue().upsertJobScheduler(
+            'expire-due',
+            { every: CLEANUP_SWEEP_MS },
+            { name: 'expire-due', data: { kind: 'expire-due' } },
+        );
+    }
+
+    private static isExpired(record: Pick<Export, 'expiresAt'>): boolean {
+        return !!record.expiresAt && record.expiresAt <= new Date();
+    }
+
+    private static async findDownloadable(userId: string, exportId: string) {
+        const record = await db.export.findFirst({
+            where: { id: exportId, userId },
+        });
+
+        if (!record) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: 'Export not found' });
+        }
+        if (!record.storageKey || record.status !== ExportStatus.COMPLETED || this.isExpired(record)) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: 'This export has expired; export the document again',
+            });
+        }
+
+        return record;
+    }
+}
@@ -0,0 +1,66 @@
+// src/server/services/exports/signing.ts
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface DownloadTokenPayload {
+    exportId: string;
+    // Unix time in seconds after which the token is rejected
+    expiresAt: number;
+    // Set on share-with-anyone links, see Export.shareId
+    shareId?: string;
+}
+
+/**
+ * Token granting a download of one export until it expires, in the form
+ * `<base64url payload>.<base64url HMAC-SHA256>`
+ */
+export function signDownloadToken(secret: string, payload: DownloadTokenPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${digest(secret, body)}`;
+}
+
+/**
+ * Payload of a token signed with the secret, or null when the signature
+ * doesn't match, the token is malformed or it has expired
+ */
+export function verifyDownloadToken(
+    secret: string,
+    token: string,
+    now = Date.now()
+): DownloadTokenPayload | null {
+    const [body, signature, ...rest] = token.split('.');
+    if (!body || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(digest(secret, body));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    let payload: Partial<DownloadTokenPayload>;
+    try {
+        payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as Partial<DownloadTokenPayload>;
+    } catch {
+        return null;
+    }
+
+    if (
+        typeof payload.exportId !== 'string' ||
+        typeof payload.expiresAt !== 'number' ||
+        (payload.shareId !== undefined && typeof payload.shareId !== 'string')
+    ) {
+        return null;
+    }
+    if (payload.expiresAt * 1000 <= now) return null;
+
+    return {
+        exportId: payload.exportId,
+        expiresAt: payload.expiresAt,
+        shareId: payload.shareId,
+    };
+}
+
+function digest(secret: string, body: string): string {
+    // Prefixed so the secret's other uses can never produce a valid token
+    return createHmac('sha256', secret).update(`export-download.${body}`).digest('base64url');
+}
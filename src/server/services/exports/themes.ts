@@ -0,0 +1,91 @@
+// src/server/services/exports/themes.ts
+
+import { TRPCError } from '@trpc/server';
+import { db } from '~/server/db';
+import type { DocumentData } from '~/lib/export';
+import { HtmlExporter } from '~/lib/export/html-exporter';
+import { PDFExporter } from '~/lib/export/pdf-exporter';
+import {
+    parseExportThemeSettings,
+    type ExportThemeSettings,
+} from '~/config/export-themes';
+
+export interface ResolvedExportTheme {
+    id: string;
+    settings: ExportThemeSettings;
+    updatedAt: Date;
+}
+
+// Short document the theme editor renders its preview with
+const PREVIEW_DOCUMENT: Omit<DocumentData, 'theme'> = {
+    title: 'Quarterly Business Review',
+    type: 'Business Plan',
+    sections: [
+        {
+            id: 'summary',
+            name: 'Executive Summary',
+            order: 1,
+            content: 'Revenue grew 18% over the quarter, driven by new enterprise accounts [1].\n\n- Churn fell to 2.1%\n- Two new regions launched',
+        },
+        {
+            id: 'outlook',
+            name: 'Outlook',
+            order: 2,
+            content: 'We expect growth to continue as the partner programme matures.',
+        },
+    ],
+    references: [
+        { marker: 1, sourceName: 'Q3 Sales Report', excerpt: 'Enterprise bookings rose by a third.' },
+    ],
+    metadata: {
+        createdAt: new Date('2025-01-15'),
+        wordCount: 42,
+        author: 'Jane Doe',
+    },
+};
+
+export class ExportThemeService {
+    /**
+     * Where clause for the themes a user can export with: their own and the
+     * ones shared with the team
+     */
+    static availableTo(userId: string) {
+        return { OR: [{ userId }, { shared: true }] };
+    }
+
+    /**
+     * Theme the user picked for an export, with its settings parsed
+     */
+    static async resolve(userId: string, themeId: string): Promise<ResolvedExportTheme> {
+        const theme = await db.exportTheme.findFirst({
+            where: { id: themeId, ...this.availableTo(userId) },
+        });
+
+        if (!theme) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: 'Export theme not found' });
+        }
+
+        return {
+            id: theme.id,
+            settings: parseExportThemeSettings(theme.settings),
+            updatedAt: theme.updatedAt,
+        };
+    }
+
+    /**
+     * Sample document rendered with unsaved settings, so the editor can show
+     * them before the theme is saved
+     */
+    static async preview(
+        settings: ExportThemeSettings,
+        format: 'PDF' | 'HTML'
+    ): Promise<{ mimeType: string; data: string }> {
+        const exporter = format === 'PDF' ? new PDFExporter() : new HtmlExporter();
+        const buffer = await exporter.export({ ...PREVIEW_DOCUMENT, theme: settings });
+
+        return {
+            mimeType: exporter.getMimeType(),
+            data: buffer.toString('base64'),
+        };
+    }
+}
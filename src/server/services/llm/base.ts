@@ -1,12 +1,13 @@
 // src/server/services/llm/base.ts
 import { z } from "zod";
 import { DocumentType } from "@prisma/client";
+import type { ProviderRoute } from "./fallback";
 
 export interface LLMProvider {
   name: string;
   generateCompletion(params: CompletionParams): Promise<CompletionResponse>;
+  streamCompletion(params: StreamCompletionParams): Promise<CompletionResponse>;
   countTokens(text: string): number;
-  estimateCost(tokens: number, model: string): number;
 }
 
 export interface CompletionParams {
@@ -15,6 +16,12 @@ export interface CompletionParams {
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  signal?: AbortSignal; // Aborts the in-flight request (e.g. document.cancel)
+}
+
+export interface StreamCompletionParams extends CompletionParams {
+  // Called with each text delta as it arrives from the provider
+  onToken: (delta: string) => void;
 }
 
 export interface CompletionResponse {
@@ -23,6 +30,8 @@ export interface CompletionResponse {
   completionTokens: number;
   totalTokens: number;
   model: string;
+  // Provider and model that served the call, set by FallbackProvider
+  route?: ProviderRoute;
 }
 
 export interface GenerationProgress {
@@ -30,4 +39,8 @@ export interface GenerationProgress {
   progress: number; // 0-100
   message: string;
   currentSection?: string;
+  // Every section being written, as independent sections run in parallel
+  activeSections?: string[];
+  // Set while a fallback provider serves calls in place of the configured one
+  fallback?: { from: string; provider: string; model: string };
 }
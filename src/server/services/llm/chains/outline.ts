@@ -103,6 +103,8 @@ export class OutlineChain {
       gemini: '\n\nAnalyze the requirements comprehensively, then generate a structured JSON outline.',
       perplexity: '\n\nConsider current best practices and return a JSON outline with relevant sections.',
       llama: '\n\nGenerate a clear, structured JSON outline following the specified format exactly.',
+      local: '\n\nGenerate a clear, structured JSON outline following the specified format exactly. Return only the JSON.',
+      mock: '',
     };
 
     return basePrompt + (enhancements[this.providerName] || enhancements.openai);
@@ -238,6 +240,8 @@ export class OutlineChain {
       gemini: { outline: 0.6, section: 0.7, refinement: 0.3 },
       perplexity: { outline: 0.5, section: 0.6, refinement: 0.3 },
       llama: { outline: 0.7, section: 0.8, refinement: 0.4 },
+      local: { outline: 0.6, section: 0.8, refinement: 0.4 },
+      mock: { outline: 0.7, section: 0.8, refinement: 0.3 },
     };
 
     return temperatures[this.providerName]?.[stage] || 0.7;
@@ -83,7 +83,7 @@ export class RefinementChain {
     const finalResult = await this.finalPolish(refinedContent, context);
 
     // Calculate quality metrics
-    const metadata = await this.calculateMetadata(finalResult.content, context);
+    const metadata = await this.calculateMetadata(finalResult.content, context.requirements.tone);
 
     return {
       content: finalResult.content,
@@ -92,6 +92,13 @@ export class RefinementChain {
     };
   }
 
+  /**
+   * Quality metrics for finished content, without refining it
+   */
+  assess(content: string, tone: string): Promise<RefinementResult['metadata']> {
+    return this.calculateMetadata(content, tone);
+  }
+
   private combineDocument(context: RefinementContext): string {
     const orderedSections = this.getOrderedSections(context);
     const parts: string[] = [];
@@ -335,6 +342,8 @@ Preserve all content while making it consistent.`;
       gemini: 'Ensure comprehensive coverage and logical completeness.',
       perplexity: 'Verify factual accuracy and add any missing context.',
       llama: 'Optimize for clarity and readability.',
+      local: 'Optimize for clarity and readability.',
+      mock: 'Optimize for clarity and readability.',
     };
 
     const polishInstruction = polishPrompts[this.providerName] || polishPrompts.openai;
@@ -380,7 +389,7 @@ Make only essential improvements to perfect the document.`;
 
   private async calculateMetadata(
     content: string,
-    context: RefinementContext
+    tone: string
   ): Promise<RefinementResult['metadata']> {
     // Calculate readability score (simplified Flesch-Kincaid)
     const readabilityScore = this.calculateReadability(content);
@@ -389,7 +398,7 @@ Make only essential improvements to perfect the document.`;
     const consistencyScore = this.analyzeConsistency(content);
 
     // Analyze tone alignment
-    const toneAlignment = await this.analyzeToneAlignment(content, context.requirements.tone);
+    const toneAlignment = await this.analyzeToneAlignment(content, tone);
 
     // Overall quality is weighted average
     const overallQuality = (
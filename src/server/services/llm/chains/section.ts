@@ -1,19 +1,37 @@
 // src/server/services/llm/chains/section.ts
 import { DocumentType } from '@prisma/client';
-import type { LLMProvider } from '../base';
+import type { LLMProvider, CompletionParams, CompletionResponse } from '../base';
+import type { ProviderRoute } from '../fallback';
 import type { ProviderName } from '../index';
 import type { DocumentOutline } from './outline';
-import { documentPrompts } from '../prompts';
+import { documentPrompts, type DocumentPrompts } from '../prompts';
 import { TextSplitter } from '../utils/splitter';
+import {
+  buildCitationInstructions,
+  normalizeCitationMarkers,
+  type CitationSource,
+} from '../../document/citations';
 
 export interface SectionContext {
-  outline: DocumentOutline;
+  // An outline chain outline, or the section map LLMService works from
+  outline: DocumentOutline | Record<string, unknown>;
   previousSections: Record<string, string>;
   currentSection: string;
   sectionDetails: any;
   documentType: DocumentType;
+  // Prompt set of a custom document type, used instead of documentPrompts
+  prompts?: DocumentPrompts;
   originalInput: any;
   targetWords: number;
+  // Set when rewriting an existing section rather than writing it fresh
+  followingSections?: Record<string, string>;
+  currentContent?: string;
+  instruction?: string;
+  // Numbered knowledge-base chunks the section may cite as [n]
+  citationSources?: CitationSource[];
+  // Receives the full section text written so far whenever new tokens arrive
+  onPartialContent?: (content: string) => void;
+  signal?: AbortSignal;
 }
 
 export interface SectionResult {
@@ -21,6 +39,36 @@ export interface SectionResult {
   wordCount: number;
   keyPointsCovered: string[];
   suggestedRevisions?: string[];
+  tokenUsage: SectionTokenUsage;
+}
+
+export interface SectionTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Set when a fallback provider served the calls
+  route?: ProviderRoute;
+}
+
+/**
+ * Brief summary of finished sections (first and last sentence of each), given
+ * to a section as context so it stays coherent with them
+ */
+export function summarizeSections(sections: Record<string, string>): string {
+  const summaries: string[] = [];
+
+  for (const [sectionId, content] of Object.entries(sections)) {
+    // Extract first and last sentences as summary
+    const sentences = content.match(/[^.!?]+[.!?]+/g) || [];
+    if (sentences.length > 0) {
+      const summary = sentences.length > 3
+        ? `${sentences[0]} [...] ${sentences[sentences.length - 1]}`
+        : sentences.join(' ');
+      summaries.push(`${sectionId}: ${summary.trim()}`);
+    }
+  }
+
+  return summaries.join('\n');
 }
 
 export class SectionChain {
@@ -36,7 +84,7 @@ export class SectionChain {
 
   async generate(context: SectionContext): Promise<SectionResult> {
     // Get document-specific prompt builder
-    const promptBuilder = documentPrompts[context.documentType];
+    const promptBuilder = context.prompts ?? documentPrompts[context.documentType];
     if (!promptBuilder?.section) {
       throw new Error(`No section prompt builder found for document type: ${context.documentType}`);
     }
@@ -47,27 +95,67 @@ export class SectionChain {
     // Calculate optimal token allocation
     const maxTokens = this.calculateMaxTokens(context.targetWords);
 
+    // Token usage is summed across every call made for this section
+    const usage: SectionTokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
     // Generate with provider-specific optimizations
     const response = await this.generateWithOptimizations({
       prompt,
       maxTokens,
       context,
+      usage,
     });
 
     // Post-process the content
-    const processed = await this.postProcessContent(response.content, context);
+    const processed = await this.postProcessContent(response.content, context, usage);
 
     // Validate section meets requirements
     const validation = this.validateSection(processed, context);
 
     if (!validation.isValid) {
       // Attempt to fix common issues
-      processed.content = await this.attemptAutoFix(processed, validation, context);
+      processed.content = await this.attemptAutoFix(processed, validation, context, usage);
+      context.onPartialContent?.(processed.content);
     }
 
     return processed;
   }
 
+  /**
+   * Run a single completion, streaming it through `onPartialContent` when the
+   * caller is listening. `prefix` is already-written text the stream continues.
+   */
+  private async complete(
+    params: CompletionParams,
+    context: SectionContext,
+    usage: SectionTokenUsage,
+    prefix = ''
+  ): Promise<CompletionResponse> {
+    const request = { ...params, signal: context.signal };
+    const onPartialContent = context.onPartialContent;
+
+    let response: CompletionResponse;
+    if (onPartialContent) {
+      let written = '';
+      response = await this.provider.streamCompletion({
+        ...request,
+        onToken: (delta) => {
+          written += delta;
+          onPartialContent(prefix + written);
+        },
+      });
+    } else {
+      response = await this.provider.generateCompletion(request);
+    }
+
+    usage.promptTokens += response.promptTokens;
+    usage.completionTokens += response.completionTokens;
+    usage.totalTokens += response.totalTokens;
+    usage.route = response.route ?? usage.route;
+
+    return response;
+  }
+
   private buildSectionPrompt(
     context: SectionContext,
     promptBuilder: any
@@ -86,10 +174,28 @@ export class SectionChain {
 
     // Add context about previous sections to maintain coherence
     if (Object.keys(context.previousSections).length > 0) {
-      const previousSummary = this.summarizePreviousSections(context.previousSections);
+      const previousSummary = summarizeSections(context.previousSections);
       prompt += `\n\nPrevious sections summary for context:\n${previousSummary}`;
     }
 
+    // Sections that come after this one, when regenerating inside a finished document
+    if (context.followingSections && Object.keys(context.followingSections).length > 0) {
+      const followingSummary = summarizeSections(context.followingSections);
+      prompt += `\n\nFollowing sections summary (do not repeat their content):\n${followingSummary}`;
+    }
+
+    if (context.currentContent) {
+      prompt += `\n\nCurrent version of this section, to be rewritten:\n${context.currentContent}`;
+    }
+
+    if (context.instruction) {
+      prompt += `\n\nRevision instructions from the user: ${context.instruction}`;
+    }
+
+    if (context.citationSources?.length) {
+      prompt += `\n\n${buildCitationInstructions(context.citationSources)}`;
+    }
+
     // Add specific word count guidance
     prompt += `\n\nTarget length: approximately ${context.targetWords} words.`;
     prompt += `\nEnsure the content is substantial and detailed while maintaining engagement.`;
@@ -113,6 +219,10 @@ export class SectionChain {
       },
 
       llama: (p, c) => p + '\n\nWrite clearly and concisely while meeting the word count target.',
+
+      local: (p, c) => p + '\n\nWrite clearly and concisely while meeting the word count target.',
+
+      mock: (p) => p,
     };
 
     const enhance = enhancements[this.providerName] || enhancements.openai;
@@ -123,6 +233,7 @@ export class SectionChain {
     prompt: string;
     maxTokens: number;
     context: SectionContext;
+    usage: SectionTokenUsage;
   }): Promise<{ content: string }> {
     // Provider-specific generation settings
     const settings = this.getProviderSettings(params.context);
@@ -133,13 +244,17 @@ export class SectionChain {
     }
 
     // Standard generation
-    const response = await this.provider.generateCompletion({
-      prompt: params.prompt,
-      model: this.model,
-      temperature: settings.temperature,
-      maxTokens: params.maxTokens,
-      systemPrompt: settings.systemPrompt,
-    });
+    const response = await this.complete(
+      {
+        prompt: params.prompt,
+        model: this.model,
+        temperature: settings.temperature,
+        maxTokens: params.maxTokens,
+        systemPrompt: settings.systemPrompt,
+      },
+      params.context,
+      params.usage
+    );
 
     return { content: response.content };
   }
@@ -148,6 +263,7 @@ export class SectionChain {
     prompt: string;
     maxTokens: number;
     context: SectionContext;
+    usage: SectionTokenUsage;
   }): Promise<{ content: string }> {
     // Break down section into subsections for generation
     const subsections = this.planSubsections(params.context);
@@ -155,13 +271,19 @@ export class SectionChain {
 
     for (const subsection of subsections) {
       const subPrompt = `${params.prompt}\n\nFocus specifically on: ${subsection.focus}`;
+      const prefix = parts.length > 0 ? `${parts.join('\n\n')}\n\n` : '';
 
-      const response = await this.provider.generateCompletion({
-        prompt: subPrompt,
-        model: this.model,
-        temperature: 0.7,
-        maxTokens: Math.min(2000, params.maxTokens / subsections.length),
-      });
+      const response = await this.complete(
+        {
+          prompt: subPrompt,
+          model: this.model,
+          temperature: 0.7,
+          maxTokens: Math.min(2000, params.maxTokens / subsections.length),
+        },
+        params.context,
+        params.usage,
+        prefix
+      );
 
       parts.push(response.content);
     }
@@ -201,27 +323,10 @@ export class SectionChain {
     }).join('\n\n');
   }
 
-  private summarizePreviousSections(previousSections: Record<string, string>): string {
-    // Create a brief summary of key points from previous sections
-    const summaries: string[] = [];
-
-    for (const [sectionId, content] of Object.entries(previousSections)) {
-      // Extract first and last sentences as summary
-      const sentences = content.match(/[^.!?]+[.!?]+/g) || [];
-      if (sentences.length > 0) {
-        const summary = sentences.length > 3
-          ? `${sentences[0]} [...] ${sentences[sentences.length - 1]}`
-          : sentences.join(' ');
-        summaries.push(`${sectionId}: ${summary.trim()}`);
-      }
-    }
-
-    return summaries.join('\n');
-  }
-
   private async postProcessContent(
     content: string,
-    context: SectionContext
+    context: SectionContext,
+    tokenUsage: SectionTokenUsage
   ): Promise<SectionResult> {
     // Clean up content
     let processed = content.trim();
@@ -229,6 +334,9 @@ export class SectionChain {
     // Fix common formatting issues
     processed = this.fixFormatting(processed);
 
+    // Keep only citation markers that point at a retrieved source
+    processed = normalizeCitationMarkers(processed, context.citationSources ?? []);
+
     // Count words accurately
     const wordCount = this.countWords(processed);
 
@@ -243,6 +351,7 @@ export class SectionChain {
       wordCount,
       keyPointsCovered,
       suggestedRevisions: suggestedRevisions.length > 0 ? suggestedRevisions : undefined,
+      tokenUsage,
     };
   }
 
@@ -393,7 +502,8 @@ export class SectionChain {
   private async attemptAutoFix(
     result: SectionResult,
     validation: { issues: string[] },
-    context: SectionContext
+    context: SectionContext,
+    usage: SectionTokenUsage
   ): Promise<string> {
     // For minor issues, try to fix automatically
     let content = result.content;
@@ -401,16 +511,23 @@ export class SectionChain {
     for (const issue of validation.issues) {
       if (issue.includes('shorter than target')) {
         // Add elaboration prompt
-        const elaborationPrompt = `Expand the following content to approximately ${context.targetWords} words by adding more detail and examples:\n\n${content}`;
-
-        const response = await this.provider.generateCompletion({
-          prompt: elaborationPrompt,
-          model: this.model,
-          temperature: 0.7,
-          maxTokens: 1000,
-        });
+        let elaborationPrompt = `Expand the following content to approximately ${context.targetWords} words by adding more detail and examples:\n\n${content}`;
+        if (context.citationSources?.length) {
+          elaborationPrompt += '\n\nKeep every citation marker such as [1] attached to the statement it supports.';
+        }
 
-        content = response.content;
+        const response = await this.complete(
+          {
+            prompt: elaborationPrompt,
+            model: this.model,
+            temperature: 0.7,
+            maxTokens: 1000,
+          },
+          context,
+          usage
+        );
+
+        content = normalizeCitationMarkers(response.content, context.citationSources ?? []);
       }
     }
 
@@ -443,6 +560,13 @@ export class SectionChain {
         temperature: 0.8,
         systemPrompt: 'You are a clear, effective writer who creates accessible content.',
       },
+      local: {
+        temperature: 0.8,
+        systemPrompt: 'You are a clear, effective writer who creates accessible content.',
+      },
+      mock: {
+        temperature: 0.8,
+      },
     };
 
     return settings[this.providerName] || settings.openai;
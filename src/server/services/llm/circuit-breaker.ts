@@ -0,0 +1,107 @@
+// src/server/services/llm/circuit-breaker.ts
+import { Redis } from "ioredis";
+import { env } from "~/env";
+
+// Per-provider circuit breakers, shared by every worker through Redis. Each
+// provider keeps its last WINDOW_SIZE outcomes. Once MIN_REQUESTS are in the
+// window and the error rate reaches ERROR_THRESHOLD the breaker opens and
+// fallback chains skip the provider for COOLDOWN_MS. After the cooldown the
+// provider is half-open: one failure reopens it, one success closes it.
+// Redis errors leave breakers closed, so they never block generation.
+
+const WINDOW_SIZE = 20;
+const MIN_REQUESTS = 5;
+const ERROR_THRESHOLD = 0.5;
+const COOLDOWN_MS = 60_000;
+const HALF_OPEN_MS = 10 * 60_000;
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+let redis: Redis | undefined;
+
+function getRedis(): Redis {
+  redis ??= new Redis(env.REDIS_URL, { maxRetriesPerRequest: 1 });
+  return redis;
+}
+
+function keys(provider: string) {
+  return {
+    outcomes: `llm:circuit:${provider}:outcomes`,
+    open: `llm:circuit:${provider}:open`,
+    halfOpen: `llm:circuit:${provider}:half-open`,
+  };
+}
+
+export class CircuitBreaker {
+  static async getState(provider: string): Promise<CircuitState> {
+    const key = keys(provider);
+
+    try {
+      const [open, halfOpen] = await getRedis().mget(key.open, key.halfOpen);
+      if (open) return "open";
+      return halfOpen ? "half-open" : "closed";
+    } catch (error) {
+      console.error(`Failed to read circuit state of ${provider}`, error);
+      return "closed";
+    }
+  }
+
+  static async recordSuccess(provider: string): Promise<void> {
+    const key = keys(provider);
+
+    try {
+      await getRedis()
+        .multi()
+        .lpush(key.outcomes, "1")
+        .ltrim(key.outcomes, 0, WINDOW_SIZE - 1)
+        .del(key.halfOpen)
+        .exec();
+    } catch (error) {
+      console.error(`Failed to record success of ${provider}`, error);
+    }
+  }
+
+  static async recordFailure(provider: string): Promise<void> {
+    const key = keys(provider);
+
+    try {
+      const results = await getRedis()
+        .multi()
+        .lpush(key.outcomes, "0")
+        .ltrim(key.outcomes, 0, WINDOW_SIZE - 1)
+        .lrange(key.outcomes, 0, -1)
+        .exists(key.halfOpen)
+        .exec();
+
+      const outcomes = (results?.[2]?.[1] as string[] | undefined) ?? [];
+      const halfOpen = results?.[3]?.[1] === 1;
+      const failures = outcomes.filter((outcome) => outcome === "0").length;
+
+      if (
+        halfOpen ||
+        (outcomes.length >= MIN_REQUESTS &&
+          failures / outcomes.length >= ERROR_THRESHOLD)
+      ) {
+        await CircuitBreaker.open(provider);
+      }
+    } catch (error) {
+      console.error(`Failed to record failure of ${provider}`, error);
+    }
+  }
+
+  // The window starts empty after a trip, so the half-open decision rests
+  // on calls made after the cooldown
+  private static async open(provider: string): Promise<void> {
+    const key = keys(provider);
+
+    console.warn(
+      `Circuit for ${provider} opened, skipping it for ${COOLDOWN_MS / 1000}s`,
+    );
+    await getRedis()
+      .multi()
+      .set(key.open, "1", "PX", COOLDOWN_MS)
+      .set(key.halfOpen, "1", "PX", COOLDOWN_MS + HALF_OPEN_MS)
+      .del(key.outcomes)
+      .exec();
+  }
+}
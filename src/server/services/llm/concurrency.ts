@@ -0,0 +1,96 @@
+// src/server/services/llm/concurrency.ts
+import type {
+  LLMProvider,
+  CompletionParams,
+  CompletionResponse,
+  StreamCompletionParams,
+} from "./base";
+import type { ProviderName } from "./index";
+import { throwIfAborted } from "./utils/stream";
+
+// Concurrent requests per provider, shared by every document the process is
+// generating. The limit belongs to the provider that serves a request, so a
+// call moved to a fallback provider waits for a slot there.
+export const PROVIDER_CONCURRENCY: Record<ProviderName, number> = {
+  openai: 4,
+  anthropic: 3,
+  gemini: 4,
+  perplexity: 2,
+  llama: 3,
+  // A local server usually runs one request at a time
+  local: 1,
+  mock: 4,
+};
+
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      // The slot is handed over by the task that releases it
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
+
+const limiters = new Map<ProviderName, ConcurrencyLimiter>();
+
+function getLimiter(provider: ProviderName): ConcurrencyLimiter {
+  let limiter = limiters.get(provider);
+  if (!limiter) {
+    limiter = new ConcurrencyLimiter(PROVIDER_CONCURRENCY[provider] ?? 1);
+    limiters.set(provider, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Provider whose requests wait for a slot in the limiter of the provider
+ * they are sent to.
+ */
+export class LimitedProvider implements LLMProvider {
+  name: string;
+  private limiter: ConcurrencyLimiter;
+
+  constructor(
+    provider: ProviderName,
+    private inner: LLMProvider,
+  ) {
+    this.name = inner.name;
+    this.limiter = getLimiter(provider);
+  }
+
+  generateCompletion(params: CompletionParams): Promise<CompletionResponse> {
+    return this.limiter.run(() => {
+      // Cancelled while waiting for a slot
+      throwIfAborted(params.signal);
+      return this.inner.generateCompletion(params);
+    });
+  }
+
+  streamCompletion(
+    params: StreamCompletionParams,
+  ): Promise<CompletionResponse> {
+    return this.limiter.run(() => {
+      throwIfAborted(params.signal);
+      return this.inner.streamCompletion(params);
+    });
+  }
+
+  countTokens(text: string): number {
+    return this.inner.countTokens(text);
+  }
+}
@@ -0,0 +1,223 @@
+// src/server/services/llm/fallback.ts
+import { TRPCError } from "@trpc/server";
+import type { DocumentType } from "@prisma/client";
+import type {
+  LLMProvider,
+  CompletionParams,
+  CompletionResponse,
+  StreamCompletionParams,
+} from "./base";
+import type { ProviderName } from "./index";
+import { CircuitBreaker } from "./circuit-breaker";
+import { ModelCatalogService } from "./model-catalog";
+import type { ProviderModelPreference } from "~/types/preferences";
+
+// Ordered fallback across providers. Calls go to the first provider in the
+// chain whose circuit isn't open; rate limits, timeouts and server errors
+// move on to the next one, using the model of the same price tier there.
+
+export interface ProviderRoute {
+  provider: ProviderName;
+  model: string;
+}
+
+export interface FallbackProviderOptions {
+  primary: ProviderName;
+  primaryProvider: LLMProvider;
+  // Tried in order after the primary
+  fallbacks: ProviderName[];
+  createProvider: (name: ProviderName) => LLMProvider;
+  defaultModel: (name: ProviderName) => string;
+}
+
+const RETRYABLE_CODES = new Set([
+  "TOO_MANY_REQUESTS",
+  "TIMEOUT",
+  "INTERNAL_SERVER_ERROR",
+  "SERVICE_UNAVAILABLE",
+  "BAD_GATEWAY",
+  "GATEWAY_TIMEOUT",
+  // Missing or rejected API key: the provider can't serve anything
+  "UNAUTHORIZED",
+]);
+
+const RETRYABLE_MESSAGES = [
+  "rate_limit_exceeded",
+  "rate limit",
+  "model_not_available",
+  "timeout",
+  "timed out",
+  "service_unavailable",
+  "overloaded",
+  "econnrefused",
+  "econnreset",
+  "fetch failed",
+];
+
+/**
+ * Whether another provider might succeed where this error was thrown.
+ * Invalid requests and cancellations fail the same way everywhere.
+ */
+export function isRetryableProviderError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (error.message === "Generation cancelled" || error.name === "AbortError") {
+    return false;
+  }
+
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === "number") {
+    return status === 401 || status === 408 || status === 429 || status >= 500;
+  }
+
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === "string" && RETRYABLE_CODES.has(code)) return true;
+
+  const message = error.message.toLowerCase();
+  return RETRYABLE_MESSAGES.some((fragment) => message.includes(fragment));
+}
+
+/**
+ * Providers to fall back to for a document type, from the user's
+ * preferences. Empty when the user turned fallback off.
+ */
+export async function getFallbackProviders(
+  userId: string,
+  documentType: DocumentType,
+  primary: ProviderName,
+): Promise<ProviderName[]> {
+  const { db } = await import("~/server/db");
+  const preferences = await db.userPreferences.findUnique({
+    where: { userId },
+    select: { allowFallback: true, providerModels: true },
+  });
+
+  if (!preferences?.allowFallback) return [];
+
+  const providerModels = (preferences.providerModels ?? {}) as Partial<
+    Record<string, ProviderModelPreference>
+  >;
+  const chain = providerModels[documentType]?.fallbackProviders ?? [];
+
+  return [...new Set(chain)].filter((provider) => provider !== primary);
+}
+
+export class FallbackProvider implements LLMProvider {
+  name: string;
+  private providers = new Map<ProviderName, LLMProvider>();
+  private models = new Map<string, string>();
+
+  constructor(private options: FallbackProviderOptions) {
+    this.name = options.primary;
+    this.providers.set(options.primary, options.primaryProvider);
+  }
+
+  generateCompletion(params: CompletionParams): Promise<CompletionResponse> {
+    return this.route(params, (provider, request) =>
+      provider.generateCompletion(request),
+    );
+  }
+
+  streamCompletion(
+    params: StreamCompletionParams,
+  ): Promise<CompletionResponse> {
+    let streamed = false;
+
+    return this.route(
+      params,
+      (provider, request) =>
+        provider.streamCompletion({
+          ...request,
+          onToken: (delta) => {
+            streamed = true;
+            params.onToken(delta);
+          },
+        }),
+      // Once text has reached the caller a retry elsewhere would repeat it
+      () => !streamed,
+    );
+  }
+
+  countTokens(text: string): number {
+    return this.options.primaryProvider.countTokens(text);
+  }
+
+  private async route(
+    params: CompletionParams,
+    call: (
+      provider: LLMProvider,
+      request: CompletionParams,
+    ) => Promise<CompletionResponse>,
+    canFallBack: () => boolean = () => true,
+  ): Promise<CompletionResponse> {
+    const chain = [this.options.primary, ...this.options.fallbacks];
+    let lastError: Error | undefined;
+
+    for (const [index, name] of chain.entries()) {
+      // The last provider is tried even when its circuit is open, as there
+      // is nothing left to skip to
+      const isLast = index === chain.length - 1;
+      if (!isLast && (await CircuitBreaker.getState(name)) === "open") continue;
+
+      const provider = this.getProvider(name);
+      if (!provider) continue;
+
+      const model =
+        name === this.options.primary
+          ? params.model
+          : await this.getModel(name, params.model);
+
+      try {
+        const response = await call(provider, { ...params, model });
+        await CircuitBreaker.recordSuccess(name);
+        // Returned with the response so each call knows who served it
+        return { ...response, route: { provider: name, model } };
+      } catch (error) {
+        if (params.signal?.aborted || !isRetryableProviderError(error)) {
+          throw error;
+        }
+
+        await CircuitBreaker.recordFailure(name);
+        console.warn(`Provider ${name} failed, trying the next one`, error);
+        // Only Error instances count as retryable
+        lastError = error as Error;
+
+        if (!canFallBack()) throw error;
+      }
+    }
+
+    throw lastError ?? new TRPCError({
+      code: "SERVICE_UNAVAILABLE",
+      message: "No provider in the fallback chain is available",
+    });
+  }
+
+  // Fallback providers are created on first use; one without an API key
+  // is left out of the chain
+  private getProvider(name: ProviderName): LLMProvider | undefined {
+    if (!this.providers.has(name)) {
+      try {
+        this.providers.set(name, this.options.createProvider(name));
+      } catch (error) {
+        console.warn(`Fallback provider ${name} is not configured`, error);
+        return undefined;
+      }
+    }
+
+    return this.providers.get(name);
+  }
+
+  private async getModel(name: ProviderName, model: string): Promise<string> {
+    const key = `${name}:${model}`;
+
+    if (!this.models.has(key)) {
+      const equivalent = await ModelCatalogService.findEquivalent(
+        this.options.primary,
+        model,
+        name,
+      );
+      this.models.set(key, equivalent ?? this.options.defaultModel(name));
+    }
+
+    return this.models.get(key)!;
+  }
+}
@@ -5,6 +5,21 @@ import { AnthropicProvider } from "./providers/anthropic";
 import { GeminiProvider } from "./providers/gemini";
 import { PerplexityProvider } from "./providers/perplexity";
 import { LlamaProvider, type LlamaProviderType } from "./providers/llama";
+import { LocalProvider } from "./providers/local";
+import { MockProvider, DEFAULT_MOCK_MODEL } from "./providers/mock";
+import { ModelCatalogService, type ModelInfo } from "./model-catalog";
+import { FallbackProvider, type ProviderRoute } from "./fallback";
+import { SectionChain, summarizeSections } from "./chains/section";
+import { scheduleSections } from "./section-scheduler";
+import { LimitedProvider } from "./concurrency";
+import { RefinementChain, type RefinementResult } from "./chains/refinement";
+import type { DocumentPrompts } from "./prompts";
+import type { SectionData } from "../document/types";
+import {
+  buildCitationInstructions,
+  normalizeCitationMarkers,
+  type CitationSource,
+} from "../document/citations";
 import { DocumentType } from "@prisma/client";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
@@ -19,7 +34,14 @@ export type ProviderName =
   | "anthropic"
   | "gemini"
   | "perplexity"
-  | "llama";
+  | "llama"
+  | "local"
+  | "mock";
+
+// The mock provider is for evaluations and tests, not offered to users
+export type SelectableProviderName = Exclude<ProviderName, "mock">;
+
+export type { ModelInfo } from "./model-catalog";
 
 export interface LLMServiceConfig {
   provider?: ProviderName;
@@ -27,207 +49,190 @@ export interface LLMServiceConfig {
   model?: string;
   llamaProvider?: LlamaProviderType; // For Llama sub-providers
   baseUrl?: string; // For custom endpoints
+  // Providers to switch to, in order, when the primary one fails
+  fallbackProviders?: ProviderName[];
 }
 
-export interface ModelInfo {
-  id: string;
-  name: string;
+// Outline the section stage works from: section ids mapped to each section's
+// details (title, keyPoints, estimatedWords, dependsOn, ...)
+export type SectionOutline = Record<string, unknown>;
+export type GeneratedOutline = Record<string, SectionOutline>;
+
+// The provider serving calls in place of the configured one
+export interface ProviderFallback {
+  from: ProviderName;
   provider: ProviderName;
-  contextWindow: number;
-  maxOutput: number;
-  costPer1kTokens: { input: number; output: number };
-  capabilities: string[];
-  recommended: boolean;
+  model: string;
+}
+
+// Provider and model that served one call, as recorded on LLMCall
+interface CallRoute {
+  provider: ProviderName;
+  model: string;
+  // The configured provider the call was moved away from
+  fallbackProvider?: ProviderName;
 }
 
 export class LLMService {
   private provider: LLMProvider;
+  // The configured provider itself, for its provider-specific features
+  private baseProvider: LLMProvider;
   private providerName: ProviderName;
   private model: string;
+  // Only shown with progress; calls are attributed by their own route
+  private fallbackNotice?: ProviderFallback;
+  private lastProgress?: GenerationProgress;
   private progressEmitter = new EventEmitter();
 
-  // Available models registry
-  static readonly MODELS: ModelInfo[] = [
-    // OpenAI
-    {
-      id: "gpt-4-turbo",
-      name: "GPT-4 Turbo",
-      provider: "openai",
-      contextWindow: 128000,
-      maxOutput: 4096,
-      costPer1kTokens: { input: 0.01, output: 0.03 },
-      capabilities: ["chat", "code", "vision", "function-calling"],
-      recommended: true,
-    },
-    {
-      id: "gpt-4",
-      name: "GPT-4",
-      provider: "openai",
-      contextWindow: 8192,
-      maxOutput: 4096,
-      costPer1kTokens: { input: 0.03, output: 0.06 },
-      capabilities: ["chat", "code", "function-calling"],
-      recommended: false,
-    },
-    {
-      id: "gpt-3.5-turbo",
-      name: "GPT-3.5 Turbo",
-      provider: "openai",
-      contextWindow: 16385,
-      maxOutput: 4096,
-      costPer1kTokens: { input: 0.001, output: 0.002 },
-      capabilities: ["chat", "code", "function-calling"],
-      recommended: true,
-    },
-
-    // Anthropic
-    {
-      id: "claude-3-opus",
-      name: "Claude 3 Opus",
-      provider: "anthropic",
-      contextWindow: 200000,
-      maxOutput: 4096,
-      costPer1kTokens: { input: 0.015, output: 0.075 },
-      capabilities: ["chat", "code", "vision", "long-context"],
-      recommended: true,
-    },
-    {
-      id: "claude-3-sonnet",
-      name: "Claude 3 Sonnet",
-      provider: "anthropic",
-      contextWindow: 200000,
-      maxOutput: 4096,
-      costPer1kTokens: { input: 0.003, output: 0.015 },
-      capabilities: ["chat", "code", "vision", "long-context"],
-      recommended: true,
-    },
-    {
-      id: "claude-3-haiku",
-      name: "Claude 3 Haiku",
-      provider: "anthropic",
-      contextWindow: 200000,
-      maxOutput: 4096,
-      costPer1kTokens: { input: 0.00025, output: 0.00125 },
-      capabilities: ["chat", "code", "fast"],
-      recommended: false,
-    },
-
-    // Gemini
-    {
-      id: "gemini-1.5-pro",
-      name: "Gemini 1.5 Pro",
-      provider: "gemini",
-      contextWindow: 1000000,
-      maxOutput: 8192,
-      costPer1kTokens: { input: 0.0035, output: 0.0105 },
-      capabilities: ["chat", "code", "vision", "ultra-long-context"],
-      recommended: true,
-    },
-    {
-      id: "gemini-1.5-flash",
-      name: "Gemini 1.5 Flash",
-      provider: "gemini",
-      contextWindow: 1000000,
-      maxOutput: 8192,
-      costPer1kTokens: { input: 0.00035, output: 0.00105 },
-      capabilities: ["chat", "code", "vision", "fast", "ultra-long-context"],
-      recommended: true,
-    },
-
-    // Perplexity
-    {
-      id: "sonar-large",
-      name: "Perplexity Sonar Large",
-      provider: "perplexity",
-      contextWindow: 32000,
-      maxOutput: 4096,
-      costPer1kTokens: { input: 0.001, output: 0.001 },
-      capabilities: ["chat", "search", "citations", "real-time"],
-      recommended: true,
-    },
-
-    // Llama
-    {
-      id: "llama-3-70b",
-      name: "Llama 3 70B",
-      provider: "llama",
-      contextWindow: 8192,
-      maxOutput: 4096,
-      costPer1kTokens: { input: 0.0009, output: 0.0009 },
-      capabilities: ["chat", "code", "open-source"],
-      recommended: true,
-    },
-    {
-      id: "codellama-34b",
-      name: "Code Llama 34B",
-      provider: "llama",
-      contextWindow: 16384,
-      maxOutput: 4096,
-      costPer1kTokens: { input: 0.0005, output: 0.0005 },
-      capabilities: ["code", "open-source"],
-      recommended: false,
-    },
-  ];
-
   constructor(config: LLMServiceConfig = {}) {
     this.providerName =
       config.provider || (env.DEFAULT_LLM_PROVIDER as ProviderName) || "openai";
-    this.model = config.model || env.DEFAULT_LLM_MODEL || "gpt-4-turbo";
+    this.baseProvider = LLMService.createProvider(this.providerName, config);
+    this.provider = new LimitedProvider(this.providerName, this.baseProvider);
 
     switch (this.providerName) {
-      case "openai":
-        this.provider = new OpenAIProvider(config.apiKey);
+      case "local":
+        // The global default model is a hosted one; an empty model lets the
+        // provider fall back to LOCAL_LLM_DEFAULT_MODEL or the first one served
+        this.model = config.model || env.LOCAL_LLM_DEFAULT_MODEL || "";
         break;
 
-      case "anthropic":
-        this.provider = new AnthropicProvider(config.apiKey);
+      case "mock":
+        this.model = config.model || DEFAULT_MOCK_MODEL;
         break;
 
+      default:
+        this.model = config.model || env.DEFAULT_LLM_MODEL || "gpt-4-turbo";
+    }
+
+    if (config.fallbackProviders?.length) {
+      this.provider = new FallbackProvider({
+        primary: this.providerName,
+        primaryProvider: this.provider,
+        fallbacks: config.fallbackProviders,
+        createProvider: (name) =>
+          new LimitedProvider(name, LLMService.createProvider(name)),
+        defaultModel: (name) => LLMService.getDefaultModel(name),
+      });
+    }
+  }
+
+  private static createProvider(
+    name: ProviderName,
+    config: LLMServiceConfig = {},
+  ): LLMProvider {
+    switch (name) {
+      case "openai":
+        return new OpenAIProvider(config.apiKey);
+
+      case "anthropic":
+        return new AnthropicProvider(config.apiKey);
+
       case "gemini":
-        this.provider = new GeminiProvider(config.apiKey);
-        break;
+        return new GeminiProvider(config.apiKey);
 
       case "perplexity":
-        this.provider = new PerplexityProvider(config.apiKey);
-        break;
+        return new PerplexityProvider(config.apiKey);
 
       case "llama":
-        this.provider = new LlamaProvider({
+        return new LlamaProvider({
           provider: config.llamaProvider,
           apiKey: config.apiKey,
           baseUrl: config.baseUrl,
         });
-        break;
+
+      case "local":
+        return new LocalProvider({
+          apiKey: config.apiKey,
+          baseUrl: config.baseUrl,
+        });
+
+      case "mock":
+        // Deterministic offline responses for evaluations, tests and demos.
+        // The model name can select a scenario, see MOCK_MODELS.
+        return new MockProvider({
+          latencyMs: env.MOCK_LLM_LATENCY_MS,
+          failureRate: env.MOCK_LLM_FAILURE_RATE,
+          rateLimitRate: env.MOCK_LLM_RATE_LIMIT_RATE,
+        });
 
       default:
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message: `Invalid LLM provider: ${this.providerName}`,
+          message: `Invalid LLM provider: ${name as string}`,
         });
     }
   }
 
+  // Provider's own default, for fallbacks with no equivalent catalog model
+  private static getDefaultModel(name: ProviderName): string {
+    const defaults: Record<ProviderName, string> = {
+      openai: env.OPENAI_DEFAULT_MODEL,
+      anthropic: env.ANTHROPIC_DEFAULT_MODEL,
+      gemini: env.GEMINI_DEFAULT_MODEL,
+      perplexity: env.PERPLEXITY_DEFAULT_MODEL,
+      llama: env.LLAMA_DEFAULT_MODEL,
+      local: env.LOCAL_LLM_DEFAULT_MODEL ?? "",
+      mock: DEFAULT_MOCK_MODEL,
+    };
+
+    return defaults[name];
+  }
+
+  // Model requests go to, after defaults are applied
+  getModel(): string {
+    return this.model;
+  }
+
   // Get available models for a provider
-  static getModelsForProvider(provider: ProviderName): ModelInfo[] {
-    return LLMService.MODELS.filter((m) => m.provider === provider);
+  static getModelsForProvider(provider: ProviderName): Promise<ModelInfo[]> {
+    return ModelCatalogService.list(provider);
+  }
+
+  // Discover the models served by the local OpenAI-compatible endpoint.
+  // They aren't known ahead of time, so they can't live in the catalog.
+  static async getLocalModels(
+    config: { baseUrl?: string; apiKey?: string } = {},
+  ): Promise<ModelInfo[]> {
+    const provider = new LocalProvider(config);
+    const models = await provider.listModels(AbortSignal.timeout(5000));
+
+    return models.map((model, index) => ({
+      id: model.id,
+      name: model.id,
+      provider: "local",
+      contextWindow: model.contextWindow ?? 8192,
+      maxOutput: 4096,
+      costPer1kTokens: { input: 0, output: 0 },
+      capabilities: ["chat", "offline"],
+      recommended: env.LOCAL_LLM_DEFAULT_MODEL
+        ? model.id === env.LOCAL_LLM_DEFAULT_MODEL
+        : index === 0,
+    }));
   }
 
   // Get recommended models across all providers
-  static getRecommendedModels(): ModelInfo[] {
-    return LLMService.MODELS.filter((m) => m.recommended);
+  static async getRecommendedModels(): Promise<ModelInfo[]> {
+    const models = await ModelCatalogService.list();
+    return models.filter((m) => m.recommended);
   }
 
   // Get model by capability
-  static getModelsByCapability(capability: string): ModelInfo[] {
-    return LLMService.MODELS.filter((m) => m.capabilities.includes(capability));
+  static async getModelsByCapability(capability: string): Promise<ModelInfo[]> {
+    const models = await ModelCatalogService.list();
+    return models.filter((m) => m.capabilities.includes(capability));
   }
 
   async generateOutline(params: {
     type: DocumentType;
-    input: any;
+    // Validated against the document type's schema by the caller
+    input: unknown;
+    // Prompt set of a custom document type, used instead of the built-in prompts
+    prompts?: DocumentPrompts;
     userId?: string;
     documentId?: string;
     onProgress?: (progress: GenerationProgress) => void;
+    signal?: AbortSignal;
   }): Promise<any> {
     this.emitProgress(
       {
@@ -238,8 +243,10 @@ export class LLMService {
       params.onProgress,
     );
 
-    const prompt = this.buildOutlinePrompt(params.type, params.input);
-    const systemPrompt = this.getSystemPrompt(params.type);
+    const prompt = params.prompts
+      ? params.prompts.outline(params.input, this.providerName)
+      : this.buildOutlinePrompt(params.type, params.input);
+    const systemPrompt = this.getSystemPrompt(params.type, params.prompts);
 
     const startTime = Date.now();
     const response = await this.provider.generateCompletion({
@@ -248,21 +255,23 @@ export class LLMService {
       temperature: 0.7,
       systemPrompt,
       maxTokens: 2000,
+      signal: params.signal,
     });
     const duration = Date.now() - startTime;
 
+    const route = this.handleRoute(response.route);
+
     // Track LLM call if documentId provided
     if (params.documentId && params.userId) {
       await this.trackLLMCall({
         documentId: params.documentId,
-        provider: this.providerName,
-        model: this.model,
+        ...route,
         prompt: prompt.substring(0, 1000), // Store first 1000 chars
         response: response.content.substring(0, 1000),
         promptTokens: response.promptTokens,
         completionTokens: response.completionTokens,
         totalTokens: response.totalTokens,
-        cost: this.provider.estimateCost(response.totalTokens, this.model),
+        cost: await this.calculateCost(route, response),
         duration,
       });
     }
@@ -284,130 +293,282 @@ export class LLMService {
   }
 
   async generateSections(params: {
-    outline: any;
+    outline: GeneratedOutline;
     type: DocumentType;
-    input: any;
+    input: unknown;
+    prompts?: DocumentPrompts;
     userId?: string;
     documentId?: string;
     onProgress?: (progress: GenerationProgress) => void;
+    // Streams partial section text as it is written
+    onSectionContent?: (sectionId: string, content: string) => void;
+    // Knowledge-base chunks sections should cite inline
+    citationSources?: CitationSource[];
+    signal?: AbortSignal;
   }): Promise<Record<string, string>> {
-    const sections: Record<string, string> = {};
     const totalSections = Object.keys(params.outline).length;
+    const activeSections: string[] = [];
     let completedSections = 0;
 
-    for (const [sectionId, sectionOutline] of Object.entries(params.outline)) {
+    const reportSections = () => {
+      const message =
+        activeSections.length > 1
+          ? `Generating ${activeSections.length} sections: ${activeSections.join(", ")}`
+          : `Generating section: ${activeSections[0] ?? "..."}`;
+
       this.emitProgress(
         {
           stage: "sections",
           progress: 30 + (completedSections / totalSections) * 50,
-          message: `Generating section: ${sectionId}`,
-          currentSection: sectionId,
+          message,
+          currentSection: activeSections[activeSections.length - 1],
+          activeSections: [...activeSections],
         },
         params.onProgress,
       );
+    };
 
-      const prompt = this.buildSectionPrompt(
-        params.type,
-        sectionId,
-        sectionOutline,
-        params.input,
-      );
+    // Body sections are written concurrently; summaries, and sections whose
+    // outline entry declares `dependsOn`, wait for the sections they depend
+    // on and get them as context
+    return scheduleSections({
+      outline: params.outline,
+      signal: params.signal,
+      onStart: (sectionId) => {
+        activeSections.push(sectionId);
+        reportSections();
+      },
+      onComplete: (sectionId) => {
+        activeSections.splice(activeSections.indexOf(sectionId), 1);
+        completedSections++;
+        if (activeSections.length > 0) reportSections();
+      },
+      write: async ({ id: sectionId, details }, dependencies) => {
+        let prompt = params.prompts
+          ? params.prompts.section(
+              sectionId,
+              details,
+              params.outline,
+              params.input,
+              dependencies,
+            )
+          : this.buildSectionPrompt(
+              params.type,
+              sectionId,
+              details,
+              params.input,
+              dependencies,
+            );
+        if (params.citationSources?.length) {
+          prompt += `\n\n${buildCitationInstructions(params.citationSources)}`;
+        }
+
+        const request = {
+          prompt,
+          model: this.model,
+          temperature: 0.7,
+          maxTokens: 3000,
+          signal: params.signal,
+        };
+        const onSectionContent = params.onSectionContent;
+
+        const startTime = Date.now();
+        let written = "";
+        const response = onSectionContent
+          ? await this.provider.streamCompletion({
+              ...request,
+              onToken: (delta) => {
+                written += delta;
+                onSectionContent(sectionId, written);
+              },
+            })
+          : await this.provider.generateCompletion(request);
+        const duration = Date.now() - startTime;
+        const route = this.handleRoute(response.route);
+
+        // Track each section generation
+        if (params.documentId && params.userId) {
+          await this.trackLLMCall({
+            documentId: params.documentId,
+            ...route,
+            prompt: `Section: ${sectionId}`,
+            response: response.content.substring(0, 500),
+            promptTokens: response.promptTokens,
+            completionTokens: response.completionTokens,
+            totalTokens: response.totalTokens,
+            cost: await this.calculateCost(route, response),
+            duration,
+          });
+        }
+
+        // Keep only citation markers that point at a retrieved source
+        return normalizeCitationMarkers(
+          response.content,
+          params.citationSources ?? [],
+        );
+      },
+    });
+  }
 
-      const startTime = Date.now();
-      const response = await this.provider.generateCompletion({
-        prompt,
-        model: this.model,
-        temperature: 0.7,
-        maxTokens: 3000,
+  async regenerateSection(params: {
+    type: DocumentType;
+    // As stored on the document
+    outline: unknown;
+    sections: SectionData[];
+    sectionId: string;
+    input: unknown;
+    prompts?: DocumentPrompts;
+    instruction?: string;
+    citationSources?: CitationSource[];
+    userId?: string;
+    documentId?: string;
+  }): Promise<{
+    content: string;
+    wordCount: number;
+    tokenUsage: { prompt: number; completion: number; total: number };
+    cost: number;
+  }> {
+    const index = params.sections.findIndex((s) => s.id === params.sectionId);
+    const section = params.sections[index];
+    if (!section) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: `Section ${params.sectionId} not found`,
       });
-      const duration = Date.now() - startTime;
+    }
 
-      // Track each section generation
-      if (params.documentId && params.userId) {
-        await this.trackLLMCall({
-          documentId: params.documentId,
-          provider: this.providerName,
-          model: this.model,
-          prompt: `Section: ${sectionId}`,
-          response: response.content.substring(0, 500),
-          promptTokens: response.promptTokens,
-          completionTokens: response.completionTokens,
-          totalTokens: response.totalTokens,
-          cost: this.provider.estimateCost(response.totalTokens, this.model),
-          duration,
-        });
-      }
+    const toRecord = (list: SectionData[]) =>
+      Object.fromEntries(list.map((s) => [s.id, s.content ?? ""]));
+
+    const outline = isRecord(params.outline) ? params.outline : {};
+    // Outline chain outlines keep their sections under `sections`
+    const outlineSections = isRecord(outline.sections) ? outline.sections : outline;
+    const details = outlineSections[params.sectionId];
+    const sectionOutline = isRecord(details) ? details : {};
+    const currentWords = (section.content ?? "")
+      .split(/\s+/)
+      .filter((word) => word.length > 0).length;
+
+    const sectionChain = new SectionChain(
+      this.provider,
+      this.providerName,
+      this.model,
+    );
+
+    const startTime = Date.now();
+    const result = await sectionChain.generate({
+      outline,
+      previousSections: toRecord(params.sections.slice(0, index)),
+      followingSections: toRecord(params.sections.slice(index + 1)),
+      currentSection: params.sectionId,
+      sectionDetails: sectionOutline,
+      documentType: params.type,
+      prompts: params.prompts,
+      originalInput: params.input,
+      targetWords:
+        currentWords > 0
+          ? currentWords
+          : this.getSectionTargetWords(params.input, sectionOutline),
+      currentContent: section.content,
+      instruction: params.instruction,
+      citationSources: params.citationSources,
+    });
+    const duration = Date.now() - startTime;
 
-      sections[sectionId] = response.content;
-      completedSections++;
+    const route = this.handleRoute(result.tokenUsage.route);
+    const cost = await this.calculateCost(route, result.tokenUsage);
+
+    if (params.documentId && params.userId) {
+      await this.trackLLMCall({
+        documentId: params.documentId,
+        ...route,
+        prompt: `Regenerate section: ${params.sectionId}${
+          params.instruction ? ` (${params.instruction})` : ""
+        }`.substring(0, 1000),
+        response: result.content.substring(0, 500),
+        promptTokens: result.tokenUsage.promptTokens,
+        completionTokens: result.tokenUsage.completionTokens,
+        totalTokens: result.tokenUsage.totalTokens,
+        cost,
+        duration,
+      });
     }
 
-    return sections;
+    return {
+      content: result.content,
+      wordCount: result.wordCount,
+      tokenUsage: {
+        prompt: result.tokenUsage.promptTokens,
+        completion: result.tokenUsage.completionTokens,
+        total: result.tokenUsage.totalTokens,
+      },
+      cost,
+    };
   }
 
   async refineDocument(params: {
     sections: Record<string, string>;
     type: DocumentType;
     requirements: any;
+    prompts?: DocumentPrompts;
     userId?: string;
     documentId?: string;
-  }): Promise<{ content: string; metadata: any }> {
+    // Keep inline [n] citation markers intact while refining
+    preserveCitations?: boolean;
+    signal?: AbortSignal;
+  }): Promise<{ sections: Record<string, string>; content: string; metadata: any }> {
     this.emitProgress({
       stage: "refinement",
       progress: 85,
       message: "Refining and finalizing document...",
     });
 
-    const combinedContent = Object.entries(params.sections)
-      .map(([id, content]) => content)
-      .join("\n\n");
-
-    // Optional refinement for better flow
-    if (this.shouldRefine(params.type)) {
-      const refinementPrompt = this.buildRefinementPrompt(
-        params.type,
-        combinedContent,
-        params.requirements,
-      );
-
-      const response = await this.provider.generateCompletion({
-        prompt: refinementPrompt,
-        model: this.model,
-        temperature: 0.3,
-        maxTokens: 5000,
-      });
-
-      if (params.documentId && params.userId) {
-        await this.trackLLMCall({
-          documentId: params.documentId,
-          provider: this.providerName,
+    const sections = { ...params.sections };
+
+    // Optional refinement for better flow. Each section is refined on its
+    // own so the document keeps its per-section shape.
+    if (params.prompts || this.shouldRefine(params.type)) {
+      for (const [sectionId, sectionContent] of Object.entries(params.sections)) {
+        let refinementPrompt = params.prompts
+          ? params.prompts.refinement(sectionContent, params.requirements)
+          : this.buildRefinementPrompt(
+              params.type,
+              sectionContent,
+              params.requirements,
+            );
+        refinementPrompt +=
+          "\n\nThis is one section of a longer document. Return only the refined text of this section.";
+        if (params.preserveCitations) {
+          refinementPrompt +=
+            "\n\nThe section cites its sources with markers such as [1]. Keep every marker exactly as written and attached to the statement it supports.";
+        }
+
+        const response = await this.provider.generateCompletion({
+          prompt: refinementPrompt,
           model: this.model,
-          prompt: "Document refinement",
-          response: "Refined document",
-          promptTokens: response.promptTokens,
-          completionTokens: response.completionTokens,
-          totalTokens: response.totalTokens,
-          cost: this.provider.estimateCost(response.totalTokens, this.model),
-          duration: 0,
+          temperature: 0.3,
+          maxTokens: 5000,
+          signal: params.signal,
         });
-      }
 
-      this.emitProgress({
-        stage: "complete",
-        progress: 100,
-        message: "Document generation complete!",
-      });
-
-      return {
-        content: response.content,
-        metadata: {
-          wordCount: response.content.split(/\s+/).length,
-          sections: Object.keys(params.sections),
-          generatedAt: new Date(),
-          provider: this.providerName,
-          model: this.model,
-        },
-      };
+        const route = this.handleRoute(response.route);
+
+        if (params.documentId && params.userId) {
+          await this.trackLLMCall({
+            documentId: params.documentId,
+            ...route,
+            prompt: `Refinement: ${sectionId}`,
+            response: "Refined section",
+            promptTokens: response.promptTokens,
+            completionTokens: response.completionTokens,
+            totalTokens: response.totalTokens,
+            cost: await this.calculateCost(route, response),
+            duration: 0,
+          });
+        }
+
+        sections[sectionId] = response.content;
+      }
     }
 
     this.emitProgress({
@@ -416,11 +577,14 @@ export class LLMService {
       message: "Document generation complete!",
     });
 
+    const content = Object.values(sections).join("\n\n");
+
     return {
-      content: combinedContent,
+      sections,
+      content,
       metadata: {
-        wordCount: combinedContent.split(/\s+/).length,
-        sections: Object.keys(params.sections),
+        wordCount: content.split(/\s+/).length,
+        sections: Object.keys(sections),
         generatedAt: new Date(),
         provider: this.providerName,
         model: this.model,
@@ -428,26 +592,56 @@ export class LLMService {
     };
   }
 
+  // Single completion outside the document pipeline, e.g. grading a
+  // finished document. Not tracked against a document.
+  async complete(params: {
+    prompt: string;
+    systemPrompt?: string;
+    temperature?: number;
+    maxTokens?: number;
+    signal?: AbortSignal;
+  }): Promise<string> {
+    const response = await this.provider.generateCompletion({
+      ...params,
+      model: this.model,
+    });
+    return response.content;
+  }
+
+  // Readability, consistency and tone scores of finished content, used to
+  // compare prompt experiment variants
+  async assessQuality(
+    content: string,
+    tone = "professional",
+  ): Promise<RefinementResult["metadata"]> {
+    const chain = new RefinementChain(this.provider, this.providerName, this.model);
+    return chain.assess(content, tone);
+  }
+
   async generate(params: {
     type: DocumentType;
-    input: any;
+    input: unknown;
+    prompts?: DocumentPrompts;
     userId?: string;
     documentId?: string;
     onProgress?: (progress: GenerationProgress) => void;
+    citationSources?: CitationSource[];
   }): Promise<{
     documentId?: string;
     content: string;
-    outline: any;
+    outline: GeneratedOutline;
     sections: Record<string, string>;
     tokenUsage?: { prompt: number; completion: number; total: number };
     cost?: number;
   }> {
-    const { type, input, userId, documentId, onProgress } = params;
+    const { type, input, prompts, userId, documentId, onProgress, citationSources } =
+      params;
 
     // 1. Generate outline
     const outline = await this.generateOutline({
       type,
       input,
+      prompts,
       userId,
       documentId,
       onProgress,
@@ -458,26 +652,30 @@ export class LLMService {
       outline,
       type,
       input,
+      prompts,
       userId,
       documentId,
       onProgress,
+      citationSources,
     });
 
     // 3. Refine the document for better flow
-    const { content } = await this.refineDocument({
+    const refined = await this.refineDocument({
       sections,
       type,
-      requirements: input?.requirements || {},
+      requirements: (isRecord(input) && input.requirements) || {},
+      prompts,
       userId,
       documentId,
+      preserveCitations: !!citationSources?.length,
     });
 
     // NOTE: Detailed token usage / cost tracking is handled by provider-specific calls inside the previous methods.
     return {
       documentId,
-      content,
+      content: refined.content,
       outline,
-      sections,
+      sections: refined.sections,
     };
   }
 
@@ -500,7 +698,11 @@ export class LLMService {
     };
 
     const totalTokens = Object.values(breakdown).reduce((a, b) => a + b, 0);
-    const estimatedCost = this.provider.estimateCost(totalTokens, this.model);
+    const estimatedCost = await ModelCatalogService.estimateCost(
+      this.providerName,
+      this.model,
+      totalTokens,
+    );
 
     return {
       estimatedTokens: totalTokens,
@@ -512,7 +714,7 @@ export class LLMService {
   // Provider-specific features
   async generateWithSearch(query: string, options?: any) {
     if (this.providerName === "perplexity") {
-      const provider = this.provider as PerplexityProvider;
+      const provider = this.baseProvider as PerplexityProvider;
       return provider.generateWithSearch({
         prompt: query,
         ...options,
@@ -527,7 +729,7 @@ export class LLMService {
 
   async generateWithVision(prompt: string, images: any[], options?: any) {
     if (this.providerName === "anthropic") {
-      const provider = this.provider as AnthropicProvider;
+      const provider = this.baseProvider as AnthropicProvider;
       return provider.generateWithVision({
         prompt,
         images,
@@ -536,7 +738,7 @@ export class LLMService {
     }
 
     if (this.providerName === "gemini") {
-      const provider = this.provider as GeminiProvider;
+      const provider = this.baseProvider as GeminiProvider;
       return provider.generateWithVision({
         prompt,
         images,
@@ -550,10 +752,43 @@ export class LLMService {
     });
   }
 
+  private calculateCost(
+    route: CallRoute,
+    usage: { promptTokens: number; completionTokens: number },
+  ): Promise<number> {
+    return ModelCatalogService.calculateCost(route.provider, route.model, usage);
+  }
+
+  /**
+   * Route of one call, from the route FallbackProvider returned with its
+   * response. Tells progress listeners when calls move to another provider.
+   */
+  private handleRoute(served?: ProviderRoute): CallRoute {
+    if (!served || served.provider === this.providerName) {
+      this.fallbackNotice = undefined;
+      return { provider: this.providerName, model: served?.model ?? this.model };
+    }
+
+    const switched =
+      this.fallbackNotice?.provider !== served.provider ||
+      this.fallbackNotice.model !== served.model;
+    this.fallbackNotice = { from: this.providerName, ...served };
+
+    if (switched && this.lastProgress) {
+      this.emitProgress({
+        ...this.lastProgress,
+        message: `${this.providerName} is unavailable, continuing with ${served.provider}`,
+      });
+    }
+
+    return { ...served, fallbackProvider: this.providerName };
+  }
+
   private async trackLLMCall(data: {
     documentId: string;
     provider: string;
     model: string;
+    fallbackProvider?: string;
     prompt: string;
     response: string;
     promptTokens: number;
@@ -572,7 +807,14 @@ export class LLMService {
     }
   }
 
-  private getSystemPrompt(type: DocumentType): string {
+  private getSystemPrompt(type: DocumentType, promptSet?: DocumentPrompts): string {
+    if (promptSet) {
+      const systemPrompt =
+        promptSet.systemPrompts[this.providerName] ??
+        Object.values(promptSet.systemPrompts)[0];
+      if (systemPrompt) return systemPrompt;
+    }
+
     const prompts: Record<DocumentType, string> = {
       [DocumentType.BIOGRAPHY]:
         "You are an expert biographer who creates compelling, accurate, and well-researched biographical content.",
@@ -584,23 +826,43 @@ export class LLMService {
         "You are a medical documentation specialist who creates clear, accurate medical reports.",
       [DocumentType.GRANT_PROPOSAL]:
         "You are a grant writing expert who creates compelling, well-structured grant proposals.",
+      [DocumentType.CUSTOM]: "You are an expert document writer.",
     };
 
     return prompts[type] || "You are an expert document writer.";
   }
 
+  private getSectionTargetWords(
+    input: unknown,
+    sectionOutline: SectionOutline,
+  ): number {
+    const estimated =
+      sectionOutline.estimatedWords ?? sectionOutline.estimated_words;
+    if (typeof estimated === "number" && estimated > 0) return estimated;
+
+    const lengths: Record<string, number> = {
+      short: 200,
+      medium: 400,
+      long: 800,
+    };
+    const outputLength = isRecord(input) ? input.outputLength : undefined;
+    return (typeof outputLength === "string" && lengths[outputLength]) || 400;
+  }
+
   private shouldRefine(type: DocumentType): boolean {
-    // Some document types benefit more from refinement
-    return [
+    // Some document types benefit more from refinement. Custom types refine
+    // through their own refinement prompt instead.
+    const refinedTypes: DocumentType[] = [
       DocumentType.BUSINESS_PLAN,
       DocumentType.GRANT_PROPOSAL,
       DocumentType.CASE_SUMMARY,
       DocumentType.MEDICAL_REPORT,
       DocumentType.BIOGRAPHY,
-    ].includes(type);
+    ];
+    return refinedTypes.includes(type);
   }
 
-  private buildOutlinePrompt(type: DocumentType, input: any): string {
+  private buildOutlinePrompt(type: DocumentType, input: unknown): string {
     // Import specific prompt builders based on document type
     const basePrompt = `Generate a detailed outline for a ${type} document with the following requirements:\n\n`;
     const inputJson = JSON.stringify(input, null, 2);
@@ -615,10 +877,18 @@ export class LLMService {
   private buildSectionPrompt(
     type: DocumentType,
     sectionId: string,
-    sectionOutline: any,
-    originalInput: any,
+    sectionOutline: SectionOutline,
+    originalInput: unknown,
+    previousSections: Record<string, string> = {},
   ): string {
-    return `Write the "${sectionId}" section based on this outline:\n${JSON.stringify(sectionOutline, null, 2)}\n\nOriginal requirements:\n${JSON.stringify(originalInput, null, 2)}\n\nWrite in a professional, engaging style appropriate for a ${type} document.`;
+    let prompt = `Write the "${sectionId}" section based on this outline:\n${JSON.stringify(sectionOutline, null, 2)}\n\nOriginal requirements:\n${JSON.stringify(originalInput, null, 2)}\n\nWrite in a professional, engaging style appropriate for a ${type} document.`;
+
+    // Finished sections this one builds on, to keep the document coherent
+    if (Object.keys(previousSections).length > 0) {
+      prompt += `\n\nPrevious sections summary for context:\n${summarizeSections(previousSections)}`;
+    }
+
+    return prompt;
   }
 
   private buildRefinementPrompt(
@@ -651,6 +921,9 @@ export class LLMService {
     progress: GenerationProgress,
     callback?: (progress: GenerationProgress) => void,
   ) {
+    progress = { ...progress, fallback: this.fallbackNotice };
+    this.lastProgress = progress;
+
     if (callback) {
       callback(progress);
     }
@@ -661,3 +934,7 @@ export class LLMService {
     this.progressEmitter.on("progress", callback);
   }
 }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,353 @@
+// src/server/services/llm/model-catalog.ts
+import type { ProviderName } from "./index";
+
+// Model ids, limits and prices live in the ModelCatalog table so admins can
+// update them without a deploy. Every cost estimate in the app goes through
+// this service. The Prisma client is imported lazily (see llm/index.ts).
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  provider: ProviderName;
+  contextWindow: number;
+  maxOutput: number;
+  costPer1kTokens: { input: number; output: number };
+  capabilities: string[];
+  recommended: boolean;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Seed data, inserted the first time the catalog is read while empty
+export const DEFAULT_MODEL_CATALOG: ModelInfo[] = [
+  // OpenAI
+  {
+    id: "gpt-4-turbo",
+    name: "GPT-4 Turbo",
+    provider: "openai",
+    contextWindow: 128000,
+    maxOutput: 4096,
+    costPer1kTokens: { input: 0.01, output: 0.03 },
+    capabilities: ["chat", "code", "vision", "function-calling"],
+    recommended: true,
+  },
+  {
+    id: "gpt-4",
+    name: "GPT-4",
+    provider: "openai",
+    contextWindow: 8192,
+    maxOutput: 4096,
+    costPer1kTokens: { input: 0.03, output: 0.06 },
+    capabilities: ["chat", "code", "function-calling"],
+    recommended: false,
+  },
+  {
+    id: "gpt-3.5-turbo",
+    name: "GPT-3.5 Turbo",
+    provider: "openai",
+    contextWindow: 16385,
+    maxOutput: 4096,
+    costPer1kTokens: { input: 0.001, output: 0.002 },
+    capabilities: ["chat", "code", "function-calling"],
+    recommended: true,
+  },
+
+  // Anthropic
+  {
+    id: "claude-3-opus",
+    name: "Claude 3 Opus",
+    provider: "anthropic",
+    contextWindow: 200000,
+    maxOutput: 4096,
+    costPer1kTokens: { input: 0.015, output: 0.075 },
+    capabilities: ["chat", "code", "vision", "long-context"],
+    recommended: true,
+  },
+  {
+    id: "claude-3-sonnet",
+    name: "Claude 3 Sonnet",
+    provider: "anthropic",
+    contextWindow: 200000,
+    maxOutput: 4096,
+    costPer1kTokens: { input: 0.003, output: 0.015 },
+    capabilities: ["chat", "code", "vision", "long-context"],
+    recommended: true,
+  },
+  {
+    id: "claude-3-haiku",
+    name: "Claude 3 Haiku",
+    provider: "anthropic",
+    contextWindow: 200000,
+    maxOutput: 4096,
+    costPer1kTokens: { input: 0.00025, output: 0.00125 },
+    capabilities: ["chat", "code", "fast"],
+    recommended: false,
+  },
+
+  // Gemini
+  {
+    id: "gemini-1.5-pro",
+    name: "Gemini 1.5 Pro",
+    provider: "gemini",
+    contextWindow: 1000000,
+    maxOutput: 8192,
+    costPer1kTokens: { input: 0.0035, output: 0.0105 },
+    capabilities: ["chat", "code", "vision", "ultra-long-context"],
+    recommended: true,
+  },
+  {
+    id: "gemini-1.5-flash",
+    name: "Gemini 1.5 Flash",
+    provider: "gemini",
+    contextWindow: 1000000,
+    maxOutput: 8192,
+    costPer1kTokens: { input: 0.00035, output: 0.00105 },
+    capabilities: ["chat", "code", "vision", "fast", "ultra-long-context"],
+    recommended: true,
+  },
+
+  // Perplexity
+  {
+    id: "sonar-large",
+    name: "Perplexity Sonar Large",
+    provider: "perplexity",
+    contextWindow: 32000,
+    maxOutput: 4096,
+    costPer1kTokens: { input: 0.001, output: 0.001 },
+    capabilities: ["chat", "search", "citations", "real-time"],
+    recommended: true,
+  },
+
+  // Llama
+  {
+    id: "llama-3-70b",
+    name: "Llama 3 70B",
+    provider: "llama",
+    contextWindow: 8192,
+    maxOutput: 4096,
+    costPer1kTokens: { input: 0.0009, output: 0.0009 },
+    capabilities: ["chat", "code", "open-source"],
+    recommended: true,
+  },
+  {
+    id: "codellama-34b",
+    name: "Code Llama 34B",
+    provider: "llama",
+    contextWindow: 16384,
+    maxOutput: 4096,
+    costPer1kTokens: { input: 0.0005, output: 0.0005 },
+    capabilities: ["code", "open-source"],
+    recommended: false,
+  },
+];
+
+// The worker runs in its own process, so admin edits reach it on expiry
+const CACHE_TTL_MS = 60 * 1000;
+
+// Share of an estimated token total that is prompt rather than completion
+const ESTIMATED_INPUT_SHARE = 0.3;
+
+interface ModelCatalogRow {
+  provider: string;
+  modelId: string;
+  name: string;
+  contextWindow: number;
+  maxOutput: number;
+  inputCostPer1k: number;
+  outputCostPer1k: number;
+  capabilities: string[];
+  recommended: boolean;
+}
+
+let cache: { models: ModelInfo[]; expiresAt: number } | null = null;
+const warnedUnknownModels = new Set<string>();
+
+export class ModelCatalogService {
+  /**
+   * Enabled models, optionally for a single provider
+   */
+  static async list(provider?: ProviderName): Promise<ModelInfo[]> {
+    const models = await ModelCatalogService.load();
+    return provider ? models.filter((m) => m.provider === provider) : models;
+  }
+
+  static async find(
+    provider: ProviderName,
+    modelId: string,
+  ): Promise<ModelInfo | undefined> {
+    const models = await ModelCatalogService.list(provider);
+    return models.find((m) => m.id === modelId);
+  }
+
+  /**
+   * The model of another provider in the same price tier as `modelId`, for
+   * calls that fall back to that provider. Tiers follow the catalog prices,
+   * so repricing a model moves it between tiers without further config.
+   */
+  static async findEquivalent(
+    provider: ProviderName,
+    modelId: string,
+    targetProvider: ProviderName,
+  ): Promise<string | undefined> {
+    const candidates = await ModelCatalogService.list(targetProvider);
+    if (candidates.length === 0) return undefined;
+
+    const source = await ModelCatalogService.find(provider, modelId);
+    if (!source) {
+      return (candidates.find((m) => m.recommended) ?? candidates[0])?.id;
+    }
+
+    // Compare price ratios, so cheap tiers are told apart as well as dear ones
+    const price = (model: ModelInfo) =>
+      model.costPer1kTokens.input + model.costPer1kTokens.output + 1e-6;
+    const distance = (model: ModelInfo) =>
+      Math.abs(Math.log(price(model) / price(source)));
+
+    return candidates.reduce((best, model) =>
+      distance(model) < distance(best) ? model : best,
+    ).id;
+  }
+
+  /**
+   * Cost in USD of a completed call
+   */
+  static async calculateCost(
+    provider: ProviderName,
+    modelId: string,
+    usage: TokenUsage,
+  ): Promise<number> {
+    const pricing = await ModelCatalogService.getPricing(provider, modelId);
+
+    return (
+      (usage.promptTokens * pricing.input +
+        usage.completionTokens * pricing.output) /
+      1000
+    );
+  }
+
+  /**
+   * Cost in USD for an estimated token total, before the split between
+   * prompt and completion is known
+   */
+  static async estimateCost(
+    provider: ProviderName,
+    modelId: string,
+    totalTokens: number,
+  ): Promise<number> {
+    const promptTokens = Math.round(totalTokens * ESTIMATED_INPUT_SHARE);
+
+    return ModelCatalogService.calculateCost(provider, modelId, {
+      promptTokens,
+      completionTokens: totalTokens - promptTokens,
+    });
+  }
+
+  /**
+   * Insert any default models that are missing. Existing rows, including
+   * edited prices and disabled models, are left untouched.
+   */
+  static async seedDefaults(): Promise<number> {
+    const { db } = await import("~/server/db");
+
+    const result = await db.modelCatalog.createMany({
+      data: DEFAULT_MODEL_CATALOG.map((model) => ({
+        provider: model.provider,
+        modelId: model.id,
+        name: model.name,
+        contextWindow: model.contextWindow,
+        maxOutput: model.maxOutput,
+        inputCostPer1k: model.costPer1kTokens.input,
+        outputCostPer1k: model.costPer1kTokens.output,
+        capabilities: model.capabilities,
+        recommended: model.recommended,
+      })),
+      skipDuplicates: true,
+    });
+
+    ModelCatalogService.invalidate();
+    return result.count;
+  }
+
+  /**
+   * Drop the cached catalog after an admin change
+   */
+  static invalidate(): void {
+    cache = null;
+  }
+
+  private static async getPricing(
+    provider: ProviderName,
+    modelId: string,
+  ): Promise<ModelInfo["costPer1kTokens"]> {
+    // Self-hosted and mock models are never billed
+    if (provider === "local" || provider === "mock") {
+      return { input: 0, output: 0 };
+    }
+
+    const models = await ModelCatalogService.list(provider);
+    const model = models.find((m) => m.id === modelId);
+    if (model) return model.costPer1kTokens;
+
+    // Unknown model: over- rather than under-estimate against cost limits
+    const key = `${provider}:${modelId}`;
+    if (!warnedUnknownModels.has(key)) {
+      warnedUnknownModels.add(key);
+      console.warn(
+        `Model ${key} is not in the model catalog, using the provider's highest price`,
+      );
+    }
+
+    return models.reduce(
+      (max, m) => ({
+        input: Math.max(max.input, m.costPer1kTokens.input),
+        output: Math.max(max.output, m.costPer1kTokens.output),
+      }),
+      { input: 0, output: 0 },
+    );
+  }
+
+  private static async load(): Promise<ModelInfo[]> {
+    if (cache && cache.expiresAt > Date.now()) return cache.models;
+
+    try {
+      const { db } = await import("~/server/db");
+
+      let rows: ModelCatalogRow[] = await db.modelCatalog.findMany({
+        where: { enabled: true },
+        orderBy: [{ provider: "asc" }, { name: "asc" }],
+      });
+
+      if (rows.length === 0 && (await db.modelCatalog.count()) === 0) {
+        await ModelCatalogService.seedDefaults();
+        rows = await db.modelCatalog.findMany({
+          where: { enabled: true },
+          orderBy: [{ provider: "asc" }, { name: "asc" }],
+        });
+      }
+
+      const models = rows.map(toModelInfo);
+      cache = { models, expiresAt: Date.now() + CACHE_TTL_MS };
+      return models;
+    } catch (error) {
+      // Keep estimating with the seed prices rather than failing generation
+      console.error("Failed to load model catalog, using defaults", error);
+      return DEFAULT_MODEL_CATALOG;
+    }
+  }
+}
+
+function toModelInfo(row: ModelCatalogRow): ModelInfo {
+  return {
+    id: row.modelId,
+    name: row.name,
+    provider: row.provider as ProviderName,
+    contextWindow: row.contextWindow,
+    maxOutput: row.maxOutput,
+    costPer1kTokens: { input: row.inputCostPer1k, output: row.outputCostPer1k },
+    capabilities: row.capabilities,
+    recommended: row.recommended,
+  };
+}
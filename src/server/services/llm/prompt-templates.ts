@@ -0,0 +1,283 @@
+// src/server/services/llm/prompt-templates.ts
+import type { DocumentType, PromptExperiment, PromptStage } from "@prisma/client";
+import { DOCUMENT_PROMPTS, type DocumentPrompts } from "./prompts";
+import { renderPromptTemplate } from "./prompts/template";
+
+// Stored templates override DOCUMENT_PROMPTS per document type and stage. A
+// running experiment for a stage takes precedence over the active version.
+// Each document is assigned a variant once, so retries and resumed
+// generations keep their prompts. The Prisma client is imported lazily (see
+// llm/index.ts).
+
+type StageTemplates = Partial<Record<PromptStage, string>>;
+
+export interface VariantResult {
+  variant: "A" | "B";
+  documents: number;
+  completed: number;
+  scored: number;
+  avgQualityScore: number | null;
+  avgCost: number | null;
+  rated: number;
+  avgRating: number | null;
+}
+
+export class PromptTemplateService {
+  /**
+   * Prompts for a document with active templates and experiment variants
+   * applied, or undefined when it uses the built-in prompts unchanged
+   */
+  static async resolveForDocument(
+    documentId: string,
+  ): Promise<DocumentPrompts | undefined> {
+    const { db } = await import("~/server/db");
+
+    const document = await db.document.findUnique({
+      where: { id: documentId },
+      select: { type: true },
+    });
+    // CUSTOM documents have no built-in prompts to override
+    const base = document ? DOCUMENT_PROMPTS[document.type] : undefined;
+    if (!document || !base) return undefined;
+
+    const [activeTemplates, experiments] = await Promise.all([
+      db.promptTemplate.findMany({
+        where: { documentType: document.type, active: true },
+      }),
+      db.promptExperiment.findMany({
+        where: { documentType: document.type, status: "RUNNING" },
+      }),
+    ]);
+
+    const templates: StageTemplates = {};
+    const activeIds: Partial<Record<PromptStage, string>> = {};
+    for (const template of activeTemplates) {
+      templates[template.stage as PromptStage] = template.template;
+      activeIds[template.stage as PromptStage] = template.id;
+    }
+
+    for (const experiment of experiments) {
+      const stage = experiment.stage as PromptStage;
+      const assignment = await PromptTemplateService.assign(
+        experiment,
+        documentId,
+        activeIds[stage],
+      );
+
+      if (assignment.template) {
+        templates[stage] = assignment.template.template;
+      } else {
+        // Variant A when there was no active version: the built-in prompt
+        delete templates[stage];
+      }
+    }
+
+    if (Object.keys(templates).length === 0) return undefined;
+    return applyTemplates(base, templates);
+  }
+
+  /**
+   * Prompts for a document type with its active templates applied, ignoring
+   * experiments, and the version used for each overridden stage. Evaluation
+   * runs use this to measure what new generations currently get.
+   */
+  static async resolveActive(documentType: DocumentType): Promise<{
+    prompts: DocumentPrompts | undefined;
+    versions: Partial<Record<PromptStage, number>>;
+  }> {
+    const { db } = await import("~/server/db");
+
+    const base = DOCUMENT_PROMPTS[documentType];
+    if (!base) return { prompts: undefined, versions: {} };
+
+    const activeTemplates = await db.promptTemplate.findMany({
+      where: { documentType, active: true },
+    });
+
+    const templates: StageTemplates = {};
+    const versions: Partial<Record<PromptStage, number>> = {};
+    for (const template of activeTemplates) {
+      templates[template.stage as PromptStage] = template.template;
+      versions[template.stage as PromptStage] = template.version;
+    }
+
+    return {
+      prompts:
+        Object.keys(templates).length > 0
+          ? applyTemplates(base, templates)
+          : undefined,
+      versions,
+    };
+  }
+
+  /**
+   * Store the per-section quality scores of a finished document that is
+   * part of an experiment, with their mean as the document's score. Scoring
+   * costs extra LLM calls, so other documents are skipped, and a failure
+   * never fails the generation.
+   */
+  static async recordQuality(
+    documentId: string,
+    score: () => Promise<Record<string, number>>,
+  ): Promise<void> {
+    try {
+      const { db } = await import("~/server/db");
+
+      const assignments = await db.promptExperimentAssignment.count({
+        where: { documentId },
+      });
+      if (assignments === 0) return;
+
+      const sectionScores = await score();
+      await db.promptExperimentAssignment.updateMany({
+        where: { documentId },
+        data: {
+          qualityScore: average(Object.values(sectionScores)),
+          sectionScores,
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to score document ${documentId} for prompt experiments`, error);
+    }
+  }
+
+  /**
+   * Per-variant outcomes of an experiment. Scores, costs and ratings only
+   * count completed documents.
+   */
+  static async getResults(experimentId: string): Promise<VariantResult[]> {
+    const { db } = await import("~/server/db");
+
+    const assignments = await db.promptExperimentAssignment.findMany({
+      where: { experimentId },
+      select: {
+        variant: true,
+        documentId: true,
+        qualityScore: true,
+        document: { select: { status: true, rating: true } },
+      },
+    });
+
+    const costs = await db.lLMCall.groupBy({
+      by: ["documentId"],
+      where: { documentId: { in: assignments.map((a) => a.documentId) } },
+      _sum: { cost: true },
+    });
+    const costByDocument = new Map(
+      costs.map((row) => [row.documentId, row._sum.cost ?? 0]),
+    );
+
+    return (["A", "B"] as const).map((variant) => {
+      const rows = assignments.filter((a) => a.variant === variant);
+      const completed = rows.filter((a) => a.document.status === "COMPLETED");
+      const scores = completed
+        .map((a) => a.qualityScore)
+        .filter((score): score is number => score !== null);
+      const ratings = completed
+        .map((a) => a.document.rating)
+        .filter((rating): rating is number => rating !== null);
+
+      return {
+        variant,
+        documents: rows.length,
+        completed: completed.length,
+        scored: scores.length,
+        avgQualityScore: average(scores),
+        avgCost: average(
+          completed.map((a) => costByDocument.get(a.documentId) ?? 0),
+        ),
+        rated: ratings.length,
+        avgRating: average(ratings),
+      };
+    });
+  }
+
+  /**
+   * Next version number for a document type and stage
+   */
+  static async nextVersion(
+    documentType: DocumentType,
+    stage: PromptStage,
+  ): Promise<number> {
+    const { db } = await import("~/server/db");
+
+    const latest = await db.promptTemplate.findFirst({
+      where: { documentType, stage },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    return (latest?.version ?? 0) + 1;
+  }
+
+  private static async assign(
+    experiment: PromptExperiment,
+    documentId: string,
+    activeTemplateId: string | undefined,
+  ) {
+    const { db } = await import("~/server/db");
+
+    const variant = Math.random() < experiment.trafficSplit ? "B" : "A";
+    const templateId =
+      variant === "B"
+        ? experiment.variantBId
+        : (experiment.variantAId ?? activeTemplateId ?? null);
+
+    // Keeps the existing assignment on retries
+    return db.promptExperimentAssignment.upsert({
+      where: {
+        experimentId_documentId: { experimentId: experiment.id, documentId },
+      },
+      update: {},
+      create: { experimentId: experiment.id, documentId, variant, templateId },
+      include: { template: { select: { template: true } } },
+    });
+  }
+}
+
+function applyTemplates(
+  base: DocumentPrompts,
+  templates: StageTemplates,
+): DocumentPrompts {
+  const { SYSTEM, OUTLINE, SECTION, REFINEMENT } = templates;
+
+  const inputValues = (input: unknown) => ({
+    ...(input && typeof input === "object" ? (input as Record<string, unknown>) : {}),
+    input,
+  });
+
+  return {
+    ...base,
+    systemPrompts: SYSTEM !== undefined ? { default: SYSTEM } : base.systemPrompts,
+
+    outline:
+      OUTLINE !== undefined
+        ? (input, provider) =>
+            renderPromptTemplate(OUTLINE, { ...inputValues(input), provider })
+        : base.outline,
+
+    section:
+      SECTION !== undefined
+        ? (sectionId, sectionOutline, fullOutline, originalInput, previousSections) =>
+            renderPromptTemplate(SECTION, {
+              ...inputValues(originalInput),
+              sectionId,
+              sectionTitle: sectionOutline?.title ?? sectionId,
+              sectionOutline,
+              outline: fullOutline,
+              previousSections,
+            })
+        : base.section,
+
+    refinement:
+      REFINEMENT !== undefined
+        ? (content, input) =>
+            renderPromptTemplate(REFINEMENT, { ...inputValues(input), content })
+        : base.refinement,
+  };
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
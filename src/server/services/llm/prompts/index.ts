@@ -45,8 +45,9 @@ type DocumentPrompts = {
   generateWithProvider?: Record<string, (input: any) => string>;
 };
 
-// Export document prompts with proper typing
-export const DOCUMENT_PROMPTS: Record<DocumentType, DocumentPrompts> = {
+// Export document prompts with proper typing. CUSTOM documents build theirs
+// from the CustomDocumentType (see services/document/custom-types.ts)
+export const DOCUMENT_PROMPTS: Partial<Record<DocumentType, DocumentPrompts>> = {
   [DocumentType.BIOGRAPHY]: biographyPrompts,
   [DocumentType.CASE_SUMMARY]: caseSummaryPrompts,
   [DocumentType.BUSINESS_PLAN]: businessPlanPrompts,
@@ -54,8 +55,11 @@ export const DOCUMENT_PROMPTS: Record<DocumentType, DocumentPrompts> = {
   [DocumentType.MEDICAL_REPORT]: medicalReportPrompts,
 };
 
+// Alias used by the outline/section/refinement chains
+export const documentPrompts = DOCUMENT_PROMPTS;
+
 // Export document settings with proper typing
-export const DOCUMENT_SETTINGS: Record<DocumentType, DocumentSettings> = {
+export const DOCUMENT_SETTINGS: Partial<Record<DocumentType, DocumentSettings>> = {
   [DocumentType.BIOGRAPHY]: {
     openai: { model: 'gpt-4-turbo', temperature: 0.8, maxTokens: 4000 },
     anthropic: { model: 'claude-3-opus', temperature: 0.8, maxTokens: 4000 },
@@ -0,0 +1,29 @@
+// src/server/services/llm/prompts/template.ts
+
+// Stored prompts (custom document types and prompt template versions) use
+// {{placeholder}} syntax. A placeholder names a value by key, with dot paths
+// reaching nested values; unknown placeholders render as empty strings.
+
+export function renderPromptTemplate(template: string, values: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) =>
+    formatValue(
+      path.split('.').reduce<unknown>(
+        (value, key) =>
+          value && typeof value === 'object'
+            ? (value as Record<string, unknown>)[key]
+            : undefined,
+        values
+      )
+    )
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value.join(', ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value as number | boolean);
+}
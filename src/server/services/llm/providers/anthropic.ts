@@ -4,6 +4,7 @@ import type {
   LLMProvider,
   CompletionParams,
   CompletionResponse,
+  StreamCompletionParams,
 } from "../base";
 import { env } from "~/env";
 import { TRPCError } from "@trpc/server";
@@ -30,36 +31,26 @@ export class AnthropicProvider implements LLMProvider {
     params: CompletionParams,
   ): Promise<CompletionResponse> {
     try {
-      // Map model names to Anthropic's naming convention
-      const modelMap: Record<string, string> = {
-        "claude-3-opus": "claude-3-opus-20240229",
-        "claude-3-sonnet": "claude-3-sonnet-20240229",
-        "claude-3-haiku": "claude-3-haiku-20240307",
-        "claude-2.1": "claude-2.1",
-        "claude-2": "claude-2.0",
-        "claude-instant": "claude-instant-1.2",
-      };
-
-      const model =
-        modelMap[params.model] || params.model || "claude-3-sonnet-20240229";
+      const model = this.resolveModel(params.model);
 
       // Anthropic uses a different message format
-      const systemMessage =
-        params.systemPrompt ||
-        "You are a helpful AI assistant specialized in document generation.";
-
-      const response = await this.client.messages.create({
-        model,
-        system: systemMessage,
-        messages: [
-          {
-            role: "user",
-            content: params.prompt,
-          },
-        ],
-        temperature: params.temperature ?? 0.7,
-        max_tokens: params.maxTokens || 4000,
-      });
+      const systemMessage = this.getSystemMessage(params);
+
+      const response = await this.client.messages.create(
+        {
+          model,
+          system: systemMessage,
+          messages: [
+            {
+              role: "user",
+              content: params.prompt,
+            },
+          ],
+          temperature: params.temperature ?? 0.7,
+          max_tokens: params.maxTokens || 4000,
+        },
+        { signal: params.signal },
+      );
 
       // Extract text content from response
       const content = response.content
@@ -80,58 +71,110 @@ export class AnthropicProvider implements LLMProvider {
         model: response.model,
       };
     } catch (error: any) {
-      if (error.status === 429) {
-        throw new TRPCError({
-          code: "TOO_MANY_REQUESTS",
-          message: "Rate limit exceeded. Please try again later.",
-        });
-      }
-
-      if (error.status === 401) {
-        throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "Invalid Anthropic API key",
-        });
-      }
-
-      throw new TRPCError({
-        code: "INTERNAL_SERVER_ERROR",
-        message: `Anthropic API error: ${error.message}`,
-      });
+      throw this.toTRPCError(error);
     }
   }
 
-  countTokens(text: string): number {
-    // Anthropic's Claude models use a similar tokenization to GPT models
-    // More accurate would be to use their tokenizer, but this is a good approximation
-    // Claude typically uses ~3.5 characters per token
-    return Math.ceil(text.length / 3.5);
+  async streamCompletion(
+    params: StreamCompletionParams,
+  ): Promise<CompletionResponse> {
+    try {
+      const model = this.resolveModel(params.model);
+      const systemMessage = this.getSystemMessage(params);
+
+      const stream = this.client.messages.stream(
+        {
+          model,
+          system: systemMessage,
+          messages: [
+            {
+              role: "user",
+              content: params.prompt,
+            },
+          ],
+          temperature: params.temperature ?? 0.7,
+          max_tokens: params.maxTokens || 4000,
+        },
+        { signal: params.signal },
+      );
+
+      stream.on("text", (delta) => params.onToken(delta));
+
+      const message = await stream.finalMessage();
+      const content = message.content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text)
+        .join("\n");
+
+      const promptTokens =
+        message.usage?.input_tokens ||
+        this.countTokens(systemMessage + params.prompt);
+      const completionTokens =
+        message.usage?.output_tokens || this.countTokens(content);
+
+      return {
+        content,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        model: message.model,
+      };
+    } catch (error: any) {
+      throw this.toTRPCError(error);
+    }
   }
 
-  estimateCost(tokens: number, model: string): number {
-    // Pricing as of 2024 (per million tokens)
-    const pricing: Record<string, { input: number; output: number }> = {
-      "claude-3-opus-20240229": { input: 15.0, output: 75.0 },
-      "claude-3-sonnet-20240229": { input: 3.0, output: 15.0 },
-      "claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
-      "claude-2.1": { input: 8.0, output: 24.0 },
-      "claude-2.0": { input: 8.0, output: 24.0 },
-      "claude-instant-1.2": { input: 0.8, output: 2.4 },
+  private resolveModel(model: string): string {
+    // Map model names to Anthropic's naming convention
+    const modelMap: Record<string, string> = {
+      "claude-3-opus": "claude-3-opus-20240229",
+      "claude-3-sonnet": "claude-3-sonnet-20240229",
+      "claude-3-haiku": "claude-3-haiku-20240307",
+      "claude-2.1": "claude-2.1",
+      "claude-2": "claude-2.0",
+      "claude-instant": "claude-instant-1.2",
     };
 
-    const modelPricing = pricing[model] || pricing["claude-3-sonnet-20240229"];
-
-    // Assume 60/40 split between input/output tokens
-    const inputTokens = tokens * 0.6;
-    const outputTokens = tokens * 0.4;
+    return modelMap[model] || model || "claude-3-sonnet-20240229";
+  }
 
-    // Convert from per million to actual cost
+  private getSystemMessage(params: CompletionParams): string {
     return (
-      (inputTokens * modelPricing.input + outputTokens * modelPricing.output) /
-      1_000_000
+      params.systemPrompt ||
+      "You are a helpful AI assistant specialized in document generation."
     );
   }
 
+  private toTRPCError(error: any): TRPCError {
+    if (error instanceof TRPCError) return error;
+
+    if (error.status === 429) {
+      return new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: "Rate limit exceeded. Please try again later.",
+      });
+    }
+
+    if (error.status === 401) {
+      return new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "Invalid Anthropic API key",
+      });
+    }
+
+    return new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Anthropic API error: ${error.message}`,
+    });
+  }
+
+  countTokens(text: string): number {
+    // Anthropic's Claude models use a similar tokenization to GPT models
+    // More accurate would be to use their tokenizer, but this is a good approximation
+    // Claude typically uses ~3.5 characters per token
+    return Math.ceil(text.length / 3.5);
+  }
+
   // Anthropic-specific features
   async generateWithVision(params: {
     prompt: string;
@@ -8,6 +8,7 @@ import type {
   LLMProvider,
   CompletionParams,
   CompletionResponse,
+  StreamCompletionParams,
 } from "../base";
 import { env } from "~/env";
 import { TRPCError } from "@trpc/server";
@@ -32,51 +33,12 @@ export class GeminiProvider implements LLMProvider {
     params: CompletionParams,
   ): Promise<CompletionResponse> {
     try {
-      // Map model names to Gemini's naming convention
-      const modelMap: Record<string, string> = {
-        "gemini-pro": "gemini-pro",
-        "gemini-pro-vision": "gemini-pro-vision",
-        "gemini-1.5-pro": "gemini-1.5-pro-latest",
-        "gemini-1.5-flash": "gemini-1.5-flash-latest",
-        "gemini-ultra": "gemini-ultra",
-      };
+      const { model, modelName } = this.getModel(params);
+      const fullPrompt = this.buildFullPrompt(params);
 
-      const modelName =
-        modelMap[params.model] || params.model || "gemini-1.5-pro-latest";
-      const model = this.client.getGenerativeModel({
-        model: modelName,
-        generationConfig: {
-          temperature: params.temperature ?? 0.7,
-          maxOutputTokens: params.maxTokens || 4000,
-          topP: 0.95,
-          topK: 40,
-        },
-        safetySettings: [
-          {
-            category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-            threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH,
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-            threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH,
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-            threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH,
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-            threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH,
-          },
-        ],
+      const result = await model.generateContent(fullPrompt, {
+        signal: params.signal,
       });
-
-      // Combine system prompt and user prompt
-      const fullPrompt = params.systemPrompt
-        ? `${params.systemPrompt}\n\n${params.prompt}`
-        : params.prompt;
-
-      const result = await model.generateContent(fullPrompt);
       const response = await result.response;
       const content = response.text();
 
@@ -93,61 +55,135 @@ export class GeminiProvider implements LLMProvider {
         model: modelName,
       };
     } catch (error: any) {
-      if (error.message?.includes("quota")) {
-        throw new TRPCError({
-          code: "TOO_MANY_REQUESTS",
-          message: "API quota exceeded. Please try again later.",
-        });
-      }
+      throw this.toTRPCError(error);
+    }
+  }
 
-      if (error.message?.includes("API key")) {
-        throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "Invalid Gemini API key",
-        });
-      }
+  async streamCompletion(
+    params: StreamCompletionParams,
+  ): Promise<CompletionResponse> {
+    try {
+      const { model, modelName } = this.getModel(params);
+      const fullPrompt = this.buildFullPrompt(params);
 
-      if (error.message?.includes("safety")) {
-        throw new TRPCError({
-          code: "BAD_REQUEST",
-          message:
-            "Content was blocked by safety filters. Please modify your request.",
-        });
+      const result = await model.generateContentStream(fullPrompt, {
+        signal: params.signal,
+      });
+
+      let content = "";
+      for await (const chunk of result.stream) {
+        const delta = chunk.text();
+        if (delta) {
+          content += delta;
+          params.onToken(delta);
+        }
       }
 
-      throw new TRPCError({
-        code: "INTERNAL_SERVER_ERROR",
-        message: `Gemini API error: ${error.message}`,
-      });
+      const response = await result.response;
+      const promptTokens =
+        response.usageMetadata?.promptTokenCount ??
+        this.countTokens(fullPrompt);
+      const completionTokens =
+        response.usageMetadata?.candidatesTokenCount ??
+        this.countTokens(content);
+
+      return {
+        content,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        model: modelName,
+      };
+    } catch (error: any) {
+      throw this.toTRPCError(error);
     }
   }
 
-  countTokens(text: string): number {
-    // Gemini uses a similar tokenization approach to other models
-    // Approximately 4 characters per token
-    return Math.ceil(text.length / 4);
+  private getModel(params: CompletionParams) {
+    // Map model names to Gemini's naming convention
+    const modelMap: Record<string, string> = {
+      "gemini-pro": "gemini-pro",
+      "gemini-pro-vision": "gemini-pro-vision",
+      "gemini-1.5-pro": "gemini-1.5-pro-latest",
+      "gemini-1.5-flash": "gemini-1.5-flash-latest",
+      "gemini-ultra": "gemini-ultra",
+    };
+
+    const modelName =
+      modelMap[params.model] || params.model || "gemini-1.5-pro-latest";
+    const model = this.client.getGenerativeModel({
+      model: modelName,
+      generationConfig: {
+        temperature: params.temperature ?? 0.7,
+        maxOutputTokens: params.maxTokens || 4000,
+        topP: 0.95,
+        topK: 40,
+      },
+      safetySettings: [
+        {
+          category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+          threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+        },
+        {
+          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+          threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+        },
+        {
+          category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+          threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+        },
+        {
+          category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+          threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+        },
+      ],
+    });
+
+    return { model, modelName };
   }
 
-  estimateCost(tokens: number, model: string): number {
-    // Gemini pricing (per 1000 tokens) - as of 2024
-    const pricing: Record<string, { input: number; output: number }> = {
-      "gemini-pro": { input: 0.0005, output: 0.0015 }, // $0.50/$1.50 per million
-      "gemini-1.5-pro-latest": { input: 0.0035, output: 0.0105 }, // $3.50/$10.50 per million
-      "gemini-1.5-flash-latest": { input: 0.00035, output: 0.00105 }, // $0.35/$1.05 per million
-      "gemini-ultra": { input: 0.0125, output: 0.0375 }, // Estimated pricing
-    };
+  private buildFullPrompt(params: CompletionParams): string {
+    // Combine system prompt and user prompt
+    return params.systemPrompt
+      ? `${params.systemPrompt}\n\n${params.prompt}`
+      : params.prompt;
+  }
 
-    const modelPricing = pricing[model] || pricing["gemini-1.5-pro-latest"];
+  private toTRPCError(error: any): TRPCError {
+    if (error instanceof TRPCError) return error;
 
-    // Assume 60/40 split between input/output tokens
-    const inputTokens = tokens * 0.6;
-    const outputTokens = tokens * 0.4;
+    if (error.message?.includes("quota")) {
+      return new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: "API quota exceeded. Please try again later.",
+      });
+    }
+
+    if (error.message?.includes("API key")) {
+      return new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "Invalid Gemini API key",
+      });
+    }
+
+    if (error.message?.includes("safety")) {
+      return new TRPCError({
+        code: "BAD_REQUEST",
+        message:
+          "Content was blocked by safety filters. Please modify your request.",
+      });
+    }
 
-    // Convert from per 1000 to actual cost
-    return (
-      (inputTokens * modelPricing.input + outputTokens * modelPricing.output) /
-      1000
-    );
+    return new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Gemini API error: ${error.message}`,
+    });
+  }
+
+  countTokens(text: string): number {
+    // Gemini uses a similar tokenization approach to other models
+    // Approximately 4 characters per token
+    return Math.ceil(text.length / 4);
   }
 
   // Gemini-specific features
@@ -3,14 +3,37 @@ import type {
   LLMProvider,
   CompletionParams,
   CompletionResponse,
+  StreamCompletionParams,
 } from "../base";
 import { env } from "~/env";
 import { TRPCError } from "@trpc/server";
 import Replicate from "replicate";
+import { readServerSentEvents } from "../utils/stream";
 
 // Provider options for Llama models
 export type LlamaProviderType = "replicate" | "together" | "local" | "groq";
 
+interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface OpenAICompatibleStreamChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string } }>;
+  usage?: TokenUsage;
+  x_groq?: { usage?: TokenUsage };
+}
+
+interface LlamaCppStreamChunk {
+  content?: string;
+  stop?: boolean;
+  model?: string;
+  tokens_evaluated?: number;
+  tokens_predicted?: number;
+}
+
 export interface LlamaProviderConfig {
   provider?: LlamaProviderType;
   apiKey?: string;
@@ -87,26 +110,30 @@ export class LlamaProvider implements LLMProvider {
     }
   }
 
+  async streamCompletion(
+    params: StreamCompletionParams,
+  ): Promise<CompletionResponse> {
+    switch (this.provider) {
+      case "replicate":
+        return this.streamWithReplicate(params);
+      case "together":
+      case "groq":
+        return this.streamWithOpenAICompatible(params);
+      case "local":
+        return this.streamWithLocal(params);
+      default:
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Unsupported Llama provider: ${this.provider}`,
+        });
+    }
+  }
+
   private async generateWithReplicate(
     params: CompletionParams,
   ): Promise<CompletionResponse> {
     try {
-      // Model mapping for Replicate
-      const modelMap: Record<string, string> = {
-        "llama-2-7b": "meta/llama-2-7b-chat:latest",
-        "llama-2-13b": "meta/llama-2-13b-chat:latest",
-        "llama-2-70b": "meta/llama-2-70b-chat:latest",
-        "llama-3-8b": "meta/meta-llama-3-8b-instruct:latest",
-        "llama-3-70b": "meta/meta-llama-3-70b-instruct:latest",
-        "codellama-7b": "meta/codellama-7b-instruct:latest",
-        "codellama-13b": "meta/codellama-13b-instruct:latest",
-        "codellama-34b": "meta/codellama-34b-instruct:latest",
-      };
-
-      const model =
-        modelMap[params.model] ||
-        params.model ||
-        "meta/meta-llama-3-70b-instruct:latest";
+      const model = this.resolveReplicateModel(params.model);
 
       // Format prompt for Llama chat format
       const formattedPrompt = this.formatLlamaPrompt(
@@ -124,6 +151,7 @@ export class LlamaProvider implements LLMProvider {
             top_p: 0.95,
             repetition_penalty: 1.1,
           },
+          signal: params.signal,
         },
       );
 
@@ -152,54 +180,8 @@ export class LlamaProvider implements LLMProvider {
     params: CompletionParams,
   ): Promise<CompletionResponse> {
     try {
-      // Model names for Together/Groq
-      const modelMap: Record<string, string> = {
-        // Together models
-        "llama-2-7b": "togethercomputer/llama-2-7b-chat",
-        "llama-2-13b": "togethercomputer/llama-2-13b-chat",
-        "llama-2-70b": "togethercomputer/llama-2-70b-chat",
-        "llama-3-8b": "meta-llama/Llama-3-8b-chat-hf",
-        "llama-3-70b": "meta-llama/Llama-3-70b-chat-hf",
-        "mixtral-8x7b": "mistralai/Mixtral-8x7B-Instruct-v0.1",
-        // Groq models
-        "llama2-70b-4096": "llama2-70b-4096",
-        "mixtral-8x7b-32768": "mixtral-8x7b-32768",
-        "gemma-7b-it": "gemma-7b-it",
-      };
-
-      const model =
-        modelMap[params.model] ||
-        params.model ||
-        (this.provider === "groq"
-          ? "llama2-70b-4096"
-          : "meta-llama/Llama-3-70b-chat-hf");
-
-      const messages = [];
-      if (params.systemPrompt) {
-        messages.push({ role: "system", content: params.systemPrompt });
-      }
-      messages.push({ role: "user", content: params.prompt });
-
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model,
-          messages,
-          temperature: params.temperature ?? 0.7,
-          max_tokens: params.maxTokens || 4000,
-          top_p: 0.95,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error?.message || `HTTP ${response.status}`);
-      }
+      const model = this.resolveOpenAICompatibleModel(params.model);
+      const response = await this.requestOpenAICompatible(params, model, false);
 
       const data = await response.json();
       const content = data.choices[0]?.message?.content || "";
@@ -228,24 +210,7 @@ export class LlamaProvider implements LLMProvider {
       // Local deployment using llama.cpp or similar
       const prompt = this.formatLlamaPrompt(params.systemPrompt, params.prompt);
 
-      const response = await fetch(`${this.baseUrl}/completion`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          prompt,
-          temperature: params.temperature ?? 0.7,
-          n_predict: params.maxTokens || 4000,
-          top_p: 0.95,
-          repeat_penalty: 1.1,
-          stop: ["</s>", "[INST]", "[/INST]"],
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Local Llama server error: HTTP ${response.status}`);
-      }
+      const response = await this.requestLocal(params, prompt, false);
 
       const data = await response.json();
       const content = data.content || "";
@@ -269,6 +234,250 @@ export class LlamaProvider implements LLMProvider {
     }
   }
 
+  private async streamWithReplicate(
+    params: StreamCompletionParams,
+  ): Promise<CompletionResponse> {
+    try {
+      const model = this.resolveReplicateModel(params.model);
+      const formattedPrompt = this.formatLlamaPrompt(
+        params.systemPrompt,
+        params.prompt,
+      );
+
+      let content = "";
+      for await (const event of this.replicateClient!.stream(
+        model as `${string}/${string}:${string}`,
+        {
+          input: {
+            prompt: formattedPrompt,
+            temperature: params.temperature ?? 0.7,
+            max_new_tokens: params.maxTokens || 4000,
+            top_p: 0.95,
+            repetition_penalty: 1.1,
+          },
+          signal: params.signal,
+        },
+      )) {
+        if (event.event === "output" && event.data) {
+          content += event.data;
+          params.onToken(event.data);
+        }
+      }
+
+      const promptTokens = this.countTokens(formattedPrompt);
+      const completionTokens = this.countTokens(content);
+
+      return {
+        content,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        model,
+      };
+    } catch (error: any) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: `Replicate API error: ${error.message}`,
+      });
+    }
+  }
+
+  private async streamWithOpenAICompatible(
+    params: StreamCompletionParams,
+  ): Promise<CompletionResponse> {
+    try {
+      const model = this.resolveOpenAICompatibleModel(params.model);
+      const response = await this.requestOpenAICompatible(params, model, true);
+
+      let content = "";
+      let responseModel = model;
+      let usage: TokenUsage | undefined;
+
+      for await (const chunk of readServerSentEvents<OpenAICompatibleStreamChunk>(
+        response,
+      )) {
+        responseModel = chunk.model ?? responseModel;
+        // Groq reports usage under x_groq, Together on the final chunk
+        usage = chunk.usage ?? chunk.x_groq?.usage ?? usage;
+
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          params.onToken(delta);
+        }
+      }
+
+      const promptTokens =
+        usage?.prompt_tokens || this.countTokens(params.prompt);
+      const completionTokens =
+        usage?.completion_tokens || this.countTokens(content);
+
+      return {
+        content,
+        promptTokens,
+        completionTokens,
+        totalTokens: usage?.total_tokens || promptTokens + completionTokens,
+        model: responseModel,
+      };
+    } catch (error: any) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: `${this.provider} API error: ${error.message}`,
+      });
+    }
+  }
+
+  private async streamWithLocal(
+    params: StreamCompletionParams,
+  ): Promise<CompletionResponse> {
+    try {
+      const prompt = this.formatLlamaPrompt(params.systemPrompt, params.prompt);
+      const response = await this.requestLocal(params, prompt, true);
+
+      let content = "";
+      let promptTokens = 0;
+      let completionTokens = 0;
+      let model = "local-llama";
+
+      // llama.cpp emits `data: {"content": "...", "stop": false}` events
+      for await (const chunk of readServerSentEvents<LlamaCppStreamChunk>(
+        response,
+      )) {
+        if (chunk.content) {
+          content += chunk.content;
+          params.onToken(chunk.content);
+        }
+        if (chunk.stop) {
+          promptTokens = chunk.tokens_evaluated ?? 0;
+          completionTokens = chunk.tokens_predicted ?? 0;
+          model = chunk.model ?? model;
+        }
+      }
+
+      promptTokens = promptTokens || this.countTokens(prompt);
+      completionTokens = completionTokens || this.countTokens(content);
+
+      return {
+        content,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        model,
+      };
+    } catch (error: any) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: `Local Llama error: ${error.message}`,
+      });
+    }
+  }
+
+  private resolveReplicateModel(model: string): string {
+    // Model mapping for Replicate
+    const modelMap: Record<string, string> = {
+      "llama-2-7b": "meta/llama-2-7b-chat:latest",
+      "llama-2-13b": "meta/llama-2-13b-chat:latest",
+      "llama-2-70b": "meta/llama-2-70b-chat:latest",
+      "llama-3-8b": "meta/meta-llama-3-8b-instruct:latest",
+      "llama-3-70b": "meta/meta-llama-3-70b-instruct:latest",
+      "codellama-7b": "meta/codellama-7b-instruct:latest",
+      "codellama-13b": "meta/codellama-13b-instruct:latest",
+      "codellama-34b": "meta/codellama-34b-instruct:latest",
+    };
+
+    return modelMap[model] || model || "meta/meta-llama-3-70b-instruct:latest";
+  }
+
+  private resolveOpenAICompatibleModel(model: string): string {
+    // Model names for Together/Groq
+    const modelMap: Record<string, string> = {
+      // Together models
+      "llama-2-7b": "togethercomputer/llama-2-7b-chat",
+      "llama-2-13b": "togethercomputer/llama-2-13b-chat",
+      "llama-2-70b": "togethercomputer/llama-2-70b-chat",
+      "llama-3-8b": "meta-llama/Llama-3-8b-chat-hf",
+      "llama-3-70b": "meta-llama/Llama-3-70b-chat-hf",
+      "mixtral-8x7b": "mistralai/Mixtral-8x7B-Instruct-v0.1",
+      // Groq models
+      "llama2-70b-4096": "llama2-70b-4096",
+      "mixtral-8x7b-32768": "mixtral-8x7b-32768",
+      "gemma-7b-it": "gemma-7b-it",
+    };
+
+    return (
+      modelMap[model] ||
+      model ||
+      (this.provider === "groq"
+        ? "llama2-70b-4096"
+        : "meta-llama/Llama-3-70b-chat-hf")
+    );
+  }
+
+  private async requestOpenAICompatible(
+    params: CompletionParams,
+    model: string,
+    stream: boolean,
+  ): Promise<Response> {
+    const messages = [];
+    if (params.systemPrompt) {
+      messages.push({ role: "system", content: params.systemPrompt });
+    }
+    messages.push({ role: "user", content: params.prompt });
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: params.temperature ?? 0.7,
+        max_tokens: params.maxTokens || 4000,
+        top_p: 0.95,
+        stream,
+      }),
+      signal: params.signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || `HTTP ${response.status}`);
+    }
+
+    return response;
+  }
+
+  private async requestLocal(
+    params: CompletionParams,
+    prompt: string,
+    stream: boolean,
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/completion`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        prompt,
+        temperature: params.temperature ?? 0.7,
+        n_predict: params.maxTokens || 4000,
+        top_p: 0.95,
+        repeat_penalty: 1.1,
+        stop: ["</s>", "[INST]", "[/INST]"],
+        stream,
+      }),
+      signal: params.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Local Llama server error: HTTP ${response.status}`);
+    }
+
+    return response;
+  }
+
   private formatLlamaPrompt(
     systemPrompt?: string,
     userPrompt?: string,
@@ -290,44 +499,6 @@ export class LlamaProvider implements LLMProvider {
     return Math.ceil(text.length / 4);
   }
 
-  estimateCost(tokens: number, model: string): number {
-    // Pricing varies significantly by provider
-    const pricing: Record<string, { input: number; output: number }> = {
-      // Replicate (per million tokens)
-      "meta/llama-2-7b-chat": { input: 0.05, output: 0.25 },
-      "meta/llama-2-13b-chat": { input: 0.1, output: 0.5 },
-      "meta/llama-2-70b-chat": { input: 0.65, output: 2.75 },
-      "meta/meta-llama-3-8b-instruct": { input: 0.05, output: 0.25 },
-      "meta/meta-llama-3-70b-instruct": { input: 0.65, output: 2.75 },
-
-      // Together (per million tokens)
-      "togethercomputer/llama-2-7b-chat": { input: 0.2, output: 0.2 },
-      "togethercomputer/llama-2-13b-chat": { input: 0.225, output: 0.225 },
-      "togethercomputer/llama-2-70b-chat": { input: 0.9, output: 0.9 },
-      "meta-llama/Llama-3-8b-chat-hf": { input: 0.2, output: 0.2 },
-      "meta-llama/Llama-3-70b-chat-hf": { input: 0.9, output: 0.9 },
-
-      // Groq (per million tokens) - very competitive pricing
-      "llama2-70b-4096": { input: 0.7, output: 0.8 },
-      "mixtral-8x7b-32768": { input: 0.24, output: 0.24 },
-
-      // Local deployment - no API costs
-      "local-llama": { input: 0, output: 0 },
-    };
-
-    const modelPricing = pricing[model] || { input: 0.5, output: 0.5 };
-
-    // Assume 60/40 split between input/output tokens
-    const inputTokens = tokens * 0.6;
-    const outputTokens = tokens * 0.4;
-
-    // Convert from per million to actual cost
-    return (
-      (inputTokens * modelPricing.input + outputTokens * modelPricing.output) /
-      1_000_000
-    );
-  }
-
   // Llama-specific feature: Code generation optimization
   async generateCode(params: {
     prompt: string;
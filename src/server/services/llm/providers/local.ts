@@ -0,0 +1,237 @@
+// src/server/services/llm/providers/local.ts
+import type {
+  LLMProvider,
+  CompletionParams,
+  CompletionResponse,
+  StreamCompletionParams,
+} from "../base";
+import { env } from "~/env";
+import { TRPCError } from "@trpc/server";
+import { readServerSentEvents } from "../utils/stream";
+
+// Any server exposing the OpenAI chat completions API: Ollama, vLLM,
+// llama.cpp server, LM Studio, ... Runs entirely on the customer's network,
+// so no API key is required and usage is never billed.
+
+interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface ChatCompletion {
+  model?: string;
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: TokenUsage;
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string } }>;
+  usage?: TokenUsage | null;
+}
+
+interface OpenAIModelList {
+  data?: Array<{ id: string; owned_by?: string; max_model_len?: number }>;
+}
+
+interface OllamaTagList {
+  models?: Array<{ name: string; details?: { parameter_size?: string } }>;
+}
+
+export interface LocalModel {
+  id: string;
+  ownedBy?: string;
+  contextWindow?: number;
+}
+
+export interface LocalProviderConfig {
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export class LocalProvider implements LLMProvider {
+  name = "local";
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(config: LocalProviderConfig = {}) {
+    this.baseUrl = (config.baseUrl || env.LOCAL_LLM_BASE_URL).replace(
+      /\/+$/,
+      "",
+    );
+    this.apiKey = config.apiKey || env.LOCAL_LLM_API_KEY;
+  }
+
+  async generateCompletion(
+    params: CompletionParams,
+  ): Promise<CompletionResponse> {
+    try {
+      const model = await this.resolveModel(params.model);
+      const response = await this.requestChatCompletion(params, model, false);
+
+      const data = (await response.json()) as ChatCompletion;
+      const content = data.choices?.[0]?.message?.content ?? "";
+
+      const promptTokens =
+        data.usage?.prompt_tokens || this.countPromptTokens(params);
+      const completionTokens =
+        data.usage?.completion_tokens || this.countTokens(content);
+
+      return {
+        content,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        model: data.model || model,
+      };
+    } catch (error: any) {
+      if (error instanceof TRPCError) throw error;
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: `Local model error: ${error.message}`,
+      });
+    }
+  }
+
+  async streamCompletion(
+    params: StreamCompletionParams,
+  ): Promise<CompletionResponse> {
+    try {
+      const model = await this.resolveModel(params.model);
+      const response = await this.requestChatCompletion(params, model, true);
+
+      let content = "";
+      let responseModel = model;
+      let usage: TokenUsage | undefined;
+
+      for await (const chunk of readServerSentEvents<ChatCompletionChunk>(
+        response,
+      )) {
+        responseModel = chunk.model ?? responseModel;
+        // Only sent on the final chunk, and only by servers that honour
+        // stream_options.include_usage
+        usage = chunk.usage ?? usage;
+
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          params.onToken(delta);
+        }
+      }
+
+      const promptTokens =
+        usage?.prompt_tokens || this.countPromptTokens(params);
+      const completionTokens =
+        usage?.completion_tokens || this.countTokens(content);
+
+      return {
+        content,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        model: responseModel,
+      };
+    } catch (error: any) {
+      if (error instanceof TRPCError) throw error;
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: `Local model error: ${error.message}`,
+      });
+    }
+  }
+
+  /**
+   * Models served by the endpoint. Uses the OpenAI `/models` listing and
+   * falls back to Ollama's native `/api/tags` for older Ollama versions.
+   */
+  async listModels(signal?: AbortSignal): Promise<LocalModel[]> {
+    const response = await fetch(`${this.baseUrl}/models`, {
+      headers: this.buildHeaders(),
+      signal,
+    });
+
+    if (response.ok) {
+      const data = (await response.json()) as OpenAIModelList;
+      return (data.data ?? []).map((model) => ({
+        id: model.id,
+        ownedBy: model.owned_by,
+        contextWindow: model.max_model_len,
+      }));
+    }
+
+    const origin = new URL(this.baseUrl).origin;
+    const tags = await fetch(`${origin}/api/tags`, { signal });
+    if (!tags.ok) {
+      throw new Error(`Model discovery failed: HTTP ${response.status}`);
+    }
+
+    const data = (await tags.json()) as OllamaTagList;
+    return (data.models ?? []).map((model) => ({ id: model.name }));
+  }
+
+  countTokens(text: string): number {
+    // Tokenizers differ per model; ~4 characters per token is close enough
+    // when the server doesn't report usage
+    return Math.ceil(text.length / 4);
+  }
+
+  private async resolveModel(model: string): Promise<string> {
+    if (model) return model;
+    if (env.LOCAL_LLM_DEFAULT_MODEL) return env.LOCAL_LLM_DEFAULT_MODEL;
+
+    // Nothing configured, use whatever the server has loaded
+    const [first] = await this.listModels();
+    if (!first) {
+      throw new TRPCError({
+        code: "PRECONDITION_FAILED",
+        message: `No models available at ${this.baseUrl}`,
+      });
+    }
+    return first.id;
+  }
+
+  private async requestChatCompletion(
+    params: CompletionParams,
+    model: string,
+    stream: boolean,
+  ): Promise<Response> {
+    const messages = [];
+    if (params.systemPrompt) {
+      messages.push({ role: "system", content: params.systemPrompt });
+    }
+    messages.push({ role: "user", content: params.prompt });
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.buildHeaders(),
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: params.temperature ?? 0.7,
+        max_tokens: params.maxTokens || 4000,
+        stream,
+        ...(stream && { stream_options: { include_usage: true } }),
+      }),
+      signal: params.signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.error?.message || `HTTP ${response.status}`);
+    }
+
+    return response;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+    };
+  }
+
+  private countPromptTokens(params: CompletionParams): number {
+    return this.countTokens(`${params.systemPrompt ?? ""}${params.prompt}`);
+  }
+}
@@ -0,0 +1,385 @@
+// src/server/services/llm/providers/mock.ts
+import { createHash } from "crypto";
+import { TRPCError } from "@trpc/server";
+import type {
+  LLMProvider,
+  CompletionParams,
+  CompletionResponse,
+  StreamCompletionParams,
+} from "../base";
+import { throwIfAborted } from "../utils/stream";
+
+// Offline stand-in for a real model. Responses are derived from a hash of
+// the model and prompt, so the same request always gets the same answer and
+// evaluation runs against it are reproducible. It recognises the handful of
+// prompt shapes the chains send: JSON outlines, rubric grading, single-number
+// ratings and everything else as prose. Latency and failures can be injected
+// to exercise progress, retry and fallback handling without API keys.
+
+export interface MockProviderConfig {
+  // Delay before each response, in milliseconds
+  latencyMs?: number;
+  // Delay between streamed chunks, in milliseconds
+  chunkDelayMs?: number;
+  // Share of requests (0-1) failing with a server error
+  failureRate?: number;
+  // Share of requests (0-1) rejected with a rate-limit error
+  rateLimitRate?: number;
+  // Characters counted as one token in reported usage
+  charsPerToken?: number;
+}
+
+// Models named after a scenario apply it on top of the provider config, so a
+// test or demo can pick behaviour through the usual provider/model settings
+export const MOCK_MODELS: Record<
+  string,
+  { description: string; config: MockProviderConfig }
+> = {
+  "mock-1": {
+    description: "Instant, always succeeds",
+    config: {},
+  },
+  "mock-slow": {
+    description: "Two second latency, streams slowly",
+    config: { latencyMs: 2000, chunkDelayMs: 20 },
+  },
+  "mock-flaky": {
+    description: "Fails about a third of requests",
+    config: { failureRate: 0.3 },
+  },
+  "mock-rate-limited": {
+    description: "Rejects every request with a rate-limit error",
+    config: { rateLimitRate: 1 },
+  },
+  "mock-failing": {
+    description: "Fails every request",
+    config: { failureRate: 1 },
+  },
+};
+
+export const DEFAULT_MOCK_MODEL = "mock-1";
+
+const DEFAULT_WORDS = 250;
+const MAX_WORDS = 2000;
+// Section prose check rejects paragraphs shorter than this
+const MIN_PARAGRAPH_WORDS = 20;
+
+const VOCABULARY = [
+  "approach", "clear", "community", "consistent", "context", "detail",
+  "effective", "evidence", "focus", "goal", "growth", "impact", "important",
+  "key", "long-term", "measured", "outcome", "plan", "practical", "progress",
+  "purpose", "quality", "record", "result", "review", "steady", "strong",
+  "support", "team", "value", "work", "year",
+];
+
+// Used when the prompt doesn't show the sections it expects
+const GENERIC_SECTIONS = [
+  ["introduction", "Introduction"],
+  ["background", "Background"],
+  ["analysis", "Analysis"],
+  ["recommendations", "Recommendations"],
+  ["conclusion", "Conclusion"],
+] as const;
+
+export class MockProvider implements LLMProvider {
+  name = "mock";
+  private config: MockProviderConfig;
+  private requestCount = 0;
+
+  constructor(config: MockProviderConfig = {}) {
+    this.config = config;
+  }
+
+  async generateCompletion(
+    params: CompletionParams,
+  ): Promise<CompletionResponse> {
+    await this.simulateRequest(params);
+    return this.respond(params);
+  }
+
+  async streamCompletion(
+    params: StreamCompletionParams,
+  ): Promise<CompletionResponse> {
+    await this.simulateRequest(params);
+    const response = this.respond(params);
+    const { chunkDelayMs } = this.resolveConfig(params.model);
+
+    for (const delta of response.content.match(/\S+\s*/g) ?? []) {
+      throwIfAborted(params.signal);
+      if (chunkDelayMs) await wait(chunkDelayMs, params.signal);
+      params.onToken(delta);
+    }
+
+    return response;
+  }
+
+  countTokens(text: string): number {
+    return Math.ceil(text.length / (this.config.charsPerToken || 4));
+  }
+
+  private resolveConfig(model: string): MockProviderConfig {
+    return { ...this.config, ...MOCK_MODELS[model]?.config };
+  }
+
+  // Waits out the configured latency, then fails the request if it was
+  // picked for failure injection. Which requests fail is decided by a
+  // sequence seeded from the model, so a run fails at the same points each
+  // time while retries of the same prompt can still succeed.
+  private async simulateRequest(params: CompletionParams): Promise<void> {
+    throwIfAborted(params.signal);
+    const config = this.resolveConfig(params.model);
+
+    if (config.latencyMs) await wait(config.latencyMs, params.signal);
+
+    const roll = seededRandom(`${params.model}\n${this.requestCount++}`)();
+
+    if (roll < (config.rateLimitRate ?? 0)) {
+      throw new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: "Mock model error: rate_limit_exceeded",
+      });
+    }
+
+    if (roll > 1 - (config.failureRate ?? 0)) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Mock model error: service_unavailable",
+      });
+    }
+  }
+
+  private respond(params: CompletionParams): CompletionResponse {
+    const random = seededRandom(`${params.model}\n${params.prompt}`);
+    const content = this.buildContent(params.prompt, random);
+
+    const promptTokens = this.countTokens(
+      `${params.systemPrompt ?? ""}${params.prompt}`,
+    );
+    const completionTokens = this.countTokens(content);
+
+    return {
+      content,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      model: params.model || DEFAULT_MOCK_MODEL,
+    };
+  }
+
+  private buildContent(prompt: string, random: () => number): string {
+    if (/rubric/i.test(prompt)) {
+      return this.buildRubricScores(prompt, random);
+    }
+
+    if (/only a number/i.test(prompt)) {
+      return String(60 + Math.floor(random() * 36));
+    }
+
+    if (/json outline|outline in json/i.test(prompt)) {
+      return this.buildOutline(prompt, random);
+    }
+
+    // Refinement returns the document at about the length it was given
+    if (/^review and refine/i.test(prompt)) {
+      return this.buildProse(prompt.split(/\s+/).length, random);
+    }
+
+    // The chains append the target length last
+    const requested = [...prompt.matchAll(/(\d[\d,]*)\s*words/gi)].pop()?.[1];
+    const words = requested
+      ? Math.min(Number(requested.replace(/,/g, "")), MAX_WORDS)
+      : DEFAULT_WORDS;
+
+    return this.buildProse(words || DEFAULT_WORDS, random, sectionPhrases(prompt));
+  }
+
+  // Matches the outline schema the chains validate against, using the
+  // sections the prompt's example structure names and the details it lists
+  private buildOutline(prompt: string, random: () => number): string {
+    const details = promptDetails(prompt);
+    const found = [
+      ...prompt.matchAll(/"([a-z][a-z_]*)":\s*\{\s*"title":\s*"([^"]+)"/g),
+    ]
+      .map((match) => [match[1]!, match[2]!] as const)
+      .filter(([id]) => id !== "section_id");
+    const outlineSections = found.length >= 3 ? found : GENERIC_SECTIONS;
+
+    const totalWords = Number(
+      /approximately\s+(\d[\d,]*)\s*words/i
+        .exec(prompt)?.[1]
+        ?.replace(/,/g, "") ?? 0,
+    );
+
+    const sections = Object.fromEntries(
+      outlineSections.map(([id, title], index) => [
+        id,
+        {
+          title,
+          description: `Covers the ${title.toLowerCase()} of the document.`,
+          keyPoints: [
+            `${title} overview`,
+            details[index % Math.max(details.length, 1)] ??
+              pick(VOCABULARY, random),
+          ],
+          estimatedWords: totalWords
+            ? Math.round(totalWords / outlineSections.length)
+            : 150 + Math.floor(random() * 4) * 50,
+          order: index + 1,
+        },
+      ]),
+    );
+    const estimatedTotalWords = Object.values(sections).reduce(
+      (sum, section) => sum + section.estimatedWords,
+      0,
+    );
+    const title = outlineTitle(prompt);
+
+    return JSON.stringify(
+      {
+        title,
+        introduction: {
+          hook: `An introduction to ${title.toLowerCase()}.`,
+          thesis: `What matters most about ${title.toLowerCase()}.`,
+          preview: outlineSections.map(([, sectionTitle]) => sectionTitle).join(", "),
+        },
+        sections,
+        conclusion: {
+          summary: "The key points and what they mean together.",
+          callToAction: "Review the recommendations and plan next steps.",
+        },
+        metadata: {
+          totalSections: outlineSections.length,
+          estimatedTotalWords,
+          suggestedTone: /^- Tone:\s*(.+)$/im.exec(prompt)?.[1] ?? "professional",
+        },
+      },
+      null,
+      2,
+    );
+  }
+
+  // Criteria are listed one per line as "- id: description"
+  private buildRubricScores(prompt: string, random: () => number): string {
+    const criteria = [...prompt.matchAll(/^- ([a-z_]+):/gm)].map(
+      (match) => match[1]!,
+    );
+    const scores = Object.fromEntries(
+      criteria.map((id) => [id, 3 + Math.floor(random() * 3)]),
+    );
+
+    return JSON.stringify({
+      scores,
+      feedback: "Mock review: the document is complete and consistently written.",
+    });
+  }
+
+  // Each phrase opens a paragraph, so section titles and key points appear
+  // in the text and the section chain sees them covered
+  private buildProse(
+    words: number,
+    random: () => number,
+    phrases: string[] = [],
+  ): string {
+    const paragraphs: string[][] = [];
+    let remaining = words;
+
+    while (remaining > 0) {
+      const sentences: string[] = [];
+      let paragraphWords = 0;
+      const phrase = phrases[paragraphs.length];
+
+      for (let i = 0; i < 4 && remaining > 0; i++) {
+        const length = Math.min(remaining, 10 + Math.floor(random() * 8));
+        const sentence = Array.from({ length }, () => pick(VOCABULARY, random));
+        if (i === 0 && phrase) sentence.unshift(phrase);
+
+        sentences.push(
+          `${sentence.join(" ").replace(/^./, (c) => c.toUpperCase())}.`,
+        );
+        remaining -= length;
+        paragraphWords += length;
+      }
+
+      // Fold a short tail into the paragraph before it
+      const previous = paragraphs[paragraphs.length - 1];
+      if (previous && paragraphWords < MIN_PARAGRAPH_WORDS) {
+        previous.push(...sentences);
+      } else {
+        paragraphs.push(sentences);
+      }
+    }
+
+    return paragraphs.map((sentences) => sentences.join(" ")).join("\n\n");
+  }
+}
+
+// "Create a detailed outline for a professional biography of Ada Lovelace."
+// becomes "Professional biography of Ada Lovelace"
+function outlineTitle(prompt: string): string {
+  const title = (prompt.split("\n")[0] ?? "")
+    .replace(/^create (?:a |an )?(?:detailed )?outline for (?:a |an )?/i, "")
+    .replace(/[.:]\s*$/, "")
+    .trim();
+
+  return title ? title.replace(/^./, (c) => c.toUpperCase()) : "Mock Document";
+}
+
+// Values of the "- Label: value" detail lines the outline prompts list
+function promptDetails(prompt: string): string[] {
+  return [...prompt.matchAll(/^- [A-Z][\w ]*:\s*(.+)$/gm)]
+    .map((match) => match[1]!.trim())
+    .filter(
+      (value) => value.length <= 60 && !/^(not specified|none|n\/a)/i.test(value),
+    );
+}
+
+// Title and key points of the section a prompt asks for
+function sectionPhrases(prompt: string): string[] {
+  const title = /write the "([^"]+)" section/i.exec(prompt)?.[1];
+  let keyPoints: string[] = [];
+
+  const list = /"keyPoints":\s*(\[[^\]]*\])/.exec(prompt)?.[1];
+  if (list) {
+    try {
+      keyPoints = (JSON.parse(list) as unknown[]).filter(
+        (point): point is string => typeof point === "string",
+      );
+    } catch {
+      // Not a JSON array after all, write without them
+    }
+  }
+
+  return [...(title ? [title] : []), ...keyPoints];
+}
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Generation cancelled"));
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Mulberry32 seeded from the request, so output is stable across runs
+function seededRandom(key: string): () => number {
+  let state = createHash("sha256").update(key).digest().readUInt32LE(0);
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)]!;
+}
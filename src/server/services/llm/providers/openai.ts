@@ -4,6 +4,7 @@ import type {
   LLMProvider,
   CompletionParams,
   CompletionResponse,
+  StreamCompletionParams,
 } from "../base";
 import { env } from "~/env";
 
@@ -20,20 +21,15 @@ export class OpenAIProvider implements LLMProvider {
   async generateCompletion(
     params: CompletionParams,
   ): Promise<CompletionResponse> {
-    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-
-    if (params.systemPrompt) {
-      messages.push({ role: "system", content: params.systemPrompt });
-    }
-
-    messages.push({ role: "user", content: params.prompt });
-
-    const completion = await this.client.chat.completions.create({
-      model: params.model || "gpt-4-turbo-preview",
-      messages,
-      temperature: params.temperature ?? 0.7,
-      max_tokens: params.maxTokens,
-    });
+    const completion = await this.client.chat.completions.create(
+      {
+        model: params.model || "gpt-4-turbo-preview",
+        messages: this.buildMessages(params),
+        temperature: params.temperature ?? 0.7,
+        max_tokens: params.maxTokens,
+      },
+      { signal: params.signal },
+    );
 
     const response = completion.choices[0]?.message?.content || "";
     const usage = completion.usage || {
@@ -51,23 +47,68 @@ export class OpenAIProvider implements LLMProvider {
     };
   }
 
-  countTokens(text: string): number {
-    // Rough estimation: ~4 characters per token
-    return Math.ceil(text.length / 4);
-  }
+  async streamCompletion(
+    params: StreamCompletionParams,
+  ): Promise<CompletionResponse> {
+    const model = params.model || "gpt-4-turbo-preview";
+    const stream = await this.client.chat.completions.create(
+      {
+        model,
+        messages: this.buildMessages(params),
+        temperature: params.temperature ?? 0.7,
+        max_tokens: params.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: params.signal },
+    );
+
+    let content = "";
+    let responseModel = model;
+    let usage: OpenAI.CompletionUsage | undefined;
+
+    for await (const chunk of stream) {
+      responseModel = chunk.model || responseModel;
+      if (chunk.usage) usage = chunk.usage;
+
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        params.onToken(delta);
+      }
+    }
+
+    const promptTokens =
+      usage?.prompt_tokens ??
+      this.countTokens((params.systemPrompt || "") + params.prompt);
+    const completionTokens =
+      usage?.completion_tokens ?? this.countTokens(content);
 
-  estimateCost(tokens: number, model: string): number {
-    const pricing: Record<string, { input: number; output: number }> = {
-      "gpt-4-turbo-preview": { input: 0.01, output: 0.03 },
-      "gpt-4": { input: 0.03, output: 0.06 },
-      "gpt-3.5-turbo": { input: 0.001, output: 0.002 },
+    return {
+      content,
+      promptTokens,
+      completionTokens,
+      totalTokens: usage?.total_tokens ?? promptTokens + completionTokens,
+      model: responseModel,
     };
+  }
 
-    const modelPricing = pricing[model] || pricing["gpt-4-turbo-preview"];
-    // Assume 60/40 split between input/output tokens
-    return (
-      (tokens * 0.6 * modelPricing.input + tokens * 0.4 * modelPricing.output) /
-      1000
-    );
+  private buildMessages(
+    params: CompletionParams,
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+
+    if (params.systemPrompt) {
+      messages.push({ role: "system", content: params.systemPrompt });
+    }
+
+    messages.push({ role: "user", content: params.prompt });
+
+    return messages;
+  }
+
+  countTokens(text: string): number {
+    // Rough estimation: ~4 characters per token
+    return Math.ceil(text.length / 4);
   }
 }
@@ -3,9 +3,11 @@ import type {
   LLMProvider,
   CompletionParams,
   CompletionResponse,
+  StreamCompletionParams,
 } from "../base";
 import { env } from "~/env";
 import { TRPCError } from "@trpc/server";
+import { readServerSentEvents } from "../utils/stream";
 
 interface PerplexityMessage {
   role: "system" | "user" | "assistant";
@@ -32,6 +34,13 @@ interface PerplexityResponse {
   citations?: string[];
 }
 
+interface PerplexityStreamChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string } }>;
+  usage?: PerplexityResponse["usage"];
+  citations?: string[];
+}
+
 export class PerplexityProvider implements LLMProvider {
   name = "perplexity";
   private apiKey: string;
@@ -52,70 +61,14 @@ export class PerplexityProvider implements LLMProvider {
     params: CompletionParams,
   ): Promise<CompletionResponse> {
     try {
-      // Perplexity models include online models with web search
-      const modelMap: Record<string, string> = {
-        "sonar-small": "llama-3-sonar-small-32k-online",
-        "sonar-medium": "llama-3-sonar-medium-32k-online",
-        "sonar-large": "llama-3-sonar-large-32k-online",
-        "chat-small": "llama-3-sonar-small-32k-chat",
-        "chat-large": "llama-3-sonar-large-32k-chat",
-        codellama: "codellama-70b-instruct",
-        mixtral: "mixtral-8x7b-instruct",
-      };
-
-      const model =
-        modelMap[params.model] ||
-        params.model ||
-        "llama-3-sonar-large-32k-online";
-
-      const messages: PerplexityMessage[] = [];
-
-      if (params.systemPrompt) {
-        messages.push({
-          role: "system",
-          content: params.systemPrompt,
-        });
-      }
-
-      messages.push({
-        role: "user",
-        content: params.prompt,
-      });
-
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model,
-          messages,
-          temperature: params.temperature ?? 0.7,
-          max_tokens: params.maxTokens || 4000,
-          top_p: 0.9,
-          return_citations: true, // Perplexity's special feature
-          search_domain_filter: [], // Can limit search to specific domains
-          search_recency_filter: "month", // Focus on recent information
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error?.message || `HTTP ${response.status}`);
-      }
+      const model = this.resolveModel(params.model);
+      const response = await this.request(params, model, false);
 
       const data: PerplexityResponse = await response.json();
       const content = data.choices[0]?.message?.content || "";
 
       // If citations are provided, append them to the content
-      let finalContent = content;
-      if (data.citations && data.citations.length > 0) {
-        finalContent += "\n\n**Sources:**\n";
-        data.citations.forEach((citation, index) => {
-          finalContent += `${index + 1}. ${citation}\n`;
-        });
-      }
+      const finalContent = content + this.formatCitations(data.citations);
 
       return {
         content: finalContent,
@@ -127,58 +80,151 @@ export class PerplexityProvider implements LLMProvider {
         model: data.model,
       };
     } catch (error: any) {
-      if (error.message?.includes("rate limit")) {
-        throw new TRPCError({
-          code: "TOO_MANY_REQUESTS",
-          message: "Rate limit exceeded. Please try again later.",
-        });
-      }
+      throw this.toTRPCError(error);
+    }
+  }
 
-      if (
-        error.message?.includes("401") ||
-        error.message?.includes("api_key")
-      ) {
-        throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "Invalid Perplexity API key",
-        });
+  async streamCompletion(
+    params: StreamCompletionParams,
+  ): Promise<CompletionResponse> {
+    try {
+      const model = this.resolveModel(params.model);
+      const response = await this.request(params, model, true);
+
+      let content = "";
+      let responseModel = model;
+      let citations: string[] | undefined;
+      let usage: PerplexityResponse["usage"] | undefined;
+
+      for await (const chunk of readServerSentEvents<PerplexityStreamChunk>(
+        response,
+      )) {
+        responseModel = chunk.model ?? responseModel;
+        if (chunk.citations) citations = chunk.citations;
+        if (chunk.usage) usage = chunk.usage;
+
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          params.onToken(delta);
+        }
       }
 
-      throw new TRPCError({
-        code: "INTERNAL_SERVER_ERROR",
-        message: `Perplexity API error: ${error.message}`,
+      // Citations only arrive once the answer is complete
+      const sources = this.formatCitations(citations);
+      if (sources) params.onToken(sources);
+
+      return {
+        content: content + sources,
+        promptTokens: usage?.prompt_tokens || this.countTokens(params.prompt),
+        completionTokens:
+          usage?.completion_tokens || this.countTokens(content),
+        totalTokens: usage?.total_tokens || 0,
+        model: responseModel,
+      };
+    } catch (error: any) {
+      throw this.toTRPCError(error);
+    }
+  }
+
+  private resolveModel(model: string): string {
+    // Perplexity models include online models with web search
+    const modelMap: Record<string, string> = {
+      "sonar-small": "llama-3-sonar-small-32k-online",
+      "sonar-medium": "llama-3-sonar-medium-32k-online",
+      "sonar-large": "llama-3-sonar-large-32k-online",
+      "chat-small": "llama-3-sonar-small-32k-chat",
+      "chat-large": "llama-3-sonar-large-32k-chat",
+      codellama: "codellama-70b-instruct",
+      mixtral: "mixtral-8x7b-instruct",
+    };
+
+    return modelMap[model] || model || "llama-3-sonar-large-32k-online";
+  }
+
+  private async request(
+    params: CompletionParams,
+    model: string,
+    stream: boolean,
+  ): Promise<Response> {
+    const messages: PerplexityMessage[] = [];
+
+    if (params.systemPrompt) {
+      messages.push({
+        role: "system",
+        content: params.systemPrompt,
       });
     }
+
+    messages.push({
+      role: "user",
+      content: params.prompt,
+    });
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: params.temperature ?? 0.7,
+        max_tokens: params.maxTokens || 4000,
+        top_p: 0.9,
+        return_citations: true, // Perplexity's special feature
+        search_domain_filter: [], // Can limit search to specific domains
+        search_recency_filter: "month", // Focus on recent information
+        stream,
+      }),
+      signal: params.signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || `HTTP ${response.status}`);
+    }
+
+    return response;
   }
 
-  countTokens(text: string): number {
-    // Perplexity uses Llama-based models, which typically use ~3.8 characters per token
-    return Math.ceil(text.length / 3.8);
+  private formatCitations(citations?: string[]): string {
+    if (!citations || citations.length === 0) return "";
+
+    let sources = "\n\n**Sources:**\n";
+    citations.forEach((citation, index) => {
+      sources += `${index + 1}. ${citation}\n`;
+    });
+    return sources;
   }
 
-  estimateCost(tokens: number, model: string): number {
-    // Perplexity pricing (per million tokens) - as of 2024
-    const pricing: Record<string, { input: number; output: number }> = {
-      "llama-3-sonar-small-32k-online": { input: 0.2, output: 0.2 },
-      "llama-3-sonar-medium-32k-online": { input: 0.6, output: 0.6 },
-      "llama-3-sonar-large-32k-online": { input: 1.0, output: 1.0 },
-      "llama-3-sonar-small-32k-chat": { input: 0.2, output: 0.2 },
-      "llama-3-sonar-large-32k-chat": { input: 1.0, output: 1.0 },
-      "codellama-70b-instruct": { input: 1.0, output: 1.0 },
-      "mixtral-8x7b-instruct": { input: 0.6, output: 0.6 },
-    };
+  private toTRPCError(error: any): TRPCError {
+    if (error instanceof TRPCError) return error;
 
-    const modelPricing = pricing[model] || { input: 1.0, output: 1.0 };
+    if (error.message?.includes("rate limit")) {
+      return new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: "Rate limit exceeded. Please try again later.",
+      });
+    }
 
-    // Assume 60/40 split between input/output tokens
-    const inputTokens = tokens * 0.6;
-    const outputTokens = tokens * 0.4;
+    if (error.message?.includes("401") || error.message?.includes("api_key")) {
+      return new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "Invalid Perplexity API key",
+      });
+    }
 
-    // Convert from per million to actual cost
-    return (
-      (inputTokens * modelPricing.input + outputTokens * modelPricing.output) /
-      1_000_000
-    );
+    return new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `Perplexity API error: ${error.message}`,
+    });
+  }
+
+  countTokens(text: string): number {
+    // Perplexity uses Llama-based models, which typically use ~3.8 characters per token
+    return Math.ceil(text.length / 3.8);
   }
 
   // Perplexity-specific features for enhanced search
@@ -0,0 +1,132 @@
+// src/server/services/llm/section-scheduler.ts
+import type { GeneratedOutline, SectionOutline } from "./index";
+import { throwIfAborted } from "./utils/stream";
+
+// Body sections are independent by default and are written in parallel.
+// Summary-like sections (executive summary, abstract, conclusion) draw on the
+// whole document, so they wait for every body section and get them as
+// context. An outline entry that lists its prerequisites in `dependsOn` waits
+// only for those; `dependsOn: []` marks a section as independent. The
+// provider serving each request limits how many run at once (see
+// concurrency.ts).
+
+const SUMMARY_SECTION =
+  /\b(executive[ _-]?summary|summary|abstract|conclusions?|closing|final[ _-]thoughts)\b/i;
+
+export interface SectionPlan {
+  id: string;
+  details: SectionOutline;
+  // Sections whose content must be written first, in outline order
+  dependsOn: string[];
+}
+
+export interface ScheduleSectionsParams {
+  outline: GeneratedOutline;
+  // Writes one section, given the finished sections it depends on
+  write: (
+    section: SectionPlan,
+    dependencies: Record<string, string>,
+  ) => Promise<string>;
+  onStart?: (sectionId: string) => void;
+  onComplete?: (sectionId: string) => void;
+  signal?: AbortSignal;
+}
+
+function isSummarySection(id: string, details: SectionOutline): boolean {
+  const title = typeof details.title === "string" ? details.title : "";
+  return SUMMARY_SECTION.test(id.replace(/_/g, " ")) || SUMMARY_SECTION.test(title);
+}
+
+/**
+ * Dependency graph of the sections in an outline. Without `dependsOn` a body
+ * section depends on nothing and a summary on every body section. Unknown ids
+ * in `dependsOn` are ignored.
+ */
+export function planSections(outline: GeneratedOutline): SectionPlan[] {
+  const ids = Object.keys(outline);
+  const summaries = new Set(
+    ids.filter((id) => isSummarySection(id, outline[id] ?? {})),
+  );
+
+  return ids.map((id) => {
+    const details = outline[id] ?? {};
+    const explicit = details.dependsOn;
+
+    // Body sections never wait for a summary, so the defaults never cycle
+    const required = Array.isArray(explicit)
+      ? new Set(explicit.filter((dep): dep is string => typeof dep === "string"))
+      : new Set(summaries.has(id) ? ids.filter((other) => !summaries.has(other)) : []);
+
+    const dependsOn = ids.filter((other) => other !== id && required.has(other));
+
+    return { id, details, dependsOn };
+  });
+}
+
+/**
+ * Write every section of the outline, starting each one as soon as its
+ * dependencies are done and passing their content as context. After a failure no further sections are started;
+ * the ones in flight are allowed to settle before the error is rethrown.
+ * The result keeps the outline's section order.
+ */
+export async function scheduleSections(
+  params: ScheduleSectionsParams,
+): Promise<Record<string, string>> {
+  const plans = planSections(params.outline);
+  const pending = new Map(plans.map((plan) => [plan.id, plan]));
+  const running = new Set<Promise<void>>();
+  const results: Record<string, string> = {};
+  let failure: { error: unknown } | undefined;
+
+  const isReady = (plan: SectionPlan) =>
+    plan.dependsOn.every((id) => id in results);
+
+  const start = (plan: SectionPlan) => {
+    pending.delete(plan.id);
+
+    const task = (async () => {
+      if (failure) return;
+      throwIfAborted(params.signal);
+      params.onStart?.(plan.id);
+
+      const dependencies = Object.fromEntries(
+        plan.dependsOn
+          .filter((id) => id in results)
+          .map((id) => [id, results[id]!]),
+      );
+      results[plan.id] = await params.write(plan, dependencies);
+      params.onComplete?.(plan.id);
+    })()
+      .catch((error: unknown) => {
+        failure ??= { error };
+      })
+      .finally(() => running.delete(task));
+
+    running.add(task);
+  };
+
+  while (!failure && pending.size > 0) {
+    const ready = [...pending.values()].filter(isReady);
+
+    if (ready.length > 0) {
+      ready.forEach(start);
+    } else if (running.size === 0) {
+      // Only a dependency cycle leaves nothing runnable; break it at the
+      // section missing the fewest dependencies
+      const unmet = (plan: SectionPlan) =>
+        plan.dependsOn.filter((id) => !(id in results)).length;
+      start(
+        [...pending.values()].reduce((best, plan) =>
+          unmet(plan) < unmet(best) ? plan : best,
+        ),
+      );
+    }
+
+    await Promise.race(running);
+  }
+
+  await Promise.all(running);
+  if (failure) throw failure.error;
+
+  return Object.fromEntries(plans.map((plan) => [plan.id, results[plan.id]!]));
+}
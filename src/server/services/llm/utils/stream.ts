@@ -0,0 +1,66 @@
+// src/server/services/llm/utils/stream.ts
+
+/**
+ * Read a `text/event-stream` response body and yield each parsed `data:` payload.
+ * Used by providers that talk to OpenAI-compatible HTTP endpoints directly.
+ */
+export async function* readServerSentEvents<T>(
+  response: Response,
+): AsyncGenerator<T> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by newlines; keep the trailing partial line
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const payload = parseDataLine(line);
+        if (payload.done) return;
+        if (payload.data !== undefined) yield payload.data as T;
+      }
+    }
+
+    const payload = parseDataLine(buffer);
+    if (payload.data !== undefined) yield payload.data as T;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseDataLine(line: string): { done: boolean; data?: unknown } {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return { done: false };
+
+  const data = trimmed.slice(5).trim();
+  if (!data) return { done: false };
+  if (data === '[DONE]') return { done: true };
+
+  try {
+    return { done: false, data: JSON.parse(data) as unknown };
+  } catch {
+    // Ignore keep-alive comments and malformed fragments
+    return { done: false };
+  }
+}
+
+/**
+ * Throw the standard abort error if the signal has already fired.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('Generation cancelled');
+  }
+}
@@ -4,10 +4,6 @@ import { encoding_for_model, Tiktoken } from '@dqbd/tiktoken';
 export interface TokenCountResult {
   tokens: number;
   characters: number;
-  estimatedCost?: {
-    input: number;
-    output: number;
-  };
 }
 
 export class TokenCounter {
@@ -210,48 +206,6 @@ export class TokenCounter {
     return sentences.map(s => s.trim()).filter(s => s.length > 0);
   }
 
-  /**
-   * Estimate cost for token usage
-   */
-  estimateCost(
-    tokens: number,
-    model: string,
-    type: 'input' | 'output' = 'input'
-  ): number {
-    // Pricing per 1k tokens (approximate as of 2024)
-    const pricing: Record<string, { input: number; output: number }> = {
-      'gpt-4-turbo': { input: 0.01, output: 0.03 },
-      'gpt-4': { input: 0.03, output: 0.06 },
-      'gpt-3.5-turbo': { input: 0.001, output: 0.002 },
-      'claude-3-opus': { input: 0.015, output: 0.075 },
-      'claude-3-sonnet': { input: 0.003, output: 0.015 },
-      'claude-3-haiku': { input: 0.00025, output: 0.00125 },
-      'gemini-1.5-pro': { input: 0.0035, output: 0.0105 },
-      'gemini-1.5-flash': { input: 0.00035, output: 0.00105 },
-    };
-
-    // Find matching pricing
-    let modelPricing = pricing[model];
-    
-    if (!modelPricing) {
-      // Try partial match
-      for (const [key, value] of Object.entries(pricing)) {
-        if (model.includes(key) || key.includes(model)) {
-          modelPricing = value;
-          break;
-        }
-      }
-    }
-
-    // Default pricing if model not found
-    if (!modelPricing) {
-      modelPricing = { input: 0.01, output: 0.03 };
-    }
-
-    const costPerToken = modelPricing[type] / 1000;
-    return tokens * costPerToken;
-  }
-
   /**
    * Format token count for display
    */
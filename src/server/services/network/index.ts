@@ -0,0 +1,163 @@
+// src/server/services/network/index.ts
+
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Agent } from 'undici';
+
+// Server-side requests to URLs users enter (webhook endpoints, crawled
+// sites) must not reach this machine or the network it runs in, or they
+// could read internal services and cloud metadata endpoints.
+
+// Addresses that aren't on the public internet. IPv4-mapped IPv6 addresses
+// (::ffff:127.0.0.1) are checked against the IPv4 ranges.
+const PRIVATE_RANGES = new BlockList();
+
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10], // Carrier-grade NAT
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16], // Link-local, including cloud metadata services
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3], // Multicast and reserved
+] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+    ['::', 128],
+    ['::1', 128],
+    ['64:ff9b::', 96], // NAT64, embeds an IPv4 address
+    ['fc00::', 7], // Unique local
+    ['fe80::', 10], // Link-local
+    ['ff00::', 8], // Multicast
+] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Redirects followed by requests that check every hop
+export const MAX_REDIRECTS = 5;
+
+export class PrivateAddressError extends Error {
+    constructor(public readonly hostname: string) {
+        super(`Refusing to connect to private address ${hostname}`);
+        this.name = 'PrivateAddressError';
+    }
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * publicly routable. Anything that isn't an IP address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+    const host = address.replace(/^\[|\]$/g, '');
+    const version = isIP(host);
+    if (version === 0) return true;
+
+    return PRIVATE_RANGES.check(host, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve the URL's host and throw a PrivateAddressError when any of the
+ * addresses it resolves to is private. Checking every address keeps a name
+ * with both a public and a private record from getting through.
+ */
+export async function assertPublicUrl(url: string | URL): Promise<void> {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'https:') {
+        throw new Error(`Unsupported protocol ${protocol}`);
+    }
+
+    const host = hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(host)
+        ? [host]
+        : (await lookup(host, { all: true, verbatim: true })).map(({ address }) => address);
+
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+        throw new PrivateAddressError(hostname);
+    }
+}
+
+/**
+ * DNS lookup for new connections (net/tls `lookup` option) that fails with a
+ * PrivateAddressError when the host resolves to any private address.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+    lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+            callback(error, '', 0);
+            return;
+        }
+        if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+            callback(new PrivateAddressError(hostname), '', 0);
+            return;
+        }
+
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0]!.address, addresses[0]!.family);
+        }
+    });
+};
+
+// Checks the address every connection is actually made to. fetch resolves
+// the host again after assertPublicUrl, so a record that changes in between
+// (DNS rebinding) would otherwise still reach a private address.
+const publicAddressAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * fetch() for user-supplied URLs. The URL is checked with assertPublicUrl,
+ * which also covers IP literals that connect without a lookup, and each
+ * connection is pinned to addresses that passed the same check. Callers
+ * following redirects must pass `redirect: 'manual'` and check every hop.
+ */
+export async function fetchPublicUrl(url: string | URL, init?: RequestInit): Promise<Response> {
+    await assertPublicUrl(url);
+    return fetch(url, { ...init, dispatcher: publicAddressAgent } as RequestInit);
+}
+
+/**
+ * Read a response body as text, stopping once maxBytes have arrived so a
+ * huge or endless body can't exhaust memory. The rest of the body is
+ * cancelled and `truncated` is set.
+ */
+export async function readLimitedText(
+    response: Response,
+    maxBytes: number,
+): Promise<{ text: string; truncated: boolean }> {
+    if (!response.body) {
+        return { text: '', truncated: false };
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    let received = 0;
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            const remaining = maxBytes - received;
+            received += value.byteLength;
+
+            if (value.byteLength > remaining) {
+                text += decoder.decode(value.subarray(0, remaining));
+                await reader.cancel();
+                return { text, truncated: true };
+            }
+
+            text += decoder.decode(value, { stream: true });
+        }
+    } finally {
+        reader.releaseLock();
+    }
+
+    return { text: text + decoder.decode(), truncated: false };
+}
@@ -0,0 +1,51 @@
+// src/server/services/progress/section-stream.ts
+
+// Batched broadcaster of partial section text, see createSectionStream
+export interface SectionStream {
+    push(sectionId: string, content: string): void;
+    // Send whatever is still buffered
+    flush(): Promise<void>;
+    // Drop buffered text without sending it
+    close(): void;
+}
+
+/**
+ * Collect partial section text as tokens arrive and hand only the latest
+ * text of each section to `send`, at most every `interval` ms. Failures are
+ * passed to `onError` rather than thrown, so a Redis or socket hiccup
+ * doesn't fail the generation.
+ */
+export function createSectionStream(
+    send: (sectionId: string, content: string) => Promise<void>,
+    options: { interval: number; onError: (error: unknown) => void }
+): SectionStream {
+    const latest = new Map<string, string>();
+    let timer: NodeJS.Timeout | undefined;
+
+    const sendBatch = async () => {
+        if (timer) clearTimeout(timer);
+        timer = undefined;
+
+        const batch = [...latest];
+        latest.clear();
+
+        try {
+            await Promise.all(batch.map(([sectionId, content]) => send(sectionId, content)));
+        } catch (error) {
+            options.onError(error);
+        }
+    };
+
+    return {
+        push: (sectionId, content) => {
+            latest.set(sectionId, content);
+            timer ??= setTimeout(() => void sendBatch(), options.interval);
+        },
+        flush: sendBatch,
+        close: () => {
+            if (timer) clearTimeout(timer);
+            timer = undefined;
+            latest.clear();
+        },
+    };
+}
@@ -5,10 +5,12 @@ import { env } from '~/env';
 
 export interface ProgressData {
     documentId: string;
-    stage: 'outline' | 'sections' | 'refinement' | 'complete' | 'error';
+    stage: 'outline' | 'outline_review' | 'sections' | 'refinement' | 'complete' | 'error';
     progress: number;
     message: string;
     currentSection?: string;
+    activeSections?: string[];
+    fallback?: { from: string; provider: string; model: string };
     estimatedTimeRemaining?: number;
     error?: string;
     canRetry?: boolean;
@@ -1,10 +1,13 @@
 // src/server/services/progress/unified-progress.ts
 
 import { Redis } from 'ioredis';
-import { getIO } from '~/server/websocket';
+import { findIO } from '~/server/websocket';
 import { EventEmitter } from 'events';
 import { z } from 'zod';
 import { env } from '~/env';
+import { createSectionStream, type SectionStream } from './section-stream';
+
+export type { SectionStream } from './section-stream';
 
 // Progress types for all systems
 export const ProgressTypeSchema = z.enum([
@@ -42,6 +45,10 @@ export const UnifiedProgressSchema = z.object({
         totalFiles: z.number().optional(),
         currentFile: z.string().optional(),
 
+        // Storage migration specific; also uses totalFiles and currentFile
+        filesMigrated: z.number().optional(),
+        filesFailed: z.number().optional(),
+
         // Timing
         startedAt: z.number(),
         estimatedTimeRemaining: z.number().optional(),
@@ -60,14 +67,21 @@ export type ProgressMetadata = UnifiedProgress['metadata'];
  */
 export class UnifiedProgressService extends EventEmitter {
     private redis: Redis;
-    private io: any;
     private progressTTL = 3600; // 1 hour
     private completedTTL = 300; // 5 minutes for completed items
+    private streamPersistInterval = 1000; // Throttle Redis writes for streamed text
+    private streamPersistedAt = new Map<string, number>();
+    private streamBroadcastInterval = 200; // Batch streamed tokens per broadcast
 
     constructor(redisUrl?: string) {
         super();
         this.redis = new Redis(redisUrl || env.REDIS_URL);
-        this.io = getIO();
+    }
+
+    // Looked up on use: the service can be created before the Socket.IO
+    // server starts, or in a queue process that has none
+    private get io() {
+        return findIO();
     }
 
     /**
@@ -137,7 +151,10 @@ export class UnifiedProgressService extends EventEmitter {
      */
     async updateProgress(
         progressId: string,
-        updates: Partial<Omit<UnifiedProgress, 'type' | 'resourceId' | 'userId'>>
+        // Metadata is merged into the current metadata
+        updates: Partial<Omit<UnifiedProgress, 'type' | 'resourceId' | 'userId' | 'metadata'>> & {
+            metadata?: Partial<ProgressMetadata>;
+        }
     ): Promise<void> {
         const current = await this.getProgressById(progressId);
         if (!current) {
@@ -209,10 +226,11 @@ export class UnifiedProgressService extends EventEmitter {
         });
 
         // Broadcast error event
-        if (this.io) {
+        const io = this.io;
+        if (io) {
             const rooms = this.getProgressRooms(current);
             rooms.forEach(room => {
-                this.io.to(room).emit('progress:error', {
+                io.to(room).emit('progress:error', {
                     ...current,
                     error,
                     canRetry,
@@ -375,6 +393,83 @@ export class UnifiedProgressService extends EventEmitter {
         });
     }
 
+    /**
+     * Broadcast the text written so far for a section that is still streaming.
+     * Partial content is also kept in Redis so late subscribers can catch up,
+     * along with which sections are finished.
+     */
+    async streamSectionContent(
+        documentId: string,
+        sectionId: string,
+        content: string,
+        options: { final?: boolean } = {}
+    ): Promise<void> {
+        if (this.io) {
+            this.io.to(`document:${documentId}`).emit('generation:section', {
+                documentId,
+                sectionId,
+                content,
+                final: options.final ?? false,
+            });
+        }
+
+        const persistKey = `${documentId}:${sectionId}`;
+        const lastPersisted = this.streamPersistedAt.get(persistKey) ?? 0;
+        if (!options.final && Date.now() - lastPersisted < this.streamPersistInterval) {
+            return;
+        }
+
+        const key = this.getSectionStreamKey(documentId);
+        await this.redis.hset(key, sectionId, content);
+        await this.redis.expire(key, this.progressTTL);
+
+        if (options.final) {
+            const finalKey = this.getFinalSectionsKey(documentId);
+            await this.redis.sadd(finalKey, sectionId);
+            await this.redis.expire(finalKey, this.progressTTL);
+            this.streamPersistedAt.delete(persistKey);
+        } else {
+            this.streamPersistedAt.set(persistKey, Date.now());
+        }
+    }
+
+    /**
+     * Stream partial section text as tokens arrive without a broadcast per
+     * token: only the latest text of each section is sent, at most every
+     * streamBroadcastInterval ms.
+     */
+    createSectionStream(documentId: string): SectionStream {
+        return createSectionStream(
+            (sectionId, content) => this.streamSectionContent(documentId, sectionId, content),
+            {
+                interval: this.streamBroadcastInterval,
+                onError: (error) => console.error(`Failed to stream sections of document ${documentId}:`, error),
+            }
+        );
+    }
+
+    /**
+     * Get partial section content streamed so far for a document
+     */
+    async getStreamedSections(documentId: string): Promise<Record<string, string>> {
+        return this.redis.hgetall(this.getSectionStreamKey(documentId));
+    }
+
+    /**
+     * Drop streamed section content once the document is saved
+     */
+    async clearStreamedSections(documentId: string): Promise<void> {
+        await this.redis.del(this.getSectionStreamKey(documentId), this.getFinalSectionsKey(documentId));
+    }
+
+    private getSectionStreamKey(documentId: string): string {
+        return `stream:document:${documentId}`;
+    }
+
+    private getFinalSectionsKey(documentId: string): string {
+        return `stream:document:${documentId}:final`;
+    }
+
     /**
      * RAG-specific progress methods
      */
@@ -464,6 +559,54 @@ export class UnifiedProgressService extends EventEmitter {
         });
     }
 
+    /**
+     * Storage migration progress methods
+     */
+    async createStorageMigrationProgress(
+        migrationId: string,
+        userId: string,
+        totalFiles: number,
+        filesMigrated = 0
+    ): Promise<string> {
+        return this.createProgress(
+            'storage-migration',
+            migrationId,
+            userId,
+            'Preparing storage migration...',
+            {
+                startedAt: Date.now(),
+                totalFiles,
+                filesMigrated,
+                filesFailed: 0,
+            }
+        );
+    }
+
+    async updateStorageMigrationProgress(
+        progressId: string,
+        filesMigrated: number,
+        filesFailed: number,
+        currentFile: string
+    ): Promise<void> {
+        const current = await this.getProgressById(progressId);
+        if (!current) return;
+
+        const totalFiles = current.metadata.totalFiles || 1;
+        const progress = Math.round(((filesMigrated + filesFailed) / totalFiles) * 100);
+
+        await this.updateProgress(progressId, {
+            stage: 'copying',
+            progress: Math.min(progress, 99),
+            message: `Copying ${currentFile}...`,
+            metadata: {
+                ...current.metadata,
+                filesMigrated,
+                filesFailed,
+                currentFile,
+            },
+        });
+    }
+
     /**
      * Private helper methods
      */
@@ -478,11 +621,12 @@ export class UnifiedProgressService extends EventEmitter {
     }
 
     private broadcastProgress(progress: UnifiedProgress): void {
-        if (!this.io) return;
+        const io = this.io;
+        if (!io) return;
 
         const rooms = this.getProgressRooms(progress);
         rooms.forEach(room => {
-            this.io.to(room).emit('progress:update', progress);
+            io.to(room).emit('progress:update', progress);
         });
     }
 
@@ -534,6 +678,13 @@ export const fileProgress = {
     fail: progressService.failProgress.bind(progressService),
 };
 
+export const storageMigrationProgress = {
+    start: progressService.createStorageMigrationProgress.bind(progressService),
+    updateFile: progressService.updateStorageMigrationProgress.bind(progressService),
+    complete: progressService.completeProgress.bind(progressService),
+    fail: progressService.failProgress.bind(progressService),
+};
+
 // Export factory function for testing
 export function getProgressService(redisUrl?: string): UnifiedProgressService {
     return new UnifiedProgressService(redisUrl);
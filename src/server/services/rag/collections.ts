@@ -0,0 +1,130 @@
+// File: src/server/services/rag/collections.ts
+// ============================================
+
+import { CollectionAccess, type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+export type CollectionRole = "owner" | "edit" | "read";
+
+const ROLE_RANK: Record<CollectionRole, number> = { read: 0, edit: 1, owner: 2 };
+
+export interface SourceSelection {
+    sourceIds?: string[];
+    collectionIds?: string[];
+}
+
+/**
+ * Access checks for knowledge collections, and resolution of a selection of
+ * sources and collections into the source ids a user may retrieve from
+ */
+export class KnowledgeCollectionService {
+    constructor(private prisma: PrismaClient) {}
+
+    /**
+     * The user's role on a collection, or null when they cannot see it
+     */
+    async getRole(collectionId: string, userId: string): Promise<CollectionRole | null> {
+        const collection = await this.prisma.knowledgeCollection.findUnique({
+            where: { id: collectionId },
+            select: {
+                ownerId: true,
+                members: { where: { userId }, select: { access: true } },
+            },
+        });
+
+        if (!collection) return null;
+        if (collection.ownerId === userId) return "owner";
+
+        const member = collection.members[0];
+        if (!member) return null;
+        return member.access === CollectionAccess.EDIT ? "edit" : "read";
+    }
+
+    /**
+     * Throw unless the user has at least the given role. Collections the
+     * user cannot see at all are reported as missing.
+     */
+    async requireRole(
+        collectionId: string,
+        userId: string,
+        required: CollectionRole
+    ): Promise<CollectionRole> {
+        const role = await this.getRole(collectionId, userId);
+
+        if (!role) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
+        }
+        if (ROLE_RANK[role] < ROLE_RANK[required]) {
+            throw new TRPCError({
+                code: "FORBIDDEN",
+                message: required === "owner"
+                    ? "Only the owner of this collection can do that"
+                    : "You have read-only access to this collection",
+            });
+        }
+
+        return role;
+    }
+
+    /**
+     * Ids of collections the user owns or has been given access to
+     */
+    async accessibleCollectionIds(userId: string): Promise<string[]> {
+        const collections = await this.prisma.knowledgeCollection.findMany({
+            where: {
+                OR: [
+                    { ownerId: userId },
+                    { members: { some: { userId } } },
+                ],
+            },
+            select: { id: true },
+        });
+        return collections.map(collection => collection.id);
+    }
+
+    /**
+     * Source ids the user may retrieve from for a selection. With nothing
+     * selected that is only their own library; shared collections are used
+     * only when selected. Selected sources and collections the user has no
+     * access to are dropped.
+     */
+    async resolveSourceIds(userId: string, selection: SourceSelection = {}): Promise<string[]> {
+        const { sourceIds = [], collectionIds = [] } = selection;
+
+        if (sourceIds.length === 0 && collectionIds.length === 0) {
+            const sources = await this.prisma.knowledgeSource.findMany({
+                where: { userId },
+                select: { id: true },
+            });
+            return sources.map(source => source.id);
+        }
+
+        const accessible = await this.accessibleCollectionIds(userId);
+        const ids = new Set<string>();
+
+        if (sourceIds.length > 0) {
+            const sources = await this.prisma.knowledgeSource.findMany({
+                where: {
+                    id: { in: sourceIds },
+                    OR: [
+                        { userId },
+                        { collections: { some: { id: { in: accessible } } } },
+                    ],
+                },
+                select: { id: true },
+            });
+            sources.forEach(source => ids.add(source.id));
+        }
+
+        const allowedCollections = collectionIds.filter(id => accessible.includes(id));
+        if (allowedCollections.length > 0) {
+            const sources = await this.prisma.knowledgeSource.findMany({
+                where: { collections: { some: { id: { in: allowedCollections } } } },
+                select: { id: true },
+            });
+            sources.forEach(source => ids.add(source.id));
+        }
+
+        return [...ids];
+    }
+}
@@ -2,16 +2,25 @@
 // ============================================
 
 import { OpenAIEmbeddingService } from "./openai";
+import { LocalEmbeddingService } from "./local";
 import { BaseEmbeddingService } from "./base";
 import { env } from "~/env";
 
-export type EmbeddingProvider = 'openai' | 'cohere' | 'huggingface';
+export type EmbeddingProvider = 'openai' | 'local' | 'cohere' | 'huggingface';
+
+/**
+ * The provider used when none is given: EMBEDDING_PROVIDER, or the local
+ * endpoint when the LLMs run there too.
+ */
+export function defaultEmbeddingProvider(): EmbeddingProvider {
+    return env.EMBEDDING_PROVIDER ?? (env.DEFAULT_LLM_PROVIDER === 'local' ? 'local' : 'openai');
+}
 
 export class EmbeddingService {
     private service: BaseEmbeddingService;
 
     constructor(
-        provider: EmbeddingProvider = 'openai',
+        provider: EmbeddingProvider = defaultEmbeddingProvider(),
         options: {
             apiKey?: string;
             model?: string;
@@ -27,6 +36,13 @@ export class EmbeddingService {
                 );
                 break;
 
+            case 'local':
+                this.service = new LocalEmbeddingService({
+                    apiKey: options.apiKey,
+                    model: options.model,
+                });
+                break;
+
             // Future providers
             case 'cohere':
             case 'huggingface':
@@ -68,5 +84,5 @@ export class EmbeddingService {
 }
 
 // Export types and classes
-export { OpenAIEmbeddingService };
+export { OpenAIEmbeddingService, LocalEmbeddingService };
 export type { EmbeddingResult, TextChunk, ChunkWithEmbedding } from '../types';
\ No newline at end of file
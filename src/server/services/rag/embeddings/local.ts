@@ -0,0 +1,95 @@
+// File: src/server/services/rag/embeddings/local.ts
+// ============================================
+
+import { TRPCError } from "@trpc/server";
+import { BaseEmbeddingService } from "./base";
+import type { EmbeddingResult } from "../types";
+import { env } from "~/env";
+
+// Embeddings from the same OpenAI-compatible server as the local LLM
+// provider (Ollama, vLLM, llama.cpp server, ...). No API key is required.
+
+interface EmbeddingList {
+    data?: Array<{ index?: number; embedding: number[] }>;
+    error?: { message?: string };
+}
+
+export class LocalEmbeddingService extends BaseEmbeddingService {
+    private baseUrl: string;
+    private apiKey?: string;
+    private maxBatchSize = 32;
+
+    constructor(
+        options: {
+            baseUrl?: string;
+            apiKey?: string;
+            model?: string;
+        } = {}
+    ) {
+        // The dimension depends on the model and is known after the first request
+        super(options.model ?? env.LOCAL_EMBEDDING_MODEL, 0);
+        this.baseUrl = (options.baseUrl ?? env.LOCAL_LLM_BASE_URL).replace(/\/+$/, "");
+        this.apiKey = options.apiKey ?? env.LOCAL_LLM_API_KEY;
+    }
+
+    async embedText(text: string): Promise<EmbeddingResult> {
+        const [result] = await this.embedBatch([text]);
+        if (!result) {
+            throw new TRPCError({
+                code: "INTERNAL_SERVER_ERROR",
+                message: "Failed to generate embedding: empty response",
+            });
+        }
+        return result;
+    }
+
+    async embedBatch(texts: string[]): Promise<EmbeddingResult[]> {
+        const results: EmbeddingResult[] = [];
+
+        for (let i = 0; i < texts.length; i += this.maxBatchSize) {
+            const batch = texts.slice(i, i + this.maxBatchSize);
+
+            try {
+                const response = await fetch(`${this.baseUrl}/embeddings`, {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+                    },
+                    body: JSON.stringify({ model: this.model, input: batch }),
+                });
+
+                const data = (await response.json().catch(() => ({}))) as EmbeddingList;
+                if (!response.ok) {
+                    throw new Error(data.error?.message ?? `HTTP ${response.status}`);
+                }
+
+                // Servers may answer out of order; `index` says which input each is for
+                const embeddings = [...(data.data ?? [])].sort(
+                    (a, b) => (a.index ?? 0) - (b.index ?? 0)
+                );
+                if (embeddings.length !== batch.length) {
+                    throw new Error(`Expected ${batch.length} embeddings, got ${embeddings.length}`);
+                }
+
+                embeddings.forEach(({ embedding }, j) => {
+                    this.dimension = embedding.length;
+                    results.push({ embedding, tokenCount: this.countTokens(batch[j] ?? "") });
+                });
+            } catch (error) {
+                console.error(`Local embedding error at index ${i}:`, error);
+                throw new TRPCError({
+                    code: "INTERNAL_SERVER_ERROR",
+                    message: `Failed to generate embeddings: ${error instanceof Error ? error.message : String(error)}`,
+                });
+            }
+        }
+
+        return results;
+    }
+
+    countTokens(text: string): number {
+        // No tokenizer for arbitrary local models: ~4 characters per token
+        return Math.ceil(text.length / 4);
+    }
+}
@@ -5,6 +5,12 @@ import { PrismaClient } from "@prisma/client";
 import { DocumentProcessor } from "./processing/document-processor";
 import { EmbeddingService } from "./embeddings";
 import { PgVectorStore } from "./vectorstore/pgvector";
+import { hashContent, planChunkEmbeddings } from "./ingestion/dedupe";
+import { KnowledgeCollectionService } from "./collections";
+import type { RetrievalOptions, SearchResult } from "./types";
+
+// Chunks sent to the embedding API per request
+const EMBEDDING_BATCH_SIZE = 50;
 
 export interface RAGContext {
     sources: Array<{
@@ -21,20 +27,24 @@ export class RAGService {
     private processor: DocumentProcessor;
     private embeddingService: EmbeddingService;
     private vectorStore: PgVectorStore;
+    private collections: KnowledgeCollectionService;
 
     constructor(private prisma: PrismaClient) {
         this.processor = new DocumentProcessor();
         this.embeddingService = new EmbeddingService();
         this.vectorStore = new PgVectorStore(prisma, this.embeddingService);
+        this.collections = new KnowledgeCollectionService(prisma);
     }
 
     /**
-     * Process and store a knowledge source
+     * Process and store a knowledge source. Extra metadata is kept on the
+     * source and on every chunk.
      */
     async ingestDocument(
         sourceId: string,
         buffer: Buffer,
-        mimeType: string
+        mimeType: string,
+        metadata: Record<string, unknown> = {}
     ): Promise<void> {
         try {
             // Update status to processing
@@ -43,35 +53,20 @@ export class RAGService {
                 data: { status: "PROCESSING" },
             });
 
-            // Process document into chunks
-            const processed = await this.processor.processDocument(buffer, mimeType);
-
-            // Generate embeddings for chunks
-            const embeddings = await this.embeddingService.embedChunks(processed.chunks);
+            const content = await this.extractContent(buffer, mimeType);
+            await this.prisma.knowledgeSource.update({
+                where: { id: sourceId },
+                data: { content, mimeType },
+            });
 
-            // Store embeddings
-            await this.vectorStore.storeEmbeddings(
-                sourceId,
-                embeddings.map((item, index) => ({
-                    content: item.chunk.content,
-                    embedding: item.embedding,
-                    metadata: {
-                        ...item.chunk.metadata,
-                        ...processed.metadata,
-                    },
-                    chunkIndex: index,
-                    tokenCount: item.tokenCount,
-                }))
-            );
+            await this.processSource(sourceId, { metadata });
 
-            // Update source with processed content
             await this.prisma.knowledgeSource.update({
                 where: { id: sourceId },
                 data: {
-                    content: processed.content,
                     status: "COMPLETED",
                     processedAt: new Date(),
-                    metadata: processed.metadata,
+                    error: null,
                 },
             });
         } catch (error) {
@@ -87,6 +82,168 @@ export class RAGService {
         }
     }
 
+    /**
+     * Extract the text of an uploaded file
+     */
+    async extractContent(buffer: Buffer, mimeType: string): Promise<string> {
+        const { content } = await this.processor.extractText(buffer, mimeType);
+        return content;
+    }
+
+    /**
+     * Chunk and embed a source's extracted content. Chunks whose text is
+     * already embedded anywhere in the user's library reuse that embedding,
+     * so re-processing an edited source only pays for the chunks that
+     * changed, and those unchanged chunks keep their embedding ids. Status
+     * is left to the caller.
+     */
+    async processSource(
+        sourceId: string,
+        options: {
+            metadata?: Record<string, unknown>;
+            onProgress?: (processed: number, total: number) => Promise<void> | void;
+        } = {}
+    ): Promise<{
+        chunksProcessed: number;
+        embeddingsGenerated: number;
+        embeddingsReused: number;
+        tokensUsed: number;
+    }> {
+        const source = await this.prisma.knowledgeSource.findUniqueOrThrow({
+            where: { id: sourceId },
+            select: { userId: true, content: true, mimeType: true, metadata: true },
+        });
+
+        if (!source.content) {
+            throw new Error("Knowledge source has no extracted content");
+        }
+
+        const processed = await this.processor.processText(
+            source.content,
+            source.mimeType || "text/plain"
+        );
+        const model = this.embeddingService.getModel();
+
+        // Embeddings are only interchangeable within one model
+        const hashes = processed.chunks.map(chunk => hashContent(chunk.content));
+        const existing = await this.prisma.embedding.findMany({
+            where: {
+                contentHash: { in: hashes },
+                source: { userId: source.userId },
+                metadata: { path: ["embeddingModel"], equals: model },
+            },
+            select: { contentHash: true, embedding: true, tokenCount: true },
+            distinct: ["contentHash"],
+        });
+
+        const { reused, pending } = planChunkEmbeddings(
+            processed.chunks,
+            existing.map(item => ({
+                contentHash: item.contentHash!,
+                embedding: item.embedding as number[],
+                tokenCount: item.tokenCount,
+            }))
+        );
+
+        const total = processed.chunks.length;
+        await options.onProgress?.(reused.length, total);
+
+        // Repeated chunks within the source are embedded once
+        const unique = [...new Map(pending.map(item => [item.contentHash, item])).values()];
+        const generated = new Map<string, { embedding: number[]; tokenCount: number }>();
+
+        for (let i = 0; i < unique.length; i += EMBEDDING_BATCH_SIZE) {
+            const batch = unique.slice(i, i + EMBEDDING_BATCH_SIZE);
+            const results = await this.embeddingService.embedBatch(batch.map(item => item.chunk.content));
+
+            batch.forEach((item, index) => generated.set(item.contentHash, results[index]!));
+            await options.onProgress?.(
+                Math.min(total, reused.length + Math.round(pending.length * (i + batch.length) / unique.length)),
+                total
+            );
+        }
+
+        const sourceMetadata = { ...processed.metadata, ...options.metadata };
+        const byHash = new Map<string, { embedding: number[]; tokenCount: number | null }>([
+            ...reused.map(item => [item.contentHash, item] as const),
+            ...generated.entries(),
+        ]);
+
+        await this.vectorStore.storeEmbeddings(
+            sourceId,
+            processed.chunks.map((chunk, index) => {
+                const contentHash = hashes[index]!;
+                const stored = byHash.get(contentHash)!;
+
+                return {
+                    content: chunk.content,
+                    embedding: stored.embedding,
+                    contentHash,
+                    metadata: {
+                        ...chunk.metadata,
+                        ...sourceMetadata,
+                        embeddingModel: model,
+                    },
+                    chunkIndex: index,
+                    tokenCount: stored.tokenCount ?? undefined,
+                };
+            })
+        );
+
+        const tokensUsed = unique.reduce(
+            (sum, item) => sum + (generated.get(item.contentHash)?.tokenCount ?? 0),
+            0
+        );
+
+        await this.prisma.knowledgeSource.update({
+            where: { id: sourceId },
+            data: {
+                contentHash: hashContent(processed.content),
+                metadata: {
+                    ...(source.metadata as Record<string, unknown> | null),
+                    ...sourceMetadata,
+                    embeddingsReused: reused.length,
+                },
+            },
+        });
+
+        return {
+            chunksProcessed: total,
+            embeddingsGenerated: unique.length,
+            embeddingsReused: reused.length,
+            tokensUsed,
+        };
+    }
+
+    /**
+     * Search embedded chunks for a query. Results keep the embedding id so
+     * generated text can cite the exact chunk it used.
+     *
+     * With a userId, results come from the user's own sources, or from the
+     * selected sources and collections the user has access to. Shared
+     * collections are only searched when selected.
+     */
+    async search(query: string, options: RetrievalOptions = {}): Promise<SearchResult[]> {
+        const { collectionIds, ...filter } = options;
+
+        if (filter.userId) {
+            const sourceIds = await this.collections.resolveSourceIds(filter.userId, {
+                sourceIds: filter.sourceIds,
+                collectionIds,
+            });
+            if (sourceIds.length === 0) {
+                return [];
+            }
+
+            // Shared sources belong to other users, so filter by id only
+            filter.userId = undefined;
+            filter.sourceIds = sourceIds;
+        }
+
+        const queryEmbedding = await this.embeddingService.embedQuery(query);
+        return this.vectorStore.search(queryEmbedding, filter);
+    }
+
     /**
      * Retrieve relevant context for a query
      */
@@ -96,10 +253,11 @@ export class RAGService {
         options: {
             limit?: number;
             sourceIds?: string[];
+            collectionIds?: string[];
             threshold?: number;
         } = {}
     ): Promise<RAGContext> {
-        const results = await this.vectorStore.search(query, {
+        const results = await this.search(query, {
             userId,
             ...options,
         });
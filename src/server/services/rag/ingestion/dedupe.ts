@@ -0,0 +1,114 @@
+// File: src/server/services/rag/ingestion/dedupe.ts
+// ============================================
+
+import { createHash } from "crypto";
+
+/**
+ * Hash of text with whitespace normalized, so re-extracting the same file or
+ * re-pasting the same text gives the same hash. Used for whole sources, to
+ * find duplicates in a library, and for chunks, to reuse their embeddings.
+ */
+export function hashContent(text: string): string {
+    return createHash("sha256")
+        .update(text.replace(/\s+/g, " ").trim())
+        .digest("hex");
+}
+
+export interface ReusableEmbedding {
+    contentHash: string;
+    embedding: number[];
+    tokenCount: number | null;
+}
+
+/**
+ * Split chunks into those whose embedding can be copied from an earlier
+ * chunk with the same text and those that still need embedding
+ */
+export function planChunkEmbeddings<T extends { content: string }>(
+    chunks: T[],
+    existing: ReusableEmbedding[]
+): {
+    reused: Array<{ chunk: T; contentHash: string; embedding: number[]; tokenCount: number | null }>;
+    pending: Array<{ chunk: T; contentHash: string }>;
+} {
+    const byHash = new Map(existing.map(item => [item.contentHash, item]));
+    const reused = [];
+    const pending = [];
+
+    for (const chunk of chunks) {
+        const contentHash = hashContent(chunk.content);
+        const match = byHash.get(contentHash);
+
+        if (match) {
+            reused.push({ chunk, contentHash, embedding: match.embedding, tokenCount: match.tokenCount });
+        } else {
+            pending.push({ chunk, contentHash });
+        }
+    }
+
+    return { reused, pending };
+}
+
+export interface StoredChunkRow {
+    id: string;
+    chunkIndex: number;
+    contentHash: string | null;
+}
+
+/**
+ * Match a source's re-chunked content against its stored rows, so chunks
+ * whose text is unchanged keep their row, and with it the embedding id
+ * that citations point at. A row at the same position is preferred; moved
+ * chunks take any row with the same text. Rows left over belong to removed
+ * chunks.
+ */
+export function planChunkRows<T extends { chunkIndex: number; contentHash?: string }>(
+    chunks: T[],
+    rows: StoredChunkRow[]
+): {
+    update: Array<{ id: string; chunk: T }>;
+    create: T[];
+    remove: string[];
+} {
+    const byPosition = new Map(rows.map(row => [`${row.contentHash}:${row.chunkIndex}`, row]));
+    const claimed = new Set<string>();
+    const update: Array<{ id: string; chunk: T }> = [];
+    const unmatched: T[] = [];
+
+    for (const chunk of chunks) {
+        const row = chunk.contentHash ? byPosition.get(`${chunk.contentHash}:${chunk.chunkIndex}`) : undefined;
+
+        if (row) {
+            claimed.add(row.id);
+            update.push({ id: row.id, chunk });
+        } else {
+            unmatched.push(chunk);
+        }
+    }
+
+    const byHash = new Map<string, StoredChunkRow[]>();
+    for (const row of rows) {
+        if (claimed.has(row.id) || !row.contentHash) continue;
+        const sameText = byHash.get(row.contentHash) ?? [];
+        sameText.push(row);
+        byHash.set(row.contentHash, sameText);
+    }
+
+    const create: T[] = [];
+    for (const chunk of unmatched) {
+        const row = chunk.contentHash ? byHash.get(chunk.contentHash)?.shift() : undefined;
+
+        if (row) {
+            claimed.add(row.id);
+            update.push({ id: row.id, chunk });
+        } else {
+            create.push(chunk);
+        }
+    }
+
+    return {
+        update,
+        create,
+        remove: rows.filter(row => !claimed.has(row.id)).map(row => row.id),
+    };
+}
@@ -0,0 +1,407 @@
+// File: src/server/services/rag/ingestion/web.ts
+// ============================================
+
+import { decode } from "html-entities";
+import { MAX_REDIRECTS, assertPublicUrl, fetchPublicUrl, readLimitedText } from "~/server/services/network";
+
+export const CRAWLER_USER_AGENT = "DocGenBot/1.0";
+
+export interface CrawlOptions {
+    // Link hops from the start page; 0 fetches only the start page
+    maxDepth: number;
+    maxPages: number;
+    userAgent?: string;
+    // Minimum pause between requests; robots.txt Crawl-delay can raise it
+    delayMs?: number;
+    timeoutMs?: number;
+    // Pages larger than this are skipped
+    maxBytes?: number;
+    // Only for development and tests against a local server
+    allowPrivateHosts?: boolean;
+    fetch?: typeof fetch;
+}
+
+export interface CrawledPage {
+    url: string;
+    depth: number;
+    title?: string;
+    content: string;
+}
+
+export interface CrawlResult {
+    pages: CrawledPage[];
+    // Pages that answered 404 or 410
+    missing: string[];
+    skipped: Array<{ url: string; reason: string }>;
+}
+
+export interface RobotsRules {
+    allow: string[];
+    disallow: string[];
+    crawlDelay?: number;
+}
+
+// Longest Crawl-delay we honour; sites asking for more are crawled at this pace
+const MAX_CRAWL_DELAY_MS = 10_000;
+
+// robots.txt beyond this is ignored, as major crawlers do
+const MAX_ROBOTS_BYTES = 512 * 1024;
+
+// Links to these are never HTML pages
+const SKIPPED_EXTENSIONS = /\.(pdf|jpe?g|png|gif|svg|webp|ico|css|js|json|xml|zip|gz|tar|mp3|mp4|mov|avi|woff2?|ttf|eot|docx?|xlsx?|pptx?)$/i;
+
+// Elements that hold navigation and chrome rather than page content
+const BOILERPLATE_TAGS = [
+    "script", "style", "noscript", "template", "svg", "iframe",
+    "nav", "header", "footer", "aside", "form", "button",
+];
+// Elements marked as chrome by their role, class or id
+const BOILERPLATE_ELEMENTS = new RegExp(
+    "<(\\w+)\\b[^>]*?\\b(?:" +
+    "role=[\"'](?:navigation|banner|contentinfo|complementary|search)[\"']" +
+    "|(?:class|id)=[\"'][^\"']*\\b(?:cookie|breadcrumbs?|sidebar|menu|share|social|advert(?:isement)?|newsletter)\\b[^\"']*[\"']" +
+    ")[^>]*>[\\s\\S]*?<\\/\\1>",
+    "gi"
+);
+
+const BLOCK_TAGS = /<\/?(?:p|div|section|article|main|h[1-6]|li|ul|ol|tr|table|blockquote|pre|br|hr|dd|dt)\b[^>]*>/gi;
+
+/**
+ * Parse robots.txt into the rules for our user agent. A group naming the
+ * agent takes precedence over the wildcard group.
+ */
+export function parseRobotsTxt(text: string, userAgent = CRAWLER_USER_AGENT): RobotsRules {
+    const agent = userAgent.split("/")[0]!.toLowerCase();
+    const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+    let current: { agents: string[]; rules: RobotsRules } | undefined;
+    let readingAgents = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, "").trim();
+        const separator = line.indexOf(":");
+        if (separator === -1) continue;
+
+        const field = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (field === "user-agent") {
+            // Consecutive User-agent lines share one group
+            if (!current || !readingAgents) {
+                current = { agents: [], rules: { allow: [], disallow: [] } };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+            readingAgents = true;
+            continue;
+        }
+
+        readingAgents = false;
+        if (!current) continue;
+
+        if (field === "allow" && value) {
+            current.rules.allow.push(value);
+        } else if (field === "disallow" && value) {
+            current.rules.disallow.push(value);
+        } else if (field === "crawl-delay") {
+            const delay = Number(value);
+            if (!Number.isNaN(delay)) current.rules.crawlDelay = delay;
+        }
+    }
+
+    const matching = groups.find(group => group.agents.some(a => a !== "*" && agent.includes(a)))
+        ?? groups.find(group => group.agents.includes("*"));
+
+    return matching?.rules ?? { allow: [], disallow: [] };
+}
+
+/**
+ * Whether robots rules allow a URL. The longest matching rule wins and Allow
+ * wins ties, as in RFC 9309.
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+    const { pathname, search } = new URL(url);
+    const path = pathname + search;
+
+    const longest = (patterns: string[]) => Math.max(
+        -1,
+        ...patterns.filter(pattern => robotsPatternMatches(pattern, path)).map(p => p.length)
+    );
+
+    const allow = longest(rules.allow);
+    const disallow = longest(rules.disallow);
+    return disallow === -1 || allow >= disallow;
+}
+
+function robotsPatternMatches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith("$");
+    const source = (anchored ? pattern.slice(0, -1) : pattern)
+        .split("*")
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+
+    return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path);
+}
+
+/**
+ * Resolve a link against the page it appears on. Returns null for anything
+ * that is not an http(s) page; fragments are dropped so anchors within a
+ * page don't count as new pages.
+ */
+export function normalizeUrl(href: string, base: string): string | null {
+    let url: URL;
+    try {
+        url = new URL(decode(href.trim()), base);
+    } catch {
+        return null;
+    }
+
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    if (SKIPPED_EXTENSIONS.test(url.pathname)) return null;
+
+    url.hash = "";
+    return url.toString();
+}
+
+/**
+ * Pull the readable text, title and same-site links out of an HTML page.
+ * Navigation, headers, footers and similar chrome are dropped; when the page
+ * marks its content with <main> or <article>, only that is kept.
+ */
+export function extractPage(html: string, url: string): {
+    title?: string;
+    content: string;
+    links: string[];
+} {
+    const origin = new URL(url).origin;
+    const withoutComments = html.replace(/<!--[\s\S]*?-->/g, "");
+
+    const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(withoutComments)?.[1];
+
+    // Links are read before boilerplate is removed; navigation is where most
+    // of a site's links live
+    const links = new Set<string>();
+    for (const match of withoutComments.matchAll(/<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))[^>]*>/gi)) {
+        if (/\brel=["'][^"']*\bnofollow\b/i.test(match[0])) continue;
+
+        const link = normalizeUrl(match[1] ?? match[2] ?? match[3] ?? "", url);
+        if (link && new URL(link).origin === origin) links.add(link);
+    }
+
+    let body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(withoutComments)?.[1] ?? withoutComments;
+    body = body.replace(/<head\b[^>]*>[\s\S]*?<\/head>/i, "");
+
+    for (const tag of BOILERPLATE_TAGS) {
+        body = body.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, "gi"), " ");
+    }
+    body = body.replace(BOILERPLATE_ELEMENTS, " ");
+
+    const main = /<main\b[^>]*>([\s\S]*?)<\/main>/i.exec(body)?.[1]
+        ?? /<article\b[^>]*>([\s\S]*?)<\/article>/i.exec(body)?.[1];
+    if (main && htmlToText(main).length > 200) {
+        body = main;
+    }
+
+    return {
+        title: title ? decode(title).replace(/\s+/g, " ").trim() || undefined : undefined,
+        content: htmlToText(body),
+        links: [...links],
+    };
+}
+
+function htmlToText(html: string): string {
+    const text = decode(
+        html
+            .replace(BLOCK_TAGS, "\n")
+            .replace(/<[^>]+>/g, " ")
+    );
+
+    return text
+        .split("\n")
+        .map(line => line.replace(/\s+/g, " ").trim())
+        .filter(Boolean)
+        .join("\n");
+}
+
+/**
+ * Breadth-first crawler that stays on the start page's origin, follows
+ * robots.txt and fetches one page at a time.
+ */
+export class WebCrawler {
+    private fetch: (url: string, init?: RequestInit) => Promise<Response>;
+    private userAgent: string;
+
+    constructor(private options: CrawlOptions) {
+        // fetchPublicUrl also checks the address each connection is made to,
+        // which a lookup before the request can't guarantee
+        this.fetch = options.fetch ?? (options.allowPrivateHosts ? globalThis.fetch : fetchPublicUrl);
+        this.userAgent = options.userAgent ?? CRAWLER_USER_AGENT;
+    }
+
+    async crawl(
+        startUrl: string,
+        onPage?: (page: CrawledPage) => Promise<void> | void
+    ): Promise<CrawlResult> {
+        const start = normalizeUrl(startUrl, startUrl);
+        if (!start) {
+            throw new Error(`Not a crawlable URL: ${startUrl}`);
+        }
+        await this.assertPublic(start);
+
+        const robots = await this.fetchRobots(start);
+        const delayMs = Math.max(
+            this.options.delayMs ?? 500,
+            Math.min((robots.crawlDelay ?? 0) * 1000, MAX_CRAWL_DELAY_MS)
+        );
+
+        const result: CrawlResult = { pages: [], missing: [], skipped: [] };
+        const queue: Array<{ url: string; depth: number }> = [{ url: start, depth: 0 }];
+        const seen = new Set([start]);
+        let requests = 0;
+
+        while (queue.length > 0 && result.pages.length < this.options.maxPages) {
+            const { url, depth } = queue.shift()!;
+
+            if (!isAllowedByRobots(robots, url)) {
+                result.skipped.push({ url, reason: "Disallowed by robots.txt" });
+                continue;
+            }
+
+            if (requests++ > 0 && delayMs > 0) {
+                await new Promise(resolve => setTimeout(resolve, delayMs));
+            }
+
+            let fetched: Awaited<ReturnType<WebCrawler["fetchPage"]>>;
+            try {
+                fetched = await this.fetchPage(url);
+            } catch (error) {
+                result.skipped.push({ url, reason: error instanceof Error ? error.message : String(error) });
+                continue;
+            }
+
+            if (fetched.status === 404 || fetched.status === 410) {
+                result.missing.push(url);
+                continue;
+            }
+            if (!fetched.html) {
+                result.skipped.push({ url, reason: fetched.reason ?? `HTTP ${fetched.status}` });
+                continue;
+            }
+
+            const extracted = extractPage(fetched.html, fetched.url);
+            const page: CrawledPage = {
+                url,
+                depth,
+                title: extracted.title,
+                content: extracted.content,
+            };
+
+            result.pages.push(page);
+            await onPage?.(page);
+
+            if (depth < this.options.maxDepth) {
+                for (const link of extracted.links) {
+                    if (seen.has(link)) continue;
+                    seen.add(link);
+                    queue.push({ url: link, depth: depth + 1 });
+                }
+            }
+        }
+
+        return result;
+    }
+
+    private async fetchRobots(start: string): Promise<RobotsRules> {
+        try {
+            const { response } = await this.request(new URL("/robots.txt", start).toString());
+            if (!response.ok) {
+                await response.body?.cancel();
+                // A missing robots.txt allows everything
+                return { allow: [], disallow: [] };
+            }
+
+            const { text } = await readLimitedText(response, MAX_ROBOTS_BYTES);
+            return parseRobotsTxt(text, this.userAgent);
+        } catch {
+            return { allow: [], disallow: [] };
+        }
+    }
+
+    private async fetchPage(url: string): Promise<{
+        url: string;
+        status: number;
+        html?: string;
+        reason?: string;
+    }> {
+        const { response, url: finalUrl } = await this.request(url);
+
+        const skip = async (reason?: string) => {
+            await response.body?.cancel();
+            return { url: finalUrl, status: response.status, reason };
+        };
+
+        // Redirects may leave the site
+        if (new URL(finalUrl).origin !== new URL(url).origin) {
+            return skip("Redirected to another site");
+        }
+        if (!response.ok) {
+            return skip();
+        }
+
+        const contentType = response.headers.get("content-type") ?? "";
+        if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+            return skip(`Not an HTML page (${contentType || "unknown type"})`);
+        }
+
+        const maxBytes = this.options.maxBytes ?? 2 * 1024 * 1024;
+        if (Number(response.headers.get("content-length") ?? 0) > maxBytes) {
+            return skip("Page is too large");
+        }
+
+        // Content-Length may be missing or wrong, so stop reading at the limit
+        const { text: html, truncated } = await readLimitedText(response, maxBytes);
+        if (truncated) {
+            return { url: finalUrl, status: response.status, reason: "Page is too large" };
+        }
+
+        return { url: finalUrl, status: response.status, html };
+    }
+
+    /**
+     * Fetch a URL, following redirects one hop at a time so every address
+     * is checked before it is requested.
+     */
+    private async request(url: string): Promise<{ response: Response; url: string }> {
+        const signal = AbortSignal.timeout(this.options.timeoutMs ?? 15_000);
+        let current = url;
+
+        for (let redirects = 0; ; redirects++) {
+            await this.assertPublic(current);
+
+            const response = await this.fetch(current, {
+                headers: {
+                    "User-Agent": this.userAgent,
+                    Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.1",
+                },
+                redirect: "manual",
+                signal,
+            });
+
+            const location = response.headers.get("location");
+            if (response.status < 300 || response.status >= 400 || !location) {
+                return { response, url: current };
+            }
+
+            await response.body?.cancel();
+            if (redirects >= MAX_REDIRECTS) {
+                throw new Error("Too many redirects");
+            }
+            current = new URL(location, current).toString();
+        }
+    }
+
+    private async assertPublic(url: string) {
+        if (!this.options.allowPrivateHosts) {
+            await assertPublicUrl(url);
+        }
+    }
+}
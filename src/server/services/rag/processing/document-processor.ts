@@ -46,52 +46,73 @@ export class DocumentProcessor {
             chunkOverlap?: number;
         } = {}
     ): Promise<ProcessedDocument> {
-        // Update splitter if custom options provided
-        if (options.chunkSize || options.chunkOverlap) {
-            this.splitter = new RecursiveCharacterTextSplitter({
-                chunkSize: options.chunkSize || 1000,
-                chunkOverlap: options.chunkOverlap || 200,
-            });
-        }
+        const { content, pageCount } = await this.extractText(buffer, mimeType);
+        const processed = await this.processText(content, mimeType, options);
 
-        let content: string;
-        let metadata: ProcessedDocument["metadata"] = {
-            mimeType,
-            wordCount: 0,
-        };
+        if (pageCount) {
+            processed.metadata.pageCount = pageCount;
+        }
+        return processed;
+    }
 
-        // Extract text based on file type
+    /**
+     * Extract the text of a document file
+     */
+    async extractText(
+        buffer: Buffer,
+        mimeType: string
+    ): Promise<{ content: string; pageCount?: number }> {
         switch (mimeType) {
-            case "application/pdf":
+            case "application/pdf": {
                 const { default: parsePdf } = await import("pdf-parse") as { default: PdfParseFn };
                 const pdfData = await parsePdf(buffer);
-                content = pdfData.text;
-                metadata.pageCount = pdfData.numpages;
-                break;
+                return { content: this.normalizeText(pdfData.text), pageCount: pdfData.numpages };
+            }
 
             case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
-            case "application/msword":
+            case "application/msword": {
                 const mammothModule = await import("mammoth") as unknown as MammothModule;
                 const docResult = await mammothModule.extractRawText({ buffer });
-                content = docResult.value;
-                break;
+                return { content: this.normalizeText(docResult.value) };
+            }
 
             case "text/plain":
             case "text/markdown":
-                content = buffer.toString("utf-8");
-                break;
+                return { content: this.normalizeText(buffer.toString("utf-8")) };
 
             case "text/html":
-                content = this.extractTextFromHtml(buffer.toString("utf-8"));
-                break;
+                return { content: this.extractTextFromHtml(buffer.toString("utf-8")) };
 
             default:
                 throw new Error(`Unsupported file type: ${mimeType}`);
         }
+    }
+
+    /**
+     * Split extracted text into chunks
+     */
+    async processText(
+        text: string,
+        mimeType: string,
+        options: {
+            chunkSize?: number;
+            chunkOverlap?: number;
+        } = {}
+    ): Promise<ProcessedDocument> {
+        // Update splitter if custom options provided
+        if (options.chunkSize || options.chunkOverlap) {
+            this.splitter = new RecursiveCharacterTextSplitter({
+                chunkSize: options.chunkSize || 1000,
+                chunkOverlap: options.chunkOverlap || 200,
+            });
+        }
 
         // Clean and normalize content
-        content = this.normalizeText(content);
-        metadata.wordCount = content.split(/\s+/).length;
+        const content = this.normalizeText(text);
+        const metadata: ProcessedDocument["metadata"] = {
+            mimeType,
+            wordCount: content.split(/\s+/).length,
+        };
 
         // Split into chunks
         const textChunks = await this.splitter.splitText(content);
@@ -53,6 +53,8 @@ export interface RetrievalOptions {
     limit?: number;
     threshold?: number;
     sourceIds?: string[];
+    // Knowledge collections to retrieve from, checked against userId
+    collectionIds?: string[];
     userId?: string;
     includeMetadata?: boolean;
     rerank?: boolean;
@@ -28,6 +28,8 @@ export abstract class BaseVectorStore {
             metadata?: Record<string, any>;
             chunkIndex: number;
             tokenCount?: number;
+            // Hash of the chunk text, used to reuse its embedding later
+            contentHash?: string;
         }>
     ): Promise<void>;
 
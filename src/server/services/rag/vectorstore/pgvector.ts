@@ -1,8 +1,9 @@
 // File: src/server/services/rag/vectorstore/pgvector.ts
 // ============================================
 
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 import { BaseVectorStore } from "./base";
+import { planChunkRows } from "../ingestion/dedupe";
 import type { SearchResult, RetrievalOptions, VectorStoreConfig } from "../types";
 import { TRPCError } from "@trpc/server";
 
@@ -45,25 +46,51 @@ export class PgVectorStore extends BaseVectorStore {
             metadata?: Record<string, any>;
             chunkIndex: number;
             tokenCount?: number;
+            contentHash?: string;
         }>
     ): Promise<void> {
         try {
-            // Delete existing embeddings for this source
-            await this.deleteSource(sourceId);
+            // Rows of unchanged chunks are updated in place rather than
+            // recreated, so citations keep pointing at them
+            const rows = await this.prisma.embedding.findMany({
+                where: { sourceId },
+                select: { id: true, chunkIndex: true, contentHash: true },
+            });
+            const { update, create, remove } = planChunkRows(embeddings, rows);
 
-            // Batch insert new embeddings
-            const data = embeddings.map(item => ({
-                sourceId,
+            const toData = (item: (typeof embeddings)[number]) => ({
                 chunkIndex: item.chunkIndex,
                 content: item.content,
                 embedding: item.embedding,
                 metadata: item.metadata || {},
                 tokenCount: item.tokenCount,
-            }));
-
-            await this.prisma.embedding.createMany({ data });
+                contentHash: item.contentHash,
+            });
 
-            console.log(`✅ Stored ${embeddings.length} embeddings for source ${sourceId}`);
+            // Kept rows that change position first move to a free negative
+            // index, so (sourceId, chunkIndex) stays unique in between
+            const storedIndex = new Map(rows.map(row => [row.id, row.chunkIndex]));
+            const moved = update
+                .filter(({ id, chunk }) => storedIndex.get(id) !== chunk.chunkIndex)
+                .map(({ id }) => id);
+
+            await this.prisma.$transaction([
+                this.prisma.embedding.deleteMany({ where: { id: { in: remove } } }),
+                ...(moved.length > 0
+                    ? [this.prisma.$executeRaw`UPDATE "Embedding" SET "chunkIndex" = -1 - "chunkIndex" WHERE id IN (${Prisma.join(moved)})`]
+                    : []),
+                ...update.map(({ id, chunk }) =>
+                    this.prisma.embedding.update({ where: { id }, data: toData(chunk) })
+                ),
+                this.prisma.embedding.createMany({
+                    data: create.map(item => ({ sourceId, ...toData(item) })),
+                }),
+            ]);
+
+            console.log(
+                `✅ Stored ${embeddings.length} embeddings for source ${sourceId} ` +
+                `(${update.length} kept, ${create.length} new, ${remove.length} removed)`
+            );
         } catch (error) {
             console.error("Failed to store embeddings:", error);
             throw new TRPCError({
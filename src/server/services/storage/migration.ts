@@ -0,0 +1,315 @@
+// src/server/services/storage/migration.ts
+
+import { Queue } from "bullmq";
+import { Redis } from "ioredis";
+import { TRPCError } from "@trpc/server";
+import { ProcessingStatus, type Prisma, type StorageMigration } from "@prisma/client";
+import { env } from "~/env";
+import { db } from "~/server/db";
+import { StorageManager, type StorageBackend } from "~/server/services/storage";
+
+export const STORAGE_MIGRATION_QUEUE = "storage-migration";
+
+export interface StorageMigrationJobData {
+    migrationId: string;
+}
+
+export interface StartMigrationOptions {
+    from: StorageBackend;
+    to: StorageBackend;
+    deleteSource?: boolean;
+}
+
+export interface MigrationFailure {
+    kind: StoredFileKind;
+    id: string;
+    storageKey: string;
+    error: string;
+}
+
+export interface MigrationFileProgress {
+    totalFiles: number;
+    migratedFiles: number;
+    failedFiles: number;
+    currentFile: string;
+}
+
+type StoredFileKind = "knowledge-source" | "export";
+
+interface StoredFile {
+    kind: StoredFileKind;
+    id: string;
+    storageKey: string;
+    url: string | null;
+}
+
+// Files loaded per query while walking a user's files
+const PAGE_SIZE = 50;
+
+let queue: Queue<StorageMigrationJobData> | undefined;
+
+function getQueue(): Queue<StorageMigrationJobData> {
+    queue ??= new Queue<StorageMigrationJobData>(STORAGE_MIGRATION_QUEUE, {
+        connection: new Redis(env.REDIS_URL, { maxRetriesPerRequest: null }),
+    });
+    return queue;
+}
+
+export class StorageMigrationService {
+    /**
+     * Record a migration of the user's files and queue it. New uploads go to
+     * the target backend from now on, so nothing is left behind.
+     */
+    static async start(userId: string, options: StartMigrationOptions) {
+        if (options.from === options.to) {
+            throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: "Choose two different storage backends",
+            });
+        }
+
+        const available = StorageManager.availableBackends();
+        for (const backend of [options.from, options.to]) {
+            if (!available.includes(backend)) {
+                throw new TRPCError({
+                    code: "BAD_REQUEST",
+                    message: `${backend} storage is not configured on this server`,
+                });
+            }
+        }
+
+        const active = await db.storageMigration.findFirst({
+            where: {
+                userId,
+                status: { in: [ProcessingStatus.PENDING, ProcessingStatus.PROCESSING] },
+            },
+        });
+        if (active) {
+            throw new TRPCError({
+                code: "CONFLICT",
+                message: "A storage migration is already running",
+            });
+        }
+
+        await db.userPreferences.upsert({
+            where: { userId },
+            create: { userId, preferredStorage: options.to },
+            update: { preferredStorage: options.to },
+        });
+
+        const migration = await db.storageMigration.create({
+            data: {
+                userId,
+                fromProvider: options.from,
+                toProvider: options.to,
+                deleteSource: options.deleteSource ?? false,
+                totalFiles: await this.countFiles(userId, options.from),
+            },
+        });
+
+        await this.queueMigration(migration.id);
+        return migration;
+    }
+
+    /**
+     * Queue a failed or interrupted migration again. Files already moved
+     * are on the target backend and are not copied a second time.
+     */
+    static async resume(userId: string, migrationId: string) {
+        const migration = await db.storageMigration.findFirst({
+            where: { id: migrationId, userId },
+        });
+
+        if (!migration) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Storage migration not found" });
+        }
+        if (migration.status === ProcessingStatus.COMPLETED) {
+            throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: "This storage migration has already completed",
+            });
+        }
+
+        const updated = await db.storageMigration.update({
+            where: { id: migration.id },
+            data: { status: ProcessingStatus.PENDING, error: null },
+        });
+
+        await this.queueMigration(migration.id);
+        return updated;
+    }
+
+    static async queueMigration(migrationId: string) {
+        await getQueue().add(
+            "migrate",
+            { migrationId },
+            // Not kept once finished, so a resumed migration can be queued again
+            { jobId: `storage-migration-${migrationId}`, removeOnComplete: true, removeOnFail: true },
+        );
+    }
+
+    /**
+     * Copy every file still on the old backend to the new one, verifying
+     * each copy by checksum before its record is switched over. Counts are
+     * saved after every file, so a stopped run picks up where it left off.
+     */
+    static async execute(
+        migrationId: string,
+        onProgress?: (progress: MigrationFileProgress) => Promise<void>,
+    ): Promise<StorageMigration> {
+        const migration = await db.storageMigration.findUniqueOrThrow({
+            where: { id: migrationId },
+        });
+
+        if (migration.status === ProcessingStatus.COMPLETED) {
+            return migration;
+        }
+
+        const from = migration.fromProvider as StorageBackend;
+        const to = migration.toProvider as StorageBackend;
+        let migratedFiles = migration.migratedFiles;
+        const failures: MigrationFailure[] = [];
+        const totalFiles = migratedFiles + (await this.countFiles(migration.userId, from));
+
+        await db.storageMigration.update({
+            where: { id: migrationId },
+            data: {
+                status: ProcessingStatus.PROCESSING,
+                startedAt: migration.startedAt ?? new Date(),
+                totalFiles,
+                // Failed files are tried again on every run
+                failedFiles: 0,
+                failures: [],
+            },
+        });
+
+        try {
+            for await (const file of this.filesOn(migration.userId, from)) {
+                await onProgress?.({
+                    totalFiles,
+                    migratedFiles,
+                    failedFiles: failures.length,
+                    currentFile: file.storageKey,
+                });
+
+                try {
+                    await this.moveFile(file, from, to, migration.deleteSource);
+                    migratedFiles++;
+                } catch (error) {
+                    failures.push({
+                        kind: file.kind,
+                        id: file.id,
+                        storageKey: file.storageKey,
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                }
+
+                await db.storageMigration.update({
+                    where: { id: migrationId },
+                    data: {
+                        migratedFiles,
+                        failedFiles: failures.length,
+                        failures: failures as unknown as Prisma.InputJsonValue,
+                    },
+                });
+            }
+        } catch (error) {
+            await db.storageMigration.update({
+                where: { id: migrationId },
+                data: {
+                    status: ProcessingStatus.FAILED,
+                    error: error instanceof Error ? error.message : "Storage migration failed",
+                },
+            });
+            throw error;
+        }
+
+        return db.storageMigration.update({
+            where: { id: migrationId },
+            data: {
+                status: failures.length === 0 ? ProcessingStatus.COMPLETED : ProcessingStatus.FAILED,
+                error: failures.length === 0
+                    ? null
+                    : `${failures.length} of ${totalFiles} files could not be copied`,
+                completedAt: failures.length === 0 ? new Date() : null,
+            },
+        });
+    }
+
+    private static async countFiles(userId: string, backend: StorageBackend): Promise<number> {
+        const where = { userId, storageProvider: backend, storageKey: { not: null } };
+        const [sources, exported] = await Promise.all([
+            db.knowledgeSource.count({ where }),
+            db.export.count({ where }),
+        ]);
+        return sources + exported;
+    }
+
+    /**
+     * Knowledge source files, then export files, on a backend. Walks by id
+     * so files that fail to copy, and stay on the backend, are not revisited.
+     */
+    private static async *filesOn(userId: string, backend: StorageBackend): AsyncGenerator<StoredFile> {
+        const where = { userId, storageProvider: backend, storageKey: { not: null } };
+        const select = { id: true, storageKey: true, url: true } as const;
+        type Row = { id: string; storageKey: string | null; url: string | null };
+
+        let cursor: string | undefined;
+        while (true) {
+            const sources: Row[] = await db.knowledgeSource.findMany({
+                where: { ...where, id: cursor ? { gt: cursor } : undefined },
+                select,
+                orderBy: { id: "asc" },
+                take: PAGE_SIZE,
+            });
+            for (const source of sources) {
+                yield { kind: "knowledge-source", ...source, storageKey: source.storageKey! };
+            }
+            if (sources.length < PAGE_SIZE) break;
+            cursor = sources[sources.length - 1]!.id;
+        }
+
+        cursor = undefined;
+        while (true) {
+            const records: Row[] = await db.export.findMany({
+                where: { ...where, id: cursor ? { gt: cursor } : undefined },
+                select,
+                orderBy: { id: "asc" },
+                take: PAGE_SIZE,
+            });
+            for (const record of records) {
+                yield { kind: "export", ...record, storageKey: record.storageKey! };
+            }
+            if (records.length < PAGE_SIZE) break;
+            cursor = records[records.length - 1]!.id;
+        }
+    }
+
+    private static async moveFile(
+        file: StoredFile,
+        from: StorageBackend,
+        to: StorageBackend,
+        deleteSource: boolean,
+    ) {
+        const storageKey = await StorageManager.copy(file.storageKey, from, to);
+
+        // Only URLs that point straight at the old backend change; app routes
+        // such as export downloads read through the record
+        const oldUrl = await StorageManager.getProvider(from).getUrl(file.storageKey);
+        const url = file.url === oldUrl
+            ? await StorageManager.getProvider(to).getUrl(storageKey)
+            : file.url;
+
+        // Matched on the old location, so a file replaced meanwhile isn't
+        // pointed back at the copy of its previous version
+        const where = { id: file.id, storageProvider: from, storageKey: file.storageKey };
+        const data = { storageProvider: to, storageKey, url };
+        const { count } = file.kind === "export"
+            ? await db.export.updateMany({ where, data })
+            : await db.knowledgeSource.updateMany({ where, data });
+
+        if (count > 0 && deleteSource) {
+            await StorageManager.getProvider(from).delete(file.storageKey);
+        }
+    }
+}
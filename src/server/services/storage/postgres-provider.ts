@@ -0,0 +1,44 @@
+// src/server/services/storage/postgres-provider.ts
+
+import type { StorageProvider } from "~/server/services/storage/types";
+import { db } from "~/server/db";
+
+/**
+ * Keeps file contents in the application database (StoredFile), for
+ * deployments without a shared disk or object store.
+ */
+export class PostgresStorageProvider implements StorageProvider {
+    async upload(data: Buffer, key: string): Promise<string> {
+        await db.storedFile.upsert({
+            where: { key },
+            create: { key, data, size: data.length },
+            update: { data, size: data.length },
+        });
+        return key;
+    }
+
+    async download(key: string): Promise<Buffer> {
+        const file = await db.storedFile.findUnique({
+            where: { key },
+            select: { data: true },
+        });
+
+        if (!file) throw new Error(`No stored file for key ${key}`);
+        return Buffer.from(file.data);
+    }
+
+    async delete(key: string): Promise<void> {
+        await db.storedFile.deleteMany({ where: { key } });
+    }
+
+    async exists(key: string): Promise<boolean> {
+        const count = await db.storedFile.count({ where: { key } });
+        return count > 0;
+    }
+
+    // Database files have no URL of their own and are only served through
+    // the app, so this is a reference to the key rather than a fetchable URL
+    async getUrl(key: string): Promise<string> {
+        return `postgresql://stored-files/${key}`;
+    }
+}
@@ -13,21 +13,47 @@ import { env } from "~/env";
 export class S3StorageProvider implements StorageProvider {
     private client: S3Client;
     private bucket: string;
+    private endpoint?: string;
 
-    constructor(options?: { region?: string; bucket?: string }) {
+    constructor(options?: {
+        region?: string;
+        bucket?: string;
+        endpoint?: string;
+        accessKeyId?: string;
+        secretAccessKey?: string;
+    }) {
+        this.endpoint = options?.endpoint || env.AWS_S3_ENDPOINT;
         this.client = new S3Client({
             region: options?.region || env.AWS_REGION || "us-east-1",
-            credentials: env.AWS_ACCESS_KEY_ID
-                ? {
-                    accessKeyId: env.AWS_ACCESS_KEY_ID,
-                    secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
-                }
-                : undefined,
+            endpoint: this.endpoint,
+            // S3-compatible services generally don't support bucket subdomains
+            forcePathStyle: !!this.endpoint,
+            credentials: S3StorageProvider.getCredentials(
+                options?.accessKeyId ?? env.AWS_ACCESS_KEY_ID,
+                options?.secretAccessKey ?? env.AWS_SECRET_ACCESS_KEY,
+            ),
         });
 
         this.bucket = options?.bucket || env.AWS_S3_BUCKET || "alleyoop-uploads";
     }
 
+    /**
+     * Static credentials, when configured. Without either key the SDK's
+     * default chain (instance role, shared config) is used; one key on its
+     * own is a configuration mistake.
+     */
+    private static getCredentials(
+        accessKeyId?: string,
+        secretAccessKey?: string,
+    ): { accessKeyId: string; secretAccessKey: string } | undefined {
+        if (!accessKeyId && !secretAccessKey) return undefined;
+        if (!accessKeyId || !secretAccessKey) {
+            throw new Error("AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY must be set together");
+        }
+
+        return { accessKeyId, secretAccessKey };
+    }
+
     async upload(data: Buffer, key: string): Promise<string> {
         await this.client.send(
             new PutObjectCommand({
@@ -71,6 +97,9 @@ export class S3StorageProvider implements StorageProvider {
     }
 
     async getUrl(key: string): Promise<string> {
+        if (this.endpoint) {
+            return `${this.endpoint.replace(/\/$/, "")}/${this.bucket}/${key}`;
+        }
         return `https://${this.bucket}.s3.amazonaws.com/${key}`;
     }
 } 
\ No newline at end of file
@@ -0,0 +1,246 @@
+// src/server/services/webhooks/index.ts
+
+import { createHmac, randomBytes } from 'crypto';
+import { Queue } from 'bullmq';
+import { Redis } from 'ioredis';
+import { env } from '~/env';
+import { db } from '~/server/db';
+import { assertPublicUrl, fetchPublicUrl, readLimitedText } from '~/server/services/network';
+import {
+    WEBHOOK_DELIVERY_HEADER,
+    WEBHOOK_EVENT_HEADER,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+    type WebhookEvent,
+} from '~/config/webhooks';
+
+export const WEBHOOK_QUEUE = 'webhook-delivery';
+
+export interface WebhookJobData {
+    deliveryId: string;
+}
+
+// Retried with exponential backoff: 30s, 1m, 2m, 4m, 8m
+const DELIVERY_ATTEMPTS = 6;
+const DELIVERY_BACKOFF_MS = 30_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_BODY = 2000;
+
+let queue: Queue<WebhookJobData> | undefined;
+
+function getQueue(): Queue<WebhookJobData> {
+    queue ??= new Queue<WebhookJobData>(WEBHOOK_QUEUE, {
+        connection: new Redis(env.REDIS_URL, { maxRetriesPerRequest: null }),
+    });
+    return queue;
+}
+
+export class WebhookService {
+    /**
+     * Random signing secret for a new endpoint
+     */
+    static generateSecret(): string {
+        return `whsec_${randomBytes(24).toString('hex')}`;
+    }
+
+    /**
+     * Signature receivers recompute to verify a delivery. Including the
+     * timestamp lets them reject replayed requests.
+     */
+    static sign(secret: string, timestamp: number, body: string): string {
+        const digest = createHmac('sha256', secret)
+            .update(`${timestamp}.${body}`)
+            .digest('hex');
+        return `sha256=${digest}`;
+    }
+
+    /**
+     * Queue a delivery to every enabled endpoint subscribed to the event.
+     * Never throws: a broken webhook must not fail the work that triggered it.
+     */
+    static async dispatch(userId: string, event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+        try {
+            const endpoints = await db.webhookEndpoint.findMany({
+                where: { userId, enabled: true, events: { has: event } },
+                select: { id: true },
+            });
+
+            for (const endpoint of endpoints) {
+                const delivery = await db.webhookDelivery.create({
+                    data: {
+                        endpointId: endpoint.id,
+                        event,
+                        payload: data as object,
+                    },
+                });
+
+                await this.enqueue(delivery.id);
+            }
+        } catch (error) {
+            console.error(`Failed to dispatch ${event} webhook:`, error);
+        }
+    }
+
+    /**
+     * Dispatch a document lifecycle event with the document's current content
+     */
+    static async dispatchDocumentEvent(
+        event: Extract<WebhookEvent, 'document.completed' | 'document.failed'>,
+        documentId: string,
+    ): Promise<void> {
+        const document = await db.document.findUnique({
+            where: { id: documentId },
+            select: {
+                id: true,
+                userId: true,
+                title: true,
+                type: true,
+                status: true,
+                provider: true,
+                model: true,
+                wordCount: true,
+                totalCost: true,
+                completedAt: true,
+                error: true,
+                outline: event === 'document.completed',
+                sections: event === 'document.completed',
+                citations: event === 'document.completed',
+            },
+        });
+
+        if (!document) return;
+
+        const { userId, ...payload } = document;
+        await this.dispatch(userId, event, {
+            ...payload,
+            url: `${env.NEXT_PUBLIC_APP_URL}/documents/${document.id}`,
+        });
+    }
+
+    /**
+     * Send a delivery again with the same payload. The original is kept in
+     * the log and the new attempt links back to it.
+     */
+    static async replay(deliveryId: string) {
+        const original = await db.webhookDelivery.findUniqueOrThrow({
+            where: { id: deliveryId },
+        });
+
+        const delivery = await db.webhookDelivery.create({
+            data: {
+                endpointId: original.endpointId,
+                event: original.event,
+                payload: original.payload as object,
+                replayOf: original.id,
+            },
+        });
+
+        await this.enqueue(delivery.id);
+        return delivery;
+    }
+
+    /**
+     * Throw unless the endpoint URL resolves only to public addresses, so
+     * deliveries can't be aimed at internal services. Skipped when
+     * ALLOW_PRIVATE_NETWORK_REQUESTS is set for local development.
+     */
+    static async assertPublicEndpoint(url: string): Promise<void> {
+        if (env.ALLOW_PRIVATE_NETWORK_REQUESTS) return;
+        await assertPublicUrl(url);
+    }
+
+    /**
+     * POST a delivery to its endpoint. Called by the webhook worker; throws on
+     * failure so BullMQ schedules the next attempt.
+     */
+    static async deliver(deliveryId: string, options: { final: boolean }): Promise<void> {
+        const delivery = await db.webhookDelivery.findUnique({
+            where: { id: deliveryId },
+            include: { endpoint: true },
+        });
+
+        if (!delivery) return;
+
+        if (!delivery.endpoint.enabled) {
+            await db.webhookDelivery.update({
+                where: { id: deliveryId },
+                data: { status: 'FAILED', error: 'Endpoint disabled' },
+            });
+            return;
+        }
+
+        const timestamp = Math.floor(Date.now() / 1000);
+        const body = JSON.stringify({
+            id: delivery.id,
+            event: delivery.event,
+            createdAt: delivery.createdAt.toISOString(),
+            data: delivery.payload,
+        });
+
+        let responseStatus: number | undefined;
+        let responseBody: string | undefined;
+        let error: string | undefined;
+
+        try {
+            // Checked on every attempt, retries included, and again for the
+            // address each connection is made to: the host may resolve
+            // differently than it did when the endpoint was registered
+            const send = env.ALLOW_PRIVATE_NETWORK_REQUESTS ? fetch : fetchPublicUrl;
+
+            const response = await send(delivery.endpoint.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'DocuForge-Webhooks/1.0',
+                    [WEBHOOK_EVENT_HEADER]: delivery.event,
+                    [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+                    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+                    [WEBHOOK_SIGNATURE_HEADER]: this.sign(delivery.endpoint.secret, timestamp, body),
+                },
+                body,
+                // A redirect target hasn't been checked, so a 3xx counts as a failure
+                redirect: 'manual',
+                signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+            });
+
+            responseStatus = response.status;
+            responseBody = (await readLimitedText(response, MAX_RESPONSE_BODY)).text;
+
+            if (!response.ok) {
+                error = `Endpoint responded with ${response.status}`;
+            }
+        } catch (fetchError) {
+            error = fetchError instanceof Error ? fetchError.message : 'Request failed';
+        }
+
+        await db.webhookDelivery.update({
+            where: { id: deliveryId },
+            data: {
+                attempts: { increment: 1 },
+                responseStatus: responseStatus ?? null,
+                responseBody: responseBody ?? null,
+                error: error ?? null,
+                status: error ? (options.final ? 'FAILED' : 'PENDING') : 'SUCCEEDED',
+                deliveredAt: error ? undefined : new Date(),
+            },
+        });
+
+        if (error) {
+            throw new Error(error);
+        }
+    }
+
+    private static async enqueue(deliveryId: string): Promise<void> {
+        await getQueue().add(
+            'deliver',
+            { deliveryId },
+            {
+                jobId: deliveryId,
+                attempts: DELIVERY_ATTEMPTS,
+                backoff: { type: 'exponential', delay: DELIVERY_BACKOFF_MS },
+                removeOnComplete: { age: 3600 },
+                removeOnFail: { age: 86400 },
+            },
+        );
+    }
+}
@@ -18,6 +18,15 @@ export function getIO(): SocketIOServer {
     return io;
 }
 
+/**
+ * The Socket.IO server, if this process runs one. Queue workers also run in
+ * their own process (`npm run dev:queue`), where nothing is broadcast and
+ * clients read progress from Redis instead.
+ */
+export function findIO(): SocketIOServer | undefined {
+    return io;
+}
+
 export function setupWebSocketServer(server: HTTPServer): SocketIOServer {
     if (io) {
         console.log('Socket.IO server already initialized');
@@ -95,6 +104,13 @@ export function setupWebSocketServer(server: HTTPServer): SocketIOServer {
                 if (progress) {
                     socket.emit('generation:progress', JSON.parse(progress));
                 }
+
+                // Replay section text streamed so far (see UnifiedProgressService.streamSectionContent)
+                const streamed = await redis.hgetall(`stream:document:${documentId}`);
+                const finished = new Set(await redis.smembers(`stream:document:${documentId}:final`));
+                for (const [sectionId, content] of Object.entries(streamed)) {
+                    socket.emit('generation:section', { documentId, sectionId, content, final: finished.has(sectionId) });
+                }
             } catch (error) {
                 console.error('Subscription error:', error);
                 socket.emit('error', { message: 'Failed to subscribe to document' });
@@ -1,12 +1,19 @@
 // src/types/preferences.ts
 import { DocumentType } from "@prisma/client";
-import { type ProviderName } from "../server/services/llm/index";
+import { type ProviderName, type SelectableProviderName } from "../server/services/llm/index";
+
+export interface ProviderModelPreference {
+    provider: SelectableProviderName;
+    model: string;
+    // Tried in order when the provider fails or its circuit is open
+    fallbackProviders?: SelectableProviderName[];
+}
 
 export interface UserPreferences {
     id: string;
     userId: string;
     defaultProvider: ProviderName;
-    providerModels: Record<DocumentType, { provider: ProviderName; model: string }>;
+    providerModels: Record<DocumentType, ProviderModelPreference>;
     temperature: number;
     maxTokensOverride: number | null;
     systemPromptStyle: 'professional' | 'creative' | 'technical';
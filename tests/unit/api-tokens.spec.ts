@@ -0,0 +1,78 @@
+import { test, expect } from '@playwright/test';
+import type { PrismaClient } from '@prisma/client';
+import type { ApiTokenService as Service } from '../../src/server/services/api-tokens';
+
+// Tokens are looked up by hash in the database
+test.skip(!process.env.DATABASE_URL, 'Needs DATABASE_URL');
+
+let ApiTokenService: typeof Service;
+let db: PrismaClient;
+let userId: string;
+
+test.beforeAll(async () => {
+    // Loaded here so the env they read is only validated when the specs run
+    ({ ApiTokenService } = await import('../../src/server/services/api-tokens'));
+    ({ db } = await import('../../src/server/db'));
+
+    const user = await db.user.create({ data: { email: `api-tokens-${Date.now()}@example.test` } });
+    userId = user.id;
+});
+
+test.afterAll(async () => {
+    // Tokens go with the user
+    await db.user.delete({ where: { id: userId } });
+});
+
+test.describe('API token scopes', () => {
+    test('allows a token only the scopes it was granted', async () => {
+        const { token } = await ApiTokenService.create(userId, {
+            name: 'progress script',
+            scopes: ['documents:read'],
+        });
+
+        const auth = await ApiTokenService.authorize(`Bearer ${token}`, 'documents:read');
+        expect(auth.session.user.id).toBe(userId);
+        expect(auth.scopes).toEqual(['documents:read']);
+
+        await expect(ApiTokenService.authorize(`Bearer ${token}`, 'documents:write')).rejects.toMatchObject({
+            code: 'FORBIDDEN',
+            message: 'API token is missing the documents:write scope',
+        });
+        await expect(ApiTokenService.authorize(`Bearer ${token}`, 'exports:write')).rejects.toMatchObject({
+            code: 'FORBIDDEN',
+        });
+    });
+
+    test('rejects missing and unknown tokens', async () => {
+        await expect(ApiTokenService.authorize(null, 'documents:read')).rejects.toMatchObject({
+            code: 'UNAUTHORIZED',
+            message: 'Missing bearer token',
+        });
+        await expect(ApiTokenService.authorize('Basic dXNlcjpwYXNz', 'documents:read')).rejects.toMatchObject({
+            code: 'UNAUTHORIZED',
+        });
+        await expect(ApiTokenService.authorize('Bearer dfk_not-a-real-token', 'documents:read')).rejects.toMatchObject({
+            code: 'UNAUTHORIZED',
+            message: 'Invalid, expired or revoked API token',
+        });
+    });
+
+    test('stops accepting revoked and expired tokens', async () => {
+        const revoked = await ApiTokenService.create(userId, { name: 'revoked', scopes: ['documents:read'] });
+        await db.apiToken.update({ where: { id: revoked.record.id }, data: { revokedAt: new Date() } });
+        expect(await ApiTokenService.authenticate(revoked.token)).toBeNull();
+
+        const expired = await ApiTokenService.create(userId, { name: 'expired', scopes: ['documents:read'] });
+        await db.apiToken.update({ where: { id: expired.record.id }, data: { expiresAt: new Date(Date.now() - 1000) } });
+        expect(await ApiTokenService.authenticate(expired.token)).toBeNull();
+    });
+
+    test('stores only a hash and a short prefix of the token', async () => {
+        const { token, record } = await ApiTokenService.create(userId, { name: 'ci', scopes: ['exports:write'] });
+
+        expect(token).toMatch(/^dfk_[A-Za-z0-9_-]{43}$/);
+        expect(record.prefix).toBe(token.slice(0, 10));
+        expect(record.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+        expect(record.tokenHash).not.toContain(token.slice(4));
+    });
+});
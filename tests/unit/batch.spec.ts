@@ -0,0 +1,118 @@
+import { test, expect } from '@playwright/test';
+import { z } from 'zod';
+import {
+    MAX_BATCH_DOCUMENTS,
+    getBatchFields,
+    mapBatchRows,
+    parseBatchFile,
+    suggestColumnMapping,
+    validateBatchInputs,
+} from '../../src/lib/batch';
+
+// Shaped like the built-in document schemas
+const schema = z.object({
+    title: z.string().min(1).default('Untitled Document'),
+    outputLength: z.enum(['short', 'medium', 'long']).default('medium'),
+    subject: z.object({
+        name: z.string().min(1),
+        birthYear: z.number().optional(),
+    }),
+    sections: z.array(z.enum(['early_life', 'career', 'legacy'])).default([]),
+    includePhotos: z.boolean().default(false),
+});
+
+test.describe('batch files', () => {
+    test('parses quoted CSV fields with commas, quotes and newlines', () => {
+        const csv = '\uFEFFname,notes\r\n"Holt, Ada","Said ""hello""\nthen left"\r\n\r\nGrace,\n';
+
+        expect(parseBatchFile(csv, 'people.csv')).toEqual({
+            columns: ['name', 'notes'],
+            rows: [
+                { name: 'Holt, Ada', notes: 'Said "hello"\nthen left' },
+                { name: 'Grace', notes: '' },
+            ],
+        });
+    });
+
+    test('flattens nested JSON objects into dotted columns', () => {
+        const json = JSON.stringify([
+            { title: 'Ada', subject: { name: 'Ada Holt', birthYear: 1931 }, sections: ['career'] },
+            { title: 'Grace', subject: { name: 'Grace Ng' } },
+        ]);
+
+        expect(parseBatchFile(json, 'people.json')).toEqual({
+            columns: ['title', 'subject.name', 'subject.birthYear', 'sections'],
+            rows: [
+                { title: 'Ada', 'subject.name': 'Ada Holt', 'subject.birthYear': 1931, sections: ['career'] },
+                { title: 'Grace', 'subject.name': 'Grace Ng' },
+            ],
+        });
+    });
+
+    test('rejects empty, malformed and oversized files', () => {
+        expect(() => parseBatchFile('name\n', 'people.csv')).toThrow('The file has no rows');
+        expect(() => parseBatchFile('[{"name": ', 'people.json')).toThrow('The file is not valid JSON');
+        expect(() => parseBatchFile('{"name": "Ada"}', 'people.json')).toThrow('must contain an array');
+        expect(() => parseBatchFile('[1]', 'people.json')).toThrow('Item 1 is not an object');
+
+        const csv = ['name', ...Array.from({ length: MAX_BATCH_DOCUMENTS + 1 }, (_, i) => `Person ${i}`)].join('\n');
+        expect(() => parseBatchFile(csv, 'people.csv')).toThrow(`at most ${MAX_BATCH_DOCUMENTS} rows`);
+    });
+});
+
+test.describe('batch column mapping', () => {
+    const fields = getBatchFields(schema);
+
+    test('lists the schema fields a column can fill', () => {
+        expect(fields).toEqual([
+            { path: 'title', kind: 'string', required: false },
+            { path: 'outputLength', kind: 'enum', options: ['short', 'medium', 'long'], required: false },
+            { path: 'subject.name', kind: 'string', required: true },
+            { path: 'subject.birthYear', kind: 'number', required: false },
+            { path: 'sections', kind: 'array', options: ['early_life', 'career', 'legacy'], required: false },
+            { path: 'includePhotos', kind: 'boolean', required: false },
+        ]);
+    });
+
+    test('matches columns by path or last segment, ignoring case and punctuation', () => {
+        expect(suggestColumnMapping(fields, ['Title', 'Name', 'birth_year', 'Photos?'])).toEqual({
+            title: 'Title',
+            outputLength: undefined,
+            'subject.name': 'Name',
+            'subject.birthYear': 'birth_year',
+            sections: undefined,
+            includePhotos: undefined,
+        });
+    });
+
+    test('converts cells to each field\'s type and validates every row', () => {
+        const rows = [
+            { Name: ' Ada Holt ', Year: '1931', Length: 'Long', Sections: 'Early Life; career', Photos: 'yes' },
+            { Name: '', Year: 'unknown', Length: '', Sections: '', Photos: 'no' },
+        ];
+        const mapping = {
+            'subject.name': 'Name',
+            'subject.birthYear': 'Year',
+            outputLength: 'Length',
+            sections: 'Sections',
+            includePhotos: 'Photos',
+        };
+
+        const inputs = mapBatchRows(rows, fields, mapping);
+        expect(inputs).toEqual([
+            {
+                subject: { name: 'Ada Holt', birthYear: 1931 },
+                outputLength: 'long',
+                sections: ['early_life', 'career'],
+                includePhotos: true,
+            },
+            // Empty cells are left out so the schema's defaults apply
+            { subject: { birthYear: 'unknown' }, includePhotos: false },
+        ]);
+
+        const [valid, invalid] = validateBatchInputs(schema, inputs);
+        expect(valid).toMatchObject({ row: 1, errors: [], input: { title: 'Untitled Document' } });
+        expect(invalid!.row).toBe(2);
+        expect(invalid!.errors.map((error) => error.field)).toEqual(['subject.name', 'subject.birthYear']);
+    });
+});
@@ -0,0 +1,175 @@
+import { test, expect } from '@playwright/test';
+import type { PrismaClient } from '@prisma/client';
+import type { BudgetService as Service } from '../../src/server/services/budget';
+import type { ModelCatalogService as Catalog } from '../../src/server/services/llm/model-catalog';
+
+// Reservations are held in the database under a per-user advisory lock
+test.skip(!process.env.DATABASE_URL, 'Needs DATABASE_URL');
+
+let BudgetService: typeof Service;
+let ModelCatalogService: typeof Catalog;
+let db: PrismaClient;
+let userId: string;
+let documentId: string;
+
+test.beforeAll(async () => {
+    // Loaded here so the env they read is only validated when the specs run
+    ({ BudgetService } = await import('../../src/server/services/budget'));
+    ({ ModelCatalogService } = await import('../../src/server/services/llm/model-catalog'));
+    ({ db } = await import('../../src/server/db'));
+});
+
+test.beforeEach(async ({}, testInfo) => {
+    const user = await db.user.create({ data: { email: `budget-${testInfo.testId}-${Date.now()}@example.test` } });
+    const document = await db.document.create({
+        data: { userId: user.id, title: 'Budget spec', type: 'BIOGRAPHY', input: {} },
+    });
+    userId = user.id;
+    documentId = document.id;
+});
+
+test.afterEach(async () => {
+    await db.budgetReservation.deleteMany({ where: { userId } });
+    await db.budgetAlert.deleteMany({ where: { userId } });
+    // Preferences, documents and their calls go with the user
+    await db.user.delete({ where: { id: userId } });
+});
+
+const TOKENS = 20_000;
+
+const setLimit = (monthlyCostLimit: number, allowFallback = false) =>
+    db.userPreferences.create({ data: { userId, monthlyCostLimit, allowFallback } });
+
+const recordCall = (cost: number) =>
+    db.lLMCall.create({
+        data: {
+            documentId,
+            provider: 'openai',
+            model: 'gpt-4',
+            prompt: 'prompt',
+            response: 'response',
+            promptTokens: 100,
+            completionTokens: 100,
+            totalTokens: 200,
+            cost,
+            duration: 10,
+        },
+    });
+
+test.describe('budget reservations', () => {
+    test('holds the estimated cost until the generation settles', async () => {
+        const estimate = await ModelCatalogService.estimateCost('openai', 'gpt-4', TOKENS);
+        await setLimit(estimate * 4);
+
+        const reservation = await BudgetService.reserve(userId, {
+            provider: 'openai',
+            model: 'gpt-4',
+            estimatedTokens: TOKENS,
+            documentId,
+        });
+
+        expect(reservation).toMatchObject({ model: 'gpt-4', estimatedCost: estimate, downgradedFrom: undefined });
+        expect(await BudgetService.getStatus(userId)).toMatchObject({ spent: 0, reserved: estimate });
+
+        // Calls already made count as spend, so only the remainder stays held
+        await recordCall(estimate / 4);
+        const during = await BudgetService.getStatus(userId);
+        expect(during.spent).toBeCloseTo(estimate / 4);
+        expect(during.reserved).toBeCloseTo((estimate * 3) / 4);
+
+        await BudgetService.settle(documentId);
+
+        const settled = await db.budgetReservation.findUniqueOrThrow({ where: { id: reservation.reservationId } });
+        expect(settled.status).toBe('SETTLED');
+        expect(settled.actualCost).toBeCloseTo(estimate / 4);
+
+        const after = await BudgetService.getStatus(userId);
+        expect(after.reserved).toBe(0);
+        expect(after.available).toBeCloseTo(estimate * 4 - estimate / 4);
+    });
+
+    test('rejects a generation that would go over the limit', async () => {
+        const estimate = await ModelCatalogService.estimateCost('openai', 'gpt-4', TOKENS);
+        await setLimit(estimate * 1.5);
+
+        await BudgetService.reserve(userId, { provider: 'openai', model: 'gpt-4', estimatedTokens: TOKENS });
+
+        // The first hold leaves too little for a second one
+        await expect(
+            BudgetService.reserve(userId, { provider: 'openai', model: 'gpt-4', estimatedTokens: TOKENS }),
+        ).rejects.toMatchObject({ code: 'FORBIDDEN', message: expect.stringContaining('would be exceeded') });
+    });
+
+    test('does not let concurrent reservations share the remaining budget', async () => {
+        const estimate = await ModelCatalogService.estimateCost('openai', 'gpt-4', TOKENS);
+        await setLimit(estimate * 1.5);
+
+        const results = await Promise.allSettled(
+            [1, 2, 3].map(() =>
+                BudgetService.reserve(userId, { provider: 'openai', model: 'gpt-4', estimatedTokens: TOKENS }),
+            ),
+        );
+
+        expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    });
+
+    test('falls back to a cheaper model of the same provider when allowed', async () => {
+        const estimate = await ModelCatalogService.estimateCost('openai', 'gpt-4', TOKENS);
+        await setLimit(estimate / 2, true);
+
+        const reservation = await BudgetService.reserve(userId, {
+            provider: 'openai',
+            model: 'gpt-4',
+            estimatedTokens: TOKENS,
+            documentId,
+        });
+
+        expect(reservation.downgradedFrom).toBe('gpt-4');
+        expect(reservation.model).not.toBe('gpt-4');
+        expect(reservation.estimatedCost).toBeLessThanOrEqual(estimate / 2);
+
+        const document = await db.document.findUniqueOrThrow({ where: { id: documentId } });
+        expect(document.model).toBe(reservation.model);
+    });
+
+    test('replaces a document\'s earlier hold when it is queued again', async () => {
+        const first = await BudgetService.reserve(userId, {
+            provider: 'openai',
+            model: 'gpt-4',
+            estimatedTokens: TOKENS,
+            documentId,
+        });
+        await BudgetService.reserve(userId, { provider: 'openai', model: 'gpt-4', estimatedTokens: TOKENS, documentId });
+
+        const active = await db.budgetReservation.findMany({ where: { documentId, status: 'ACTIVE' } });
+        expect(active).toHaveLength(1);
+        expect(active[0]!.id).not.toBe(first.reservationId);
+    });
+
+    test('frees a reservation whose generation never started', async () => {
+        const estimate = await ModelCatalogService.estimateCost('openai', 'gpt-4', TOKENS);
+        await setLimit(estimate * 2);
+
+        const { reservationId } = await BudgetService.reserve(userId, {
+            provider: 'openai',
+            model: 'gpt-4',
+            estimatedTokens: TOKENS,
+        });
+        await BudgetService.release(reservationId);
+
+        expect(await BudgetService.getStatus(userId)).toMatchObject({ reserved: 0, available: estimate * 2 });
+    });
+});
+
+test.describe('budget alerts', () => {
+    test('records each crossed threshold once per month', async () => {
+        await setLimit(1);
+        await recordCall(0.85);
+
+        await BudgetService.checkAlerts(userId);
+        await BudgetService.checkAlerts(userId);
+
+        const alerts = await db.budgetAlert.findMany({ where: { userId }, orderBy: { threshold: 'asc' } });
+        expect(alerts.map((alert) => alert.threshold)).toEqual([50, 80]);
+    });
+});
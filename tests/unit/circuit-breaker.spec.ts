@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test';
+import { Redis } from 'ioredis';
+import type { CircuitBreaker as Breaker } from '../../src/server/services/llm/circuit-breaker';
+
+// Breaker state lives in Redis, shared by every worker
+test.skip(!process.env.REDIS_URL, 'Needs REDIS_URL');
+
+let CircuitBreaker: typeof Breaker;
+let redis: Redis;
+let provider: string;
+
+test.beforeAll(async () => {
+    // Loaded here so the env it reads is only validated when the specs run
+    ({ CircuitBreaker } = await import('../../src/server/services/llm/circuit-breaker'));
+    redis = new Redis(process.env.REDIS_URL!);
+});
+
+test.afterAll(async () => {
+    await redis.quit();
+});
+
+test.beforeEach(({}, testInfo) => {
+    provider = `test-${testInfo.testId}-${Date.now()}`;
+});
+
+test.afterEach(async () => {
+    await redis.del(
+        `llm:circuit:${provider}:outcomes`,
+        `llm:circuit:${provider}:open`,
+        `llm:circuit:${provider}:half-open`,
+    );
+});
+
+// Lets the cooldown pass without waiting for it
+const endCooldown = () => redis.del(`llm:circuit:${provider}:open`);
+
+test.describe('circuit breaker', () => {
+    test('stays closed until enough calls fail', async () => {
+        for (let i = 0; i < 4; i++) await CircuitBreaker.recordFailure(provider);
+        expect(await CircuitBreaker.getState(provider)).toBe('closed');
+
+        await CircuitBreaker.recordFailure(provider);
+        expect(await CircuitBreaker.getState(provider)).toBe('open');
+    });
+
+    test('stays closed while the error rate is under the threshold', async () => {
+        for (let i = 0; i < 6; i++) {
+            await CircuitBreaker.recordSuccess(provider);
+            if (i < 5) await CircuitBreaker.recordFailure(provider);
+        }
+        await CircuitBreaker.recordSuccess(provider);
+
+        expect(await CircuitBreaker.getState(provider)).toBe('closed');
+    });
+
+    test('is half-open after the cooldown and closes on a success', async () => {
+        for (let i = 0; i < 5; i++) await CircuitBreaker.recordFailure(provider);
+        await endCooldown();
+        expect(await CircuitBreaker.getState(provider)).toBe('half-open');
+
+        await CircuitBreaker.recordSuccess(provider);
+        expect(await CircuitBreaker.getState(provider)).toBe('closed');
+    });
+
+    test('reopens on the first failure while half-open', async () => {
+        for (let i = 0; i < 5; i++) await CircuitBreaker.recordFailure(provider);
+        await endCooldown();
+
+        await CircuitBreaker.recordFailure(provider);
+        expect(await CircuitBreaker.getState(provider)).toBe('open');
+    });
+});
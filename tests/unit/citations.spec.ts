@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import {
+    buildCitationInstructions,
+    buildCitationMap,
+    extractCitationMarkers,
+    normalizeCitationMarkers,
+    parseCitations,
+    refreshCitationMap,
+    type CitationSource,
+} from '../../src/server/services/document/citations';
+import { replaceCitations, splitCitations } from '../../src/lib/export/citations';
+
+const sources: CitationSource[] = [
+    {
+        marker: 1,
+        embeddingId: 'emb-1',
+        sourceId: 'src-1',
+        sourceName: 'Annual report.pdf',
+        similarity: 0.91,
+        content: 'Revenue grew 12% in 2023.',
+    },
+    {
+        marker: 2,
+        embeddingId: 'emb-2',
+        sourceId: 'src-2',
+        sourceName: 'Interview notes.txt',
+        similarity: 0.84,
+        content: 'x'.repeat(400),
+    },
+];
+
+test.describe('citations in generated sections', () => {
+    test('lists the numbered sources in the section prompt', () => {
+        const instructions = buildCitationInstructions(sources);
+
+        expect(instructions).toContain('[1] Annual report.pdf\nRevenue grew 12% in 2023.');
+        expect(instructions).toContain('[2] Interview notes.txt');
+        expect(buildCitationInstructions([])).toBe('');
+    });
+
+    test('splits grouped markers and drops ones without a source', () => {
+        expect(normalizeCitationMarkers('Revenue grew [1, 2]. Costs fell [7]. Staff doubled [2, 9].', sources))
+            .toBe('Revenue grew [1][2]. Costs fell . Staff doubled [2].');
+        // Without retrieved sources the text is left as written
+        expect(normalizeCitationMarkers('See [7].', [])).toBe('See [7].');
+    });
+
+    test('collects markers in order of first use', () => {
+        expect(extractCitationMarkers('A [2]. B [1, 2]. C [2][3].')).toEqual([2, 1, 3]);
+    });
+
+    test('maps each section to the sources it cites', () => {
+        const citations = buildCitationMap(
+            { summary: 'Revenue grew [1].', outlook: 'Nothing cited.', risks: 'Per interviews [2][5].' },
+            sources,
+        );
+
+        expect(citations!.sections).toEqual({ summary: [1], risks: [2] });
+        expect(citations!.sources[0]).toEqual({
+            marker: 1,
+            embeddingId: 'emb-1',
+            sourceId: 'src-1',
+            sourceName: 'Annual report.pdf',
+            similarity: 0.91,
+            excerpt: 'Revenue grew 12% in 2023.',
+        });
+        expect(citations!.sources[1]!.excerpt).toBe(`${'x'.repeat(300)}...`);
+        expect(buildCitationMap({ summary: 'Revenue grew [1].' }, [])).toBeNull();
+    });
+
+    test('recomputes the section map after a section changes', () => {
+        const citations = buildCitationMap({ summary: 'Revenue grew [1].' }, sources)!;
+
+        expect(refreshCitationMap(citations, { summary: 'Rewritten [2].', outlook: 'See [1].' }).sections)
+            .toEqual({ summary: [2], outlook: [1] });
+    });
+
+    test('reads stored citations from documents with and without RAG', () => {
+        expect(parseCitations(null)).toBeNull();
+        expect(parseCitations({ sections: {} })).toBeNull();
+        expect(parseCitations({ sources: [] })).toEqual({ sources: [], sections: {} });
+    });
+});
+
+test.describe('citations in exports', () => {
+    const references = [{ marker: 1, sourceName: 'Annual report.pdf', excerpt: 'Revenue grew 12% in 2023.' }];
+
+    test('splits text around markers that resolve to a reference', () => {
+        expect(splitCitations('Revenue grew [1]. Costs [4].', references)).toEqual([
+            { type: 'text', value: 'Revenue grew ' },
+            { type: 'citation', marker: 1 },
+            { type: 'text', value: '. Costs [4].' },
+        ]);
+        expect(splitCitations('Revenue grew [1].', undefined)).toEqual([{ type: 'text', value: 'Revenue grew [1].' }]);
+    });
+
+    test('renders markers in the export format', () => {
+        expect(replaceCitations('Revenue grew [1].', references, (marker) => `<sup>${marker}</sup>`))
+            .toBe('Revenue grew <sup>1</sup>.');
+    });
+});
@@ -0,0 +1,97 @@
+import { test, expect } from '@playwright/test';
+import type { CustomDocumentType } from '@prisma/client';
+import { customFieldSchema, parseCustomSections } from '../../src/config/custom-document-types';
+import {
+    buildCustomDocumentPrompts,
+    parseCustomDocumentInput,
+} from '../../src/server/services/document/custom-types';
+
+const grantReport = {
+    id: 'type-1',
+    slug: 'grant-report',
+    name: 'Grant Report',
+    enabled: true,
+    fields: [
+        { name: 'funder', label: 'Funder', type: 'text', required: true },
+        { name: 'amount', label: 'Amount', type: 'number', required: false },
+        {
+            name: 'region',
+            label: 'Region',
+            type: 'select',
+            required: true,
+            options: [{ value: 'eu', label: 'Europe' }, { value: 'us', label: 'United States' }],
+        },
+        { name: 'outcomes', label: 'Outcomes', type: 'list', required: false },
+    ],
+    sections: [
+        { id: 'results', name: 'Results', order: 2 },
+        { id: 'overview', name: 'Overview', order: 1 },
+    ],
+    estimatedTokens: { short: 1000, medium: 2000, long: 4000 },
+    systemPrompt: 'You write grant reports.',
+    outlinePrompt: 'Outline a {{documentType}} for {{funder}} with sections:\n{{sections}}',
+    sectionPrompt: 'Write {{sectionTitle}} ({{sectionId}}) covering {{outcomes}} in {{region}}.',
+    refinementPrompt: 'Polish for {{funder}}: {{content}}',
+} as unknown as CustomDocumentType;
+
+test.describe('custom document type definitions', () => {
+    test('rejects field names that clash with the shared document fields', () => {
+        expect(customFieldSchema.safeParse({ name: 'title', label: 'Title', type: 'text' }).success).toBe(false);
+        expect(customFieldSchema.safeParse({ name: '2nd', label: 'Second', type: 'text' }).success).toBe(false);
+        expect(customFieldSchema.safeParse({ name: 'funder', label: 'Funder', type: 'text' }).success).toBe(true);
+    });
+
+    test('requires options for select fields', () => {
+        expect(customFieldSchema.safeParse({ name: 'region', label: 'Region', type: 'select' }).success).toBe(false);
+        expect(customFieldSchema.safeParse({ name: 'region', label: 'Region', type: 'multiselect', options: [] }).success)
+            .toBe(false);
+    });
+
+    test('orders sections by their order field', () => {
+        expect(parseCustomSections(grantReport.sections).map((section) => section.id)).toEqual(['overview', 'results']);
+    });
+});
+
+test.describe('custom document input', () => {
+    test('validates input against the type\'s fields with defaults for optional ones', () => {
+        expect(parseCustomDocumentInput(grantReport, { title: 'Q3 report', funder: 'Wellcome', amount: '2500', region: 'eu' }))
+            .toEqual({
+                title: 'Q3 report',
+                outputLength: 'medium',
+                language: 'en',
+                funder: 'Wellcome',
+                amount: 2500,
+                region: 'eu',
+                outcomes: [],
+            });
+    });
+
+    test('rejects missing required fields and unknown options', () => {
+        expect(() => parseCustomDocumentInput(grantReport, { funder: '', region: 'eu' }))
+            .toThrow('Invalid input for Grant Report');
+        expect(() => parseCustomDocumentInput(grantReport, { funder: 'Wellcome', region: 'asia' }))
+            .toThrow('Invalid input for Grant Report');
+    });
+});
+
+test.describe('custom document prompts', () => {
+    const prompts = buildCustomDocumentPrompts(grantReport);
+    const input = { funder: 'Wellcome', region: 'eu', outcomes: ['Two clinics', 'Staff training'] };
+
+    test('renders the admin\'s templates with the document input', () => {
+        expect(prompts.systemPrompts.default).toBe('You write grant reports.');
+        expect(prompts.section('results', undefined, {}, input))
+            .toBe('Write Results (results) covering Two clinics, Staff training in eu.');
+        expect(prompts.section('results', { title: 'Impact' }, {}, input))
+            .toBe('Write Impact (results) covering Two clinics, Staff training in eu.');
+        expect(prompts.refinement('Draft text', input)).toBe('Polish for Wellcome: Draft text');
+    });
+
+    test('asks for the outline in the stored format whatever the template says', () => {
+        const outline = prompts.outline(input, 'openai');
+
+        expect(outline).toContain('Outline a Grant Report for Wellcome with sections:\n- Overview\n- Results');
+        expect(outline).toContain('Return only a JSON object with one key per section, in this order:');
+        expect(outline.indexOf('"overview"')).toBeLessThan(outline.indexOf('"results"'));
+    });
+});
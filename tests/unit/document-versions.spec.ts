@@ -0,0 +1,80 @@
+import { test, expect } from '@playwright/test';
+import type { PrismaClient } from '@prisma/client';
+import { diffLines, diffSections, recordDocumentVersion } from '../../src/server/services/document/versions';
+
+test.describe('line diff', () => {
+    test('keeps common lines and marks the rest as removed or added', () => {
+        expect(diffLines('intro\nold middle\nend', 'intro\nnew middle\nend')).toEqual([
+            { type: 'equal', value: 'intro' },
+            { type: 'removed', value: 'old middle' },
+            { type: 'added', value: 'new middle' },
+            { type: 'equal', value: 'end' },
+        ]);
+    });
+
+    test('treats empty text as having no lines', () => {
+        expect(diffLines('', 'first\nsecond')).toEqual([
+            { type: 'added', value: 'first' },
+            { type: 'added', value: 'second' },
+        ]);
+        expect(diffLines('', '')).toEqual([]);
+    });
+});
+
+test.describe('section diff', () => {
+    test('reports added, removed, modified and unchanged sections', () => {
+        const diffs = diffSections(
+            { intro: 'Hello', body: 'First draft', appendix: 'Tables' },
+            { intro: 'Hello', body: 'Second draft', conclusion: 'Bye' },
+        );
+
+        expect(diffs.map(({ id, change }) => ({ id, change }))).toEqual([
+            { id: 'intro', change: 'unchanged' },
+            { id: 'body', change: 'modified' },
+            { id: 'conclusion', change: 'added' },
+            // Sections that were dropped come last
+            { id: 'appendix', change: 'removed' },
+        ]);
+        expect(diffs[3]!.lines).toEqual([{ type: 'removed', value: 'Tables' }]);
+    });
+
+    test('compares snapshots stored in different shapes', () => {
+        const diffs = diffSections(
+            [{ id: 'intro', name: 'Intro', content: 'Hello', order: 0 }],
+            { intro: 'Hello' },
+        );
+
+        expect(diffs).toEqual([
+            { id: 'intro', title: 'Intro', change: 'unchanged', lines: [{ type: 'equal', value: 'Hello' }] },
+        ]);
+    });
+});
+
+test.describe('recording versions', () => {
+    test('numbers versions per document and counts their words', async () => {
+        const rows: Array<{ documentId: string; version: number; wordCount: number }> = [];
+        const db = {
+            documentVersion: {
+                aggregate: async ({ where }: { where: { documentId: string } }) => {
+                    const versions = rows.filter((row) => row.documentId === where.documentId).map((row) => row.version);
+                    return { _max: { version: versions.length > 0 ? Math.max(...versions) : null } };
+                },
+                create: async ({ data }: { data: (typeof rows)[number] }) => {
+                    rows.push(data);
+                    return data;
+                },
+            },
+        } as unknown as PrismaClient;
+
+        await recordDocumentVersion(db, { documentId: 'a', source: 'GENERATION', sections: { intro: 'One two three' } });
+        await recordDocumentVersion(db, { documentId: 'b', source: 'GENERATION', sections: {} });
+        const latest = await recordDocumentVersion(db, {
+            documentId: 'a',
+            source: 'RESTORE',
+            sections: { intro: 'One two', body: 'three four' },
+        });
+
+        expect(latest).toMatchObject({ documentId: 'a', version: 2, wordCount: 4, source: 'RESTORE', cost: 0 });
+        expect(rows.map(({ documentId, version }) => `${documentId}${version}`)).toEqual(['a1', 'b1', 'a2']);
+    });
+});
@@ -0,0 +1,96 @@
+import { test, expect } from '@playwright/test';
+import type { LLMService } from '../../src/server/services/llm';
+import { JUDGE_RUBRIC, judgeDocument } from '../../src/server/services/evaluation/judge';
+import type * as Scoring from '../../src/server/services/evaluation/scoring';
+
+let scoring: typeof Scoring;
+
+test.beforeAll(async () => {
+    // Loaded here so the env the document configs read is only validated when the specs run
+    process.env.SKIP_ENV_VALIDATION = '1';
+    scoring = await import('../../src/server/services/evaluation/scoring');
+});
+
+// Biography sections: introduction, early_life, education, career,
+// achievements, personal_life, legacy, conclusion
+const biographyOutline = {
+    introduction: { title: 'Introduction' },
+    sections: {
+        early_life: { title: 'Early Life' },
+        education: { title: 'Schooling' },
+        career: { title: 'Career' },
+        achievements: { title: 'Achievements' },
+        family: { title: 'Personal Life' },
+        impact: { title: 'Legacy & Impact' },
+    },
+};
+
+test.describe('evaluation scores', () => {
+    test('checks the outline against the type\'s sections by id or title', () => {
+        expect(scoring.scoreStructure('BIOGRAPHY', biographyOutline, {})).toEqual({
+            score: 7 / 8,
+            missingSections: ['conclusion'],
+        });
+        expect(scoring.scoreStructure('BIOGRAPHY', null, {}).score).toBe(0);
+    });
+
+    test('holds inputs that pick their sections only to those', () => {
+        expect(scoring.scoreStructure('BIOGRAPHY', biographyOutline, { sections: ['career', 'conclusion'] })).toEqual({
+            score: 0.5,
+            missingSections: ['conclusion'],
+        });
+    });
+
+    test('gives full length marks near the target and none at double it', () => {
+        expect(scoring.targetWordCount('BIOGRAPHY', 'short')).toBe(1500);
+        expect(scoring.targetWordCount('BIOGRAPHY', 'unknown')).toBe(3000);
+
+        expect(scoring.scoreLength(1200, 1000)).toBe(1);
+        expect(scoring.scoreLength(800, 1000)).toBe(1);
+        expect(scoring.scoreLength(1625, 1000)).toBeCloseTo(0.5);
+        expect(scoring.scoreLength(2000, 1000)).toBe(0);
+        expect(scoring.scoreLength(0, 1000)).toBe(0);
+    });
+
+    test('rescales the weights when a run has no judge', () => {
+        const scores = { structure: 1, length: 0.5, readability: 1, consistency: 1, tone: 1 };
+
+        expect(scoring.overallScore({ ...scores, judge: 0.5 })).toBeCloseTo(0.8);
+        expect(scoring.overallScore({ ...scores, judge: null })).toBeCloseTo(0.875);
+        expect(scoring.overallScore({})).toBe(0);
+    });
+});
+
+test.describe('judge', () => {
+    const judgeReplying = (reply: string) => {
+        const prompts: string[] = [];
+        const judge = {
+            complete: async ({ prompt }: { prompt: string }) => {
+                prompts.push(prompt);
+                return reply;
+            },
+        } as unknown as LLMService;
+        return { judge, prompts };
+    };
+
+    const params = { documentTypeName: 'Biography', input: { subject: 'Ada Holt' }, content: 'Ada Holt ran the mill.' };
+
+    test('maps the mean rubric score to 0-1', async () => {
+        const { judge, prompts } = judgeReplying(
+            'Here you go: {"scores": {"relevance": 5, "completeness": 4, "coherence": "3", "style": 5, "accuracy": 3}, "feedback": "Solid."}',
+        );
+
+        const result = await judgeDocument(judge, params);
+
+        expect(result.score).toBeCloseTo(0.75);
+        expect(result.feedback.feedback).toBe('Solid.');
+        for (const criterion of JUDGE_RUBRIC) expect(prompts[0]).toContain(`- ${criterion.id}:`);
+    });
+
+    test('rejects replies without JSON or with criteria missing', async () => {
+        await expect(judgeDocument(judgeReplying('Looks good to me').judge, params))
+            .rejects.toThrow('Judge response contained no JSON');
+        await expect(judgeDocument(judgeReplying('{"scores": {"relevance": 5}}').judge, params))
+            .rejects.toThrow('Judge response is missing rubric criteria');
+    });
+});
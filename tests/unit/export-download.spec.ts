@@ -0,0 +1,60 @@
+import { test, expect } from '@playwright/test';
+import {
+    signDownloadToken,
+    verifyDownloadToken,
+} from '../../src/server/services/exports/signing';
+import { contentDisposition } from '../../src/server/services/exports/content-disposition';
+
+const secret = 'test-secret';
+const now = Date.UTC(2026, 0, 1);
+const inAnHour = now / 1000 + 60 * 60;
+
+test.describe('export download tokens', () => {
+    test('round-trips a signed payload until it expires', () => {
+        const token = signDownloadToken(secret, { exportId: 'exp_1', expiresAt: inAnHour, shareId: 'share_1' });
+
+        expect(verifyDownloadToken(secret, token, now)).toEqual({
+            exportId: 'exp_1',
+            expiresAt: inAnHour,
+            shareId: 'share_1',
+        });
+        expect(verifyDownloadToken(secret, token, inAnHour * 1000)).toBeNull();
+    });
+
+    test('rejects tokens signed with another secret or altered', () => {
+        const token = signDownloadToken(secret, { exportId: 'exp_1', expiresAt: inAnHour });
+        const [, signature] = token.split('.');
+        const forged = Buffer.from(JSON.stringify({ exportId: 'exp_2', expiresAt: inAnHour })).toString('base64url');
+
+        expect(verifyDownloadToken('other-secret', token, now)).toBeNull();
+        expect(verifyDownloadToken(secret, `${forged}.${signature}`, now)).toBeNull();
+        expect(verifyDownloadToken(secret, `${token}.extra`, now)).toBeNull();
+        expect(verifyDownloadToken(secret, '', now)).toBeNull();
+    });
+});
+
+test.describe('download filenames', () => {
+    test('quotes plain names and repeats them as filename*', () => {
+        expect(contentDisposition('report.pdf')).toBe(
+            'attachment; filename="report.pdf"; filename*=UTF-8\'\'report.pdf'
+        );
+    });
+
+    test('keeps quotes and line breaks out of the header', () => {
+        const header = contentDisposition('evil"; filename="x.exe\r\nSet-Cookie: a=b.pdf');
+
+        expect(header).not.toMatch(/[\r\n]/);
+        expect(header).toMatch(/^attachment; filename="evil_; filename=_x.exeSet-Cookie: a=b.pdf"; filename\*=UTF-8''/);
+    });
+
+    test('encodes non-ASCII names per RFC 5987 with an ASCII fallback', () => {
+        expect(contentDisposition('Café (draft).docx')).toBe(
+            'attachment; filename="Caf_ (draft).docx"; filename*=UTF-8\'\'Caf%C3%A9%20%28draft%29.docx'
+        );
+    });
+
+    test('drops path separators and falls back for empty names', () => {
+        expect(contentDisposition('../../etc/passwd')).toContain('filename="....etcpasswd"');
+        expect(contentDisposition('\u0000')).toContain('filename="download"');
+    });
+});
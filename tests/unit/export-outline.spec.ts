@@ -0,0 +1,44 @@
+import { test, expect } from '@playwright/test';
+import { getOutline, parseHeading } from '../../src/lib/export/outline';
+import type { DocumentData } from '../../src/lib/export';
+
+const document: DocumentData = {
+    title: 'Plan',
+    type: 'Business Plan',
+    sections: [
+        { id: 'b', name: 'Outlook', order: 2, content: 'Growth continues.' },
+        { id: 'a', name: 'Summary', order: 1, content: 'Intro [1].\n\n# Market\nLarge.\n\n## Risks\nFew.' },
+    ],
+    references: [{ marker: 1, sourceName: 'Report', excerpt: 'Figures' }],
+    metadata: { createdAt: new Date('2025-01-15'), wordCount: 6 },
+};
+
+test.describe('export outline', () => {
+    test('parses headings at the start of a paragraph', () => {
+        expect(parseHeading('## Risks\nFew.\nMore.')).toEqual({ level: 2, title: 'Risks', body: 'Few.\nMore.' });
+        expect(parseHeading('#Market')).toEqual({ level: 1, title: 'Market', body: '' });
+        expect(parseHeading('Text\n# Not a heading')).toBeNull();
+    });
+
+    test('follows section order and nests content headings', () => {
+        expect(getOutline(document)).toEqual([
+            {
+                id: 'section-1',
+                title: 'Summary',
+                number: 1,
+                children: [
+                    { id: 'section-1-1', title: 'Market', children: [] },
+                    { id: 'section-1-2', title: 'Risks', children: [] },
+                ],
+            },
+            { id: 'section-2', title: 'Outlook', number: 2, children: [] },
+            { id: 'references', title: 'References', children: [] },
+        ]);
+    });
+
+    test('leaves out the references when nothing is cited', () => {
+        const outline = getOutline({ ...document, references: [] });
+
+        expect(outline.map((entry) => entry.id)).toEqual(['section-1', 'section-2']);
+    });
+});
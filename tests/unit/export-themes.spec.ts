@@ -0,0 +1,32 @@
+import { test, expect } from '@playwright/test';
+import {
+    DEFAULT_EXPORT_THEME,
+    fillThemeText,
+    fitLogo,
+    parseExportThemeSettings,
+} from '../../src/config/export-themes';
+
+test.describe('export themes', () => {
+    test('fills in defaults and falls back on invalid settings', () => {
+        expect(parseExportThemeSettings({ primaryColor: '#AA0000' })).toEqual({
+            ...DEFAULT_EXPORT_THEME,
+            primaryColor: '#AA0000',
+        });
+        expect(parseExportThemeSettings({ primaryColor: 'red' })).toEqual(DEFAULT_EXPORT_THEME);
+        expect(parseExportThemeSettings(null)).toEqual(DEFAULT_EXPORT_THEME);
+    });
+
+    test('fills header and footer placeholders', () => {
+        const values = { title: 'Q3 Review', author: '' };
+
+        expect(fillThemeText('{title} | Confidential', values)).toBe('Q3 Review | Confidential');
+        expect(fillThemeText('Prepared by {author}', values)).toBe('Prepared by');
+        expect(fillThemeText('{unknown}', values)).toBe('{unknown}');
+    });
+
+    test('scales logos down without distorting them', () => {
+        expect(fitLogo({ dataUrl: '', width: 400, height: 100 }, 200, 64)).toEqual({ width: 200, height: 50 });
+        expect(fitLogo({ dataUrl: '', width: 100, height: 200 }, 200, 64)).toEqual({ width: 32, height: 64 });
+        expect(fitLogo({ dataUrl: '', width: 50, height: 20 }, 200, 64)).toEqual({ width: 50, height: 20 });
+    });
+});
@@ -0,0 +1,104 @@
+import { test, expect } from '@playwright/test';
+import type { PrismaClient } from '@prisma/client';
+import { KnowledgeCollectionService } from '../../src/server/services/rag/collections';
+
+interface Collection {
+    id: string;
+    ownerId: string;
+    members: Array<{ userId: string; access: 'READ' | 'EDIT' }>;
+}
+
+interface Source {
+    id: string;
+    userId: string;
+    collectionIds: string[];
+}
+
+// alice owns a collection shared with bob; carol has one nobody else can see
+const collections: Collection[] = [
+    { id: 'team', ownerId: 'alice', members: [{ userId: 'bob', access: 'READ' }] },
+    { id: 'private', ownerId: 'carol', members: [] },
+];
+
+const sources: Source[] = [
+    { id: 'alice-notes', userId: 'alice', collectionIds: ['team'] },
+    { id: 'alice-draft', userId: 'alice', collectionIds: [] },
+    { id: 'bob-cv', userId: 'bob', collectionIds: [] },
+    { id: 'carol-secret', userId: 'carol', collectionIds: ['private'] },
+];
+
+type SourceWhere = {
+    id?: { in: string[] };
+    userId?: string;
+    collections?: { some: { id: { in: string[] } } };
+    OR?: SourceWhere[];
+};
+
+function matchesSource(source: Source, where: SourceWhere): boolean {
+    if (where.id && !where.id.in.includes(source.id)) return false;
+    if (where.userId && source.userId !== where.userId) return false;
+    if (where.collections && !source.collectionIds.some((id) => where.collections!.some.id.in.includes(id))) {
+        return false;
+    }
+    if (where.OR && !where.OR.some((clause) => matchesSource(source, clause))) return false;
+    return true;
+}
+
+// Just enough of Prisma for the queries the service makes
+const prisma = {
+    knowledgeCollection: {
+        findUnique: async ({ where, select }: {
+            where: { id: string };
+            select: { members: { where: { userId: string } } };
+        }) => {
+            const collection = collections.find((c) => c.id === where.id);
+            if (!collection) return null;
+            return {
+                ownerId: collection.ownerId,
+                members: collection.members.filter((m) => m.userId === select.members.where.userId),
+            };
+        },
+        findMany: async ({ where }: { where: { OR: [{ ownerId: string }, { members: { some: { userId: string } } }] } }) => {
+            const [{ ownerId }, { members }] = where.OR;
+            return collections
+                .filter((c) => c.ownerId === ownerId || c.members.some((m) => m.userId === members.some.userId))
+                .map(({ id }) => ({ id }));
+        },
+    },
+    knowledgeSource: {
+        findMany: async ({ where }: { where: SourceWhere }) =>
+            sources.filter((source) => matchesSource(source, where)).map(({ id }) => ({ id })),
+    },
+} as unknown as PrismaClient;
+
+const service = new KnowledgeCollectionService(prisma);
+
+test.describe('resolveSourceIds', () => {
+    test('uses only the user\'s own sources when nothing is selected', async () => {
+        expect(await service.resolveSourceIds('bob')).toEqual(['bob-cv']);
+        expect(await service.resolveSourceIds('alice', {})).toEqual(['alice-notes', 'alice-draft']);
+    });
+
+    test('includes a shared collection once it is selected', async () => {
+        expect(await service.resolveSourceIds('bob', { collectionIds: ['team'] })).toEqual(['alice-notes']);
+    });
+
+    test('drops collections the user cannot access', async () => {
+        expect(await service.resolveSourceIds('bob', { collectionIds: ['private'] })).toEqual([]);
+        expect(await service.resolveSourceIds('bob', { collectionIds: ['team', 'private'] })).toEqual(['alice-notes']);
+    });
+
+    test('allows selected sources the user owns or reaches through a shared collection', async () => {
+        expect(
+            await service.resolveSourceIds('bob', { sourceIds: ['bob-cv', 'alice-notes', 'alice-draft', 'carol-secret'] }),
+        ).toEqual(['alice-notes', 'bob-cv']);
+    });
+
+    test('reports the role a user has on a collection', async () => {
+        expect(await service.getRole('team', 'alice')).toBe('owner');
+        expect(await service.getRole('team', 'bob')).toBe('read');
+        expect(await service.getRole('team', 'carol')).toBeNull();
+        await expect(service.requireRole('team', 'bob', 'edit')).rejects.toThrow(/read-only/);
+        await expect(service.requireRole('private', 'bob', 'read')).rejects.toThrow(/not found/);
+    });
+});
@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+import { hashContent, planChunkEmbeddings, planChunkRows } from '../../src/server/services/rag/ingestion/dedupe';
+
+test.describe('content hashes', () => {
+    test('ignore differences in whitespace only', () => {
+        expect(hashContent('  Quarterly  report\n\nRevenue grew.\t')).toBe(hashContent('Quarterly report Revenue grew.'));
+        expect(hashContent('Quarterly report')).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    test('change with the text itself', () => {
+        expect(hashContent('Revenue grew.')).not.toBe(hashContent('Revenue fell.'));
+        expect(hashContent('Revenue grew.')).not.toBe(hashContent('revenue grew.'));
+    });
+});
+
+test.describe('chunk embedding plan', () => {
+    const chunk = (content: string, index: number) => ({ content, metadata: { index } });
+
+    test('reuses embeddings of unchanged chunks and embeds the rest', () => {
+        const existing = [
+            { contentHash: hashContent('Intro text.'), embedding: [0.1, 0.2], tokenCount: 3 },
+            { contentHash: hashContent('Removed text.'), embedding: [0.9, 0.9], tokenCount: 2 },
+        ];
+        const chunks = [chunk('Intro  text.', 0), chunk('Edited body.', 1)];
+
+        const { reused, pending } = planChunkEmbeddings(chunks, existing);
+
+        expect(reused).toEqual([
+            { chunk: chunks[0], contentHash: hashContent('Intro text.'), embedding: [0.1, 0.2], tokenCount: 3 },
+        ]);
+        expect(pending).toEqual([{ chunk: chunks[1], contentHash: hashContent('Edited body.') }]);
+    });
+
+    test('embeds everything when nothing was embedded before', () => {
+        const chunks = [chunk('One.', 0), chunk('Two.', 1), chunk('One.', 2)];
+
+        const { reused, pending } = planChunkEmbeddings(chunks, []);
+
+        expect(reused).toEqual([]);
+        // Repeats keep their own entry; the caller embeds each hash once
+        expect(pending.map((item) => item.chunk.metadata.index)).toEqual([0, 1, 2]);
+        expect(pending[0]!.contentHash).toBe(pending[2]!.contentHash);
+    });
+});
+
+test.describe('chunk row plan', () => {
+    const chunk = (content: string, chunkIndex: number) => ({ content, chunkIndex, contentHash: hashContent(content) });
+    const row = (id: string, content: string, chunkIndex: number) => ({ id, chunkIndex, contentHash: hashContent(content) });
+
+    test('keeps the rows of unchanged chunks, even when they moved', () => {
+        const rows = [row('e1', 'Intro.', 0), row('e2', 'Old body.', 1), row('e3', 'Summary.', 2)];
+        // A paragraph was inserted and the body rewritten
+        const chunks = [chunk('Intro.', 0), chunk('New paragraph.', 1), chunk('New body.', 2), chunk('Summary.', 3)];
+
+        const { update, create, remove } = planChunkRows(chunks, rows);
+
+        expect(update).toEqual([
+            { id: 'e1', chunk: chunks[0] },
+            { id: 'e3', chunk: chunks[3] },
+        ]);
+        expect(create).toEqual([chunks[1], chunks[2]]);
+        expect(remove).toEqual(['e2']);
+    });
+
+    test('gives repeated text the row at the same position first', () => {
+        const rows = [row('e1', 'Note.', 0), row('e2', 'Body.', 1), row('e3', 'Note.', 2)];
+        const chunks = [chunk('Body.', 0), chunk('Note.', 1), chunk('Note.', 2)];
+
+        const { update, create, remove } = planChunkRows(chunks, rows);
+
+        expect(update).toEqual([
+            { id: 'e3', chunk: chunks[2] },
+            { id: 'e2', chunk: chunks[0] },
+            { id: 'e1', chunk: chunks[1] },
+        ]);
+        expect(create).toEqual([]);
+        expect(remove).toEqual([]);
+    });
+});
@@ -0,0 +1,179 @@
+import { test, expect } from '@playwright/test';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { LocalProvider as Provider } from '../../src/server/services/llm/providers/local';
+import type { LocalEmbeddingService as EmbeddingService } from '../../src/server/services/rag/embeddings/local';
+
+let LocalProvider: typeof Provider;
+let LocalEmbeddingService: typeof EmbeddingService;
+let server: Server;
+let origin: string;
+const requests: Array<{ url: string; authorization?: string; body?: Record<string, unknown> }> = [];
+
+const readBody = async (req: IncomingMessage) => {
+    let body = '';
+    for await (const chunk of req) body += String(chunk);
+    return body ? (JSON.parse(body) as Record<string, unknown>) : undefined;
+};
+
+test.beforeAll(async () => {
+    // An OpenAI-compatible server at /v1, and an older Ollama at /ollama/v1
+    // that only has its native model listing
+    server = createServer((req, res) => {
+        void readBody(req).then((body) => {
+            requests.push({ url: req.url!, authorization: req.headers.authorization, body });
+
+            if (req.url === '/v1/models') {
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ data: [{ id: 'llama3:8b', owned_by: 'library', max_model_len: 8192 }] }));
+                return;
+            }
+
+            if (req.url === '/api/tags') {
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ models: [{ name: 'mistral:7b' }] }));
+                return;
+            }
+
+            if (req.url === '/v1/embeddings') {
+                // Answered in reverse, with `index` pointing at the input
+                const input = body?.input as string[];
+                const data = input.map((text, index) => ({ index, embedding: [text.length, index] })).reverse();
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ model: body?.model, data }));
+                return;
+            }
+
+            if (req.url === '/v1/chat/completions' && body?.stream) {
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                res.write(`data: ${JSON.stringify({ model: 'llama3:8b', choices: [{ delta: { content: 'Hello' } }] })}\n\n`);
+                res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: ' there' } }] })}\n\n`);
+                res.write(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 2 } })}\n\n`);
+                res.end('data: [DONE]\n\n');
+                return;
+            }
+
+            if (req.url === '/v1/chat/completions') {
+                // Usage left out, as some servers do
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ model: body?.model, choices: [{ message: { content: 'Hello there' } }] }));
+                return;
+            }
+
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: { message: 'model not found' } }));
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // Loaded here so the env it reads is only validated when the specs run
+    process.env.SKIP_ENV_VALIDATION = '1';
+    delete process.env.LOCAL_LLM_DEFAULT_MODEL;
+    ({ LocalProvider } = await import('../../src/server/services/llm/providers/local'));
+    ({ LocalEmbeddingService } = await import('../../src/server/services/rag/embeddings/local'));
+});
+
+test.afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+test.beforeEach(() => {
+    requests.length = 0;
+});
+
+test.describe('local provider', () => {
+    test('discovers models from the OpenAI listing', async () => {
+        const provider = new LocalProvider({ baseUrl: `${origin}/v1/` });
+
+        expect(await provider.listModels()).toEqual([
+            { id: 'llama3:8b', ownedBy: 'library', contextWindow: 8192 },
+        ]);
+    });
+
+    test('falls back to the Ollama tag listing', async () => {
+        const provider = new LocalProvider({ baseUrl: `${origin}/ollama/v1` });
+
+        expect(await provider.listModels()).toEqual([{ id: 'mistral:7b' }]);
+        expect(requests.map(({ url }) => url)).toEqual(['/ollama/v1/models', '/api/tags']);
+    });
+
+    test('uses the first served model when none is configured', async () => {
+        const provider = new LocalProvider({ baseUrl: `${origin}/v1`, apiKey: 'local-key' });
+
+        const response = await provider.generateCompletion({ prompt: 'Say hello', systemPrompt: 'Be brief', model: '' });
+
+        expect(response).toEqual({
+            content: 'Hello there',
+            // Estimated from the text when the server reports no usage
+            promptTokens: 5,
+            completionTokens: 3,
+            totalTokens: 8,
+            model: 'llama3:8b',
+        });
+        expect(requests[1]).toMatchObject({
+            url: '/v1/chat/completions',
+            authorization: 'Bearer local-key',
+            body: {
+                model: 'llama3:8b',
+                messages: [
+                    { role: 'system', content: 'Be brief' },
+                    { role: 'user', content: 'Say hello' },
+                ],
+                stream: false,
+            },
+        });
+    });
+
+    test('streams tokens and takes usage from the final chunk', async () => {
+        const provider = new LocalProvider({ baseUrl: `${origin}/v1` });
+        const tokens: string[] = [];
+
+        const response = await provider.streamCompletion({
+            prompt: 'Say hello',
+            model: 'llama3:8b',
+            onToken: (token) => tokens.push(token),
+        });
+
+        expect(tokens).toEqual(['Hello', ' there']);
+        expect(response).toMatchObject({ content: 'Hello there', promptTokens: 12, completionTokens: 2, totalTokens: 14 });
+        expect(requests[0]!.authorization).toBeUndefined();
+        expect(requests[0]!.body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    });
+
+    test('reports server errors with the server\'s message', async () => {
+        const provider = new LocalProvider({ baseUrl: `${origin}/missing` });
+
+        await expect(provider.generateCompletion({ prompt: 'Say hello', model: 'llama3:8b' })).rejects.toMatchObject({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Local model error: model not found',
+        });
+    });
+});
+
+test.describe('local embeddings', () => {
+    test('embeds a batch in input order', async () => {
+        const embedder = new LocalEmbeddingService({ baseUrl: `${origin}/v1/`, model: 'nomic-embed-text' });
+
+        const results = await embedder.embedBatch(['Intro text.', 'Body']);
+
+        expect(results).toEqual([
+            { embedding: [11, 0], tokenCount: 3 },
+            { embedding: [4, 1], tokenCount: 1 },
+        ]);
+        expect(embedder.getDimension()).toBe(2);
+        expect(requests[0]).toMatchObject({
+            url: '/v1/embeddings',
+            body: { model: 'nomic-embed-text', input: ['Intro text.', 'Body'] },
+        });
+    });
+
+    test('reports server errors with the server\'s message', async () => {
+        const embedder = new LocalEmbeddingService({ baseUrl: `${origin}/missing` });
+
+        await expect(embedder.embedText('Body')).rejects.toMatchObject({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to generate embeddings: model not found',
+        });
+    });
+});
@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+import { DocumentType } from '@prisma/client';
+import { MockProvider } from '../../src/server/services/llm/providers/mock';
+import { OutlineChain, outlineSchema } from '../../src/server/services/llm/chains/outline';
+import { SectionChain } from '../../src/server/services/llm/chains/section';
+
+const input = {
+    subject: { name: 'Ada Lovelace', occupation: 'Mathematician' },
+    purpose: 'professional',
+    tone: 'formal',
+    outputLength: 'medium',
+    focusAreas: ['career', 'achievements'],
+};
+
+test.describe('mock LLM provider', () => {
+    test('generates a schema-valid outline and sections from the input', async () => {
+        const provider = new MockProvider();
+        const outline = await new OutlineChain(provider, 'mock', 'mock-1').generate({
+            documentType: DocumentType.BIOGRAPHY,
+            input,
+        });
+
+        expect(outlineSchema.safeParse(outline).success).toBe(true);
+        expect(outline.title).toContain('Ada Lovelace');
+
+        const [sectionId, details] = Object.entries(outline.sections)[0]!;
+        const section = await new SectionChain(provider, 'mock', 'mock-1').generate({
+            outline,
+            previousSections: {},
+            currentSection: sectionId,
+            sectionDetails: details,
+            documentType: DocumentType.BIOGRAPHY,
+            originalInput: input,
+            targetWords: 300,
+        });
+
+        expect(section.keyPointsCovered).toEqual(details.keyPoints);
+        expect(section.wordCount).toBeGreaterThanOrEqual(240);
+    });
+
+    test('returns the same response for the same request', async () => {
+        const request = { prompt: 'Write about 120 words on testing.', model: 'mock-1' };
+
+        const first = await new MockProvider().generateCompletion(request);
+        const second = await new MockProvider().generateCompletion(request);
+
+        expect(second.content).toBe(first.content);
+        expect(first.completionTokens).toBe(Math.ceil(first.content.length / 4));
+    });
+
+    test('injects rate-limit errors and failures', async () => {
+        const provider = new MockProvider();
+
+        await expect(
+            provider.generateCompletion({ prompt: 'Hello', model: 'mock-rate-limited' }),
+        ).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+        await expect(
+            provider.generateCompletion({ prompt: 'Hello', model: 'mock-failing' }),
+        ).rejects.toThrow(/service_unavailable/);
+    });
+
+    test('cancels a slow request when its signal aborts', async () => {
+        const provider = new MockProvider({ latencyMs: 10_000 });
+
+        await expect(
+            provider.generateCompletion({
+                prompt: 'Hello',
+                model: 'mock-1',
+                signal: AbortSignal.timeout(100),
+            }),
+        ).rejects.toThrow('Generation cancelled');
+    });
+});
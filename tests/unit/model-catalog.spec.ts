@@ -0,0 +1,56 @@
+import { test, expect } from '@playwright/test';
+import type { ModelCatalogService as Catalog } from '../../src/server/services/llm/model-catalog';
+
+// Prices below are the seed prices, which the catalog is filled with when
+// empty and falls back to when the database can't be read
+let ModelCatalogService: typeof Catalog;
+
+test.beforeAll(async () => {
+    // Loaded here so the env it reads is only validated when the specs run
+    process.env.SKIP_ENV_VALIDATION = '1';
+    ({ ModelCatalogService } = await import('../../src/server/services/llm/model-catalog'));
+});
+
+test.describe('model catalog pricing', () => {
+    test('prices prompt and completion tokens separately', async () => {
+        expect(await ModelCatalogService.calculateCost('openai', 'gpt-4', { promptTokens: 1000, completionTokens: 1000 }))
+            .toBeCloseTo(0.09);
+        expect(await ModelCatalogService.calculateCost('openai', 'gpt-4', { promptTokens: 2000, completionTokens: 0 }))
+            .toBeCloseTo(0.06);
+    });
+
+    test('never bills self-hosted and mock models', async () => {
+        const usage = { promptTokens: 5000, completionTokens: 5000 };
+
+        expect(await ModelCatalogService.calculateCost('local', 'llama3:8b', usage)).toBe(0);
+        expect(await ModelCatalogService.calculateCost('mock', 'mock-model', usage)).toBe(0);
+    });
+
+    test('charges unknown models at the provider\'s highest price', async () => {
+        const usage = { promptTokens: 1000, completionTokens: 1000 };
+
+        expect(await ModelCatalogService.calculateCost('openai', 'gpt-unreleased', usage))
+            .toBeCloseTo(await ModelCatalogService.calculateCost('openai', 'gpt-4', usage));
+    });
+
+    test('estimates a token total as mostly completion', async () => {
+        // 30% prompt, 70% completion
+        expect(await ModelCatalogService.estimateCost('openai', 'gpt-4', 10_000)).toBeCloseTo(0.51);
+    });
+});
+
+test.describe('equivalent models', () => {
+    test('picks the fallback model in the nearest price tier', async () => {
+        expect(await ModelCatalogService.findEquivalent('openai', 'gpt-4', 'anthropic')).toBe('claude-3-opus');
+        expect(await ModelCatalogService.findEquivalent('openai', 'gpt-3.5-turbo', 'anthropic')).toBe('claude-3-haiku');
+        expect(await ModelCatalogService.findEquivalent('anthropic', 'claude-3-haiku', 'gemini')).toBe('gemini-1.5-flash');
+    });
+
+    test('uses the recommended model when the source model is unknown', async () => {
+        expect(await ModelCatalogService.findEquivalent('openai', 'gpt-unreleased', 'anthropic')).toBe('claude-3-opus');
+    });
+
+    test('has no equivalent on a provider without catalog models', async () => {
+        expect(await ModelCatalogService.findEquivalent('openai', 'gpt-4', 'local')).toBeUndefined();
+    });
+});
@@ -0,0 +1,111 @@
+import { test, expect } from '@playwright/test';
+import {
+    PrivateAddressError,
+    assertPublicUrl,
+    fetchPublicUrl,
+    isPrivateAddress,
+    lookupPublicAddress,
+    readLimitedText,
+} from '../../src/server/services/network';
+
+test.describe('private addresses', () => {
+    test('covers loopback, private, link-local and metadata ranges', () => {
+        for (const address of [
+            '127.0.0.1',
+            '10.1.2.3',
+            '172.16.0.1',
+            '192.168.1.1',
+            '169.254.169.254',
+            '100.64.0.1',
+            '0.0.0.0',
+            '::1',
+            '::',
+            'fd00::1',
+            'fe80::1',
+        ]) {
+            expect(isPrivateAddress(address), address).toBe(true);
+        }
+    });
+
+    test('checks IPv4-mapped IPv6 addresses against the IPv4 ranges', () => {
+        expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+        expect(isPrivateAddress('::ffff:7f00:1')).toBe(true);
+        expect(isPrivateAddress('[::ffff:10.0.0.1]')).toBe(true);
+        expect(isPrivateAddress('::ffff:93.184.216.34')).toBe(false);
+    });
+
+    test('allows public addresses', () => {
+        for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111']) {
+            expect(isPrivateAddress(address), address).toBe(false);
+        }
+    });
+
+    test('treats anything that is not an IP address as private', () => {
+        expect(isPrivateAddress('localhost')).toBe(true);
+        expect(isPrivateAddress('')).toBe(true);
+    });
+});
+
+test.describe('assertPublicUrl', () => {
+    test('rejects IP literals in private ranges', async () => {
+        await expect(assertPublicUrl('http://127.0.0.1:3000/')).rejects.toBeInstanceOf(PrivateAddressError);
+        await expect(assertPublicUrl('http://[::ffff:127.0.0.1]/')).rejects.toBeInstanceOf(PrivateAddressError);
+        await expect(assertPublicUrl('http://169.254.169.254/latest/meta-data')).rejects.toThrow(/private address/);
+    });
+
+    test('resolves host names before checking them', async () => {
+        await expect(assertPublicUrl('http://localhost:3000/')).rejects.toBeInstanceOf(PrivateAddressError);
+    });
+
+    test('accepts public IP literals without a lookup', async () => {
+        await expect(assertPublicUrl('https://93.184.216.34/hook')).resolves.toBeUndefined();
+    });
+
+    test('rejects other protocols', async () => {
+        await expect(assertPublicUrl('file:///etc/passwd')).rejects.toThrow(/Unsupported protocol/);
+    });
+});
+
+test.describe('public fetches', () => {
+    test('refuse private addresses again when connecting', async () => {
+        const error = await new Promise<Error | null>((resolve) => {
+            lookupPublicAddress('localhost', { all: true }, (lookupError) => resolve(lookupError));
+        });
+
+        expect(error).toBeInstanceOf(PrivateAddressError);
+    });
+
+    test('check the URL before connecting', async () => {
+        await expect(fetchPublicUrl('http://127.0.0.1:3000/')).rejects.toBeInstanceOf(PrivateAddressError);
+        await expect(fetchPublicUrl('file:///etc/passwd')).rejects.toThrow(/Unsupported protocol/);
+    });
+});
+
+test.describe('readLimitedText', () => {
+    const streamed = (...chunks: string[]) => {
+        const encoder = new TextEncoder();
+        let cancelled = false;
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                const chunk = chunks.shift();
+                if (chunk === undefined) controller.close();
+                else controller.enqueue(encoder.encode(chunk));
+            },
+            cancel() {
+                cancelled = true;
+            },
+        });
+        return { response: new Response(body), cancelled: () => cancelled };
+    };
+
+    test('reads a body under the limit', async () => {
+        const { response } = streamed('hello ', 'world');
+        expect(await readLimitedText(response, 100)).toEqual({ text: 'hello world', truncated: false });
+    });
+
+    test('stops at the limit and cancels the rest of the body', async () => {
+        const { response, cancelled } = streamed('abcd', 'efgh', 'ijkl');
+        expect(await readLimitedText(response, 6)).toEqual({ text: 'abcdef', truncated: true });
+        expect(cancelled()).toBe(true);
+    });
+});
@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test';
+import { applyOutlineEdits, normalizeOutline } from '../../src/server/services/document/outline';
+
+// As the outline chain returns it, with fields the review screen doesn't show
+const generated = {
+    early_life: { title: 'Early Life', points: ['Childhood in Leeds', 'School'], narrative_purpose: 'Set the scene' },
+    career: { description: 'Forty years at the mill' },
+    legacy: 'How the town remembers them',
+};
+
+test.describe('outline review', () => {
+    test('reads a generated outline as an ordered list of sections', () => {
+        expect(normalizeOutline(generated)).toEqual([
+            { id: 'early_life', title: 'Early Life', points: ['Childhood in Leeds', 'School'] },
+            { id: 'career', title: 'Career', points: ['Forty years at the mill'] },
+            { id: 'legacy', title: 'Legacy', points: ['How the town remembers them'] },
+        ]);
+        expect(normalizeOutline(null)).toEqual([]);
+        expect(normalizeOutline(['not', 'an', 'outline'])).toEqual([]);
+    });
+
+    test('applies edits, reordering and removals while keeping other fields', () => {
+        const outline = applyOutlineEdits(generated, [
+            { id: 'career', title: 'Working Life', points: ['Forty years at the mill', 'Union work'] },
+            { id: 'early_life', title: 'Early Life', points: ['Childhood in Leeds'] },
+        ]);
+
+        expect(outline).toEqual({
+            career: {
+                description: 'Forty years at the mill',
+                title: 'Working Life',
+                points: ['Forty years at the mill', 'Union work'],
+            },
+            early_life: { title: 'Early Life', points: ['Childhood in Leeds'], narrative_purpose: 'Set the scene' },
+        });
+        expect(Object.keys(outline as object)).toEqual(['career', 'early_life']);
+    });
+
+    test('keeps the approved order for sections added with numeric ids', () => {
+        const outline = applyOutlineEdits(generated, [
+            { id: 'legacy', title: 'Legacy', points: [] },
+            { id: '2', title: 'Family', points: ['Children'] },
+        ]);
+
+        expect(Object.keys(outline as object)).toEqual(['legacy', 'section_2']);
+    });
+});
@@ -0,0 +1,124 @@
+import { test, expect } from '@playwright/test';
+import type { PrismaClient } from '@prisma/client';
+import type { PromptTemplateService as Service } from '../../src/server/services/llm/prompt-templates';
+import { renderPromptTemplate } from '../../src/server/services/llm/prompts/template';
+
+test.describe('prompt templates', () => {
+    test('fills placeholders, including nested values', () => {
+        expect(
+            renderPromptTemplate('Write {{ sectionTitle }} about {{subject.name}} ({{subject.born}}).', {
+                sectionTitle: 'Early Life',
+                subject: { name: 'Ada Holt', born: 1931 },
+            }),
+        ).toBe('Write Early Life about Ada Holt (1931).');
+    });
+
+    test('formats lists and objects and leaves unknown placeholders empty', () => {
+        expect(renderPromptTemplate('{{points}}|{{missing}}|{{a.b.c}}', { points: ['one', 'two'], a: 'flat' }))
+            .toBe('one, two||');
+        expect(renderPromptTemplate('{{outline}}', { outline: { intro: 'Hi' } })).toBe('{\n  "intro": "Hi"\n}');
+    });
+});
+
+test.describe('prompt experiments', () => {
+    // Templates, experiments and assignments are stored in the database
+    test.skip(!process.env.DATABASE_URL, 'Needs DATABASE_URL');
+
+    let PromptTemplateService: typeof Service;
+    let db: PrismaClient;
+    let userId: string;
+
+    test.beforeAll(async () => {
+        // Loaded here so the env they read is only validated when the specs run
+        ({ PromptTemplateService } = await import('../../src/server/services/llm/prompt-templates'));
+        ({ db } = await import('../../src/server/db'));
+
+        const user = await db.user.create({ data: { email: `prompt-templates-${Date.now()}@example.test` } });
+        userId = user.id;
+    });
+
+    test.afterEach(async () => {
+        await db.promptExperiment.deleteMany({ where: { documentType: 'MEDICAL_REPORT' } });
+        await db.promptTemplate.deleteMany({ where: { documentType: 'MEDICAL_REPORT' } });
+    });
+
+    test.afterAll(async () => {
+        await db.user.delete({ where: { id: userId } });
+    });
+
+    const createDocument = (data: { status?: 'COMPLETED' | 'FAILED'; rating?: number } = {}) =>
+        db.document.create({ data: { userId, title: 'Prompt spec', type: 'MEDICAL_REPORT', input: {}, ...data } });
+
+    const createTemplate = async (template: string, active = false) =>
+        db.promptTemplate.create({
+            data: {
+                documentType: 'MEDICAL_REPORT',
+                stage: 'SECTION',
+                version: await PromptTemplateService.nextVersion('MEDICAL_REPORT', 'SECTION'),
+                template,
+                active,
+            },
+        });
+
+    test('uses the active version of a stage and the built-in prompts for the rest', async () => {
+        await createTemplate('Old {{sectionTitle}}');
+        const active = await createTemplate('Active {{sectionTitle}}', true);
+        const document = await createDocument();
+
+        expect(active.version).toBe(2);
+
+        const prompts = await PromptTemplateService.resolveForDocument(document.id);
+        expect(prompts!.section('findings', { title: 'Findings' }, {}, {})).toBe('Active Findings');
+
+        const { DOCUMENT_PROMPTS } = await import('../../src/server/services/llm/prompts');
+        expect(prompts!.outline).toBe(DOCUMENT_PROMPTS.MEDICAL_REPORT!.outline);
+    });
+
+    test('keeps a document on the variant it was first given', async () => {
+        const candidate = await createTemplate('Candidate {{sectionTitle}}');
+        const experiment = await db.promptExperiment.create({
+            data: {
+                name: 'Shorter sections',
+                documentType: 'MEDICAL_REPORT',
+                stage: 'SECTION',
+                variantBId: candidate.id,
+                trafficSplit: 1,
+            },
+        });
+        const document = await createDocument();
+
+        const first = await PromptTemplateService.resolveForDocument(document.id);
+        expect(first!.section('findings', { title: 'Findings' }, {}, {})).toBe('Candidate Findings');
+
+        // A retry after the split changed still gets variant B
+        await db.promptExperiment.update({ where: { id: experiment.id }, data: { trafficSplit: 0 } });
+        const retry = await PromptTemplateService.resolveForDocument(document.id);
+        expect(retry!.section('findings', { title: 'Findings' }, {}, {})).toBe('Candidate Findings');
+
+        // New documents now get variant A, the built-in prompt
+        expect(await PromptTemplateService.resolveForDocument((await createDocument()).id)).toBeUndefined();
+    });
+
+    test('compares variants over completed documents only', async () => {
+        const candidate = await createTemplate('Candidate {{sectionTitle}}');
+        const experiment = await db.promptExperiment.create({
+            data: { name: 'Results', documentType: 'MEDICAL_REPORT', stage: 'SECTION', variantBId: candidate.id },
+        });
+
+        const assign = async (variant: 'A' | 'B', document: { id: string }, qualityScore: number | null) =>
+            db.promptExperimentAssignment.create({
+                data: { experimentId: experiment.id, documentId: document.id, variant, qualityScore },
+            });
+
+        await assign('A', await createDocument({ status: 'COMPLETED', rating: 4 }), 0.6);
+        await assign('A', await createDocument({ status: 'FAILED' }), null);
+        await assign('B', await createDocument({ status: 'COMPLETED', rating: 5 }), 0.8);
+        await assign('B', await createDocument({ status: 'COMPLETED' }), 0.9);
+
+        const [a, b] = await PromptTemplateService.getResults(experiment.id);
+
+        expect(a).toMatchObject({ variant: 'A', documents: 2, completed: 1, scored: 1, avgQualityScore: 0.6, rated: 1, avgRating: 4 });
+        expect(b).toMatchObject({ variant: 'B', documents: 2, completed: 2, scored: 2, rated: 1, avgRating: 5, avgCost: 0 });
+        expect(b!.avgQualityScore).toBeCloseTo(0.85);
+    });
+});
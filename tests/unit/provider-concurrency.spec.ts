@@ -0,0 +1,125 @@
+import { test, expect } from '@playwright/test';
+import type { CompletionParams, CompletionResponse, LLMProvider } from '../../src/server/services/llm/base';
+import {
+    ConcurrencyLimiter,
+    LimitedProvider,
+    PROVIDER_CONCURRENCY,
+} from '../../src/server/services/llm/concurrency';
+
+// Provider whose calls finish only when released, counting those in flight
+function blockingProvider() {
+    let active = 0;
+    let peak = 0;
+    const release: (() => void)[] = [];
+
+    const complete = async (params: CompletionParams): Promise<CompletionResponse> => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise<void>((resolve) => release.push(resolve));
+        active--;
+        return { content: params.prompt, promptTokens: 1, completionTokens: 1, totalTokens: 2, model: params.model };
+    };
+
+    const provider: LLMProvider = {
+        name: 'blocking',
+        generateCompletion: complete,
+        streamCompletion: complete,
+        countTokens: (text) => text.length,
+    };
+
+    return {
+        provider,
+        peak: () => peak,
+        releaseAll: () => release.splice(0).forEach((resolve) => resolve()),
+    };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+test.describe('concurrency limiter', () => {
+    test('runs at most the limit at once and hands slots over in order', async () => {
+        const limiter = new ConcurrencyLimiter(2);
+        const order: number[] = [];
+        const gates = [0, 1, 2, 3].map(() => {
+            let open!: () => void;
+            const gate = new Promise<void>((resolve) => (open = resolve));
+            return { gate, open };
+        });
+
+        const tasks = gates.map(({ gate }, index) =>
+            limiter.run(async () => {
+                order.push(index);
+                await gate;
+            }),
+        );
+
+        await flush();
+        expect(order).toEqual([0, 1]);
+
+        gates[1]!.open();
+        await flush();
+        expect(order).toEqual([0, 1, 2]);
+
+        gates.forEach(({ open }) => open());
+        await Promise.all(tasks);
+        expect(order).toEqual([0, 1, 2, 3]);
+    });
+});
+
+test.describe('limited provider', () => {
+    test('limits calls by the provider that serves them', async () => {
+        const local = blockingProvider();
+        const mock = blockingProvider();
+        const viaLocal = new LimitedProvider('local', local.provider);
+        const viaMock = new LimitedProvider('mock', mock.provider);
+
+        const calls = [
+            ...[1, 2, 3].map(() => viaLocal.generateCompletion({ prompt: 'local', model: 'm' })),
+            ...[1, 2, 3].map(() => viaMock.generateCompletion({ prompt: 'mock', model: 'm' })),
+        ];
+
+        for (let i = 0; i < 6; i++) {
+            await flush();
+            local.releaseAll();
+            mock.releaseAll();
+        }
+        await Promise.all(calls);
+
+        expect(local.peak()).toBe(PROVIDER_CONCURRENCY.local);
+        expect(mock.peak()).toBe(3);
+    });
+
+    test('shares one limit between instances for the same provider', async () => {
+        const first = blockingProvider();
+        const second = blockingProvider();
+        const calls = [
+            new LimitedProvider('local', first.provider).generateCompletion({ prompt: 'a', model: 'm' }),
+            new LimitedProvider('local', second.provider).generateCompletion({ prompt: 'b', model: 'm' }),
+        ];
+
+        await flush();
+        expect(first.peak() + second.peak()).toBe(1);
+
+        first.releaseAll();
+        await flush();
+        second.releaseAll();
+        await Promise.all(calls);
+        expect(second.peak()).toBe(1);
+    });
+
+    test('drops calls cancelled while waiting for a slot', async () => {
+        const blocking = blockingProvider();
+        const limited = new LimitedProvider('local', blocking.provider);
+        const controller = new AbortController();
+
+        const first = limited.generateCompletion({ prompt: 'first', model: 'm' });
+        const second = limited.generateCompletion({ prompt: 'second', model: 'm', signal: controller.signal });
+
+        controller.abort();
+        await flush();
+        blocking.releaseAll();
+
+        await expect(first).resolves.toMatchObject({ content: 'first' });
+        await expect(second).rejects.toThrow('Generation cancelled');
+    });
+});
@@ -0,0 +1,87 @@
+import { test, expect } from '@playwright/test';
+import type { CompletionParams, CompletionResponse, LLMProvider } from '../../src/server/services/llm/base';
+import { SectionChain } from '../../src/server/services/llm/chains/section';
+import {
+    countSectionWords,
+    normalizeSections,
+    replaceSectionContent,
+} from '../../src/server/services/document/sections';
+
+// Both shapes Document.sections is stored in
+const queueSections = [
+    { id: 'career', name: 'Career', content: 'Joined the mill in 1952.', order: 1 },
+    { id: 'early_life', name: 'Early Life', content: 'Born in Leeds.', order: 0 },
+];
+const serviceSections = { early_life: 'Born in Leeds.', career: 'Joined the mill in 1952.' };
+
+test.describe('stored sections', () => {
+    test('reads both stored shapes as an ordered list', () => {
+        expect(normalizeSections(queueSections).map(({ id, title }) => ({ id, title }))).toEqual([
+            { id: 'early_life', title: 'Early Life' },
+            { id: 'career', title: 'Career' },
+        ]);
+        expect(normalizeSections(serviceSections).map(({ id, title }) => ({ id, title }))).toEqual([
+            { id: 'early_life', title: 'Early Life' },
+            { id: 'career', title: 'Career' },
+        ]);
+        expect(normalizeSections(null)).toEqual([]);
+    });
+
+    test('replaces one section without changing the stored shape', () => {
+        expect(replaceSectionContent(queueSections, 'career', 'Ran the mill.')).toEqual([
+            { id: 'career', name: 'Career', content: 'Ran the mill.', order: 1 },
+            queueSections[1],
+        ]);
+        expect(replaceSectionContent(serviceSections, 'career', 'Ran the mill.')).toEqual({
+            early_life: 'Born in Leeds.',
+            career: 'Ran the mill.',
+        });
+        // Leaves the stored value itself untouched
+        expect(queueSections[0]!.content).toBe('Joined the mill in 1952.');
+    });
+
+    test('counts words across sections', () => {
+        expect(countSectionWords(normalizeSections(serviceSections))).toBe(8);
+    });
+});
+
+test.describe('section regeneration', () => {
+    test('rewrites a section with its current text, the user\'s instruction and the sections around it', async () => {
+        const prompts: string[] = [];
+        const complete = async (params: CompletionParams): Promise<CompletionResponse> => {
+            prompts.push(params.prompt);
+            return {
+                content: 'Ran the mill for forty years.',
+                promptTokens: 10,
+                completionTokens: 6,
+                totalTokens: 16,
+                model: params.model,
+            };
+        };
+        const provider: LLMProvider = {
+            name: 'capture',
+            generateCompletion: complete,
+            streamCompletion: complete,
+            countTokens: (text) => text.length,
+        };
+
+        const result = await new SectionChain(provider, 'mock', 'mock-model').generate({
+            outline: serviceSections,
+            previousSections: { early_life: 'Born in Leeds.' },
+            followingSections: { legacy: 'Remembered by the town.' },
+            currentSection: 'career',
+            sectionDetails: { title: 'Career' },
+            documentType: 'BIOGRAPHY',
+            originalInput: { subject: { name: 'Ada Holt', occupation: 'Mill owner' } },
+            targetWords: 6,
+            currentContent: 'Joined the mill in 1952.',
+            instruction: 'Mention how long they stayed',
+        });
+
+        expect(result.content).toBe('Ran the mill for forty years.');
+        expect(prompts[0]).toContain('Previous sections summary for context:\nearly_life: Born in Leeds.');
+        expect(prompts[0]).toContain('Following sections summary (do not repeat their content):\nlegacy: Remembered by the town.');
+        expect(prompts[0]).toContain('Current version of this section, to be rewritten:\nJoined the mill in 1952.');
+        expect(prompts[0]).toContain('Revision instructions from the user: Mention how long they stayed');
+    });
+});
@@ -0,0 +1,129 @@
+import { test, expect } from '@playwright/test';
+import type { GeneratedOutline } from '../../src/server/services/llm';
+import { planSections, scheduleSections } from '../../src/server/services/llm/section-scheduler';
+
+const dependencies = (outline: GeneratedOutline) =>
+    Object.fromEntries(planSections(outline).map((plan) => [plan.id, plan.dependsOn]));
+
+test.describe('section planning', () => {
+    test('makes body sections independent by default', () => {
+        expect(dependencies({ intro: {}, history: {}, legacy: {} })).toEqual({
+            intro: [],
+            history: [],
+            legacy: [],
+        });
+    });
+
+    test('makes summaries wait for the whole body, wherever they are', () => {
+        expect(
+            dependencies({
+                executive_summary: { title: 'Executive Summary' },
+                market: {},
+                plan: {},
+                closing: { title: 'Conclusion' },
+            }),
+        ).toEqual({
+            executive_summary: ['market', 'plan'],
+            market: [],
+            plan: [],
+            closing: ['market', 'plan'],
+        });
+    });
+
+    test('uses only the declared dependencies when dependsOn is set', () => {
+        expect(
+            dependencies({
+                intro: {},
+                team: { dependsOn: [] },
+                finances: { dependsOn: ['intro', 'unknown'] },
+            }),
+        ).toEqual({
+            intro: [],
+            team: [],
+            finances: ['intro'],
+        });
+    });
+});
+
+test.describe('section scheduling', () => {
+    test('writes body sections in parallel and summaries after them', async () => {
+        const written: Array<{ id: string; context: string[] }> = [];
+        let active = 0;
+        let peak = 0;
+
+        const result = await scheduleSections({
+            outline: { intro: {}, history: {}, conclusion: { title: 'Conclusion' } },
+            write: async ({ id }, context) => {
+                written.push({ id, context: Object.keys(context) });
+                active++;
+                peak = Math.max(peak, active);
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                active--;
+                return `${id} text`;
+            },
+        });
+
+        expect(peak).toBe(2);
+        expect(written).toEqual([
+            { id: 'intro', context: [] },
+            { id: 'history', context: [] },
+            { id: 'conclusion', context: ['intro', 'history'] },
+        ]);
+        expect(result).toEqual({ intro: 'intro text', history: 'history text', conclusion: 'conclusion text' });
+    });
+
+    test('runs declared dependencies in order', async () => {
+        const written: string[] = [];
+
+        await scheduleSections({
+            outline: { a: {}, b: { dependsOn: ['a'] }, c: { dependsOn: ['b'] } },
+            write: async ({ id }) => {
+                written.push(id);
+                await new Promise((resolve) => setTimeout(resolve, 5));
+                return id;
+            },
+        });
+
+        expect(written).toEqual(['a', 'b', 'c']);
+    });
+
+    test('passes dependency content to the section that needs it', async () => {
+        let summaryContext: Record<string, string> | undefined;
+
+        await scheduleSections({
+            outline: { summary: { title: 'Executive Summary' }, body: {} },
+            write: async ({ id }, context) => {
+                if (id === 'summary') summaryContext = context;
+                return `${id} text`;
+            },
+        });
+
+        expect(summaryContext).toEqual({ body: 'body text' });
+    });
+
+    test('starts nothing new after a failure and rethrows it', async () => {
+        const started: string[] = [];
+
+        await expect(
+            scheduleSections({
+                outline: { intro: {}, history: {}, summary: { title: 'Summary' } },
+                write: async ({ id }) => {
+                    started.push(id);
+                    if (id === 'history') throw new Error('Provider failed');
+                    return id;
+                },
+            }),
+        ).rejects.toThrow('Provider failed');
+
+        expect(started).toEqual(['intro', 'history']);
+    });
+
+    test('breaks dependency cycles instead of stalling', async () => {
+        const result = await scheduleSections({
+            outline: { a: { dependsOn: ['b'] }, b: { dependsOn: ['a'] } },
+            write: async ({ id }) => id,
+        });
+
+        expect(Object.keys(result)).toEqual(['a', 'b']);
+    });
+});
@@ -0,0 +1,128 @@
+import { test, expect } from '@playwright/test';
+import { readServerSentEvents, throwIfAborted } from '../../src/server/services/llm/utils/stream';
+import { createSectionStream } from '../../src/server/services/progress/section-stream';
+
+// A streaming response whose body arrives in the given pieces
+const eventStream = (...chunks: string[]) => {
+    const encoder = new TextEncoder();
+    return new Response(
+        new ReadableStream<Uint8Array>({
+            start(controller) {
+                for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+                controller.close();
+            },
+        }),
+        { headers: { 'Content-Type': 'text/event-stream' } }
+    );
+};
+
+const readAll = async (response: Response) => {
+    const events: unknown[] = [];
+    for await (const event of readServerSentEvents(response)) events.push(event);
+    return events;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test.describe('server-sent events', () => {
+    test('joins events split across chunks and skips everything but data', async () => {
+        const events = await readAll(eventStream(
+            ': keep-alive\n\n',
+            'data: {"token":"Hel',
+            'lo"}\n\nevent: ping\ndata: not json\n\n',
+            'data: {"token":" there"}\n\n',
+        ));
+
+        expect(events).toEqual([{ token: 'Hello' }, { token: ' there' }]);
+    });
+
+    test('stops at [DONE] and reads a final event without a newline', async () => {
+        expect(await readAll(eventStream('data: {"n":1}\n\ndata: [DONE]\n\ndata: {"n":2}\n\n'))).toEqual([{ n: 1 }]);
+        expect(await readAll(eventStream('data: {"n":1}\n\ndata: {"n":2}'))).toEqual([{ n: 1 }, { n: 2 }]);
+    });
+
+    test('releases the body when the reader stops early', async () => {
+        const response = eventStream('data: {"n":1}\n\ndata: {"n":2}\n\n');
+
+        for await (const event of readServerSentEvents(response)) {
+            expect(event).toEqual({ n: 1 });
+            break;
+        }
+
+        expect(response.body!.locked).toBe(false);
+    });
+
+    test('rejects a response without a body', async () => {
+        await expect(readAll(new Response(null))).rejects.toThrow('Streaming response has no body');
+    });
+
+    test('cancellation throws once the signal fires', () => {
+        const controller = new AbortController();
+
+        expect(() => throwIfAborted(controller.signal)).not.toThrow();
+        controller.abort();
+        expect(() => throwIfAborted(controller.signal)).toThrow('Generation cancelled');
+    });
+});
+
+test.describe('section stream', () => {
+    const interval = 20;
+
+    const setup = (send?: (sectionId: string, content: string) => Promise<void>) => {
+        const sent: Array<[string, string]> = [];
+        const errors: unknown[] = [];
+        const stream = createSectionStream(
+            send ?? (async (sectionId, content) => { sent.push([sectionId, content]); }),
+            { interval, onError: (error) => errors.push(error) }
+        );
+        return { stream, sent, errors };
+    };
+
+    test('sends only the latest text of each section per interval', async () => {
+        const { stream, sent } = setup();
+
+        stream.push('intro', 'Hel');
+        stream.push('intro', 'Hello');
+        stream.push('market', 'The');
+        expect(sent).toEqual([]);
+
+        await wait(interval * 3);
+        expect(sent).toEqual([['intro', 'Hello'], ['market', 'The']]);
+
+        stream.push('intro', 'Hello there');
+        await wait(interval * 3);
+        expect(sent).toHaveLength(3);
+        expect(sent[2]).toEqual(['intro', 'Hello there']);
+    });
+
+    test('flush sends buffered text at once and only once', async () => {
+        const { stream, sent } = setup();
+
+        stream.push('intro', 'Hello');
+        await stream.flush();
+        expect(sent).toEqual([['intro', 'Hello']]);
+
+        await wait(interval * 3);
+        expect(sent).toHaveLength(1);
+    });
+
+    test('close drops buffered text of a cancelled generation', async () => {
+        const { stream, sent } = setup();
+
+        stream.push('intro', 'Hello');
+        stream.close();
+        await wait(interval * 3);
+        await stream.flush();
+
+        expect(sent).toEqual([]);
+    });
+
+    test('reports failed sends instead of throwing', async () => {
+        const { stream, errors } = setup(() => Promise.reject(new Error('Redis down')));
+
+        stream.push('intro', 'Hello');
+        await expect(stream.flush()).resolves.toBeUndefined();
+
+        expect(errors).toEqual([new Error('Redis down')]);
+    });
+});
@@ -0,0 +1,63 @@
+import { test, expect } from '@playwright/test';
+import {
+    cosineSimilarity,
+    describeInput,
+    substituteFields,
+} from '../../src/server/services/cache/semantic-input';
+
+const plan = {
+    businessName: 'Acme Widgets',
+    industry: 'Tech',
+    description: 'We sell widgets to small businesses.',
+    keywords: ['widgets', 'B2B'],
+    createdAt: '2026-01-01',
+};
+
+test.describe('semantic cache input', () => {
+    test('describes inputs that differ only in formatting identically', () => {
+        const reformatted = {
+            keywords: ['b2b', 'Widgets'],
+            description: '  We sell   widgets to small businesses. ',
+            industry: 'tech',
+            businessName: 'ACME Widgets',
+            createdAt: '2026-02-02',
+        };
+
+        expect(describeInput(reformatted)).toBe(describeInput(plan));
+        expect(describeInput(plan)).toBe([
+            'businessName: acme widgets',
+            'description: we sell widgets to small businesses.',
+            'industry: tech',
+            'keywords: b2b, widgets',
+        ].join('\n'));
+    });
+
+    test('substitutes changed field values into a cached outline', () => {
+        const outline = {
+            title: 'Acme Widgets Business Plan',
+            sections: [
+                { title: 'About Acme Widgets', points: ['Technical overview', 'Tech market'] },
+            ],
+        };
+
+        const result = substituteFields(outline, plan, {
+            ...plan,
+            businessName: 'Globex',
+            industry: 'Retail',
+        });
+
+        expect(result.value).toEqual({
+            title: 'Globex Business Plan',
+            sections: [
+                { title: 'About Globex', points: ['Technical overview', 'Retail market'] },
+            ],
+        });
+        expect(result.substitutions.map(change => change.field).sort()).toEqual(['businessName', 'industry']);
+    });
+
+    test('compares embeddings by angle', () => {
+        expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+        expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+        expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    });
+});
@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// The providers read their configuration from the environment when loaded
+let uploadDir: string;
+
+test.beforeAll(async () => {
+    uploadDir = await mkdtemp(path.join(tmpdir(), 'storage-spec-'));
+    process.env.UPLOAD_DIR = uploadDir;
+    process.env.SKIP_ENV_VALIDATION = '1';
+});
+
+test.afterAll(async () => {
+    await rm(uploadDir, { recursive: true, force: true });
+});
+
+test.describe('local storage', () => {
+    test('round-trips files under nested keys', async () => {
+        const { LocalStorageProvider } = await import('../../src/server/services/storage/local-provider');
+        const storage = new LocalStorageProvider();
+        const data = Buffer.from('%PDF-1.7 export');
+
+        expect(await storage.upload(data, 'exports/user-1/report.pdf')).toBe('exports/user-1/report.pdf');
+        expect(await storage.exists('exports/user-1/report.pdf')).toBe(true);
+        expect(await storage.download('exports/user-1/report.pdf')).toEqual(data);
+
+        await storage.delete('exports/user-1/report.pdf');
+        expect(await storage.exists('exports/user-1/report.pdf')).toBe(false);
+        // Deleting a missing file is not an error
+        await storage.delete('exports/user-1/report.pdf');
+    });
+});
+
+test.describe('S3 storage', () => {
+    test('needs both access keys or neither', async () => {
+        const { S3StorageProvider } = await import('../../src/server/services/storage/s3-provider');
+
+        expect(() => new S3StorageProvider({ bucket: 'test', accessKeyId: 'AKIAEXAMPLE' }))
+            .toThrow(/must be set together/);
+        expect(() => new S3StorageProvider({ bucket: 'test', secretAccessKey: 'secret' }))
+            .toThrow(/must be set together/);
+        expect(() => new S3StorageProvider({ bucket: 'test', accessKeyId: 'AKIAEXAMPLE', secretAccessKey: 'secret' }))
+            .not.toThrow();
+        expect(() => new S3StorageProvider({ bucket: 'test' })).not.toThrow();
+    });
+
+    test('builds path-style URLs for S3-compatible endpoints', async () => {
+        const { S3StorageProvider } = await import('../../src/server/services/storage/s3-provider');
+
+        const compatible = new S3StorageProvider({ bucket: 'files', endpoint: 'http://minio.test:9000/' });
+        expect(await compatible.getUrl('exports/a.pdf')).toBe('http://minio.test:9000/files/exports/a.pdf');
+
+        const aws = new S3StorageProvider({ bucket: 'files', region: 'eu-west-1' });
+        expect(await aws.getUrl('exports/a.pdf')).toBe('https://files.s3.amazonaws.com/exports/a.pdf');
+    });
+});
@@ -0,0 +1,171 @@
+import { test, expect } from '@playwright/test';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+    WebCrawler,
+    extractPage,
+    isAllowedByRobots,
+    parseRobotsTxt,
+} from '../../src/server/services/rag/ingestion/web';
+
+const layout = (title: string, body: string) => `<!doctype html>
+<html>
+<head><title>${title}</title><style>body { color: red; }</style></head>
+<body>
+  <nav><a href="/">Home</a> <a href="/about">About</a> <a href="/private/admin">Admin</a></nav>
+  <main>${body}</main>
+  <footer>Copyright Example Co</footer>
+</body>
+</html>`;
+
+const pages: Record<string, string> = {
+    '/': layout('Home', '<h1>Welcome</h1><p>Start at the <a href="/docs#intro">docs</a>.</p>'),
+    '/about': layout('About', '<p>We make widgets &amp; gadgets.</p><a href="https://elsewhere.test/">Partner</a>'),
+    '/docs': layout('Docs', '<p>Read the <a href="/docs/deep">deep dive</a> and <a href="/gone">old page</a>.</p>'),
+    '/docs/deep': layout('Deep', '<p>Only reachable at depth two.</p>'),
+    '/private/admin': layout('Admin', '<p>Secret</p>'),
+};
+
+let server: Server;
+let baseUrl: string;
+const requested: string[] = [];
+
+test.beforeAll(async () => {
+    server = createServer((req, res) => {
+        requested.push(req.url!);
+
+        if (req.url === '/robots.txt') {
+            res.writeHead(200, { 'Content-Type': 'text/plain' });
+            res.end('User-agent: *\nDisallow: /private/\n');
+            return;
+        }
+
+        if (req.url === '/moved') {
+            res.writeHead(302, { Location: '/about' });
+            res.end();
+            return;
+        }
+
+        // Chunked, so there's no Content-Length to check up front
+        if (req.url === '/huge') {
+            res.writeHead(200, { 'Content-Type': 'text/html' });
+            for (let i = 0; i < 64; i++) res.write(`<p>${'x'.repeat(1024)}</p>`);
+            res.end();
+            return;
+        }
+
+        const page = pages[req.url!];
+        res.writeHead(page ? 200 : 404, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(page ?? 'Not found');
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+});
+
+test.describe('web crawler', () => {
+    test('follows same-site links to the configured depth and respects robots.txt', async () => {
+        requested.length = 0;
+        const crawler = new WebCrawler({ maxDepth: 1, maxPages: 20, delayMs: 0, allowPrivateHosts: true });
+
+        const result = await crawler.crawl(`${baseUrl}/`);
+
+        expect(result.pages.map(page => new URL(page.url).pathname).sort()).toEqual(['/', '/about', '/docs']);
+        expect(result.skipped).toEqual([
+            { url: `${baseUrl}/private/admin`, reason: 'Disallowed by robots.txt' },
+        ]);
+        expect(requested).not.toContain('/private/admin');
+        expect(requested).not.toContain('/docs/deep');
+    });
+
+    test('reports pages that no longer exist', async () => {
+        const crawler = new WebCrawler({ maxDepth: 2, maxPages: 20, delayMs: 0, allowPrivateHosts: true });
+
+        const result = await crawler.crawl(`${baseUrl}/docs`);
+
+        expect(result.pages.map(page => page.url)).toContain(`${baseUrl}/docs/deep`);
+        expect(result.missing).toEqual([`${baseUrl}/gone`]);
+    });
+
+    test('refuses private addresses unless allowed', async () => {
+        const crawler = new WebCrawler({ maxDepth: 0, maxPages: 1, delayMs: 0 });
+
+        await expect(crawler.crawl(`${baseUrl}/`)).rejects.toThrow(/private address/);
+        await expect(crawler.crawl('http://[::ffff:127.0.0.1]/')).rejects.toThrow(/private address/);
+    });
+
+    test('checks every redirect before following it', async () => {
+        const fetched: string[] = [];
+        const crawler = new WebCrawler({
+            maxDepth: 0,
+            maxPages: 1,
+            delayMs: 0,
+            fetch: async (input) => {
+                fetched.push(input instanceof Request ? input.url : input.toString());
+                return new Response(null, { status: 302, headers: { Location: 'http://127.0.0.1/admin' } });
+            },
+        });
+
+        const result = await crawler.crawl('http://93.184.216.34/');
+
+        expect(result.pages).toEqual([]);
+        expect(result.skipped).toEqual([
+            { url: 'http://93.184.216.34/', reason: expect.stringMatching(/private address/) },
+        ]);
+        expect(fetched).not.toContain('http://127.0.0.1/admin');
+    });
+
+    test('follows redirects within the site', async () => {
+        const crawler = new WebCrawler({ maxDepth: 0, maxPages: 1, delayMs: 0, allowPrivateHosts: true });
+
+        const result = await crawler.crawl(`${baseUrl}/moved`);
+
+        expect(result.pages.map(page => page.content)).toEqual(['We make widgets & gadgets.\nPartner']);
+    });
+
+    test('stops reading pages larger than maxBytes', async () => {
+        const crawler = new WebCrawler({ maxDepth: 0, maxPages: 1, delayMs: 0, maxBytes: 16 * 1024, allowPrivateHosts: true });
+
+        const result = await crawler.crawl(`${baseUrl}/huge`);
+
+        expect(result.pages).toEqual([]);
+        expect(result.skipped).toEqual([{ url: `${baseUrl}/huge`, reason: 'Page is too large' }]);
+    });
+});
+
+test.describe('page extraction', () => {
+    test('strips navigation and footers and keeps the main content', () => {
+        const page = extractPage(pages['/about']!, 'https://example.com/about');
+
+        expect(page.title).toBe('About');
+        expect(page.content).toBe('We make widgets & gadgets.\nPartner');
+        expect(page.links).toEqual([
+            'https://example.com/',
+            'https://example.com/about',
+            'https://example.com/private/admin',
+        ]);
+    });
+});
+
+test.describe('robots.txt', () => {
+    test('prefers the group naming our agent and the longest matching rule', () => {
+        const rules = parseRobotsTxt([
+            'User-agent: *',
+            'Disallow: /',
+            '',
+            'User-agent: DocGenBot',
+            'Disallow: /drafts',
+            'Allow: /drafts/public',
+            'Crawl-delay: 2',
+        ].join('\n'));
+
+        expect(rules.crawlDelay).toBe(2);
+        expect(isAllowedByRobots(rules, 'https://example.com/guide')).toBe(true);
+        expect(isAllowedByRobots(rules, 'https://example.com/drafts/secret')).toBe(false);
+        expect(isAllowedByRobots(rules, 'https://example.com/drafts/public/post')).toBe(true);
+    });
+});
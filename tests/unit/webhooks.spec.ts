@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import { createHmac } from 'crypto';
+import type { WebhookService as Service } from '../../src/server/services/webhooks';
+
+let WebhookService: typeof Service;
+
+test.beforeAll(async () => {
+    // Loaded here so the env it reads is only validated when the specs run
+    process.env.SKIP_ENV_VALIDATION = '1';
+    ({ WebhookService } = await import('../../src/server/services/webhooks'));
+});
+
+test.describe('webhook signatures', () => {
+    const secret = 'whsec_test';
+    const body = JSON.stringify({ id: 'delivery_1', event: 'document.completed', data: {} });
+
+    test('signs the timestamp and body with the endpoint secret', () => {
+        const expected = createHmac('sha256', secret).update(`1700000000.${body}`).digest('hex');
+        expect(WebhookService.sign(secret, 1700000000, body)).toBe(`sha256=${expected}`);
+    });
+
+    test('changes when the body, timestamp or secret changes', () => {
+        const signature = WebhookService.sign(secret, 1700000000, body);
+        expect(WebhookService.sign(secret, 1700000000, `${body} `)).not.toBe(signature);
+        expect(WebhookService.sign(secret, 1700000001, body)).not.toBe(signature);
+        expect(WebhookService.sign('whsec_other', 1700000000, body)).not.toBe(signature);
+    });
+
+    test('generates distinct prefixed secrets', () => {
+        const secrets = new Set(Array.from({ length: 5 }, () => WebhookService.generateSecret()));
+        expect(secrets.size).toBe(5);
+        for (const generated of secrets) expect(generated).toMatch(/^whsec_[0-9a-f]{48}$/);
+    });
+});
+
+test.describe('webhook endpoints', () => {
+    test('refuse private and loopback addresses', async () => {
+        await expect(WebhookService.assertPublicEndpoint('http://127.0.0.1:4000/hook')).rejects.toThrow(/private address/);
+        await expect(WebhookService.assertPublicEndpoint('http://localhost/hook')).rejects.toThrow(/private address/);
+        await expect(WebhookService.assertPublicEndpoint('http://[::ffff:10.0.0.5]/hook')).rejects.toThrow(/private address/);
+    });
+});